@@ -0,0 +1,690 @@
+/* global acquireVsCodeApi */
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const MAX_SAMPLES = 200000;
+    const MIN_ZOOM = 0.01;
+    const MAX_ZOOM = 100;
+    const FRAME_INTERVAL = 33;
+    const MAX_XY_POINTS = 5000;
+    const DEFAULT_COLORS = ['#1F77B4', '#FF7F0E', '#2CA02C', '#D62728', '#9467BD', '#8C564B', '#E377C2', '#7F7F7F', '#BCBD22', '#17BECF'];
+    const MARGIN = { left: 70, right: 12, top: 10, bottom: 24 };
+
+    const series = {};
+    const annotations = [];
+    let graphs = [];
+    let status = 'stopped';
+    let terminatedAt = null;
+    let paused = false;
+    let zoom = 1;
+    let viewEnd = null;
+    let drag = null;
+    let lastFrame = 0;
+
+    /* Data */
+
+    function getSeries(id) {
+        let s = series[id];
+        if (!s) {
+            s = { t: [], v: [] };
+            series[id] = s;
+        }
+        return s;
+    }
+
+    function lowerBound(array, value) {
+        let low = 0;
+        let high = array.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (array[mid] < value) { low = mid + 1; }
+            else { high = mid; }
+        }
+        return low;
+    }
+
+    function valueAt(s, time) {
+        const idx = lowerBound(s.t, time + 1e-9) - 1;
+        return idx >= 0 ? s.v[idx] : null;
+    }
+
+    function addData(message) {
+        const s = getSeries(message.id);
+
+        // Samples normally arrive in order, but are inserted in place if not so that the arrays stay sorted
+        if (s.t.length === 0 || message.timestamp >= s.t[s.t.length - 1]) {
+            s.t.push(message.timestamp);
+            s.v.push(message.data);
+        }
+        else {
+            const idx = lowerBound(s.t, message.timestamp);
+            s.t.splice(idx, 0, message.timestamp);
+            s.v.splice(idx, 0, message.data);
+        }
+
+        if (s.t.length > MAX_SAMPLES * 1.1) {
+            const excess = s.t.length - MAX_SAMPLES;
+            s.t.splice(0, excess);
+            s.v.splice(0, excess);
+        }
+    }
+
+    function handleMessage(message) {
+        switch (message.type) {
+            case 'data':
+                addData(message);
+                break;
+            case 'status':
+                status = message.status;
+                annotations.push({ time: message.timestamp, status: message.status });
+                terminatedAt = message.status === 'terminated' ? message.timestamp : null;
+                updateStatus();
+                break;
+        }
+    }
+
+    function earliestTime() {
+        let earliest = null;
+        Object.keys(series).forEach((id) => {
+            const s = series[id];
+            if (s.t.length > 0 && (earliest === null || s.t[0] < earliest)) { earliest = s.t[0]; }
+        });
+        return earliest;
+    }
+
+    /* View state */
+
+    function liveEnd() {
+        return terminatedAt !== null ? terminatedAt : Date.now();
+    }
+
+    function currentEnd() {
+        return paused ? viewEnd : liveEnd();
+    }
+
+    function timespan(graph) {
+        const defaultSpan = graph.config.type === 'x-y-plot' ? 10 : 30;
+        return (graph.config.timespan || defaultSpan) * 1000 * zoom;
+    }
+
+    function maximumTimespan() {
+        return graphs.reduce((max, g) => Math.max(max, timespan(g)), 0);
+    }
+
+    function setPaused(value) {
+        if (value && !paused) { viewEnd = liveEnd(); }
+        paused = value;
+        document.getElementById('pause').textContent = paused ? 'Resume' : 'Pause';
+        updateStatus();
+    }
+
+    function setZoom(value) {
+        zoom = Math.min(Math.max(value, MIN_ZOOM), MAX_ZOOM);
+        updateStatus();
+    }
+
+    function updateStatus() {
+        const text = [`Target: ${status}`];
+        if (paused) { text.push('display paused'); }
+        if (zoom !== 1) { text.push(`zoom ${(1 / zoom).toFixed(2)}x`); }
+        document.getElementById('status').textContent = text.join(' | ');
+    }
+
+    function updateScrollbar() {
+        const scroll = document.getElementById('scroll');
+        if (!paused) {
+            scroll.value = 1000;
+            return;
+        }
+
+        const earliest = earliestTime();
+        const live = liveEnd();
+        const span = maximumTimespan();
+        if (earliest === null || live - earliest <= span) {
+            scroll.value = 1000;
+        }
+        else {
+            scroll.value = Math.round((viewEnd - earliest - span) * 1000 / (live - earliest - span));
+        }
+    }
+
+    function scrollTo(position) {
+        const earliest = earliestTime();
+        if (earliest === null) { return; }
+
+        const live = liveEnd();
+        const span = maximumTimespan();
+        setPaused(true);
+        viewEnd = live - earliest <= span ? live : earliest + span + (live - earliest - span) * position / 1000;
+    }
+
+    /* Drawing helpers */
+
+    function themeColor() {
+        return getComputedStyle(document.body).color;
+    }
+
+    function plotColor(plot, idx) {
+        return plot.color || DEFAULT_COLORS[idx % DEFAULT_COLORS.length];
+    }
+
+    function formatValue(value) {
+        if (Math.abs(value) >= 10000 || (Math.abs(value) < 0.01 && value !== 0)) { return value.toExponential(2); }
+        return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+    }
+
+    function plotArea(graph) {
+        const dpr = window.devicePixelRatio || 1;
+        return {
+            left: MARGIN.left * dpr,
+            top: MARGIN.top * dpr,
+            width: graph.canvas.width - (MARGIN.left + MARGIN.right) * dpr,
+            height: graph.canvas.height - (MARGIN.top + MARGIN.bottom) * dpr,
+            dpr: dpr
+        };
+    }
+
+    function setFont(ctx, area) {
+        ctx.font = `${11 * area.dpr}px sans-serif`;
+        ctx.fillStyle = themeColor();
+        ctx.strokeStyle = themeColor();
+    }
+
+    function drawFrame(ctx, area) {
+        ctx.save();
+        ctx.globalAlpha = 0.4;
+        ctx.lineWidth = area.dpr;
+        ctx.strokeRect(area.left, area.top, area.width, area.height);
+        ctx.restore();
+    }
+
+    function drawValueAxis(ctx, area, minimum, maximum) {
+        ctx.save();
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'middle';
+        for (let i = 0; i <= 4; i++) {
+            const value = minimum + (maximum - minimum) * i / 4;
+            const y = area.top + area.height - area.height * i / 4;
+            ctx.fillText(formatValue(value), area.left - 6 * area.dpr, y);
+
+            ctx.globalAlpha = 0.15;
+            ctx.beginPath();
+            ctx.moveTo(area.left, y);
+            ctx.lineTo(area.left + area.width, y);
+            ctx.stroke();
+            ctx.globalAlpha = 1;
+        }
+        ctx.restore();
+    }
+
+    function drawNumericAxis(ctx, area, minimum, maximum) {
+        ctx.save();
+        ctx.textBaseline = 'top';
+        for (let i = 0; i <= 4; i++) {
+            const value = minimum + (maximum - minimum) * i / 4;
+            ctx.textAlign = i === 0 ? 'left' : (i === 4 ? 'right' : 'center');
+            ctx.fillText(formatValue(value), area.left + area.width * i / 4, area.top + area.height + 6 * area.dpr);
+        }
+        ctx.restore();
+    }
+
+    function drawTimeAxis(ctx, area, start, end) {
+        // Times are shown relative to the live edge so that scrolled back views show how far back they are
+        const reference = liveEnd();
+        ctx.save();
+        ctx.textBaseline = 'top';
+        for (let i = 0; i <= 4; i++) {
+            const time = start + (end - start) * i / 4;
+            const x = area.left + area.width * i / 4;
+            ctx.textAlign = i === 0 ? 'left' : (i === 4 ? 'right' : 'center');
+            ctx.fillText(`${((time - reference) / 1000).toFixed(1)}s`, x, area.top + area.height + 6 * area.dpr);
+
+            ctx.globalAlpha = 0.15;
+            ctx.beginPath();
+            ctx.moveTo(x, area.top);
+            ctx.lineTo(x, area.top + area.height);
+            ctx.stroke();
+            ctx.globalAlpha = 1;
+        }
+        ctx.restore();
+    }
+
+    function drawLegend(ctx, area, plots) {
+        ctx.save();
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'top';
+        let y = area.top + 4 * area.dpr;
+        plots.forEach((plot, idx) => {
+            ctx.fillStyle = plotColor(plot, idx);
+            ctx.fillText(plot.label || plot.graphId, area.left + area.width - 6 * area.dpr, y);
+            y += 14 * area.dpr;
+        });
+        ctx.restore();
+    }
+
+    function drawAnnotations(ctx, area, start, end) {
+        ctx.save();
+        ctx.lineWidth = area.dpr;
+        annotations.forEach((a) => {
+            if (a.time < start || a.time > end || a.status === 'terminated') { return; }
+            const x = area.left + (a.time - start) * area.width / (end - start);
+            ctx.strokeStyle = a.status === 'continued' ? '#2CA02C' : '#D62728';
+            ctx.beginPath();
+            ctx.moveTo(x, area.top);
+            ctx.lineTo(x, area.top + area.height);
+            ctx.stroke();
+        });
+        ctx.restore();
+    }
+
+    function clip(ctx, area) {
+        ctx.beginPath();
+        ctx.rect(area.left, area.top, area.width, area.height);
+        ctx.clip();
+    }
+
+    function drawLine(ctx, area, s, start, end, minimum, maximum, color) {
+        const first = Math.max(lowerBound(s.t, start) - 1, 0);
+        const last = Math.min(lowerBound(s.t, end) + 1, s.t.length);
+        if (last - first < 1) { return; }
+
+        const xScale = area.width / (end - start);
+        const yScale = area.height / (maximum - minimum);
+
+        ctx.save();
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5 * area.dpr;
+        ctx.beginPath();
+
+        // Samples that land in the same pixel column are reduced to their minimum and maximum
+        let column = null;
+        let columnMin = 0;
+        let columnMax = 0;
+        let columnLast = 0;
+        for (let i = first; i < last; i++) {
+            const x = Math.round(area.left + (s.t[i] - start) * xScale);
+            const y = area.top + area.height - (s.v[i] - minimum) * yScale;
+
+            if (column === null) {
+                ctx.moveTo(x, y);
+                column = x;
+                columnMin = columnMax = columnLast = y;
+            }
+            else if (x === column) {
+                columnMin = Math.min(columnMin, y);
+                columnMax = Math.max(columnMax, y);
+                columnLast = y;
+            }
+            else {
+                ctx.lineTo(column, columnMin);
+                ctx.lineTo(column, columnMax);
+                ctx.lineTo(column, columnLast);
+                ctx.lineTo(x, columnLast);
+                ctx.lineTo(x, y);
+                column = x;
+                columnMin = columnMax = columnLast = y;
+            }
+        }
+        if (column !== null) {
+            ctx.lineTo(column, columnMin);
+            ctx.lineTo(column, columnMax);
+            ctx.lineTo(column, columnLast);
+        }
+
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    /* Graph renderers */
+
+    // Range of the values of the given series within the time window, used by graphs with autoscale set
+    function visibleRange(ids, start, end) {
+        let minimum = null;
+        let maximum = null;
+        ids.forEach((id) => {
+            const s = getSeries(id);
+            const first = Math.max(lowerBound(s.t, start) - 1, 0);
+            const last = lowerBound(s.t, end + 1e-9);
+            for (let i = first; i < last; i++) {
+                if (minimum === null || s.v[i] < minimum) { minimum = s.v[i]; }
+                if (maximum === null || s.v[i] > maximum) { maximum = s.v[i]; }
+            }
+        });
+
+        if (minimum === null) { return { minimum: 0, maximum: 1 }; }
+        if (minimum === maximum) { return { minimum: minimum - 1, maximum: maximum + 1 }; }
+        const margin = (maximum - minimum) * 0.05;
+        return { minimum: minimum - margin, maximum: maximum + margin };
+    }
+
+    function drawRealtime(graph, ctx, area, start, end) {
+        const config = graph.config;
+        const plots = config.plots || [];
+        const range = config.autoscale ? visibleRange(plots.map((p) => p.graphId), start, end) : null;
+        const minimum = range ? range.minimum : (config.minimum !== undefined ? config.minimum : 0);
+        const maximum = range ? range.maximum : (config.maximum !== undefined ? config.maximum : 65535);
+
+        drawFrame(ctx, area);
+        drawValueAxis(ctx, area, minimum, maximum);
+        drawTimeAxis(ctx, area, start, end);
+
+        ctx.save();
+        clip(ctx, area);
+        if (config.annotate !== false) { drawAnnotations(ctx, area, start, end); }
+        plots.forEach((plot, idx) => drawLine(ctx, area, getSeries(plot.graphId), start, end, minimum, maximum, plotColor(plot, idx)));
+        ctx.restore();
+
+        drawLegend(ctx, area, plots);
+    }
+
+    function drawXY(graph, ctx, area, start, end) {
+        const config = graph.config;
+        const xMinimum = config.xMinimum !== undefined ? config.xMinimum : 0;
+        const xMaximum = config.xMaximum !== undefined ? config.xMaximum : 65535;
+        const yMinimum = config.yMinimum !== undefined ? config.yMinimum : 0;
+        const yMaximum = config.yMaximum !== undefined ? config.yMaximum : 65535;
+        const xs = getSeries(config.xGraphId);
+        const ys = getSeries(config.yGraphId);
+
+        drawFrame(ctx, area);
+        drawValueAxis(ctx, area, yMinimum, yMaximum);
+        drawNumericAxis(ctx, area, xMinimum, xMaximum);
+
+        const first = lowerBound(ys.t, start);
+        const last = lowerBound(ys.t, end + 1e-9);
+        const step = Math.max(Math.ceil((last - first) / MAX_XY_POINTS), 1);
+
+        ctx.save();
+        clip(ctx, area);
+        ctx.fillStyle = config.color || DEFAULT_COLORS[0];
+        for (let i = first; i < last; i += step) {
+            const xValue = valueAt(xs, ys.t[i]);
+            if (xValue === null) { continue; }
+
+            // Older points fade out so that the direction of the trace is visible
+            ctx.globalAlpha = 0.15 + 0.85 * (ys.t[i] - start) / (end - start);
+            const x = area.left + (xValue - xMinimum) * area.width / (xMaximum - xMinimum);
+            const y = area.top + area.height - (ys.v[i] - yMinimum) * area.height / (yMaximum - yMinimum);
+            ctx.fillRect(x - 1.5 * area.dpr, y - 1.5 * area.dpr, 3 * area.dpr, 3 * area.dpr);
+        }
+        ctx.restore();
+    }
+
+    function drawHistogram(graph, ctx, area, start, end) {
+        const config = graph.config;
+        const minimum = config.minimum !== undefined ? config.minimum : 0;
+        const maximum = config.maximum !== undefined ? config.maximum : 65535;
+        const bins = Math.max(config.bins || 20, 1);
+        const s = getSeries(config.graphId);
+
+        const counts = [];
+        for (let i = 0; i < bins; i++) { counts.push(0); }
+
+        const last = lowerBound(s.t, end + 1e-9);
+        for (let i = lowerBound(s.t, start); i < last; i++) {
+            const bin = Math.floor((s.v[i] - minimum) * bins / (maximum - minimum));
+            counts[Math.min(Math.max(bin, 0), bins - 1)] += 1;
+        }
+        const maxCount = Math.max(Math.max.apply(null, counts), 1);
+
+        drawFrame(ctx, area);
+        drawValueAxis(ctx, area, 0, maxCount);
+        drawNumericAxis(ctx, area, minimum, maximum);
+
+        ctx.save();
+        ctx.fillStyle = config.color || DEFAULT_COLORS[0];
+        const width = area.width / bins;
+        counts.forEach((count, idx) => {
+            const height = count * area.height / maxCount;
+            ctx.fillRect(area.left + idx * width + area.dpr, area.top + area.height - height, Math.max(width - 2 * area.dpr, 1), height);
+        });
+        ctx.restore();
+    }
+
+    function drawBars(graph, ctx, area, start, end) {
+        const config = graph.config;
+        const minimum = config.minimum !== undefined ? config.minimum : 0;
+        const maximum = config.maximum !== undefined ? config.maximum : 65535;
+        const plots = config.plots || [];
+
+        ctx.save();
+        ctx.textBaseline = 'middle';
+        const rowHeight = area.height / Math.max(plots.length, 1);
+        plots.forEach((plot, idx) => {
+            const value = valueAt(getSeries(plot.graphId), end);
+            const y = area.top + idx * rowHeight;
+
+            ctx.fillStyle = themeColor();
+            ctx.textAlign = 'right';
+            ctx.fillText(plot.label || plot.graphId, area.left - 6 * area.dpr, y + rowHeight / 2);
+
+            ctx.globalAlpha = 0.15;
+            ctx.fillRect(area.left, y + rowHeight * 0.15, area.width, rowHeight * 0.7);
+            ctx.globalAlpha = 1;
+
+            if (value !== null) {
+                const ratio = Math.min(Math.max((value - minimum) / (maximum - minimum), 0), 1);
+                ctx.fillStyle = plotColor(plot, idx);
+                ctx.fillRect(area.left, y + rowHeight * 0.15, area.width * ratio, rowHeight * 0.7);
+
+                ctx.fillStyle = themeColor();
+                ctx.textAlign = 'left';
+                ctx.fillText(formatValue(value), area.left + 6 * area.dpr, y + rowHeight / 2);
+            }
+        });
+        ctx.restore();
+
+        drawNumericAxis(ctx, area, minimum, maximum);
+    }
+
+    function drawGauges(graph, ctx, area, start, end) {
+        const config = graph.config;
+        const minimum = config.minimum !== undefined ? config.minimum : 0;
+        const maximum = config.maximum !== undefined ? config.maximum : 65535;
+        const plots = config.plots || [];
+
+        const width = graph.canvas.width / Math.max(plots.length, 1);
+        const radius = Math.min(width / 2, graph.canvas.height - 40 * area.dpr) * 0.85;
+
+        ctx.save();
+        ctx.textAlign = 'center';
+        plots.forEach((plot, idx) => {
+            const value = valueAt(getSeries(plot.graphId), end);
+            const cx = width * idx + width / 2;
+            const cy = area.top + radius + 4 * area.dpr;
+
+            ctx.lineWidth = radius * 0.2;
+            ctx.strokeStyle = themeColor();
+            ctx.globalAlpha = 0.15;
+            ctx.beginPath();
+            ctx.arc(cx, cy, radius * 0.9, Math.PI, 2 * Math.PI);
+            ctx.stroke();
+            ctx.globalAlpha = 1;
+
+            if (value !== null) {
+                const ratio = Math.min(Math.max((value - minimum) / (maximum - minimum), 0), 1);
+                ctx.strokeStyle = plotColor(plot, idx);
+                ctx.beginPath();
+                ctx.arc(cx, cy, radius * 0.9, Math.PI, Math.PI + Math.PI * ratio);
+                ctx.stroke();
+            }
+
+            ctx.fillStyle = themeColor();
+            ctx.textBaseline = 'bottom';
+            ctx.fillText(value !== null ? formatValue(value) : '-', cx, cy);
+            ctx.textBaseline = 'top';
+            ctx.fillText(plot.label || plot.graphId, cx, cy + 6 * area.dpr);
+        });
+        ctx.restore();
+    }
+
+    function drawLogic(graph, ctx, area, start, end) {
+        const config = graph.config;
+        const plots = config.plots || [];
+        const laneHeight = area.height / Math.max(plots.length, 1);
+        const xScale = area.width / (end - start);
+
+        drawFrame(ctx, area);
+        drawTimeAxis(ctx, area, start, end);
+
+        ctx.save();
+        ctx.textAlign = 'right';
+        ctx.textBaseline = 'middle';
+        plots.forEach((plot, idx) => {
+            ctx.fillStyle = themeColor();
+            ctx.fillText(plot.label || plot.graphId, area.left - 6 * area.dpr, area.top + laneHeight * (idx + 0.5));
+        });
+
+        clip(ctx, area);
+        if (config.annotate !== false) { drawAnnotations(ctx, area, start, end); }
+        ctx.lineWidth = 1.5 * area.dpr;
+        plots.forEach((plot, idx) => {
+            const s = getSeries(plot.graphId);
+            const level = (value) => plot.bit !== undefined ? ((value >>> plot.bit) & 1) : (value !== 0 ? 1 : 0);
+            const high = area.top + laneHeight * idx + laneHeight * 0.2;
+            const low = area.top + laneHeight * (idx + 1) - laneHeight * 0.2;
+
+            const initial = valueAt(s, start);
+            let y = initial === null ? null : (level(initial) ? high : low);
+
+            ctx.strokeStyle = plotColor(plot, idx);
+            ctx.beginPath();
+            if (y !== null) { ctx.moveTo(x, y); }
+
+            const last = lowerBound(s.t, end + 1e-9);
+            for (let i = lowerBound(s.t, start); i < last; i++) {
+                const nx = area.left + (s.t[i] - start) * xScale;
+                const ny = level(s.v[i]) ? high : low;
+                if (y === null) { ctx.moveTo(nx, ny); }
+                else {
+                    ctx.lineTo(nx, y);
+                    ctx.lineTo(nx, ny);
+                }
+                y = ny;
+            }
+
+            // The last level holds until the next change, so it continues to the right edge of the view
+            if (y !== null) { ctx.lineTo(area.left + area.width, y); }
+            ctx.stroke();
+        });
+        ctx.restore();
+    }
+
+    const RENDERERS = {
+        'realtime': { draw: drawRealtime, height: () => 250 },
+        'x-y-plot': { draw: drawXY, height: () => 300 },
+        'histogram': { draw: drawHistogram, height: () => 250 },
+        'bar': {
+            draw: (graph, ctx, area, start, end) => (graph.config.style === 'gauge' ? drawGauges : drawBars)(graph, ctx, area, start, end),
+            height: (config) => config.style === 'gauge' ? 180 : Math.max((config.plots || []).length, 1) * 32 + MARGIN.top + MARGIN.bottom
+        },
+        'logic': { draw: drawLogic, height: (config) => Math.max((config.plots || []).length, 1) * 36 + MARGIN.top + MARGIN.bottom }
+    };
+
+    /* Layout and interaction */
+
+    function configure(configs) {
+        const container = document.getElementById('graphs');
+        while (container.firstChild) { container.removeChild(container.firstChild); }
+
+        graphs = [];
+        configs.forEach((config) => {
+            const renderer = RENDERERS[config.type];
+            if (!renderer) { return; }
+
+            const element = document.createElement('div');
+            element.className = 'graph';
+            const title = document.createElement('h2');
+            title.textContent = config.label || '';
+            const canvas = document.createElement('canvas');
+            canvas.style.height = `${renderer.height(config)}px`;
+            element.appendChild(title);
+            element.appendChild(canvas);
+            container.appendChild(element);
+
+            const graph = { config: config, renderer: renderer, canvas: canvas, ctx: canvas.getContext('2d') };
+            attachInteraction(graph);
+            graphs.push(graph);
+        });
+    }
+
+    function attachInteraction(graph) {
+        const canvas = graph.canvas;
+
+        canvas.addEventListener('wheel', (e) => {
+            e.preventDefault();
+            setZoom(zoom * (e.deltaY > 0 ? 1.25 : 0.8));
+        });
+
+        canvas.addEventListener('mousedown', (e) => {
+            setPaused(true);
+            drag = { x: e.clientX, end: viewEnd, graph: graph };
+        });
+    }
+
+    window.addEventListener('mousemove', (e) => {
+        if (!drag) { return; }
+        const area = plotArea(drag.graph);
+        const dx = (e.clientX - drag.x) * area.dpr;
+        viewEnd = Math.min(drag.end - dx * timespan(drag.graph) / area.width, liveEnd());
+    });
+
+    window.addEventListener('mouseup', () => {
+        drag = null;
+    });
+
+    function render(now) {
+        window.requestAnimationFrame(render);
+        if (now - lastFrame < FRAME_INTERVAL) { return; }
+        lastFrame = now;
+
+        const end = currentEnd();
+        const dpr = window.devicePixelRatio || 1;
+        graphs.forEach((graph) => {
+            const canvas = graph.canvas;
+            const width = Math.round(canvas.clientWidth * dpr);
+            const height = Math.round(canvas.clientHeight * dpr);
+            if (canvas.width !== width || canvas.height !== height) {
+                canvas.width = width;
+                canvas.height = height;
+            }
+
+            const ctx = graph.ctx;
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            const area = plotArea(graph);
+            setFont(ctx, area);
+            graph.renderer.draw(graph, ctx, area, end - timespan(graph), end);
+        });
+
+        if (!drag) { updateScrollbar(); }
+    }
+
+    document.getElementById('pause').addEventListener('click', () => setPaused(!paused));
+    document.getElementById('zoom-in').addEventListener('click', () => setZoom(zoom * 0.5));
+    document.getElementById('zoom-out').addEventListener('click', () => setZoom(zoom * 2));
+    document.getElementById('zoom-reset').addEventListener('click', () => setZoom(1));
+    document.getElementById('scroll').addEventListener('input', (e) => scrollTo(parseInt(e.target.value, 10)));
+    document.getElementById('live').addEventListener('click', () => setPaused(false));
+    document.getElementById('export').addEventListener('click', () => vscode.postMessage({ type: 'export' }));
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'configure':
+                status = message.status;
+                configure(message.graphs);
+                updateStatus();
+                break;
+            case 'history':
+            case 'batch':
+                message.messages.forEach(handleMessage);
+                break;
+        }
+    });
+
+    updateStatus();
+    window.requestAnimationFrame(render);
+    vscode.postMessage({ type: 'ready' });
+})();
@@ -1,2 +0,0 @@
-!function(t){function n(e){if(r[e])return r[e].exports;var i=r[e]={i:e,l:!1,exports:{}};return t[e].call(i.exports,i,i.exports,n),i.l=!0,i.exports}var r={};n.m=t,n.c=r,n.i=function(t){return t},n.d=function(t,r,e){n.o(t,r)||Object.defineProperty(t,r,{configurable:!1,enumerable:!0,get:e})},n.n=function(t){var r=t&&t.__esModule?function(){return t.default}:function(){return t};return n.d(r,"a",r),r},n.o=function(t,n){return Object.prototype.hasOwnProperty.call(t,n)},n.p="",n(n.s=466)}([function(t,n,r){"use strict";function e(t){return t>1?0:t<-1?c:Math.acos(t)}function i(t){return t>1?f:t<-1?-f:Math.asin(t)}function u(t){return(t=w(t/2))*t}r.d(n,"o",function(){return a}),r.d(n,"w",function(){return o}),r.d(n,"a",function(){return c}),r.d(n,"k",function(){return f}),r.d(n,"v",function(){return s}),r.d(n,"b",function(){return l}),r.d(n,"h",function(){return h}),r.d(n,"g",function(){return d}),r.d(n,"p",function(){return p}),r.d(n,"l",function(){return v}),r.d(n,"e",function(){return g}),r.d(n,"c",function(){return y}),r.d(n,"u",function(){return _}),r.d(n,"m",function(){return b}),r.d(n,"i",function(){return m}),r.d(n,"r",function(){return x}),r.d(n,"d",function(){return w}),r.d(n,"q",function(){return M}),r.d(n,"n",function(){return k}),r.d(n,"j",function(){return T}),n.s=e,n.f=i,n.t=u;var a=1e-6,o=1e-12,c=Math.PI,f=c/2,s=c/4,l=2*c,h=180/c,d=c/180,p=Math.abs,v=Math.atan,g=Math.atan2,y=Math.cos,_=Math.ceil,b=Math.exp,m=(Math.floor,Math.log),x=Math.pow,w=Math.sin,M=Math.sign||function(t){return t>0?1:t<0?-1:0},k=Math.sqrt,T=Math.tan},function(t,n,r){"use strict";var e=r(74);r.d(n,"a",function(){return e.a});var i=r(361);r.d(n,"b",function(){return i.a});var u=r(146);r.d(n,"c",function(){return u.a});var a=r(362);r.d(n,"d",function(){return a.a});var o=r(75);r.d(n,"e",function(){return o.a});var c=r(76);r.d(n,"f",function(){return c.a});var f=r(42);r.d(n,"g",function(){return f.a});var s=r(363);r.d(n,"h",function(){return s.a});var l=r(364);r.d(n,"i",function(){return l.a});var h=r(5);r.d(n,"j",function(){return h.a});var d=r(78);r.d(n,"k",function(){return d.a});var p=r(150);r.d(n,"l",function(){return p.a});var v=r(149);r.d(n,"m",function(){return v.a});var g=r(391);r.d(n,"n",function(){return g.a});var y=r(392);r.d(n,"o",function(){return y.a});var _=r(80);r.d(n,"p",function(){return _.a});var b=r(77);r.d(n,"q",function(){return b.a}),r.d(n,"r",function(){return b.b})},function(t,n,r){"use strict";function e(t,n,r,a){function o(n){return t(n=new Date(+n)),n}return o.floor=o,o.ceil=function(r){return t(r=new Date(r-1)),n(r,1),t(r),r},o.round=function(t){var n=o(t),r=o.ceil(t);return t-n<r-t?n:r},o.offset=function(t,r){return n(t=new Date(+t),null==r?1:Math.floor(r)),t},o.range=function(r,e,i){var u,a=[];if(r=o.ceil(r),i=null==i?1:Math.floor(i),!(r<e&&i>0))return a;do{a.push(u=new Date(+r)),n(r,i),t(r)}while(u<r&&r<e);return a},o.filter=function(r){return e(function(n){if(n>=n)for(;t(n),!r(n);)n.setTime(n-1)},function(t,e){if(t>=t)if(e<0)for(;++e<=0;)for(;n(t,-1),!r(t););else for(;--e>=0;)for(;n(t,1),!r(t););})},r&&(o.count=function(n,e){return i.setTime(+n),u.setTime(+e),t(i),t(u),Math.floor(r(i,u))},o.every=function(t){return t=Math.floor(t),isFinite(t)&&t>0?t>1?o.filter(a?function(n){return a(n)%t==0}:function(n){return o.count(0,n)%t==0}):o:null}),o}n.a=e;var i=new Date,u=new Date},function(t,n,r){"use strict";var e=r(92);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c});var i=r(17);r.d(n,"d",function(){return i.a});var u=r(93);r.d(n,"e",function(){return u.a});var a=r(177);r.d(n,"f",function(){return a.a});var o=r(178);r.d(n,"g",function(){return o.a});var c=r(94);r.d(n,"h",function(){return c.a});var f=r(95);r.d(n,"i",function(){return f.a});var s=r(179);r.d(n,"j",function(){return s.a});var l=r(189);r.d(n,"k",function(){return l.a});var h=r(190);r.d(n,"l",function(){return h.a});var d=r(99);r.d(n,"m",function(){return d.a});var p=r(181);r.d(n,"n",function(){return p.a});var v=r(182);r.d(n,"o",function(){return v.a});var g=r(183);r.d(n,"p",function(){return g.a});var y=r(184);r.d(n,"q",function(){return y.a});var _=r(96);r.d(n,"r",function(){return _.a});var b=r(97);r.d(n,"s",function(){return b.a});var m=r(185);r.d(n,"t",function(){return m.a});var x=r(50);r.d(n,"u",function(){return x.a});var w=r(98);r.d(n,"v",function(){return w.a});var M=r(186);r.d(n,"w",function(){return M.a});var k=r(187);r.d(n,"x",function(){return k.a});var T=r(188);r.d(n,"y",function(){return T.a});var A=r(100);r.d(n,"z",function(){return A.a}),r.d(n,"A",function(){return A.b}),r.d(n,"B",function(){return A.c});var S=r(101);r.d(n,"C",function(){return S.a});var E=r(102);r.d(n,"D",function(){return E.a});var N=r(191);r.d(n,"E",function(){return N.a})},function(t,n,r){"use strict";var e=r(69);r.d(n,"a",function(){return e.a});var i=r(132);r.d(n,"b",function(){return i.a});var u=r(68);r.d(n,"c",function(){return u.a});var a=r(133);r.d(n,"d",function(){return a.a});var o=r(135);r.d(n,"e",function(){return o.a});var c=r(39);r.d(n,"f",function(){return c.a});var f=r(136);r.d(n,"g",function(){return f.a});var s=r(301);r.d(n,"h",function(){return s.a});var l=r(138);r.d(n,"i",function(){return l.a});var h=r(303);r.d(n,"j",function(){return h.a}),r.d(n,"k",function(){return h.b});var d=r(305);r.d(n,"l",function(){return d.a});var p=r(137);r.d(n,"m",function(){return p.a}),r.d(n,"n",function(){return p.b}),r.d(n,"o",function(){return p.c});var v=r(298);r.d(n,"p",function(){return v.a}),r.d(n,"q",function(){return v.b});var g=r(299);r.d(n,"r",function(){return g.a});var y=r(297);r.d(n,"s",function(){return y.a}),r.d(n,"t",function(){return y.b});var _=r(296);r.d(n,"u",function(){return _.a}),r.d(n,"v",function(){return _.b});var b=r(300);r.d(n,"w",function(){return b.a})},function(t,n,r){"use strict";function e(t,n){this._groups=t,this._parents=n}function i(){return new e([[document.documentElement]],D)}var u=r(386),a=r(387),o=r(375),c=r(369),f=r(147),s=r(374),l=r(379),h=r(382),d=r(389),p=r(367),v=r(381),g=r(380),y=r(388),_=r(373),b=r(372),m=r(366),x=r(149),w=r(383),M=r(368),k=r(390),T=r(376),A=r(384),S=r(378),E=r(365),N=r(377),C=r(385),q=r(370),z=r(77),P=r(371);r.d(n,"c",function(){return D}),n.b=e;var D=[null];e.prototype=i.prototype={constructor:e,select:u.a,selectAll:a.a,filter:o.a,data:c.a,enter:f.a,exit:s.a,merge:l.a,order:h.a,sort:d.a,call:p.a,nodes:v.a,node:g.a,size:y.a,empty:_.a,each:b.a,attr:m.a,style:x.b,property:w.a,classed:M.a,text:k.a,html:T.a,raise:A.a,lower:S.a,append:E.a,insert:N.a,remove:C.a,datum:q.a,on:z.c,dispatch:P.a},n.a=i},function(t,n,r){"use strict";function e(t,n){var r=u(t,n);if(r.state>l)throw new Error("too late; already scheduled");return r}function i(t,n){var r=u(t,n);if(r.state>d)throw new Error("too late; already started");return r}function u(t,n){var r=t.__transition;if(!r||!(r=r[n]))throw new Error("transition not found");return r}function a(t,n,e){function i(t){e.state=h,e.timer.restart(u,e.delay,e.time),e.delay<=t&&u(t-e.delay)}function u(i){var l,g,_,b;if(e.state!==h)return o();for(l in s)if(b=s[l],b.name===e.name){if(b.state===p)return r.i(c.d)(u);b.state===v?(b.state=y,b.timer.stop(),b.on.call("interrupt",t,t.__data__,b.index,b.group),delete s[l]):+l<n&&(b.state=y,b.timer.stop(),delete s[l])}if(r.i(c.d)(function(){e.state===p&&(e.state=v,e.timer.restart(a,e.delay,e.time),a(i))}),e.state=d,e.on.call("start",t,t.__data__,e.index,e.group),e.state===d){for(e.state=p,f=new Array(_=e.tween.length),l=0,g=-1;l<_;++l)(b=e.tween[l].value.call(t,t.__data__,e.index,e.group))&&(f[++g]=b);f.length=g+1}}function a(n){for(var r=n<e.duration?e.ease.call(null,n/e.duration):(e.timer.restart(o),e.state=g,1),i=-1,u=f.length;++i<u;)f[i].call(null,r);e.state===g&&(e.on.call("end",t,t.__data__,e.index,e.group),o())}function o(){e.state=y,e.timer.stop(),delete s[n];for(var r in s)return;delete t.__transition}var f,s=t.__transition;s[n]=e,e.timer=r.i(c.b)(i,0,e.time)}var o=r(12),c=r(48);r.d(n,"d",function(){return h}),r.d(n,"a",function(){return d}),r.d(n,"b",function(){return g}),r.d(n,"c",function(){return y}),n.g=e,n.e=i,n.f=u;var f=r.i(o.a)("start","end","interrupt"),s=[],l=0,h=1,d=2,p=3,v=4,g=5,y=6;n.h=function(t,n,r,e,i,u){var o=t.__transition;if(o){if(r in o)return}else t.__transition={};a(t,r,{name:n,index:e,group:i,on:f,tween:s,time:u.time,delay:u.delay,duration:u.duration,ease:u.ease,timer:null,state:l})}},function(t,n,r){"use strict";var e=r(52);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c});var i=r(212);r.d(n,"d",function(){return i.a}),r.d(n,"e",function(){return i.b});var u=r(211);r.d(n,"f",function(){return u.a})},function(t,n,r){"use strict";function e(t){return r.i(d.b)({point:function(n,r){var e=t(n,r);return this.stream.point(e[0],e[1])}})}function i(t){return u(function(){return t})()}function u(t){function n(t){return t=w(t[0]*l.g,t[1]*l.g),[t[0]*E+b,m-t[1]*E]}function i(t){return(t=w.invert((t[0]-b)/E,(m-t[1])/E))&&[t[0]*l.h,t[1]*l.h]}function u(t,n){return t=_(t,n),[t[0]*E+b,m-t[1]*E]}function d(){w=r.i(f.a)(x=r.i(h.b)(P,D,R),_);var t=_(q,z);return b=N-t[0]*E,m=C+t[1]*E,y()}function y(){return A=S=null,n}var _,b,m,x,w,M,k,T,A,S,E=150,N=480,C=250,q=0,z=0,P=0,D=0,R=0,L=null,U=a.a,O=null,j=s.a,F=.5,I=r.i(v.a)(u,F);return n.stream=function(t){return A&&S===t?A:A=g(e(x)(U(I(j(S=t)))))},n.preclip=function(t){return arguments.length?(U=t,L=void 0,y()):U},n.postclip=function(t){return arguments.length?(j=t,O=M=k=T=null,y()):j},n.clipAngle=function(t){return arguments.length?(U=+t?r.i(o.a)(L=t*l.g):(L=null,a.a),y()):L*l.h},n.clipExtent=function(t){return arguments.length?(j=null==t?(O=M=k=T=null,s.a):r.i(c.a)(O=+t[0][0],M=+t[0][1],k=+t[1][0],T=+t[1][1]),y()):null==O?null:[[O,M],[k,T]]},n.scale=function(t){return arguments.length?(E=+t,d()):E},n.translate=function(t){return arguments.length?(N=+t[0],C=+t[1],d()):[N,C]},n.center=function(t){return arguments.length?(q=t[0]%360*l.g,z=t[1]%360*l.g,d()):[q*l.h,z*l.h]},n.rotate=function(t){return arguments.length?(P=t[0]%360*l.g,D=t[1]%360*l.g,R=t.length>2?t[2]%360*l.g:0,d()):[P*l.h,D*l.h,R*l.h]},n.precision=function(t){return arguments.length?(I=r.i(v.a)(u,F=t*t),y()):r.i(l.n)(F)},n.fitExtent=function(t,e){return r.i(p.a)(n,t,e)},n.fitSize=function(t,e){return r.i(p.b)(n,t,e)},n.fitWidth=function(t,e){return r.i(p.c)(n,t,e)},n.fitHeight=function(t,e){return r.i(p.d)(n,t,e)},function(){return _=t.apply(this,arguments),n.invert=_.invert&&i,d()}}var a=r(115),o=r(117),c=r(35),f=r(120),s=r(60),l=r(0),h=r(36),d=r(37),p=r(63),v=r(271);n.a=i,n.b=u;var g=r.i(d.b)({point:function(t,n){this.stream.point(t*l.g,n*l.g)}})},function(t,n,r){"use strict";r.d(n,"e",function(){return e}),r.d(n,"d",function(){return i}),r.d(n,"c",function(){return u}),r.d(n,"b",function(){return a}),r.d(n,"a",function(){return o});var e=1e3,i=6e4,u=36e5,a=864e5,o=6048e5},function(t,n,r){"use strict";function e(){}n.a=e},function(t,n,r){"use strict";function e(t,n,r,e){this._groups=t,this._parents=n,this._name=r,this._id=e}function i(t){return r.i(a.j)().transition(t)}function u(){return++k}var a=r(1),o=r(439),c=r(440),f=r(441),s=r(442),l=r(443),h=r(444),d=r(445),p=r(446),v=r(447),g=r(448),y=r(449),_=r(450),b=r(451),m=r(452),x=r(453),w=r(454),M=r(49);n.b=e,n.a=i,n.c=u;var k=0,T=a.j.prototype;e.prototype=i.prototype={constructor:e,select:g.a,selectAll:y.a,filter:h.a,merge:d.a,selection:_.a,transition:w.a,call:T.call,nodes:T.nodes,node:T.node,size:T.size,empty:T.empty,each:T.each,on:p.a,attr:o.a,attrTween:c.a,style:b.a,styleTween:m.a,text:x.a,remove:v.a,tween:M.a,delay:f.a,duration:s.a,ease:l.a}},function(t,n,r){"use strict";var e=r(213);r.d(n,"a",function(){return e.a})},function(t,n,r){"use strict";function e(t,n){t&&o.hasOwnProperty(t.type)&&o[t.type](t,n)}function i(t,n,r){var e,i=-1,u=t.length-r;for(n.lineStart();++i<u;)e=t[i],n.point(e[0],e[1],e[2]);n.lineEnd()}function u(t,n){var r=-1,e=t.length;for(n.polygonStart();++r<e;)i(t[r],n,1);n.polygonEnd()}var a={Feature:function(t,n){e(t.geometry,n)},FeatureCollection:function(t,n){for(var r=t.features,i=-1,u=r.length;++i<u;)e(r[i].geometry,n)}},o={Sphere:function(t,n){n.sphere()},Point:function(t,n){t=t.coordinates,n.point(t[0],t[1],t[2])},MultiPoint:function(t,n){for(var r=t.coordinates,e=-1,i=r.length;++e<i;)t=r[e],n.point(t[0],t[1],t[2])},LineString:function(t,n){i(t.coordinates,n,0)},MultiLineString:function(t,n){for(var r=t.coordinates,e=-1,u=r.length;++e<u;)i(r[e],n,0)},Polygon:function(t,n){u(t.coordinates,n)},MultiPolygon:function(t,n){for(var r=t.coordinates,e=-1,i=r.length;++e<i;)u(r[e],n)},GeometryCollection:function(t,n){for(var r=t.geometries,i=-1,u=r.length;++i<u;)e(r[i],n)}};n.a=function(t,n){t&&a.hasOwnProperty(t.type)?a[t.type](t,n):e(t,n)}},function(t,n,r){"use strict";var e=r(306);r.d(n,"a",function(){return e.a})},function(t,n,r){"use strict";r.d(n,"a",function(){return i}),r.d(n,"b",function(){return u});var e=Array.prototype,i=e.map,u=e.slice},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";n.a=function(t,n){return t<n?-1:t>n?1:t>=n?0:NaN}},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(){this.reset()}function i(t,n,r){var e=t.s=n+r,i=e-n,u=e-i;t.t=n-u+(r-i)}n.a=function(){return new e},e.prototype={constructor:e,reset:function(){this.s=this.t=0},add:function(t){i(u,t,this.t),i(this,u.s,this.s),this.s?this.t+=u.t:this.s=u.t},valueOf:function(){return this.s}};var u=new e},function(t,n,r){"use strict";n.a=function(){return Math.random()}},function(t,n,r){"use strict";n.a=function(t){return null===t?NaN:+t}},function(t,n,r){"use strict";var e=r(208);r.d(n,"a",function(){return e.a});var i=r(209);r.d(n,"b",function(){return i.a});var u=r(51);r.d(n,"c",function(){return u.a});var a=r(207);r.d(n,"d",function(){return a.a});var o=r(210);r.d(n,"e",function(){return o.a});var c=r(206);r.d(n,"f",function(){return c.a})},function(t,n,r){"use strict";function e(t){return[r.i(s.e)(t[1],t[0]),r.i(s.f)(t[2])]}function i(t){var n=t[0],e=t[1],i=r.i(s.c)(e);return[i*r.i(s.c)(n),i*r.i(s.d)(n),r.i(s.d)(e)]}function u(t,n){return t[0]*n[0]+t[1]*n[1]+t[2]*n[2]}function a(t,n){return[t[1]*n[2]-t[2]*n[1],t[2]*n[0]-t[0]*n[2],t[0]*n[1]-t[1]*n[0]]}function o(t,n){t[0]+=n[0],t[1]+=n[1],t[2]+=n[2]}function c(t,n){return[t[0]*n,t[1]*n,t[2]*n]}function f(t){var n=r.i(s.n)(t[0]*t[0]+t[1]*t[1]+t[2]*t[2]);t[0]/=n,t[1]/=n,t[2]/=n}var s=r(0);n.g=e,n.a=i,n.d=u,n.b=a,n.f=o,n.e=c,n.c=f},function(t,n,r){"use strict";function e(t){return function(n,e){var i=r.i(u.c)(n),a=r.i(u.c)(e),o=t(i*a);return[o*a*r.i(u.d)(n),o*r.i(u.d)(e)]}}function i(t){return function(n,e){var i=r.i(u.n)(n*n+e*e),a=t(i),o=r.i(u.d)(a),c=r.i(u.c)(a);return[r.i(u.e)(n*o,i*c),r.i(u.f)(i&&e*o/i)]}}var u=r(0);n.b=e,n.a=i},function(t,n,r){"use strict";n.a=function(t,n,r,e,i){for(var u,a=t.children,o=-1,c=a.length,f=t.value&&(e-n)/t.value;++o<c;)u=a[o],u.y0=r,u.y1=i,u.x0=n,u.x1=n+=u.value*f}},function(t,n,r){"use strict";function e(t,n){return function(r){return t+r*n}}function i(t,n,r){return t=Math.pow(t,r),n=Math.pow(n,r)-t,r=1/r,function(e){return Math.pow(t+e*n,r)}}function u(t,n){var i=n-t;return i?e(t,i>180||i<-180?i-360*Math.round(i/360):i):r.i(c.a)(isNaN(t)?n:t)}function a(t){return 1==(t=+t)?o:function(n,e){return e-n?i(n,e,t):r.i(c.a)(isNaN(n)?e:n)}}function o(t,n){var i=n-t;return i?e(t,i):r.i(c.a)(isNaN(t)?n:t)}var c=r(134);n.b=u,n.c=a,n.a=o},function(t,n,r){"use strict";n.a=function(t){return t.match(/.{6}/g).map(function(t){return"#"+t})}},function(t,n,r){"use strict";function e(t){var n=t.domain;return t.ticks=function(t){var e=n();return r.i(u.z)(e[0],e[e.length-1],null==t?10:t)},t.tickFormat=function(t,e){return r.i(c.a)(n(),t,e)},t.nice=function(e){null==e&&(e=10);var i,a=n(),o=0,c=a.length-1,f=a[o],s=a[c];return s<f&&(i=f,f=s,s=i,i=o,o=c,c=i),i=r.i(u.A)(f,s,e),i>0?(f=Math.floor(f/i)*i,s=Math.ceil(s/i)*i,i=r.i(u.A)(f,s,e)):i<0&&(f=Math.ceil(f*i)/i,s=Math.floor(s*i)/i,i=r.i(u.A)(f,s,e)),i>0?(a[o]=Math.floor(f/i)*i,a[c]=Math.ceil(s/i)*i,n(a)):i<0&&(a[o]=Math.ceil(f*i)/i,a[c]=Math.floor(s*i)/i,n(a)),t},t}function i(){var t=r.i(o.a)(o.b,a.f);return t.copy=function(){return r.i(o.c)(t,i())},e(t)}var u=r(3),a=r(4),o=r(41),c=r(357);n.b=e,n.a=i},function(t,n,r){"use strict";function e(t){return t>1?0:t<-1?d:Math.acos(t)}function i(t){return t>=1?p:t<=-1?-p:Math.asin(t)}r.d(n,"g",function(){return u}),r.d(n,"m",function(){return a}),r.d(n,"h",function(){return o}),r.d(n,"e",function(){return c}),r.d(n,"j",function(){return f}),r.d(n,"i",function(){return s}),r.d(n,"d",function(){return l}),r.d(n,"a",function(){return h}),r.d(n,"b",function(){return d}),r.d(n,"f",function(){return p}),r.d(n,"c",function(){return v}),n.l=e,n.k=i;var u=Math.abs,a=Math.atan2,o=Math.cos,c=Math.max,f=Math.min,s=Math.sin,l=Math.sqrt,h=1e-12,d=Math.PI,p=d/2,v=2*d},function(t,n,r){"use strict";n.a=function(t,n){if((i=t.length)>1)for(var r,e,i,u=1,a=t[n[0]],o=a.length;u<i;++u)for(e=a,a=t[n[u]],r=0;r<o;++r)a[r][1]+=a[r][0]=isNaN(e[r][1])?e[r][0]:e[r][1]}},function(t,n,r){"use strict";n.a=function(t){for(var n=t.length,r=new Array(n);--n>=0;)r[n]=n;return r}},function(t,n,r){"use strict";function e(t,n,r){return(t[0]-r[0])*(n[1]-t[1])-(t[0]-n[0])*(r[1]-t[1])}function i(t,n){return n[1]-t[1]||n[0]-t[0]}function u(t,n){var e,u,v,g=t.sort(i).pop();for(p=[],h=new Array(t.length),l=new s.a,d=new s.a;;)if(v=c.a,g&&(!v||g[1]<v.y||g[1]===v.y&&g[0]<v.x))g[0]===e&&g[1]===u||(r.i(a.a)(g),e=g[0],u=g[1]),g=t.pop();else{if(!v)break;r.i(a.b)(v.arc)}if(r.i(o.a)(),n){var y=+n[0][0],_=+n[0][1],b=+n[1][0],m=+n[1][1];r.i(f.a)(y,_,b,m),r.i(o.b)(y,_,b,m)}this.edges=p,this.cells=h,l=d=p=h=null}var a=r(456),o=r(169),c=r(170),f=r(89),s=r(90);r.d(n,"b",function(){return v}),r.d(n,"f",function(){return g}),r.d(n,"e",function(){return l}),r.d(n,"c",function(){return h}),r.d(n,"g",function(){return d}),r.d(n,"d",function(){return p}),n.a=u;var l,h,d,p,v=1e-6,g=1e-12;u.prototype={constructor:u,polygons:function(){var t=this.edges;return this.cells.map(function(n){var e=n.halfedges.map(function(e){return r.i(o.c)(n,t[e])});return e.data=n.site.data,e})},triangles:function(){var t=[],n=this.edges;return this.cells.forEach(function(r,i){if(a=(u=r.halfedges).length)for(var u,a,o,c=r.site,f=-1,s=n[u[a-1]],l=s.left===c?s.right:s.left;++f<a;)o=l,s=n[u[f]],l=s.left===c?s.right:s.left,o&&l&&i<o.index&&i<l.index&&e(c,o,l)<0&&t.push([c.data,o.data,l.data])}),t},links:function(){return this.edges.filter(function(t){return t.right}).map(function(t){return{source:t.left.data,target:t.right.data}})},find:function(t,n,r){for(var e,i,u=this,a=u._found||0,o=u.cells.length;!(i=u.cells[a]);)if(++a>=o)return null;var c=t-i.site[0],f=n-i.site[1],s=c*c+f*f;do{i=u.cells[e=a],a=null,i.halfedges.forEach(function(r){var e=u.edges[r],o=e.left;if(o!==i.site&&o||(o=e.right)){var c=t-o[0],f=n-o[1],l=c*c+f*f;l<s&&(s=l,a=o.index)}})}while(null!==a);return u._found=e,null==r||s<=r*r?i.site:null}}},function(t,n,r){"use strict";Object.defineProperty(n,"__esModule",{value:!0});var e=r(465);r.d(n,"version",function(){return e.a});var i=r(3);r.d(n,"bisect",function(){return i.a}),r.d(n,"bisectRight",function(){return i.b}),r.d(n,"bisectLeft",function(){return i.c}),r.d(n,"ascending",function(){return i.d}),r.d(n,"bisector",function(){return i.e}),r.d(n,"cross",function(){return i.f}),r.d(n,"descending",function(){return i.g}),r.d(n,"deviation",function(){return i.h}),r.d(n,"extent",function(){return i.i}),r.d(n,"histogram",function(){return i.j}),r.d(n,"thresholdFreedmanDiaconis",function(){return i.k}),r.d(n,"thresholdScott",function(){return i.l}),r.d(n,"thresholdSturges",function(){return i.m}),r.d(n,"max",function(){return i.n}),r.d(n,"mean",function(){return i.o}),r.d(n,"median",function(){return i.p}),r.d(n,"merge",function(){return i.q}),r.d(n,"min",function(){return i.r}),r.d(n,"pairs",function(){return i.s}),r.d(n,"permute",function(){return i.t}),r.d(n,"quantile",function(){return i.u}),r.d(n,"range",function(){return i.v}),r.d(n,"scan",function(){return i.w}),r.d(n,"shuffle",function(){return i.x}),r.d(n,"sum",function(){return i.y}),r.d(n,"ticks",function(){return i.z}),r.d(n,"tickIncrement",function(){return i.A}),r.d(n,"tickStep",function(){return i.B}),r.d(n,"transpose",function(){return i.C}),r.d(n,"variance",function(){return i.D}),r.d(n,"zip",function(){return i.E});var u=r(192);r.d(n,"axisTop",function(){return u.a}),r.d(n,"axisRight",function(){return u.b}),r.d(n,"axisBottom",function(){return u.c}),r.d(n,"axisLeft",function(){return u.d});var a=r(196);r.d(n,"brush",function(){return a.a}),r.d(n,"brushX",function(){return a.b}),r.d(n,"brushY",function(){return a.c}),r.d(n,"brushSelection",function(){return a.d});var o=r(201);r.d(n,"chord",function(){return o.a}),r.d(n,"ribbon",function(){return o.b});var c=r(22);r.d(n,"nest",function(){return c.a}),r.d(n,"set",function(){return c.b}),r.d(n,"map",function(){return c.c}),r.d(n,"keys",function(){return c.d}),r.d(n,"values",function(){return c.e}),r.d(n,"entries",function(){return c.f});var f=r(7);r.d(n,"color",function(){return f.a}),r.d(n,"rgb",function(){return f.b}),r.d(n,"hsl",function(){return f.c}),r.d(n,"lab",function(){return f.d}),r.d(n,"hcl",function(){return f.e}),r.d(n,"cubehelix",function(){return f.f});var s=r(12);r.d(n,"dispatch",function(){return s.a});var l=r(54);r.d(n,"drag",function(){return l.a}),r.d(n,"dragDisable",function(){return l.b}),r.d(n,"dragEnable",function(){return l.c});var h=r(55);r.d(n,"dsvFormat",function(){return h.a}),r.d(n,"csvParse",function(){return h.b}),r.d(n,"csvParseRows",function(){return h.c}),r.d(n,"csvFormat",function(){return h.d}),r.d(n,"csvFormatRows",function(){return h.e}),r.d(n,"tsvParse",function(){return h.f}),r.d(n,"tsvParseRows",function(){return h.g}),r.d(n,"tsvFormat",function(){return h.h}),r.d(n,"tsvFormatRows",function(){return h.i});var d=r(107);r.d(n,"easeLinear",function(){return d.a}),r.d(n,"easeQuad",function(){return d.b}),r.d(n,"easeQuadIn",function(){return d.c}),r.d(n,"easeQuadOut",function(){return d.d}),r.d(n,"easeQuadInOut",function(){return d.e}),r.d(n,"easeCubic",function(){return d.f}),r.d(n,"easeCubicIn",function(){return d.g}),r.d(n,"easeCubicOut",function(){return d.h}),r.d(n,"easeCubicInOut",function(){return d.i}),r.d(n,"easePoly",function(){return d.j}),r.d(n,"easePolyIn",function(){return d.k}),r.d(n,"easePolyOut",function(){return d.l}),r.d(n,"easePolyInOut",function(){return d.m}),r.d(n,"easeSin",function(){return d.n}),r.d(n,"easeSinIn",function(){return d.o}),r.d(n,"easeSinOut",function(){return d.p}),r.d(n,"easeSinInOut",function(){return d.q}),r.d(n,"easeExp",function(){return d.r}),r.d(n,"easeExpIn",function(){return d.s}),r.d(n,"easeExpOut",function(){return d.t}),r.d(n,"easeExpInOut",function(){return d.u}),r.d(n,"easeCircle",function(){return d.v}),r.d(n,"easeCircleIn",function(){return d.w}),r.d(n,"easeCircleOut",function(){return d.x}),r.d(n,"easeCircleInOut",function(){return d.y}),r.d(n,"easeBounce",function(){return d.z}),r.d(n,"easeBounceIn",function(){return d.A}),r.d(n,"easeBounceOut",function(){return d.B}),r.d(n,"easeBounceInOut",function(){return d.C}),r.d(n,"easeBack",function(){return d.D}),r.d(n,"easeBackIn",function(){return d.E}),r.d(n,"easeBackOut",function(){return d.F}),r.d(n,"easeBackInOut",function(){return d.G}),r.d(n,"easeElastic",function(){return d.H}),r.d(n,"easeElasticIn",function(){return d.I}),r.d(n,"easeElasticOut",function(){return d.J}),r.d(n,"easeElasticInOut",function(){return d.K});var p=r(229);r.d(n,"forceCenter",function(){return p.a}),r.d(n,"forceCollide",function(){return p.b}),r.d(n,"forceLink",function(){return p.c}),r.d(n,"forceManyBody",function(){return p.d}),r.d(n,"forceRadial",function(){return p.e}),r.d(n,"forceSimulation",function(){return p.f}),r.d(n,"forceX",function(){return p.g}),r.d(n,"forceY",function(){return p.h});var v=r(58);r.d(n,"formatDefaultLocale",function(){return v.a}),r.d(n,"format",function(){return v.b}),r.d(n,"formatPrefix",function(){return v.c}),r.d(n,"formatLocale",function(){return v.d}),r.d(n,"formatSpecifier",function(){return v.e}),r.d(n,"precisionFixed",function(){return v.f}),r.d(n,"precisionPrefix",function(){return v.g}),r.d(n,"precisionRound",function(){return v.h});var g=r(246);r.d(n,"geoArea",function(){return g.a}),r.d(n,"geoBounds",function(){return g.b}),r.d(n,"geoCentroid",function(){return g.c}),r.d(n,"geoCircle",function(){return g.d}),r.d(n,"geoClipAntimeridian",function(){return g.e}),r.d(n,"geoClipCircle",function(){return g.f}),r.d(n,"geoClipExtent",function(){return g.g}),r.d(n,"geoClipRectangle",function(){return g.h}),r.d(n,"geoContains",function(){return g.i}),r.d(n,"geoDistance",function(){return g.j}),r.d(n,"geoGraticule",function(){return g.k}),r.d(n,"geoGraticule10",function(){return g.l}),r.d(n,"geoInterpolate",function(){return g.m}),r.d(n,"geoLength",function(){return g.n}),r.d(n,"geoPath",function(){return g.o}),r.d(n,"geoAlbers",function(){return g.p}),r.d(n,"geoAlbersUsa",function(){return g.q}),r.d(n,"geoAzimuthalEqualArea",function(){return g.r}),r.d(n,"geoAzimuthalEqualAreaRaw",function(){return g.s}),r.d(n,"geoAzimuthalEquidistant",function(){return g.t}),r.d(n,"geoAzimuthalEquidistantRaw",function(){return g.u}),r.d(n,"geoConicConformal",function(){return g.v}),r.d(n,"geoConicConformalRaw",function(){return g.w}),r.d(n,"geoConicEqualArea",function(){return g.x}),r.d(n,"geoConicEqualAreaRaw",function(){return g.y}),r.d(n,"geoConicEquidistant",function(){return g.z}),r.d(n,"geoConicEquidistantRaw",function(){return g.A}),r.d(n,"geoEquirectangular",function(){return g.B}),r.d(n,"geoEquirectangularRaw",function(){return g.C}),r.d(n,"geoGnomonic",function(){return g.D}),r.d(n,"geoGnomonicRaw",function(){return g.E}),r.d(n,"geoIdentity",function(){return g.F}),r.d(n,"geoProjection",function(){return g.G}),r.d(n,"geoProjectionMutator",function(){return g.H}),r.d(n,"geoMercator",function(){return g.I}),r.d(n,"geoMercatorRaw",function(){return g.J}),r.d(n,"geoNaturalEarth1",function(){return g.K}),r.d(n,"geoNaturalEarth1Raw",function(){return g.L}),r.d(n,"geoOrthographic",function(){return g.M}),r.d(n,"geoOrthographicRaw",function(){return g.N}),r.d(n,"geoStereographic",function(){return g.O}),r.d(n,"geoStereographicRaw",function(){return g.P}),r.d(n,"geoTransverseMercator",function(){return g.Q}),r.d(n,"geoTransverseMercatorRaw",function(){return g.R}),r.d(n,"geoRotation",function(){return g.S}),r.d(n,"geoStream",function(){return g.T}),r.d(n,"geoTransform",function(){return g.U});var y=r(274);r.d(n,"cluster",function(){return y.a}),r.d(n,"hierarchy",function(){return y.b}),r.d(n,"pack",function(){return y.c}),r.d(n,"packSiblings",function(){return y.d}),r.d(n,"packEnclose",function(){return y.e}),r.d(n,"partition",function(){return y.f}),r.d(n,"stratify",function(){return y.g}),r.d(n,"tree",function(){return y.h}),r.d(n,"treemap",function(){return y.i}),r.d(n,"treemapBinary",function(){return y.j}),r.d(n,"treemapDice",function(){return y.k}),r.d(n,"treemapSlice",function(){return y.l}),r.d(n,"treemapSliceDice",function(){return y.m}),r.d(n,"treemapSquarify",function(){return y.n}),r.d(n,"treemapResquarify",function(){return y.o});var _=r(4);r.d(n,"interpolate",function(){return _.a}),r.d(n,"interpolateArray",function(){return _.b}),r.d(n,"interpolateBasis",function(){return _.c}),r.d(n,"interpolateBasisClosed",function(){return _.d}),r.d(n,"interpolateDate",function(){return _.e}),r.d(n,"interpolateNumber",function(){return _.f}),r.d(n,"interpolateObject",function(){return _.g}),r.d(n,"interpolateRound",function(){return _.h}),r.d(n,"interpolateString",function(){return _.i}),r.d(n,"interpolateTransformCss",function(){return _.j}),r.d(n,"interpolateTransformSvg",function(){return _.k}),r.d(n,"interpolateZoom",function(){return _.l}),r.d(n,"interpolateRgb",function(){return _.m}),r.d(n,"interpolateRgbBasis",function(){return _.n}),r.d(n,"interpolateRgbBasisClosed",function(){return _.o}),r.d(n,"interpolateHsl",function(){return _.p}),r.d(n,"interpolateHslLong",function(){return _.q}),r.d(n,"interpolateLab",function(){return _.r}),r.d(n,"interpolateHcl",function(){return _.s}),r.d(n,"interpolateHclLong",function(){return _.t}),r.d(n,"interpolateCubehelix",function(){return _.u}),r.d(n,"interpolateCubehelixLong",function(){return _.v}),r.d(n,"quantize",function(){return _.w});var b=r(14);r.d(n,"path",function(){return b.a});var m=r(307);r.d(n,"polygonArea",function(){return m.a}),r.d(n,"polygonCentroid",function(){return m.b}),r.d(n,"polygonHull",function(){return m.c}),r.d(n,"polygonContains",function(){return m.d}),r.d(n,"polygonLength",function(){return m.e});var x=r(70);r.d(n,"quadtree",function(){return x.a});var w=r(327);r.d(n,"queue",function(){return w.a});var M=r(330);r.d(n,"randomUniform",function(){return M.a}),r.d(n,"randomNormal",function(){return M.b}),r.d(n,"randomLogNormal",function(){return M.c}),r.d(n,"randomBates",function(){return M.d}),r.d(n,"randomIrwinHall",function(){return M.e}),r.d(n,"randomExponential",function(){return M.f});var k=r(335);r.d(n,"request",function(){return k.a}),r.d(n,"html",function(){return k.b}),r.d(n,"json",function(){return k.c}),r.d(n,"text",function(){return k.d}),r.d(n,"xml",function(){return k.e}),r.d(n,"csv",function(){return k.f}),r.d(n,"tsv",function(){return k.g});var T=r(342);r.d(n,"scaleBand",function(){return T.a}),r.d(n,"scalePoint",function(){return T.b}),r.d(n,"scaleIdentity",function(){return T.c}),r.d(n,"scaleLinear",function(){return T.d}),r.d(n,"scaleLog",function(){return T.e}),r.d(n,"scaleOrdinal",function(){return T.f}),r.d(n,"scaleImplicit",function(){return T.g}),r.d(n,"scalePow",function(){return T.h}),r.d(n,"scaleSqrt",function(){return T.i}),r.d(n,"scaleQuantile",function(){return T.j}),r.d(n,"scaleQuantize",function(){return T.k}),r.d(n,"scaleThreshold",function(){return T.l}),r.d(n,"scaleTime",function(){return T.m}),r.d(n,"scaleUtc",function(){return T.n}),r.d(n,"schemeCategory10",function(){return T.o}),r.d(n,"schemeCategory20b",function(){return T.p}),r.d(n,"schemeCategory20c",function(){return T.q}),r.d(n,"schemeCategory20",function(){return T.r}),r.d(n,"interpolateCubehelixDefault",function(){return T.s}),r.d(n,"interpolateRainbow",function(){return T.t}),r.d(n,"interpolateWarm",function(){return T.u}),r.d(n,"interpolateCool",function(){return T.v}),r.d(n,"interpolateViridis",function(){return T.w}),r.d(n,"interpolateMagma",function(){return T.x}),r.d(n,"interpolateInferno",function(){return T.y}),r.d(n,"interpolatePlasma",function(){return T.z}),r.d(n,"scaleSequential",function(){return T.A});var A=r(1);r.d(n,"creator",function(){return A.a}),r.d(n,"local",function(){return A.b}),r.d(n,"matcher",function(){return A.c}),r.d(n,"mouse",function(){return A.d}),r.d(n,"namespace",function(){return A.e}),r.d(n,"namespaces",function(){return A.f}),r.d(n,"clientPoint",function(){return A.g}),r.d(n,"select",function(){return A.h}),r.d(n,"selectAll",function(){return A.i}),r.d(n,"selection",function(){return A.j}),r.d(n,"selector",function(){return A.k}),r.d(n,"selectorAll",function(){return A.l}),r.d(n,"style",function(){return A.m}),r.d(n,"touch",function(){return A.n}),r.d(n,"touches",function(){return A.o}),r.d(n,"window",function(){return A.p}),r.d(n,"event",function(){return A.q}),r.d(n,"customEvent",function(){return A.r});var S=r(393);r.d(n,"arc",function(){return S.a}),r.d(n,"area",function(){return S.b}),r.d(n,"line",function(){return S.c}),r.d(n,"pie",function(){return S.d}),r.d(n,"areaRadial",function(){return S.e}),r.d(n,"radialArea",function(){return S.f}),r.d(n,"lineRadial",function(){return S.g}),r.d(n,"radialLine",function(){return S.h}),r.d(n,"pointRadial",function(){return S.i}),r.d(n,"linkHorizontal",function(){return S.j}),r.d(n,"linkVertical",function(){return S.k}),r.d(n,"linkRadial",function(){return S.l}),r.d(n,"symbol",function(){return S.m}),r.d(n,"symbols",function(){return S.n}),r.d(n,"symbolCircle",function(){return S.o}),r.d(n,"symbolCross",function(){return S.p}),r.d(n,"symbolDiamond",function(){return S.q}),r.d(n,"symbolSquare",function(){return S.r}),r.d(n,"symbolStar",function(){return S.s}),r.d(n,"symbolTriangle",function(){return S.t}),r.d(n,"symbolWye",function(){return S.u}),r.d(n,"curveBasisClosed",function(){return S.v}),r.d(n,"curveBasisOpen",function(){return S.w}),r.d(n,"curveBasis",function(){return S.x}),r.d(n,"curveBundle",function(){return S.y}),r.d(n,"curveCardinalClosed",function(){return S.z}),r.d(n,"curveCardinalOpen",function(){return S.A}),r.d(n,"curveCardinal",function(){return S.B}),r.d(n,"curveCatmullRomClosed",function(){return S.C}),r.d(n,"curveCatmullRomOpen",function(){return S.D}),r.d(n,"curveCatmullRom",function(){return S.E}),r.d(n,"curveLinearClosed",function(){return S.F}),r.d(n,"curveLinear",function(){return S.G}),r.d(n,"curveMonotoneX",function(){return S.H}),r.d(n,"curveMonotoneY",function(){return S.I}),r.d(n,"curveNatural",function(){return S.J}),r.d(n,"curveStep",function(){return S.K}),r.d(n,"curveStepAfter",function(){return S.L}),r.d(n,"curveStepBefore",function(){return S.M}),r.d(n,"stack",function(){return S.N}),r.d(n,"stackOffsetExpand",function(){return S.O}),r.d(n,"stackOffsetDiverging",function(){return S.P}),r.d(n,"stackOffsetNone",function(){return S.Q}),r.d(n,"stackOffsetSilhouette",function(){return S.R}),r.d(n,"stackOffsetWiggle",function(){return S.S}),r.d(n,"stackOrderAscending",function(){return S.T}),r.d(n,"stackOrderDescending",function(){return S.U}),r.d(n,"stackOrderInsideOut",function(){return S.V}),r.d(n,"stackOrderNone",function(){return S.W}),r.d(n,"stackOrderReverse",function(){return S.X});var E=r(47);r.d(n,"timeInterval",function(){return E.a}),r.d(n,"timeMillisecond",function(){return E.b}),r.d(n,"timeMilliseconds",function(){return E.c}),r.d(n,"utcMillisecond",function(){return E.d}),r.d(n,"utcMilliseconds",function(){return E.e}),r.d(n,"timeSecond",function(){return E.f}),r.d(n,"timeSeconds",function(){return E.g}),r.d(n,"utcSecond",function(){return E.h}),r.d(n,"utcSeconds",function(){return E.i}),r.d(n,"timeMinute",function(){return E.j}),r.d(n,"timeMinutes",function(){return E.k}),r.d(n,"timeHour",function(){return E.l}),r.d(n,"timeHours",function(){return E.m}),r.d(n,"timeDay",function(){return E.n}),r.d(n,"timeDays",function(){return E.o}),r.d(n,"timeWeek",function(){return E.p}),r.d(n,"timeWeeks",function(){return E.q}),r.d(n,"timeSunday",function(){return E.r}),r.d(n,"timeSundays",function(){return E.s}),r.d(n,"timeMonday",function(){return E.t}),r.d(n,"timeMondays",function(){return E.u}),r.d(n,"timeTuesday",function(){return E.v}),r.d(n,"timeTuesdays",function(){return E.w}),r.d(n,"timeWednesday",function(){return E.x}),r.d(n,"timeWednesdays",function(){return E.y}),r.d(n,"timeThursday",function(){return E.z}),r.d(n,"timeThursdays",function(){return E.A}),r.d(n,"timeFriday",function(){return E.B}),r.d(n,"timeFridays",function(){return E.C}),r.d(n,"timeSaturday",function(){return E.D}),r.d(n,"timeSaturdays",function(){return E.E}),r.d(n,"timeMonth",function(){return E.F}),r.d(n,"timeMonths",function(){return E.G}),r.d(n,"timeYear",function(){return E.H}),r.d(n,"timeYears",function(){return E.I}),r.d(n,"utcMinute",function(){return E.J}),r.d(n,"utcMinutes",function(){return E.K}),r.d(n,"utcHour",function(){return E.L}),r.d(n,"utcHours",function(){return E.M}),r.d(n,"utcDay",function(){return E.N}),r.d(n,"utcDays",function(){return E.O}),r.d(n,"utcWeek",function(){return E.P}),r.d(n,"utcWeeks",function(){return E.Q}),r.d(n,"utcSunday",function(){return E.R}),r.d(n,"utcSundays",function(){return E.S}),r.d(n,"utcMonday",function(){return E.T}),r.d(n,"utcMondays",function(){return E.U}),r.d(n,"utcTuesday",function(){return E.V}),r.d(n,"utcTuesdays",function(){return E.W}),r.d(n,"utcWednesday",function(){return E.X}),r.d(n,"utcWednesdays",function(){return E.Y}),r.d(n,"utcThursday",function(){return E.Z}),r.d(n,"utcThursdays",function(){return E._0}),r.d(n,"utcFriday",function(){return E._1}),r.d(n,"utcFridays",function(){return E._2}),r.d(n,"utcSaturday",function(){return E._3}),r.d(n,"utcSaturdays",function(){return E._4}),r.d(n,"utcMonth",function(){return E._5}),r.d(n,"utcMonths",function(){return E._6}),r.d(n,"utcYear",function(){return E._7}),r.d(n,"utcYears",function(){return E._8});var N=r(85);r.d(n,"timeFormatDefaultLocale",function(){return N.a}),r.d(n,"timeFormat",function(){return N.b}),r.d(n,"timeParse",function(){return N.c}),r.d(n,"utcFormat",function(){return N.d}),r.d(n,"utcParse",function(){return N.e}),r.d(n,"timeFormatLocale",function(){return N.f}),r.d(n,"isoFormat",function(){return N.g}),r.d(n,"isoParse",function(){return N.h});var C=r(48);r.d(n,"now",function(){return C.a}),r.d(n,"timer",function(){return C.b}),r.d(n,"timerFlush",function(){return C.c}),r.d(n,"timeout",function(){return C.d}),r.d(n,"interval",function(){return C.e});var q=r(88);r.d(n,"transition",function(){return q.a}),r.d(n,"active",function(){return q.b}),r.d(n,"interrupt",function(){return q.c});var z=r(455);r.d(n,"voronoi",function(){return z.a});var P=r(460);r.d(n,"zoom",function(){return P.a}),r.d(n,"zoomTransform",function(){return P.b}),r.d(n,"zoomIdentity",function(){return P.c})},function(t,n,r){"use strict";var e=r(59);n.a=function(t){return t=r.i(e.a)(Math.abs(t)),t?t[1]:NaN}},function(t,n,r){"use strict";function e(t,n,e,l){function h(r,i){return t<=r&&r<=e&&n<=i&&i<=l}function d(r,i,u,a){var o=0,c=0;if(null==r||(o=p(r,u))!==(c=p(i,u))||g(r,i)<0^u>0)do{a.point(0===o||3===o?t:e,o>1?l:n)}while((o=(o+u+4)%4)!==c);else a.point(i[0],i[1])}function p(u,a){return r.i(i.p)(u[0]-t)<i.o?a>0?0:3:r.i(i.p)(u[0]-e)<i.o?a>0?2:1:r.i(i.p)(u[1]-n)<i.o?a>0?1:0:a>0?3:2}function v(t,n){return g(t.x,n.x)}function g(t,n){var r=p(t,1),e=p(n,1);return r!==e?r-e:0===r?n[1]-t[1]:1===r?t[0]-n[0]:2===r?t[1]-n[1]:n[0]-t[0]}return function(i){function p(t,n){h(t,n)&&P.point(t,n)}function g(){for(var n=0,r=0,e=M.length;r<e;++r)for(var i,u,a=M[r],o=1,c=a.length,f=a[0],s=f[0],h=f[1];o<c;++o)i=s,u=h,f=a[o],s=f[0],h=f[1],u<=l?h>l&&(s-i)*(l-u)>(h-u)*(t-i)&&++n:h<=l&&(s-i)*(l-u)<(h-u)*(t-i)&&--n;return n}function y(){P=D,w=[],M=[],z=!0}function _(){var t=g(),n=z&&t,e=(w=r.i(c.q)(w)).length;(n||e)&&(i.polygonStart(),n&&(i.lineStart(),d(null,null,1,i),i.lineEnd()),e&&r.i(o.a)(w,v,t,d,i),i.polygonEnd()),P=i,w=M=k=null}function b(){R.point=x,M&&M.push(k=[]),q=!0,C=!1,E=N=NaN}function m(){w&&(x(T,A),S&&C&&D.rejoin(),w.push(D.result())),R.point=p,C&&P.lineEnd()}function x(i,u){var o=h(i,u);if(M&&k.push([i,u]),q)T=i,A=u,S=o,q=!1,o&&(P.lineStart(),P.point(i,u));else if(o&&C)P.point(i,u);else{var c=[E=Math.max(s,Math.min(f,E)),N=Math.max(s,Math.min(f,N))],d=[i=Math.max(s,Math.min(f,i)),u=Math.max(s,Math.min(f,u))];r.i(a.a)(c,d,t,n,e,l)?(C||(P.lineStart(),P.point(c[0],c[1])),P.point(d[0],d[1]),o||P.lineEnd(),z=!1):o&&(P.lineStart(),P.point(i,u),z=!1)}E=i,N=u,C=o}var w,M,k,T,A,S,E,N,C,q,z,P=i,D=r.i(u.a)(),R={point:p,lineStart:b,lineEnd:m,polygonStart:y,polygonEnd:_};return R}}var i=r(0),u=r(116),a=r(250),o=r(119),c=r(3);n.a=e;var f=1e9,s=-f},function(t,n,r){"use strict";function e(t,n){return[t>f.a?t-f.b:t<-f.a?t+f.b:t,n]}function i(t,n,i){return(t%=f.b)?n||i?r.i(c.a)(a(t),o(n,i)):a(t):n||i?o(n,i):e}function u(t){return function(n,r){return n+=t,[n>f.a?n-f.b:n<-f.a?n+f.b:n,r]}}function a(t){var n=u(t);return n.invert=u(-t),n}function o(t,n){function e(t,n){var e=r.i(f.c)(n),c=r.i(f.c)(t)*e,s=r.i(f.d)(t)*e,l=r.i(f.d)(n),h=l*i+c*u;return[r.i(f.e)(s*a-h*o,c*i-l*u),r.i(f.f)(h*a+s*o)]}var i=r.i(f.c)(t),u=r.i(f.d)(t),a=r.i(f.c)(n),o=r.i(f.d)(n);return e.invert=function(t,n){var e=r.i(f.c)(n),c=r.i(f.c)(t)*e,s=r.i(f.d)(t)*e,l=r.i(f.d)(n),h=l*a-s*o;return[r.i(f.e)(s*a+l*o,c*i+h*u),r.i(f.f)(h*i-c*u)]},e}var c=r(120),f=r(0);n.b=i,e.invert=e,n.a=function(t){function n(n){return n=t(n[0]*f.g,n[1]*f.g),n[0]*=f.h,n[1]*=f.h,n}return t=i(t[0]*f.g,t[1]*f.g,t.length>2?t[2]*f.g:0),n.invert=function(n){return n=t.invert(n[0]*f.g,n[1]*f.g),n[0]*=f.h,n[1]*=f.h,n},n}},function(t,n,r){"use strict";function e(t){return function(n){var r=new i;for(var e in t)r[e]=t[e];return r.stream=n,r}}function i(){}n.b=e,n.a=function(t){return{stream:e(t)}},i.prototype={constructor:i,point:function(t,n){this.stream.point(t,n)},sphere:function(){this.stream.sphere()},lineStart:function(){this.stream.lineStart()},lineEnd:function(){this.stream.lineEnd()},polygonStart:function(){this.stream.polygonStart()},polygonEnd:function(){this.stream.polygonEnd()}}},function(t,n,r){"use strict";n.a=function(t,n,r,e,i){for(var u,a=t.children,o=-1,c=a.length,f=t.value&&(i-r)/t.value;++o<c;)u=a[o],u.x0=n,u.x1=e,u.y0=r,u.y1=r+=u.value*f}},function(t,n,r){"use strict";n.a=function(t,n){return t=+t,n-=t,function(r){return t+n*r}}},function(t,n,r){"use strict";var e=r(72);n.a=function(t,n){return function(i,u){var a=r.i(e.a)(i).mimeType(t).response(n);if(null!=u){if("function"!=typeof u)throw new Error("invalid callback: "+u);return a.get(u)}return a}}},function(t,n,r){"use strict";function e(t,n){return(n-=t=+t)?function(r){return(r-t)/n}:r.i(d.a)(n)}function i(t){return function(n,r){var e=t(n=+n,r=+r);return function(t){return t<=n?0:t>=r?1:e(t)}}}function u(t){return function(n,r){var e=t(n=+n,r=+r);return function(t){return t<=0?n:t>=1?r:e(t)}}}function a(t,n,r,e){var i=t[0],u=t[1],a=n[0],o=n[1];return u<i?(i=r(u,i),a=e(o,a)):(i=r(i,u),a=e(a,o)),function(t){return a(i(t))}}function o(t,n,e,i){var u=Math.min(t.length,n.length)-1,a=new Array(u),o=new Array(u),c=-1;for(t[u]<t[0]&&(t=t.slice().reverse(),n=n.slice().reverse());++c<u;)a[c]=e(t[c],t[c+1]),o[c]=i(n[c],n[c+1]);return function(n){var e=r.i(s.a)(t,n,1,u)-1;return o[e](a[e](n))}}function c(t,n){return n.domain(t.domain()).range(t.range()).interpolate(t.interpolate()).clamp(t.clamp())}function f(t,n){function r(){return f=Math.min(g.length,y.length)>2?o:a,s=d=null,c}function c(n){return(s||(s=f(g,y,b?i(t):t,_)))(+n)}var f,s,d,g=v,y=v,_=l.a,b=!1;return c.invert=function(t){return(d||(d=f(y,g,e,b?u(n):n)))(+t)},c.domain=function(t){return arguments.length?(g=h.a.call(t,p.a),r()):g.slice()},c.range=function(t){return arguments.length?(y=h.b.call(t),r()):y.slice()},c.rangeRound=function(t){return y=h.b.call(t),_=l.h,r()},c.clamp=function(t){return arguments.length?(b=!!t,r()):b},c.interpolate=function(t){return arguments.length?(_=t,r()):_},r()}var s=r(3),l=r(4),h=r(15),d=r(73),p=r(143);n.b=e,n.c=c,n.a=f;var v=[0,1]},function(t,n,r){"use strict";n.a=function(t,n){var r=t.ownerSVGElement||t;if(r.createSVGPoint){var e=r.createSVGPoint();return e.x=n.clientX,e.y=n.clientY,e=e.matrixTransform(t.getScreenCTM().inverse()),[e.x,e.y]}var i=t.getBoundingClientRect();return[n.clientX-i.left-t.clientLeft,n.clientY-i.top-t.clientTop]}},function(t,n,r){"use strict";function e(t,n,r){t._context.bezierCurveTo((2*t._x0+t._x1)/3,(2*t._y0+t._y1)/3,(t._x0+2*t._x1)/3,(t._y0+2*t._y1)/3,(t._x0+4*t._x1+n)/6,(t._y0+4*t._y1+r)/6)}function i(t){this._context=t}n.c=e,n.b=i,i.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._y0=this._y1=NaN,this._point=0},lineEnd:function(){switch(this._point){case 3:e(this,this._x1,this._y1);case 2:this._context.lineTo(this._x1,this._y1)}(this._line||0!==this._line&&1===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1,this._line?this._context.lineTo(t,n):this._context.moveTo(t,n);break;case 1:this._point=2;break;case 2:this._point=3,this._context.lineTo((5*this._x0+this._x1)/6,(5*this._y0+this._y1)/6);default:e(this,t,n)}this._x0=this._x1,this._x1=t,this._y0=this._y1,this._y1=n}},n.a=function(t){return new i(t)}},function(t,n,r){"use strict";function e(t,n,r){t._context.bezierCurveTo(t._x1+t._k*(t._x2-t._x0),t._y1+t._k*(t._y2-t._y0),t._x2+t._k*(t._x1-n),t._y2+t._k*(t._y1-r),t._x2,t._y2)}function i(t,n){this._context=t,this._k=(1-n)/6}n.c=e,n.b=i,i.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._x2=this._y0=this._y1=this._y2=NaN,this._point=0},lineEnd:function(){switch(this._point){case 2:this._context.lineTo(this._x2,this._y2);break;case 3:e(this,this._x1,this._y1)}(this._line||0!==this._line&&1===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1,this._line?this._context.lineTo(t,n):this._context.moveTo(t,n);break;case 1:this._point=2,this._x1=t,this._y1=n;break;case 2:this._point=3;default:e(this,t,n)}this._x0=this._x1,this._x1=this._x2,this._x2=t,this._y0=this._y1,this._y1=this._y2,this._y2=n}},n.a=function t(n){function r(t){return new i(t,n)}return r.tension=function(n){return t(+n)},r}(0)},function(t,n,r){"use strict";function e(t){this._context=t}e.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._point=0},lineEnd:function(){(this._line||0!==this._line&&1===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1,this._line?this._context.lineTo(t,n):this._context.moveTo(t,n);break;case 1:this._point=2;default:this._context.lineTo(t,n)}}},n.a=function(t){return new e(t)}},function(t,n,r){"use strict";n.a=function(){}},function(t,n,r){"use strict";var e=r(2);r.d(n,"a",function(){return e.a});var i=r(421);r.d(n,"b",function(){return i.a}),r.d(n,"c",function(){return i.b}),r.d(n,"d",function(){return i.a}),r.d(n,"e",function(){return i.b});var u=r(424);r.d(n,"f",function(){return u.a}),r.d(n,"g",function(){return u.b}),r.d(n,"h",function(){return u.a}),r.d(n,"i",function(){return u.b});var a=r(422);r.d(n,"j",function(){return a.a}),r.d(n,"k",function(){return a.b});var o=r(420);r.d(n,"l",function(){return o.a}),r.d(n,"m",function(){return o.b});var c=r(419);r.d(n,"n",function(){return c.a}),r.d(n,"o",function(){return c.b});var f=r(431);r.d(n,"p",function(){return f.a}),r.d(n,"q",function(){return f.b}),r.d(n,"r",function(){return f.a}),r.d(n,"s",function(){return f.b}),r.d(n,"t",function(){return f.c}),r.d(n,"u",function(){return f.d}),r.d(n,"v",function(){return f.e}),r.d(n,"w",function(){return f.f}),r.d(n,"x",function(){return f.g}),r.d(n,"y",function(){return f.h}),r.d(n,"z",function(){return f.i}),r.d(n,"A",function(){return f.j}),r.d(n,"B",function(){return f.k}),r.d(n,"C",function(){return f.l}),r.d(n,"D",function(){return f.m}),r.d(n,"E",function(){return f.n});var s=r(423);r.d(n,"F",function(){return s.a}),r.d(n,"G",function(){return s.b});var l=r(432);r.d(n,"H",function(){return l.a}),r.d(n,"I",function(){return l.b});var h=r(427);r.d(n,"J",function(){return h.a}),r.d(n,"K",function(){return h.b});var d=r(426);r.d(n,"L",function(){return d.a}),r.d(n,"M",function(){return d.b});var p=r(425);r.d(n,"N",function(){return p.a}),r.d(n,"O",function(){return p.b});var v=r(429);r.d(n,"P",function(){return v.a}),r.d(n,"Q",function(){return v.b}),r.d(n,"R",function(){return v.a}),r.d(n,"S",function(){return v.b}),r.d(n,"T",function(){return v.c}),r.d(n,"U",function(){return v.d}),r.d(n,"V",function(){return v.e}),r.d(n,"W",function(){return v.f}),r.d(n,"X",function(){return v.g}),r.d(n,"Y",function(){return v.h}),r.d(n,"Z",function(){return v.i}),r.d(n,"_0",function(){return v.j}),r.d(n,"_1",function(){return v.k}),r.d(n,"_2",function(){return v.l}),r.d(n,"_3",function(){return v.m}),r.d(n,"_4",function(){return v.n});var g=r(428);r.d(n,"_5",function(){return g.a}),r.d(n,"_6",function(){return g.b});var y=r(430);r.d(n,"_7",function(){return y.a}),r.d(n,"_8",function(){return y.b})},function(t,n,r){"use strict";var e=r(87);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c});var i=r(434);r.d(n,"d",function(){return i.a});var u=r(433);r.d(n,"e",function(){return u.a})},function(t,n,r){"use strict";function e(t,n){var e,i;return function(){var u=r.i(a.e)(this,t),o=u.tween;if(o!==e){i=e=o;for(var c=0,f=i.length;c<f;++c)if(i[c].name===n){i=i.slice(),i.splice(c,1);break}}u.tween=i}}function i(t,n,e){var i,u;if("function"!=typeof e)throw new Error;return function(){var o=r.i(a.e)(this,t),c=o.tween;if(c!==i){u=(i=c).slice();for(var f={name:n,value:e},s=0,l=u.length;s<l;++s)if(u[s].name===n){u[s]=f;break}s===l&&u.push(f)}o.tween=u}}function u(t,n,e){var i=t._id;return t.each(function(){var t=r.i(a.e)(this,i);(t.value||(t.value={}))[n]=e.apply(this,arguments)}),function(t){return r.i(a.f)(t,i).value[n]}}var a=r(6);n.b=u,n.a=function(t,n){var u=this._id;if(t+="",arguments.length<2){for(var o,c=r.i(a.f)(this.node(),u).tween,f=0,s=c.length;f<s;++f)if((o=c[f]).name===t)return o.value;return null}return this.each((null==n?e:i)(u,t,n))}},function(t,n,r){"use strict";var e=r(21);n.a=function(t,n,r){if(null==r&&(r=e.a),i=t.length){if((n=+n)<=0||i<2)return+r(t[0],0,t);if(n>=1)return+r(t[i-1],i-1,t);var i,u=(i-1)*n,a=Math.floor(u),o=+r(t[a],a,t);return o+(+r(t[a+1],a+1,t)-o)*(u-a)}}},function(t,n,r){"use strict";function e(){}function i(t,n){var r=new e;if(t instanceof e)t.each(function(t,n){r.set(n,t)});else if(Array.isArray(t)){var i,u=-1,a=t.length;if(null==n)for(;++u<a;)r.set(u,t[u]);else for(;++u<a;)r.set(n(i=t[u],u,t),i)}else if(t)for(var o in t)r.set(o,t[o]);return r}r.d(n,"b",function(){return u});var u="$";e.prototype=i.prototype={constructor:e,has:function(t){return u+t in this},get:function(t){return this[u+t]},set:function(t,n){return this[u+t]=n,this},remove:function(t){var n=u+t;return n in this&&delete this[n]},clear:function(){for(var t in this)t[0]===u&&delete this[t]},keys:function(){var t=[];for(var n in this)n[0]===u&&t.push(n.slice(1));return t},values:function(){var t=[];for(var n in this)n[0]===u&&t.push(this[n]);return t},entries:function(){var t=[];for(var n in this)n[0]===u&&t.push({key:n.slice(1),value:this[n]});return t},size:function(){var t=0;for(var n in this)n[0]===u&&++t;return t},empty:function(){for(var t in this)if(t[0]===u)return!1;return!0},each:function(t){for(var n in this)n[0]===u&&t(this[n],n.slice(1),this)}},n.a=i},function(t,n,r){"use strict";function e(){}function i(t){var n;return t=(t+"").trim().toLowerCase(),(n=x.exec(t))?(n=parseInt(n[1],16),new f(n>>8&15|n>>4&240,n>>4&15|240&n,(15&n)<<4|15&n,1)):(n=w.exec(t))?u(parseInt(n[1],16)):(n=M.exec(t))?new f(n[1],n[2],n[3],1):(n=k.exec(t))?new f(255*n[1]/100,255*n[2]/100,255*n[3]/100,1):(n=T.exec(t))?a(n[1],n[2],n[3],n[4]):(n=A.exec(t))?a(255*n[1]/100,255*n[2]/100,255*n[3]/100,n[4]):(n=S.exec(t))?s(n[1],n[2]/100,n[3]/100,1):(n=E.exec(t))?s(n[1],n[2]/100,n[3]/100,n[4]):N.hasOwnProperty(t)?u(N[t]):"transparent"===t?new f(NaN,NaN,NaN,0):null}function u(t){return new f(t>>16&255,t>>8&255,255&t,1)}function a(t,n,r,e){return e<=0&&(t=n=r=NaN),new f(t,n,r,e)}function o(t){return t instanceof e||(t=i(t)),t?(t=t.rgb(),new f(t.r,t.g,t.b,t.opacity)):new f}function c(t,n,r,e){return 1===arguments.length?o(t):new f(t,n,r,null==e?1:e)}function f(t,n,r,e){this.r=+t,this.g=+n,this.b=+r,this.opacity=+e}function s(t,n,r,e){return e<=0?t=n=r=NaN:r<=0||r>=1?t=n=NaN:n<=0&&(t=NaN),new d(t,n,r,e)}function l(t){if(t instanceof d)return new d(t.h,t.s,t.l,t.opacity);if(t instanceof e||(t=i(t)),!t)return new d;if(t instanceof d)return t;t=t.rgb();var n=t.r/255,r=t.g/255,u=t.b/255,a=Math.min(n,r,u),o=Math.max(n,r,u),c=NaN,f=o-a,s=(o+a)/2;return f?(c=n===o?(r-u)/f+6*(r<u):r===o?(u-n)/f+2:(n-r)/f+4,f/=s<.5?o+a:2-o-a,c*=60):f=s>0&&s<1?0:c,new d(c,f,s,t.opacity)}function h(t,n,r,e){return 1===arguments.length?l(t):new d(t,n,r,null==e?1:e)}function d(t,n,r,e){this.h=+t,this.s=+n,this.l=+r,this.opacity=+e}function p(t,n,r){return 255*(t<60?n+(r-n)*t/60:t<180?r:t<240?n+(r-n)*(240-t)/60:n)}var v=r(53);n.f=e,r.d(n,"h",function(){return g}),r.d(n,"g",function(){return y}),n.a=i,n.e=o,n.b=c,n.d=f,n.c=h;var g=.7,y=1/g,_="\\s*([+-]?\\d+)\\s*",b="\\s*([+-]?\\d*\\.?\\d+(?:[eE][+-]?\\d+)?)\\s*",m="\\s*([+-]?\\d*\\.?\\d+(?:[eE][+-]?\\d+)?)%\\s*",x=/^#([0-9a-f]{3})$/,w=/^#([0-9a-f]{6})$/,M=new RegExp("^rgb\\("+[_,_,_]+"\\)$"),k=new RegExp("^rgb\\("+[m,m,m]+"\\)$"),T=new RegExp("^rgba\\("+[_,_,_,b]+"\\)$"),A=new RegExp("^rgba\\("+[m,m,m,b]+"\\)$"),S=new RegExp("^hsl\\("+[b,m,m]+"\\)$"),E=new RegExp("^hsla\\("+[b,m,m,b]+"\\)$"),N={aliceblue:15792383,antiquewhite:16444375,aqua:65535,aquamarine:8388564,azure:15794175,beige:16119260,bisque:16770244,black:0,blanchedalmond:16772045,blue:255,blueviolet:9055202,brown:10824234,burlywood:14596231,cadetblue:6266528,chartreuse:8388352,chocolate:13789470,coral:16744272,cornflowerblue:6591981,cornsilk:16775388,crimson:14423100,cyan:65535,darkblue:139,darkcyan:35723,darkgoldenrod:12092939,darkgray:11119017,darkgreen:25600,darkgrey:11119017,darkkhaki:12433259,darkmagenta:9109643,darkolivegreen:5597999,darkorange:16747520,darkorchid:10040012,darkred:9109504,darksalmon:15308410,darkseagreen:9419919,darkslateblue:4734347,darkslategray:3100495,darkslategrey:3100495,darkturquoise:52945,darkviolet:9699539,deeppink:16716947,deepskyblue:49151,dimgray:6908265,dimgrey:6908265,dodgerblue:2003199,firebrick:11674146,floralwhite:16775920,forestgreen:2263842,fuchsia:16711935,gainsboro:14474460,ghostwhite:16316671,gold:16766720,goldenrod:14329120,gray:8421504,green:32768,greenyellow:11403055,grey:8421504,honeydew:15794160,hotpink:16738740,indianred:13458524,indigo:4915330,ivory:16777200,khaki:15787660,lavender:15132410,lavenderblush:16773365,lawngreen:8190976,lemonchiffon:16775885,lightblue:11393254,lightcoral:15761536,lightcyan:14745599,lightgoldenrodyellow:16448210,lightgray:13882323,lightgreen:9498256,lightgrey:13882323,lightpink:16758465,lightsalmon:16752762,lightseagreen:2142890,lightskyblue:8900346,lightslategray:7833753,lightslategrey:7833753,lightsteelblue:11584734,lightyellow:16777184,lime:65280,limegreen:3329330,linen:16445670,magenta:16711935,maroon:8388608,mediumaquamarine:6737322,mediumblue:205,mediumorchid:12211667,mediumpurple:9662683,mediumseagreen:3978097,mediumslateblue:8087790,mediumspringgreen:64154,mediumturquoise:4772300,mediumvioletred:13047173,midnightblue:1644912,mintcream:16121850,mistyrose:16770273,moccasin:16770229,navajowhite:16768685,navy:128,oldlace:16643558,olive:8421376,olivedrab:7048739,orange:16753920,orangered:16729344,orchid:14315734,palegoldenrod:15657130,palegreen:10025880,paleturquoise:11529966,palevioletred:14381203,papayawhip:16773077,peachpuff:16767673,peru:13468991,pink:16761035,plum:14524637,powderblue:11591910,purple:8388736,rebeccapurple:6697881,red:16711680,rosybrown:12357519,royalblue:4286945,saddlebrown:9127187,salmon:16416882,sandybrown:16032864,seagreen:3050327,seashell:16774638,sienna:10506797,silver:12632256,skyblue:8900331,slateblue:6970061,slategray:7372944,slategrey:7372944,snow:16775930,springgreen:65407,steelblue:4620980,tan:13808780,teal:32896,thistle:14204888,tomato:16737095,turquoise:4251856,violet:15631086,wheat:16113331,white:16777215,whitesmoke:16119285,yellow:16776960,yellowgreen:10145074};r.i(v.a)(e,i,{displayable:function(){return this.rgb().displayable()},toString:function(){return this.rgb()+""}}),r.i(v.a)(f,c,r.i(v.b)(e,{brighter:function(t){return t=null==t?y:Math.pow(y,t),new f(this.r*t,this.g*t,this.b*t,this.opacity)},darker:function(t){return t=null==t?g:Math.pow(g,t),new f(this.r*t,this.g*t,this.b*t,this.opacity)},rgb:function(){return this},displayable:function(){return 0<=this.r&&this.r<=255&&0<=this.g&&this.g<=255&&0<=this.b&&this.b<=255&&0<=this.opacity&&this.opacity<=1},toString:function(){var t=this.opacity;return t=isNaN(t)?1:Math.max(0,Math.min(1,t)),(1===t?"rgb(":"rgba(")+Math.max(0,Math.min(255,Math.round(this.r)||0))+", "+Math.max(0,Math.min(255,Math.round(this.g)||0))+", "+Math.max(0,Math.min(255,Math.round(this.b)||0))+(1===t?")":", "+t+")")}})),r.i(v.a)(d,h,r.i(v.b)(e,{brighter:function(t){return t=null==t?y:Math.pow(y,t),new d(this.h,this.s,this.l*t,this.opacity)},darker:function(t){return t=null==t?g:Math.pow(g,t),new d(this.h,this.s,this.l*t,this.opacity)},rgb:function(){var t=this.h%360+360*(this.h<0),n=isNaN(t)||isNaN(this.s)?0:this.s,r=this.l,e=r+(r<.5?r:1-r)*n,i=2*r-e;return new f(p(t>=240?t-240:t+120,i,e),p(t,i,e),p(t<120?t+240:t-120,i,e),this.opacity)},displayable:function(){return(0<=this.s&&this.s<=1||isNaN(this.s))&&0<=this.l&&this.l<=1&&0<=this.opacity&&this.opacity<=1}}))},function(t,n,r){"use strict";function e(t,n){var r=Object.create(t.prototype);for(var e in n)r[e]=n[e];return r}n.b=e,n.a=function(t,n,r){t.prototype=n.prototype=r,r.constructor=t}},function(t,n,r){"use strict";var e=r(215);r.d(n,"a",function(){return e.a});var i=r(105);r.d(n,"b",function(){return i.a}),r.d(n,"c",function(){return i.b})},function(t,n,r){"use strict";var e=r(56);r.d(n,"a",function(){return e.a});var i=r(217);r.d(n,"b",function(){return i.a}),r.d(n,"c",function(){return i.b}),r.d(n,"d",function(){return i.c}),r.d(n,"e",function(){return i.d});var u=r(218);r.d(n,"f",function(){return u.a}),r.d(n,"g",function(){return u.b}),r.d(n,"h",function(){return u.c}),r.d(n,"i",function(){return u.d})},function(t,n,r){"use strict";function e(t){return new Function("d","return {"+t.map(function(t,n){return JSON.stringify(t)+": d["+n+"]"}).join(",")+"}")}function i(t,n){var r=e(t);return function(e,i){return n(r(e),i,t)}}function u(t){var n=Object.create(null),r=[];return t.forEach(function(t){for(var e in t)e in n||r.push(n[e]=e)}),r}var a={},o={},c=34,f=10,s=13;n.a=function(t){function n(t,n){var u,a,o=r(t,function(t,r){if(u)return u(t,r-1);a=t,u=n?i(t,n):e(t)});return o.columns=a||[],o}function r(t,n){function r(){if(d)return o;if(p)return p=!1,a;var n,r,e=l;if(t.charCodeAt(e)===c){for(;l++<u&&t.charCodeAt(l)!==c||t.charCodeAt(++l)===c;);return(n=l)>=u?d=!0:(r=t.charCodeAt(l++))===f?p=!0:r===s&&(p=!0,t.charCodeAt(l)===f&&++l),t.slice(e+1,n-1).replace(/""/g,'"')}for(;l<u;){if((r=t.charCodeAt(n=l++))===f)p=!0;else if(r===s)p=!0,t.charCodeAt(l)===f&&++l;else if(r!==g)continue;return t.slice(e,n)}return d=!0,t.slice(e,u)}var e,i=[],u=t.length,l=0,h=0,d=u<=0,p=!1;for(t.charCodeAt(u-1)===f&&--u,t.charCodeAt(u-1)===s&&--u;(e=r())!==o;){for(var v=[];e!==a&&e!==o;)v.push(e),e=r();n&&null==(v=n(v,h++))||i.push(v)}return i}function l(n,r){return null==r&&(r=u(n)),[r.map(p).join(t)].concat(n.map(function(n){return r.map(function(t){return p(n[t])}).join(t)})).join("\n")}function h(t){return t.map(d).join("\n")}function d(n){return n.map(p).join(t)}function p(t){return null==t?"":v.test(t+="")?'"'+t.replace(/"/g,'""')+'"':t}var v=new RegExp('["'+t+"\n\r]"),g=t.charCodeAt(0);return{parse:n,parseRows:r,format:l,formatRows:h}}},function(t,n,r){"use strict";n.a=function(){return 1e-6*(Math.random()-.5)}},function(t,n,r){"use strict";var e=r(237);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c});var i=r(112);r.d(n,"d",function(){return i.a});var u=r(110);r.d(n,"e",function(){return u.a});var a=r(243);r.d(n,"f",function(){return a.a});var o=r(244);r.d(n,"g",function(){return o.a});var c=r(245);r.d(n,"h",function(){return c.a})},function(t,n,r){"use strict";n.a=function(t,n){if((r=(t=n?t.toExponential(n-1):t.toExponential()).indexOf("e"))<0)return null;var r,e=t.slice(0,r);return[e.length>1?e[0]+e.slice(2):e,+t.slice(r+1)]}},function(t,n,r){"use strict";n.a=function(t){return t}},function(t,n,r){"use strict";function e(t){var n=0,e=i.a/3,a=r.i(u.b)(t),o=a(n,e);return o.parallels=function(t){return arguments.length?a(n=t[0]*i.g,e=t[1]*i.g):[n*i.h,e*i.h]},o}var i=r(0),u=r(8);n.a=e},function(t,n,r){"use strict";function e(t,n){function e(t,n){var e=r.i(i.n)(c-2*o*r.i(i.d)(n))/o;return[e*r.i(i.d)(t*=o),f-e*r.i(i.c)(t)]}var u=r.i(i.d)(t),o=(u+r.i(i.d)(n))/2;if(r.i(i.p)(o)<i.o)return r.i(a.a)(t);var c=1+u*(2*o-u),f=r.i(i.n)(c)/o;return e.invert=function(t,n){var e=f-n;return[r.i(i.e)(t,r.i(i.p)(e))/o*r.i(i.q)(e),r.i(i.f)((c-(t*t+e*e)*o*o)/(2*o))]},e}var i=r(0),u=r(61),a=r(266);n.b=e,n.a=function(){return r.i(u.a)(e).scale(155.424).center([0,33.6442])}},function(t,n,r){"use strict";function e(t,n,e){var i=t.clipExtent&&t.clipExtent();return t.scale(150).translate([0,0]),null!=i&&t.clipExtent(null),r.i(c.a)(e,t.stream(f.a)),n(f.a.result()),null!=i&&t.clipExtent(i),t}function i(t,n,r){return e(t,function(r){var e=n[1][0]-n[0][0],i=n[1][1]-n[0][1],u=Math.min(e/(r[1][0]-r[0][0]),i/(r[1][1]-r[0][1])),a=+n[0][0]+(e-u*(r[1][0]+r[0][0]))/2,o=+n[0][1]+(i-u*(r[1][1]+r[0][1]))/2;t.scale(150*u).translate([a,o])},r)}function u(t,n,r){return i(t,[[0,0],n],r)}function a(t,n,r){return e(t,function(r){var e=+n,i=e/(r[1][0]-r[0][0]),u=(e-i*(r[1][0]+r[0][0]))/2,a=-i*r[0][1];t.scale(150*i).translate([u,a])},r)}function o(t,n,r){return e(t,function(r){var e=+n,i=e/(r[1][1]-r[0][1]),u=-i*r[0][0],a=(e-i*(r[1][1]+r[0][1]))/2;t.scale(150*i).translate([u,a])},r)}var c=r(13),f=r(123);n.a=i,n.b=u,n.c=a,n.d=o},function(t,n,r){"use strict";function e(t,n){return[t,r.i(u.i)(r.i(u.j)((u.k+n)/2))]}function i(t){function n(){var n=u.a*h(),o=s(r.i(a.a)(s.rotate()).invert([0,0]));return p(null==v?[[o[0]-n,o[1]-n],[o[0]+n,o[1]+n]]:t===e?[[Math.max(o[0]-n,v),i],[Math.min(o[0]+n,c),f]]:[[v,Math.max(o[1]-n,i)],[c,Math.min(o[1]+n,f)]])}var i,c,f,s=r.i(o.a)(t),l=s.center,h=s.scale,d=s.translate,p=s.clipExtent,v=null;return s.scale=function(t){return arguments.length?(h(t),n()):h()},s.translate=function(t){return arguments.length?(d(t),n()):d()},s.center=function(t){return arguments.length?(l(t),n()):l()},s.clipExtent=function(t){return arguments.length?(null==t?v=i=c=f=null:(v=+t[0][0],i=+t[0][1],c=+t[1][0],f=+t[1][1]),n()):null==v?null:[[v,i],[c,f]]},n()}var u=r(0),a=r(36),o=r(8);n.b=e,n.c=i,e.invert=function(t,n){return[t,2*r.i(u.l)(r.i(u.m)(n))-u.k]},n.a=function(){return i(e).scale(961/u.b)}},function(t,n,r){"use strict";function e(t){return null==t?null:i(t)}function i(t){if("function"!=typeof t)throw new Error;return t}n.b=e,n.a=i},function(t,n,r){"use strict";function e(t,n){var r,e,i,a,f,s=new c(t),l=+t.value&&(s.value=t.value),h=[s];for(null==n&&(n=u);r=h.pop();)if(l&&(r.value=+r.data.value),(i=n(r.data))&&(f=i.length))for(r.children=new Array(f),a=f-1;a>=0;--a)h.push(e=r.children[a]=new c(i[a])),e.parent=r,e.depth=r.depth+1;return s.eachBefore(o)}function i(){return e(this).eachBefore(a)}function u(t){return t.children}function a(t){t.data=t.data.data}function o(t){var n=0;do{t.height=n}while((t=t.parent)&&t.height<++n)}function c(t){this.data=t,this.depth=this.height=0,this.parent=null}var f=r(278),s=r(280),l=r(282),h=r(281),d=r(287),p=r(286),v=r(285),g=r(277),y=r(279),_=r(283),b=r(284);n.a=e,n.c=o,n.b=c,c.prototype=e.prototype={constructor:c,count:f.a,each:s.a,eachAfter:h.a,eachBefore:l.a,sum:d.a,sort:p.a,path:v.a,ancestors:g.a,descendants:y.a,leaves:_.a,links:b.a,copy:i}},function(t,n,r){"use strict";function e(t,n,e,a,o,c){for(var f,s,l,h,d,p,v,g,y,_,b,m=[],x=n.children,w=0,M=0,k=x.length,T=n.value;w<k;){l=o-e,h=c-a;do{d=x[M++].value}while(!d&&M<k);for(p=v=d,_=Math.max(h/l,l/h)/(T*t),b=d*d*_,y=Math.max(v/b,b/p);M<k;++M){if(d+=s=x[M].value,s<p&&(p=s),s>v&&(v=s),b=d*d*_,(g=Math.max(v/b,b/p))>y){d-=s;break}y=g}m.push(f={value:d,dice:l<h,children:x.slice(w,M)}),f.dice?r.i(i.a)(f,e,a,o,T?a+=h*d/T:c):r.i(u.a)(f,e,a,T?e+=l*d/T:o,c),T-=d,w=M}return m}var i=r(25),u=r(38);r.d(n,"c",function(){return a}),n.b=e;var a=(1+Math.sqrt(5))/2;n.a=function t(n){function r(t,r,i,u,a){e(n,t,r,i,u,a)}return r.ratio=function(n){return t((n=+n)>1?n:1)},r}(a)},function(t,n,r){"use strict";function e(t,n,r,e,i){var u=t*t,a=u*t;return((1-3*t+3*u-a)*n+(4-6*u+3*a)*r+(1+3*t+3*u-3*a)*e+a*i)/6}n.b=e,n.a=function(t){var n=t.length-1;return function(r){var i=r<=0?r=0:r>=1?(r=1,n-1):Math.floor(r*n),u=t[i],a=t[i+1],o=i>0?t[i-1]:2*u-a,c=i<n-1?t[i+2]:2*a-u;return e((r-i/n)*n,o,u,a,c)}}},function(t,n,r){"use strict";var e=r(7),i=r(137),u=r(132),a=r(135),o=r(39),c=r(136),f=r(138),s=r(134);n.a=function(t,n){var l,h=typeof n;return null==n||"boolean"===h?r.i(s.a)(n):("number"===h?o.a:"string"===h?(l=r.i(e.a)(n))?(n=l,i.a):f.a:n instanceof e.a?i.a:n instanceof Date?a.a:Array.isArray(n)?u.a:"function"!=typeof n.valueOf&&"function"!=typeof n.toString||isNaN(n)?c.a:o.a)(t,n)}},function(t,n,r){"use strict";var e=r(319);r.d(n,"a",function(){return e.a})},function(t,n,r){"use strict";n.a=function(t,n,r,e,i){this.node=t,this.x0=n,this.y0=r,this.x1=e,this.y1=i}},function(t,n,r){"use strict";function e(t){return function(n,r){t(null==n?r:null)}}function i(t){var n=t.responseType;return n&&"text"!==n?t.response:t.responseText}var u=r(22),a=r(12);n.a=function(t,n){function o(t){var n,r=p.status;if(!r&&i(p)||r>=200&&r<300||304===r){if(s)try{n=s.call(c,p)}catch(t){return void h.call("error",c,t)}else n=p;h.call("load",c,n)}else h.call("error",c,t)}var c,f,s,l,h=r.i(a.a)("beforesend","progress","load","error"),d=r.i(u.c)(),p=new XMLHttpRequest,v=null,g=null,y=0;if("undefined"==typeof XDomainRequest||"withCredentials"in p||!/^(http(s)?:)?\/\//.test(t)||(p=new XDomainRequest),"onload"in p?p.onload=p.onerror=p.ontimeout=o:p.onreadystatechange=function(t){p.readyState>3&&o(t)},p.onprogress=function(t){h.call("progress",c,t)},c={header:function(t,n){return t=(t+"").toLowerCase(),arguments.length<2?d.get(t):(null==n?d.remove(t):d.set(t,n+""),c)},mimeType:function(t){return arguments.length?(f=null==t?null:t+"",c):f},responseType:function(t){return arguments.length?(l=t,c):l},timeout:function(t){return arguments.length?(y=+t,c):y},user:function(t){return arguments.length<1?v:(v=null==t?null:t+"",c)},password:function(t){return arguments.length<1?g:(g=null==t?null:t+"",c)},response:function(t){return s=t,c},get:function(t,n){return c.send("GET",t,n)},post:function(t,n){return c.send("POST",t,n)},send:function(n,r,i){return p.open(n,t,!0,v,g),null==f||d.has("accept")||d.set("accept",f+",*/*"),p.setRequestHeader&&d.each(function(t,n){p.setRequestHeader(n,t)}),null!=f&&p.overrideMimeType&&p.overrideMimeType(f),null!=l&&(p.responseType=l),y>0&&(p.timeout=y),null==i&&"function"==typeof r&&(i=r,r=null),null!=i&&1===i.length&&(i=e(i)),null!=i&&c.on("error",i).on("load",function(t){i(null,t)}),h.call("beforesend",c,p),p.send(null==r?null:r),c},abort:function(){return p.abort(),c},on:function(){var t=h.on.apply(h,arguments);return t===h?c:t}},null!=n){if("function"!=typeof n)throw new Error("invalid callback: "+n);return c.get(n)}return c}},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(t){return function(){var n=this.ownerDocument,r=this.namespaceURI;return r===a.b&&n.documentElement.namespaceURI===a.b?n.createElement(t):n.createElementNS(r,t)}}function i(t){return function(){return this.ownerDocument.createElementNS(t.space,t.local)}}var u=r(75),a=r(76);n.a=function(t){var n=r.i(u.a)(t);return(n.local?i:e)(n)}},function(t,n,r){"use strict";var e=r(76);n.a=function(t){var n=t+="",r=n.indexOf(":");return r>=0&&"xmlns"!==(n=t.slice(0,r))&&(t=t.slice(r+1)),e.a.hasOwnProperty(n)?{space:e.a[n],local:t}:t}},function(t,n,r){"use strict";r.d(n,"b",function(){return e});var e="http://www.w3.org/1999/xhtml";n.a={svg:"http://www.w3.org/2000/svg",xhtml:e,xlink:"http://www.w3.org/1999/xlink",xml:"http://www.w3.org/XML/1998/namespace",xmlns:"http://www.w3.org/2000/xmlns/"}},function(t,n,r){"use strict";function e(t,n,r){return t=i(t,n,r),function(n){var r=n.relatedTarget;r&&(r===this||8&r.compareDocumentPosition(this))||t.call(this,n)}}function i(t,n,r){return function(e){var i=s;s=e;try{t.call(this,this.__data__,n,r)}finally{s=i}}}function u(t){return t.trim().split(/^|\s+/).map(function(t){var n="",r=t.indexOf(".");return r>=0&&(n=t.slice(r+1),t=t.slice(0,r)),{type:t,name:n}})}function a(t){return function(){var n=this.__on;if(n){for(var r,e=0,i=-1,u=n.length;e<u;++e)r=n[e],t.type&&r.type!==t.type||r.name!==t.name?n[++i]=r:this.removeEventListener(r.type,r.listener,r.capture);++i?n.length=i:delete this.__on}}}function o(t,n,r){var u=f.hasOwnProperty(t.type)?e:i;return function(e,i,a){var o,c=this.__on,f=u(n,i,a);if(c)for(var s=0,l=c.length;s<l;++s)if((o=c[s]).type===t.type&&o.name===t.name)return this.removeEventListener(o.type,o.listener,o.capture),this.addEventListener(o.type,o.listener=f,o.capture=r),void(o.value=n);this.addEventListener(t.type,f,r),o={type:t.type,name:t.name,value:n,listener:f,capture:r},c?c.push(o):this.__on=[o]}}function c(t,n,r,e){var i=s;t.sourceEvent=s,s=t;try{return n.apply(r,e)}finally{s=i}}r.d(n,"a",function(){return s}),n.b=c;var f={},s=null;if("undefined"!=typeof document){"onmouseenter"in document.documentElement||(f={mouseenter:"mouseover",mouseleave:"mouseout"})}n.c=function(t,n,r){var e,i,c=u(t+""),f=c.length;{if(!(arguments.length<2)){for(s=n?o:a,null==r&&(r=!1),e=0;e<f;++e)this.each(s(c[e],n,r));return this}var s=this.node().__on;if(s)for(var l,h=0,d=s.length;h<d;++h)for(e=0,l=s[h];e<f;++e)if((i=c[e]).type===l.type&&i.name===l.name)return l.value}}},function(t,n,r){"use strict";function e(){}n.a=function(t){return null==t?e:function(){return this.querySelector(t)}}},function(t,n,r){"use strict";var e=r(77);n.a=function(){for(var t,n=e.a;t=n.sourceEvent;)n=t;return n}},function(t,n,r){"use strict";n.a=function(t){return t.ownerDocument&&t.ownerDocument.defaultView||t.document&&t||t.defaultView}},function(t,n,r){"use strict";function e(t,n,r){var e=t._x1,i=t._y1,a=t._x2,o=t._y2;if(t._l01_a>u.a){var c=2*t._l01_2a+3*t._l01_a*t._l12_a+t._l12_2a,f=3*t._l01_a*(t._l01_a+t._l12_a);e=(e*c-t._x0*t._l12_2a+t._x2*t._l01_2a)/f,i=(i*c-t._y0*t._l12_2a+t._y2*t._l01_2a)/f}if(t._l23_a>u.a){var s=2*t._l23_2a+3*t._l23_a*t._l12_a+t._l12_2a,l=3*t._l23_a*(t._l23_a+t._l12_a);a=(a*s+t._x1*t._l23_2a-n*t._l12_2a)/l,o=(o*s+t._y1*t._l23_2a-r*t._l12_2a)/l}t._context.bezierCurveTo(e,i,a,o,t._x2,t._y2)}function i(t,n){this._context=t,this._alpha=n}var u=r(29),a=r(44);n.b=e,i.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._x2=this._y0=this._y1=this._y2=NaN,this._l01_a=this._l12_a=this._l23_a=this._l01_2a=this._l12_2a=this._l23_2a=this._point=0},lineEnd:function(){switch(this._point){case 2:this._context.lineTo(this._x2,this._y2);break;case 3:this.point(this._x2,this._y2)}(this._line||0!==this._line&&1===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){if(t=+t,n=+n,this._point){var r=this._x2-t,i=this._y2-n;this._l23_a=Math.sqrt(this._l23_2a=Math.pow(r*r+i*i,this._alpha))}switch(this._point){case 0:this._point=1,this._line?this._context.lineTo(t,n):this._context.moveTo(t,n);break;case 1:this._point=2;break;case 2:this._point=3;default:e(this,t,n)}this._l01_a=this._l12_a,this._l12_a=this._l23_a,this._l01_2a=this._l12_2a,this._l12_2a=this._l23_2a,this._x0=this._x1,this._x1=this._x2,this._x2=t,this._y0=this._y1,this._y1=this._y2,this._y2=n}},n.a=function t(n){function r(t){return n?new i(t,n):new a.b(t,0)}return r.alpha=function(n){return t(+n)},r}(.5)},function(t,n,r){"use strict";var e=r(14),i=r(16),u=r(45),a=r(84);n.a=function(){function t(t){var i,u,a,h=t.length,d=!1;for(null==f&&(l=s(a=r.i(e.a)())),i=0;i<=h;++i)!(i<h&&c(u=t[i],i,t))===d&&((d=!d)?l.lineStart():l.lineEnd()),d&&l.point(+n(u,i,t),+o(u,i,t));if(a)return l=null,a+""||null}var n=a.a,o=a.b,c=r.i(i.a)(!0),f=null,s=u.a,l=null;return t.x=function(e){return arguments.length?(n="function"==typeof e?e:r.i(i.a)(+e),t):n},t.y=function(n){return arguments.length?(o="function"==typeof n?n:r.i(i.a)(+n),t):o},t.defined=function(n){return arguments.length?(c="function"==typeof n?n:r.i(i.a)(!!n),t):c},t.curve=function(n){return arguments.length?(s=n,null!=f&&(l=s(f)),t):s},t.context=function(n){return arguments.length?(null==n?f=l=null:l=s(f=n),t):f},t}},function(t,n,r){"use strict";function e(t){for(var n,r=0,e=-1,i=t.length;++e<i;)(n=+t[e][1])&&(r+=n);return r}var i=r(31);n.b=e,n.a=function(t){var n=t.map(e);return r.i(i.a)(t).sort(function(t,r){return n[t]-n[r]})}},function(t,n,r){"use strict";function e(t){return t[0]}function i(t){return t[1]}n.a=e,n.b=i},function(t,n,r){"use strict";var e=r(86);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c}),r.d(n,"d",function(){return e.d}),r.d(n,"e",function(){return e.e});var i=r(166);r.d(n,"f",function(){return i.a});var u=r(165);r.d(n,"g",function(){return u.a});var a=r(418);r.d(n,"h",function(){return a.a})},function(t,n,r){"use strict";function e(t){return u=r.i(i.a)(t),a=u.format,o=u.parse,c=u.utcFormat,f=u.utcParse,u}var i=r(166);r.d(n,"b",function(){return a}),r.d(n,"c",function(){return o}),r.d(n,"d",function(){return c}),r.d(n,"e",function(){return f}),n.a=e;var u,a,o,c,f;e({dateTime:"%x, %X",date:"%-m/%-d/%Y",time:"%-I:%M:%S %p",periods:["AM","PM"],days:["Sunday","Monday","Tuesday","Wednesday","Thursday","Friday","Saturday"],shortDays:["Sun","Mon","Tue","Wed","Thu","Fri","Sat"],months:["January","February","March","April","May","June","July","August","September","October","November","December"],shortMonths:["Jan","Feb","Mar","Apr","May","Jun","Jul","Aug","Sep","Oct","Nov","Dec"]})},function(t,n,r){"use strict";function e(){return b||(w(i),b=x.now()+m)}function i(){b=0}function u(){this._call=this._time=this._next=null}function a(t,n,r){var e=new u;return e.restart(t,n,r),e}function o(){e(),++p;for(var t,n=h;n;)(t=b-n._time)>=0&&n._call.call(null,t),n=n._next;--p}function c(){b=(_=x.now())+m,p=v=0;try{o()}finally{p=0,s(),b=0}}function f(){var t=x.now(),n=t-_;n>y&&(m-=n,_=t)}function s(){for(var t,n,r=h,e=1/0;r;)r._call?(e>r._time&&(e=r._time),t=r,r=r._next):(n=r._next,r._next=null,r=t?t._next=n:h=n);d=t,l(e)}function l(t){if(!p){v&&(v=clearTimeout(v));t-b>24?(t<1/0&&(v=setTimeout(c,t-x.now()-m)),g&&(g=clearInterval(g))):(g||(_=x.now(),g=setInterval(f,y)),p=1,w(c))}}n.a=e,n.d=u,n.b=a,n.c=o;var h,d,p=0,v=0,g=0,y=1e3,_=0,b=0,m=0,x="object"==typeof performance&&performance.now?performance:Date,w="object"==typeof window&&window.requestAnimationFrame?window.requestAnimationFrame.bind(window):function(t){setTimeout(t,17)};u.prototype=a.prototype={constructor:u,restart:function(t,n,r){if("function"!=typeof t)throw new TypeError("callback is not a function");r=(null==r?e():+r)+(null==n?0:+n),this._next||d===this||(d?d._next=this:h=this,d=this),this._call=t,this._time=r,l()},stop:function(){this._call&&(this._call=null,this._time=1/0,l())}}},function(t,n,r){"use strict";var e=(r(436),r(11));r.d(n,"a",function(){return e.a});var i=r(435);r.d(n,"b",function(){return i.a});var u=r(167);r.d(n,"c",function(){return u.a})},function(t,n,r){"use strict";function e(t,n,r,e){var i=[null,null],a=f.d.push(i)-1;return i.left=t,i.right=n,r&&u(i,t,n,r),e&&u(i,n,t,e),f.c[t.index].halfedges.push(a),f.c[n.index].halfedges.push(a),i}function i(t,n,r){var e=[n,r];return e.left=t,e}function u(t,n,r,e){t[0]||t[1]?t.left===r?t[1]=e:t[0]=e:(t[0]=e,t.left=n,t.right=r)}function a(t,n,r,e,i){var u,a=t[0],o=t[1],c=a[0],f=a[1],s=o[0],l=o[1],h=0,d=1,p=s-c,v=l-f;if(u=n-c,p||!(u>0)){if(u/=p,p<0){if(u<h)return;u<d&&(d=u)}else if(p>0){if(u>d)return;u>h&&(h=u)}if(u=e-c,p||!(u<0)){if(u/=p,p<0){if(u>d)return;u>h&&(h=u)}else if(p>0){if(u<h)return;u<d&&(d=u)}if(u=r-f,v||!(u>0)){if(u/=v,v<0){if(u<h)return;u<d&&(d=u)}else if(v>0){if(u>d)return;u>h&&(h=u)}if(u=i-f,v||!(u<0)){if(u/=v,v<0){if(u>d)return;u>h&&(h=u)}else if(v>0){if(u<h)return;u<d&&(d=u)}return!(h>0||d<1)||(h>0&&(t[0]=[c+h*p,f+h*v]),d<1&&(t[1]=[c+d*p,f+d*v]),!0)}}}}}function o(t,n,r,e,i){var u=t[1];if(u)return!0;var a,o,c=t[0],f=t.left,s=t.right,l=f[0],h=f[1],d=s[0],p=s[1],v=(l+d)/2,g=(h+p)/2;if(p===h){if(v<n||v>=e)return;if(l>d){if(c){if(c[1]>=i)return}else c=[v,r];u=[v,i]}else{if(c){if(c[1]<r)return}else c=[v,i];u=[v,r]}}else if(a=(l-d)/(p-h),o=g-a*v,a<-1||a>1)if(l>d){if(c){if(c[1]>=i)return}else c=[(r-o)/a,r];u=[(i-o)/a,i]}else{if(c){if(c[1]<r)return}else c=[(i-o)/a,i];u=[(r-o)/a,r]}else if(h<p){if(c){if(c[0]>=e)return}else c=[n,a*n+o];u=[e,a*e+o]}else{if(c){if(c[0]<n)return}else c=[e,a*e+o];u=[n,a*n+o]}return t[0]=c,t[1]=u,!0}function c(t,n,r,e){for(var i,u=f.d.length;u--;)o(i=f.d[u],t,n,r,e)&&a(i,t,n,r,e)&&(Math.abs(i[0][0]-i[1][0])>f.b||Math.abs(i[0][1]-i[1][1])>f.b)||delete f.d[u]}var f=r(32);n.d=e,n.b=i,n.c=u,n.a=c},function(t,n,r){"use strict";function e(){this._=null}function i(t){t.U=t.C=t.L=t.R=t.P=t.N=null}function u(t,n){var r=n,e=n.R,i=r.U;i?i.L===r?i.L=e:i.R=e:t._=e,e.U=i,r.U=e,r.R=e.L,r.R&&(r.R.U=r),e.L=r}function a(t,n){var r=n,e=n.L,i=r.U;i?i.L===r?i.L=e:i.R=e:t._=e,e.U=i,r.U=e,r.L=e.R,r.L&&(r.L.U=r),e.R=r}function o(t){for(;t.L;)t=t.L;return t}n.b=i,e.prototype={constructor:e,insert:function(t,n){var r,e,i;if(t){if(n.P=t,n.N=t.N,t.N&&(t.N.P=n),t.N=n,t.R){for(t=t.R;t.L;)t=t.L;t.L=n}else t.R=n;r=t}else this._?(t=o(this._),n.P=null,n.N=t,t.P=t.L=n,r=t):(n.P=n.N=null,this._=n,r=null);for(n.L=n.R=null,n.U=r,n.C=!0,t=n;r&&r.C;)e=r.U,r===e.L?(i=e.R,i&&i.C?(r.C=i.C=!1,e.C=!0,t=e):(t===r.R&&(u(this,r),t=r,r=t.U),r.C=!1,e.C=!0,a(this,e))):(i=e.L,i&&i.C?(r.C=i.C=!1,e.C=!0,t=e):(t===r.L&&(a(this,r),t=r,r=t.U),r.C=!1,e.C=!0,u(this,e))),r=t.U;this._.C=!1},remove:function(t){t.N&&(t.N.P=t.P),t.P&&(t.P.N=t.N),t.N=t.P=null;var n,r,e,i=t.U,c=t.L,f=t.R;if(r=c?f?o(f):c:f,i?i.L===t?i.L=r:i.R=r:this._=r,c&&f?(e=r.C,r.C=t.C,r.L=c,c.U=r,r!==f?(i=r.U,r.U=t.U,t=r.R,i.L=t,r.R=f,f.U=r):(r.U=i,i=r,t=r.R)):(e=t.C,t=r),t&&(t.U=i),!e){if(t&&t.C)return void(t.C=!1);do{if(t===this._)break;if(t===i.L){if(n=i.R,n.C&&(n.C=!1,i.C=!0,u(this,i),n=i.R),n.L&&n.L.C||n.R&&n.R.C){n.R&&n.R.C||(n.L.C=!1,n.C=!0,a(this,n),n=i.R),n.C=i.C,i.C=n.R.C=!1,u(this,i),t=this._;break}}else if(n=i.L,n.C&&(n.C=!1,i.C=!0,a(this,i),n=i.L),n.L&&n.L.C||n.R&&n.R.C){n.L&&n.L.C||(n.R.C=!1,n.C=!0,u(this,n),n=i.L),n.C=i.C,i.C=n.L.C=!1,a(this,i),t=this._;break}n.C=!0,t=i,i=i.U}while(!t.C);t&&(t.C=!1)}}},n.a=e},function(t,n,r){"use strict";r.d(n,"b",function(){return i}),r.d(n,"a",function(){return u});var e=Array.prototype,i=e.slice,u=e.map},function(t,n,r){"use strict";var e=r(17),i=r(93);r.d(n,"b",function(){return a}),r.d(n,"c",function(){return o});var u=r.i(i.a)(e.a),a=u.right,o=u.left;n.a=a},function(t,n,r){"use strict";function e(t){return function(n,e){return r.i(i.a)(t(n),e)}}var i=r(17);n.a=function(t){return 1===t.length&&(t=e(t)),{left:function(n,r,e,i){for(null==e&&(e=0),null==i&&(i=n.length);e<i;){var u=e+i>>>1;t(n[u],r)<0?e=u+1:i=u}return e},right:function(n,r,e,i){for(null==e&&(e=0),null==i&&(i=n.length);e<i;){var u=e+i>>>1;t(n[u],r)>0?i=u:e=u+1}return e}}}},function(t,n,r){"use strict";var e=r(102);n.a=function(t,n){var i=r.i(e.a)(t,n);return i?Math.sqrt(i):i}},function(t,n,r){"use strict";n.a=function(t,n){var r,e,i,u=t.length,a=-1;if(null==n){for(;++a<u;)if(null!=(r=t[a])&&r>=r)for(e=i=r;++a<u;)null!=(r=t[a])&&(e>r&&(e=r),i<r&&(i=r))}else for(;++a<u;)if(null!=(r=n(t[a],a,t))&&r>=r)for(e=i=r;++a<u;)null!=(r=n(t[a],a,t))&&(e>r&&(e=r),i<r&&(i=r));return[e,i]}},function(t,n,r){"use strict";n.a=function(t,n){var r,e,i=t.length,u=-1;if(null==n){for(;++u<i;)if(null!=(r=t[u])&&r>=r)for(e=r;++u<i;)null!=(r=t[u])&&e>r&&(e=r)}else for(;++u<i;)if(null!=(r=n(t[u],u,t))&&r>=r)for(e=r;++u<i;)null!=(r=n(t[u],u,t))&&e>r&&(e=r);return e}},function(t,n,r){"use strict";function e(t,n){return[t,n]}n.b=e,n.a=function(t,n){null==n&&(n=e);for(var r=0,i=t.length-1,u=t[0],a=new Array(i<0?0:i);r<i;)a[r]=n(u,u=t[++r]);return a}},function(t,n,r){"use strict";n.a=function(t,n,r){t=+t,n=+n,r=(i=arguments.length)<2?(n=t,t=0,1):i<3?1:+r;for(var e=-1,i=0|Math.max(0,Math.ceil((n-t)/r)),u=new Array(i);++e<i;)u[e]=t+e*r;return u}},function(t,n,r){"use strict";n.a=function(t){return Math.ceil(Math.log(t.length)/Math.LN2)+1}},function(t,n,r){"use strict";function e(t,n,r){var e=(n-t)/Math.max(0,r),i=Math.floor(Math.log(e)/Math.LN10),c=e/Math.pow(10,i);return i>=0?(c>=u?10:c>=a?5:c>=o?2:1)*Math.pow(10,i):-Math.pow(10,-i)/(c>=u?10:c>=a?5:c>=o?2:1)}function i(t,n,r){var e=Math.abs(n-t)/Math.max(0,r),i=Math.pow(10,Math.floor(Math.log(e)/Math.LN10)),c=e/i;return c>=u?i*=10:c>=a?i*=5:c>=o&&(i*=2),n<t?-i:i}n.b=e,n.c=i;var u=Math.sqrt(50),a=Math.sqrt(10),o=Math.sqrt(2);n.a=function(t,n,r){var i,u,a,o,c=-1;if(n=+n,t=+t,r=+r,t===n&&r>0)return[t];if((i=n<t)&&(u=t,t=n,n=u),0===(o=e(t,n,r))||!isFinite(o))return[];if(o>0)for(t=Math.ceil(t/o),n=Math.floor(n/o),a=new Array(u=Math.ceil(n-t+1));++c<u;)a[c]=(t+c)*o;else for(t=Math.floor(t*o),n=Math.ceil(n*o),a=new Array(u=Math.ceil(t-n+1));++c<u;)a[c]=(t-c)/o;return i&&a.reverse(),a}},function(t,n,r){"use strict";function e(t){return t.length}var i=r(96);n.a=function(t){if(!(o=t.length))return[];for(var n=-1,u=r.i(i.a)(t,e),a=new Array(u);++n<u;)for(var o,c=-1,f=a[n]=new Array(o);++c<o;)f[c]=t[c][n];return a}},function(t,n,r){"use strict";var e=r(21);n.a=function(t,n){var i,u,a=t.length,o=0,c=-1,f=0,s=0;if(null==n)for(;++c<a;)isNaN(i=r.i(e.a)(t[c]))||(u=i-f,f+=u/++o,s+=u*(i-f));else for(;++c<a;)isNaN(i=r.i(e.a)(n(t[c],c,t)))||(u=i-f,f+=u/++o,s+=u*(i-f));if(o>1)return s/(o-1)}},function(t,n,r){"use strict";r.d(n,"b",function(){return e}),r.d(n,"c",function(){return i}),r.d(n,"a",function(){return a}),r.d(n,"e",function(){return o}),r.d(n,"d",function(){return c});var e=Math.cos,i=Math.sin,u=Math.PI,a=u/2,o=2*u,c=Math.max},function(t,n,r){"use strict";r.d(n,"b",function(){return e}),r.d(n,"a",function(){return i});var e=Math.PI/180,i=180/Math.PI},function(t,n,r){"use strict";function e(t,n){var e=t.document.documentElement,a=r.i(i.h)(t).on("dragstart.drag",null);n&&(a.on("click.drag",u.a,!0),setTimeout(function(){a.on("click.drag",null)},0)),"onselectstart"in e?a.on("selectstart.drag",null):(e.style.MozUserSelect=e.__noselect,delete e.__noselect)}var i=r(1),u=r(106);n.b=e,n.a=function(t){var n=t.document.documentElement,e=r.i(i.h)(t).on("dragstart.drag",u.a,!0);"onselectstart"in n?e.on("selectstart.drag",u.a,!0):(n.__noselect=n.style.MozUserSelect,n.style.MozUserSelect="none")}},function(t,n,r){"use strict";function e(){i.q.stopImmediatePropagation()}var i=r(1);n.b=e,n.a=function(){i.q.preventDefault(),i.q.stopImmediatePropagation()}},function(t,n,r){"use strict";var e=r(225);r.d(n,"a",function(){return e.a});var i=r(227);r.d(n,"b",function(){return i.a}),r.d(n,"c",function(){return i.b}),r.d(n,"d",function(){return i.c}),r.d(n,"e",function(){return i.a});var u=r(222);r.d(n,"f",function(){return u.a}),r.d(n,"g",function(){return u.b}),r.d(n,"h",function(){return u.c}),r.d(n,"i",function(){return u.a});var a=r(226);r.d(n,"j",function(){return a.a}),r.d(n,"k",function(){return a.b}),r.d(n,"l",function(){return a.c}),r.d(n,"m",function(){return a.a});var o=r(228);r.d(n,"n",function(){return o.a}),r.d(n,"o",function(){return o.b}),r.d(n,"p",function(){return o.c}),r.d(n,"q",function(){return o.a});var c=r(224);r.d(n,"r",function(){return c.a}),r.d(n,"s",function(){return c.b}),r.d(n,"t",function(){return c.c}),r.d(n,"u",function(){return c.a});var f=r(221);r.d(n,"v",function(){return f.a}),r.d(n,"w",function(){return f.b}),r.d(n,"x",function(){return f.c}),r.d(n,"y",function(){return f.a});var s=r(220);r.d(n,"z",function(){return s.a}),r.d(n,"A",function(){return s.b}),r.d(n,"B",function(){return s.a}),r.d(n,"C",function(){return s.c});var l=r(219);r.d(n,"D",function(){return l.a}),r.d(n,"E",function(){return l.b}),r.d(n,"F",function(){return l.c}),r.d(n,"G",function(){return l.a});var h=r(223);r.d(n,"H",function(){return h.a}),r.d(n,"I",function(){return h.b}),r.d(n,"J",function(){return h.a}),r.d(n,"K",function(){return h.c})},function(t,n,r){"use strict";function e(t){return t.x}function i(t){return t.y}var u=r(12),a=r(22),o=r(48);n.b=e,n.c=i;var c=Math.PI*(3-Math.sqrt(5));n.a=function(t){function n(){e(),_.call("tick",s),l<h&&(y.stop(),_.call("end",s))}function e(){var n,r,e=t.length;for(l+=(p-l)*d,g.each(function(t){t(l)}),n=0;n<e;++n)r=t[n],null==r.fx?r.x+=r.vx*=v:(r.x=r.fx,r.vx=0),null==r.fy?r.y+=r.vy*=v:(r.y=r.fy,r.vy=0)}function i(){for(var n,r=0,e=t.length;r<e;++r){if(n=t[r],n.index=r,isNaN(n.x)||isNaN(n.y)){var i=10*Math.sqrt(r),u=r*c;n.x=i*Math.cos(u),n.y=i*Math.sin(u)}(isNaN(n.vx)||isNaN(n.vy))&&(n.vx=n.vy=0)}}function f(n){return n.initialize&&n.initialize(t),n}var s,l=1,h=.001,d=1-Math.pow(h,1/300),p=0,v=.6,g=r.i(a.c)(),y=r.i(o.b)(n),_=r.i(u.a)("tick","end");return null==t&&(t=[]),i(),s={tick:e,restart:function(){return y.restart(n),s},stop:function(){return y.stop(),s},nodes:function(n){return arguments.length?(t=n,i(),g.each(f),s):t},alpha:function(t){return arguments.length?(l=+t,s):l},alphaMin:function(t){return arguments.length?(h=+t,s):h},alphaDecay:function(t){return arguments.length?(d=+t,s):+d},alphaTarget:function(t){return arguments.length?(p=+t,s):p},velocityDecay:function(t){return arguments.length?(v=1-t,s):1-v},force:function(t,n){return arguments.length>1?(null==n?g.remove(t):g.set(t,f(n)),s):g.get(t)},find:function(n,r,e){var i,u,a,o,c,f=0,s=t.length;for(null==e?e=1/0:e*=e,f=0;f<s;++f)o=t[f],i=n-o.x,u=r-o.y,(a=i*i+u*u)<e&&(c=o,e=a);return c},on:function(t,n){return arguments.length>1?(_.on(t,n),s):_.on(t)}}}},function(t,n,r){"use strict";var e=r(59);r.d(n,"b",function(){return i});var i;n.a=function(t,n){var u=r.i(e.a)(t,n);if(!u)return t+"";var a=u[0],o=u[1],c=o-(i=3*Math.max(-8,Math.min(8,Math.floor(o/3))))+1,f=a.length;return c===f?a:c>f?a+new Array(c-f+1).join("0"):c>0?a.slice(0,c)+"."+a.slice(c):"0."+new Array(1-c).join("0")+r.i(e.a)(t,Math.max(0,n+c-1))[0]}},function(t,n,r){"use strict";function e(t){return new i(t)}function i(t){if(!(n=a.exec(t)))throw new Error("invalid format: "+t);var n,r=n[1]||" ",e=n[2]||">",i=n[3]||"-",o=n[4]||"",c=!!n[5],f=n[6]&&+n[6],s=!!n[7],l=n[8]&&+n[8].slice(1),h=n[9]||"";"n"===h?(s=!0,h="g"):u.a[h]||(h=""),(c||"0"===r&&"="===e)&&(c=!0,r="0",e="="),this.fill=r,this.align=e,this.sign=i,this.symbol=o,this.zero=c,this.width=f,this.comma=s,this.precision=l,this.type=h}var u=r(111);n.a=e;var a=/^(?:(.)?([<>=^]))?([+\-\( ])?([$#])?(0)?(\d+)?(,)?(\.\d+)?([a-z%])?$/i;e.prototype=i.prototype,i.prototype.toString=function(){return this.fill+this.align+this.sign+this.symbol+(this.zero?"0":"")+(null==this.width?"":Math.max(1,0|this.width))+(this.comma?",":"")+(null==this.precision?"":"."+Math.max(0,0|this.precision))+this.type}},function(t,n,r){"use strict";var e=r(238),i=r(109),u=r(241);n.a={"":e.a,"%":function(t,n){return(100*t).toFixed(n)},b:function(t){return Math.round(t).toString(2)},c:function(t){return t+""},d:function(t){return Math.round(t).toString(10)},e:function(t,n){return t.toExponential(n)},f:function(t,n){return t.toFixed(n)},g:function(t,n){return t.toPrecision(n)},o:function(t){return Math.round(t).toString(8)},p:function(t,n){return r.i(u.a)(100*t,n)},r:u.a,s:i.a,X:function(t){return Math.round(t).toString(16).toUpperCase()},x:function(t){return Math.round(t).toString(16)}}},function(t,n,r){"use strict";var e=r(34),i=r(239),u=r(240),a=r(110),o=r(111),c=r(109),f=r(242),s=["y","z","a","f","p","n","µ","m","","k","M","G","T","P","E","Z","Y"];n.a=function(t){function n(t){function n(t){var n,r,a,o=x,f=w;if("c"===m)f=M(t)+f,t="";else{t=+t;var d=t<0;if(t=M(Math.abs(t),b),d&&0==+t&&(d=!1),o=(d?"("===u?u:"-":"-"===u||"("===u?"":u)+o,f=f+("s"===m?s[8+c.b/3]:"")+(d&&"("===u?")":""),k)for(n=-1,r=t.length;++n<r;)if(48>(a=t.charCodeAt(n))||a>57){f=(46===a?p+t.slice(n+1):t.slice(n))+f,t=t.slice(0,n);break}}_&&!l&&(t=h(t,1/0));var g=o.length+t.length+f.length,T=g<y?new Array(y-g+1).join(e):"";switch(_&&l&&(t=h(T+t,T.length?y-f.length:1/0),T=""),i){case"<":t=o+t+f+T;break;case"=":t=o+T+t+f;break;case"^":t=T.slice(0,g=T.length>>1)+o+t+f+T.slice(g);break;default:t=T+o+t+f}return v(t)}t=r.i(a.a)(t);var e=t.fill,i=t.align,u=t.sign,f=t.symbol,l=t.zero,y=t.width,_=t.comma,b=t.precision,m=t.type,x="$"===f?d[0]:"#"===f&&/[boxX]/.test(m)?"0"+m.toLowerCase():"",w="$"===f?d[1]:/[%p]/.test(m)?g:"",M=o.a[m],k=!m||/[defgprs%]/.test(m);return b=null==b?m?6:12:/[gprs]/.test(m)?Math.max(1,Math.min(21,b)):Math.max(0,Math.min(20,b)),n.toString=function(){return t+""},n}function l(t,i){var u=n((t=r.i(a.a)(t),t.type="f",t)),o=3*Math.max(-8,Math.min(8,Math.floor(r.i(e.a)(i)/3))),c=Math.pow(10,-o),f=s[8+o/3];return function(t){return u(c*t)+f}}var h=t.grouping&&t.thousands?r.i(i.a)(t.grouping,t.thousands):f.a,d=t.currency,p=t.decimal,v=t.numerals?r.i(u.a)(t.numerals):f.a,g=t.percent||"%";return{format:n,formatPrefix:l}}},function(t,n,r){"use strict";function e(){_.point=u}function i(){a(l,h)}function u(t,n){_.point=a,l=t,h=n,t*=c.g,n*=c.g,d=t,p=r.i(c.c)(n=n/2+c.v),v=r.i(c.d)(n)}function a(t,n){t*=c.g,n*=c.g,n=n/2+c.v;var e=t-d,i=e>=0?1:-1,u=i*e,a=r.i(c.c)(n),o=r.i(c.d)(n),f=v*o,s=p*a+f*r.i(c.c)(u),l=f*i*r.i(c.d)(u);g.add(r.i(c.e)(l,s)),d=t,p=a,v=o}var o=r(19),c=r(0),f=r(10),s=r(13);r.d(n,"c",function(){return g}),r.d(n,"b",function(){return _});var l,h,d,p,v,g=r.i(o.a)(),y=r.i(o.a)(),_={point:f.a,lineStart:f.a,lineEnd:f.a,polygonStart:function(){g.reset(),_.lineStart=e,_.lineEnd=i},polygonEnd:function(){var t=+g;y.add(t<0?c.b+t:t),this.lineStart=this.lineEnd=this.point=f.a},sphere:function(){y.add(c.b)}};n.a=function(t){return y.reset(),r.i(s.a)(t,_),2*y}},function(t,n,r){"use strict";function e(t,n,e,a,c,f){if(e){var s=r.i(o.c)(n),l=r.i(o.d)(n),h=a*e;null==c?(c=n+a*o.b,f=n-h/2):(c=i(s,c),f=i(s,f),(a>0?c<f:c>f)&&(c+=a*o.b));for(var d,p=c;a>0?p>f:p<f;p-=h)d=r.i(u.g)([s,-l*r.i(o.c)(p),-l*r.i(o.d)(p)]),t.point(d[0],d[1])}}function i(t,n){n=r.i(u.a)(n),n[0]-=t,r.i(u.c)(n);var e=r.i(o.s)(-n[1]);return((-n[2]<0?-e:e)+o.b-o.o)%o.b}var u=r(23),a=r(251),o=r(0),c=r(36);n.b=e,n.a=function(){function t(t,n){i.push(t=u(t,n)),t[0]*=o.h,t[1]*=o.h}function n(){var t=f.apply(this,arguments),n=s.apply(this,arguments)*o.g,a=l.apply(this,arguments)*o.g;return i=[],u=r.i(c.b)(-t[0]*o.g,-t[1]*o.g,0).invert,e(h,n,a,1),t={type:"Polygon",coordinates:[i]},i=u=null,t}var i,u,f=r.i(a.a)([0,0]),s=r.i(a.a)(90),l=r.i(a.a)(6),h={point:t};return n.center=function(t){return arguments.length?(f="function"==typeof t?t:r.i(a.a)([+t[0],+t[1]]),n):f},n.radius=function(t){return arguments.length?(s="function"==typeof t?t:r.i(a.a)(+t),n):s},n.precision=function(t){return arguments.length?(l="function"==typeof t?t:r.i(a.a)(+t),n):l},n}},function(t,n,r){"use strict";function e(t){var n,e=NaN,u=NaN,a=NaN;return{lineStart:function(){t.lineStart(),n=1},point:function(c,f){var s=c>0?o.a:-o.a,l=r.i(o.p)(c-e);r.i(o.p)(l-o.a)<o.o?(t.point(e,u=(u+f)/2>0?o.k:-o.k),t.point(a,u),t.lineEnd(),t.lineStart(),t.point(s,u),t.point(c,u),n=0):a!==s&&l>=o.a&&(r.i(o.p)(e-a)<o.o&&(e-=a*o.o),r.i(o.p)(c-s)<o.o&&(c-=s*o.o),u=i(e,u,c,f),t.point(a,u),t.lineEnd(),t.lineStart(),t.point(s,u),n=0),t.point(e=c,u=f),a=s},lineEnd:function(){t.lineEnd(),e=u=NaN},clean:function(){return 2-n}}}function i(t,n,e,i){var u,a,c=r.i(o.d)(t-e);return r.i(o.p)(c)>o.o?r.i(o.l)((r.i(o.d)(n)*(a=r.i(o.c)(i))*r.i(o.d)(e)-r.i(o.d)(i)*(u=r.i(o.c)(n))*r.i(o.d)(t))/(u*a*c)):(n+i)/2}function u(t,n,e,i){var u;if(null==t)u=e*o.k,i.point(-o.a,u),i.point(0,u),i.point(o.a,u),i.point(o.a,0),i.point(o.a,-u),i.point(0,-u),i.point(-o.a,-u),i.point(-o.a,0),i.point(-o.a,u);else if(r.i(o.p)(t[0]-n[0])>o.o){var a=t[0]<n[0]?o.a:-o.a;u=e*a/2,i.point(-a,u),i.point(0,u),i.point(a,u)}else i.point(n[0],n[1])}var a=r(118),o=r(0);n.a=r.i(a.a)(function(){return!0},e,u,[-o.a,-o.k])},function(t,n,r){"use strict";var e=r(10);n.a=function(){var t,n=[];return{point:function(n,r){t.push([n,r])},lineStart:function(){n.push(t=[])},lineEnd:e.a,rejoin:function(){n.length>1&&n.push(n.pop().concat(n.shift()))},result:function(){var r=n;return n=[],t=null,r}}}},function(t,n,r){"use strict";var e=r(23),i=r(114),u=r(0),a=r(124),o=r(118);n.a=function(t){function n(n,e,u,a){r.i(i.b)(a,t,d,u,n,e)}function c(t,n){return r.i(u.c)(t)*r.i(u.c)(n)>h}function f(t){var n,e,i,o,f;return{lineStart:function(){o=i=!1,f=1},point:function(h,d){var g,y=[h,d],_=c(h,d),b=p?_?0:l(h,d):_?l(h+(h<0?u.a:-u.a),d):0;if(!n&&(o=i=_)&&t.lineStart(),_!==i&&(!(g=s(n,y))||r.i(a.a)(n,g)||r.i(a.a)(y,g))&&(y[0]+=u.o,y[1]+=u.o,_=c(y[0],y[1])),_!==i)f=0,_?(t.lineStart(),g=s(y,n),t.point(g[0],g[1])):(g=s(n,y),t.point(g[0],g[1]),t.lineEnd()),n=g;else if(v&&n&&p^_){var m;b&e||!(m=s(y,n,!0))||(f=0,p?(t.lineStart(),t.point(m[0][0],m[0][1]),t.point(m[1][0],m[1][1]),t.lineEnd()):(t.point(m[1][0],m[1][1]),t.lineEnd(),t.lineStart(),t.point(m[0][0],m[0][1])))}!_||n&&r.i(a.a)(n,y)||t.point(y[0],y[1]),n=y,i=_,e=b},lineEnd:function(){i&&t.lineEnd(),n=null},clean:function(){return f|(o&&i)<<1}}}function s(t,n,i){var a=r.i(e.a)(t),o=r.i(e.a)(n),c=[1,0,0],f=r.i(e.b)(a,o),s=r.i(e.d)(f,f),l=f[0],d=s-l*l;if(!d)return!i&&t;var p=h*s/d,v=-h*l/d,g=r.i(e.b)(c,f),y=r.i(e.e)(c,p),_=r.i(e.e)(f,v);r.i(e.f)(y,_);var b=g,m=r.i(e.d)(y,b),x=r.i(e.d)(b,b),w=m*m-x*(r.i(e.d)(y,y)-1);if(!(w<0)){var M=r.i(u.n)(w),k=r.i(e.e)(b,(-m-M)/x);if(r.i(e.f)(k,y),k=r.i(e.g)(k),!i)return k;var T,A=t[0],S=n[0],E=t[1],N=n[1];S<A&&(T=A,A=S,S=T);var C=S-A,q=r.i(u.p)(C-u.a)<u.o,z=q||C<u.o;if(!q&&N<E&&(T=E,E=N,N=T),z?q?E+N>0^k[1]<(r.i(u.p)(k[0]-A)<u.o?E:N):E<=k[1]&&k[1]<=N:C>u.a^(A<=k[0]&&k[0]<=S)){var P=r.i(e.e)(b,(-m+M)/x);return r.i(e.f)(P,y),[k,r.i(e.g)(P)]}}}function l(n,r){var e=p?t:u.a-t,i=0;return n<-e?i|=1:n>e&&(i|=2),r<-e?i|=4:r>e&&(i|=8),i}var h=r.i(u.c)(t),d=6*u.g,p=h>0,v=r.i(u.p)(h)>u.o;return r.i(o.a)(c,f,n,p?[0,-t]:[-u.a,t-u.a])}},function(t,n,r){"use strict";function e(t){return t.length>1}function i(t,n){return((t=t.x)[0]<0?t[1]-o.k-o.o:o.k-t[1])-((n=n.x)[0]<0?n[1]-o.k-o.o:o.k-n[1])}var u=r(116),a=r(119),o=r(0),c=r(125),f=r(3);n.a=function(t,n,o,s){return function(l){function h(n,r){t(n,r)&&l.point(n,r)}function d(t,n){w.point(t,n)}function p(){A.point=d,w.lineStart()}function v(){A.point=h,w.lineEnd()}function g(t,n){x.push([t,n]),k.point(t,n)}function y(){k.lineStart(),x=[]}function _(){g(x[0][0],x[0][1]),k.lineEnd();var t,n,r,i,u=k.clean(),a=M.result(),o=a.length;if(x.pop(),b.push(x),x=null,o)if(1&u){if(r=a[0],(n=r.length-1)>0){for(T||(l.polygonStart(),T=!0),l.lineStart(),t=0;t<n;++t)l.point((i=r[t])[0],i[1]);l.lineEnd()}}else o>1&&2&u&&a.push(a.pop().concat(a.shift())),m.push(a.filter(e))}var b,m,x,w=n(l),M=r.i(u.a)(),k=n(M),T=!1,A={point:h,lineStart:p,lineEnd:v,polygonStart:function(){A.point=g,A.lineStart=y,A.lineEnd=_,m=[],b=[]},polygonEnd:function(){A.point=h,A.lineStart=p,A.lineEnd=v,m=r.i(f.q)(m);var t=r.i(c.a)(b,s);m.length?(T||(l.polygonStart(),T=!0),r.i(a.a)(m,i,t,o,l)):t&&(T||(l.polygonStart(),T=!0),l.lineStart(),o(null,null,1,l),l.lineEnd()),T&&(l.polygonEnd(),T=!1),m=b=null},sphere:function(){l.polygonStart(),l.lineStart(),o(null,null,1,l),l.lineEnd(),l.polygonEnd()}};return A}}},function(t,n,r){"use strict";function e(t,n,r,e){this.x=t,this.z=n,this.o=r,this.e=e,this.v=!1,this.n=this.p=null}function i(t){if(n=t.length){for(var n,r,e=0,i=t[0];++e<n;)i.n=r=t[e],r.p=i,i=r;i.n=r=t[0],r.p=i}}var u=r(124);n.a=function(t,n,a,o,c){var f,s,l=[],h=[];if(t.forEach(function(t){if(!((n=t.length-1)<=0)){var n,i,a=t[0],o=t[n];if(r.i(u.a)(a,o)){for(c.lineStart(),f=0;f<n;++f)c.point((a=t[f])[0],a[1]);return void c.lineEnd()}l.push(i=new e(a,t,null,!0)),h.push(i.o=new e(a,null,i,!1)),l.push(i=new e(o,t,null,!1)),h.push(i.o=new e(o,null,i,!0))}}),l.length){for(h.sort(n),i(l),i(h),f=0,s=h.length;f<s;++f)h[f].e=a=!a;for(var d,p,v=l[0];;){for(var g=v,y=!0;g.v;)if((g=g.n)===v)return;d=g.z,c.lineStart();do{if(g.v=g.o.v=!0,g.e){if(y)for(f=0,s=d.length;f<s;++f)c.point((p=d[f])[0],p[1]);else o(g.x,g.n.x,1,c);g=g.n}else{if(y)for(d=g.p.z,f=d.length-1;f>=0;--f)c.point((p=d[f])[0],p[1]);else o(g.x,g.p.x,-1,c);g=g.p}g=g.o,d=g.z,y=!y}while(!g.v);c.lineEnd()}}}},function(t,n,r){"use strict";n.a=function(t,n){function r(r,e){return r=t(r,e),n(r[0],r[1])}return t.invert&&n.invert&&(r.invert=function(r,e){return(r=n.invert(r,e))&&t.invert(r[0],r[1])}),r}},function(t,n,r){"use strict";var e=r(122),i=[null,null],u={type:"LineString",coordinates:i};n.a=function(t,n){return i[0]=t,i[1]=n,r.i(e.a)(u)}},function(t,n,r){"use strict";function e(){v.point=u,v.lineEnd=i}function i(){v.point=v.lineEnd=h.a}function u(t,n){t*=l.g,n*=l.g,o=t,c=r.i(l.d)(n),f=r.i(l.c)(n),v.point=a}function a(t,n){t*=l.g,n*=l.g;var e=r.i(l.d)(n),i=r.i(l.c)(n),u=r.i(l.p)(t-o),a=r.i(l.c)(u),s=r.i(l.d)(u),h=i*s,d=f*e-c*i*a,v=c*e+f*i*a;p.add(r.i(l.e)(r.i(l.n)(h*h+d*d),v)),o=t,c=e,f=i}var o,c,f,s=r(19),l=r(0),h=r(10),d=r(13),p=r.i(s.a)(),v={sphere:h.a,point:h.a,lineStart:e,lineEnd:h.a,polygonStart:h.a,polygonEnd:h.a};n.a=function(t){return p.reset(),r.i(d.a)(t,v),+p}},function(t,n,r){"use strict";function e(t,n){t<u&&(u=t),t>o&&(o=t),n<a&&(a=n),n>c&&(c=n)}var i=r(10),u=1/0,a=u,o=-u,c=o,f={point:e,lineStart:i.a,lineEnd:i.a,polygonStart:i.a,polygonEnd:i.a,result:function(){var t=[[u,a],[o,c]];return o=c=-(a=u=1/0),t}};n.a=f},function(t,n,r){"use strict";var e=r(0);n.a=function(t,n){return r.i(e.p)(t[0]-n[0])<e.o&&r.i(e.p)(t[1]-n[1])<e.o}},function(t,n,r){"use strict";var e=r(19),i=r(23),u=r(0),a=r.i(e.a)();n.a=function(t,n){var e=n[0],o=n[1],c=[r.i(u.d)(e),-r.i(u.c)(e),0],f=0,s=0;a.reset();for(var l=0,h=t.length;l<h;++l)if(p=(d=t[l]).length)for(var d,p,v=d[p-1],g=v[0],y=v[1]/2+u.v,_=r.i(u.d)(y),b=r.i(u.c)(y),m=0;m<p;++m,g=w,_=k,b=T,v=x){var x=d[m],w=x[0],M=x[1]/2+u.v,k=r.i(u.d)(M),T=r.i(u.c)(M),A=w-g,S=A>=0?1:-1,E=S*A,N=E>u.a,C=_*k;if(a.add(r.i(u.e)(C*S*r.i(u.d)(E),b*T+C*r.i(u.c)(E))),f+=N?A+S*u.b:A,N^g>=e^w>=e){var q=r.i(i.b)(r.i(i.a)(v),r.i(i.a)(x));r.i(i.c)(q);var z=r.i(i.b)(c,q);r.i(i.c)(z);var P=(N^A>=0?-1:1)*r.i(u.f)(z[2]);(o>P||o===P&&(q[0]||q[1]))&&(s+=N^A>=0?1:-1)}}return(f<-u.o||f<u.o&&a<-u.o)^1&s}},function(t,n,r){"use strict";var e=r(62);n.a=function(){return r.i(e.a)().parallels([29.5,45.5]).scale(1070).translate([480,250]).rotate([96,0]).center([-.6,38.7])}},function(t,n,r){"use strict";function e(t,n){return[t,n]}var i=r(8);n.b=e,e.invert=e,n.a=function(){return r.i(i.a)(e).scale(152.63)}},function(t,n,r){"use strict";function e(){return 0}n.a=e,n.b=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(t,n){var r,e;if(a(n,t))return[n];for(r=0;r<t.length;++r)if(i(n,t[r])&&a(f(t[r],n),t))return[t[r],n];for(r=0;r<t.length-1;++r)for(e=r+1;e<t.length;++e)if(i(f(t[r],t[e]),n)&&i(f(t[r],n),t[e])&&i(f(t[e],n),t[r])&&a(s(t[r],t[e],n),t))return[t[r],t[e],n];throw new Error}function i(t,n){var r=t.r-n.r,e=n.x-t.x,i=n.y-t.y;return r<0||r*r<e*e+i*i}function u(t,n){var r=t.r-n.r+1e-6,e=n.x-t.x,i=n.y-t.y;return r>0&&r*r>e*e+i*i}function a(t,n){for(var r=0;r<n.length;++r)if(!u(t,n[r]))return!1;return!0}function o(t){switch(t.length){case 1:return c(t[0]);case 2:return f(t[0],t[1]);case 3:return s(t[0],t[1],t[2])}}function c(t){return{x:t.x,y:t.y,r:t.r}}function f(t,n){var r=t.x,e=t.y,i=t.r,u=n.x,a=n.y,o=n.r,c=u-r,f=a-e,s=o-i,l=Math.sqrt(c*c+f*f);return{x:(r+u+c/l*s)/2,y:(e+a+f/l*s)/2,r:(l+i+o)/2}}function s(t,n,r){var e=t.x,i=t.y,u=t.r,a=n.x,o=n.y,c=n.r,f=r.x,s=r.y,l=r.r,h=e-a,d=e-f,p=i-o,v=i-s,g=c-u,y=l-u,_=e*e+i*i-u*u,b=_-a*a-o*o+c*c,m=_-f*f-s*s+l*l,x=d*p-h*v,w=(p*m-v*b)/(2*x)-e,M=(v*g-p*y)/x,k=(d*b-h*m)/(2*x)-i,T=(h*y-d*g)/x,A=M*M+T*T-1,S=2*(u+w*M+k*T),E=w*w+k*k-u*u,N=-(A?(S+Math.sqrt(S*S-4*A*E))/(2*A):E/S);return{x:e+w+M*N,y:i+k+T*N,r:N}}var l=r(275);n.a=function(t){for(var n,i,a=0,c=(t=r.i(l.a)(l.b.call(t))).length,f=[];a<c;)n=t[a],i&&u(i,n)?++a:(i=o(f=e(f,n)),a=0);return i}},function(t,n,r){"use strict";function e(t,n,r){var e=t.x,i=t.y,u=n.r+r.r,a=t.r+r.r,o=n.x-e,c=n.y-i,f=o*o+c*c;if(f){var s=.5+((a*=a)-(u*=u))/(2*f),l=Math.sqrt(Math.max(0,2*u*(a+f)-(a-=f)*a-u*u))/(2*f);r.x=e+s*o+l*c,r.y=i+s*c-l*o}else r.x=e+a,r.y=i}function i(t,n){var r=n.x-t.x,e=n.y-t.y,i=t.r+n.r;return i*i-1e-6>r*r+e*e}function u(t){var n=t._,r=t.next._,e=n.r+r.r,i=(n.x*r.r+r.x*n.r)/e,u=(n.y*r.r+r.y*n.r)/e;return i*i+u*u}function a(t){this._=t,this.next=null,this.previous=null}function o(t){if(!(s=t.length))return 0;var n,o,f,s,l,h,d,p,v,g,y;if(n=t[0],n.x=0,n.y=0,!(s>1))return n.r;if(o=t[1],n.x=-o.r,o.x=n.r,o.y=0,!(s>2))return n.r+o.r;e(o,n,f=t[2]),n=new a(n),o=new a(o),f=new a(f),n.next=f.previous=o,o.next=n.previous=f,f.next=o.previous=n;t:for(d=3;d<s;++d){e(n._,o._,f=t[d]),f=new a(f),p=o.next,v=n.previous,g=o._.r,y=n._.r;do{if(g<=y){if(i(p._,f._)){o=p,n.next=o,o.previous=n,--d;continue t}g+=p._.r,p=p.next}else{if(i(v._,f._)){n=v,n.next=o,o.previous=n,--d;continue t}y+=v._.r,v=v.previous}}while(p!==v.next);for(f.previous=n,f.next=o,n.next=o.previous=o=f,l=u(n);(f=f.next)!==o;)(h=u(f))<l&&(n=f,l=h);o=n.next}for(n=[o._],f=o;(f=f.next)!==o;)n.push(f._);for(f=r.i(c.a)(n),d=0;d<s;++d)n=t[d],n.x-=f.x,n.y-=f.y;return f.r}var c=r(129);n.b=o,n.a=function(t){return o(t),t}},function(t,n,r){"use strict";n.a=function(t){t.x0=Math.round(t.x0),t.y0=Math.round(t.y0),t.x1=Math.round(t.x1),t.y1=Math.round(t.y1)}},function(t,n,r){"use strict";var e=r(69);n.a=function(t,n){var i,u=n?n.length:0,a=t?Math.min(u,t.length):0,o=new Array(a),c=new Array(u);for(i=0;i<a;++i)o[i]=r.i(e.a)(t[i],n[i]);for(;i<u;++i)c[i]=n[i];return function(t){for(i=0;i<a;++i)c[i]=o[i](t);return c}}},function(t,n,r){"use strict";var e=r(68);n.a=function(t){var n=t.length;return function(i){var u=Math.floor(((i%=1)<0?++i:i)*n),a=t[(u+n-1)%n],o=t[u%n],c=t[(u+1)%n],f=t[(u+2)%n];return r.i(e.b)((i-u/n)*n,a,o,c,f)}}},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";n.a=function(t,n){var r=new Date;return t=+t,n-=t,function(e){return r.setTime(t+n*e),r}}},function(t,n,r){"use strict";var e=r(69);n.a=function(t,n){var i,u={},a={};null!==t&&"object"==typeof t||(t={}),null!==n&&"object"==typeof n||(n={});for(i in n)i in t?u[i]=r.i(e.a)(t[i],n[i]):a[i]=n[i];return function(t){for(i in u)a[i]=u[i](t);return a}}},function(t,n,r){"use strict";function e(t){return function(n){var e,u,a=n.length,o=new Array(a),c=new Array(a),f=new Array(a);for(e=0;e<a;++e)u=r.i(i.b)(n[e]),o[e]=u.r||0,c[e]=u.g||0,f[e]=u.b||0;return o=t(o),c=t(c),f=t(f),u.opacity=1,function(t){return u.r=o(t),u.g=c(t),u.b=f(t),u+""}}}var i=r(7),u=r(68),a=r(133),o=r(26);r.d(n,"b",function(){return c}),r.d(n,"c",function(){return f}),n.a=function t(n){function e(t,n){var e=u((t=r.i(i.b)(t)).r,(n=r.i(i.b)(n)).r),a=u(t.g,n.g),c=u(t.b,n.b),f=r.i(o.a)(t.opacity,n.opacity);return function(n){return t.r=e(n),t.g=a(n),t.b=c(n),t.opacity=f(n),t+""}}var u=r.i(o.c)(n);return e.gamma=t,e}(1);var c=e(u.a),f=e(a.a)},function(t,n,r){"use strict";function e(t){return function(){return t}}function i(t){return function(n){return t(n)+""}}var u=r(39),a=/[-+]?(?:\d+\.?\d*|\.?\d+)(?:[eE][-+]?\d+)?/g,o=new RegExp(a.source,"g");n.a=function(t,n){var c,f,s,l=a.lastIndex=o.lastIndex=0,h=-1,d=[],p=[];for(t+="",n+="";(c=a.exec(t))&&(f=o.exec(n));)(s=f.index)>l&&(s=n.slice(l,s),d[h]?d[h]+=s:d[++h]=s),(c=c[0])===(f=f[0])?d[h]?d[h]+=f:d[++h]=f:(d[++h]=null,p.push({i:h,x:r.i(u.a)(c,f)})),l=o.lastIndex;return l<n.length&&(s=n.slice(l),d[h]?d[h]+=s:d[++h]=s),d.length<2?p[0]?i(p[0].x):e(n):(n=p.length,function(t){for(var r,e=0;e<n;++e)d[(r=p[e]).i]=r.x(t);return d.join("")})}},function(t,n,r){"use strict";var e=r(20);n.a=function t(n){function r(t){return function(){for(var r=0,e=0;e<t;++e)r+=n();return r}}return r.source=t,r}(e.a)},function(t,n,r){"use strict";var e=r(20);n.a=function t(n){function r(t,r){var e,i;return t=null==t?0:+t,r=null==r?1:+r,function(){var u;if(null!=e)u=e,e=null;else do{e=2*n()-1,u=2*n()-1,i=e*e+u*u}while(!i||i>1);return t+r*u*Math.sqrt(-2*Math.log(i)/i)}}return r.source=t,r}(e.a)},function(t,n,r){"use strict";function e(t,n){return function(r){return t(r.responseText,n)}}var i=r(72);n.a=function(t,n){return function(u,a,o){arguments.length<3&&(o=a,a=null);var c=r.i(i.a)(u).mimeType(t);return c.row=function(t){return arguments.length?c.response(e(n,a=t)):a},c.row(a),o?c.get(o):c}}},function(t,n,r){"use strict";n.a=function(t,n){t=t.slice();var r,e=0,i=t.length-1,u=t[e],a=t[i];return a<u&&(r=e,e=i,i=r,r=u,u=a,a=r),t[e]=n.floor(u),t[i]=n.ceil(a),t}},function(t,n,r){"use strict";n.a=function(t){return+t}},function(t,n,r){"use strict";function e(t){function n(n){var r=n+"",e=o.get(r);if(!e){if(f!==a)return f;o.set(r,e=c.push(n))}return t[(e-1)%t.length]}var o=r.i(i.c)(),c=[],f=a;return t=null==t?[]:u.b.call(t),n.domain=function(t){if(!arguments.length)return c.slice();c=[],o=r.i(i.c)();for(var e,u,a=-1,f=t.length;++a<f;)o.has(u=(e=t[a])+"")||o.set(u,c.push(e));return n},n.range=function(r){return arguments.length?(t=u.b.call(r),n):t.slice()},n.unknown=function(t){return arguments.length?(f=t,n):f},n.copy=function(){return e().domain(c).range(t).unknown(f)},n}var i=r(22),u=r(15);r.d(n,"b",function(){return a}),n.a=e;var a={name:"implicit"}},function(t,n,r){"use strict";function e(t){return new Date(t)}function i(t){return t instanceof Date?+t:+new Date(+t)}function u(t,n,c,f,m,x,w,M,k){function T(r){return(w(r)<r?C:x(r)<r?q:m(r)<r?z:f(r)<r?P:n(r)<r?c(r)<r?D:R:t(r)<r?L:U)(r)}function A(n,e,i,u){if(null==n&&(n=10),"number"==typeof n){var o=Math.abs(i-e)/n,c=r.i(a.e)(function(t){return t[2]}).right(O,o);c===O.length?(u=r.i(a.B)(e/b,i/b,n),n=t):c?(c=O[o/O[c-1][2]<O[c][2]/o?c-1:c],u=c[1],n=c[0]):(u=Math.max(r.i(a.B)(e,i,n),1),n=M)}return null==u?n:n.every(u)}var S=r.i(l.a)(l.b,o.f),E=S.invert,N=S.domain,C=k(".%L"),q=k(":%S"),z=k("%I:%M"),P=k("%I %p"),D=k("%a %d"),R=k("%b %d"),L=k("%B"),U=k("%Y"),O=[[w,1,d],[w,5,5*d],[w,15,15*d],[w,30,30*d],[x,1,p],[x,5,5*p],[x,15,15*p],[x,30,30*p],[m,1,v],[m,3,3*v],[m,6,6*v],[m,12,12*v],[f,1,g],[f,2,2*g],[c,1,y],[n,1,_],[n,3,3*_],[t,1,b]];return S.invert=function(t){return new Date(E(t))},S.domain=function(t){return arguments.length?N(s.a.call(t,i)):N().map(e)},S.ticks=function(t,n){var r,e=N(),i=e[0],u=e[e.length-1],a=u<i;return a&&(r=i,i=u,u=r),r=A(t,i,u,n),r=r?r.range(i,u+1):[],a?r.reverse():r},S.tickFormat=function(t,n){return null==n?T:k(n)},S.nice=function(t,n){var e=N();return(t=A(t,e[0],e[e.length-1],n))?N(r.i(h.a)(e,t)):S},S.copy=function(){return r.i(l.c)(S,u(t,n,c,f,m,x,w,M,k))},S}var a=r(3),o=r(4),c=r(47),f=r(85),s=r(15),l=r(41),h=r(142);n.b=u;var d=1e3,p=60*d,v=60*p,g=24*v,y=7*g,_=30*g,b=365*g;n.a=function(){return u(c.H,c.F,c.p,c.n,c.l,c.j,c.f,c.b,f.b).domain([new Date(2e3,0,1),new Date(2e3,0,2)])}},function(t,n,r){"use strict";var e=function(t){return function(){return this.matches(t)}};if("undefined"!=typeof document){var i=document.documentElement;if(!i.matches){var u=i.webkitMatchesSelector||i.msMatchesSelector||i.mozMatchesSelector||i.oMatchesSelector;e=function(t){return function(){return u.call(this,t)}}}}n.a=e},function(t,n,r){"use strict";function e(t,n){this.ownerDocument=t.ownerDocument,this.namespaceURI=t.namespaceURI,this._next=null,this._parent=t,this.__data__=n}var i=r(148),u=r(5);n.b=e,n.a=function(){return new u.b(this._enter||this._groups.map(i.a),this._parents)},e.prototype={constructor:e,appendChild:function(t){return this._parent.insertBefore(t,this._next)},insertBefore:function(t,n){return this._parent.insertBefore(t,n)},querySelector:function(t){return this._parent.querySelector(t)},querySelectorAll:function(t){return this._parent.querySelectorAll(t)}}},function(t,n,r){"use strict";n.a=function(t){return new Array(t.length)}},function(t,n,r){"use strict";function e(t){return function(){this.style.removeProperty(t)}}function i(t,n,r){return function(){this.style.setProperty(t,n,r)}}function u(t,n,r){return function(){var e=n.apply(this,arguments);null==e?this.style.removeProperty(t):this.style.setProperty(t,e,r)}}function a(t,n){return t.style.getPropertyValue(n)||r.i(o.a)(t).getComputedStyle(t,null).getPropertyValue(n)}var o=r(80);n.a=a,n.b=function(t,n,r){return arguments.length>1?this.each((null==n?e:"function"==typeof n?u:i)(t,n,null==r?"":r)):a(this.node(),t)}},function(t,n,r){"use strict";function e(){return[]}n.a=function(t){return null==t?e:function(){return this.querySelectorAll(t)}}},function(t,n,r){"use strict";var e=r(14),i=r(16),u=r(45),a=r(82),o=r(84);n.a=function(){function t(t){var n,i,u,a,o,g=t.length,y=!1,_=new Array(g),b=new Array(g);for(null==d&&(v=p(o=r.i(e.a)())),n=0;n<=g;++n){if(!(n<g&&h(a=t[n],n,t))===y)if(y=!y)i=n,v.areaStart(),v.lineStart();else{for(v.lineEnd(),v.lineStart(),u=n-1;u>=i;--u)v.point(_[u],b[u]);v.lineEnd(),v.areaEnd()}y&&(_[n]=+c(a,n,t),b[n]=+s(a,n,t),v.point(f?+f(a,n,t):_[n],l?+l(a,n,t):b[n]))}if(o)return v=null,o+""||null}function n(){return r.i(a.a)().defined(h).curve(p).context(d)}var c=o.a,f=null,s=r.i(i.a)(0),l=o.b,h=r.i(i.a)(!0),d=null,p=u.a,v=null;return t.x=function(n){return arguments.length?(c="function"==typeof n?n:r.i(i.a)(+n),f=null,t):c},t.x0=function(n){return arguments.length?(c="function"==typeof n?n:r.i(i.a)(+n),t):c},t.x1=function(n){return arguments.length?(f=null==n?null:"function"==typeof n?n:r.i(i.a)(+n),t):f},t.y=function(n){return arguments.length?(s="function"==typeof n?n:r.i(i.a)(+n),l=null,t):s},t.y0=function(n){return arguments.length?(s="function"==typeof n?n:r.i(i.a)(+n),t):s},t.y1=function(n){return arguments.length?(l=null==n?null:"function"==typeof n?n:r.i(i.a)(+n),t):l},t.lineX0=t.lineY0=function(){return n().x(c).y(s)},t.lineY1=function(){return n().x(c).y(l)},t.lineX1=function(){return n().x(f).y(s)},t.defined=function(n){return arguments.length?(h="function"==typeof n?n:r.i(i.a)(!!n),t):h},t.curve=function(n){return arguments.length?(p=n,null!=d&&(v=p(d)),t):p},t.context=function(n){return arguments.length?(null==n?d=v=null:v=p(d=n),t):d},t}},function(t,n,r){"use strict";r.d(n,"a",function(){return e});var e=Array.prototype.slice},function(t,n,r){"use strict";function e(t,n){this._context=t,this._k=(1-n)/6}var i=r(46),u=r(44);n.b=e,e.prototype={areaStart:i.a,areaEnd:i.a,lineStart:function(){this._x0=this._x1=this._x2=this._x3=this._x4=this._x5=this._y0=this._y1=this._y2=this._y3=this._y4=this._y5=NaN,this._point=0},lineEnd:function(){switch(this._point){case 1:this._context.moveTo(this._x3,this._y3),this._context.closePath();break;case 2:this._context.lineTo(this._x3,this._y3),this._context.closePath();break;case 3:this.point(this._x3,this._y3),this.point(this._x4,this._y4),this.point(this._x5,this._y5)}},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1,this._x3=t,this._y3=n;break;case 1:this._point=2,this._context.moveTo(this._x4=t,this._y4=n);break;case 2:this._point=3,this._x5=t,this._y5=n;break;default:r.i(u.c)(this,t,n)}this._x0=this._x1,this._x1=this._x2,this._x2=t,this._y0=this._y1,this._y1=this._y2,this._y2=n}},n.a=function t(n){function r(t){return new e(t,n)}return r.tension=function(n){return t(+n)},r}(0)},function(t,n,r){"use strict";function e(t,n){this._context=t,this._k=(1-n)/6}var i=r(44);n.b=e,e.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._x2=this._y0=this._y1=this._y2=NaN,this._point=0},lineEnd:function(){(this._line||0!==this._line&&3===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1;break;case 1:this._point=2;break;case 2:this._point=3,this._line?this._context.lineTo(this._x2,this._y2):this._context.moveTo(this._x2,this._y2);break;case 3:this._point=4;default:r.i(i.c)(this,t,n)}this._x0=this._x1,this._x1=this._x2,this._x2=t,this._y0=this._y1,this._y1=this._y2,this._y2=n}},n.a=function t(n){function r(t){return new e(t,n)}return r.tension=function(n){return t(+n)},r}(0)},function(t,n,r){"use strict";function e(t){this._curve=t}function i(t){function n(n){return new e(t(n))}return n._curve=t,n}var u=r(45);r.d(n,"b",function(){return a}),n.a=i;var a=i(u.a);e.prototype={areaStart:function(){this._curve.areaStart()},areaEnd:function(){this._curve.areaEnd()},lineStart:function(){this._curve.lineStart()},lineEnd:function(){this._curve.lineEnd()},point:function(t,n){this._curve.point(n*Math.sin(t),n*-Math.cos(t))}}},function(t,n,r){"use strict";function e(t){var n=t.curve;return t.angle=t.x,delete t.x,t.radius=t.y,delete t.y,t.curve=function(t){return arguments.length?n(r.i(i.a)(t)):n()._curve},t}var i=r(155),u=r(82);n.b=e,n.a=function(){return e(r.i(u.a)().curve(i.b))}},function(t,n,r){"use strict";n.a=function(t,n){return[(n=+n)*Math.cos(t-=Math.PI/2),n*Math.sin(t)]}},function(t,n,r){"use strict";var e=r(29);n.a={draw:function(t,n){var r=Math.sqrt(n/e.b);t.moveTo(r,0),t.arc(0,0,r,0,e.c)}}},function(t,n,r){"use strict";n.a={draw:function(t,n){var r=Math.sqrt(n/5)/2;t.moveTo(-3*r,-r),t.lineTo(-r,-r),t.lineTo(-r,-3*r),t.lineTo(r,-3*r),t.lineTo(r,-r),t.lineTo(3*r,-r),t.lineTo(3*r,r),t.lineTo(r,r),t.lineTo(r,3*r),t.lineTo(-r,3*r),t.lineTo(-r,r),t.lineTo(-3*r,r),t.closePath()}}},function(t,n,r){"use strict";var e=Math.sqrt(1/3),i=2*e;n.a={draw:function(t,n){var r=Math.sqrt(n/i),u=r*e;t.moveTo(0,-r),t.lineTo(u,0),t.lineTo(0,r),t.lineTo(-u,0),t.closePath()}}},function(t,n,r){"use strict";n.a={draw:function(t,n){var r=Math.sqrt(n),e=-r/2;t.rect(e,e,r,r)}}},function(t,n,r){"use strict";var e=r(29),i=Math.sin(e.b/10)/Math.sin(7*e.b/10),u=Math.sin(e.c/10)*i,a=-Math.cos(e.c/10)*i;n.a={draw:function(t,n){var r=Math.sqrt(.8908130915292852*n),i=u*r,o=a*r;t.moveTo(0,-r),t.lineTo(i,o);for(var c=1;c<5;++c){var f=e.c*c/5,s=Math.cos(f),l=Math.sin(f);t.lineTo(l*r,-s*r),t.lineTo(s*i-l*o,l*i+s*o)}t.closePath()}}},function(t,n,r){"use strict";var e=Math.sqrt(3);n.a={draw:function(t,n){var r=-Math.sqrt(n/(3*e));t.moveTo(0,2*r),t.lineTo(-e*r,-r),t.lineTo(e*r,-r),t.closePath()}}},function(t,n,r){"use strict";var e=-.5,i=Math.sqrt(3)/2,u=1/Math.sqrt(12),a=3*(u/2+1);n.a={draw:function(t,n){var r=Math.sqrt(n/a),o=r/2,c=r*u,f=o,s=r*u+r,l=-f,h=s;t.moveTo(o,c),t.lineTo(f,s),t.lineTo(l,h),t.lineTo(e*o-i*c,i*o+e*c),t.lineTo(e*f-i*s,i*f+e*s),t.lineTo(e*l-i*h,i*l+e*h),t.lineTo(e*o+i*c,e*c-i*o),t.lineTo(e*f+i*s,e*s-i*f),t.lineTo(e*l+i*h,e*h-i*l),t.closePath()}}},function(t,n,r){"use strict";function e(t){return t.toISOString()}var i=r(86);r.d(n,"b",function(){return u});var u="%Y-%m-%dT%H:%M:%S.%LZ",a=Date.prototype.toISOString?e:r.i(i.d)(u);n.a=a},function(t,n,r){"use strict";function e(t){if(0<=t.y&&t.y<100){var n=new Date(-1,t.m,t.d,t.H,t.M,t.S,t.L);return n.setFullYear(t.y),n}return new Date(t.y,t.m,t.d,t.H,t.M,t.S,t.L)}function i(t){if(0<=t.y&&t.y<100){var n=new Date(Date.UTC(-1,t.m,t.d,t.H,t.M,t.S,t.L));return n.setUTCFullYear(t.y),n}return new Date(Date.UTC(t.y,t.m,t.d,t.H,t.M,t.S,t.L))}function u(t){return{y:t,m:0,d:1,H:0,M:0,S:0,L:0}}function a(t){function n(t,n){return function(r){var e,i,u,a=[],o=-1,c=0,f=t.length;for(r instanceof Date||(r=new Date(+r));++o<f;)37===t.charCodeAt(o)&&(a.push(t.slice(c,o)),null!=(i=pt[e=t.charAt(++o)])?e=t.charAt(++o):i="e"===e?" ":"0",(u=n[e])&&(e=u(r,i)),a.push(e),c=o+1);return a.push(t.slice(c,o)),a.join("")}}function a(t,n){return function(e){var a,c,f=u(1900),s=o(f,t,e+="",0);if(s!=e.length)return null;if("Q"in f)return new Date(f.Q);if("p"in f&&(f.H=f.H%12+12*f.p),"V"in f){if(f.V<1||f.V>53)return null;"w"in f||(f.w=1),"Z"in f?(a=i(u(f.y)),c=a.getUTCDay(),a=c>4||0===c?dt.T.ceil(a):r.i(dt.T)(a),a=dt.N.offset(a,7*(f.V-1)),f.y=a.getUTCFullYear(),f.m=a.getUTCMonth(),f.d=a.getUTCDate()+(f.w+6)%7):(a=n(u(f.y)),c=a.getDay(),a=c>4||0===c?dt.t.ceil(a):r.i(dt.t)(a),a=dt.n.offset(a,7*(f.V-1)),f.y=a.getFullYear(),f.m=a.getMonth(),f.d=a.getDate()+(f.w+6)%7)}else("W"in f||"U"in f)&&("w"in f||(f.w="u"in f?f.u%7:"W"in f?1:0),c="Z"in f?i(u(f.y)).getUTCDay():n(u(f.y)).getDay(),f.m=0,f.d="W"in f?(f.w+6)%7+7*f.W-(c+5)%7:f.w+7*f.U-(c+6)%7);return"Z"in f?(f.H+=f.Z/100|0,f.M+=f.Z%100,i(f)):n(f)}}function o(t,n,r,e){for(var i,u,a=0,o=n.length,c=r.length;a<o;){if(e>=c)return-1;if(37===(i=n.charCodeAt(a++))){if(i=n.charAt(a++),!(u=Jt[i in pt?n.charAt(a++):i])||(e=u(t,r,e))<0)return-1}else if(i!=r.charCodeAt(e++))return-1}return e}function c(t,n,r){var e=Ft.exec(n.slice(r));return e?(t.p=It[e[0].toLowerCase()],r+e[0].length):-1}function vt(t,n,r){var e=Ht.exec(n.slice(r));return e?(t.w=Xt[e[0].toLowerCase()],r+e[0].length):-1}function gt(t,n,r){var e=Yt.exec(n.slice(r));return e?(t.w=Bt[e[0].toLowerCase()],r+e[0].length):-1}function yt(t,n,r){var e=Wt.exec(n.slice(r));return e?(t.m=Zt[e[0].toLowerCase()],r+e[0].length):-1}function _t(t,n,r){var e=Gt.exec(n.slice(r));return e?(t.m=Vt[e[0].toLowerCase()],r+e[0].length):-1}function bt(t,n,r){return o(t,zt,n,r)}function mt(t,n,r){return o(t,Pt,n,r)}function xt(t,n,r){return o(t,Dt,n,r)}function wt(t){return Ut[t.getDay()]}function Mt(t){return Lt[t.getDay()]}function kt(t){return jt[t.getMonth()]}function Tt(t){return Ot[t.getMonth()]}function At(t){return Rt[+(t.getHours()>=12)]}function St(t){return Ut[t.getUTCDay()]}function Et(t){return Lt[t.getUTCDay()]}function Nt(t){return jt[t.getUTCMonth()]}function Ct(t){return Ot[t.getUTCMonth()]}function qt(t){return Rt[+(t.getUTCHours()>=12)]}var zt=t.dateTime,Pt=t.date,Dt=t.time,Rt=t.periods,Lt=t.days,Ut=t.shortDays,Ot=t.months,jt=t.shortMonths,Ft=f(Rt),It=s(Rt),Yt=f(Lt),Bt=s(Lt),Ht=f(Ut),Xt=s(Ut),Gt=f(Ot),Vt=s(Ot),Wt=f(jt),Zt=s(jt),Qt={a:wt,A:Mt,b:kt,B:Tt,c:null,d:C,e:C,f:R,H:q,I:z,j:P,L:D,m:L,M:U,p:At,Q:lt,s:ht,S:O,u:j,U:F,V:I,w:Y,W:B,x:null,X:null,y:H,Y:X,Z:G,"%":st},$t={a:St,A:Et,b:Nt,B:Ct,c:null,d:V,e:V,f:J,H:W,I:Z,j:Q,L:$,m:K,M:tt,p:qt,Q:lt,s:ht,S:nt,u:rt,U:et,V:it,w:ut,W:at,x:null,X:null,y:ot,Y:ct,Z:ft,"%":st},Jt={a:vt,A:gt,b:yt,B:_t,c:bt,d:m,e:m,f:A,H:w,I:w,j:x,L:T,m:b,M:M,p:c,Q:E,s:N,S:k,u:h,U:d,V:p,w:l,W:v,x:mt,X:xt,y:y,Y:g,Z:_,"%":S};return Qt.x=n(Pt,Qt),Qt.X=n(Dt,Qt),Qt.c=n(zt,Qt),$t.x=n(Pt,$t),$t.X=n(Dt,$t),$t.c=n(zt,$t),{format:function(t){var r=n(t+="",Qt);return r.toString=function(){return t},r},parse:function(t){var n=a(t+="",e);return n.toString=function(){return t},n},utcFormat:function(t){var r=n(t+="",$t);return r.toString=function(){return t},r},utcParse:function(t){var n=a(t,i);return n.toString=function(){return t},n}}}function o(t,n,r){var e=t<0?"-":"",i=(e?-t:t)+"",u=i.length;return e+(u<r?new Array(r-u+1).join(n)+i:i)}function c(t){return t.replace(yt,"\\$&")}function f(t){return new RegExp("^(?:"+t.map(c).join("|")+")","i")}function s(t){for(var n={},r=-1,e=t.length;++r<e;)n[t[r].toLowerCase()]=r;return n}function l(t,n,r){var e=vt.exec(n.slice(r,r+1));return e?(t.w=+e[0],r+e[0].length):-1}function h(t,n,r){var e=vt.exec(n.slice(r,r+1));return e?(t.u=+e[0],r+e[0].length):-1}function d(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.U=+e[0],r+e[0].length):-1}function p(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.V=+e[0],r+e[0].length):-1}function v(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.W=+e[0],r+e[0].length):-1}function g(t,n,r){var e=vt.exec(n.slice(r,r+4));return e?(t.y=+e[0],r+e[0].length):-1}function y(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.y=+e[0]+(+e[0]>68?1900:2e3),r+e[0].length):-1}function _(t,n,r){var e=/^(Z)|([+-]\d\d)(?::?(\d\d))?/.exec(n.slice(r,r+6));return e?(t.Z=e[1]?0:-(e[2]+(e[3]||"00")),r+e[0].length):-1}function b(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.m=e[0]-1,r+e[0].length):-1}function m(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.d=+e[0],r+e[0].length):-1}function x(t,n,r){var e=vt.exec(n.slice(r,r+3));return e?(t.m=0,t.d=+e[0],r+e[0].length):-1}function w(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.H=+e[0],r+e[0].length):-1}function M(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.M=+e[0],r+e[0].length):-1}function k(t,n,r){var e=vt.exec(n.slice(r,r+2));return e?(t.S=+e[0],r+e[0].length):-1}function T(t,n,r){var e=vt.exec(n.slice(r,r+3));return e?(t.L=+e[0],r+e[0].length):-1}function A(t,n,r){var e=vt.exec(n.slice(r,r+6));return e?(t.L=Math.floor(e[0]/1e3),r+e[0].length):-1}function S(t,n,r){var e=gt.exec(n.slice(r,r+1));return e?r+e[0].length:-1}function E(t,n,r){var e=vt.exec(n.slice(r));return e?(t.Q=+e[0],r+e[0].length):-1}function N(t,n,r){var e=vt.exec(n.slice(r));return e?(t.Q=1e3*+e[0],r+e[0].length):-1}function C(t,n){return o(t.getDate(),n,2)}function q(t,n){return o(t.getHours(),n,2)}function z(t,n){return o(t.getHours()%12||12,n,2)}function P(t,n){return o(1+dt.n.count(r.i(dt.H)(t),t),n,3)}function D(t,n){return o(t.getMilliseconds(),n,3)}function R(t,n){return D(t,n)+"000"}function L(t,n){return o(t.getMonth()+1,n,2)}function U(t,n){return o(t.getMinutes(),n,2)}function O(t,n){return o(t.getSeconds(),n,2)}function j(t){var n=t.getDay();return 0===n?7:n}function F(t,n){return o(dt.r.count(r.i(dt.H)(t),t),n,2)}function I(t,n){var e=t.getDay();return t=e>=4||0===e?r.i(dt.z)(t):dt.z.ceil(t),o(dt.z.count(r.i(dt.H)(t),t)+(4===r.i(dt.H)(t).getDay()),n,2)}function Y(t){return t.getDay()}function B(t,n){return o(dt.t.count(r.i(dt.H)(t),t),n,2)}function H(t,n){return o(t.getFullYear()%100,n,2)}function X(t,n){return o(t.getFullYear()%1e4,n,4)}function G(t){var n=t.getTimezoneOffset();return(n>0?"-":(n*=-1,"+"))+o(n/60|0,"0",2)+o(n%60,"0",2)}function V(t,n){return o(t.getUTCDate(),n,2)}function W(t,n){return o(t.getUTCHours(),n,2)}function Z(t,n){return o(t.getUTCHours()%12||12,n,2)}function Q(t,n){return o(1+dt.N.count(r.i(dt._7)(t),t),n,3)}function $(t,n){return o(t.getUTCMilliseconds(),n,3)}function J(t,n){return $(t,n)+"000"}function K(t,n){return o(t.getUTCMonth()+1,n,2)}function tt(t,n){return o(t.getUTCMinutes(),n,2)}function nt(t,n){return o(t.getUTCSeconds(),n,2)}function rt(t){var n=t.getUTCDay();return 0===n?7:n}function et(t,n){return o(dt.R.count(r.i(dt._7)(t),t),n,2)}function it(t,n){var e=t.getUTCDay();return t=e>=4||0===e?r.i(dt.Z)(t):dt.Z.ceil(t),o(dt.Z.count(r.i(dt._7)(t),t)+(4===r.i(dt._7)(t).getUTCDay()),n,2)}function ut(t){return t.getUTCDay()}function at(t,n){return o(dt.T.count(r.i(dt._7)(t),t),n,2)}function ot(t,n){return o(t.getUTCFullYear()%100,n,2)}function ct(t,n){return o(t.getUTCFullYear()%1e4,n,4)}function ft(){return"+0000"}function st(){return"%"}function lt(t){return+t}function ht(t){return Math.floor(+t/1e3)}var dt=r(47);n.a=a;var pt={"-":"",_:" ",0:"0"},vt=/^\s*\d+/,gt=/^%/,yt=/[\\^$*+?|[\]().{}]/g},function(t,n,r){"use strict";var e=r(6);n.a=function(t,n){var r,i,u,a=t.__transition,o=!0;if(a){n=null==n?null:n+"";for(u in a)(r=a[u]).name===n?(i=r.state>e.a&&r.state<e.b,r.state=e.c,r.timer.stop(),i&&r.on.call("interrupt",t,t.__data__,r.index,r.group),delete a[u]):o=!1;o&&delete t.__transition}}},function(t,n,r){"use strict";var e=r(7),i=r(4);n.a=function(t,n){var u;return("number"==typeof n?i.f:n instanceof e.a?i.m:(u=r.i(e.a)(n))?(n=u,i.m):i.i)(t,n)}},function(t,n,r){"use strict";function e(t){return s.c[t.index]={site:t,halfedges:[]}}function i(t,n){var r=t.site,e=n.left,i=n.right;return r===i&&(i=e,e=r),i?Math.atan2(i[1]-e[1],i[0]-e[0]):(r===e?(e=n[1],i=n[0]):(e=n[0],i=n[1]),Math.atan2(e[0]-i[0],i[1]-e[1]))}function u(t,n){return n[+(n.left!==t.site)]}function a(t,n){return n[+(n.left===t.site)]}function o(){for(var t,n,r,e,u=0,a=s.c.length;u<a;++u)if((t=s.c[u])&&(e=(n=t.halfedges).length)){var o=new Array(e),c=new Array(e);for(r=0;r<e;++r)o[r]=r,c[r]=i(t,s.d[n[r]]);for(o.sort(function(t,n){return c[n]-c[t]}),r=0;r<e;++r)c[r]=n[o[r]];for(r=0;r<e;++r)n[r]=c[r]}}function c(t,n,e,i){var o,c,l,h,d,p,v,g,y,_,b,m,x=s.c.length,w=!0;for(o=0;o<x;++o)if(c=s.c[o]){for(l=c.site,d=c.halfedges,h=d.length;h--;)s.d[d[h]]||d.splice(h,1);for(h=0,p=d.length;h<p;)_=a(c,s.d[d[h]]),b=_[0],m=_[1],v=u(c,s.d[d[++h%p]]),g=v[0],y=v[1],(Math.abs(b-g)>s.b||Math.abs(m-y)>s.b)&&(d.splice(h,0,s.d.push(r.i(f.b)(l,_,Math.abs(b-t)<s.b&&i-m>s.b?[t,Math.abs(g-t)<s.b?y:i]:Math.abs(m-i)<s.b&&e-b>s.b?[Math.abs(y-i)<s.b?g:e,i]:Math.abs(b-e)<s.b&&m-n>s.b?[e,Math.abs(g-e)<s.b?y:n]:Math.abs(m-n)<s.b&&b-t>s.b?[Math.abs(y-n)<s.b?g:t,n]:null))-1),++p);p&&(w=!1)}if(w){var M,k,T,A=1/0;for(o=0,w=null;o<x;++o)(c=s.c[o])&&(l=c.site,M=l[0]-t,k=l[1]-n,(T=M*M+k*k)<A&&(A=T,w=c));if(w){var S=[t,n],E=[t,i],N=[e,i],C=[e,n];w.halfedges.push(s.d.push(r.i(f.b)(l=w.site,S,E))-1,s.d.push(r.i(f.b)(l,E,N))-1,s.d.push(r.i(f.b)(l,N,C))-1,s.d.push(r.i(f.b)(l,C,S))-1)}}for(o=0;o<x;++o)(c=s.c[o])&&(c.halfedges.length||delete s.c[o])}var f=r(89),s=r(32);n.d=e,n.c=u,n.a=o,n.b=c},function(t,n,r){"use strict";function e(){r.i(a.b)(this),this.x=this.y=this.arc=this.site=this.cy=null}function i(t){var n=t.P,r=t.N;if(n&&r){var i=n.site,u=t.site,a=r.site;if(i!==a){var s=u[0],l=u[1],h=i[0]-s,d=i[1]-l,p=a[0]-s,v=a[1]-l,g=2*(h*v-d*p);if(!(g>=-o.f)){var y=h*h+d*d,_=p*p+v*v,b=(v*y-d*_)/g,m=(h*_-p*y)/g,x=f.pop()||new e;x.arc=t,x.site=u,x.x=b+s,x.y=(x.cy=m+l)+Math.sqrt(b*b+m*m),t.circle=x;for(var w=null,M=o.g._;M;)if(x.y<M.y||x.y===M.y&&x.x<=M.x){if(!M.L){w=M.P;break}M=M.L}else{if(!M.R){w=M;break}M=M.R}o.g.insert(w,x),w||(c=x)}}}}function u(t){var n=t.circle;n&&(n.P||(c=n.N),o.g.remove(n),f.push(n),r.i(a.b)(n),t.circle=null)}var a=r(90),o=r(32);r.d(n,"a",function(){return c}),n.c=i,n.b=u;var c,f=[]},function(t,n,r){"use strict";function e(t,n,r){this.k=t,this.x=n,this.y=r}function i(t){return t.__zoom||u}n.c=e,r.d(n,"b",function(){return u}),n.a=i,e.prototype={constructor:e,scale:function(t){return 1===t?this:new e(this.k*t,this.x,this.y)},translate:function(t,n){return 0===t&0===n?this:new e(this.k,this.x+this.k*t,this.y+this.k*n)},apply:function(t){return[t[0]*this.k+this.x,t[1]*this.k+this.y]},applyX:function(t){return t*this.k+this.x},applyY:function(t){return t*this.k+this.y},invert:function(t){return[(t[0]-this.x)/this.k,(t[1]-this.y)/this.k]},invertX:function(t){return(t-this.x)/this.k},invertY:function(t){return(t-this.y)/this.k},rescaleX:function(t){return t.copy().domain(t.range().map(this.invertX,this).map(t.invert,t))},rescaleY:function(t){return t.copy().domain(t.range().map(this.invertY,this).map(t.invert,t))},toString:function(){return"translate("+this.x+","+this.y+") scale("+this.k+")"}};var u=new e(1,0,0);i.prototype=e.prototype},function(t,n,r){"use strict";function e(t){for(var n=5381,r=0;r<t.length;r++)n=(n<<5)+n+t.charCodeAt(r);return n}function i(t){return t&&"**Other**"!==t?a[Math.abs(e(t))%a.length]:"#CCCCCC"}Object.defineProperty(n,"__esModule",{value:!0});var u=r(33),a=["#C0392B","#9B59B6","#2980B9","#1ABC9C","#16A085","#F1C40F","#E67E22","#D35400","#E74C3C","#8E44AD","#3498DB","#2ECC71","#F39C12"],o=function(){function t(t){this.datasource=t,this.width=700,this.height=350,this.margins={top:30,right:20,left:20,bottom:30},this.stopped=!1;var n=u.select(".graph-container").append("div").attr("class","graph-wrapper");n.append("h3").text("Program Stats"),this.svg=n.append("svg").attr("width",this.width+this.margins.left+this.margins.right).attr("height",this.height+this.margins.top+this.margins.bottom),this.g=this.svg.append("g").attr("transform","translate("+(this.height/2+this.margins.left)+", "+(this.height/2+this.margins.top)+")"),this.legend=this.svg.append("g").attr("transform","translate("+(this.height+this.margins.left+40)+", "+this.margins.top+")"),this.pie=u.pie().sort(null).value(function(t){return t.count});var r=this.height/2;this.path=u.arc().outerRadius(r).innerRadius(0),window.requestAnimationFrame(this.updateGraph.bind(this))}return t.prototype.processData=function(t){var n=[];for(var r in t)n.push({name:r,count:t[r]});if(n.sort(function(t,n){return t.count<n.count?1:t.count>n.count?-1:0}),n.length>10){var e=n.slice(0,9),i=n.slice(9),u=0;i.forEach(function(t){return u+=t.count}),n=e,n.push({name:"**Other**",count:u})}return n},t.prototype.updateGraph=function(){if(!this.stopped){var t=this.processData(this.datasource.getProgramCounterStats());this.g.selectAll(".arc").remove();this.g.selectAll(".arc").data(this.pie(t)).enter().append("g").attr("class","arc").append("path").attr("d",this.path).attr("fill",function(t,n){return i(t.data.name)}).attr("fill-opacity",.65).attr("stroke",function(t,n){return i(t.data.name)}),this.legend.selectAll(".entry").remove();var n=this.legend.selectAll(".entry").data(t).enter().append("g").attr("class","entry").attr("transform",function(t,n){return"translate(0,"+35*n+")"});n.append("rect").attr("width",30).attr("height",20).attr("fill",function(t,n){return i(t.name)}).attr("fill-opacity",.65).attr("stroke",function(t,n){return i(t.name)}),n.append("text").text(function(t){return t.name}).attr("x",40).attr("y",15)}window.requestAnimationFrame(this.updateGraph.bind(this))},t.prototype.stop=function(){this.stopped=!0},t.prototype.continue=function(){this.stopped=!1},t}();n.ProgramStatsGraph=o},function(t,n,r){"use strict";Object.defineProperty(n,"__esModule",{value:!0});var e=r(33),i=function(){function t(t,n){var r=this;this.configuration=t,this.datasource=n,this.span=1e4,this.stopped=!1,this.paths=[],this.height=275,this.width=700,this.margins={top:30,right:0,left:40,bottom:60},this.annotations=[],this.spaths=[],this.sheight=75,this.start=(new Date).getTime();var i=this.start;this.span=1e3*t.timespan,this.x=e.scaleTime().range([0,this.width]).domain([i-this.span,i]),this.y=e.scaleLinear().range([this.height,0]).domain([t.minimum,t.maximum]),this.line=e.line().x(function(t){return r.x(t.timestamp)}).y(function(t){return r.y(t.value)});var u=e.select(".graph-container").append("div").attr("class","graph-wrapper");u.append("h3").text(t.label),this.svg=u.append("svg").attr("width",this.width+this.margins.left+this.margins.right).attr("height",this.height+this.margins.top+this.margins.bottom+this.sheight+50),this.g=this.svg.append("g").attr("transform","translate("+this.margins.left+", "+this.margins.top+")"),this.ag=this.g.append("g"),this.xAxis=this.g.append("g").attr("transform","translate(0,"+this.height+")").call(e.axisBottom(this.x)),this.yAxis=this.g.append("g").call(e.axisLeft(this.y));var a=this.svg.append("g").attr("class","legend").attr("transform","translate("+(this.margins.left+10)+", "+(this.margins.top+this.height+30)+")").attr("stroke-width",1).attr("stroke","black").attr("fill","none"),o=10;this.sx=e.scaleTime().range([0,this.width]).domain([i,i+1e3]),this.sy=e.scaleLinear().range([this.sheight,0]).domain([t.minimum,t.maximum]),this.sg=this.svg.append("g").attr("transform","translate("+this.margins.left+", "+(this.margins.top+this.height+this.margins.bottom+25)+")"),this.sxAxis=this.sg.append("g").attr("transform","translate(0,"+this.sheight+")").call(e.axisBottom(this.sx)),this.syAxis=this.sg.append("g").call(e.axisLeft(this.sy).ticks(4)),this.sline=e.line().x(function(t){return r.sx(t.timestamp)}).y(function(t){return r.sy(t.value)}),this.hrect=this.sg.append("rect").style("fill","rgba(0, 0, 0, 0.1)").style("stroke","rgba(0, 0, 0, 0.45)").attr("x",0).attr("y",0).attr("height",this.sheight).attr("width",this.width),this.configuration.plots.forEach(function(t,n){var e=r.g.append("path").attr("fill","none").attr("stroke",t.color).attr("stroke-linejoin","round").attr("stroke-linecap","round").attr("stroke-width",1.5);r.paths.push({graphId:t.graphId,path:e});var i=r.sg.append("path").attr("fill","none").attr("stroke",t.color).attr("stroke-linejoin","round").attr("stroke-linecap","round").attr("stroke-width",1);r.spaths.push({graphId:t.graphId,path:i});var u=a.append("g").attr("class","legend-entry").attr("transform","translate("+o+", 0)");u.append("rect").attr("width",20).attr("height",10).attr("x",5).attr("y",10).attr("fill",t.color);var c=u.append("text").text((t.label||t.graphId)+")").attr("x",35).attr("y",20).style("font-size","13px").style("font-weight","bold").style("fill","black").style("stroke","none").style("verticle-align","middle");o+=c.node().getComputedTextLength()+50}),window.requestAnimationFrame(this.updateGraph.bind(this))}return t.prototype.stop=function(){this.stopped=!0,this.annotations.push({timestamp:(new Date).getTime(),type:"stopped"})},t.prototype.continue=function(){this.stopped=!1,this.annotations.push({timestamp:(new Date).getTime(),type:"continued"})},t.prototype.updateGraph=function(){var t=this;if(!this.stopped){var n=(new Date).getTime();this.x.domain([n-this.span,n]),this.xAxis.call(e.axisBottom(this.x));var r=this.annotations.filter(function(r){return r.timestamp>=n-t.span&&r.timestamp<=n}),i=this.ag.selectAll("line.annotation").data(r).attr("x1",function(n){return t.x(n.timestamp)}).attr("x2",function(n){return t.x(n.timestamp)});i.enter().append("line").classed("annotation",!0).attr("stroke",function(t){return"continued"===t.type?"rgba(0, 255, 0, 0.25)":"rgba(255, 0, 0, 0.25)"}).attr("stroke-width",1).attr("y1",0).attr("y2",this.height).attr("x1",function(n){return t.x(n.timestamp)}).attr("x2",function(n){return t.x(n.timestamp)}),i.exit().remove(),this.paths.forEach(function(r){try{var e=t.datasource.getData(r.graphId,n-t.span,n,!0);r.path.datum(e).attr("d",t.line)}catch(t){console.log("Error Updating Plot: ",t)}});var u=this.start;this.spaths.forEach(function(n){var r=t.datasource.oldestPoint(n.graphId);r&&r.timestamp<u&&(u=r.timestamp)}),this.sx.domain([u,n]),this.sxAxis.call(e.axisBottom(this.sx)),this.spaths.forEach(function(r){try{var e=t.datasource.sampleData(r.graphId,t.width,u,n);r.path.datum(e).attr("d",t.sline)}catch(t){console.log("Error Updating Plot: ",t)}});var a=n-this.span;a<u&&(a=u);var o=this.sx(a),c=this.sx(n);this.hrect.attr("x",o).attr("width",c-o)}window.requestAnimationFrame(this.updateGraph.bind(this))},t}();n.TimeseriesGraph=i},function(t,n,r){"use strict";Object.defineProperty(n,"__esModule",{value:!0});var e=r(33),i=function(){function t(t,n){var r=this;this.configuration=t,this.datasource=n,this.span=1e4,this.stopped=!1,this.height=350,this.width=350,this.margins={top:30,right:30,left:40,bottom:60},this.span=1e3*t.timespan,this.x=e.scaleLinear().range([0,this.width]).domain([t.xMinimum||0,t.xMaximum||65535]),this.y=e.scaleLinear().range([this.height,0]).domain([t.yMinimum||0,t.yMaximum||65535]),this.currentX=t.initialX||((t.xMinimum||0)+(t.xMaximum||65535))/2,this.currentY=t.initialY||((t.yMinimum||0)+(t.yMaximum||65535))/2,this.line=e.line().x(function(t){return r.x(t.x)}).y(function(t){return r.y(t.y)});var i=e.select(".graph-container").append("div").attr("class","graph-wrapper");i.append("h3").text(t.label),this.svg=i.append("svg").attr("width",this.width+this.margins.left+this.margins.right).attr("height",this.height+this.margins.top+this.margins.bottom),this.g=this.svg.append("g").attr("transform","translate("+this.margins.left+","+this.margins.top+")"),this.xAxis=this.g.append("g").attr("transform","translate(0,"+this.height+")").call(e.axisBottom(this.x)),this.yAxis=this.g.append("g").call(e.axisLeft(this.y)),n.subscribe(t.xGraphId,this.receivedX.bind(this)),n.subscribe(t.yGraphId,this.receivedY.bind(this)),this.path=this.g.append("path").attr("fill","none").attr("stroke","steelblue").attr("stroke-linejoin","round").attr("stroke-linecap","round").attr("stroke-width",1.5),window.requestAnimationFrame(this.updateGraph.bind(this)),this.points=[]}return t.prototype.stop=function(){this.stopped=!0},t.prototype.continue=function(){this.stopped=!1},t.prototype.receivedX=function(t){var n={timestamp:t.timestamp,y:this.currentY,x:t.value};this.currentX=t.value,this.points.push(n)},t.prototype.receivedY=function(t){var n={timestamp:t.timestamp,y:t.value,x:this.currentX};this.currentY=t.value,this.points.push(n)},t.prototype.updateGraph=function(){if(!this.stopped)try{var t=(new Date).getTime(),n=t-this.span;if(this.points.length>0){var r=this.points[this.points.length-1];this.points=this.points.filter(function(t){return t.timestamp>=n}),0===this.points.length&&this.points.push(r),this.path.datum(this.points).attr("d",this.line)}}catch(t){console.log("Error Updating Plot: ",t)}window.requestAnimationFrame(this.updateGraph.bind(this))},t}();n.XYGraph=i},function(t,n,r){"use strict";var e=this&&this.__assign||Object.assign||function(t){for(var n,r=1,e=arguments.length;r<e;r++){n=arguments[r];for(var i in n)Object.prototype.hasOwnProperty.call(n,i)&&(t[i]=n[i])}return t};Object.defineProperty(n,"__esModule",{value:!0});var i=function(){function t(){this.data={},this.subscriptions={},this.counterStats={}}return t.prototype.receivedProgramCounterMessage=function(t){this.counterStats[t.function]||(this.counterStats[t.function]=0),this.counterStats[t.function]+=1},t.prototype.getProgramCounterStats=function(){return e({},this.counterStats)},t.prototype.receiveDataMessage=function(t){var n={timestamp:t.timestamp,value:t.data},r=t.id;this.data[r]||(this.data[r]=[]),this.data[r]&&this.data[r].push(n),this.subscriptions[r]&&this.subscriptions[r].forEach(function(t){return t(n)})},t.prototype.processDataHistory=function(t){var n=this;t.map(function(t){return t.id}).filter(function(t,n,r){return r.indexOf(t)===n}).forEach(function(r){var e=t.filter(function(t){return t.id===r}).map(function(t){return{timestamp:t.timestamp,value:t.data}});n.data[r]&&(e=n.data[r].concat(e)),e.sort(function(t,n){return t.timestamp>n.timestamp?1:t.timestamp<n.timestamp?-1:0}),n.data[r]=e})},t.prototype.getData=function(t,n,r,e){void 0===e&&(e=!0);var i=this.data[t];if(!i)return[];if(i=i.filter(function(t){return t.timestamp>=n&&t.timestamp<=r}),e&&i.length>=1){var u=i[i.length-1];i.push({timestamp:r,value:u.value})}return i},t.prototype.sampleData=function(t,n,r,e){void 0===r&&(r=null),void 0===e&&(e=null);var i=this.data[t];if(!i)return[];if(null===r&&(r=0),null==e&&(e=(new Date).getTime()),i=i.filter(function(t){return t.timestamp>=r&&t.timestamp<=e}),i.length>1.5*n){var u=Math.round(i.length/n);i=i.filter(function(t,n){return n%u==0})}return i},t.prototype.oldestPoint=function(t){return this.data[t]?this.data[t][0]:null},t.prototype.subscribe=function(t,n){this.subscriptions[t]||(this.subscriptions[t]=[]),this.subscriptions[t].push(n)},t}();n.GraphDataSource=i},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";var e=r(97);n.a=function(t,n,r){var i,u,a,o,c=t.length,f=n.length,s=new Array(c*f);for(null==r&&(r=e.b),i=a=0;i<c;++i)for(o=t[i],u=0;u<f;++u,++a)s[a]=r(o,n[u]);return s}},function(t,n,r){"use strict";n.a=function(t,n){return n<t?-1:n>t?1:n>=t?0:NaN}},function(t,n,r){"use strict";var e=r(91),i=r(92),u=r(176),a=r(95),o=r(180),c=r(98),f=r(100),s=r(99);n.a=function(){function t(t){var e,u,a=t.length,o=new Array(a);for(e=0;e<a;++e)o[e]=n(t[e],e,t);var s=l(o),d=s[0],p=s[1],v=h(o,d,p);Array.isArray(v)||(v=r.i(f.c)(d,p,v),v=r.i(c.a)(Math.ceil(d/v)*v,Math.floor(p/v)*v,v));for(var g=v.length;v[0]<=d;)v.shift(),--g;for(;v[g-1]>p;)v.pop(),--g;var y,_=new Array(g+1);for(e=0;e<=g;++e)y=_[e]=[],y.x0=e>0?v[e-1]:d,y.x1=e<g?v[e]:p;for(e=0;e<a;++e)u=o[e],d<=u&&u<=p&&_[r.i(i.a)(v,u,0,g)].push(t[e]);return _}var n=o.a,l=a.a,h=s.a;return t.value=function(e){return arguments.length?(n="function"==typeof e?e:r.i(u.a)(e),t):n},t.domain=function(n){return arguments.length?(l="function"==typeof n?n:r.i(u.a)([n[0],n[1]]),t):l},t.thresholds=function(n){return arguments.length?(h="function"==typeof n?n:Array.isArray(n)?r.i(u.a)(e.b.call(n)):r.i(u.a)(n),t):h},t}},function(t,n,r){"use strict";n.a=function(t){return t}},function(t,n,r){"use strict";n.a=function(t,n){var r,e,i=t.length,u=-1;if(null==n){for(;++u<i;)if(null!=(r=t[u])&&r>=r)for(e=r;++u<i;)null!=(r=t[u])&&r>e&&(e=r)}else for(;++u<i;)if(null!=(r=n(t[u],u,t))&&r>=r)for(e=r;++u<i;)null!=(r=n(t[u],u,t))&&r>e&&(e=r);return e}},function(t,n,r){"use strict";var e=r(21);n.a=function(t,n){var i,u=t.length,a=u,o=-1,c=0;if(null==n)for(;++o<u;)isNaN(i=r.i(e.a)(t[o]))?--a:c+=i;else for(;++o<u;)isNaN(i=r.i(e.a)(n(t[o],o,t)))?--a:c+=i;if(a)return c/a}},function(t,n,r){"use strict";var e=r(17),i=r(21),u=r(50);n.a=function(t,n){var a,o=t.length,c=-1,f=[];if(null==n)for(;++c<o;)isNaN(a=r.i(i.a)(t[c]))||f.push(a);else for(;++c<o;)isNaN(a=r.i(i.a)(n(t[c],c,t)))||f.push(a);return r.i(u.a)(f.sort(e.a),.5)}},function(t,n,r){"use strict";n.a=function(t){for(var n,r,e,i=t.length,u=-1,a=0;++u<i;)a+=t[u].length;for(r=new Array(a);--i>=0;)for(e=t[i],n=e.length;--n>=0;)r[--a]=e[n];return r}},function(t,n,r){"use strict";n.a=function(t,n){for(var r=n.length,e=new Array(r);r--;)e[r]=t[n[r]];return e}},function(t,n,r){"use strict";var e=r(17);n.a=function(t,n){if(r=t.length){var r,i,u=0,a=0,o=t[a];for(null==n&&(n=e.a);++u<r;)(n(i=t[u],o)<0||0!==n(o,o))&&(o=i,a=u);return 0===n(o,o)?a:void 0}}},function(t,n,r){"use strict";n.a=function(t,n,r){for(var e,i,u=(null==r?t.length:r)-(n=null==n?0:+n);u;)i=Math.random()*u--|0,e=t[u+n],t[u+n]=t[i+n],t[i+n]=e;return t}},function(t,n,r){"use strict";n.a=function(t,n){var r,e=t.length,i=-1,u=0;if(null==n)for(;++i<e;)(r=+t[i])&&(u+=r);else for(;++i<e;)(r=+n(t[i],i,t))&&(u+=r);return u}},function(t,n,r){"use strict";var e=r(91),i=r(17),u=r(21),a=r(50);n.a=function(t,n,o){return t=e.a.call(t,u.a).sort(i.a),Math.ceil((o-n)/(2*(r.i(a.a)(t,.75)-r.i(a.a)(t,.25))*Math.pow(t.length,-1/3)))}},function(t,n,r){"use strict";var e=r(94);n.a=function(t,n,i){return Math.ceil((i-n)/(3.5*r.i(e.a)(t)*Math.pow(t.length,-1/3)))}},function(t,n,r){"use strict";var e=r(101);n.a=function(){return r.i(e.a)(arguments)}},function(t,n,r){"use strict";var e=r(194);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c}),r.d(n,"d",function(){return e.d})},function(t,n,r){"use strict";r.d(n,"a",function(){return e});var e=Array.prototype.slice},function(t,n,r){"use strict";function e(t){return"translate("+(t+.5)+",0)"}function i(t){return"translate(0,"+(t+.5)+")"}function u(t){return function(n){return+t(n)}}function a(t){var n=Math.max(0,t.bandwidth()-1)/2;return t.round()&&(n=Math.round(n)),function(r){return+t(r)+n}}function o(){return!this.__axis}function c(t,n){function r(r){var e=null==f?n.ticks?n.ticks.apply(n,c):n.domain():f,i=null==s?n.tickFormat?n.tickFormat.apply(n,c):p.a:s,d=Math.max(l,0)+m,k=n.range(),T=+k[0]+.5,A=+k[k.length-1]+.5,S=(n.bandwidth?a:u)(n.copy()),E=r.selection?r.selection():r,N=E.selectAll(".domain").data([null]),C=E.selectAll(".tick").data(e,n).order(),q=C.exit(),z=C.enter().append("g").attr("class","tick"),P=C.select("line"),D=C.select("text");N=N.merge(N.enter().insert("path",".tick").attr("class","domain").attr("stroke","#000")),C=C.merge(z),P=P.merge(z.append("line").attr("stroke","#000").attr(w+"2",x*l)),D=D.merge(z.append("text").attr("fill","#000").attr(w,x*d).attr("dy",t===v?"0em":t===y?"0.71em":"0.32em")),r!==E&&(N=N.transition(r),C=C.transition(r),P=P.transition(r),D=D.transition(r),q=q.transition(r).attr("opacity",b).attr("transform",function(t){return isFinite(t=S(t))?M(t):this.getAttribute("transform")}),z.attr("opacity",b).attr("transform",function(t){var n=this.parentNode.__axis;return M(n&&isFinite(n=n(t))?n:S(t))})),q.remove(),N.attr("d",t===_||t==g?"M"+x*h+","+T+"H0.5V"+A+"H"+x*h:"M"+T+","+x*h+"V0.5H"+A+"V"+x*h),C.attr("opacity",1).attr("transform",function(t){return M(S(t))}),P.attr(w+"2",x*l),D.attr(w,x*d).text(i),E.filter(o).attr("fill","none").attr("font-size",10).attr("font-family","sans-serif").attr("text-anchor",t===g?"start":t===_?"end":"middle"),E.each(function(){this.__axis=S})}var c=[],f=null,s=null,l=6,h=6,m=3,x=t===v||t===_?-1:1,w=t===_||t===g?"x":"y",M=t===v||t===y?e:i;return r.scale=function(t){return arguments.length?(n=t,r):n},r.ticks=function(){return c=d.a.call(arguments),r},r.tickArguments=function(t){return arguments.length?(c=null==t?[]:d.a.call(t),r):c.slice()},r.tickValues=function(t){return arguments.length?(f=null==t?null:d.a.call(t),r):f&&f.slice()},r.tickFormat=function(t){return arguments.length?(s=t,r):s},r.tickSize=function(t){return arguments.length?(l=h=+t,r):l},r.tickSizeInner=function(t){return arguments.length?(l=+t,r):l},r.tickSizeOuter=function(t){return arguments.length?(h=+t,r):h},r.tickPadding=function(t){return arguments.length?(m=+t,r):m},r}function f(t){return c(v,t)}function s(t){return c(g,t)}function l(t){return c(y,t)}function h(t){return c(_,t)}var d=r(193),p=r(195);n.a=f,n.b=s,n.c=l,n.d=h;var v=1,g=2,y=3,_=4,b=1e-6},function(t,n,r){"use strict";n.a=function(t){return t}},function(t,n,r){"use strict";var e=r(197);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b}),r.d(n,"c",function(){return e.c}),r.d(n,"d",function(){return e.d})},function(t,n,r){"use strict";function e(t){return{type:t}}function i(){return!v.q.button}function u(){var t=this.ownerSVGElement||this;return[[0,0],[t.width.baseVal.value,t.height.baseVal.value]]}function a(t){for(;!t.__brush;)if(!(t=t.parentNode))return;return t.__brush}function o(t){return t[0][0]===t[1][0]||t[0][1]===t[1][1]}function c(t){var n=t.__brush;return n?n.dim.output(n.selection):null}function f(){return l(k)}function s(){return l(T)}function l(t){function n(n){var i=n.property("__brush",A).selectAll(".overlay").data([e("overlay")]);i.enter().append("rect").attr("class","overlay").attr("pointer-events","all").attr("cursor",S.overlay).merge(i).each(function(){var t=a(this).extent;r.i(v.h)(this).attr("x",t[0][0]).attr("y",t[0][1]).attr("width",t[1][0]-t[0][0]).attr("height",t[1][1]-t[0][1])}),n.selectAll(".selection").data([e("selection")]).enter().append("rect").attr("class","selection").attr("cursor",S.selection).attr("fill","#777").attr("fill-opacity",.3).attr("stroke","#fff").attr("shape-rendering","crispEdges");var u=n.selectAll(".handle").data(t.handles,function(t){return t.type});u.exit().remove(),u.enter().append("rect").attr("class",function(t){return"handle handle--"+t.type}).attr("cursor",function(t){return S[t.type]}),n.each(c).attr("fill","none").attr("pointer-events","all").style("-webkit-tap-highlight-color","rgba(0,0,0,0)").on("mousedown.brush touchstart.brush",l)}function c(){var t=r.i(v.h)(this),n=a(this).selection;n?(t.selectAll(".selection").style("display",null).attr("x",n[0][0]).attr("y",n[0][1]).attr("width",n[1][0]-n[0][0]).attr("height",n[1][1]-n[0][1]),t.selectAll(".handle").style("display",null).attr("x",function(t){return"e"===t.type[t.type.length-1]?n[1][0]-L/2:n[0][0]-L/2}).attr("y",function(t){return"s"===t.type[0]?n[1][1]-L/2:n[0][1]-L/2}).attr("width",function(t){return"n"===t.type||"s"===t.type?n[1][0]-n[0][0]+L:L}).attr("height",function(t){return"e"===t.type||"w"===t.type?n[1][1]-n[0][1]+L:L})):t.selectAll(".selection,.handle").style("display","none").attr("x",null).attr("y",null).attr("width",null).attr("height",null)}function f(t,n){return t.__brush.emitter||new s(t,n)}function s(t,n){this.that=t,this.args=n,this.state=t.__brush,this.active=0}function l(){function n(){var t=r.i(v.d)(I);!K||j||F||(Math.abs(t[0]-nt[0])>Math.abs(t[1]-nt[1])?F=!0:j=!0),nt=t,O=!0,r.i(b.a)(),e()}function e(){var t;switch(L=nt[0]-tt[0],U=nt[1]-tt[1],B){case x:case m:H&&(L=Math.max(Z-l,Math.min($-_,L)),h=l+L,A=_+L),X&&(U=Math.max(Q-p,Math.min(J-P,U)),y=p+U,R=P+U);break;case w:H<0?(L=Math.max(Z-l,Math.min($-l,L)),h=l+L,A=_):H>0&&(L=Math.max(Z-_,Math.min($-_,L)),h=l,A=_+L),X<0?(U=Math.max(Q-p,Math.min(J-p,U)),y=p+U,R=P):X>0&&(U=Math.max(Q-P,Math.min(J-P,U)),y=p,R=P+U);break;case M:H&&(h=Math.max(Z,Math.min($,l-L*H)),A=Math.max(Z,Math.min($,_+L*H))),X&&(y=Math.max(Q,Math.min(J,p-U*X)),R=Math.max(Q,Math.min(J,P+U*X)))}A<h&&(H*=-1,t=l,l=_,_=t,t=h,h=A,A=t,Y in E&&it.attr("cursor",S[Y=E[Y]])),R<y&&(X*=-1,t=p,p=P,P=t,t=y,y=R,R=t,Y in N&&it.attr("cursor",S[Y=N[Y]])),G.selection&&(W=G.selection),j&&(h=W[0][0],A=W[1][0]),F&&(y=W[0][1],R=W[1][1]),W[0][0]===h&&W[0][1]===y&&W[1][0]===A&&W[1][1]===R||(G.selection=[[h,y],[A,R]],c.call(I),rt.brush())}function i(){if(r.i(b.b)(),v.q.touches){if(v.q.touches.length)return;z&&clearTimeout(z),z=setTimeout(function(){z=null},500),et.on("touchmove.brush touchend.brush touchcancel.brush",null)}else r.i(d.c)(v.q.view,O),ut.on("keydown.brush keyup.brush mousemove.brush mouseup.brush",null);et.attr("pointer-events","all"),it.attr("cursor",S.overlay),G.selection&&(W=G.selection),o(W)&&(G.selection=null,c.call(I)),rt.end()}function u(){switch(v.q.keyCode){case 16:K=H&&X;break;case 18:B===w&&(H&&(_=A-L*H,l=h+L*H),X&&(P=R-U*X,p=y+U*X),B=M,e());break;case 32:B!==w&&B!==M||(H<0?_=A-L:H>0&&(l=h-L),X<0?P=R-U:X>0&&(p=y-U),B=x,it.attr("cursor",S.selection),e());break;default:return}r.i(b.a)()}function s(){switch(v.q.keyCode){case 16:K&&(j=F=K=!1,e());break;case 18:B===M&&(H<0?_=A:H>0&&(l=h),X<0?P=R:X>0&&(p=y),B=w,e());break;case 32:B===x&&(v.q.altKey?(H&&(_=A-L*H,l=h+L*H),X&&(P=R-U*X,p=y+U*X),B=M):(H<0?_=A:H>0&&(l=h),X<0?P=R:X>0&&(p=y),B=w),it.attr("cursor",S[Y]),e());break;default:return}r.i(b.a)()}if(v.q.touches){if(v.q.changedTouches.length<v.q.touches.length)return r.i(b.a)()}else if(z)return;if(D.apply(this,arguments)){var l,h,p,y,_,A,P,R,L,U,O,j,F,I=this,Y=v.q.target.__data__.type,B="selection"===(v.q.metaKey?Y="overlay":Y)?m:v.q.altKey?M:w,H=t===T?null:C[Y],X=t===k?null:q[Y],G=a(I),V=G.extent,W=G.selection,Z=V[0][0],Q=V[0][1],$=V[1][0],J=V[1][1],K=H&&X&&v.q.shiftKey,tt=r.i(v.d)(I),nt=tt,rt=f(I,arguments).beforestart();"overlay"===Y?G.selection=W=[[l=t===T?Z:tt[0],p=t===k?Q:tt[1]],[_=t===T?$:l,P=t===k?J:p]]:(l=W[0][0],p=W[0][1],_=W[1][0],P=W[1][1]),h=l,y=p,A=_,R=P;var et=r.i(v.h)(I).attr("pointer-events","none"),it=et.selectAll(".overlay").attr("cursor",S[Y]);if(v.q.touches)et.on("touchmove.brush",n,!0).on("touchend.brush touchcancel.brush",i,!0);else{var ut=r.i(v.h)(v.q.view).on("keydown.brush",u,!0).on("keyup.brush",s,!0).on("mousemove.brush",n,!0).on("mouseup.brush",i,!0);r.i(d.b)(v.q.view)}r.i(b.b)(),r.i(g.c)(I),c.call(I),rt.start()}}function A(){var n=this.__brush||{selection:null};return n.extent=P.apply(this,arguments),n.dim=t,n}var z,P=u,D=i,R=r.i(h.a)(n,"start","brush","end"),L=6;return n.move=function(n,e){n.selection?n.on("start.brush",function(){f(this,arguments).beforestart().start()}).on("interrupt.brush end.brush",function(){f(this,arguments).end()}).tween("brush",function(){function n(t){u.selection=1===t&&o(l)?null:h(t),c.call(i),a.brush()}var i=this,u=i.__brush,a=f(i,arguments),s=u.selection,l=t.input("function"==typeof e?e.apply(this,arguments):e,u.extent),h=r.i(p.a)(s,l);return s&&l?n:n(1)}):n.each(function(){var n=this,i=arguments,u=n.__brush,a=t.input("function"==typeof e?e.apply(n,i):e,u.extent),s=f(n,i).beforestart();r.i(g.c)(n),u.selection=null==a||o(a)?null:a,c.call(n),s.start().brush().end()})},s.prototype={beforestart:function(){return 1==++this.active&&(this.state.emitter=this,this.starting=!0),this},start:function(){return this.starting&&(this.starting=!1,this.emit("start")),this},brush:function(){return this.emit("brush"),this},end:function(){return 0==--this.active&&(delete this.state.emitter,this.emit("end")),this},emit:function(e){r.i(v.r)(new _.a(n,e,t.output(this.state.selection)),R.apply,R,[e,this.that,this.args])}},n.extent=function(t){return arguments.length?(P="function"==typeof t?t:r.i(y.a)([[+t[0][0],+t[0][1]],[+t[1][0],+t[1][1]]]),n):P},n.filter=function(t){return arguments.length?(D="function"==typeof t?t:r.i(y.a)(!!t),n):D},n.handleSize=function(t){return arguments.length?(L=+t,n):L},n.on=function(){var t=R.on.apply(R,arguments);return t===R?n:t},n}var h=r(12),d=r(54),p=r(4),v=r(1),g=r(88),y=r(198),_=r(199),b=r(200);n.d=c,n.b=f,n.c=s;var m={name:"drag"},x={name:"space"},w={name:"handle"},M={name:"center"},k={name:"x",handles:["e","w"].map(e),input:function(t,n){return t&&[[t[0],n[0][1]],[t[1],n[1][1]]]},output:function(t){return t&&[t[0][0],t[1][0]]}},T={name:"y",handles:["n","s"].map(e),input:function(t,n){return t&&[[n[0][0],t[0]],[n[1][0],t[1]]]},output:function(t){return t&&[t[0][1],t[1][1]]}},A={name:"xy",handles:["n","e","s","w","nw","ne","se","sw"].map(e),input:function(t){return t},output:function(t){return t}},S={overlay:"crosshair",selection:"move",n:"ns-resize",e:"ew-resize",s:"ns-resize",w:"ew-resize",nw:"nwse-resize",ne:"nesw-resize",se:"nwse-resize",sw:"nesw-resize"},E={e:"w",w:"e",nw:"ne",ne:"nw",se:"sw",sw:"se"},N={n:"s",s:"n",nw:"sw",ne:"se",se:"ne",sw:"nw"},C={overlay:1,selection:1,n:null,e:1,s:null,w:-1,nw:-1,ne:1,se:1,sw:-1},q={overlay:1,selection:1,n:-1,e:null,s:1,w:null,nw:-1,ne:-1,se:1,sw:1};n.a=function(){return l(A)}},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";n.a=function(t,n,r){this.target=t,this.type=n,this.selection=r}},function(t,n,r){"use strict";function e(){i.q.stopImmediatePropagation()}var i=r(1);n.b=e,n.a=function(){i.q.preventDefault(),i.q.stopImmediatePropagation()}},function(t,n,r){"use strict";var e=r(203);r.d(n,"a",function(){return e.a});var i=r(205);r.d(n,"b",function(){return i.a})},function(t,n,r){"use strict";r.d(n,"a",function(){return e});var e=Array.prototype.slice},function(t,n,r){"use strict";function e(t){return function(n,r){return t(n.source.value+n.target.value,r.source.value+r.target.value)}}var i=r(3),u=r(103);n.a=function(){function t(t){var e,f,s,l,h,d,p=t.length,v=[],g=r.i(i.v)(p),y=[],_=[],b=_.groups=new Array(p),m=new Array(p*p);for(e=0,h=-1;++h<p;){for(f=0,d=-1;++d<p;)f+=t[h][d];v.push(f),y.push(r.i(i.v)(p)),e+=f}for(a&&g.sort(function(t,n){return a(v[t],v[n])}),o&&y.forEach(function(n,r){n.sort(function(n,e){return o(t[r][n],t[r][e])})}),e=r.i(u.d)(0,u.e-n*p)/e,l=e?n:u.e/p,f=0,h=-1;++h<p;){for(s=f,d=-1;++d<p;){var x=g[h],w=y[x][d],M=t[x][w],k=f,T=f+=M*e;m[w*p+x]={index:x,subindex:w,startAngle:k,endAngle:T,value:M}}b[x]={index:x,startAngle:s,endAngle:f,value:v[x]},f+=l}for(h=-1;++h<p;)for(d=h-1;++d<p;){var A=m[d*p+h],S=m[h*p+d];(A.value||S.value)&&_.push(A.value<S.value?{source:S,target:A}:{source:A,target:S})}return c?_.sort(c):_}var n=0,a=null,o=null,c=null;return t.padAngle=function(e){return arguments.length?(n=r.i(u.d)(0,e),t):n},t.sortGroups=function(n){return arguments.length?(a=n,t):a},t.sortSubgroups=function(n){return arguments.length?(o=n,t):o},t.sortChords=function(n){return arguments.length?(null==n?c=null:(c=e(n))._=n,t):c&&c._},t}},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(t){return t.source}function i(t){return t.target}function u(t){return t.radius}function a(t){return t.startAngle}function o(t){return t.endAngle}var c=r(202),f=r(204),s=r(103),l=r(14);n.a=function(){function t(){var t,e=c.a.call(arguments),i=n.apply(this,e),u=h.apply(this,e),a=+d.apply(this,(e[0]=i,e)),o=p.apply(this,e)-s.a,f=v.apply(this,e)-s.a,y=a*r.i(s.b)(o),_=a*r.i(s.c)(o),b=+d.apply(this,(e[0]=u,e)),m=p.apply(this,e)-s.a,x=v.apply(this,e)-s.a;if(g||(g=t=r.i(l.a)()),g.moveTo(y,_),g.arc(0,0,a,o,f),o===m&&f===x||(g.quadraticCurveTo(0,0,b*r.i(s.b)(m),b*r.i(s.c)(m)),g.arc(0,0,b,m,x)),g.quadraticCurveTo(0,0,y,_),g.closePath(),t)return g=null,t+""||null}var n=e,h=i,d=u,p=a,v=o,g=null;return t.radius=function(n){return arguments.length?(d="function"==typeof n?n:r.i(f.a)(+n),t):d},t.startAngle=function(n){return arguments.length?(p="function"==typeof n?n:r.i(f.a)(+n),t):p},t.endAngle=function(n){return arguments.length?(v="function"==typeof n?n:r.i(f.a)(+n),t):v},t.source=function(r){return arguments.length?(n=r,t):n},t.target=function(n){return arguments.length?(h=n,t):h},t.context=function(n){return arguments.length?(g=null==n?null:n,t):g},t}},function(t,n,r){"use strict";n.a=function(t){var n=[];for(var r in t)n.push({key:r,value:t[r]});return n}},function(t,n,r){"use strict";n.a=function(t){var n=[];for(var r in t)n.push(r);return n}},function(t,n,r){"use strict";function e(){return{}}function i(t,n,r){t[n]=r}function u(){return r.i(o.a)()}function a(t,n,r){t.set(n,r)}var o=r(51);n.a=function(){function t(n,e,i,u){if(e>=l.length)return null!=c&&n.sort(c),null!=f?f(n):n;for(var a,s,h,d=-1,p=n.length,v=l[e++],g=r.i(o.a)(),y=i();++d<p;)(h=g.get(a=v(s=n[d])+""))?h.push(s):g.set(a,[s]);return g.each(function(n,r){u(y,r,t(n,e,i,u))}),y}function n(t,r){if(++r>l.length)return t;var e,i=h[r-1];return null!=f&&r>=l.length?e=t.entries():(e=[],t.each(function(t,i){e.push({key:i,values:n(t,r)})})),null!=i?e.sort(function(t,n){return i(t.key,n.key)}):e}var c,f,s,l=[],h=[];return s={object:function(n){return t(n,0,e,i)},map:function(n){return t(n,0,u,a)},entries:function(r){return n(t(r,0,u,a),0)},key:function(t){return l.push(t),s},sortKeys:function(t){return h[l.length-1]=t,s},sortValues:function(t){return c=t,s},rollup:function(t){return f=t,s}}}},function(t,n,r){"use strict";function e(){}function i(t,n){var r=new e;if(t instanceof e)t.each(function(t){r.add(t)});else if(t){var i=-1,u=t.length;if(null==n)for(;++i<u;)r.add(t[i]);else for(;++i<u;)r.add(n(t[i],i,t))}return r}var u=r(51),a=u.a.prototype;e.prototype=i.prototype={constructor:e,has:a.has,add:function(t){return t+="",this[u.b+t]=t,this},remove:a.remove,clear:a.clear,values:a.keys,size:a.size,empty:a.empty,each:a.each},n.a=i},function(t,n,r){"use strict";n.a=function(t){var n=[];for(var r in t)n.push(t[r]);return n}},function(t,n,r){"use strict";function e(t){if(t instanceof u)return new u(t.h,t.s,t.l,t.opacity);t instanceof o.d||(t=r.i(o.e)(t));var n=t.r/255,e=t.g/255,i=t.b/255,a=(g*i+p*n-v*e)/(g+p-v),f=i-a,s=(d*(e-a)-l*f)/h,y=Math.sqrt(s*s+f*f)/(d*a*(1-a)),_=y?Math.atan2(s,f)*c.a-120:NaN;return new u(_<0?_+360:_,y,a,t.opacity)}function i(t,n,r,i){return 1===arguments.length?e(t):new u(t,n,r,null==i?1:i)}function u(t,n,r,e){this.h=+t,this.s=+n,this.l=+r,this.opacity=+e}var a=r(53),o=r(52),c=r(104);n.a=i;var f=-.14861,s=1.78277,l=-.29227,h=-.90649,d=1.97294,p=d*h,v=d*s,g=s*l-h*f;r.i(a.a)(u,i,r.i(a.b)(o.f,{brighter:function(t){return t=null==t?o.g:Math.pow(o.g,t),new u(this.h,this.s,this.l*t,this.opacity)},darker:function(t){return t=null==t?o.h:Math.pow(o.h,t),new u(this.h,this.s,this.l*t,this.opacity)},rgb:function(){var t=isNaN(this.h)?0:(this.h+120)*c.b,n=+this.l,r=isNaN(this.s)?0:this.s*n*(1-n),e=Math.cos(t),i=Math.sin(t);return new o.d(255*(n+r*(f*e+s*i)),255*(n+r*(l*e+h*i)),255*(n+r*(d*e)),this.opacity)}}))},function(t,n,r){"use strict";function e(t){if(t instanceof u)return new u(t.l,t.a,t.b,t.opacity);if(t instanceof h){var n=t.h*v.b;return new u(t.l,Math.cos(n)*t.c,Math.sin(n)*t.c,t.opacity)}t instanceof p.d||(t=r.i(p.e)(t));var e=f(t.r),i=f(t.g),o=f(t.b),c=a((.4124564*e+.3575761*i+.1804375*o)/y),s=a((.2126729*e+.7151522*i+.072175*o)/_);return new u(116*s-16,500*(c-s),200*(s-a((.0193339*e+.119192*i+.9503041*o)/b)),t.opacity)}function i(t,n,r,i){return 1===arguments.length?e(t):new u(t,n,r,null==i?1:i)}function u(t,n,r,e){this.l=+t,this.a=+n,this.b=+r,this.opacity=+e}function a(t){return t>M?Math.pow(t,1/3):t/w+m}function o(t){return t>x?t*t*t:w*(t-m)}function c(t){return 255*(t<=.0031308?12.92*t:1.055*Math.pow(t,1/2.4)-.055)}function f(t){return(t/=255)<=.04045?t/12.92:Math.pow((t+.055)/1.055,2.4)}function s(t){if(t instanceof h)return new h(t.h,t.c,t.l,t.opacity);t instanceof u||(t=e(t));var n=Math.atan2(t.b,t.a)*v.a;return new h(n<0?n+360:n,Math.sqrt(t.a*t.a+t.b*t.b),t.l,t.opacity)}function l(t,n,r,e){return 1===arguments.length?s(t):new h(t,n,r,null==e?1:e)}function h(t,n,r,e){this.h=+t,this.c=+n,this.l=+r,this.opacity=+e}var d=r(53),p=r(52),v=r(104);n.a=i,n.b=l;var g=18,y=.95047,_=1,b=1.08883,m=4/29,x=6/29,w=3*x*x,M=x*x*x;r.i(d.a)(u,i,r.i(d.b)(p.f,{brighter:function(t){return new u(this.l+g*(null==t?1:t),this.a,this.b,this.opacity)},darker:function(t){return new u(this.l-g*(null==t?1:t),this.a,this.b,this.opacity)},rgb:function(){var t=(this.l+16)/116,n=isNaN(this.a)?t:t+this.a/500,r=isNaN(this.b)?t:t-this.b/200;return t=_*o(t),n=y*o(n),r=b*o(r),new p.d(c(3.2404542*n-1.5371385*t-.4985314*r),c(-.969266*n+1.8760108*t+.041556*r),c(.0556434*n-.2040259*t+1.0572252*r),this.opacity)}})),r.i(d.a)(h,l,r.i(d.b)(p.f,{brighter:function(t){return new h(this.h,this.c,this.l+g*(null==t?1:t),this.opacity)},darker:function(t){return new h(this.h,this.c,this.l-g*(null==t?1:t),this.opacity)},rgb:function(){return e(this).rgb()}}))},function(t,n,r){"use strict";function e(){for(var t,n=0,r=arguments.length,e={};n<r;++n){if(!(t=arguments[n]+"")||t in e)throw new Error("illegal type: "+t);e[t]=[]}return new i(e)}function i(t){this._=t}function u(t,n){return t.trim().split(/^|\s+/).map(function(t){var r="",e=t.indexOf(".");if(e>=0&&(r=t.slice(e+1),t=t.slice(0,e)),t&&!n.hasOwnProperty(t))throw new Error("unknown type: "+t);return{type:t,name:r}})}function a(t,n){for(var r,e=0,i=t.length;e<i;++e)if((r=t[e]).name===n)return r.value}function o(t,n,r){for(var e=0,i=t.length;e<i;++e)if(t[e].name===n){t[e]=c,t=t.slice(0,e).concat(t.slice(e+1));break}return null!=r&&t.push({name:n,value:r}),t}var c={value:function(){}};i.prototype=e.prototype={constructor:i,on:function(t,n){var r,e=this._,i=u(t+"",e),c=-1,f=i.length;{if(!(arguments.length<2)){if(null!=n&&"function"!=typeof n)throw new Error("invalid callback: "+n);for(;++c<f;)if(r=(t=i[c]).type)e[r]=o(e[r],t.name,n);else if(null==n)for(r in e)e[r]=o(e[r],t.name,null);return this}for(;++c<f;)if((r=(t=i[c]).type)&&(r=a(e[r],t.name)))return r}},copy:function(){var t={},n=this._;for(var r in n)t[r]=n[r].slice();return new i(t)},call:function(t,n){if((r=arguments.length-2)>0)for(var r,e,i=new Array(r),u=0;u<r;++u)i[u]=arguments[u+2];if(!this._.hasOwnProperty(t))throw new Error("unknown type: "+t);for(e=this._[t],u=0,r=e.length;u<r;++u)e[u].value.apply(n,i)},apply:function(t,n,r){if(!this._.hasOwnProperty(t))throw new Error("unknown type: "+t);for(var e=this._[t],i=0,u=e.length;i<u;++i)e[i].value.apply(n,r)}},n.a=e},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(){return!c.q.button}function i(){return this.parentNode}function u(t){return null==t?{x:c.q.x,y:c.q.y}:t}function a(){return"ontouchstart"in this}var o=r(12),c=r(1),f=r(105),s=r(106),l=r(214),h=r(216);n.a=function(){function t(t){t.on("mousedown.drag",n).filter(A).on("touchstart.drag",v).on("touchmove.drag",g).on("touchend.drag touchcancel.drag",y).style("touch-action","none").style("-webkit-tap-highlight-color","rgba(0,0,0,0)")}function n(){if(!w&&M.apply(this,arguments)){var t=_("mouse",k.apply(this,arguments),c.d,this,arguments);t&&(r.i(c.h)(c.q.view).on("mousemove.drag",d,!0).on("mouseup.drag",p,!0),r.i(f.a)(c.q.view),r.i(s.b)(),x=!1,b=c.q.clientX,m=c.q.clientY,t("start"))}}function d(){if(r.i(s.a)(),!x){var t=c.q.clientX-b,n=c.q.clientY-m;x=t*t+n*n>C}S.mouse("drag")}function p(){r.i(c.h)(c.q.view).on("mousemove.drag mouseup.drag",null),r.i(f.b)(c.q.view,x),r.i(s.a)(),S.mouse("end")}function v(){if(M.apply(this,arguments)){var t,n,e=c.q.changedTouches,i=k.apply(this,arguments),u=e.length;for(t=0;t<u;++t)(n=_(e[t].identifier,i,c.n,this,arguments))&&(r.i(s.b)(),n("start"))}}function g(){var t,n,e=c.q.changedTouches,i=e.length;for(t=0;t<i;++t)(n=S[e[t].identifier])&&(r.i(s.a)(),n("drag"))}function y(){var t,n,e=c.q.changedTouches,i=e.length;for(w&&clearTimeout(w),w=setTimeout(function(){w=null},500),t=0;t<i;++t)(n=S[e[t].identifier])&&(r.i(s.b)(),n("end"))}function _(n,e,i,u,a){var o,f,s,l=i(e,n),d=E.copy();if(r.i(c.r)(new h.a(t,"beforestart",o,n,N,l[0],l[1],0,0,d),function(){return null!=(c.q.subject=o=T.apply(u,a))&&(f=o.x-l[0]||0,s=o.y-l[1]||0,!0)}))return function p(v){var g,y=l;switch(v){case"start":S[n]=p,g=N++;break;case"end":delete S[n],--N;case"drag":l=i(e,n),g=N}r.i(c.r)(new h.a(t,v,o,n,g,l[0]+f,l[1]+s,l[0]-y[0],l[1]-y[1],d),d.apply,d,[v,u,a])}}var b,m,x,w,M=e,k=i,T=u,A=a,S={},E=r.i(o.a)("start","drag","end"),N=0,C=0;return t.filter=function(n){return arguments.length?(M="function"==typeof n?n:r.i(l.a)(!!n),t):M},t.container=function(n){return arguments.length?(k="function"==typeof n?n:r.i(l.a)(n),t):k},t.subject=function(n){return arguments.length?(T="function"==typeof n?n:r.i(l.a)(n),t):T},t.touchable=function(n){return arguments.length?(A="function"==typeof n?n:r.i(l.a)(!!n),t):A},t.on=function(){var n=E.on.apply(E,arguments);return n===E?t:n},t.clickDistance=function(n){return arguments.length?(C=(n=+n)*n,t):Math.sqrt(C)},t}},function(t,n,r){"use strict";function e(t,n,r,e,i,u,a,o,c,f){this.target=t,this.type=n,this.subject=r,this.identifier=e,this.active=i,this.x=u,this.y=a,this.dx=o,this.dy=c,this._=f}n.a=e,e.prototype.on=function(){var t=this._.on.apply(this._,arguments);return t===this._?this:t}},function(t,n,r){"use strict";var e=r(56);r.d(n,"a",function(){return u}),r.d(n,"b",function(){return a}),r.d(n,"c",function(){return o}),r.d(n,"d",function(){return c});var i=r.i(e.a)(","),u=i.parse,a=i.parseRows,o=i.format,c=i.formatRows},function(t,n,r){"use strict";var e=r(56);r.d(n,"a",function(){return u}),r.d(n,"b",function(){return a}),r.d(n,"c",function(){return o}),r.d(n,"d",function(){return c});var i=r.i(e.a)("\t"),u=i.parse,a=i.parseRows,o=i.format,c=i.formatRows},function(t,n,r){"use strict";r.d(n,"b",function(){return i}),r.d(n,"c",function(){return u}),r.d(n,"a",function(){return a});var e=1.70158,i=function t(n){function r(t){return t*t*((n+1)*t-n)}return n=+n,r.overshoot=t,r}(e),u=function t(n){function r(t){return--t*t*((n+1)*t+n)+1}return n=+n,r.overshoot=t,r}(e),a=function t(n){function r(t){return((t*=2)<1?t*t*((n+1)*t-n):(t-=2)*t*((n+1)*t+n)+2)/2}return n=+n,r.overshoot=t,r}(e)},function(t,n,r){"use strict";function e(t){return 1-i(1-t)}function i(t){return(t=+t)<a?v*t*t:t<c?v*(t-=o)*t+f:t<l?v*(t-=s)*t+h:v*(t-=d)*t+p}function u(t){return((t*=2)<=1?1-i(1-t):i(t-1)+1)/2}n.b=e,n.a=i,n.c=u;var a=4/11,o=6/11,c=8/11,f=.75,s=9/11,l=10/11,h=.9375,d=21/22,p=63/64,v=1/a/a},function(t,n,r){"use strict";function e(t){return 1-Math.sqrt(1-t*t)}function i(t){return Math.sqrt(1- --t*t)}function u(t){return((t*=2)<=1?1-Math.sqrt(1-t*t):Math.sqrt(1-(t-=2)*t)+1)/2}n.b=e,n.c=i,n.a=u},function(t,n,r){"use strict";function e(t){return t*t*t}function i(t){return--t*t*t+1}function u(t){return((t*=2)<=1?t*t*t:(t-=2)*t*t+2)/2}n.b=e,n.c=i,n.a=u},function(t,n,r){"use strict";r.d(n,"b",function(){return a}),r.d(n,"a",function(){return o}),r.d(n,"c",function(){return c});var e=2*Math.PI,i=1,u=.3,a=function t(n,r){function i(t){return n*Math.pow(2,10*--t)*Math.sin((u-t)/r)}var u=Math.asin(1/(n=Math.max(1,n)))*(r/=e);return i.amplitude=function(n){return t(n,r*e)},i.period=function(r){return t(n,r)},i}(i,u),o=function t(n,r){function i(t){return 1-n*Math.pow(2,-10*(t=+t))*Math.sin((t+u)/r)}var u=Math.asin(1/(n=Math.max(1,n)))*(r/=e);return i.amplitude=function(n){return t(n,r*e)},i.period=function(r){return t(n,r)},i}(i,u),c=function t(n,r){function i(t){return((t=2*t-1)<0?n*Math.pow(2,10*t)*Math.sin((u-t)/r):2-n*Math.pow(2,-10*t)*Math.sin((u+t)/r))/2}var u=Math.asin(1/(n=Math.max(1,n)))*(r/=e);return i.amplitude=function(n){return t(n,r*e)},i.period=function(r){return t(n,r)},i}(i,u)},function(t,n,r){"use strict";function e(t){return Math.pow(2,10*t-10)}function i(t){return 1-Math.pow(2,-10*t)}function u(t){return((t*=2)<=1?Math.pow(2,10*t-10):2-Math.pow(2,10-10*t))/2}n.b=e,n.c=i,n.a=u},function(t,n,r){"use strict";function e(t){return+t}n.a=e},function(t,n,r){"use strict";r.d(n,"b",function(){return i}),r.d(n,"c",function(){return u}),r.d(n,"a",function(){return a});var e=3,i=function t(n){function r(t){return Math.pow(t,n)}return n=+n,r.exponent=t,r}(e),u=function t(n){function r(t){return 1-Math.pow(1-t,n)}return n=+n,r.exponent=t,r}(e),a=function t(n){function r(t){return((t*=2)<=1?Math.pow(t,n):2-Math.pow(2-t,n))/2}return n=+n,r.exponent=t,r}(e)},function(t,n,r){"use strict";function e(t){return t*t}function i(t){return t*(2-t)}function u(t){return((t*=2)<=1?t*t:--t*(2-t)+1)/2}n.b=e,n.c=i,n.a=u},function(t,n,r){"use strict";function e(t){return 1-Math.cos(t*o)}function i(t){return Math.sin(t*o)}function u(t){return(1-Math.cos(a*t))/2}n.b=e,n.c=i,n.a=u;var a=Math.PI,o=a/2},function(t,n,r){"use strict";var e=r(230);r.d(n,"a",function(){return e.a});var i=r(231);r.d(n,"b",function(){return i.a});var u=r(232);r.d(n,"c",function(){return u.a});var a=r(233);r.d(n,"d",function(){return a.a});var o=r(234);r.d(n,"e",function(){return o.a});var c=r(108);r.d(n,"f",function(){return c.a});var f=r(235);r.d(n,"g",function(){return f.a});var s=r(236);r.d(n,"h",function(){return s.a})},function(t,n,r){"use strict";n.a=function(t,n){function r(){var r,i,u=e.length,a=0,o=0;for(r=0;r<u;++r)i=e[r],a+=i.x,o+=i.y;for(a=a/u-t,o=o/u-n,r=0;r<u;++r)i=e[r],i.x-=a,i.y-=o}var e;return null==t&&(t=0),null==n&&(n=0),r.initialize=function(t){e=t},r.x=function(n){return arguments.length?(t=+n,r):t},r.y=function(t){return arguments.length?(n=+t,r):n},r}},function(t,n,r){"use strict";function e(t){return t.x+t.vx}function i(t){return t.y+t.vy}var u=r(18),a=r(57),o=r(70);n.a=function(t){function n(){function t(t,n,e,i,u){var o=t.data,c=t.r,s=g+c;{if(!o)return n>p+s||i<p-s||e>v+s||u<v-s;if(o.index>f.index){var l=p-o.x-o.vx,d=v-o.y-o.vy,_=l*l+d*d;_<s*s&&(0===l&&(l=r.i(a.a)(),_+=l*l),0===d&&(d=r.i(a.a)(),_+=d*d),_=(s-(_=Math.sqrt(_)))/_*h,f.vx+=(l*=_)*(s=(c*=c)/(y+c)),f.vy+=(d*=_)*s,o.vx-=l*(s=1-s),o.vy-=d*s)}}}for(var n,u,f,p,v,g,y,_=s.length,b=0;b<d;++b)for(u=r.i(o.a)(s,e,i).visitAfter(c),n=0;n<_;++n)f=s[n],g=l[f.index],y=g*g,p=f.x+f.vx,v=f.y+f.vy,u.visit(t)}function c(t){if(t.data)return t.r=l[t.data.index];for(var n=t.r=0;n<4;++n)t[n]&&t[n].r>t.r&&(t.r=t[n].r)}function f(){if(s){var n,r,e=s.length;for(l=new Array(e),n=0;n<e;++n)r=s[n],l[r.index]=+t(r,n,s)}}var s,l,h=1,d=1;return"function"!=typeof t&&(t=r.i(u.a)(null==t?1:+t)),n.initialize=function(t){s=t,f()},n.iterations=function(t){return arguments.length?(d=+t,n):d},n.strength=function(t){return arguments.length?(h=+t,n):h},n.radius=function(e){return arguments.length?(t="function"==typeof e?e:r.i(u.a)(+e),f(),n):t},n}},function(t,n,r){"use strict";function e(t){return t.index}function i(t,n){var r=t.get(n);if(!r)throw new Error("missing: "+n);return r}var u=r(18),a=r(57),o=r(22);n.a=function(t){function n(t){return 1/Math.min(v[t.source.index],v[t.target.index])}function c(n){for(var e=0,i=t.length;e<m;++e)for(var u,o,c,f,s,l,p,v=0;v<i;++v)u=t[v],o=u.source,c=u.target,f=c.x+c.vx-o.x-o.vx||r.i(a.a)(),s=c.y+c.vy-o.y-o.vy||r.i(a.a)(),l=Math.sqrt(f*f+s*s),l=(l-d[v])/l*n*h[v],f*=l,s*=l,c.vx-=f*(p=g[v]),c.vy-=s*p,o.vx+=f*(p=1-p),o.vy+=s*p}function f(){if(p){var n,e,u=p.length,a=t.length,c=r.i(o.c)(p,y);for(n=0,v=new Array(u);n<a;++n)e=t[n],e.index=n,"object"!=typeof e.source&&(e.source=i(c,e.source)),"object"!=typeof e.target&&(e.target=i(c,e.target)),v[e.source.index]=(v[e.source.index]||0)+1,v[e.target.index]=(v[e.target.index]||0)+1;for(n=0,g=new Array(a);n<a;++n)e=t[n],g[n]=v[e.source.index]/(v[e.source.index]+v[e.target.index]);h=new Array(a),s(),d=new Array(a),l()}}function s(){if(p)for(var n=0,r=t.length;n<r;++n)h[n]=+_(t[n],n,t)}function l(){if(p)for(var n=0,r=t.length;n<r;++n)d[n]=+b(t[n],n,t)}var h,d,p,v,g,y=e,_=n,b=r.i(u.a)(30),m=1;return null==t&&(t=[]),c.initialize=function(t){p=t,f()},c.links=function(n){return arguments.length?(t=n,f(),c):t},c.id=function(t){return arguments.length?(y=t,c):y},c.iterations=function(t){return arguments.length?(m=+t,c):m},c.strength=function(t){return arguments.length?(_="function"==typeof t?t:r.i(u.a)(+t),s(),c):_},c.distance=function(t){return arguments.length?(b="function"==typeof t?t:r.i(u.a)(+t),l(),c):b},c}},function(t,n,r){"use strict";var e=r(18),i=r(57),u=r(70),a=r(108);n.a=function(){function t(t){var n,e=f.length,i=r.i(u.a)(f,a.b,a.c).visitAfter(o);for(l=t,n=0;n<e;++n)s=f[n],i.visit(c)}function n(){if(f){var t,n,r=f.length;for(h=new Array(r),t=0;t<r;++t)n=f[t],h[n.index]=+d(n,t,f)}}function o(t){var n,r,e,i,u,a=0,o=0;if(t.length){for(e=i=u=0;u<4;++u)(n=t[u])&&(r=Math.abs(n.value))&&(a+=n.value,o+=r,e+=r*n.x,i+=r*n.y);t.x=e/o,t.y=i/o}else{n=t,n.x=n.data.x,n.y=n.data.y;do{a+=h[n.data.index]}while(n=n.next)}t.value=a}function c(t,n,e,u){if(!t.value)return!0;var a=t.x-s.x,o=t.y-s.y,c=u-n,f=a*a+o*o;if(c*c/g<f)return f<v&&(0===a&&(a=r.i(i.a)(),f+=a*a),0===o&&(o=r.i(i.a)(),f+=o*o),f<p&&(f=Math.sqrt(p*f)),s.vx+=a*t.value*l/f,s.vy+=o*t.value*l/f),!0;if(!(t.length||f>=v)){(t.data!==s||t.next)&&(0===a&&(a=r.i(i.a)(),f+=a*a),0===o&&(o=r.i(i.a)(),f+=o*o),f<p&&(f=Math.sqrt(p*f)));do{t.data!==s&&(c=h[t.data.index]*l/f,s.vx+=a*c,s.vy+=o*c)}while(t=t.next)}}var f,s,l,h,d=r.i(e.a)(-30),p=1,v=1/0,g=.81;return t.initialize=function(t){f=t,n()},t.strength=function(i){return arguments.length?(d="function"==typeof i?i:r.i(e.a)(+i),n(),t):d},t.distanceMin=function(n){return arguments.length?(p=n*n,t):Math.sqrt(p)},t.distanceMax=function(n){return arguments.length?(v=n*n,t):Math.sqrt(v)},t.theta=function(n){return arguments.length?(g=n*n,t):Math.sqrt(g)},t}},function(t,n,r){"use strict";var e=r(18);n.a=function(t,n,i){function u(t){for(var r=0,e=o.length;r<e;++r){var u=o[r],a=u.x-n||1e-6,s=u.y-i||1e-6,l=Math.sqrt(a*a+s*s),h=(f[r]-l)*c[r]*t/l;u.vx+=a*h,u.vy+=s*h}}function a(){if(o){var n,r=o.length;for(c=new Array(r),f=new Array(r),n=0;n<r;++n)f[n]=+t(o[n],n,o),c[n]=isNaN(f[n])?0:+s(o[n],n,o)}}var o,c,f,s=r.i(e.a)(.1);return"function"!=typeof t&&(t=r.i(e.a)(+t)),null==n&&(n=0),null==i&&(i=0),u.initialize=function(t){o=t,a()},u.strength=function(t){return arguments.length?(s="function"==typeof t?t:r.i(e.a)(+t),a(),u):s},u.radius=function(n){return arguments.length?(t="function"==typeof n?n:r.i(e.a)(+n),a(),u):t},u.x=function(t){return arguments.length?(n=+t,u):n},u.y=function(t){return arguments.length?(i=+t,u):i},u}},function(t,n,r){"use strict";var e=r(18);n.a=function(t){function n(t){for(var n,r=0,e=u.length;r<e;++r)n=u[r],n.vx+=(o[r]-n.x)*a[r]*t}function i(){if(u){var n,r=u.length;for(a=new Array(r),o=new Array(r),n=0;n<r;++n)a[n]=isNaN(o[n]=+t(u[n],n,u))?0:+c(u[n],n,u)}}var u,a,o,c=r.i(e.a)(.1);return"function"!=typeof t&&(t=r.i(e.a)(null==t?0:+t)),n.initialize=function(t){u=t,i()},n.strength=function(t){return arguments.length?(c="function"==typeof t?t:r.i(e.a)(+t),i(),n):c},n.x=function(u){return arguments.length?(t="function"==typeof u?u:r.i(e.a)(+u),i(),n):t},n}},function(t,n,r){"use strict";var e=r(18);n.a=function(t){function n(t){for(var n,r=0,e=u.length;r<e;++r)n=u[r],n.vy+=(o[r]-n.y)*a[r]*t}function i(){if(u){var n,r=u.length;for(a=new Array(r),o=new Array(r),n=0;n<r;++n)a[n]=isNaN(o[n]=+t(u[n],n,u))?0:+c(u[n],n,u)}}var u,a,o,c=r.i(e.a)(.1);return"function"!=typeof t&&(t=r.i(e.a)(null==t?0:+t)),n.initialize=function(t){u=t,i()},n.strength=function(t){return arguments.length?(c="function"==typeof t?t:r.i(e.a)(+t),i(),n):c},n.y=function(u){return arguments.length?(t="function"==typeof u?u:r.i(e.a)(+u),i(),n):t},n}},function(t,n,r){"use strict";function e(t){return u=r.i(i.a)(t),a=u.format,o=u.formatPrefix,u}var i=r(112);r.d(n,"b",function(){return a}),r.d(n,"c",function(){return o}),n.a=e;var u,a,o;e({decimal:".",thousands:",",grouping:[3],currency:["$",""]})},function(t,n,r){"use strict";n.a=function(t,n){t=t.toPrecision(n);t:for(var r,e=t.length,i=1,u=-1;i<e;++i)switch(t[i]){case".":u=r=i;break;case"0":0===u&&(u=i),r=i;break;case"e":break t;default:u>0&&(u=0)}return u>0?t.slice(0,u)+t.slice(r+1):t}},function(t,n,r){"use strict";n.a=function(t,n){return function(r,e){for(var i=r.length,u=[],a=0,o=t[0],c=0;i>0&&o>0&&(c+o+1>e&&(o=Math.max(1,e-c)),u.push(r.substring(i-=o,i+o)),!((c+=o+1)>e));)o=t[a=(a+1)%t.length];return u.reverse().join(n)}}},function(t,n,r){"use strict";n.a=function(t){return function(n){return n.replace(/[0-9]/g,function(n){return t[+n]})}}},function(t,n,r){"use strict";var e=r(59);n.a=function(t,n){var i=r.i(e.a)(t,n);if(!i)return t+"";var u=i[0],a=i[1];return a<0?"0."+new Array(-a).join("0")+u:u.length>a+1?u.slice(0,a+1)+"."+u.slice(a+1):u+new Array(a-u.length+2).join("0")}},function(t,n,r){"use strict";n.a=function(t){return t}},function(t,n,r){"use strict";var e=r(34);n.a=function(t){return Math.max(0,-r.i(e.a)(Math.abs(t)))}},function(t,n,r){"use strict";var e=r(34);n.a=function(t,n){return Math.max(0,3*Math.max(-8,Math.min(8,Math.floor(r.i(e.a)(n)/3)))-r.i(e.a)(Math.abs(t)))}},function(t,n,r){"use strict";var e=r(34);n.a=function(t,n){return t=Math.abs(t),n=Math.abs(n)-t,Math.max(0,r.i(e.a)(n)-r.i(e.a)(t))+1}},function(t,n,r){"use strict";var e=r(113);r.d(n,"a",function(){return e.a});var i=r(247);r.d(n,"b",function(){return i.a});var u=r(248);r.d(n,"c",function(){return u.a});var a=r(114);r.d(n,"d",function(){return a.a});var o=r(115);r.d(n,"e",function(){return o.a});var c=r(117);r.d(n,"f",function(){return c.a});var f=r(249);r.d(n,"g",function(){return f.a});var s=r(35);r.d(n,"h",function(){return s.a});var l=r(252);r.d(n,"i",function(){return l.a});var h=r(121);r.d(n,"j",function(){return h.a});var d=r(253);r.d(n,"k",function(){return d.a}),r.d(n,"l",function(){return d.b});var p=r(254);r.d(n,"m",function(){return p.a});var v=r(122);r.d(n,"n",function(){return v.a});var g=r(258);r.d(n,"o",function(){return g.a});var y=r(126);r.d(n,"p",function(){return y.a});var _=r(261);r.d(n,"q",function(){return _.a});var b=r(262);r.d(n,"r",function(){return b.a}),r.d(n,"s",function(){return b.b});var m=r(263);r.d(n,"t",function(){return m.a}),r.d(n,"u",function(){return m.b});var x=r(264);r.d(n,"v",function(){return x.a}),r.d(n,"w",function(){return x.b});var w=r(62);r.d(n,"x",function(){return w.a}),r.d(n,"y",function(){return w.b});var M=r(265);r.d(n,"z",function(){return M.a}),r.d(n,"A",function(){return M.b});var k=r(127);r.d(n,"B",function(){return k.a}),r.d(n,"C",function(){return k.b});var T=r(267);r.d(n,"D",function(){return T.a}),r.d(n,"E",function(){return T.b});var A=r(268);r.d(n,"F",function(){return A.a});var S=r(8);r.d(n,"G",function(){return S.a}),r.d(n,"H",function(){return S.b});var E=r(64);r.d(n,"I",function(){return E.a}),r.d(n,"J",function(){return E.b});var N=r(269);r.d(n,"K",function(){return N.a}),r.d(n,"L",function(){return N.b});var C=r(270);r.d(n,"M",function(){return C.a}),r.d(n,"N",function(){return C.b});var q=r(272);r.d(n,"O",function(){return q.a}),r.d(n,"P",function(){return q.b});var z=r(273);r.d(n,"Q",function(){return z.a}),r.d(n,"R",function(){return z.b});var P=r(36);r.d(n,"S",function(){return P.a});var D=r(13);r.d(n,"T",function(){return D.a});var R=r(37);r.d(n,"U",function(){return R.a})},function(t,n,r){"use strict";function e(t,n){x.push(w=[d=t,v=t]),n<p&&(p=n),n>g&&(g=n)}function i(t,n){var e=r.i(T.a)([t*A.g,n*A.g]);if(m){var i=r.i(T.b)(m,e),u=[i[1],-i[0],0],a=r.i(T.b)(u,i);r.i(T.c)(a),a=r.i(T.g)(a);var o,c=t-y,f=c>0?1:-1,l=a[0]*A.h*f,h=r.i(A.p)(c)>180;h^(f*y<l&&l<f*t)?(o=a[1]*A.h)>g&&(g=o):(l=(l+360)%360-180,h^(f*y<l&&l<f*t)?(o=-a[1]*A.h)<p&&(p=o):(n<p&&(p=n),n>g&&(g=n))),h?t<y?s(d,t)>s(d,v)&&(v=t):s(t,v)>s(d,v)&&(d=t):v>=d?(t<d&&(d=t),t>v&&(v=t)):t>y?s(d,t)>s(d,v)&&(v=t):s(t,v)>s(d,v)&&(d=t)}else x.push(w=[d=t,v=t]);n<p&&(p=n),n>g&&(g=n),m=e,y=t}function u(){N.point=i}function a(){w[0]=d,w[1]=v,N.point=e,m=null}function o(t,n){if(m){var e=t-y;E.add(r.i(A.p)(e)>180?e+(e>0?360:-360):e)}else _=t,b=n;k.b.point(t,n),i(t,n)}function c(){k.b.lineStart()}function f(){o(_,b),k.b.lineEnd(),r.i(A.p)(E)>A.o&&(d=-(v=180)),w[0]=d,w[1]=v,m=null}function s(t,n){return(n-=t)<0?n+360:n}function l(t,n){return t[0]-n[0]}function h(t,n){return t[0]<=t[1]?t[0]<=n&&n<=t[1]:n<t[0]||t[1]<n}var d,p,v,g,y,_,b,m,x,w,M=r(19),k=r(113),T=r(23),A=r(0),S=r(13),E=r.i(M.a)(),N={point:e,lineStart:u,lineEnd:a,polygonStart:function(){N.point=o,N.lineStart=c,N.lineEnd=f,E.reset(),k.b.polygonStart()},polygonEnd:function(){k.b.polygonEnd(),N.point=e,N.lineStart=u,N.lineEnd=a,k.c<0?(d=-(v=180),p=-(g=90)):E>A.o?g=90:E<-A.o&&(p=-90),w[0]=d,w[1]=v}};n.a=function(t){var n,e,i,u,a,o,c;if(g=v=-(d=p=1/0),x=[],r.i(S.a)(t,N),e=x.length){for(x.sort(l),n=1,i=x[0],a=[i];n<e;++n)u=x[n],h(i,u[0])||h(i,u[1])?(s(i[0],u[1])>s(i[0],i[1])&&(i[1]=u[1]),s(u[0],i[1])>s(i[0],i[1])&&(i[0]=u[0])):a.push(i=u);for(o=-1/0,e=a.length-1,n=0,i=a[e];n<=e;i=u,++n)u=a[n],(c=s(i[1],u[0]))>o&&(o=c,d=u[0],v=i[1])}return x=w=null,d===1/0||p===1/0?[[NaN,NaN],[NaN,NaN]]:[[d,p],[v,g]]}},function(t,n,r){"use strict";function e(t,n){t*=N.g,n*=N.g;var e=r.i(N.c)(n);i(e*r.i(N.c)(t),e*r.i(N.d)(t),r.i(N.d)(n))}function i(t,n,r){++d,v+=(t-v)/d,g+=(n-g)/d,y+=(r-y)/d}function u(){z.point=a}function a(t,n){t*=N.g,n*=N.g;var e=r.i(N.c)(n);A=e*r.i(N.c)(t),S=e*r.i(N.d)(t),E=r.i(N.d)(n),z.point=o,i(A,S,E)}function o(t,n){t*=N.g,n*=N.g;var e=r.i(N.c)(n),u=e*r.i(N.c)(t),a=e*r.i(N.d)(t),o=r.i(N.d)(n),c=r.i(N.e)(r.i(N.n)((c=S*o-E*a)*c+(c=E*u-A*o)*c+(c=A*a-S*u)*c),A*u+S*a+E*o);p+=c,_+=c*(A+(A=u)),b+=c*(S+(S=a)),m+=c*(E+(E=o)),i(A,S,E)}function c(){z.point=e}function f(){z.point=l}function s(){h(k,T),z.point=e}function l(t,n){k=t,T=n,t*=N.g,n*=N.g,z.point=h;var e=r.i(N.c)(n);A=e*r.i(N.c)(t),S=e*r.i(N.d)(t),E=r.i(N.d)(n),i(A,S,E)}function h(t,n){t*=N.g,n*=N.g;var e=r.i(N.c)(n),u=e*r.i(N.c)(t),a=e*r.i(N.d)(t),o=r.i(N.d)(n),c=S*o-E*a,f=E*u-A*o,s=A*a-S*u,l=r.i(N.n)(c*c+f*f+s*s),h=r.i(N.f)(l),d=l&&-h/l;x+=d*c,w+=d*f,M+=d*s,p+=h,_+=h*(A+(A=u)),b+=h*(S+(S=a)),m+=h*(E+(E=o)),i(A,S,E)}var d,p,v,g,y,_,b,m,x,w,M,k,T,A,S,E,N=r(0),C=r(10),q=r(13),z={sphere:C.a,point:e,lineStart:u,lineEnd:c,polygonStart:function(){z.lineStart=f,z.lineEnd=s},polygonEnd:function(){z.lineStart=u,z.lineEnd=c}};n.a=function(t){d=p=v=g=y=_=b=m=x=w=M=0,r.i(q.a)(t,z);var n=x,e=w,i=M,u=n*n+e*e+i*i;return u<N.w&&(n=_,e=b,i=m,p<N.o&&(n=v,e=g,i=y),(u=n*n+e*e+i*i)<N.w)?[NaN,NaN]:[r.i(N.e)(e,n)*N.h,r.i(N.f)(i/r.i(N.n)(u))*N.h]}},function(t,n,r){"use strict";var e=r(35);n.a=function(){var t,n,i,u=0,a=0,o=960,c=500;return i={stream:function(i){return t&&n===i?t:t=r.i(e.a)(u,a,o,c)(n=i)},extent:function(r){return arguments.length?(u=+r[0][0],a=+r[0][1],o=+r[1][0],c=+r[1][1],t=n=null,i):[[u,a],[o,c]]}}}},function(t,n,r){"use strict";n.a=function(t,n,r,e,i,u){var a,o=t[0],c=t[1],f=n[0],s=n[1],l=0,h=1,d=f-o,p=s-c;if(a=r-o,d||!(a>0)){if(a/=d,d<0){if(a<l)return;a<h&&(h=a)}else if(d>0){if(a>h)return;a>l&&(l=a)}if(a=i-o,d||!(a<0)){if(a/=d,d<0){if(a>h)return;a>l&&(l=a)}else if(d>0){if(a<l)return;a<h&&(h=a)}if(a=e-c,p||!(a>0)){if(a/=p,p<0){if(a<l)return;a<h&&(h=a)}else if(p>0){if(a>h)return;a>l&&(l=a)}if(a=u-c,p||!(a<0)){if(a/=p,p<0){if(a>h)return;a>l&&(l=a)}else if(p>0){if(a<l)return;a<h&&(h=a)}return l>0&&(t[0]=o+l*d,t[1]=c+l*p),h<1&&(n[0]=o+h*d,n[1]=c+h*p),!0}}}}}},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(t,n){return!(!t||!d.hasOwnProperty(t.type))&&d[t.type](t,n)}function i(t,n){return 0===r.i(s.a)(t,n)}function u(t,n){var e=r.i(s.a)(t[0],t[1]);return r.i(s.a)(t[0],n)+r.i(s.a)(n,t[1])<=e+l.o}function a(t,n){return!!r.i(f.a)(t.map(o),c(n))}function o(t){return t=t.map(c),t.pop(),t}function c(t){return[t[0]*l.g,t[1]*l.g]}var f=r(125),s=r(121),l=r(0),h={Feature:function(t,n){return e(t.geometry,n)},FeatureCollection:function(t,n){for(var r=t.features,i=-1,u=r.length;++i<u;)if(e(r[i].geometry,n))return!0;return!1}},d={Sphere:function(){return!0},Point:function(t,n){return i(t.coordinates,n)},MultiPoint:function(t,n){for(var r=t.coordinates,e=-1,u=r.length;++e<u;)if(i(r[e],n))return!0;return!1},LineString:function(t,n){return u(t.coordinates,n)},MultiLineString:function(t,n){for(var r=t.coordinates,e=-1,i=r.length;++e<i;)if(u(r[e],n))return!0;return!1},Polygon:function(t,n){return a(t.coordinates,n)},MultiPolygon:function(t,n){for(var r=t.coordinates,e=-1,i=r.length;++e<i;)if(a(r[e],n))return!0;return!1},GeometryCollection:function(t,n){for(var r=t.geometries,i=-1,u=r.length;++i<u;)if(e(r[i],n))return!0;return!1}};n.a=function(t,n){return(t&&h.hasOwnProperty(t.type)?h[t.type]:e)(t,n)}},function(t,n,r){"use strict";function e(t,n,e){var i=r.i(o.v)(t,n-c.o,e).concat(n);return function(t){return i.map(function(n){return[t,n]})}}function i(t,n,e){var i=r.i(o.v)(t,n-c.o,e).concat(n);return function(t){return i.map(function(n){return[n,t]})}}function u(){function t(){return{type:"MultiLineString",coordinates:n()}}function n(){return r.i(o.v)(r.i(c.u)(s/x)*x,f,x).map(y).concat(r.i(o.v)(r.i(c.u)(p/w)*w,d,w).map(_)).concat(r.i(o.v)(r.i(c.u)(a/b)*b,u,b).filter(function(t){return r.i(c.p)(t%x)>c.o}).map(v)).concat(r.i(o.v)(r.i(c.u)(h/m)*m,l,m).filter(function(t){return r.i(c.p)(t%w)>c.o}).map(g))}var u,a,f,s,l,h,d,p,v,g,y,_,b=10,m=b,x=90,w=360,M=2.5;return t.lines=function(){return n().map(function(t){return{type:"LineString",coordinates:t}})},t.outline=function(){return{type:"Polygon",coordinates:[y(s).concat(_(d).slice(1),y(f).reverse().slice(1),_(p).reverse().slice(1))]}},t.extent=function(n){return arguments.length?t.extentMajor(n).extentMinor(n):t.extentMinor()},t.extentMajor=function(n){return arguments.length?(s=+n[0][0],f=+n[1][0],p=+n[0][1],d=+n[1][1],s>f&&(n=s,s=f,f=n),p>d&&(n=p,p=d,d=n),t.precision(M)):[[s,p],[f,d]]},t.extentMinor=function(n){return arguments.length?(a=+n[0][0],u=+n[1][0],h=+n[0][1],l=+n[1][1],a>u&&(n=a,a=u,u=n),h>l&&(n=h,h=l,l=n),t.precision(M)):[[a,h],[u,l]]},t.step=function(n){return arguments.length?t.stepMajor(n).stepMinor(n):t.stepMinor()},t.stepMajor=function(n){return arguments.length?(x=+n[0],w=+n[1],t):[x,w]},t.stepMinor=function(n){return arguments.length?(b=+n[0],m=+n[1],t):[b,m]},t.precision=function(n){return arguments.length?(M=+n,v=e(h,l,90),g=i(a,u,M),y=e(p,d,90),_=i(s,f,M),t):M},t.extentMajor([[-180,-90+c.o],[180,90-c.o]]).extentMinor([[-180,-80-c.o],[180,80+c.o]])}function a(){return u()()}var o=r(3),c=r(0);n.a=u,n.b=a},function(t,n,r){"use strict";var e=r(0);n.a=function(t,n){var i=t[0]*e.g,u=t[1]*e.g,a=n[0]*e.g,o=n[1]*e.g,c=r.i(e.c)(u),f=r.i(e.d)(u),s=r.i(e.c)(o),l=r.i(e.d)(o),h=c*r.i(e.c)(i),d=c*r.i(e.d)(i),p=s*r.i(e.c)(a),v=s*r.i(e.d)(a),g=2*r.i(e.f)(r.i(e.n)(r.i(e.t)(o-u)+c*s*r.i(e.t)(a-i))),y=r.i(e.d)(g),_=g?function(t){var n=r.i(e.d)(t*=g)/y,i=r.i(e.d)(g-t)/y,u=i*h+n*p,a=i*d+n*v,o=i*f+n*l;return[r.i(e.e)(a,u)*e.h,r.i(e.e)(o,r.i(e.n)(u*u+a*a))*e.h]}:function(){return[i*e.h,u*e.h]};return _.distance=g,_}},function(t,n,r){"use strict";function e(){g.point=i}function i(t,n){g.point=u,o=f=t,c=s=n}function u(t,n){v.add(s*t-f*n),f=t,s=n}function a(){u(o,c)}var o,c,f,s,l=r(19),h=r(0),d=r(10),p=r.i(l.a)(),v=r.i(l.a)(),g={point:d.a,lineStart:d.a,lineEnd:d.a,polygonStart:function(){g.lineStart=e,g.lineEnd=a},polygonEnd:function(){g.lineStart=g.lineEnd=g.point=d.a,p.add(r.i(h.p)(v)),v.reset()},result:function(){var t=p/2;return p.reset(),t}};n.a=g},function(t,n,r){"use strict";function e(t,n){y+=t,_+=n,++b}function i(){A.point=u}function u(t,n){A.point=a,e(p=t,v=n)}function a(t,n){var i=t-p,u=n-v,a=r.i(g.n)(i*i+u*u);m+=a*(p+t)/2,x+=a*(v+n)/2,w+=a,e(p=t,v=n)}function o(){A.point=e}function c(){A.point=s}function f(){l(h,d)}function s(t,n){A.point=l,e(h=p=t,d=v=n)}function l(t,n){var i=t-p,u=n-v,a=r.i(g.n)(i*i+u*u);m+=a*(p+t)/2,x+=a*(v+n)/2,w+=a,a=v*t-p*n,M+=a*(p+t),k+=a*(v+n),T+=3*a,e(p=t,v=n)}var h,d,p,v,g=r(0),y=0,_=0,b=0,m=0,x=0,w=0,M=0,k=0,T=0,A={point:e,lineStart:i,lineEnd:o,polygonStart:function(){A.lineStart=c,A.lineEnd=f},polygonEnd:function(){A.point=e,A.lineStart=i,A.lineEnd=o},result:function(){var t=T?[M/T,k/T]:w?[m/w,x/w]:b?[y/b,_/b]:[NaN,NaN];return y=_=b=m=x=w=M=k=T=0,t}};n.a=A},function(t,n,r){"use strict";function e(t){this._context=t}var i=r(0),u=r(10);n.a=e,e.prototype={_radius:4.5,pointRadius:function(t){return this._radius=t,this},polygonStart:function(){this._line=0},polygonEnd:function(){this._line=NaN},lineStart:function(){this._point=0},lineEnd:function(){0===this._line&&this._context.closePath(),this._point=NaN},point:function(t,n){switch(this._point){case 0:this._context.moveTo(t,n),this._point=1;break;case 1:this._context.lineTo(t,n);break;default:this._context.moveTo(t+this._radius,n),this._context.arc(t,n,this._radius,0,i.b)}},result:u.a}},function(t,n,r){"use strict";var e=r(60),i=r(13),u=r(255),a=r(123),o=r(256),c=r(257),f=r(259),s=r(260);n.a=function(t,n){function l(t){return t&&("function"==typeof p&&d.pointRadius(+p.apply(this,arguments)),r.i(i.a)(t,h(d))),d.result()}var h,d,p=4.5;return l.area=function(t){return r.i(i.a)(t,h(u.a)),u.a.result()},l.measure=function(t){return r.i(i.a)(t,h(f.a)),f.a.result()},l.bounds=function(t){return r.i(i.a)(t,h(a.a)),a.a.result()},l.centroid=function(t){return r.i(i.a)(t,h(o.a)),o.a.result()},l.projection=function(n){return arguments.length?(h=null==n?(t=null,e.a):(t=n).stream,l):t},l.context=function(t){return arguments.length?(d=null==t?(n=null,new s.a):new c.a(n=t),"function"!=typeof p&&d.pointRadius(p),l):n},l.pointRadius=function(t){return arguments.length?(p="function"==typeof t?t:(d.pointRadius(+t),+t),l):p},l.projection(t).context(n)}},function(t,n,r){"use strict";function e(t,n){p.point=i,a=c=t,o=f=n}function i(t,n){c-=t,f-=n,d.add(r.i(l.n)(c*c+f*f)),c=t,f=n}var u,a,o,c,f,s=r(19),l=r(0),h=r(10),d=r.i(s.a)(),p={point:h.a,lineStart:function(){p.point=e},lineEnd:function(){u&&i(a,o),p.point=h.a},polygonStart:function(){u=!0},polygonEnd:function(){u=null},result:function(){var t=+d;return d.reset(),t}};n.a=p},function(t,n,r){"use strict";function e(){this._string=[]}function i(t){return"m0,"+t+"a"+t+","+t+" 0 1,1 0,"+-2*t+"a"+t+","+t+" 0 1,1 0,"+2*t+"z"}n.a=e,e.prototype={_radius:4.5,_circle:i(4.5),pointRadius:function(t){return(t=+t)!==this._radius&&(this._radius=t,this._circle=null),this},polygonStart:function(){this._line=0},polygonEnd:function(){this._line=NaN},lineStart:function(){this._point=0},lineEnd:function(){0===this._line&&this._string.push("Z"),this._point=NaN},point:function(t,n){switch(this._point){case 0:this._string.push("M",t,",",n),this._point=1;break;case 1:this._string.push("L",t,",",n);break;default:null==this._circle&&(this._circle=i(this._radius)),this._string.push("M",t,",",n,this._circle)}},result:function(){if(this._string.length){var t=this._string.join("");return this._string=[],t}return null}}},function(t,n,r){"use strict";function e(t){var n=t.length;return{point:function(r,e){for(var i=-1;++i<n;)t[i].point(r,e)},sphere:function(){for(var r=-1;++r<n;)t[r].sphere()},lineStart:function(){for(var r=-1;++r<n;)t[r].lineStart()},lineEnd:function(){for(var r=-1;++r<n;)t[r].lineEnd()},polygonStart:function(){for(var r=-1;++r<n;)t[r].polygonStart()},polygonEnd:function(){for(var r=-1;++r<n;)t[r].polygonEnd()}}}var i=r(0),u=r(126),a=r(62),o=r(63);n.a=function(){function t(t){var n=t[0],r=t[1];return d=null,s.point(n,r),d||(l.point(n,r),d)||(h.point(n,r),d)}function n(){return c=f=null,t}var c,f,s,l,h,d,p=r.i(u.a)(),v=r.i(a.a)().rotate([154,0]).center([-2,58.5]).parallels([55,65]),g=r.i(a.a)().rotate([157,0]).center([-3,19.9]).parallels([8,18]),y={point:function(t,n){d=[t,n]}};return t.invert=function(t){var n=p.scale(),r=p.translate(),e=(t[0]-r[0])/n,i=(t[1]-r[1])/n;return(i>=.12&&i<.234&&e>=-.425&&e<-.214?v:i>=.166&&i<.234&&e>=-.214&&e<-.115?g:p).invert(t)},t.stream=function(t){return c&&f===t?c:c=e([p.stream(f=t),v.stream(t),g.stream(t)])},t.precision=function(t){return arguments.length?(p.precision(t),v.precision(t),g.precision(t),n()):p.precision()},t.scale=function(n){return arguments.length?(p.scale(n),v.scale(.35*n),g.scale(n),t.translate(p.translate())):p.scale()},t.translate=function(t){if(!arguments.length)return p.translate();var r=p.scale(),e=+t[0],u=+t[1];return s=p.translate(t).clipExtent([[e-.455*r,u-.238*r],[e+.455*r,u+.238*r]]).stream(y),l=v.translate([e-.307*r,u+.201*r]).clipExtent([[e-.425*r+i.o,u+.12*r+i.o],[e-.214*r-i.o,u+.234*r-i.o]]).stream(y),h=g.translate([e-.205*r,u+.212*r]).clipExtent([[e-.214*r+i.o,u+.166*r+i.o],[e-.115*r-i.o,u+.234*r-i.o]]).stream(y),n()},t.fitExtent=function(n,e){return r.i(o.a)(t,n,e)},t.fitSize=function(n,e){return r.i(o.b)(t,n,e)},t.fitWidth=function(n,e){return r.i(o.c)(t,n,e)},t.fitHeight=function(n,e){return r.i(o.d)(t,n,e)},t.scale(1070)}},function(t,n,r){"use strict";var e=r(0),i=r(24),u=r(8);r.d(n,"b",function(){return a});var a=r.i(i.b)(function(t){return r.i(e.n)(2/(1+t))});a.invert=r.i(i.a)(function(t){return 2*r.i(e.f)(t/2)}),n.a=function(){return r.i(u.a)(a).scale(124.75).clipAngle(179.999)}},function(t,n,r){"use strict";var e=r(0),i=r(24),u=r(8);r.d(n,"b",function(){return a});var a=r.i(i.b)(function(t){return(t=r.i(e.s)(t))&&t/r.i(e.d)(t)});a.invert=r.i(i.a)(function(t){return t}),n.a=function(){return r.i(u.a)(a).scale(79.4188).clipAngle(179.999)}},function(t,n,r){"use strict";function e(t){return r.i(u.j)((u.k+t)/2)}function i(t,n){function i(t,n){f>0?n<-u.k+u.o&&(n=-u.k+u.o):n>u.k-u.o&&(n=u.k-u.o);var i=f/r.i(u.r)(e(n),c);return[i*r.i(u.d)(c*t),f-i*r.i(u.c)(c*t)]}var a=r.i(u.c)(t),c=t===n?r.i(u.d)(t):r.i(u.i)(a/r.i(u.c)(n))/r.i(u.i)(e(n)/e(t)),f=a*r.i(u.r)(e(t),c)/c;return c?(i.invert=function(t,n){var e=f-n,i=r.i(u.q)(c)*r.i(u.n)(t*t+e*e);return[r.i(u.e)(t,r.i(u.p)(e))/c*r.i(u.q)(e),2*r.i(u.l)(r.i(u.r)(f/i,1/c))-u.k]},i):o.b}var u=r(0),a=r(61),o=r(64);n.b=i,n.a=function(){return r.i(a.a)(i).scale(109.5).parallels([30,30])}},function(t,n,r){"use strict";function e(t,n){function e(t,n){var e=c-n,u=o*t;return[e*r.i(i.d)(u),c-e*r.i(i.c)(u)]}var u=r.i(i.c)(t),o=t===n?r.i(i.d)(t):(u-r.i(i.c)(n))/(n-t),c=u/o+t;return r.i(i.p)(o)<i.o?a.b:(e.invert=function(t,n){var e=c-n;return[r.i(i.e)(t,r.i(i.p)(e))/o*r.i(i.q)(e),c-r.i(i.q)(o)*r.i(i.n)(t*t+e*e)]},e)}var i=r(0),u=r(61),a=r(127);n.b=e,n.a=function(){return r.i(u.a)(e).scale(131.154).center([0,13.9389])}},function(t,n,r){"use strict";function e(t){function n(t,n){return[t*e,r.i(i.d)(n)/e]}var e=r.i(i.c)(t);return n.invert=function(t,n){return[t/e,r.i(i.f)(n*e)]},n}var i=r(0);n.a=e},function(t,n,r){"use strict";function e(t,n){var e=r.i(i.c)(n),u=r.i(i.c)(t)*e;return[e*r.i(i.d)(t)/u,r.i(i.d)(n)/u]}var i=r(0),u=r(24),a=r(8);n.b=e,e.invert=r.i(u.a)(i.l),n.a=function(){return r.i(a.a)(e).scale(144.049).clipAngle(60)}},function(t,n,r){"use strict";function e(t,n,e,i){return 1===t&&1===n&&0===e&&0===i?u.a:r.i(a.b)({point:function(r,u){this.stream.point(r*t+e,u*n+i)}})}var i=r(35),u=r(60),a=r(37),o=r(63);n.a=function(){function t(){return f=s=null,l}var n,a,c,f,s,l,h=1,d=0,p=0,v=1,g=1,y=u.a,_=null,b=u.a;return l={stream:function(t){return f&&s===t?f:f=y(b(s=t))},postclip:function(r){return arguments.length?(b=r,_=n=a=c=null,t()):b},clipExtent:function(e){return arguments.length?(b=null==e?(_=n=a=c=null,u.a):r.i(i.a)(_=+e[0][0],n=+e[0][1],a=+e[1][0],c=+e[1][1]),t()):null==_?null:[[_,n],[a,c]]},scale:function(n){return arguments.length?(y=e((h=+n)*v,h*g,d,p),t()):h},translate:function(n){return arguments.length?(y=e(h*v,h*g,d=+n[0],p=+n[1]),t()):[d,p]},reflectX:function(n){return arguments.length?(y=e(h*(v=n?-1:1),h*g,d,p),t()):v<0},reflectY:function(n){return arguments.length?(y=e(h*v,h*(g=n?-1:1),d,p),t()):g<0},fitExtent:function(t,n){return r.i(o.a)(l,t,n)},fitSize:function(t,n){return r.i(o.b)(l,t,n)},fitWidth:function(t,n){return r.i(o.c)(l,t,n)},fitHeight:function(t,n){return r.i(o.d)(l,t,n)}}}},function(t,n,r){"use strict";function e(t,n){var r=n*n,e=r*r;return[t*(.8707-.131979*r+e*(e*(.003971*r-.001529*e)-.013791)),n*(1.007226+r*(.015085+e*(.028874*r-.044475-.005916*e)))]}var i=r(8),u=r(0);n.b=e,e.invert=function(t,n){var e,i=n,a=25;do{var o=i*i,c=o*o;i-=e=(i*(1.007226+o*(.015085+c*(.028874*o-.044475-.005916*c)))-n)/(1.007226+o*(.045255+c*(.259866*o-.311325-.005916*11*c)))}while(r.i(u.p)(e)>u.o&&--a>0);return[t/(.8707+(o=i*i)*(o*(o*o*o*(.003971-.001529*o)-.013791)-.131979)),i]},n.a=function(){return r.i(i.a)(e).scale(175.295)}},function(t,n,r){"use strict";function e(t,n){return[r.i(i.c)(n)*r.i(i.d)(t),r.i(i.d)(n)]}var i=r(0),u=r(24),a=r(8);n.b=e,e.invert=r.i(u.a)(i.f),n.a=function(){return r.i(a.a)(e).scale(249.5).clipAngle(90+i.o)}},function(t,n,r){"use strict";function e(t){return r.i(o.b)({point:function(n,r){n=t(n,r),this.stream.point(n[0],n[1])}})}function i(t,n){function e(i,u,o,c,s,l,h,d,p,v,g,y,_,b){var m=h-i,x=d-u,w=m*m+x*x;if(w>4*n&&_--){var M=c+v,k=s+g,T=l+y,A=r.i(a.n)(M*M+k*k+T*T),S=r.i(a.f)(T/=A),E=r.i(a.p)(r.i(a.p)(T)-1)<a.o||r.i(a.p)(o-p)<a.o?(o+p)/2:r.i(a.e)(k,M),N=t(E,S),C=N[0],q=N[1],z=C-i,P=q-u,D=x*z-m*P;(D*D/w>n||r.i(a.p)((m*z+x*P)/w-.5)>.3||c*v+s*g+l*y<f)&&(e(i,u,o,c,s,l,C,q,E,M/=A,k/=A,T,_,b),b.point(C,q),e(C,q,E,M,k,T,h,d,p,v,g,y,_,b))}}return function(n){function i(r,e){r=t(r,e),n.point(r[0],r[1])}function a(){m=NaN,T.point=o,n.lineStart()}function o(i,a){var o=r.i(u.a)([i,a]),f=t(i,a);e(m,x,b,w,M,k,m=f[0],x=f[1],b=i,w=o[0],M=o[1],k=o[2],c,n),n.point(m,x)}function f(){T.point=i,n.lineEnd()}function s(){a(),T.point=l,T.lineEnd=h}function l(t,n){o(d=t,n),p=m,v=x,g=w,y=M,_=k,T.point=o}function h(){e(m,x,b,w,M,k,p,v,d,g,y,_,c,n),T.lineEnd=f,f()}var d,p,v,g,y,_,b,m,x,w,M,k,T={point:i,lineStart:a,lineEnd:f,polygonStart:function(){n.polygonStart(),T.lineStart=s},polygonEnd:function(){n.polygonEnd(),T.lineStart=a}};return T}}var u=r(23),a=r(0),o=r(37),c=16,f=r.i(a.c)(30*a.g);n.a=function(t,n){return+n?i(t,n):e(t)}},function(t,n,r){"use strict";function e(t,n){var e=r.i(i.c)(n),u=1+r.i(i.c)(t)*e;return[e*r.i(i.d)(t)/u,r.i(i.d)(n)/u]}var i=r(0),u=r(24),a=r(8);n.b=e,e.invert=r.i(u.a)(function(t){return 2*r.i(i.l)(t)}),n.a=function(){return r.i(a.a)(e).scale(250).clipAngle(142)}},function(t,n,r){"use strict";function e(t,n){return[r.i(i.i)(r.i(i.j)((i.k+n)/2)),-t]}var i=r(0),u=r(64);n.b=e,e.invert=function(t,n){return[-n,2*r.i(i.l)(r.i(i.m)(t))-i.k]},n.a=function(){var t=r.i(u.c)(e),n=t.center,i=t.rotate;return t.center=function(t){return arguments.length?n([-t[1],t[0]]):(t=n(),[t[1],-t[0]])},t.rotate=function(t){return arguments.length?i([t[0],t[1],t.length>2?t[2]+90:90]):(t=i(),[t[0],t[1],t[2]-90])},i([0,0,90]).scale(159.155)}},function(t,n,r){"use strict";var e=r(276);r.d(n,"a",function(){return e.a});var i=r(66);r.d(n,"b",function(){return i.a});var u=r(288);r.d(n,"c",function(){return u.a});var a=r(130);r.d(n,"d",function(){return a.a});var o=r(129);r.d(n,"e",function(){return o.a});var c=r(289);r.d(n,"f",function(){return c.a});var f=r(290);r.d(n,"g",function(){return f.a});var s=r(291);r.d(n,"h",function(){return s.a});var l=r(293);r.d(n,"i",function(){return l.a});var h=r(292);r.d(n,"j",function(){return h.a});var d=r(25);r.d(n,"k",function(){return d.a});var p=r(38);r.d(n,"l",function(){return p.a});var v=r(295);r.d(n,"m",function(){return v.a});var g=r(67);r.d(n,"n",function(){return g.a});var y=r(294);r.d(n,"o",function(){return y.a})},function(t,n,r){"use strict";function e(t){for(var n,r,e=t.length;e;)r=Math.random()*e--|0,n=t[e],t[e]=t[r],t[r]=n;return t}r.d(n,"b",function(){return i}),n.a=e;var i=Array.prototype.slice},function(t,n,r){"use strict";function e(t,n){return t.parent===n.parent?1:2}function i(t){return t.reduce(u,0)/t.length}function u(t,n){return t+n.x}function a(t){return 1+t.reduce(o,0)}function o(t,n){return Math.max(t,n.y)}function c(t){for(var n;n=t.children;)t=n[0];return t}function f(t){for(var n;n=t.children;)t=n[n.length-1];return t}n.a=function(){function t(t){var e,s=0;t.eachAfter(function(t){var r=t.children;r?(t.x=i(r),t.y=a(r)):(t.x=e?s+=n(t,e):0,t.y=0,e=t)});var l=c(t),h=f(t),d=l.x-n(l,h)/2,p=h.x+n(h,l)/2;return t.eachAfter(o?function(n){n.x=(n.x-t.x)*r,n.y=(t.y-n.y)*u}:function(n){n.x=(n.x-d)/(p-d)*r,n.y=(1-(t.y?n.y/t.y:1))*u})}var n=e,r=1,u=1,o=!1;return t.separation=function(r){return arguments.length?(n=r,t):n},t.size=function(n){return arguments.length?(o=!1,r=+n[0],u=+n[1],t):o?null:[r,u]},t.nodeSize=function(n){return arguments.length?(o=!0,r=+n[0],u=+n[1],t):o?[r,u]:null},t}},function(t,n,r){"use strict";n.a=function(){for(var t=this,n=[t];t=t.parent;)n.push(t);return n}},function(t,n,r){"use strict";function e(t){var n=0,r=t.children,e=r&&r.length;if(e)for(;--e>=0;)n+=r[e].value;else n=1;t.value=n}n.a=function(){return this.eachAfter(e)}},function(t,n,r){"use strict";n.a=function(){var t=[];return this.each(function(n){t.push(n)}),t}},function(t,n,r){"use strict";n.a=function(t){var n,r,e,i,u=this,a=[u];do{for(n=a.reverse(),a=[];u=n.pop();)if(t(u),r=u.children)for(e=0,i=r.length;e<i;++e)a.push(r[e])}while(a.length);return this}},function(t,n,r){"use strict";n.a=function(t){for(var n,r,e,i=this,u=[i],a=[];i=u.pop();)if(a.push(i),n=i.children)for(r=0,e=n.length;r<e;++r)u.push(n[r]);for(;i=a.pop();)t(i);return this}},function(t,n,r){"use strict";n.a=function(t){for(var n,r,e=this,i=[e];e=i.pop();)if(t(e),n=e.children)for(r=n.length-1;r>=0;--r)i.push(n[r]);return this}},function(t,n,r){"use strict";n.a=function(){var t=[];return this.eachBefore(function(n){n.children||t.push(n)}),t}},function(t,n,r){"use strict";n.a=function(){var t=this,n=[];return t.each(function(r){r!==t&&n.push({source:r.parent,target:r})}),n}},function(t,n,r){"use strict";function e(t,n){if(t===n)return t;var r=t.ancestors(),e=n.ancestors(),i=null;for(t=r.pop(),n=e.pop();t===n;)i=t,t=r.pop(),n=e.pop();return i}n.a=function(t){for(var n=this,r=e(n,t),i=[n];n!==r;)n=n.parent,i.push(n);for(var u=i.length;t!==r;)i.splice(u,0,t),t=t.parent;return i}},function(t,n,r){"use strict";n.a=function(t){return this.eachBefore(function(n){n.children&&n.children.sort(t)})}},function(t,n,r){"use strict";n.a=function(t){return this.eachAfter(function(n){for(var r=+t(n.data)||0,e=n.children,i=e&&e.length;--i>=0;)r+=e[i].value;n.value=r})}},function(t,n,r){"use strict";function e(t){return Math.sqrt(t.value)}function i(t){return function(n){n.children||(n.r=Math.max(0,+t(n)||0))}}function u(t,n){return function(e){if(i=e.children){var i,u,a,c=i.length,f=t(e)*n||0;if(f)for(u=0;u<c;++u)i[u].r+=f;if(a=r.i(o.b)(i),f)for(u=0;u<c;++u)i[u].r-=f;e.r=a+f}}}function a(t){return function(n){var r=n.parent;n.r*=t,r&&(n.x=r.x+t*n.x,n.y=r.y+t*n.y)}}var o=r(130),c=r(65),f=r(128);n.a=function(){function t(t){return t.x=o/2,t.y=s/2,n?t.eachBefore(i(n)).eachAfter(u(l,.5)).eachBefore(a(1)):t.eachBefore(i(e)).eachAfter(u(f.a,1)).eachAfter(u(l,t.r/Math.min(o,s))).eachBefore(a(Math.min(o,s)/(2*t.r))),t}var n=null,o=1,s=1,l=f.a;return t.radius=function(e){return arguments.length?(n=r.i(c.b)(e),t):n},t.size=function(n){return arguments.length?(o=+n[0],s=+n[1],t):[o,s]},t.padding=function(n){return arguments.length?(l="function"==typeof n?n:r.i(f.b)(+n),t):l},t}},function(t,n,r){"use strict";var e=r(131),i=r(25);n.a=function(){function t(t){var r=t.height+1;return t.x0=t.y0=o,t.x1=u,t.y1=a/r,t.eachBefore(n(a,r)),c&&t.eachBefore(e.a),t}function n(t,n){return function(e){e.children&&r.i(i.a)(e,e.x0,t*(e.depth+1)/n,e.x1,t*(e.depth+2)/n);var u=e.x0,a=e.y0,c=e.x1-o,f=e.y1-o;c<u&&(u=c=(u+c)/2),f<a&&(a=f=(a+f)/2),e.x0=u,e.y0=a,e.x1=c,e.y1=f}}var u=1,a=1,o=0,c=!1;return t.round=function(n){return arguments.length?(c=!!n,t):c},t.size=function(n){return arguments.length?(u=+n[0],a=+n[1],t):[u,a]},t.padding=function(n){return arguments.length?(o=+n,t):o},t}},function(t,n,r){"use strict";function e(t){return t.id}function i(t){return t.parentId}var u=r(65),a=r(66),o="$",c={depth:-1},f={};n.a=function(){function t(t){var r,e,i,u,l,h,d,p=t.length,v=new Array(p),g={};for(e=0;e<p;++e)r=t[e],l=v[e]=new a.b(r),null!=(h=n(r,e,t))&&(h+="")&&(d=o+(l.id=h),g[d]=d in g?f:l);for(e=0;e<p;++e)if(l=v[e],null!=(h=s(t[e],e,t))&&(h+="")){if(!(u=g[o+h]))throw new Error("missing: "+h);if(u===f)throw new Error("ambiguous: "+h);u.children?u.children.push(l):u.children=[l],l.parent=u}else{if(i)throw new Error("multiple roots");i=l}if(!i)throw new Error("no root");if(i.parent=c,i.eachBefore(function(t){t.depth=t.parent.depth+1,--p}).eachBefore(a.c),i.parent=null,p>0)throw new Error("cycle");return i}var n=e,s=i;return t.id=function(e){return arguments.length?(n=r.i(u.a)(e),t):n},t.parentId=function(n){return arguments.length?(s=r.i(u.a)(n),t):s},t}},function(t,n,r){"use strict";function e(t,n){return t.parent===n.parent?1:2}function i(t){var n=t.children;return n?n[0]:t.t}function u(t){var n=t.children;return n?n[n.length-1]:t.t}function a(t,n,r){var e=r/(n.i-t.i);n.c-=e,n.s+=r,t.c+=e,n.z+=r,n.m+=r}function o(t){for(var n,r=0,e=0,i=t.children,u=i.length;--u>=0;)n=i[u],n.z+=r,n.m+=r,r+=n.s+(e+=n.c)}function c(t,n,r){return t.a.parent===n.parent?t.a:r}function f(t,n){this._=t,this.parent=null,this.children=null,this.A=null,this.a=this,this.z=0,this.m=0,this.c=0,this.s=0,this.t=null,this.i=n}function s(t){for(var n,r,e,i,u,a=new f(t,0),o=[a];n=o.pop();)if(e=n._.children)for(n.children=new Array(u=e.length),i=u-1;i>=0;--i)o.push(r=n.children[i]=new f(e[i],i)),r.parent=n;return(a.parent=new f(null,0)).children=[a],a}var l=r(66);f.prototype=Object.create(l.b.prototype),n.a=function(){function t(t){var e=s(t);if(e.eachAfter(n),e.parent.m=-e.z,e.eachBefore(r),v)t.eachBefore(l);else{var i=t,u=t,a=t;t.eachBefore(function(t){t.x<i.x&&(i=t),t.x>u.x&&(u=t),t.depth>a.depth&&(a=t)});var o=i===u?1:h(i,u)/2,c=o-i.x,f=d/(u.x+o+c),g=p/(a.depth||1);t.eachBefore(function(t){t.x=(t.x+c)*f,t.y=t.depth*g})}return t}function n(t){var n=t.children,r=t.parent.children,e=t.i?r[t.i-1]:null;if(n){o(t);var i=(n[0].z+n[n.length-1].z)/2;e?(t.z=e.z+h(t._,e._),t.m=t.z-i):t.z=i}else e&&(t.z=e.z+h(t._,e._));t.parent.A=f(t,e,t.parent.A||r[0])}function r(t){t._.x=t.z+t.parent.m,t.m+=t.parent.m}function f(t,n,r){if(n){for(var e,o=t,f=t,s=n,l=o.parent.children[0],d=o.m,p=f.m,v=s.m,g=l.m;s=u(s),o=i(o),s&&o;)l=i(l),f=u(f),f.a=t,e=s.z+v-o.z-d+h(s._,o._),e>0&&(a(c(s,t,r),t,e),d+=e,p+=e),v+=s.m,d+=o.m,g+=l.m,p+=f.m;s&&!u(f)&&(f.t=s,f.m+=v-p),o&&!i(l)&&(l.t=o,l.m+=d-g,r=t)}return r}function l(t){t.x*=d,t.y=t.depth*p}var h=e,d=1,p=1,v=null;return t.separation=function(n){return arguments.length?(h=n,t):h},t.size=function(n){return arguments.length?(v=!1,d=+n[0],p=+n[1],t):v?null:[d,p]},t.nodeSize=function(n){return arguments.length?(v=!0,d=+n[0],p=+n[1],t):v?[d,p]:null},t}},function(t,n,r){"use strict";n.a=function(t,n,r,e,i){function u(t,n,r,e,i,a,o){if(t>=n-1){var f=c[t];return f.x0=e,f.y0=i,f.x1=a,f.y1=o,void 0}for(var l=s[t],h=r/2+l,d=t+1,p=n-1;d<p;){var v=d+p>>>1;s[v]<h?d=v+1:p=v}h-s[d-1]<s[d]-h&&t+1<d&&--d;var g=s[d]-l,y=r-g;if(a-e>o-i){var _=(e*y+a*g)/r;u(t,d,g,e,i,_,o),u(d,n,y,_,i,a,o)}else{var b=(i*y+o*g)/r;u(t,d,g,e,i,a,b),u(d,n,y,e,b,a,o)}}var a,o,c=t.children,f=c.length,s=new Array(f+1);for(s[0]=o=a=0;a<f;++a)s[a+1]=o+=c[a].value;u(0,f,t.value,n,r,e,i)}},function(t,n,r){"use strict";var e=r(131),i=r(67),u=r(65),a=r(128);n.a=function(){function t(t){return t.x0=t.y0=0,t.x1=f,t.y1=s,t.eachBefore(n),l=[0],c&&t.eachBefore(e.a),t}function n(t){var n=l[t.depth],r=t.x0+n,e=t.y0+n,i=t.x1-n,u=t.y1-n;i<r&&(r=i=(r+i)/2),u<e&&(e=u=(e+u)/2),t.x0=r,t.y0=e,t.x1=i,t.y1=u,t.children&&(n=l[t.depth+1]=h(t)/2,r+=g(t)-n,e+=d(t)-n,i-=p(t)-n,u-=v(t)-n,i<r&&(r=i=(r+i)/2),u<e&&(e=u=(e+u)/2),o(t,r,e,i,u))}var o=i.a,c=!1,f=1,s=1,l=[0],h=a.a,d=a.a,p=a.a,v=a.a,g=a.a;return t.round=function(n){return arguments.length?(c=!!n,t):c},t.size=function(n){return arguments.length?(f=+n[0],s=+n[1],t):[f,s]},t.tile=function(n){return arguments.length?(o=r.i(u.a)(n),t):o},t.padding=function(n){return arguments.length?t.paddingInner(n).paddingOuter(n):t.paddingInner()},t.paddingInner=function(n){return arguments.length?(h="function"==typeof n?n:r.i(a.b)(+n),t):h},t.paddingOuter=function(n){return arguments.length?t.paddingTop(n).paddingRight(n).paddingBottom(n).paddingLeft(n):t.paddingTop()},t.paddingTop=function(n){return arguments.length?(d="function"==typeof n?n:r.i(a.b)(+n),t):d},t.paddingRight=function(n){return arguments.length?(p="function"==typeof n?n:r.i(a.b)(+n),t):p},t.paddingBottom=function(n){return arguments.length?(v="function"==typeof n?n:r.i(a.b)(+n),t):v},t.paddingLeft=function(n){return arguments.length?(g="function"==typeof n?n:r.i(a.b)(+n),t):g},t}},function(t,n,r){"use strict";var e=r(25),i=r(38),u=r(67);n.a=function t(n){function a(t,a,o,c,f){if((s=t._squarify)&&s.ratio===n)for(var s,l,h,d,p,v=-1,g=s.length,y=t.value;++v<g;){for(l=s[v],h=l.children,d=l.value=0,p=h.length;d<p;++d)l.value+=h[d].value;l.dice?r.i(e.a)(l,a,o,c,o+=(f-o)*l.value/y):r.i(i.a)(l,a,o,a+=(c-a)*l.value/y,f),y-=l.value}else t._squarify=s=r.i(u.b)(n,t,a,o,c,f),s.ratio=n}return a.ratio=function(n){return t((n=+n)>1?n:1)},a}(u.c)},function(t,n,r){"use strict";var e=r(25),i=r(38);n.a=function(t,n,r,u,a){(1&t.depth?i.a:e.a)(t,n,r,u,a)}},function(t,n,r){"use strict";function e(t){return function n(e){function a(n,a){var o=t((n=r.i(i.f)(n)).h,(a=r.i(i.f)(a)).h),c=r.i(u.a)(n.s,a.s),f=r.i(u.a)(n.l,a.l),s=r.i(u.a)(n.opacity,a.opacity);return function(t){return n.h=o(t),n.s=c(t),n.l=f(Math.pow(t,e)),n.opacity=s(t),n+""}}return e=+e,a.gamma=n,a}(1)}var i=r(7),u=r(26);r.d(n,"b",function(){return a}),n.a=e(u.b);var a=e(u.a)},function(t,n,r){"use strict";function e(t){return function(n,e){var a=t((n=r.i(i.e)(n)).h,(e=r.i(i.e)(e)).h),o=r.i(u.a)(n.c,e.c),c=r.i(u.a)(n.l,e.l),f=r.i(u.a)(n.opacity,e.opacity);return function(t){return n.h=a(t),n.c=o(t),n.l=c(t),n.opacity=f(t),n+""}}}var i=r(7),u=r(26);r.d(n,"b",function(){return a}),n.a=e(u.b);var a=e(u.a)},function(t,n,r){"use strict";function e(t){return function(n,e){var a=t((n=r.i(i.c)(n)).h,(e=r.i(i.c)(e)).h),o=r.i(u.a)(n.s,e.s),c=r.i(u.a)(n.l,e.l),f=r.i(u.a)(n.opacity,e.opacity);return function(t){return n.h=a(t),n.s=o(t),n.l=c(t),n.opacity=f(t),n+""}}}var i=r(7),u=r(26);r.d(n,"b",function(){return a}),n.a=e(u.b);var a=e(u.a)},function(t,n,r){"use strict";function e(t,n){var e=r.i(u.a)((t=r.i(i.d)(t)).l,(n=r.i(i.d)(n)).l),a=r.i(u.a)(t.a,n.a),o=r.i(u.a)(t.b,n.b),c=r.i(u.a)(t.opacity,n.opacity);return function(n){return t.l=e(n),t.a=a(n),t.b=o(n),t.opacity=c(n),t+""}}var i=r(7),u=r(26);n.a=e},function(t,n,r){"use strict";n.a=function(t,n){for(var r=new Array(n),e=0;e<n;++e)r[e]=t(e/(n-1));return r}},function(t,n,r){"use strict";n.a=function(t,n){return t=+t,n-=t,function(r){return Math.round(t+n*r)}}},function(t,n,r){"use strict";r.d(n,"a",function(){return i});var e=180/Math.PI,i={translateX:0,translateY:0,rotate:0,skewX:0,scaleX:1,scaleY:1};n.b=function(t,n,r,i,u,a){var o,c,f;return(o=Math.sqrt(t*t+n*n))&&(t/=o,n/=o),(f=t*r+n*i)&&(r-=t*f,i-=n*f),(c=Math.sqrt(r*r+i*i))&&(r/=c,i/=c,f/=c),t*i<n*r&&(t=-t,n=-n,f=-f,o=-o),{translateX:u,translateY:a,rotate:Math.atan2(n,t)*e,skewX:Math.atan(f)*e,scaleX:o,scaleY:c}}},function(t,n,r){"use strict";function e(t,n,e,u){function a(t){return t.length?t.pop()+" ":""}function o(t,u,a,o,c,f){if(t!==a||u!==o){var s=c.push("translate(",null,n,null,e);f.push({i:s-4,x:r.i(i.a)(t,a)},{i:s-2,x:r.i(i.a)(u,o)})}else(a||o)&&c.push("translate("+a+n+o+e)}function c(t,n,e,o){t!==n?(t-n>180?n+=360:n-t>180&&(t+=360),o.push({i:e.push(a(e)+"rotate(",null,u)-2,x:r.i(i.a)(t,n)})):n&&e.push(a(e)+"rotate("+n+u)}function f(t,n,e,o){t!==n?o.push({i:e.push(a(e)+"skewX(",null,u)-2,x:r.i(i.a)(t,n)}):n&&e.push(a(e)+"skewX("+n+u)}function s(t,n,e,u,o,c){if(t!==e||n!==u){var f=o.push(a(o)+"scale(",null,",",null,")");c.push({i:f-4,x:r.i(i.a)(t,e)},{i:f-2,x:r.i(i.a)(n,u)})}else 1===e&&1===u||o.push(a(o)+"scale("+e+","+u+")")}return function(n,r){var e=[],i=[];return n=t(n),r=t(r),o(n.translateX,n.translateY,r.translateX,r.translateY,e,i),c(n.rotate,r.rotate,e,i),f(n.skewX,r.skewX,e,i),s(n.scaleX,n.scaleY,r.scaleX,r.scaleY,e,i),n=r=null,function(t){for(var n,r=-1,u=i.length;++r<u;)e[(n=i[r]).i]=n.x(t);return e.join("")}}}var i=r(39),u=r(304);r.d(n,"a",function(){return a}),r.d(n,"b",function(){return o});var a=e(u.a,"px, ","px)","deg)"),o=e(u.b,", ",")",")")},function(t,n,r){"use strict";function e(t){return"none"===t?u.a:(a||(a=document.createElement("DIV"),o=document.documentElement,c=document.defaultView),a.style.transform=t,t=c.getComputedStyle(o.appendChild(a),null).getPropertyValue("transform"),o.removeChild(a),t=t.slice(7,-1).split(","),r.i(u.b)(+t[0],+t[1],+t[2],+t[3],+t[4],+t[5]))}function i(t){return null==t?u.a:(f||(f=document.createElementNS("http://www.w3.org/2000/svg","g")),f.setAttribute("transform",t),(t=f.transform.baseVal.consolidate())?(t=t.matrix,r.i(u.b)(t.a,t.b,t.c,t.d,t.e,t.f)):u.a)}var u=r(302);n.a=e,n.b=i;var a,o,c,f},function(t,n,r){"use strict";function e(t){return((t=Math.exp(t))+1/t)/2}function i(t){return((t=Math.exp(t))-1/t)/2}function u(t){return((t=Math.exp(2*t))-1)/(t+1)}var a=Math.SQRT2,o=2,c=4;n.a=function(t,n){var r,f,s=t[0],l=t[1],h=t[2],d=n[0],p=n[1],v=n[2],g=d-s,y=p-l,_=g*g+y*y;if(_<1e-12)f=Math.log(v/h)/a,r=function(t){return[s+t*g,l+t*y,h*Math.exp(a*t*f)]};else{var b=Math.sqrt(_),m=(v*v-h*h+c*_)/(2*h*o*b),x=(v*v-h*h-c*_)/(2*v*o*b),w=Math.log(Math.sqrt(m*m+1)-m),M=Math.log(Math.sqrt(x*x+1)-x);f=(M-w)/a,r=function(t){var n=t*f,r=e(w),c=h/(o*b)*(r*u(a*n+w)-i(w));return[s+c*g,l+c*y,h*r/e(a*n+w)]}}return r.duration=1e3*f,r}},function(t,n,r){"use strict";function e(){this._x0=this._y0=this._x1=this._y1=null,this._=""}function i(){return new e}var u=Math.PI,a=2*u,o=1e-6,c=a-o;e.prototype=i.prototype={constructor:e,moveTo:function(t,n){this._+="M"+(this._x0=this._x1=+t)+","+(this._y0=this._y1=+n)},closePath:function(){null!==this._x1&&(this._x1=this._x0,this._y1=this._y0,this._+="Z")},lineTo:function(t,n){this._+="L"+(this._x1=+t)+","+(this._y1=+n)},quadraticCurveTo:function(t,n,r,e){this._+="Q"+ +t+","+ +n+","+(this._x1=+r)+","+(this._y1=+e)},bezierCurveTo:function(t,n,r,e,i,u){this._+="C"+ +t+","+ +n+","+ +r+","+ +e+","+(this._x1=+i)+","+(this._y1=+u)},arcTo:function(t,n,r,e,i){t=+t,n=+n,r=+r,e=+e,i=+i;var a=this._x1,c=this._y1,f=r-t,s=e-n,l=a-t,h=c-n,d=l*l+h*h;if(i<0)throw new Error("negative radius: "+i);if(null===this._x1)this._+="M"+(this._x1=t)+","+(this._y1=n);else if(d>o)if(Math.abs(h*f-s*l)>o&&i){var p=r-a,v=e-c,g=f*f+s*s,y=p*p+v*v,_=Math.sqrt(g),b=Math.sqrt(d),m=i*Math.tan((u-Math.acos((g+d-y)/(2*_*b)))/2),x=m/b,w=m/_;Math.abs(x-1)>o&&(this._+="L"+(t+x*l)+","+(n+x*h)),this._+="A"+i+","+i+",0,0,"+ +(h*p>l*v)+","+(this._x1=t+w*f)+","+(this._y1=n+w*s)}else this._+="L"+(this._x1=t)+","+(this._y1=n);else;},arc:function(t,n,r,e,i,f){t=+t,n=+n,r=+r;var s=r*Math.cos(e),l=r*Math.sin(e),h=t+s,d=n+l,p=1^f,v=f?e-i:i-e;if(r<0)throw new Error("negative radius: "+r);null===this._x1?this._+="M"+h+","+d:(Math.abs(this._x1-h)>o||Math.abs(this._y1-d)>o)&&(this._+="L"+h+","+d),r&&(v<0&&(v=v%a+a),v>c?this._+="A"+r+","+r+",0,1,"+p+","+(t-s)+","+(n-l)+"A"+r+","+r+",0,1,"+p+","+(this._x1=h)+","+(this._y1=d):v>o&&(this._+="A"+r+","+r+",0,"+ +(v>=u)+","+p+","+(this._x1=t+r*Math.cos(i))+","+(this._y1=n+r*Math.sin(i))))},rect:function(t,n,r,e){this._+="M"+(this._x0=this._x1=+t)+","+(this._y0=this._y1=+n)+"h"+ +r+"v"+ +e+"h"+-r+"Z"},toString:function(){return this._}},n.a=i},function(t,n,r){"use strict";var e=r(308);r.d(n,"a",function(){return e.a});var i=r(309);r.d(n,"b",function(){return i.a});var u=r(312);r.d(n,"c",function(){return u.a});var a=r(310);r.d(n,"d",function(){return a.a});var o=r(313);r.d(n,"e",function(){return o.a})},function(t,n,r){"use strict";n.a=function(t){for(var n,r=-1,e=t.length,i=t[e-1],u=0;++r<e;)n=i,i=t[r],u+=n[1]*i[0]-n[0]*i[1];return u/2}},function(t,n,r){"use strict";n.a=function(t){for(var n,r,e=-1,i=t.length,u=0,a=0,o=t[i-1],c=0;++e<i;)n=o,o=t[e],c+=r=n[0]*o[1]-o[0]*n[1],u+=(n[0]+o[0])*r,a+=(n[1]+o[1])*r;return c*=3,[u/c,a/c]}},function(t,n,r){"use strict";n.a=function(t,n){for(var r,e,i=t.length,u=t[i-1],a=n[0],o=n[1],c=u[0],f=u[1],s=!1,l=0;l<i;++l)u=t[l],r=u[0],e=u[1],e>o!=f>o&&a<(c-r)*(o-e)/(f-e)+r&&(s=!s),c=r,f=e;return s}},function(t,n,r){"use strict";n.a=function(t,n,r){return(n[0]-t[0])*(r[1]-t[1])-(n[1]-t[1])*(r[0]-t[0])}},function(t,n,r){"use strict";function e(t,n){return t[0]-n[0]||t[1]-n[1]}function i(t){for(var n=t.length,e=[0,1],i=2,a=2;a<n;++a){for(;i>1&&r.i(u.a)(t[e[i-2]],t[e[i-1]],t[a])<=0;)--i;e[i++]=a}return e.slice(0,i)}var u=r(311);n.a=function(t){if((r=t.length)<3)return null;var n,r,u=new Array(r),a=new Array(r);for(n=0;n<r;++n)u[n]=[+t[n][0],+t[n][1],n];for(u.sort(e),n=0;n<r;++n)a[n]=[u[n][0],-u[n][1]];var o=i(u),c=i(a),f=c[0]===o[0],s=c[c.length-1]===o[o.length-1],l=[];for(n=o.length-1;n>=0;--n)l.push(t[u[o[n]][2]]);for(n=+f;n<c.length-s;++n)l.push(t[u[c[n]][2]]);return l}},function(t,n,r){"use strict";n.a=function(t){for(var n,r,e=-1,i=t.length,u=t[i-1],a=u[0],o=u[1],c=0;++e<i;)n=a,r=o,u=t[e],a=u[0],o=u[1],n-=a,r-=o,c+=Math.sqrt(n*n+r*r);return c}},function(t,n,r){"use strict";function e(t,n,r,e){if(isNaN(n)||isNaN(r))return t;var i,u,a,o,c,f,s,l,h,d=t._root,p={data:e},v=t._x0,g=t._y0,y=t._x1,_=t._y1;if(!d)return t._root=p,t;for(;d.length;)if((f=n>=(u=(v+y)/2))?v=u:y=u,(s=r>=(a=(g+_)/2))?g=a:_=a,i=d,!(d=d[l=s<<1|f]))return i[l]=p,t;if(o=+t._x.call(null,d.data),c=+t._y.call(null,d.data),n===o&&r===c)return p.next=d,i?i[l]=p:t._root=p,t;do{i=i?i[l]=new Array(4):t._root=new Array(4),(f=n>=(u=(v+y)/2))?v=u:y=u,(s=r>=(a=(g+_)/2))?g=a:_=a}while((l=s<<1|f)==(h=(c>=a)<<1|o>=u));return i[h]=d,i[l]=p,t}function i(t){var n,r,i,u,a=t.length,o=new Array(a),c=new Array(a),f=1/0,s=1/0,l=-1/0,h=-1/0;for(r=0;r<a;++r)isNaN(i=+this._x.call(null,n=t[r]))||isNaN(u=+this._y.call(null,n))||(o[r]=i,c[r]=u,i<f&&(f=i),i>l&&(l=i),u<s&&(s=u),u>h&&(h=u));for(l<f&&(f=this._x0,l=this._x1),h<s&&(s=this._y0,h=this._y1),this.cover(f,s).cover(l,h),r=0;r<a;++r)e(this,o[r],c[r],t[r]);return this}n.b=i,n.a=function(t){var n=+this._x.call(null,t),r=+this._y.call(null,t);return e(this.cover(n,r),n,r,t)}},function(t,n,r){"use strict";n.a=function(t,n){if(isNaN(t=+t)||isNaN(n=+n))return this;var r=this._x0,e=this._y0,i=this._x1,u=this._y1;if(isNaN(r))i=(r=Math.floor(t))+1,u=(e=Math.floor(n))+1;else{if(!(r>t||t>i||e>n||n>u))return this;var a,o,c=i-r,f=this._root;switch(o=(n<(e+u)/2)<<1|t<(r+i)/2){case 0:do{a=new Array(4),a[o]=f,f=a}while(c*=2,i=r+c,u=e+c,t>i||n>u);break;case 1:do{a=new Array(4),a[o]=f,f=a}while(c*=2,r=i-c,u=e+c,r>t||n>u);break;case 2:do{a=new Array(4),a[o]=f,f=a}while(c*=2,i=r+c,e=u-c,t>i||e>n);break;case 3:do{a=new Array(4),a[o]=f,f=a}while(c*=2,r=i-c,e=u-c,r>t||e>n)}this._root&&this._root.length&&(this._root=f)}return this._x0=r,this._y0=e,this._x1=i,this._y1=u,this}},function(t,n,r){"use strict";n.a=function(){var t=[];return this.visit(function(n){if(!n.length)do{t.push(n.data)}while(n=n.next)}),t}},function(t,n,r){"use strict";n.a=function(t){return arguments.length?this.cover(+t[0][0],+t[0][1]).cover(+t[1][0],+t[1][1]):isNaN(this._x0)?void 0:[[this._x0,this._y0],[this._x1,this._y1]]}},function(t,n,r){"use strict";var e=r(71);n.a=function(t,n,r){var i,u,a,o,c,f,s,l=this._x0,h=this._y0,d=this._x1,p=this._y1,v=[],g=this._root;for(g&&v.push(new e.a(g,l,h,d,p)),null==r?r=1/0:(l=t-r,h=n-r,d=t+r,p=n+r,r*=r);f=v.pop();)if(!(!(g=f.node)||(u=f.x0)>d||(a=f.y0)>p||(o=f.x1)<l||(c=f.y1)<h))if(g.length){var y=(u+o)/2,_=(a+c)/2;v.push(new e.a(g[3],y,_,o,c),new e.a(g[2],u,_,y,c),new e.a(g[1],y,a,o,_),new e.a(g[0],u,a,y,_)),(s=(n>=_)<<1|t>=y)&&(f=v[v.length-1],v[v.length-1]=v[v.length-1-s],v[v.length-1-s]=f)}else{var b=t-+this._x.call(null,g.data),m=n-+this._y.call(null,g.data),x=b*b+m*m;if(x<r){var w=Math.sqrt(r=x);l=t-w,h=n-w,d=t+w,p=n+w,i=g.data}}return i}},function(t,n,r){"use strict";function e(t,n,r){var e=new i(null==n?g.a:n,null==r?y.a:r,NaN,NaN,NaN,NaN);return null==t?e:e.addAll(t)}function i(t,n,r,e,i,u){this._x=t,this._y=n,this._x0=r,this._y0=e,this._x1=i,this._y1=u,this._root=void 0}function u(t){for(var n={data:t.data},r=n;t=t.next;)r=r.next={data:t.data};return n}var a=r(314),o=r(315),c=r(316),f=r(317),s=r(318),l=r(320),h=r(321),d=r(322),p=r(323),v=r(324),g=r(325),y=r(326);n.a=e;var _=e.prototype=i.prototype;_.copy=function(){var t,n,r=new i(this._x,this._y,this._x0,this._y0,this._x1,this._y1),e=this._root;if(!e)return r;if(!e.length)return r._root=u(e),r;for(t=[{source:e,target:r._root=new Array(4)}];e=t.pop();)for(var a=0;a<4;++a)(n=e.source[a])&&(n.length?t.push({source:n,target:e.target[a]=new Array(4)}):e.target[a]=u(n));return r},_.add=a.a,_.addAll=a.b,_.cover=o.a,_.data=c.a,_.extent=f.a,_.find=s.a,_.remove=l.a,_.removeAll=l.b,_.root=h.a,_.size=d.a,_.visit=p.a,_.visitAfter=v.a,_.x=g.b,_.y=y.b},function(t,n,r){"use strict";function e(t){for(var n=0,r=t.length;n<r;++n)this.remove(t[n]);return this}n.b=e,n.a=function(t){if(isNaN(u=+this._x.call(null,t))||isNaN(a=+this._y.call(null,t)))return this;var n,r,e,i,u,a,o,c,f,s,l,h,d=this._root,p=this._x0,v=this._y0,g=this._x1,y=this._y1;if(!d)return this;if(d.length)for(;;){if((f=u>=(o=(p+g)/2))?p=o:g=o,(s=a>=(c=(v+y)/2))?v=c:y=c,n=d,!(d=d[l=s<<1|f]))return this;if(!d.length)break;(n[l+1&3]||n[l+2&3]||n[l+3&3])&&(r=n,h=l)}for(;d.data!==t;)if(e=d,!(d=d.next))return this;return(i=d.next)&&delete d.next,e?(i?e.next=i:delete e.next,this):n?(i?n[l]=i:delete n[l],(d=n[0]||n[1]||n[2]||n[3])&&d===(n[3]||n[2]||n[1]||n[0])&&!d.length&&(r?r[h]=d:this._root=d),this):(this._root=i,this)}},function(t,n,r){"use strict";n.a=function(){return this._root}},function(t,n,r){"use strict";n.a=function(){var t=0;return this.visit(function(n){if(!n.length)do{++t}while(n=n.next)}),t}},function(t,n,r){"use strict";var e=r(71);n.a=function(t){var n,r,i,u,a,o,c=[],f=this._root;for(f&&c.push(new e.a(f,this._x0,this._y0,this._x1,this._y1));n=c.pop();)if(!t(f=n.node,i=n.x0,u=n.y0,a=n.x1,o=n.y1)&&f.length){var s=(i+a)/2,l=(u+o)/2;(r=f[3])&&c.push(new e.a(r,s,l,a,o)),(r=f[2])&&c.push(new e.a(r,i,l,s,o)),(r=f[1])&&c.push(new e.a(r,s,u,a,l)),(r=f[0])&&c.push(new e.a(r,i,u,s,l))}return this}},function(t,n,r){"use strict";var e=r(71);n.a=function(t){var n,r=[],i=[];for(this._root&&r.push(new e.a(this._root,this._x0,this._y0,this._x1,this._y1));n=r.pop();){var u=n.node;if(u.length){var a,o=n.x0,c=n.y0,f=n.x1,s=n.y1,l=(o+f)/2,h=(c+s)/2;(a=u[0])&&r.push(new e.a(a,o,c,l,h)),(a=u[1])&&r.push(new e.a(a,l,c,f,h)),(a=u[2])&&r.push(new e.a(a,o,h,l,s)),(a=u[3])&&r.push(new e.a(a,l,h,f,s))}i.push(n)}for(;n=i.pop();)t(n.node,n.x0,n.y0,n.x1,n.y1);return this}},function(t,n,r){"use strict";function e(t){return t[0]}n.a=e,n.b=function(t){return arguments.length?(this._x=t,this):this._x}},function(t,n,r){"use strict";function e(t){return t[1]}n.a=e,n.b=function(t){return arguments.length?(this._y=t,this):this._y}},function(t,n,r){"use strict";var e=r(329);r.d(n,"a",function(){return e.a})},function(t,n,r){"use strict";r.d(n,"a",function(){return e});var e=[].slice},function(t,n,r){"use strict";function e(t){this._size=t,this._call=this._error=null,this._tasks=[],this._data=[],this._waiting=this._active=this._ended=this._start=0}function i(t){if(!t._start)try{u(t)}catch(n){if(t._tasks[t._ended+t._active-1])o(t,n);else if(!t._data)throw n}}function u(t){for(;t._start=t._waiting&&t._active<t._size;){var n=t._ended+t._active,r=t._tasks[n],e=r.length-1,i=r[e];r[e]=a(t,n),--t._waiting,++t._active,r=i.apply(null,r),t._tasks[n]&&(t._tasks[n]=r||l)}}function a(t,n){return function(r,e){t._tasks[n]&&(--t._active,++t._ended,t._tasks[n]=null,null==t._error&&(null!=r?o(t,r):(t._data[n]=e,t._waiting?i(t):c(t))))}}function o(t,n){var r,e=t._tasks.length;for(t._error=n,t._data=void 0,t._waiting=NaN;--e>=0;)if((r=t._tasks[e])&&(t._tasks[e]=null,r.abort))try{r.abort()}catch(n){}t._active=NaN,c(t)}function c(t){if(!t._active&&t._call){var n=t._data;t._data=void 0,t._call(t._error,n)}}function f(t){if(null==t)t=1/0;else if(!((t=+t)>=1))throw new Error("invalid concurrency");return new e(t)}var s=r(328);n.a=f;var l={};e.prototype=f.prototype={constructor:e,defer:function(t){if("function"!=typeof t)throw new Error("invalid callback");if(this._call)throw new Error("defer after await");if(null!=this._error)return this;var n=s.a.call(arguments,1);return n.push(t),++this._waiting,this._tasks.push(n),i(this),this},abort:function(){return null==this._error&&o(this,new Error("abort")),this},await:function(t){if("function"!=typeof t)throw new Error("invalid callback");if(this._call)throw new Error("multiple await");return this._call=function(n,r){t.apply(null,[n].concat(r))},c(this),this},awaitAll:function(t){if("function"!=typeof t)throw new Error("invalid callback");if(this._call)throw new Error("multiple await");return this._call=t,c(this),this}}},function(t,n,r){"use strict";var e=r(334);r.d(n,"a",function(){return e.a});var i=r(140);r.d(n,"b",function(){return i.a});var u=r(333);r.d(n,"c",function(){return u.a});var a=r(331);r.d(n,"d",function(){return a.a});var o=r(139);r.d(n,"e",function(){return o.a});var c=r(332);r.d(n,"f",function(){return c.a})},function(t,n,r){"use strict";var e=r(20),i=r(139);n.a=function t(n){function r(t){var r=i.a.source(n)(t);return function(){return r()/t}}return r.source=t,r}(e.a)},function(t,n,r){"use strict";var e=r(20);n.a=function t(n){function r(t){return function(){return-Math.log(1-n())/t}}return r.source=t,r}(e.a)},function(t,n,r){"use strict";var e=r(20),i=r(140);n.a=function t(n){function r(){var t=i.a.source(n).apply(this,arguments);return function(){return Math.exp(t())}}return r.source=t,r}(e.a)},function(t,n,r){"use strict";var e=r(20);n.a=function t(n){function r(t,r){return t=null==t?0:+t,r=null==r?1:+r,1===arguments.length?(r=t,t=0):r-=t,function(){return n()*r+t}}return r.source=t,r}(e.a)},function(t,n,r){"use strict";var e=r(72);r.d(n,"a",function(){return e.a});var i=r(337);r.d(n,"b",function(){return i.a});var u=r(338);r.d(n,"c",function(){return u.a});var a=r(339);r.d(n,"d",function(){return a.a});var o=r(341);r.d(n,"e",function(){return o.a});var c=r(336);r.d(n,"f",function(){return c.a});var f=r(340);r.d(n,"g",function(){return f.a})},function(t,n,r){"use strict";var e=r(55),i=r(141);n.a=r.i(i.a)("text/csv",e.b)},function(t,n,r){"use strict";var e=r(40);n.a=r.i(e.a)("text/html",function(t){return document.createRange().createContextualFragment(t.responseText)})},function(t,n,r){"use strict";var e=r(40);n.a=r.i(e.a)("application/json",function(t){return JSON.parse(t.responseText)})},function(t,n,r){"use strict";var e=r(40);n.a=r.i(e.a)("text/plain",function(t){return t.responseText})},function(t,n,r){"use strict";var e=r(55),i=r(141);n.a=r.i(i.a)("text/tab-separated-values",e.f)},function(t,n,r){"use strict";var e=r(40);n.a=r.i(e.a)("application/xml",function(t){var n=t.responseXML;if(!n)throw new Error("parse error");return n})},function(t,n,r){"use strict";var e=r(343);r.d(n,"a",function(){return e.a}),r.d(n,"b",function(){return e.b});var i=r(349);r.d(n,"c",function(){return i.a});var u=r(28);r.d(n,"d",function(){return u.a});var a=r(350);r.d(n,"e",function(){return a.a});var o=r(144);r.d(n,"f",function(){return o.a}),r.d(n,"g",function(){return o.b});var c=r(351);r.d(n,"h",function(){return c.a}),r.d(n,"i",function(){return c.b});var f=r(352);r.d(n,"j",function(){return f.a});var s=r(353);r.d(n,"k",function(){return s.a});var l=r(356);r.d(n,"l",function(){return l.a});var h=r(145);r.d(n,"m",function(){return h.a});var d=r(358);r.d(n,"n",function(){return d.a});var p=r(344);r.d(n,"o",function(){return p.a});var v=r(346);r.d(n,"p",function(){return v.a});var g=r(347);r.d(n,"q",function(){return g.a});var y=r(345);r.d(n,"r",function(){return y.a});var _=r(348);r.d(n,"s",function(){return _.a});var b=r(354);r.d(n,"t",function(){return b.a}),r.d(n,"u",function(){return b.b}),r.d(n,"v",function(){return b.c});var m=r(359);r.d(n,"w",function(){return m.a}),r.d(n,"x",function(){return m.b}),r.d(n,"y",function(){return m.c}),r.d(n,"z",function(){return m.d});var x=r(355);r.d(n,"A",function(){return x.a})},function(t,n,r){"use strict";function e(){function t(){var t=c().length,e=s[1]<s[0],u=s[e-0],o=s[1-e];n=(o-u)/Math.max(1,t-h+2*d),l&&(n=Math.floor(n)),u+=(o-u-n*(t-h))*p,i=n*(1-h),l&&(u=Math.round(u),i=Math.round(i));var v=r.i(a.v)(t).map(function(t){return u+n*t});return f(e?v.reverse():v)}var n,i,u=r.i(o.a)().unknown(void 0),c=u.domain,f=u.range,s=[0,1],l=!1,h=0,d=0,p=.5;return delete u.unknown,u.domain=function(n){return arguments.length?(c(n),t()):c()},u.range=function(n){return arguments.length?(s=[+n[0],+n[1]],t()):s.slice()},u.rangeRound=function(n){return s=[+n[0],+n[1]],l=!0,t()},u.bandwidth=function(){return i},u.step=function(){return n},u.round=function(n){return arguments.length?(l=!!n,t()):l},u.padding=function(n){return arguments.length?(h=d=Math.max(0,Math.min(1,n)),t()):h},u.paddingInner=function(n){return arguments.length?(h=Math.max(0,Math.min(1,n)),t()):h},u.paddingOuter=function(n){return arguments.length?(d=Math.max(0,Math.min(1,n)),t()):d},u.align=function(n){return arguments.length?(p=Math.max(0,Math.min(1,n)),t()):p},u.copy=function(){return e().domain(c()).range(s).round(l).paddingInner(h).paddingOuter(d).align(p)},t()}function i(t){var n=t.copy;return t.padding=t.paddingOuter,delete t.paddingInner,delete t.paddingOuter,t.copy=function(){return i(n())},t}function u(){return i(e().paddingInner(1))}var a=r(3),o=r(144);n.a=e,n.b=u},function(t,n,r){"use strict";var e=r(27);n.a=r.i(e.a)("1f77b4ff7f0e2ca02cd627289467bd8c564be377c27f7f7fbcbd2217becf")},function(t,n,r){"use strict";var e=r(27);n.a=r.i(e.a)("1f77b4aec7e8ff7f0effbb782ca02c98df8ad62728ff98969467bdc5b0d58c564bc49c94e377c2f7b6d27f7f7fc7c7c7bcbd22dbdb8d17becf9edae5")},function(t,n,r){"use strict";var e=r(27);n.a=r.i(e.a)("393b795254a36b6ecf9c9ede6379398ca252b5cf6bcedb9c8c6d31bd9e39e7ba52e7cb94843c39ad494ad6616be7969c7b4173a55194ce6dbdde9ed6")},function(t,n,r){"use strict";var e=r(27);n.a=r.i(e.a)("3182bd6baed69ecae1c6dbefe6550dfd8d3cfdae6bfdd0a231a35474c476a1d99bc7e9c0756bb19e9ac8bcbddcdadaeb636363969696bdbdbdd9d9d9")},function(t,n,r){"use strict";var e=r(7),i=r(4);n.a=r.i(i.v)(r.i(e.f)(300,.5,0),r.i(e.f)(-240,.5,1))},function(t,n,r){"use strict";function e(){function t(t){return+t}var n=[0,1];return t.invert=t,t.domain=t.range=function(r){return arguments.length?(n=i.a.call(r,a.a),t):n.slice()},t.copy=function(){return e().domain(n)},r.i(u.b)(t)}var i=r(15),u=r(28),a=r(143);n.a=e},function(t,n,r){"use strict";function e(t,n){return(n=Math.log(n/t))?function(r){return Math.log(r/t)/n}:r.i(h.a)(n)}function i(t,n){return t<0?function(r){return-Math.pow(-n,r)*Math.pow(-t,1-r)}:function(r){return Math.pow(n,r)*Math.pow(t,1-r)}}function u(t){return isFinite(t)?+("1e"+t):t<0?0:t}function a(t){return 10===t?u:t===Math.E?Math.exp:function(n){return Math.pow(t,n)}}function o(t){return t===Math.E?Math.log:10===t&&Math.log10||2===t&&Math.log2||(t=Math.log(t),function(n){return Math.log(n)/t})}function c(t){return function(n){return-t(-n)}}function f(){function t(){return v=o(h),g=a(h),u()[0]<0&&(v=c(v),g=c(g)),n}var n=r.i(p.a)(e,i).domain([1,10]),u=n.domain,h=10,v=o(10),g=a(10);return n.base=function(n){return arguments.length?(h=+n,t()):h},n.domain=function(n){return arguments.length?(u(n),t()):u()},n.ticks=function(t){var n,e=u(),i=e[0],a=e[e.length-1];(n=a<i)&&(l=i,i=a,a=l);var o,c,f,l=v(i),d=v(a),p=null==t?10:+t,y=[];if(!(h%1)&&d-l<p){if(l=Math.round(l)-1,d=Math.round(d)+1,i>0){for(;l<d;++l)for(c=1,o=g(l);c<h;++c)if(!((f=o*c)<i)){if(f>a)break;y.push(f)}}else for(;l<d;++l)for(c=h-1,o=g(l);c>=1;--c)if(!((f=o*c)<i)){if(f>a)break;y.push(f)}}else y=r.i(s.z)(l,d,Math.min(d-l,p)).map(g);return n?y.reverse():y},n.tickFormat=function(t,e){if(null==e&&(e=10===h?".0e":","),"function"!=typeof e&&(e=r.i(l.b)(e)),t===1/0)return e;null==t&&(t=10);var i=Math.max(1,h*t/n.ticks().length);return function(t){var n=t/g(Math.round(v(t)));return n*h<h-.5&&(n*=h),n<=i?e(t):""}},n.nice=function(){return u(r.i(d.a)(u(),{floor:function(t){return g(Math.floor(v(t)))},ceil:function(t){return g(Math.ceil(v(t)))}}))},n.copy=function(){return r.i(p.c)(n,f().base(h))},n}var s=r(3),l=r(58),h=r(73),d=r(142),p=r(41);n.a=f},function(t,n,r){"use strict";function e(t,n){return t<0?-Math.pow(-t,n):Math.pow(t,n)}function i(){function t(t,n){return(n=e(n,u)-(t=e(t,u)))?function(r){return(e(r,u)-t)/n}:r.i(a.a)(n)}function n(t,n){return n=e(n,u)-(t=e(t,u)),function(r){return e(t+n*r,1/u)}}var u=1,f=r.i(c.a)(t,n),s=f.domain;return f.exponent=function(t){return arguments.length?(u=+t,s(s())):u},f.copy=function(){return r.i(c.c)(f,i().exponent(u))},r.i(o.b)(f)}function u(){return i().exponent(.5)}var a=r(73),o=r(28),c=r(41);n.a=i,n.b=u},function(t,n,r){"use strict";function e(){function t(){var t=0,e=Math.max(1,o.length);for(c=new Array(e-1);++t<e;)c[t-1]=r.i(i.u)(a,t/e);return n}function n(t){if(!isNaN(t=+t))return o[r.i(i.a)(c,t)]}var a=[],o=[],c=[];return n.invertExtent=function(t){var n=o.indexOf(t);return n<0?[NaN,NaN]:[n>0?c[n-1]:a[0],n<c.length?c[n]:a[a.length-1]]},n.domain=function(n){if(!arguments.length)return a.slice();a=[];for(var r,e=0,u=n.length;e<u;++e)null==(r=n[e])||isNaN(r=+r)||a.push(r);return a.sort(i.d),t()},n.range=function(n){return arguments.length?(o=u.b.call(n),t()):o.slice()},n.quantiles=function(){return c.slice()},n.copy=function(){return e().domain(a).range(o)},n}var i=r(3),u=r(15);n.a=e},function(t,n,r){"use strict";function e(){function t(t){if(t<=t)return l[r.i(i.a)(s,t,0,f)]}function n(){var n=-1;for(s=new Array(f);++n<f;)s[n]=((n+1)*c-(n-f)*o)/(f+1);return t}var o=0,c=1,f=1,s=[.5],l=[0,1];return t.domain=function(t){return arguments.length?(o=+t[0],c=+t[1],n()):[o,c]},t.range=function(t){return arguments.length?(f=(l=u.b.call(t)).length-1,n()):l.slice()},t.invertExtent=function(t){var n=l.indexOf(t);return n<0?[NaN,NaN]:n<1?[o,s[0]]:n>=f?[s[f-1],c]:[s[n-1],s[n]]},t.copy=function(){return e().domain([o,c]).range(l)},r.i(a.b)(t)}var i=r(3),u=r(15),a=r(28);n.a=e},function(t,n,r){"use strict";var e=r(7),i=r(4);r.d(n,"b",function(){return u}),r.d(n,"c",function(){return a});var u=r.i(i.v)(r.i(e.f)(-100,.75,.35),r.i(e.f)(80,1.5,.8)),a=r.i(i.v)(r.i(e.f)(260,.75,.35),r.i(e.f)(80,1.5,.8)),o=r.i(e.f)();n.a=function(t){(t<0||t>1)&&(t-=Math.floor(t));var n=Math.abs(t-.5);return o.h=360*t-100,o.s=1.5-1.5*n,o.l=.8-.9*n,o+""}},function(t,n,r){"use strict";function e(t){function n(n){var r=(n-u)/(a-u);return t(o?Math.max(0,Math.min(1,r)):r)}var u=0,a=1,o=!1;return n.domain=function(t){return arguments.length?(u=+t[0],a=+t[1],n):[u,a]},n.clamp=function(t){return arguments.length?(o=!!t,n):o},n.interpolator=function(r){return arguments.length?(t=r,n):t},n.copy=function(){return e(t).domain([u,a]).clamp(o)},r.i(i.b)(n)}var i=r(28);n.a=e},function(t,n,r){"use strict";function e(){function t(t){if(t<=t)return a[r.i(i.a)(n,t,0,o)]}var n=[.5],a=[0,1],o=1;return t.domain=function(r){return arguments.length?(n=u.b.call(r),o=Math.min(n.length,a.length-1),t):n.slice()},t.range=function(r){return arguments.length?(a=u.b.call(r),o=Math.min(n.length,a.length-1),t):a.slice()},t.invertExtent=function(t){var r=a.indexOf(t);return[n[r-1],n[r]]},t.copy=function(){return e().domain(n).range(a)},t}var i=r(3),u=r(15);n.a=e},function(t,n,r){"use strict";var e=r(3),i=r(58);n.a=function(t,n,u){var a,o=t[0],c=t[t.length-1],f=r.i(e.B)(o,c,null==n?10:n);switch(u=r.i(i.e)(null==u?",f":u),u.type){case"s":var s=Math.max(Math.abs(o),Math.abs(c));return null!=u.precision||isNaN(a=r.i(i.g)(f,s))||(u.precision=a),r.i(i.c)(u,s);case"":case"e":case"g":case"p":case"r":null!=u.precision||isNaN(a=r.i(i.h)(f,Math.max(Math.abs(o),Math.abs(c))))||(u.precision=a-("e"===u.type));break;case"f":case"%":null!=u.precision||isNaN(a=r.i(i.f)(f))||(u.precision=a-2*("%"===u.type))}return r.i(i.b)(u)}},function(t,n,r){"use strict";var e=r(145),i=r(85),u=r(47);n.a=function(){return r.i(e.b)(u._7,u._5,u.P,u.N,u.L,u.J,u.h,u.d,i.d).domain([Date.UTC(2e3,0,1),Date.UTC(2e3,0,2)])}},function(t,n,r){"use strict";function e(t){var n=t.length;return function(r){return t[Math.max(0,Math.min(n-1,Math.floor(r*n)))]}}var i=r(27);r.d(n,"b",function(){return u}),r.d(n,"c",function(){return a}),r.d(n,"d",function(){return o}),n.a=e(r.i(i.a)("44015444025645045745055946075a46085c460a5d460b5e470d60470e6147106347116447136548146748166848176948186a481a6c481b6d481c6e481d6f481f70482071482173482374482475482576482677482878482979472a7a472c7a472d7b472e7c472f7d46307e46327e46337f463480453581453781453882443983443a83443b84433d84433e85423f854240864241864142874144874045884046883f47883f48893e49893e4a893e4c8a3d4d8a3d4e8a3c4f8a3c508b3b518b3b528b3a538b3a548c39558c39568c38588c38598c375a8c375b8d365c8d365d8d355e8d355f8d34608d34618d33628d33638d32648e32658e31668e31678e31688e30698e306a8e2f6b8e2f6c8e2e6d8e2e6e8e2e6f8e2d708e2d718e2c718e2c728e2c738e2b748e2b758e2a768e2a778e2a788e29798e297a8e297b8e287c8e287d8e277e8e277f8e27808e26818e26828e26828e25838e25848e25858e24868e24878e23888e23898e238a8d228b8d228c8d228d8d218e8d218f8d21908d21918c20928c20928c20938c1f948c1f958b1f968b1f978b1f988b1f998a1f9a8a1e9b8a1e9c891e9d891f9e891f9f881fa0881fa1881fa1871fa28720a38620a48621a58521a68522a78522a88423a98324aa8325ab8225ac8226ad8127ad8128ae8029af7f2ab07f2cb17e2db27d2eb37c2fb47c31b57b32b67a34b67935b77937b87838b9773aba763bbb753dbc743fbc7340bd7242be7144bf7046c06f48c16e4ac16d4cc26c4ec36b50c46a52c56954c56856c66758c7655ac8645cc8635ec96260ca6063cb5f65cb5e67cc5c69cd5b6ccd5a6ece5870cf5773d05675d05477d1537ad1517cd2507fd34e81d34d84d44b86d54989d5488bd6468ed64590d74393d74195d84098d83e9bd93c9dd93ba0da39a2da37a5db36a8db34aadc32addc30b0dd2fb2dd2db5de2bb8de29bade28bddf26c0df25c2df23c5e021c8e020cae11fcde11dd0e11cd2e21bd5e21ad8e219dae319dde318dfe318e2e418e5e419e7e419eae51aece51befe51cf1e51df4e61ef6e620f8e621fbe723fde725"));var u=e(r.i(i.a)("00000401000501010601010802010902020b02020d03030f03031204041405041606051806051a07061c08071e0907200a08220b09240c09260d0a290e0b2b100b2d110c2f120d31130d34140e36150e38160f3b180f3d19103f1a10421c10441d11471e114920114b21114e22115024125325125527125829115a2a115c2c115f2d11612f116331116533106734106936106b38106c390f6e3b0f703d0f713f0f72400f74420f75440f764510774710784910784a10794c117a4e117b4f127b51127c52137c54137d56147d57157e59157e5a167e5c167f5d177f5f187f601880621980641a80651a80671b80681c816a1c816b1d816d1d816e1e81701f81721f817320817521817621817822817922827b23827c23827e24828025828125818326818426818627818827818928818b29818c29818e2a81902a81912b81932b80942c80962c80982d80992d809b2e7f9c2e7f9e2f7fa02f7fa1307ea3307ea5317ea6317da8327daa337dab337cad347cae347bb0357bb2357bb3367ab5367ab73779b83779ba3878bc3978bd3977bf3a77c03a76c23b75c43c75c53c74c73d73c83e73ca3e72cc3f71cd4071cf4070d0416fd2426fd3436ed5446dd6456cd8456cd9466bdb476adc4869de4968df4a68e04c67e24d66e34e65e44f64e55064e75263e85362e95462ea5661eb5760ec5860ed5a5fee5b5eef5d5ef05f5ef1605df2625df2645cf3655cf4675cf4695cf56b5cf66c5cf66e5cf7705cf7725cf8745cf8765cf9785df9795df97b5dfa7d5efa7f5efa815ffb835ffb8560fb8761fc8961fc8a62fc8c63fc8e64fc9065fd9266fd9467fd9668fd9869fd9a6afd9b6bfe9d6cfe9f6dfea16efea36ffea571fea772fea973feaa74feac76feae77feb078feb27afeb47bfeb67cfeb77efeb97ffebb81febd82febf84fec185fec287fec488fec68afec88cfeca8dfecc8ffecd90fecf92fed194fed395fed597fed799fed89afdda9cfddc9efddea0fde0a1fde2a3fde3a5fde5a7fde7a9fde9aafdebacfcecaefceeb0fcf0b2fcf2b4fcf4b6fcf6b8fcf7b9fcf9bbfcfbbdfcfdbf")),a=e(r.i(i.a)("00000401000501010601010802010a02020c02020e03021004031204031405041706041907051b08051d09061f0a07220b07240c08260d08290e092b10092d110a30120a32140b34150b37160b39180c3c190c3e1b0c411c0c431e0c451f0c48210c4a230c4c240c4f260c51280b53290b552b0b572d0b592f0a5b310a5c320a5e340a5f3609613809623909633b09643d09653e0966400a67420a68440a68450a69470b6a490b6a4a0c6b4c0c6b4d0d6c4f0d6c510e6c520e6d540f6d550f6d57106e59106e5a116e5c126e5d126e5f136e61136e62146e64156e65156e67166e69166e6a176e6c186e6d186e6f196e71196e721a6e741a6e751b6e771c6d781c6d7a1d6d7c1d6d7d1e6d7f1e6c801f6c82206c84206b85216b87216b88226a8a226a8c23698d23698f24699025689225689326679526679727669827669a28659b29649d29649f2a63a02a63a22b62a32c61a52c60a62d60a82e5fa92e5eab2f5ead305dae305cb0315bb1325ab3325ab43359b63458b73557b93556ba3655bc3754bd3853bf3952c03a51c13a50c33b4fc43c4ec63d4dc73e4cc83f4bca404acb4149cc4248ce4347cf4446d04545d24644d34743d44842d54a41d74b3fd84c3ed94d3dda4e3cdb503bdd513ade5238df5337e05536e15635e25734e35933e45a31e55c30e65d2fe75e2ee8602de9612bea632aeb6429eb6628ec6726ed6925ee6a24ef6c23ef6e21f06f20f1711ff1731df2741cf3761bf37819f47918f57b17f57d15f67e14f68013f78212f78410f8850ff8870ef8890cf98b0bf98c0af98e09fa9008fa9207fa9407fb9606fb9706fb9906fb9b06fb9d07fc9f07fca108fca309fca50afca60cfca80dfcaa0ffcac11fcae12fcb014fcb216fcb418fbb61afbb81dfbba1ffbbc21fbbe23fac026fac228fac42afac62df9c72ff9c932f9cb35f8cd37f8cf3af7d13df7d340f6d543f6d746f5d949f5db4cf4dd4ff4df53f4e156f3e35af3e55df2e661f2e865f2ea69f1ec6df1ed71f1ef75f1f179f2f27df2f482f3f586f3f68af4f88ef5f992f6fa96f8fb9af9fc9dfafda1fcffa4")),o=e(r.i(i.a)("0d088710078813078916078a19068c1b068d1d068e20068f2206902406912605912805922a05932c05942e05952f059631059733059735049837049938049a3a049a3c049b3e049c3f049c41049d43039e44039e46039f48039f4903a04b03a14c02a14e02a25002a25102a35302a35502a45601a45801a45901a55b01a55c01a65e01a66001a66100a76300a76400a76600a76700a86900a86a00a86c00a86e00a86f00a87100a87201a87401a87501a87701a87801a87a02a87b02a87d03a87e03a88004a88104a78305a78405a78606a68707a68808a68a09a58b0aa58d0ba58e0ca48f0da4910ea3920fa39410a29511a19613a19814a099159f9a169f9c179e9d189d9e199da01a9ca11b9ba21d9aa31e9aa51f99a62098a72197a82296aa2395ab2494ac2694ad2793ae2892b02991b12a90b22b8fb32c8eb42e8db52f8cb6308bb7318ab83289ba3388bb3488bc3587bd3786be3885bf3984c03a83c13b82c23c81c33d80c43e7fc5407ec6417dc7427cc8437bc9447aca457acb4679cc4778cc4977cd4a76ce4b75cf4c74d04d73d14e72d24f71d35171d45270d5536fd5546ed6556dd7566cd8576bd9586ada5a6ada5b69db5c68dc5d67dd5e66de5f65de6164df6263e06363e16462e26561e26660e3685fe4695ee56a5de56b5de66c5ce76e5be76f5ae87059e97158e97257ea7457eb7556eb7655ec7754ed7953ed7a52ee7b51ef7c51ef7e50f07f4ff0804ef1814df1834cf2844bf3854bf3874af48849f48948f58b47f58c46f68d45f68f44f79044f79143f79342f89441f89540f9973ff9983ef99a3efa9b3dfa9c3cfa9e3bfb9f3afba139fba238fca338fca537fca636fca835fca934fdab33fdac33fdae32fdaf31fdb130fdb22ffdb42ffdb52efeb72dfeb82cfeba2cfebb2bfebd2afebe2afec029fdc229fdc328fdc527fdc627fdc827fdca26fdcb26fccd25fcce25fcd025fcd225fbd324fbd524fbd724fad824fada24f9dc24f9dd25f8df25f8e125f7e225f7e425f6e626f6e826f5e926f5eb27f4ed27f3ee27f3f027f2f227f1f426f1f525f0f724f0f921"))},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(){return new i}function i(){this._="@"+(++u).toString(36)}n.a=e;var u=0;i.prototype=e.prototype={constructor:i,get:function(t){for(var n=this._;!(n in t);)if(!(t=t.parentNode))return;return t[n]},set:function(t,n){return t[this._]=n},remove:function(t){return this._ in t&&delete t[this._]},toString:function(){return this._}}},function(t,n,r){"use strict";var e=r(79),i=r(42);n.a=function(t){var n=r.i(e.a)();return n.changedTouches&&(n=n.changedTouches[0]),r.i(i.a)(t,n)}},function(t,n,r){"use strict";var e=r(5);n.a=function(t){return"string"==typeof t?new e.b([[document.querySelector(t)]],[document.documentElement]):new e.b([[t]],e.c)}},function(t,n,r){"use strict";var e=r(5);n.a=function(t){return"string"==typeof t?new e.b([document.querySelectorAll(t)],[document.documentElement]):new e.b([null==t?[]:t],e.c)}},function(t,n,r){"use strict";var e=r(74);n.a=function(t){var n="function"==typeof t?t:r.i(e.a)(t);return this.select(function(){return this.appendChild(n.apply(this,arguments))})}},function(t,n,r){"use strict";function e(t){return function(){this.removeAttribute(t)}}function i(t){return function(){this.removeAttributeNS(t.space,t.local)}}function u(t,n){return function(){this.setAttribute(t,n)}}function a(t,n){return function(){this.setAttributeNS(t.space,t.local,n)}}function o(t,n){return function(){var r=n.apply(this,arguments);null==r?this.removeAttribute(t):this.setAttribute(t,r)}}function c(t,n){return function(){var r=n.apply(this,arguments);null==r?this.removeAttributeNS(t.space,t.local):this.setAttributeNS(t.space,t.local,r)}}var f=r(75);n.a=function(t,n){var s=r.i(f.a)(t);if(arguments.length<2){var l=this.node();return s.local?l.getAttributeNS(s.space,s.local):l.getAttribute(s)}return this.each((null==n?s.local?i:e:"function"==typeof n?s.local?c:o:s.local?a:u)(s,n))}},function(t,n,r){"use strict";n.a=function(){var t=arguments[0];return arguments[0]=this,t.apply(null,arguments),this}},function(t,n,r){"use strict";function e(t){return t.trim().split(/^|\s+/)}function i(t){return t.classList||new u(t)}function u(t){this._node=t,this._names=e(t.getAttribute("class")||"")}function a(t,n){for(var r=i(t),e=-1,u=n.length;++e<u;)r.add(n[e])}function o(t,n){for(var r=i(t),e=-1,u=n.length;++e<u;)r.remove(n[e])}function c(t){return function(){a(this,t)}}function f(t){return function(){o(this,t)}}function s(t,n){return function(){(n.apply(this,arguments)?a:o)(this,t)}}u.prototype={add:function(t){this._names.indexOf(t)<0&&(this._names.push(t),this._node.setAttribute("class",this._names.join(" ")))},remove:function(t){var n=this._names.indexOf(t);n>=0&&(this._names.splice(n,1),this._node.setAttribute("class",this._names.join(" ")))},contains:function(t){return this._names.indexOf(t)>=0}},n.a=function(t,n){var r=e(t+"");if(arguments.length<2){for(var u=i(this.node()),a=-1,o=r.length;++a<o;)if(!u.contains(r[a]))return!1;return!0}return this.each(("function"==typeof n?s:n?c:f)(r,n))}},function(t,n,r){"use strict";function e(t,n,r,e,i,u){for(var o,c=0,f=n.length,s=u.length;c<s;++c)(o=n[c])?(o.__data__=u[c],e[c]=o):r[c]=new a.b(t,u[c]);for(;c<f;++c)(o=n[c])&&(i[c]=o)}function i(t,n,r,e,i,u,o){var f,s,l,h={},d=n.length,p=u.length,v=new Array(d);for(f=0;f<d;++f)(s=n[f])&&(v[f]=l=c+o.call(s,s.__data__,f,n),l in h?i[f]=s:h[l]=s);for(f=0;f<p;++f)l=c+o.call(t,u[f],f,u),(s=h[l])?(e[f]=s,s.__data__=u[f],h[l]=null):r[f]=new a.b(t,u[f]);for(f=0;f<d;++f)(s=n[f])&&h[v[f]]===s&&(i[f]=s)}var u=r(5),a=r(147),o=r(360),c="$";n.a=function(t,n){if(!t)return _=new Array(this.size()),p=-1,this.each(function(t){_[++p]=t}),_;var a=n?i:e,c=this._parents,f=this._groups;"function"!=typeof t&&(t=r.i(o.a)(t));for(var s=f.length,l=new Array(s),h=new Array(s),d=new Array(s),p=0;p<s;++p){var v=c[p],g=f[p],y=g.length,_=t.call(v,v&&v.__data__,p,c),b=_.length,m=h[p]=new Array(b),x=l[p]=new Array(b);a(v,g,m,x,d[p]=new Array(y),_,n);for(var w,M,k=0,T=0;k<b;++k)if(w=m[k]){for(k>=T&&(T=k+1);!(M=x[T])&&++T<b;);w._next=M||null}}return l=new u.b(l,c),l._enter=h,l._exit=d,l}},function(t,n,r){"use strict";n.a=function(t){return arguments.length?this.property("__data__",t):this.node().__data__}},function(t,n,r){"use strict";function e(t,n,e){var i=r.i(a.a)(t),u=i.CustomEvent;"function"==typeof u?u=new u(n,e):(u=i.document.createEvent("Event"),e?(u.initEvent(n,e.bubbles,e.cancelable),u.detail=e.detail):u.initEvent(n,!1,!1)),t.dispatchEvent(u)}function i(t,n){return function(){return e(this,t,n)}}function u(t,n){return function(){return e(this,t,n.apply(this,arguments))}}var a=r(80);n.a=function(t,n){return this.each(("function"==typeof n?u:i)(t,n))}},function(t,n,r){"use strict";n.a=function(t){for(var n=this._groups,r=0,e=n.length;r<e;++r)for(var i,u=n[r],a=0,o=u.length;a<o;++a)(i=u[a])&&t.call(i,i.__data__,a,u);return this}},function(t,n,r){"use strict";n.a=function(){return!this.node()}},function(t,n,r){"use strict";var e=r(148),i=r(5);n.a=function(){return new i.b(this._exit||this._groups.map(e.a),this._parents)}},function(t,n,r){"use strict";var e=r(5),i=r(146);n.a=function(t){"function"!=typeof t&&(t=r.i(i.a)(t));for(var n=this._groups,u=n.length,a=new Array(u),o=0;o<u;++o)for(var c,f=n[o],s=f.length,l=a[o]=[],h=0;h<s;++h)(c=f[h])&&t.call(c,c.__data__,h,f)&&l.push(c);return new e.b(a,this._parents)}},function(t,n,r){"use strict";function e(){this.innerHTML=""}function i(t){return function(){this.innerHTML=t}}function u(t){return function(){var n=t.apply(this,arguments);this.innerHTML=null==n?"":n}}n.a=function(t){return arguments.length?this.each(null==t?e:("function"==typeof t?u:i)(t)):this.node().innerHTML}},function(t,n,r){"use strict";function e(){return null}var i=r(74),u=r(78);n.a=function(t,n){var a="function"==typeof t?t:r.i(i.a)(t),o=null==n?e:"function"==typeof n?n:r.i(u.a)(n);return this.select(function(){return this.insertBefore(a.apply(this,arguments),o.apply(this,arguments)||null)})}},function(t,n,r){"use strict";function e(){this.previousSibling&&this.parentNode.insertBefore(this,this.parentNode.firstChild)}n.a=function(){return this.each(e)}},function(t,n,r){"use strict";var e=r(5);n.a=function(t){for(var n=this._groups,r=t._groups,i=n.length,u=r.length,a=Math.min(i,u),o=new Array(i),c=0;c<a;++c)for(var f,s=n[c],l=r[c],h=s.length,d=o[c]=new Array(h),p=0;p<h;++p)(f=s[p]||l[p])&&(d[p]=f);for(;c<i;++c)o[c]=n[c];return new e.b(o,this._parents)}},function(t,n,r){"use strict";n.a=function(){for(var t=this._groups,n=0,r=t.length;n<r;++n)for(var e=t[n],i=0,u=e.length;i<u;++i){var a=e[i];if(a)return a}return null}},function(t,n,r){"use strict";n.a=function(){var t=new Array(this.size()),n=-1;return this.each(function(){t[++n]=this}),t}},function(t,n,r){"use strict";n.a=function(){for(var t=this._groups,n=-1,r=t.length;++n<r;)for(var e,i=t[n],u=i.length-1,a=i[u];--u>=0;)(e=i[u])&&(a&&a!==e.nextSibling&&a.parentNode.insertBefore(e,a),a=e);return this}},function(t,n,r){"use strict";function e(t){return function(){delete this[t]}}function i(t,n){return function(){this[t]=n}}function u(t,n){return function(){var r=n.apply(this,arguments);null==r?delete this[t]:this[t]=r}}n.a=function(t,n){return arguments.length>1?this.each((null==n?e:"function"==typeof n?u:i)(t,n)):this.node()[t]}},function(t,n,r){"use strict";function e(){this.nextSibling&&this.parentNode.appendChild(this)}n.a=function(){return this.each(e)}},function(t,n,r){"use strict";function e(){var t=this.parentNode;t&&t.removeChild(this)}n.a=function(){return this.each(e)}},function(t,n,r){"use strict";var e=r(5),i=r(78);n.a=function(t){"function"!=typeof t&&(t=r.i(i.a)(t));for(var n=this._groups,u=n.length,a=new Array(u),o=0;o<u;++o)for(var c,f,s=n[o],l=s.length,h=a[o]=new Array(l),d=0;d<l;++d)(c=s[d])&&(f=t.call(c,c.__data__,d,s))&&("__data__"in c&&(f.__data__=c.__data__),h[d]=f);return new e.b(a,this._parents)}},function(t,n,r){"use strict";var e=r(5),i=r(150);n.a=function(t){"function"!=typeof t&&(t=r.i(i.a)(t));for(var n=this._groups,u=n.length,a=[],o=[],c=0;c<u;++c)for(var f,s=n[c],l=s.length,h=0;h<l;++h)(f=s[h])&&(a.push(t.call(f,f.__data__,h,s)),o.push(f));return new e.b(a,o)}},function(t,n,r){"use strict";n.a=function(){var t=0;return this.each(function(){++t}),t}},function(t,n,r){"use strict";function e(t,n){return t<n?-1:t>n?1:t>=n?0:NaN}var i=r(5);n.a=function(t){function n(n,r){return n&&r?t(n.__data__,r.__data__):!n-!r}t||(t=e);for(var r=this._groups,u=r.length,a=new Array(u),o=0;o<u;++o){for(var c,f=r[o],s=f.length,l=a[o]=new Array(s),h=0;h<s;++h)(c=f[h])&&(l[h]=c);l.sort(n)}return new i.b(a,this._parents).order()}},function(t,n,r){"use strict";function e(){this.textContent=""}function i(t){return function(){this.textContent=t}}function u(t){return function(){var n=t.apply(this,arguments);this.textContent=null==n?"":n}}n.a=function(t){return arguments.length?this.each(null==t?e:("function"==typeof t?u:i)(t)):this.node().textContent}},function(t,n,r){"use strict";var e=r(79),i=r(42);n.a=function(t,n,u){arguments.length<3&&(u=n,n=r.i(e.a)().changedTouches);for(var a,o=0,c=n?n.length:0;o<c;++o)if((a=n[o]).identifier===u)return r.i(i.a)(t,a);return null}},function(t,n,r){"use strict";var e=r(79),i=r(42);n.a=function(t,n){null==n&&(n=r.i(e.a)().touches);for(var u=0,a=n?n.length:0,o=new Array(a);u<a;++u)o[u]=r.i(i.a)(t,n[u]);return o}},function(t,n,r){"use strict";var e=r(394);r.d(n,"a",function(){return e.a});var i=r(151);r.d(n,"b",function(){return i.a});var u=r(82);r.d(n,"c",function(){return u.a});var a=r(415);r.d(n,"d",function(){return a.a});var o=r(395);r.d(n,"e",function(){return o.a}),r.d(n,"f",function(){return o.a});var c=r(156);r.d(n,"g",function(){return c.a}),r.d(n,"h",function(){return c.a});var f=r(157);r.d(n,"i",function(){return f.a});var s=r(407);r.d(n,"j",function(){return s.a}),r.d(n,"k",function(){return s.b}),r.d(n,"l",function(){return s.c});var l=r(417);r.d(n,"m",function(){return l.a}),r.d(n,"n",function(){return l.b});var h=r(158);r.d(n,"o",function(){return h.a});var d=r(159);r.d(n,"p",function(){return d.a});var p=r(160);r.d(n,"q",function(){return p.a});var v=r(161);r.d(n,"r",function(){return v.a});var g=r(162);r.d(n,"s",function(){return g.a});var y=r(163);r.d(n,"t",function(){return y.a});var _=r(164);r.d(n,"u",function(){return _.a});var b=r(396);r.d(n,"v",function(){return b.a});var m=r(397);r.d(n,"w",function(){return m.a});var x=r(43);r.d(n,"x",function(){return x.a});var w=r(398);r.d(n,"y",function(){return w.a});var M=r(153);r.d(n,"z",function(){return M.a});var k=r(154);r.d(n,"A",function(){return k.a});var T=r(44);r.d(n,"B",function(){return T.a});var A=r(399);r.d(n,"C",function(){return A.a});var S=r(400);r.d(n,"D",function(){return S.a});var E=r(81);r.d(n,"E",function(){return E.a});var N=r(401);r.d(n,"F",function(){return N.a});var C=r(45);r.d(n,"G",function(){return C.a});var q=r(402);r.d(n,"H",function(){return q.a}),r.d(n,"I",function(){return q.b});var z=r(403);r.d(n,"J",function(){return z.a});var P=r(404);r.d(n,"K",function(){return P.a}),r.d(n,"L",function(){return P.b}),r.d(n,"M",function(){return P.c});var D=r(416);r.d(n,"N",function(){return D.a});var R=r(409);r.d(n,"O",function(){return R.a});var L=r(408);r.d(n,"P",function(){return L.a});var U=r(30);r.d(n,"Q",function(){return U.a});var O=r(410);r.d(n,"R",function(){return O.a});var j=r(411);r.d(n,"S",function(){return j.a});var F=r(83);r.d(n,"T",function(){return F.a});var I=r(412);r.d(n,"U",function(){return I.a});var Y=r(413);r.d(n,"V",function(){return Y.a});var B=r(31);r.d(n,"W",function(){return B.a});var H=r(414);r.d(n,"X",function(){return H.a})},function(t,n,r){"use strict";function e(t){return t.innerRadius}function i(t){return t.outerRadius}function u(t){return t.startAngle}function a(t){return t.endAngle}function o(t){return t&&t.padAngle}function c(t,n,r,e,i,u,a,o){var c=r-t,f=e-n,s=a-i,l=o-u,h=(s*(n-u)-l*(t-i))/(l*c-s*f);return[t+h*c,n+h*f]}function f(t,n,e,i,u,a,o){var c=t-e,f=n-i,s=(o?a:-a)/r.i(h.d)(c*c+f*f),l=s*f,d=-s*c,p=t+l,v=n+d,g=e+l,y=i+d,_=(p+g)/2,b=(v+y)/2,m=g-p,x=y-v,w=m*m+x*x,M=u-a,k=p*y-g*v,T=(x<0?-1:1)*r.i(h.d)(r.i(h.e)(0,M*M*w-k*k)),A=(k*x-m*T)/w,S=(-k*m-x*T)/w,E=(k*x+m*T)/w,N=(-k*m+x*T)/w,C=A-_,q=S-b,z=E-_,P=N-b;return C*C+q*q>z*z+P*P&&(A=E,S=N),{cx:A,cy:S,x01:-l,y01:-d,x11:A*(u/M-1),y11:S*(u/M-1)}}var s=r(14),l=r(16),h=r(29);n.a=function(){function t(){var t,e,i=+n.apply(this,arguments),u=+d.apply(this,arguments),a=g.apply(this,arguments)-h.f,o=y.apply(this,arguments)-h.f,l=r.i(h.g)(o-a),m=o>a;if(b||(b=t=r.i(s.a)()),u<i&&(e=u,u=i,i=e),u>h.a)if(l>h.c-h.a)b.moveTo(u*r.i(h.h)(a),u*r.i(h.i)(a)),b.arc(0,0,u,a,o,!m),i>h.a&&(b.moveTo(i*r.i(h.h)(o),i*r.i(h.i)(o)),b.arc(0,0,i,o,a,m));else{var x,w,M=a,k=o,T=a,A=o,S=l,E=l,N=_.apply(this,arguments)/2,C=N>h.a&&(v?+v.apply(this,arguments):r.i(h.d)(i*i+u*u)),q=r.i(h.j)(r.i(h.g)(u-i)/2,+p.apply(this,arguments)),z=q,P=q;if(C>h.a){var D=r.i(h.k)(C/i*r.i(h.i)(N)),R=r.i(h.k)(C/u*r.i(h.i)(N));(S-=2*D)>h.a?(D*=m?1:-1,T+=D,A-=D):(S=0,T=A=(a+o)/2),(E-=2*R)>h.a?(R*=m?1:-1,M+=R,k-=R):(E=0,M=k=(a+o)/2)}var L=u*r.i(h.h)(M),U=u*r.i(h.i)(M),O=i*r.i(h.h)(A),j=i*r.i(h.i)(A);if(q>h.a){var F=u*r.i(h.h)(k),I=u*r.i(h.i)(k),Y=i*r.i(h.h)(T),B=i*r.i(h.i)(T);if(l<h.b){var H=S>h.a?c(L,U,Y,B,F,I,O,j):[O,j],X=L-H[0],G=U-H[1],V=F-H[0],W=I-H[1],Z=1/r.i(h.i)(r.i(h.l)((X*V+G*W)/(r.i(h.d)(X*X+G*G)*r.i(h.d)(V*V+W*W)))/2),Q=r.i(h.d)(H[0]*H[0]+H[1]*H[1]);z=r.i(h.j)(q,(i-Q)/(Z-1)),P=r.i(h.j)(q,(u-Q)/(Z+1))}}E>h.a?P>h.a?(x=f(Y,B,L,U,u,P,m),w=f(F,I,O,j,u,P,m),b.moveTo(x.cx+x.x01,x.cy+x.y01),P<q?b.arc(x.cx,x.cy,P,r.i(h.m)(x.y01,x.x01),r.i(h.m)(w.y01,w.x01),!m):(b.arc(x.cx,x.cy,P,r.i(h.m)(x.y01,x.x01),r.i(h.m)(x.y11,x.x11),!m),b.arc(0,0,u,r.i(h.m)(x.cy+x.y11,x.cx+x.x11),r.i(h.m)(w.cy+w.y11,w.cx+w.x11),!m),b.arc(w.cx,w.cy,P,r.i(h.m)(w.y11,w.x11),r.i(h.m)(w.y01,w.x01),!m))):(b.moveTo(L,U),b.arc(0,0,u,M,k,!m)):b.moveTo(L,U),i>h.a&&S>h.a?z>h.a?(x=f(O,j,F,I,i,-z,m),w=f(L,U,Y,B,i,-z,m),b.lineTo(x.cx+x.x01,x.cy+x.y01),z<q?b.arc(x.cx,x.cy,z,r.i(h.m)(x.y01,x.x01),r.i(h.m)(w.y01,w.x01),!m):(b.arc(x.cx,x.cy,z,r.i(h.m)(x.y01,x.x01),r.i(h.m)(x.y11,x.x11),!m),b.arc(0,0,i,r.i(h.m)(x.cy+x.y11,x.cx+x.x11),r.i(h.m)(w.cy+w.y11,w.cx+w.x11),m),b.arc(w.cx,w.cy,z,r.i(h.m)(w.y11,w.x11),r.i(h.m)(w.y01,w.x01),!m))):b.arc(0,0,i,A,T,m):b.lineTo(O,j)}else b.moveTo(0,0);if(b.closePath(),t)return b=null,t+""||null}var n=e,d=i,p=r.i(l.a)(0),v=null,g=u,y=a,_=o,b=null;return t.centroid=function(){var t=(+n.apply(this,arguments)+ +d.apply(this,arguments))/2,e=(+g.apply(this,arguments)+ +y.apply(this,arguments))/2-h.b/2;return[r.i(h.h)(e)*t,r.i(h.i)(e)*t]},t.innerRadius=function(e){return arguments.length?(n="function"==typeof e?e:r.i(l.a)(+e),t):n},t.outerRadius=function(n){return arguments.length?(d="function"==typeof n?n:r.i(l.a)(+n),t):d},t.cornerRadius=function(n){return arguments.length?(p="function"==typeof n?n:r.i(l.a)(+n),t):p},t.padRadius=function(n){return arguments.length?(v=null==n?null:"function"==typeof n?n:r.i(l.a)(+n),t):v},t.startAngle=function(n){return arguments.length?(g="function"==typeof n?n:r.i(l.a)(+n),t):g},t.endAngle=function(n){return arguments.length?(y="function"==typeof n?n:r.i(l.a)(+n),t):y},t.padAngle=function(n){return arguments.length?(_="function"==typeof n?n:r.i(l.a)(+n),t):_},t.context=function(n){return arguments.length?(b=null==n?null:n,t):b},t}},function(t,n,r){"use strict";var e=r(155),i=r(151),u=r(156);n.a=function(){var t=r.i(i.a)().curve(e.b),n=t.curve,a=t.lineX0,o=t.lineX1,c=t.lineY0,f=t.lineY1;return t.angle=t.x,delete t.x,t.startAngle=t.x0,delete t.x0,t.endAngle=t.x1,delete t.x1,t.radius=t.y,delete t.y,t.innerRadius=t.y0,delete t.y0,t.outerRadius=t.y1,delete t.y1,t.lineStartAngle=function(){return r.i(u.b)(a())},delete t.lineX0,t.lineEndAngle=function(){return r.i(u.b)(o())},delete t.lineX1,t.lineInnerRadius=function(){return r.i(u.b)(c())},delete t.lineY0,t.lineOuterRadius=function(){return r.i(u.b)(f())},delete t.lineY1,t.curve=function(t){return arguments.length?n(r.i(e.a)(t)):n()._curve},t}},function(t,n,r){"use strict";function e(t){this._context=t}var i=r(46),u=r(43);e.prototype={areaStart:i.a,areaEnd:i.a,lineStart:function(){this._x0=this._x1=this._x2=this._x3=this._x4=this._y0=this._y1=this._y2=this._y3=this._y4=NaN,this._point=0},lineEnd:function(){switch(this._point){case 1:this._context.moveTo(this._x2,this._y2),this._context.closePath();break;case 2:this._context.moveTo((this._x2+2*this._x3)/3,(this._y2+2*this._y3)/3),this._context.lineTo((this._x3+2*this._x2)/3,(this._y3+2*this._y2)/3),this._context.closePath();break;case 3:this.point(this._x2,this._y2),this.point(this._x3,this._y3),this.point(this._x4,this._y4)}},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1,this._x2=t,this._y2=n;break;case 1:this._point=2,this._x3=t,this._y3=n;break;case 2:this._point=3,this._x4=t,this._y4=n,this._context.moveTo((this._x0+4*this._x1+t)/6,(this._y0+4*this._y1+n)/6);break;default:r.i(u.c)(this,t,n)}this._x0=this._x1,this._x1=t,this._y0=this._y1,this._y1=n}},n.a=function(t){return new e(t)}},function(t,n,r){"use strict";function e(t){this._context=t}var i=r(43);e.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._y0=this._y1=NaN,this._point=0},lineEnd:function(){(this._line||0!==this._line&&3===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1;break;case 1:this._point=2;break;case 2:this._point=3;var e=(this._x0+4*this._x1+t)/6,u=(this._y0+4*this._y1+n)/6;this._line?this._context.lineTo(e,u):this._context.moveTo(e,u);break;case 3:this._point=4;default:r.i(i.c)(this,t,n)}this._x0=this._x1,this._x1=t,this._y0=this._y1,this._y1=n}},n.a=function(t){return new e(t)}},function(t,n,r){"use strict";function e(t,n){this._basis=new i.b(t),this._beta=n}var i=r(43);e.prototype={lineStart:function(){this._x=[],this._y=[],this._basis.lineStart()},lineEnd:function(){var t=this._x,n=this._y,r=t.length-1;if(r>0)for(var e,i=t[0],u=n[0],a=t[r]-i,o=n[r]-u,c=-1;++c<=r;)e=c/r,this._basis.point(this._beta*t[c]+(1-this._beta)*(i+e*a),this._beta*n[c]+(1-this._beta)*(u+e*o));this._x=this._y=null,this._basis.lineEnd()},point:function(t,n){this._x.push(+t),this._y.push(+n)}},n.a=function t(n){function r(t){return 1===n?new i.b(t):new e(t,n)}return r.beta=function(n){return t(+n)},r}(.85)},function(t,n,r){"use strict";function e(t,n){this._context=t,this._alpha=n}var i=r(153),u=r(46),a=r(81);e.prototype={areaStart:u.a,areaEnd:u.a,lineStart:function(){this._x0=this._x1=this._x2=this._x3=this._x4=this._x5=this._y0=this._y1=this._y2=this._y3=this._y4=this._y5=NaN,this._l01_a=this._l12_a=this._l23_a=this._l01_2a=this._l12_2a=this._l23_2a=this._point=0},lineEnd:function(){switch(this._point){case 1:this._context.moveTo(this._x3,this._y3),this._context.closePath();break;case 2:this._context.lineTo(this._x3,this._y3),this._context.closePath();break;case 3:this.point(this._x3,this._y3),this.point(this._x4,this._y4),this.point(this._x5,this._y5)}},point:function(t,n){if(t=+t,n=+n,this._point){var e=this._x2-t,i=this._y2-n;this._l23_a=Math.sqrt(this._l23_2a=Math.pow(e*e+i*i,this._alpha))}switch(this._point){case 0:this._point=1,this._x3=t,this._y3=n;break;case 1:this._point=2,this._context.moveTo(this._x4=t,this._y4=n);break;case 2:this._point=3,this._x5=t,this._y5=n;break;default:r.i(a.b)(this,t,n)}this._l01_a=this._l12_a,this._l12_a=this._l23_a,this._l01_2a=this._l12_2a,this._l12_2a=this._l23_2a,this._x0=this._x1,this._x1=this._x2,this._x2=t,this._y0=this._y1,this._y1=this._y2,this._y2=n}},n.a=function t(n){function r(t){return n?new e(t,n):new i.b(t,0)}return r.alpha=function(n){return t(+n)},r}(.5)},function(t,n,r){"use strict";function e(t,n){this._context=t,this._alpha=n}var i=r(154),u=r(81);e.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._x2=this._y0=this._y1=this._y2=NaN,this._l01_a=this._l12_a=this._l23_a=this._l01_2a=this._l12_2a=this._l23_2a=this._point=0},lineEnd:function(){(this._line||0!==this._line&&3===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){if(t=+t,n=+n,this._point){var e=this._x2-t,i=this._y2-n;this._l23_a=Math.sqrt(this._l23_2a=Math.pow(e*e+i*i,this._alpha))}switch(this._point){case 0:this._point=1;break;case 1:this._point=2;break;case 2:this._point=3,this._line?this._context.lineTo(this._x2,this._y2):this._context.moveTo(this._x2,this._y2);break;case 3:this._point=4;default:r.i(u.b)(this,t,n)}this._l01_a=this._l12_a,this._l12_a=this._l23_a,this._l01_2a=this._l12_2a,this._l12_2a=this._l23_2a,this._x0=this._x1,this._x1=this._x2,this._x2=t,this._y0=this._y1,this._y1=this._y2,this._y2=n}},n.a=function t(n){function r(t){return n?new e(t,n):new i.b(t,0)}return r.alpha=function(n){return t(+n)},r}(.5)},function(t,n,r){"use strict";function e(t){this._context=t}var i=r(46);e.prototype={areaStart:i.a,areaEnd:i.a,lineStart:function(){this._point=0},lineEnd:function(){this._point&&this._context.closePath()},point:function(t,n){t=+t,n=+n,this._point?this._context.lineTo(t,n):(this._point=1,this._context.moveTo(t,n))}},n.a=function(t){return new e(t)}},function(t,n,r){"use strict";function e(t){return t<0?-1:1}function i(t,n,r){var i=t._x1-t._x0,u=n-t._x1,a=(t._y1-t._y0)/(i||u<0&&-0),o=(r-t._y1)/(u||i<0&&-0),c=(a*u+o*i)/(i+u);return(e(a)+e(o))*Math.min(Math.abs(a),Math.abs(o),.5*Math.abs(c))||0}function u(t,n){var r=t._x1-t._x0;return r?(3*(t._y1-t._y0)/r-n)/2:n}function a(t,n,r){var e=t._x0,i=t._y0,u=t._x1,a=t._y1,o=(u-e)/3;t._context.bezierCurveTo(e+o,i+o*n,u-o,a-o*r,u,a)}function o(t){this._context=t}function c(t){this._context=new f(t)}function f(t){this._context=t}function s(t){return new o(t)}function l(t){return new c(t)}n.a=s,n.b=l,o.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x0=this._x1=this._y0=this._y1=this._t0=NaN,this._point=0},lineEnd:function(){switch(this._point){case 2:this._context.lineTo(this._x1,this._y1);break;case 3:a(this,this._t0,u(this,this._t0))}(this._line||0!==this._line&&1===this._point)&&this._context.closePath(),this._line=1-this._line},point:function(t,n){var r=NaN;if(t=+t,n=+n,t!==this._x1||n!==this._y1){switch(this._point){case 0:this._point=1,this._line?this._context.lineTo(t,n):this._context.moveTo(t,n);break;case 1:this._point=2;break;case 2:this._point=3,a(this,u(this,r=i(this,t,n)),r);break;default:a(this,this._t0,r=i(this,t,n))}this._x0=this._x1,this._x1=t,this._y0=this._y1,this._y1=n,this._t0=r}}},(c.prototype=Object.create(o.prototype)).point=function(t,n){o.prototype.point.call(this,n,t)},f.prototype={moveTo:function(t,n){this._context.moveTo(n,t)},closePath:function(){this._context.closePath()},lineTo:function(t,n){this._context.lineTo(n,t)},bezierCurveTo:function(t,n,r,e,i,u){this._context.bezierCurveTo(n,t,e,r,u,i)}}},function(t,n,r){"use strict";function e(t){this._context=t}function i(t){var n,r,e=t.length-1,i=new Array(e),u=new Array(e),a=new Array(e);for(i[0]=0,u[0]=2,a[0]=t[0]+2*t[1],n=1;n<e-1;++n)i[n]=1,u[n]=4,a[n]=4*t[n]+2*t[n+1];for(i[e-1]=2,u[e-1]=7,a[e-1]=8*t[e-1]+t[e],n=1;n<e;++n)r=i[n]/u[n-1],u[n]-=r,a[n]-=r*a[n-1];for(i[e-1]=a[e-1]/u[e-1],n=e-2;n>=0;--n)i[n]=(a[n]-i[n+1])/u[n];for(u[e-1]=(t[e]+i[e-1])/2,n=0;n<e-1;++n)u[n]=2*t[n+1]-i[n+1];return[i,u]}e.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x=[],this._y=[]},lineEnd:function(){var t=this._x,n=this._y,r=t.length;if(r)if(this._line?this._context.lineTo(t[0],n[0]):this._context.moveTo(t[0],n[0]),2===r)this._context.lineTo(t[1],n[1]);else for(var e=i(t),u=i(n),a=0,o=1;o<r;++a,++o)this._context.bezierCurveTo(e[0][a],u[0][a],e[1][a],u[1][a],t[o],n[o]);(this._line||0!==this._line&&1===r)&&this._context.closePath(),this._line=1-this._line,this._x=this._y=null},point:function(t,n){this._x.push(+t),this._y.push(+n)}},n.a=function(t){return new e(t)}},function(t,n,r){"use strict";function e(t,n){this._context=t,this._t=n}function i(t){return new e(t,0)}function u(t){return new e(t,1)}n.c=i,n.b=u,e.prototype={areaStart:function(){this._line=0},areaEnd:function(){this._line=NaN},lineStart:function(){this._x=this._y=NaN,this._point=0},lineEnd:function(){0<this._t&&this._t<1&&2===this._point&&this._context.lineTo(this._x,this._y),(this._line||0!==this._line&&1===this._point)&&this._context.closePath(),this._line>=0&&(this._t=1-this._t,this._line=1-this._line)},point:function(t,n){switch(t=+t,n=+n,this._point){case 0:this._point=1,this._line?this._context.lineTo(t,n):this._context.moveTo(t,n);break;case 1:this._point=2;default:if(this._t<=0)this._context.lineTo(this._x,n),this._context.lineTo(t,n);else{var r=this._x*(1-this._t)+t*this._t;this._context.lineTo(r,this._y),this._context.lineTo(r,n)}}this._x=t,this._y=n}},n.a=function(t){return new e(t,.5)}},function(t,n,r){"use strict";n.a=function(t,n){return n<t?-1:n>t?1:n>=t?0:NaN}},function(t,n,r){"use strict";n.a=function(t){return t}},function(t,n,r){"use strict";function e(t){return t.source}function i(t){return t.target}function u(t){function n(){var n,e=d.a.call(arguments),i=u.apply(this,e),s=a.apply(this,e);if(f||(f=n=r.i(h.a)()),t(f,+o.apply(this,(e[0]=i,e)),+c.apply(this,e),+o.apply(this,(e[0]=s,e)),+c.apply(this,e)),n)return f=null,n+""||null}var u=e,a=i,o=v.a,c=v.b,f=null;return n.source=function(t){return arguments.length?(u=t,n):u},n.target=function(t){return arguments.length?(a=t,n):a},n.x=function(t){return arguments.length?(o="function"==typeof t?t:r.i(p.a)(+t),n):o},n.y=function(t){return arguments.length?(c="function"==typeof t?t:r.i(p.a)(+t),n):c},n.context=function(t){return arguments.length?(f=null==t?null:t,n):f},n}function a(t,n,r,e,i){t.moveTo(n,r),t.bezierCurveTo(n=(n+e)/2,r,n,i,e,i)}function o(t,n,r,e,i){t.moveTo(n,r),t.bezierCurveTo(n,r=(r+i)/2,e,r,e,i)}function c(t,n,e,i,u){var a=r.i(g.a)(n,e),o=r.i(g.a)(n,e=(e+u)/2),c=r.i(g.a)(i,e),f=r.i(g.a)(i,u);t.moveTo(a[0],a[1]),t.bezierCurveTo(o[0],o[1],c[0],c[1],f[0],f[1])}function f(){return u(a)}function s(){return u(o)}function l(){var t=u(c);return t.angle=t.x,delete t.x,t.radius=t.y,delete t.y,t}var h=r(14),d=r(152),p=r(16),v=r(84),g=r(157);n.a=f,n.b=s,n.c=l},function(t,n,r){"use strict";n.a=function(t,n){if((o=t.length)>1)for(var r,e,i,u,a,o,c=0,f=t[n[0]].length;c<f;++c)for(u=a=0,r=0;r<o;++r)(i=(e=t[n[r]][c])[1]-e[0])>=0?(e[0]=u,e[1]=u+=i):i<0?(e[1]=a,e[0]=a+=i):e[0]=u}},function(t,n,r){"use strict";var e=r(30);n.a=function(t,n){if((u=t.length)>0){for(var i,u,a,o=0,c=t[0].length;o<c;++o){for(a=i=0;i<u;++i)a+=t[i][o][1]||0;if(a)for(i=0;i<u;++i)t[i][o][1]/=a}r.i(e.a)(t,n)}}},function(t,n,r){"use strict";var e=r(30);n.a=function(t,n){if((i=t.length)>0){for(var i,u=0,a=t[n[0]],o=a.length;u<o;++u){for(var c=0,f=0;c<i;++c)f+=t[c][u][1]||0;a[u][1]+=a[u][0]=-f/2}r.i(e.a)(t,n)}}},function(t,n,r){"use strict";var e=r(30);n.a=function(t,n){if((a=t.length)>0&&(u=(i=t[n[0]]).length)>0){for(var i,u,a,o=0,c=1;c<u;++c){for(var f=0,s=0,l=0;f<a;++f){for(var h=t[n[f]],d=h[c][1]||0,p=h[c-1][1]||0,v=(d-p)/2,g=0;g<f;++g){var y=t[n[g]];v+=(y[c][1]||0)-(y[c-1][1]||0)}s+=d,l+=v*d}i[c-1][1]+=i[c-1][0]=o,s&&(o-=l/s)}i[c-1][1]+=i[c-1][0]=o,r.i(e.a)(t,n)}}},function(t,n,r){"use strict";var e=r(83);n.a=function(t){return r.i(e.a)(t).reverse()}},function(t,n,r){"use strict";var e=r(31),i=r(83);n.a=function(t){var n,u,a=t.length,o=t.map(i.b),c=r.i(e.a)(t).sort(function(t,n){return o[n]-o[t]}),f=0,s=0,l=[],h=[];for(n=0;n<a;++n)u=c[n],f<s?(f+=o[u],l.push(u)):(s+=o[u],h.push(u));return h.reverse().concat(l)}},function(t,n,r){"use strict";var e=r(31);n.a=function(t){return r.i(e.a)(t).reverse()}},function(t,n,r){"use strict";var e=r(16),i=r(405),u=r(406),a=r(29);n.a=function(){function t(t){var r,e,i,u,h,d=t.length,p=0,v=new Array(d),g=new Array(d),y=+f.apply(this,arguments),_=Math.min(a.c,Math.max(-a.c,s.apply(this,arguments)-y)),b=Math.min(Math.abs(_)/d,l.apply(this,arguments)),m=b*(_<0?-1:1);for(r=0;r<d;++r)(h=g[v[r]=r]=+n(t[r],r,t))>0&&(p+=h);for(null!=o?v.sort(function(t,n){return o(g[t],g[n])}):null!=c&&v.sort(function(n,r){return c(t[n],t[r])}),r=0,i=p?(_-d*m)/p:0;r<d;++r,y=u)e=v[r],h=g[e],u=y+(h>0?h*i:0)+m,g[e]={data:t[e],index:r,value:h,startAngle:y,endAngle:u,padAngle:b};return g}var n=u.a,o=i.a,c=null,f=r.i(e.a)(0),s=r.i(e.a)(a.c),l=r.i(e.a)(0);return t.value=function(i){return arguments.length?(n="function"==typeof i?i:r.i(e.a)(+i),t):n},t.sortValues=function(n){return arguments.length?(o=n,c=null,t):o},t.sort=function(n){return arguments.length?(c=n,o=null,t):c},t.startAngle=function(n){return arguments.length?(f="function"==typeof n?n:r.i(e.a)(+n),t):f},t.endAngle=function(n){return arguments.length?(s="function"==typeof n?n:r.i(e.a)(+n),t):s},t.padAngle=function(n){return arguments.length?(l="function"==typeof n?n:r.i(e.a)(+n),t):l},t}},function(t,n,r){"use strict";function e(t,n){return t[n]}var i=r(152),u=r(16),a=r(30),o=r(31);n.a=function(){function t(t){var r,e,i=n.apply(this,arguments),u=t.length,a=i.length,o=new Array(a);for(r=0;r<a;++r){for(var l,h=i[r],d=o[r]=new Array(u),p=0;p<u;++p)d[p]=l=[0,+s(t[p],h,p,t)],l.data=t[p];d.key=h}for(r=0,e=c(o);r<a;++r)o[e[r]].index=r;return f(o,e),o}var n=r.i(u.a)([]),c=o.a,f=a.a,s=e;return t.keys=function(e){return arguments.length?(n="function"==typeof e?e:r.i(u.a)(i.a.call(e)),t):n},t.value=function(n){return arguments.length?(s="function"==typeof n?n:r.i(u.a)(+n),t):s},t.order=function(n){return arguments.length?(c=null==n?o.a:"function"==typeof n?n:r.i(u.a)(i.a.call(n)),t):c},t.offset=function(n){return arguments.length?(f=null==n?a.a:n,t):f},t}},function(t,n,r){"use strict";var e=r(14),i=r(158),u=r(159),a=r(160),o=r(162),c=r(161),f=r(163),s=r(164),l=r(16);r.d(n,"b",function(){return h});var h=[i.a,u.a,a.a,c.a,o.a,f.a,s.a];n.a=function(){function t(){var t;if(a||(a=t=r.i(e.a)()),n.apply(this,arguments).draw(a,+u.apply(this,arguments)),t)return a=null,t+""||null}var n=r.i(l.a)(i.a),u=r.i(l.a)(64),a=null;return t.type=function(e){return arguments.length?(n="function"==typeof e?e:r.i(l.a)(e),t):n},t.size=function(n){return arguments.length?(u="function"==typeof n?n:r.i(l.a)(+n),t):u},t.context=function(n){return arguments.length?(a=null==n?null:n,t):a},t}},function(t,n,r){"use strict";function e(t){var n=new Date(t);return isNaN(n)?null:n}var i=r(165),u=r(86),a=+new Date("2000-01-01T00:00:00.000Z")?e:r.i(u.e)(i.b);n.a=a},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){t.setHours(0,0,0,0)},function(t,n){t.setDate(t.getDate()+n)},function(t,n){return(n-t-(n.getTimezoneOffset()-t.getTimezoneOffset())*i.d)/i.b},function(t){return t.getDate()-1});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){var n=t.getTimezoneOffset()*i.d%i.c;n<0&&(n+=i.c),t.setTime(Math.floor((+t-n)/i.c)*i.c+n)},function(t,n){t.setTime(+t+n*i.c)},function(t,n){return(n-t)/i.c},function(t){return t.getHours()});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2);r.d(n,"b",function(){return u});var i=r.i(e.a)(function(){},function(t,n){t.setTime(+t+n)},function(t,n){return n-t});i.every=function(t){return t=Math.floor(t),isFinite(t)&&t>0?t>1?r.i(e.a)(function(n){n.setTime(Math.floor(n/t)*t)},function(n,r){n.setTime(+n+r*t)},function(n,r){return(r-n)/t}):i:null},n.a=i;var u=i.range},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){t.setTime(Math.floor(t/i.d)*i.d)},function(t,n){t.setTime(+t+n*i.d)},function(t,n){return(n-t)/i.d},function(t){return t.getMinutes()});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2);r.d(n,"b",function(){return u});var i=r.i(e.a)(function(t){t.setDate(1),t.setHours(0,0,0,0)},function(t,n){t.setMonth(t.getMonth()+n)},function(t,n){return n.getMonth()-t.getMonth()+12*(n.getFullYear()-t.getFullYear())},function(t){return t.getMonth()});n.a=i;var u=i.range},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){t.setTime(Math.floor(t/i.e)*i.e)},function(t,n){t.setTime(+t+n*i.e)},function(t,n){return(n-t)/i.e},function(t){return t.getUTCSeconds()});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){t.setUTCHours(0,0,0,0)},function(t,n){t.setUTCDate(t.getUTCDate()+n)},function(t,n){return(n-t)/i.b},function(t){return t.getUTCDate()-1});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){t.setUTCMinutes(0,0,0)},function(t,n){t.setTime(+t+n*i.c)},function(t,n){return(n-t)/i.c},function(t){return t.getUTCHours()});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2),i=r(9);r.d(n,"b",function(){return a});var u=r.i(e.a)(function(t){t.setUTCSeconds(0,0)},function(t,n){t.setTime(+t+n*i.d)},function(t,n){return(n-t)/i.d},function(t){return t.getUTCMinutes()});n.a=u;var a=u.range},function(t,n,r){"use strict";var e=r(2);r.d(n,"b",function(){return u});var i=r.i(e.a)(function(t){t.setUTCDate(1),t.setUTCHours(0,0,0,0)},function(t,n){t.setUTCMonth(t.getUTCMonth()+n)},function(t,n){return n.getUTCMonth()-t.getUTCMonth()+12*(n.getUTCFullYear()-t.getUTCFullYear())},function(t){return t.getUTCMonth()});n.a=i;var u=i.range},function(t,n,r){"use strict";function e(t){return r.i(i.a)(function(n){n.setUTCDate(n.getUTCDate()-(n.getUTCDay()+7-t)%7),n.setUTCHours(0,0,0,0)},function(t,n){t.setUTCDate(t.getUTCDate()+7*n)},function(t,n){return(n-t)/u.a})}var i=r(2),u=r(9);r.d(n,"a",function(){return a}),r.d(n,"c",function(){return o}),r.d(n,"e",function(){return c}),r.d(n,"g",function(){return f}),r.d(n,"i",function(){return s}),r.d(n,"k",function(){return l}),r.d(n,"m",function(){return h}),r.d(n,"b",function(){return d}),r.d(n,"d",function(){return p}),r.d(n,"f",function(){return v}),r.d(n,"h",function(){return g}),r.d(n,"j",function(){return y}),r.d(n,"l",function(){return _}),r.d(n,"n",function(){return b});var a=e(0),o=e(1),c=e(2),f=e(3),s=e(4),l=e(5),h=e(6),d=a.range,p=o.range,v=c.range,g=f.range,y=s.range,_=l.range,b=h.range},function(t,n,r){"use strict";var e=r(2);r.d(n,"b",function(){return u});var i=r.i(e.a)(function(t){t.setUTCMonth(0,1),t.setUTCHours(0,0,0,0)},function(t,n){t.setUTCFullYear(t.getUTCFullYear()+n)},function(t,n){return n.getUTCFullYear()-t.getUTCFullYear()},function(t){return t.getUTCFullYear()});i.every=function(t){return isFinite(t=Math.floor(t))&&t>0?r.i(e.a)(function(n){n.setUTCFullYear(Math.floor(n.getUTCFullYear()/t)*t),n.setUTCMonth(0,1),n.setUTCHours(0,0,0,0)},function(n,r){n.setUTCFullYear(n.getUTCFullYear()+r*t)}):null},n.a=i;var u=i.range},function(t,n,r){"use strict";function e(t){return r.i(i.a)(function(n){n.setDate(n.getDate()-(n.getDay()+7-t)%7),n.setHours(0,0,0,0)},function(t,n){t.setDate(t.getDate()+7*n)},function(t,n){return(n-t-(n.getTimezoneOffset()-t.getTimezoneOffset())*u.d)/u.a})}var i=r(2),u=r(9);r.d(n,"a",function(){return a}),r.d(n,"c",function(){return o}),r.d(n,"e",function(){return c}),r.d(n,"g",function(){return f}),r.d(n,"i",function(){return s}),r.d(n,"k",function(){return l}),r.d(n,"m",function(){return h}),r.d(n,"b",function(){return d}),r.d(n,"d",function(){return p}),r.d(n,"f",function(){return v}),r.d(n,"h",function(){return g}),r.d(n,"j",function(){return y}),r.d(n,"l",function(){return _}),r.d(n,"n",function(){return b});var a=e(0),o=e(1),c=e(2),f=e(3),s=e(4),l=e(5),h=e(6),d=a.range,p=o.range,v=c.range,g=f.range,y=s.range,_=l.range,b=h.range},function(t,n,r){"use strict";var e=r(2);r.d(n,"b",function(){return u});var i=r.i(e.a)(function(t){t.setMonth(0,1),t.setHours(0,0,0,0)},function(t,n){t.setFullYear(t.getFullYear()+n)},function(t,n){return n.getFullYear()-t.getFullYear()},function(t){return t.getFullYear()});i.every=function(t){return isFinite(t=Math.floor(t))&&t>0?r.i(e.a)(function(n){n.setFullYear(Math.floor(n.getFullYear()/t)*t),n.setMonth(0,1),n.setHours(0,0,0,0)},function(n,r){n.setFullYear(n.getFullYear()+r*t)}):null},n.a=i;var u=i.range},function(t,n,r){"use strict";var e=r(87);n.a=function(t,n,i){var u=new e.d,a=n;return null==n?(u.restart(t,n,i),u):(n=+n,i=null==i?r.i(e.a)():+i,u.restart(function r(e){e+=a,u.restart(r,a+=n,i),t(e)},n,i),u)}},function(t,n,r){"use strict";var e=r(87);n.a=function(t,n,r){var i=new e.d;return n=null==n?0:+n,i.restart(function(r){i.stop(),t(r+n)},n,r),i}},function(t,n,r){"use strict";var e=r(11),i=r(6),u=[null];n.a=function(t,n){var r,a,o=t.__transition;if(o){n=null==n?null:n+"";for(a in o)if((r=o[a]).state>i.d&&r.name===n)return new e.b([[t]],u,n,+a)}return null}},function(t,n,r){"use strict";var e=r(1),i=r(437),u=r(438);e.j.prototype.interrupt=i.a,e.j.prototype.transition=u.a},function(t,n,r){"use strict";var e=r(167);n.a=function(t){return this.each(function(){r.i(e.a)(this,t)})}},function(t,n,r){"use strict";function e(t,n){for(var e;!(e=t.__transition)||!(e=e[n]);)if(!(t=t.parentNode))return c.time=r.i(o.a)(),c;return e}var i=r(11),u=r(6),a=r(107),o=r(48),c={time:null,delay:0,duration:250,ease:a.i};n.a=function(t){var n,a;t instanceof i.b?(n=t._id,t=t._name):(n=r.i(i.c)(),(a=c).time=r.i(o.a)(),t=null==t?null:t+"");for(var f=this._groups,s=f.length,l=0;l<s;++l)for(var h,d=f[l],p=d.length,v=0;v<p;++v)(h=d[v])&&r.i(u.h)(h,t,n,v,d,a||e(h,n));return new i.b(f,this._parents,t,n)}},function(t,n,r){"use strict";function e(t){return function(){this.removeAttribute(t)}}function i(t){return function(){this.removeAttributeNS(t.space,t.local)}}function u(t,n,r){var e,i;return function(){var u=this.getAttribute(t);return u===r?null:u===e?i:i=n(e=u,r)}}function a(t,n,r){var e,i;return function(){var u=this.getAttributeNS(t.space,t.local);return u===r?null:u===e?i:i=n(e=u,r)}}function o(t,n,r){var e,i,u;return function(){var a,o=r(this);return null==o?void this.removeAttribute(t):(a=this.getAttribute(t),a===o?null:a===e&&o===i?u:u=n(e=a,i=o))}}function c(t,n,r){var e,i,u;return function(){var a,o=r(this);return null==o?void this.removeAttributeNS(t.space,t.local):(a=this.getAttributeNS(t.space,t.local),a===o?null:a===e&&o===i?u:u=n(e=a,i=o))}}var f=r(4),s=r(1),l=r(49),h=r(168);n.a=function(t,n){var d=r.i(s.e)(t),p="transform"===d?f.k:h.a;return this.attrTween(t,"function"==typeof n?(d.local?c:o)(d,p,r.i(l.b)(this,"attr."+t,n)):null==n?(d.local?i:e)(d):(d.local?a:u)(d,p,n+""))}},function(t,n,r){"use strict";function e(t,n){function r(){var r=this,e=n.apply(r,arguments);return e&&function(n){r.setAttributeNS(t.space,t.local,e(n))}}return r._value=n,r}function i(t,n){function r(){var r=this,e=n.apply(r,arguments);return e&&function(n){r.setAttribute(t,e(n))}}return r._value=n,r}var u=r(1);n.a=function(t,n){var a="attr."+t;if(arguments.length<2)return(a=this.tween(a))&&a._value;if(null==n)return this.tween(a,null);if("function"!=typeof n)throw new Error;var o=r.i(u.e)(t);return this.tween(a,(o.local?e:i)(o,n))}},function(t,n,r){"use strict";function e(t,n){return function(){r.i(u.g)(this,t).delay=+n.apply(this,arguments)}}function i(t,n){return n=+n,function(){r.i(u.g)(this,t).delay=n}}var u=r(6);n.a=function(t){var n=this._id;return arguments.length?this.each(("function"==typeof t?e:i)(n,t)):r.i(u.f)(this.node(),n).delay}},function(t,n,r){"use strict";function e(t,n){return function(){r.i(u.e)(this,t).duration=+n.apply(this,arguments)}}function i(t,n){return n=+n,function(){r.i(u.e)(this,t).duration=n}}var u=r(6);n.a=function(t){var n=this._id;return arguments.length?this.each(("function"==typeof t?e:i)(n,t)):r.i(u.f)(this.node(),n).duration}},function(t,n,r){"use strict";function e(t,n){if("function"!=typeof n)throw new Error;return function(){r.i(i.e)(this,t).ease=n}}var i=r(6);n.a=function(t){var n=this._id;return arguments.length?this.each(e(n,t)):r.i(i.f)(this.node(),n).ease}},function(t,n,r){"use strict";var e=r(1),i=r(11);n.a=function(t){"function"!=typeof t&&(t=r.i(e.c)(t));for(var n=this._groups,u=n.length,a=new Array(u),o=0;o<u;++o)for(var c,f=n[o],s=f.length,l=a[o]=[],h=0;h<s;++h)(c=f[h])&&t.call(c,c.__data__,h,f)&&l.push(c);return new i.b(a,this._parents,this._name,this._id)}},function(t,n,r){"use strict";var e=r(11);n.a=function(t){if(t._id!==this._id)throw new Error;for(var n=this._groups,r=t._groups,i=n.length,u=r.length,a=Math.min(i,u),o=new Array(i),c=0;c<a;++c)for(var f,s=n[c],l=r[c],h=s.length,d=o[c]=new Array(h),p=0;p<h;++p)(f=s[p]||l[p])&&(d[p]=f);for(;c<i;++c)o[c]=n[c];return new e.b(o,this._parents,this._name,this._id)}},function(t,n,r){"use strict";function e(t){return(t+"").trim().split(/^|\s+/).every(function(t){var n=t.indexOf(".");return n>=0&&(t=t.slice(0,n)),!t||"start"===t})}function i(t,n,r){var i,a,o=e(n)?u.g:u.e;return function(){var e=o(this,t),u=e.on;u!==i&&(a=(i=u).copy()).on(n,r),e.on=a}}var u=r(6);n.a=function(t,n){var e=this._id;return arguments.length<2?r.i(u.f)(this.node(),e).on.on(t):this.each(i(e,t,n))}},function(t,n,r){"use strict";function e(t){return function(){var n=this.parentNode;for(var r in this.__transition)if(+r!==t)return;n&&n.removeChild(this)}}n.a=function(){return this.on("end.remove",e(this._id))}},function(t,n,r){"use strict";var e=r(1),i=r(11),u=r(6);n.a=function(t){var n=this._name,a=this._id;"function"!=typeof t&&(t=r.i(e.k)(t));for(var o=this._groups,c=o.length,f=new Array(c),s=0;s<c;++s)for(var l,h,d=o[s],p=d.length,v=f[s]=new Array(p),g=0;g<p;++g)(l=d[g])&&(h=t.call(l,l.__data__,g,d))&&("__data__"in l&&(h.__data__=l.__data__),v[g]=h,r.i(u.h)(v[g],n,a,g,v,r.i(u.f)(l,a)));return new i.b(f,this._parents,n,a)}},function(t,n,r){"use strict";var e=r(1),i=r(11),u=r(6);n.a=function(t){var n=this._name,a=this._id;"function"!=typeof t&&(t=r.i(e.l)(t));for(var o=this._groups,c=o.length,f=[],s=[],l=0;l<c;++l)for(var h,d=o[l],p=d.length,v=0;v<p;++v)if(h=d[v]){for(var g,y=t.call(h,h.__data__,v,d),_=r.i(u.f)(h,a),b=0,m=y.length;b<m;++b)(g=y[b])&&r.i(u.h)(g,n,a,b,y,_);f.push(y),s.push(h)}return new i.b(f,s,n,a)}},function(t,n,r){"use strict";var e=r(1),i=e.j.prototype.constructor;n.a=function(){return new i(this._groups,this._parents)}},function(t,n,r){"use strict";function e(t,n){var e,i,u;return function(){var a=r.i(c.m)(this,t),o=(this.style.removeProperty(t),r.i(c.m)(this,t));return a===o?null:a===e&&o===i?u:u=n(e=a,i=o)}}function i(t){return function(){this.style.removeProperty(t)}}function u(t,n,e){var i,u;return function(){var a=r.i(c.m)(this,t);return a===e?null:a===i?u:u=n(i=a,e)}}function a(t,n,e){var i,u,a;return function(){var o=r.i(c.m)(this,t),f=e(this);return null==f&&(this.style.removeProperty(t),f=r.i(c.m)(this,t)),o===f?null:o===i&&f===u?a:a=n(i=o,u=f)}}var o=r(4),c=r(1),f=r(49),s=r(168);n.a=function(t,n,c){var l="transform"==(t+="")?o.j:s.a;return null==n?this.styleTween(t,e(t,l)).on("end.style."+t,i(t)):this.styleTween(t,"function"==typeof n?a(t,l,r.i(f.b)(this,"style."+t,n)):u(t,l,n+""),c)}},function(t,n,r){"use strict";function e(t,n,r){function e(){var e=this,i=n.apply(e,arguments);return i&&function(n){e.style.setProperty(t,i(n),r)}}return e._value=n,e}n.a=function(t,n,r){var i="style."+(t+="");if(arguments.length<2)return(i=this.tween(i))&&i._value;if(null==n)return this.tween(i,null);if("function"!=typeof n)throw new Error;return this.tween(i,e(t,n,null==r?"":r))}},function(t,n,r){"use strict";function e(t){return function(){this.textContent=t}}function i(t){return function(){var n=t(this);this.textContent=null==n?"":n}}var u=r(49);n.a=function(t){return this.tween("text","function"==typeof t?i(r.i(u.b)(this,"text",t)):e(null==t?"":t+""))}},function(t,n,r){"use strict";var e=r(11),i=r(6);n.a=function(){for(var t=this._name,n=this._id,u=r.i(e.c)(),a=this._groups,o=a.length,c=0;c<o;++c)for(var f,s=a[c],l=s.length,h=0;h<l;++h)if(f=s[h]){var d=r.i(i.f)(f,n);r.i(i.h)(f,t,u,h,s,{time:d.time+d.delay+d.duration,delay:0,duration:d.duration,ease:d.ease})}return new e.b(a,this._parents,t,u)}},function(t,n,r){"use strict";var e=r(459);r.d(n,"a",function(){return e.a})},function(t,n,r){"use strict";function e(){r.i(s.b)(this),this.edge=this.site=this.circle=null}function i(t){var n=v.pop()||new e;return n.site=t,n}function u(t){r.i(h.b)(t),p.e.remove(t),v.push(t),r.i(s.b)(t)}function a(t){var n=t.circle,e=n.x,i=n.cy,a=[e,i],o=t.P,c=t.N,f=[t];u(t);for(var s=o;s.circle&&Math.abs(e-s.circle.x)<p.b&&Math.abs(i-s.circle.cy)<p.b;)o=s.P,f.unshift(s),u(s),s=o;f.unshift(s),r.i(h.b)(s);for(var l=c;l.circle&&Math.abs(e-l.circle.x)<p.b&&Math.abs(i-l.circle.cy)<p.b;)c=l.N,f.push(l),u(l),l=c;f.push(l),r.i(h.b)(l);var v,g=f.length;for(v=1;v<g;++v)l=f[v],s=f[v-1],r.i(d.c)(l.edge,s.site,l.site,a);s=f[0],l=f[g-1],l.edge=r.i(d.d)(s.site,l.site,null,a),r.i(h.c)(s),r.i(h.c)(l)}function o(t){for(var n,e,u,a,o=t[0],s=t[1],v=p.e._;v;)if((u=c(v,s)-o)>p.b)v=v.L;else{if(!((a=o-f(v,s))>p.b)){u>-p.b?(n=v.P,e=v):a>-p.b?(n=v,e=v.N):n=e=v;break}if(!v.R){n=v;break}v=v.R}r.i(l.d)(t);var g=i(t);if(p.e.insert(n,g),n||e){if(n===e)return r.i(h.b)(n),e=i(n.site),p.e.insert(g,e),g.edge=e.edge=r.i(d.d)(n.site,g.site),r.i(h.c)(n),void r.i(h.c)(e);if(!e)return void(g.edge=r.i(d.d)(n.site,g.site));r.i(h.b)(n),r.i(h.b)(e);var y=n.site,_=y[0],b=y[1],m=t[0]-_,x=t[1]-b,w=e.site,M=w[0]-_,k=w[1]-b,T=2*(m*k-x*M),A=m*m+x*x,S=M*M+k*k,E=[(k*A-x*S)/T+_,(m*S-M*A)/T+b];r.i(d.c)(e.edge,y,w,E),g.edge=r.i(d.d)(y,t,null,E),e.edge=r.i(d.d)(t,w,null,E),r.i(h.c)(n),r.i(h.c)(e)}}function c(t,n){var r=t.site,e=r[0],i=r[1],u=i-n;if(!u)return e;var a=t.P;if(!a)return-1/0;r=a.site;var o=r[0],c=r[1],f=c-n;if(!f)return o;var s=o-e,l=1/u-1/f,h=s/f;return l?(-h+Math.sqrt(h*h-2*l*(s*s/(-2*f)-c+f/2+i-u/2)))/l+e:(e+o)/2}function f(t,n){var r=t.N;if(r)return c(r,n);var e=t.site;return e[1]===n?e[0]:1/0}var s=r(90),l=r(169),h=r(170),d=r(89),p=r(32);n.b=a,n.a=o;var v=[]},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(t){return t[0]}function i(t){return t[1]}n.a=e,n.b=i},function(t,n,r){"use strict";var e=r(457),i=r(458),u=r(32);n.a=function(){function t(t){return new u.a(t.map(function(r,e){var i=[Math.round(n(r,e,t)/u.b)*u.b,Math.round(a(r,e,t)/u.b)*u.b];return i.index=e,i.data=r,i}),o)}var n=i.a,a=i.b,o=null;return t.polygons=function(n){return t(n).polygons()},t.links=function(n){return t(n).links()},t.triangles=function(n){return t(n).triangles()},t.x=function(i){return arguments.length?(n="function"==typeof i?i:r.i(e.a)(+i),t):n},t.y=function(n){return arguments.length?(a="function"==typeof n?n:r.i(e.a)(+n),t):a},t.extent=function(n){return arguments.length?(o=null==n?null:[[+n[0][0],+n[0][1]],[+n[1][0],+n[1][1]]],t):o&&[[o[0][0],o[0][1]],[o[1][0],o[1][1]]]},t.size=function(n){return arguments.length?(o=null==n?null:[[0,0],[+n[0],+n[1]]],t):o&&[o[1][0]-o[0][0],o[1][1]-o[0][1]]},t}},function(t,n,r){"use strict";var e=r(464);r.d(n,"a",function(){return e.a});var i=r(171);r.d(n,"b",function(){return i.a}),r.d(n,"c",function(){return i.b})},function(t,n,r){"use strict";n.a=function(t){return function(){return t}}},function(t,n,r){"use strict";function e(t,n,r){this.target=t,this.type=n,this.transform=r}n.a=e},function(t,n,r){"use strict";function e(){i.q.stopImmediatePropagation()}var i=r(1);n.b=e,n.a=function(){i.q.preventDefault(),i.q.stopImmediatePropagation()}},function(t,n,r){"use strict";function e(){return!h.q.button}function i(){var t,n,r=this;return r instanceof SVGElement?(r=r.ownerSVGElement||r,t=r.width.baseVal.value,n=r.height.baseVal.value):(t=r.clientWidth,n=r.clientHeight),[[0,0],[t,n]]}function u(){return this.__zoom||g.b}function a(){return-h.q.deltaY*(h.q.deltaMode?120:1)/500}function o(){return"ontouchstart"in this}function c(t,n,r){var e=t.invertX(n[0][0])-r[0][0],i=t.invertX(n[1][0])-r[1][0],u=t.invertY(n[0][1])-r[0][1],a=t.invertY(n[1][1])-r[1][1];return t.translate(i>e?(e+i)/2:Math.min(0,e)||Math.max(0,i),a>u?(u+a)/2:Math.min(0,u)||Math.max(0,a))}var f=r(12),s=r(54),l=r(4),h=r(1),d=r(88),p=r(461),v=r(462),g=r(171),y=r(463);n.a=function(){function t(t){t.property("__zoom",u).on("wheel.zoom",M).on("mousedown.zoom",k).on("dblclick.zoom",T).filter(R).on("touchstart.zoom",A).on("touchmove.zoom",S).on("touchend.zoom touchcancel.zoom",E).style("touch-action","none").style("-webkit-tap-highlight-color","rgba(0,0,0,0)")}function n(t,n){return n=Math.max(L[0],Math.min(L[1],n)),n===t.k?t:new g.c(n,t.x,t.y)}function _(t,n,r){var e=n[0]-r[0]*t.k,i=n[1]-r[1]*t.k;return e===t.x&&i===t.y?t:new g.c(t.k,e,i)}function b(t){return[(+t[0][0]+ +t[1][0])/2,(+t[0][1]+ +t[1][1])/2]}function m(t,n,r){t.on("start.zoom",function(){x(this,arguments).start()}).on("interrupt.zoom end.zoom",function(){x(this,arguments).end()}).tween("zoom",function(){var t=this,e=arguments,i=x(t,e),u=z.apply(t,e),a=r||b(u),o=Math.max(u[1][0]-u[0][0],u[1][1]-u[0][1]),c=t.__zoom,f="function"==typeof n?n.apply(t,e):n,s=j(c.invert(a).concat(o/c.k),f.invert(a).concat(o/f.k));return function(t){if(1===t)t=f;else{var n=s(t),r=o/n[2];t=new g.c(r,a[0]-n[0]*r,a[1]-n[1]*r)}i.zoom(null,t)}})}function x(t,n){for(var r,e=0,i=F.length;e<i;++e)if((r=F[e]).that===t)return r;return new w(t,n)}function w(t,n){this.that=t,this.args=n,this.index=-1,this.active=0,this.extent=z.apply(t,n)}function M(){function t(){e.wheel=null,e.end()}if(q.apply(this,arguments)){var e=x(this,arguments),i=this.__zoom,u=Math.max(L[0],Math.min(L[1],i.k*Math.pow(2,D.apply(this,arguments)))),a=r.i(h.d)(this);if(e.wheel)e.mouse[0][0]===a[0]&&e.mouse[0][1]===a[1]||(e.mouse[1]=i.invert(e.mouse[0]=a)),clearTimeout(e.wheel);else{if(i.k===u)return;e.mouse=[a,i.invert(a)],r.i(d.c)(this),e.start()}r.i(y.a)(),e.wheel=setTimeout(t,B),e.zoom("mouse",P(_(n(i,u),e.mouse[0],e.mouse[1]),e.extent,U))}}function k(){function t(){if(r.i(y.a)(),!e.moved){var t=h.q.clientX-a,n=h.q.clientY-o;e.moved=t*t+n*n>H}e.zoom("mouse",P(_(e.that.__zoom,e.mouse[0]=r.i(h.d)(e.that),e.mouse[1]),e.extent,U))}function n(){i.on("mousemove.zoom mouseup.zoom",null),r.i(s.c)(h.q.view,e.moved),r.i(y.a)(),e.end()}if(!C&&q.apply(this,arguments)){var e=x(this,arguments),i=r.i(h.h)(h.q.view).on("mousemove.zoom",t,!0).on("mouseup.zoom",n,!0),u=r.i(h.d)(this),a=h.q.clientX,o=h.q.clientY;r.i(s.b)(h.q.view),r.i(y.b)(),e.mouse=[u,this.__zoom.invert(u)],r.i(d.c)(this),e.start()}}function T(){if(q.apply(this,arguments)){var e=this.__zoom,i=r.i(h.d)(this),u=e.invert(i),a=e.k*(h.q.shiftKey?.5:2),o=P(_(n(e,a),i,u),z.apply(this,arguments),U);r.i(y.a)(),O>0?r.i(h.h)(this).transition().duration(O).call(m,o,i):r.i(h.h)(this).call(t.transform,o)}}function A(){if(q.apply(this,arguments)){var t,n,e,i,u=x(this,arguments),a=h.q.changedTouches,o=a.length;for(r.i(y.b)(),n=0;n<o;++n)e=a[n],i=r.i(h.n)(this,a,e.identifier),i=[i,this.__zoom.invert(i),e.identifier],u.touch0?u.touch1||(u.touch1=i):(u.touch0=i,t=!0);if(N&&(N=clearTimeout(N),!u.touch1))return u.end(),void((i=r.i(h.h)(this).on("dblclick.zoom"))&&i.apply(this,arguments));t&&(N=setTimeout(function(){N=null},Y),r.i(d.c)(this),u.start())}}function S(){var t,e,i,u,a=x(this,arguments),o=h.q.changedTouches,c=o.length;for(r.i(y.a)(),N&&(N=clearTimeout(N)),t=0;t<c;++t)e=o[t],i=r.i(h.n)(this,o,e.identifier),a.touch0&&a.touch0[2]===e.identifier?a.touch0[0]=i:a.touch1&&a.touch1[2]===e.identifier&&(a.touch1[0]=i);if(e=a.that.__zoom,a.touch1){var f=a.touch0[0],s=a.touch0[1],l=a.touch1[0],d=a.touch1[1],p=(p=l[0]-f[0])*p+(p=l[1]-f[1])*p,v=(v=d[0]-s[0])*v+(v=d[1]-s[1])*v;e=n(e,Math.sqrt(p/v)),i=[(f[0]+l[0])/2,(f[1]+l[1])/2],u=[(s[0]+d[0])/2,(s[1]+d[1])/2]}else{if(!a.touch0)return;i=a.touch0[0],u=a.touch0[1]}a.zoom("touch",P(_(e,i,u),a.extent,U))}function E(){var t,n,e=x(this,arguments),i=h.q.changedTouches,u=i.length;for(r.i(y.b)(),C&&clearTimeout(C),C=setTimeout(function(){C=null},Y),t=0;t<u;++t)n=i[t],e.touch0&&e.touch0[2]===n.identifier?delete e.touch0:e.touch1&&e.touch1[2]===n.identifier&&delete e.touch1;e.touch1&&!e.touch0&&(e.touch0=e.touch1,delete e.touch1),e.touch0?e.touch0[1]=this.__zoom.invert(e.touch0[0]):e.end()}var N,C,q=e,z=i,P=c,D=a,R=o,L=[0,1/0],U=[[-1/0,-1/0],[1/0,1/0]],O=250,j=l.l,F=[],I=r.i(f.a)("start","zoom","end"),Y=500,B=150,H=0;return t.transform=function(t,n){var r=t.selection?t.selection():t;r.property("__zoom",u),t!==r?m(t,n):r.interrupt().each(function(){x(this,arguments).start().zoom(null,"function"==typeof n?n.apply(this,arguments):n).end()})},t.scaleBy=function(n,r){t.scaleTo(n,function(){return this.__zoom.k*("function"==typeof r?r.apply(this,arguments):r)})},t.scaleTo=function(r,e){t.transform(r,function(){var t=z.apply(this,arguments),r=this.__zoom,i=b(t),u=r.invert(i),a="function"==typeof e?e.apply(this,arguments):e;return P(_(n(r,a),i,u),t,U)})},t.translateBy=function(n,r,e){t.transform(n,function(){return P(this.__zoom.translate("function"==typeof r?r.apply(this,arguments):r,"function"==typeof e?e.apply(this,arguments):e),z.apply(this,arguments),U)})},t.translateTo=function(n,r,e){t.transform(n,function(){var t=z.apply(this,arguments),n=this.__zoom,i=b(t);return P(g.b.translate(i[0],i[1]).scale(n.k).translate("function"==typeof r?-r.apply(this,arguments):-r,"function"==typeof e?-e.apply(this,arguments):-e),t,U)})},w.prototype={start:function(){return 1==++this.active&&(this.index=F.push(this)-1,this.emit("start")),this},zoom:function(t,n){return this.mouse&&"mouse"!==t&&(this.mouse[1]=n.invert(this.mouse[0])),this.touch0&&"touch"!==t&&(this.touch0[1]=n.invert(this.touch0[0])),this.touch1&&"touch"!==t&&(this.touch1[1]=n.invert(this.touch1[0])),this.that.__zoom=n,this.emit("zoom"),this},end:function(){return 0==--this.active&&(F.splice(this.index,1),this.index=-1,this.emit("end")),this},emit:function(n){r.i(h.r)(new v.a(t,n,this.that.__zoom),I.apply,I,[n,this.that,this.args])}},t.wheelDelta=function(n){return arguments.length?(D="function"==typeof n?n:r.i(p.a)(+n),t):D},t.filter=function(n){return arguments.length?(q="function"==typeof n?n:r.i(p.a)(!!n),t):q},t.touchable=function(n){return arguments.length?(R="function"==typeof n?n:r.i(p.a)(!!n),t):R},t.extent=function(n){return arguments.length?(z="function"==typeof n?n:r.i(p.a)([[+n[0][0],+n[0][1]],[+n[1][0],+n[1][1]]]),t):z},t.scaleExtent=function(n){return arguments.length?(L[0]=+n[0],L[1]=+n[1],t):[L[0],L[1]]},t.translateExtent=function(n){return arguments.length?(U[0][0]=+n[0][0],U[1][0]=+n[1][0],U[0][1]=+n[0][1],U[1][1]=+n[1][1],t):[[U[0][0],U[0][1]],[U[1][0],U[1][1]]]},t.constrain=function(n){return arguments.length?(P=n,t):P},t.duration=function(n){return arguments.length?(O=+n,t):O},t.interpolate=function(n){return arguments.length?(j=n,t):j},t.on=function(){var n=I.on.apply(I,arguments);return n===I?t:n},t.clickDistance=function(n){return arguments.length?(H=(n=+n)*n,t):Math.sqrt(H)},t}},function(t,n,r){"use strict";r.d(n,"a",function(){return e});var e="4.12.0"},function(t,n,r){"use strict";function e(t,n){n||(n=window.location.href),t=t.replace(/[\[\]]/g,"\\$&");var r=new RegExp("[?&]"+t+"(=([^&#]*)|&|#|$)"),e=r.exec(n);return e?e[2]?decodeURIComponent(e[2].replace(/\+/g," ")):"":null}function i(){function t(t){l=new c.GraphDataSource,t.graphs.forEach(function(n){if("realtime"===n.type){var r=new u.TimeseriesGraph(n,l);h.push(r),"stopped"!==t.status&&"terminated"!==t.status||r.stop()}else if("x-y-plot"===n.type){var r=new a.XYGraph(n,l);h.push(r),"stopped"!==t.status&&"terminated"!==t.status||r.stop()}});var n=new o.ProgramStatsGraph(l);"stopped"!==t.status&&"terminated"!==t.status||n.stop(),h.push(n)}function n(t){"stopped"===t.status||"terminated"===t.status?h.forEach(function(t){return t.stop()}):"continued"===t.status&&h.forEach(function(t){return t.continue()})}function r(t){l&&l.receiveDataMessage(t)}function i(t){var r=t.messages.filter(function(t){return"data"===t.type}),e=t.messages.filter(function(t){return"status"===t.type});l.processDataHistory(r),e.forEach(function(t){return n(t)})}function s(t){l.receivedProgramCounterMessage(t)}var l=null,h=[],d=f.select("base"),p="53333";d&&d.size()>0&&(p=e("port",d.attr("href"))),p||(p="53333");var v=new WebSocket("ws://localhost:"+p);v.onopen=function(t){},v.onclose=function(t){h.forEach(function(t){return t.stop()})},v.onmessage=function(e){var u=JSON.parse(e.data);switch(u.type){case"configure":t(u),v.send(JSON.stringify({history:!0}));break;case"data":r(u);break;case"status":n(u);break;case"history":i(u);break;case"program-counter":s(u);break;default:console.log("Got unrecognized message type: "+u.type)}}}Object.defineProperty(n,"__esModule",{value:!0});var u=r(173),a=r(174),o=r(172),c=r(175),f=r(33);i()}]);
-//# sourceMappingURL=main.bundle.js.map
\ No newline at end of file
@@ -0,0 +1,340 @@
+/* global acquireVsCodeApi */
+(function () {
+    'use strict';
+
+    const vscode = acquireVsCodeApi();
+
+    const ROW_SIZE = 16;
+    const SCROLL_MARGIN = 40;
+    const CELL_SIZES = { '8': 1, '16': 2, '32': 4, '64': 8, 'f32': 4, 'f64': 8 };
+
+    const table = document.getElementById('memory');
+    const container = document.getElementById('container');
+    const expressionInput = document.getElementById('expression');
+    const formatSelect = document.getElementById('format');
+    const endiannessSelect = document.getElementById('endianness');
+    const statusLabel = document.getElementById('status');
+
+    let start = 0;
+    let bytes = [];
+    let changed = {};
+    let target = null;
+    let format = '8';
+    let littleEndian = true;
+    let status = 'stopped';
+    let loading = false;
+    let editing = null;
+
+    /* Formatting */
+
+    function hex(value, digits) {
+        let result = value.toString(16).toUpperCase();
+        while (result.length < digits) { result = '0' + result; }
+        return result;
+    }
+
+    function cellSize() {
+        return CELL_SIZES[format];
+    }
+
+    function isFloat() {
+        return format === 'f32' || format === 'f64';
+    }
+
+    function getBytes(offset, size) {
+        const result = bytes.slice(offset, offset + size);
+        return result.length === size ? result : null;
+    }
+
+    function formatValue(data) {
+        if (!data) { return isFloat() ? '?' : '??'.repeat(cellSize()); }
+
+        if (isFloat()) {
+            const view = new DataView(new Uint8Array(data).buffer);
+            const value = format === 'f32' ? view.getFloat32(0, littleEndian) : view.getFloat64(0, littleEndian);
+            return String(Number(value.toPrecision(format === 'f32' ? 7 : 15)));
+        }
+
+        // Show the most significant byte first, so the bytes have to be reversed for little endian values
+        const ordered = littleEndian ? data.slice().reverse() : data;
+        return ordered.map((b) => hex(b, 2)).join('');
+    }
+
+    function parseValue(text, size) {
+        text = text.trim();
+        if (isFloat()) {
+            const value = Number(text);
+            if (text === '' || isNaN(value) && text.toLowerCase() !== 'nan') { return null; }
+
+            const view = new DataView(new ArrayBuffer(size));
+            if (format === 'f32') { view.setFloat32(0, value, littleEndian); }
+            else { view.setFloat64(0, value, littleEndian); }
+            return Array.from(new Uint8Array(view.buffer));
+        }
+
+        if (text.toLowerCase().startsWith('0x')) { text = text.substring(2); }
+        if (!/^[0-9a-f]+$/i.test(text) || text.length > size * 2) { return null; }
+
+        while (text.length < size * 2) { text = '0' + text; }
+        const result = [];
+        for (let i = 0; i < size; i++) { result.push(parseInt(text.substr(i * 2, 2), 16)); }
+        return littleEndian ? result.reverse() : result;
+    }
+
+    function asciiFor(data) {
+        return data.map((b) => (b === undefined || b === null || b < 32 || b > 126) ? '.' : String.fromCharCode(b)).join('');
+    }
+
+    /* Rendering */
+
+    function createRow(rowOffset) {
+        const row = document.createElement('tr');
+        row.dataset.offset = rowOffset;
+
+        const address = document.createElement('td');
+        address.className = 'address';
+        address.textContent = hex(start + rowOffset, 8);
+        row.appendChild(address);
+
+        const size = cellSize();
+        for (let offset = rowOffset; offset < rowOffset + ROW_SIZE; offset += size) {
+            const cell = document.createElement('td');
+            const data = getBytes(offset, size);
+            cell.className = 'value';
+            cell.dataset.offset = offset;
+            cell.textContent = formatValue(data);
+            if (!data) { cell.classList.add('unavailable'); }
+            for (let i = offset; i < offset + size; i++) {
+                if (changed[i]) { cell.classList.add('changed'); }
+                if (target !== null && start + i === target) { cell.classList.add('target'); }
+            }
+            row.appendChild(cell);
+        }
+
+        const ascii = document.createElement('td');
+        ascii.className = 'ascii';
+        ascii.textContent = asciiFor(bytes.slice(rowOffset, rowOffset + ROW_SIZE));
+        row.appendChild(ascii);
+
+        return row;
+    }
+
+    function rowCount() {
+        return Math.ceil(bytes.length / ROW_SIZE);
+    }
+
+    function render() {
+        editing = null;
+        while (table.firstChild) { table.removeChild(table.firstChild); }
+
+        const fragment = document.createDocumentFragment();
+        for (let row = 0; row < rowCount(); row++) {
+            fragment.appendChild(createRow(row * ROW_SIZE));
+        }
+        table.appendChild(fragment);
+    }
+
+    function appendRows(fromRow) {
+        const fragment = document.createDocumentFragment();
+        for (let row = fromRow; row < rowCount(); row++) {
+            fragment.appendChild(createRow(row * ROW_SIZE));
+        }
+        table.appendChild(fragment);
+    }
+
+    function scrollToTarget() {
+        const cell = table.querySelector('td.target');
+        if (cell) { cell.scrollIntoView({ block: 'center' }); }
+    }
+
+    function setStatus(message, error) {
+        statusLabel.textContent = message;
+        statusLabel.classList.toggle('error', !!error);
+    }
+
+    function showStatus() {
+        const labels = { stopped: 'Halted', running: 'Running - memory will be read when the target halts', terminated: 'Session ended' };
+        setStatus(labels[status] || status, false);
+    }
+
+    /* Messages */
+
+    function handleData(message) {
+        loading = false;
+
+        if (message.reset) {
+            start = message.start;
+            bytes = message.bytes.slice();
+            changed = {};
+            target = message.address;
+            expressionInput.value = message.expression;
+            render();
+            scrollToTarget();
+        }
+        else if (message.prepend) {
+            const height = container.scrollHeight;
+            bytes = message.bytes.concat(bytes);
+            const shifted = {};
+            Object.keys(changed).forEach((k) => { shifted[Number(k) + message.bytes.length] = true; });
+            changed = shifted;
+            start = message.start;
+            render();
+            container.scrollTop += container.scrollHeight - height;
+        }
+        else {
+            const rows = rowCount();
+            bytes = bytes.concat(message.bytes);
+            appendRows(rows);
+        }
+        showStatus();
+    }
+
+    function handleRefresh(message) {
+        if (message.start !== start) { return; }
+
+        changed = {};
+        message.bytes.forEach((b, i) => {
+            if (i < bytes.length && bytes[i] !== b) { changed[i] = true; }
+        });
+        bytes = message.bytes.slice();
+
+        const scroll = container.scrollTop;
+        render();
+        container.scrollTop = scroll;
+    }
+
+    function handleUpdate(message) {
+        const offset = message.start - start;
+        message.bytes.forEach((b, i) => {
+            bytes[offset + i] = b;
+            delete changed[offset + i];
+        });
+
+        const scroll = container.scrollTop;
+        render();
+        container.scrollTop = scroll;
+        showStatus();
+    }
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'data':
+                handleData(message);
+                break;
+            case 'refresh':
+                handleRefresh(message);
+                break;
+            case 'update':
+                handleUpdate(message);
+                break;
+            case 'status':
+                status = message.status;
+                showStatus();
+                break;
+            case 'no-more-data':
+                loading = false;
+                break;
+            case 'error':
+                loading = false;
+                setStatus(message.message, true);
+                break;
+        }
+    });
+
+    /* Editing */
+
+    function beginEdit(cell) {
+        if (status !== 'stopped') {
+            setStatus('Memory can only be edited while the target is halted', true);
+            return;
+        }
+        if (editing) { return; }
+
+        const offset = Number(cell.dataset.offset);
+        const size = cellSize();
+        const input = document.createElement('input');
+        input.value = cell.textContent;
+        editing = cell;
+
+        const finish = (commit) => {
+            if (editing !== cell) { return; }
+            editing = null;
+
+            if (commit) {
+                const data = parseValue(input.value, size);
+                if (!data) {
+                    setStatus(`Invalid value: ${input.value}`, true);
+                }
+                else {
+                    vscode.postMessage({ type: 'write', address: start + offset, bytes: data });
+                }
+            }
+            cell.textContent = formatValue(getBytes(offset, size));
+        };
+
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') { finish(true); }
+            else if (e.key === 'Escape') { finish(false); }
+        });
+        input.addEventListener('blur', () => finish(false));
+
+        cell.textContent = '';
+        cell.appendChild(input);
+        input.focus();
+        input.select();
+    }
+
+    table.addEventListener('dblclick', (e) => {
+        const cell = e.target.closest('td.value');
+        if (cell && !cell.classList.contains('unavailable')) { beginEdit(cell); }
+    });
+
+    /* Toolbar and paging */
+
+    function gotoExpression() {
+        const expression = expressionInput.value.trim();
+        if (expression) {
+            loading = true;
+            vscode.postMessage({ type: 'goto', expression: expression });
+        }
+    }
+
+    document.getElementById('goto').addEventListener('click', gotoExpression);
+    expressionInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') { gotoExpression(); }
+    });
+
+    formatSelect.addEventListener('change', () => {
+        format = formatSelect.value;
+        const scroll = container.scrollTop;
+        render();
+        container.scrollTop = scroll;
+    });
+
+    endiannessSelect.addEventListener('change', () => {
+        littleEndian = endiannessSelect.value === 'little';
+        const scroll = container.scrollTop;
+        render();
+        container.scrollTop = scroll;
+    });
+
+    document.getElementById('refresh').addEventListener('click', () => {
+        vscode.postMessage({ type: 'refresh' });
+    });
+
+    container.addEventListener('scroll', () => {
+        if (loading || bytes.length === 0 || status !== 'stopped') { return; }
+
+        if (container.scrollTop + container.clientHeight >= container.scrollHeight - SCROLL_MARGIN) {
+            loading = true;
+            vscode.postMessage({ type: 'load-more', direction: 'down' });
+        }
+        else if (container.scrollTop <= SCROLL_MARGIN && start > 0) {
+            loading = true;
+            vscode.postMessage({ type: 'load-more', direction: 'up' });
+        }
+    });
+
+    vscode.postMessage({ type: 'ready' });
+}());
@@ -1,5 +1,7 @@
 import { MINode } from './mi_parse';
 import { DebugProtocol } from 'vscode-debugprotocol/lib/debugProtocol';
+import { NumberFormat } from '../common';
+import { formatChar } from './variable_format';
 
 export interface Breakpoint {
     file?: string;
@@ -7,6 +9,15 @@ export interface Breakpoint {
     raw?: string;
     condition: string;
     countCondition?: string;
+    logMessage?: string;
+    number?: number;
+}
+
+export interface Watchpoint {
+    expression: string;
+    accessType: DebugProtocol.DataBreakpointAccessType;
+    condition?: string;
+    countCondition?: string;
     number?: number;
 }
 
@@ -37,6 +48,7 @@ export interface IBackend {
     stepOut(threadId: number): Thenable<boolean>;
     addBreakPoint(breakpoint: Breakpoint): Promise<Breakpoint>;
     removeBreakpoints(breakpoints: number[]): Promise<boolean>;
+    addWatchPoint(watchpoint: Watchpoint): Promise<Watchpoint>;
     getStack(threadId: number, startLevel: number, maxLevels: number): Thenable<Stack[]>;
     getStackVariables(thread: number, frame: number): Thenable<Variable[]>;
     evalExpression(name: string): Thenable<any>;
@@ -57,6 +69,8 @@ export class VariableObject {
     public displayhint: string;
     public hasMore: boolean;
     public id: number;
+    // Format set with -var-set-format, the children of the variable are shown in the same format
+    public format: NumberFormat = NumberFormat.Auto;
     constructor(node: any) {
         this.name = MINode.valueOf(node, 'name');
         this.exp = MINode.valueOf(node, 'exp');
@@ -87,11 +101,16 @@ export class VariableObject {
             (this.dynamic && (this.displayhint === 'array' || this.displayhint === 'map'));
     }
 
+    public displayValue(): string {
+        if (this.value === void 0) { return '<unknown>'; }
+        return this.format === NumberFormat.Char ? formatChar(this.value) : this.value;
+    }
+
     public toProtocolVariable(): DebugProtocol.Variable {
         const res: DebugProtocol.Variable = {
             name: this.exp,
             evaluateName: this.name,
-            value: (this.value === void 0) ? '<unknown>' : this.value,
+            value: this.displayValue(),
             type: this.type,
             // kind: this.displayhint,
             variablesReference: this.id
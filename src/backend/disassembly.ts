@@ -0,0 +1,71 @@
+import { Source } from 'vscode-debugadapter';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { MINode } from './mi_parse';
+import { hexFormat } from '../frontend/utils';
+
+// Size of the placeholder entries used where memory could not be disassembled
+const UNAVAILABLE_INSTRUCTION_SIZE = 2;
+
+/*
+ * Converts the result of -data-disassemble mode 5. Instructions inside a src_and_asm_line tuple take the
+ * source location of that line, instructions GDB has no line information for are listed on their own.
+ */
+export function parseMixedDisassembly(result: MINode): DebugProtocol.DisassembledInstruction[] {
+    const instructions: DebugProtocol.DisassembledInstruction[] = [];
+
+    const addInstruction = (ri: any, source: Source, line: number) => {
+        const functionName = MINode.valueOf(ri, 'func-name');
+        instructions.push({
+            address: MINode.valueOf(ri, 'address'),
+            instructionBytes: MINode.valueOf(ri, 'opcodes'),
+            instruction: MINode.valueOf(ri, 'inst'),
+            symbol: functionName ? `${functionName}+${MINode.valueOf(ri, 'offset')}` : undefined,
+            location: source,
+            line: line
+        });
+    };
+
+    for (const entry of (result.result('asm_insns') || [])) {
+        if (entry[0] === 'src_and_asm_line') {
+            const fullname = MINode.valueOf(entry[1], 'fullname');
+            const source = fullname ? new Source(MINode.valueOf(entry[1], 'file'), fullname) : undefined;
+            const line = parseInt(MINode.valueOf(entry[1], 'line')) || undefined;
+            for (const ri of (MINode.valueOf(entry[1], 'line_asm_insn') || [])) {
+                addInstruction(ri, source, line);
+            }
+        }
+        else {
+            addInstruction(entry, undefined, undefined);
+        }
+    }
+
+    return instructions;
+}
+
+/*
+ * Keeps the last count instructions that end at address, and pads the start with placeholders
+ * when fewer were disassembled.
+ */
+export function fillBackward(instructions: DebugProtocol.DisassembledInstruction[], address: number, count: number): DebugProtocol.DisassembledInstruction[] {
+    instructions = instructions.slice(-count);
+    let next = instructions.length > 0 ? parseInt(instructions[0].address) : address;
+    while (instructions.length < count) {
+        next = Math.max(0, next - UNAVAILABLE_INSTRUCTION_SIZE);
+        instructions.unshift({ address: hexFormat(next, 8), instruction: '<unavailable>' });
+    }
+    return instructions;
+}
+
+/*
+ * Keeps the first count instructions that start at address, and pads the end with placeholders
+ * when fewer were disassembled.
+ */
+export function fillForward(instructions: DebugProtocol.DisassembledInstruction[], address: number, count: number): DebugProtocol.DisassembledInstruction[] {
+    instructions = instructions.slice(0, count);
+    let next = instructions.length > 0 ? parseInt(instructions[instructions.length - 1].address) + UNAVAILABLE_INSTRUCTION_SIZE : address;
+    while (instructions.length < count) {
+        instructions.push({ address: hexFormat(next, 8), instruction: '<unavailable>' });
+        next += UNAVAILABLE_INSTRUCTION_SIZE;
+    }
+    return instructions;
+}
@@ -0,0 +1,24 @@
+const EXPRESSION_REGEX = /\{([^}]+)\}/g;
+
+/*
+ * Expands the {expression} parts of a logpoint message. An expression that fails to evaluate is replaced
+ * by its error in angle brackets so the rest of the message is still logged.
+ */
+export async function formatLogMessage(message: string, evaluate: (expression: string) => Thenable<string>): Promise<string> {
+    const regex = new RegExp(EXPRESSION_REGEX);
+    let result = '';
+    let last = 0;
+    let match: RegExpExecArray;
+    while ((match = regex.exec(message)) !== null) {
+        let value: string;
+        try {
+            value = await evaluate(match[1]);
+        }
+        catch (e) {
+            value = `<${e.message || e}>`;
+        }
+        result += message.substring(last, match.index) + value;
+        last = regex.lastIndex;
+    }
+    return result + message.substring(last);
+}
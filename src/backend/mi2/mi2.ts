@@ -1,4 +1,4 @@
-import { Breakpoint, IBackend, Stack, Variable, VariableObject, MIError } from '../backend';
+import { Breakpoint, Watchpoint, IBackend, Stack, Variable, VariableObject, MIError } from '../backend';
 import * as ChildProcess from 'child_process';
 import { EventEmitter } from 'events';
 import { parseMI, MINode } from '../mi_parse';
@@ -16,6 +16,7 @@ export function escape(str: string) {
 const nonOutput = /^(?:\d*|undefined)[\*\+\=]|[\~\@\&\^]/;
 const gdbMatch = /(?:\d*|undefined)\(gdb\)/;
 const numRegex = /\d+/;
+const WATCHPOINT_REASONS = ['watchpoint-trigger', 'read-watchpoint-trigger', 'access-watchpoint-trigger'];
 
 function couldBeOutput(line: string) {
     if (nonOutput.exec(line)) {
@@ -163,6 +164,9 @@ export class MI2 extends EventEmitter implements IBackend {
                                     if (reason === 'breakpoint-hit') {
                                         this.emit('breakpoint', parsed);
                                     }
+                                    else if (WATCHPOINT_REASONS.indexOf(reason) !== -1) {
+                                        this.emit('watchpoint', parsed);
+                                    }
                                     else if (reason === 'end-stepping-range') {
                                         this.emit('step-end', parsed);
                                     }
@@ -379,6 +383,32 @@ export class MI2 extends EventEmitter implements IBackend {
         });
     }
 
+    public async addWatchPoint(watchpoint: Watchpoint): Promise<Watchpoint> {
+        if (trace) {
+            this.log('stderr', 'addWatchPoint');
+        }
+        let options = '';
+        if (watchpoint.accessType === 'read') { options = '-r '; }
+        else if (watchpoint.accessType === 'readWrite') { options = '-a '; }
+
+        const result = await this.sendCommand(`break-watch ${options}"${escape(watchpoint.expression)}"`);
+        const wpt = result.result('wpt') || result.result('hw-rwpt') || result.result('hw-awpt');
+        watchpoint.number = parseInt(MINode.valueOf(wpt, 'number'));
+
+        if (watchpoint.condition) {
+            await this.setBreakPointCondition(watchpoint.number, watchpoint.condition);
+        }
+        if (watchpoint.countCondition) {
+            // Watchpoints only support ignoring the first X hits, so both 'X' and '>X' are treated the same way
+            const match = numRegex.exec(watchpoint.countCondition);
+            if (match && parseInt(match[0]) !== 0) {
+                await this.sendCommand(`break-after ${watchpoint.number} ${parseInt(match[0])}`);
+            }
+        }
+
+        return watchpoint;
+    }
+
     public removeBreakpoints(breakpoints: number[]): Promise<boolean> {
         if (trace) {
             this.log('stderr', 'removeBreakPoint');
@@ -525,6 +555,14 @@ export class MI2 extends EventEmitter implements IBackend {
         return omg;
     }
 
+    public async varInfoPathExpression(name: string): Promise<string> {
+        if (trace) {
+            this.log('stderr', 'varInfoPathExpression');
+        }
+        const res = await this.sendCommand(`var-info-path-expression ${name}`);
+        return res.result('path_expr');
+    }
+
     public async varUpdate(name: string = '*'): Promise<MINode> {
         if (trace) {
             this.log('stderr', 'varUpdate');
@@ -532,6 +570,20 @@ export class MI2 extends EventEmitter implements IBackend {
         return this.sendCommand(`var-update --all-values ${name}`);
     }
 
+    public async varSetFormat(name: string, format: string): Promise<MINode> {
+        if (trace) {
+            this.log('stderr', 'varSetFormat');
+        }
+        return this.sendCommand(`var-set-format ${name} ${format}`);
+    }
+
+    public async varDelete(name: string): Promise<MINode> {
+        if (trace) {
+            this.log('stderr', 'varDelete');
+        }
+        return this.sendCommand(`var-delete ${name}`);
+    }
+
     public async varAssign(name: string, rawValue: string): Promise<MINode> {
         if (trace) {
             this.log('stderr', 'varAssign');
@@ -1,8 +1,13 @@
 import * as ChildProcess from 'child_process';
 import * as os from 'os';
+import * as net from 'net';
 import { EventEmitter } from 'events';
 import { setTimeout } from 'timers';
 
+// Time to allow servers that do not print a startup banner to open their GDB port, when the port is not known
+const SILENT_STARTUP_DELAY = 500;
+const PORT_PROBE_INTERVAL = 100;
+
 export class GDBServer extends EventEmitter {
     private process: any;
     private outBuffer: string = '';
@@ -10,7 +15,7 @@ export class GDBServer extends EventEmitter {
     private initResolve: (result: boolean) => void;
     private initReject: (error: any) => void;
 
-    constructor(private application: string, private args: string[], private initMatch: RegExp) {
+    constructor(private application: string, private args: string[], private initMatch: RegExp, private port?: number) {
         super();
     }
 
@@ -26,7 +31,21 @@ export class GDBServer extends EventEmitter {
                 this.process.on('exit', this.onExit.bind(this));
                 this.process.on('error', this.onError.bind(this));
 
-                if (this.application.indexOf('st-util') !== -1 && os.platform() === 'win32') {
+                if (this.initMatch === null && this.port) {
+                    // Servers like QEMU do not print anything when their GDB port is ready, so wait for the port to accept connections
+                    this.probePort();
+                }
+                else if (this.initMatch === null) {
+                    // Without a port to probe, assume that the server has started if it has not failed within a short period
+                    setTimeout(() => {
+                        if (this.initResolve) {
+                            this.initResolve(true);
+                            this.initReject = null;
+                            this.initResolve = null;
+                        }
+                    }, SILENT_STARTUP_DELAY);
+                }
+                else if (this.application.indexOf('st-util') !== -1 && os.platform() === 'win32') {
                     // For some reason we are not able to capture the st-util output on Windows
                     // For now assume that it will launch properly within 1/2 second and resolve the init
                     setTimeout(() => {
@@ -50,7 +69,30 @@ export class GDBServer extends EventEmitter {
         }
     }
 
+    private probePort() {
+        const socket = net.connect(this.port, 'localhost');
+        socket.on('connect', () => {
+            socket.end();
+            if (this.initResolve) {
+                this.initResolve(true);
+                this.initReject = null;
+                this.initResolve = null;
+            }
+        });
+        socket.on('error', () => {
+            socket.destroy();
+            // Stop probing once the server has exited (or the launch has timed out and killed it)
+            if (this.initResolve) { setTimeout(() => this.probePort(), PORT_PROBE_INTERVAL); }
+        });
+    }
+
     private onExit(code, signal) {
+        if (this.initReject) {
+            this.initReject(new Error(`GDB server exited before it was ready (exit code ${code})`));
+            this.initReject = null;
+            this.initResolve = null;
+        }
+
         this.emit('exit', code, signal);
     }
 
@@ -68,7 +110,7 @@ export class GDBServer extends EventEmitter {
         if (typeof data === 'string') { this.outBuffer += data; }
         else { this.outBuffer += data.toString('utf8'); }
 
-        if (this.initResolve && this.initMatch.test(this.outBuffer)) {
+        if (this.initResolve && this.initMatch && this.initMatch.test(this.outBuffer)) {
             this.initResolve(true);
             this.initResolve = null;
             this.initReject = null;
@@ -85,7 +127,7 @@ export class GDBServer extends EventEmitter {
         if (typeof data === 'string') { this.errBuffer += data; }
         else { this.errBuffer += data.toString('utf8'); }
 
-        if (this.initResolve && this.initMatch.test(this.errBuffer)) {
+        if (this.initResolve && this.initMatch && this.initMatch.test(this.errBuffer)) {
             this.initResolve(true);
             this.initResolve = null;
             this.initReject = null;
@@ -2,10 +2,14 @@ import * as childProcess from 'child_process';
 import * as os from 'os';
 import * as path from 'path';
 
-import { SymbolType, SymbolScope, SymbolInformation } from '../symbols';
+import { SymbolType, SymbolScope, SymbolInformation, LineInformation } from '../symbols';
 
 const SYMBOL_REGEX = /^([0-9a-f]{8})\s([lg\ !])([w\ ])([C\ ])([W\ ])([I\ ])([dD\ ])([FfO\ ])\s([^\s]+)\s([0-9a-f]+)\s(.*)\r?$/;
 
+const LINE_REGEX = /^(.*):(\d+|\?)(?:\s+\(discriminator\s+\d+\))?\r?$/;
+const ADDR2LINE_BATCH_SIZE = 500;
+const ADDR2LINE_MAX_BUFFER = 4 * 1024 * 1024;
+
 const TYPE_MAP: { [id: string]: SymbolType } = {
     'F': SymbolType.Function,
     'f': SymbolType.File,
@@ -22,9 +26,11 @@ const SCOPE_MAP: { [id: string]: SymbolScope } = {
 
 export class SymbolTable {
     private symbols: SymbolInformation[];
+    private lineCache: Map<number, LineInformation>;
 
     constructor(private toolchainPath: string, private executable: string) {
         this.symbols = [];
+        this.lineCache = new Map();
     }
 
     public loadSymbols() {
@@ -92,6 +98,18 @@ export class SymbolTable {
         return this.symbols.filter((s) => s.type === SymbolType.Object && s.scope === SymbolScope.Local && s.file === file);
     }
 
+    // Finds a global variable, or a static variable (optionally restricted to the given source file) when there is no global one
+    public getVariableByName(name: string, file?: string): SymbolInformation {
+        if (!file) {
+            const globals = this.getGlobalVariables().filter((s) => s.name === name);
+            if (globals.length !== 0) { return globals[0]; }
+        }
+
+        const statics = this.symbols.filter((s) => s.type === SymbolType.Object && s.scope === SymbolScope.Local && s.name === name
+            && (!file || s.file === file));
+        return statics.length !== 0 ? statics[0] : null;
+    }
+
     public getFunctionByName(name: string, file?: string): SymbolInformation {
         // Try to find static function first
         let matches = this.symbols.filter((s) => s.type === SymbolType.Function && s.scope === SymbolScope.Local && s.name === name && s.file === file);
@@ -101,4 +119,42 @@ export class SymbolTable {
         matches = this.symbols.filter((s) => s.type === SymbolType.Function && s.scope !== SymbolScope.Local && s.name === name);
         return matches.length !== 0 ? matches[0] : null;
     }
+
+    // addr2line runs asynchronously, so that resolving many addresses does not hold up the requests of the debug adapter.
+    // Only the results addr2line returned are cached; the promise is rejected when addr2line fails, so that it is tried again.
+    public async getLineInformation(addresses: number[]): Promise<LineInformation[]> {
+        const unresolved = Array.from(new Set(addresses)).filter((a) => !this.lineCache.has(a));
+
+        let addr2lineExePath = os.platform() !== 'win32' ? 'arm-none-eabi-addr2line' : 'arm-none-eabi-addr2line.exe';
+        if (this.toolchainPath) {
+            addr2lineExePath = path.normalize(path.join(this.toolchainPath, addr2lineExePath));
+        }
+
+        for (let i = 0; i < unresolved.length; i += ADDR2LINE_BATCH_SIZE) {
+            const batch = unresolved.slice(i, i + ADDR2LINE_BATCH_SIZE);
+            const lines = (await this.runAddr2Line(addr2lineExePath, batch)).split('\n');
+
+            batch.forEach((address, idx) => {
+                const match = lines[idx] ? lines[idx].match(LINE_REGEX) : null;
+                if (match && match[1] !== '??' && match[2] !== '?') {
+                    this.lineCache.set(address, { address: address, file: match[1], line: parseInt(match[2]) });
+                }
+                else {
+                    this.lineCache.set(address, { address: address, file: null, line: 0 });
+                }
+            });
+        }
+
+        return addresses.map((a) => this.lineCache.get(a));
+    }
+
+    private runAddr2Line(exePath: string, addresses: number[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const args = ['-e', this.executable, ...addresses.map((a) => a.toString(16))];
+            childProcess.execFile(exePath, args, { maxBuffer: ADDR2LINE_MAX_BUFFER }, (error, stdout) => {
+                if (error) { reject(error); }
+                else { resolve(stdout.toString()); }
+            });
+        });
+    }
 }
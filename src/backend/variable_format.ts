@@ -0,0 +1,62 @@
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { NumberFormat } from '../common';
+
+// Format specifiers that can follow a watch expression, such as "count,x"
+const FORMAT_SPECIFIERS: { [specifier: string]: NumberFormat } = {
+    x: NumberFormat.Hexidecimal,
+    d: NumberFormat.Decimal,
+    b: NumberFormat.Binary,
+    c: NumberFormat.Char
+};
+
+const FORMAT_SPECIFIER_REGEX = /^(.*\S)\s*,\s*([a-z])$/;
+
+// Formats of -var-set-format, characters are formatted from the decimal value
+const VARIABLE_OBJECT_FORMATS = {
+    [NumberFormat.Auto]: 'natural',
+    [NumberFormat.Hexidecimal]: 'hexadecimal',
+    [NumberFormat.Decimal]: 'decimal',
+    [NumberFormat.Binary]: 'binary',
+    [NumberFormat.Char]: 'decimal'
+};
+
+const CHARACTER_ESCAPES = { 0: '\\0', 7: '\\a', 8: '\\b', 9: '\\t', 10: '\\n', 11: '\\v', 12: '\\f', 13: '\\r', 39: '\\\'', 92: '\\\\' };
+
+/*
+ * Splits a format specifier off a watch expression. Expressions that do not end in a known specifier
+ * (for example a function call with several arguments) are returned unchanged with the format undefined.
+ */
+export function parseFormatSpecifier(expression: string): { expression: string, format: NumberFormat } {
+    const match = FORMAT_SPECIFIER_REGEX.exec(expression);
+    if (match && FORMAT_SPECIFIERS.hasOwnProperty(match[2])) {
+        return { expression: match[1], format: FORMAT_SPECIFIERS[match[2]] };
+    }
+    return { expression: expression, format: undefined };
+}
+
+/*
+ * The format of a value: a format chosen for the variable itself wins over the format the client asks for (the DAP
+ * ValueFormat), which wins over the global hexadecimal setting.
+ */
+export function resolveVariableFormat(variableFormat: NumberFormat, valueFormat: DebugProtocol.ValueFormat, hex: boolean): NumberFormat {
+    if (variableFormat !== undefined && variableFormat !== NumberFormat.Auto) { return variableFormat; }
+    else if (valueFormat && valueFormat.hex !== undefined) { return valueFormat.hex ? NumberFormat.Hexidecimal : NumberFormat.Auto; }
+    else { return hex ? NumberFormat.Hexidecimal : NumberFormat.Auto; }
+}
+
+export function variableObjectFormat(format: NumberFormat): string {
+    return VARIABLE_OBJECT_FORMATS[format] || VARIABLE_OBJECT_FORMATS[NumberFormat.Auto];
+}
+
+// Adds the character to an integer value the way GDB shows a char (65 'A'), anything else is returned unchanged
+export function formatChar(value: string): string {
+    if (!/^-?[0-9]+$/.test(value)) { return value; }
+
+    const code = parseInt(value, 10) & 0xFF;
+    let character: string;
+    if (CHARACTER_ESCAPES[code]) { character = CHARACTER_ESCAPES[code]; }
+    else if (code < 0x20 || code >= 0x7F) { character = `\\${('00' + code.toString(8)).slice(-3)}`; }
+    else { character = String.fromCharCode(code); }
+
+    return `${value} '${character}'`;
+}
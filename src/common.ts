@@ -6,7 +6,9 @@ export enum NumberFormat {
     Auto = 0,
     Hexidecimal,
     Decimal,
-    Binary
+    Binary,
+    // Integers shown with their character, only used for variables
+    Char
 }
 
 export interface NodeSetting {
@@ -74,6 +76,17 @@ export class TelemetryEvent extends Event implements DebugProtocol.Event {
     }
 }
 
+export class CoreSessionsEvent extends Event implements DebugProtocol.Event {
+    public body: {
+        cores: CoreConfiguration[]
+    };
+    public event: string;
+
+    constructor(cores: CoreConfiguration[]) {
+        super('start-core-sessions', { cores: cores });
+    }
+}
+
 export interface SWOConfiguration {
     enabled: boolean;
     cpuFrequency: number;
@@ -81,6 +94,41 @@ export interface SWOConfiguration {
     decoders: any[];
     profile: boolean;
     source: string;
+    timestamps: boolean;
+    timestampPrescaler: number;
+    captureFile: string;
+    globalTimestamps: string;
+    syncPacketRate: string;
+    pcSampleRate: PCSampleRate;
+    privilegeMask: number;
+}
+
+// DWT_CTRL fields for the PC sample period, a sample is taken every (postPreset + 1) * cycTap cycles
+export interface PCSampleRate {
+    postInit?: number;
+    postPreset?: number;
+    cycTap?: number;
+}
+
+// GDB commands that run when the breakpoint set at location (file:line, the file may be given as the end of its path) is hit
+export interface BreakpointCommands {
+    location: string;
+    commands: string[];
+    // Resume the target once the commands have run instead of stopping
+    continue: boolean;
+}
+
+export interface CoreConfiguration {
+    name: string;
+    executable: string;
+    svdFile: string;
+    targetId: string | number;
+    gdbTarget?: string;
+}
+
+export interface LiveWatchConfiguration {
+    enabled: boolean;
+    samplesPerSecond: number;
 }
 
 export interface ConfigurationArguments extends DebugProtocol.LaunchRequestArguments {
@@ -96,6 +144,7 @@ export interface ConfigurationArguments extends DebugProtocol.LaunchRequestArgum
     postAttachCommands: string[];
     preRestartCommands: string[];
     postRestartCommands: string[];
+    breakpointCommands: BreakpointCommands[];
     svdFile: string;
     swoConfig: SWOConfiguration;
     graphConfig: any[];
@@ -106,6 +155,8 @@ export interface ConfigurationArguments extends DebugProtocol.LaunchRequestArgum
     interface: string;
     targetId: string | number;
     runToMain: boolean;
+    liveWatch: LiveWatchConfiguration;
+    variableHexFormat: boolean;
 
     // J-Link Specific
     ipAddress: string;
@@ -123,6 +174,21 @@ export interface ConfigurationArguments extends DebugProtocol.LaunchRequestArgum
 
     // BMP Specific
     BMPGDBSerialPort: string;
+
+    // QEMU Specific
+    machine: string;
+    cpu: string;
+
+    // External Specific
+    gdbTarget: string;
+    externalLoad: boolean;
+    externalReset: boolean;
+
+    // Multi-core - the first core is debugged by the session that starts the server, which then has a session started for each
+    // additional core (with coreName and parentSessionId set) that connects to that core's GDB port
+    cores: CoreConfiguration[];
+    coreName: string;
+    parentSessionId: string;
 }
 
 export interface DisassemblyInstruction {
@@ -152,6 +218,16 @@ export interface GDBServerController extends EventEmitter {
     serverLaunchCompleted(): void;
     debuggerLaunchStarted(): void;
     debuggerLaunchCompleted(): void;
+
+    // Live watch reads memory through a second GDB connection. Servers that only accept one client per port start a second
+    // instance of the server for it, with these arguments, and connect to it with the live watch init commands.
+    liveWatchServerArguments?(): string[];
+    liveWatchInitCommands?(): string[];
+}
+
+// The GDB port of the first core is the server's normal gdbPort, so that single core controller code needs no changes
+export function coreGdbPortName(index: number): string {
+    return index === 0 ? 'gdbPort' : `gdbPort${index}`;
 }
 
 export function calculatePortMask(decoders: any[]) {
@@ -164,7 +240,7 @@ export function calculatePortMask(decoders: any[]) {
                 mask = (mask | (1 << port)) >>> 0;
             }
         }
-        else {
+        else if (d.type !== 'dwt') {
             mask = (mask | (1 << d.port)) >>> 0;
         }
     });
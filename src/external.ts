@@ -0,0 +1,113 @@
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { GDBServerController, ConfigurationArguments, SWOConfigureEvent } from './common';
+import { traceConfigurationWrites, memoryWriteCommands } from './trace_configuration';
+import { EventEmitter } from 'events';
+
+// Connects to a GDB server that is already running (on this machine or elsewhere) and is not managed by the extension
+export class ExternalServerController extends EventEmitter implements GDBServerController {
+    public readonly name: string = 'External';
+    public readonly portsNeeded: string[] = [];
+
+    private args: ConfigurationArguments;
+    private ports: { [name: string]: number };
+
+    constructor() {
+        super();
+    }
+
+    public setPorts(ports: { [name: string]: number }): void {
+        this.ports = ports;
+    }
+
+    public setArguments(args: ConfigurationArguments): void {
+        this.args = args;
+    }
+
+    public customRequest(command: string, response: DebugProtocol.Response, args: any): boolean {
+        return false;
+    }
+
+    public initCommands(): string[] {
+        return [
+            `target-select extended-remote ${this.args.gdbTarget}`
+        ];
+    }
+
+    // The server may be shared or the target already programmed, so loading and resetting are only done on request
+    public launchCommands(): string[] {
+        const commands = [];
+
+        if (this.args.externalLoad) {
+            commands.push('target-download');
+        }
+
+        // For the additional cores of a multi-core session the reset is done by the first core's session, as resetting here
+        // would also reset the cores that have already been loaded
+        if (this.args.externalReset && !this.args.coreName) {
+            commands.push('interpreter-exec console "SoftwareReset"');
+        }
+
+        commands.push('enable-pretty-printing');
+
+        if (this.args.swoConfig.enabled && this.args.swoConfig.source !== 'probe') {
+            const swocommands = this.SWOConfigurationCommands();
+            commands.push(...swocommands);
+        }
+
+        return commands;
+    }
+
+    public attachCommands(): string[] {
+        const commands = [
+            'enable-pretty-printing'
+        ];
+
+        if (this.args.swoConfig.enabled && this.args.swoConfig.source !== 'probe') {
+            const swocommands = this.SWOConfigurationCommands();
+            commands.push(...swocommands);
+        }
+
+        return commands;
+    }
+
+    public restartCommands(): string[] {
+        const commands: string[] = [];
+
+        if (this.args.externalReset && !this.args.coreName) {
+            commands.push('interpreter-exec console "SoftwareReset"');
+        }
+
+        if (this.args.swoConfig.enabled && this.args.swoConfig.source !== 'probe') {
+            const swocommands = this.SWOConfigurationCommands();
+            commands.push(...swocommands);
+        }
+
+        return commands;
+    }
+
+    private SWOConfigurationCommands(): string[] {
+        return memoryWriteCommands(traceConfigurationWrites(this.args.swoConfig, { configureTPIU: true }));
+    }
+
+    public serverExecutable(): string {
+        return null;
+    }
+
+    public serverArguments(): string[] {
+        return [];
+    }
+
+    public initMatch(): RegExp {
+        return null;
+    }
+
+    public serverLaunchStarted(): void {}
+    public serverLaunchCompleted(): void {
+        if (this.args.swoConfig.enabled && this.args.swoConfig.source !== 'probe') {
+            this.emit('event', new SWOConfigureEvent({ type: 'serial', device: this.args.swoConfig.source, baudRate: this.args.swoConfig.swoFrequency }));
+        }
+    }
+
+    public debuggerLaunchStarted(): void {}
+    public debuggerLaunchCompleted(): void {}
+}
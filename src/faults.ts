@@ -0,0 +1,178 @@
+// System Control Block fault registers, which are contiguous from CFSR to AFSR
+export const SCB_FAULT_REGISTERS_ADDRESS = 0xE000ED28;
+export const SCB_FAULT_REGISTERS_LENGTH = 24;
+
+export const BASIC_FRAME_SIZE = 0x20;
+// The extended frame adds S0-S15, FPSCR and a reserved word after the basic frame
+export const EXTENDED_FRAME_SIZE = 0x68;
+
+const XPSR_THUMB_BIT = 1 << 24;
+const XPSR_STACK_ALIGN_BIT = 1 << 9;
+
+export const EXCEPTION_NAMES: { [exception: number]: string } = {
+    // Exception number 0 is thread mode, no exception active
+    0: 'Thread',
+    1: 'Reset',
+    2: 'NMI',
+    3: 'HardFault',
+    4: 'MemManage',
+    5: 'BusFault',
+    6: 'UsageFault',
+    7: 'SecureFault',
+    11: 'SVCall',
+    12: 'DebugMonitor',
+    14: 'PendSV',
+    15: 'SysTick'
+};
+
+export const FAULT_EXCEPTIONS = [3, 4, 5, 6, 7];
+
+export interface FaultRegisters {
+    cfsr: number;
+    hfsr: number;
+    dfsr: number;
+    mmfar: number;
+    bfar: number;
+    afsr: number;
+}
+
+export interface FaultBit {
+    register: string;
+    name: string;
+    description: string;
+}
+
+export interface ExceptionReturn {
+    stack: 'MSP' | 'PSP';
+    threadMode: boolean;
+    extendedFrame: boolean;
+}
+
+export interface ExceptionFrame {
+    address: number;
+    size: number;
+    extended: boolean;
+    r0: number;
+    r1: number;
+    r2: number;
+    r3: number;
+    r12: number;
+    lr: number;
+    pc: number;
+    xpsr: number;
+    // S0-S15 (as raw words) and FPSCR, only present in extended frames
+    s: number[];
+    fpscr: number;
+    // The stack pointer of the interrupted context, after the frame and any alignment padding
+    callerSP: number;
+}
+
+const CFSR_BITS: { [bit: number]: [string, string, string] } = {
+    0: ['MMFSR', 'IACCVIOL', 'Instruction fetch from a location that does not permit execution'],
+    1: ['MMFSR', 'DACCVIOL', 'Data access to a location that the MPU does not permit'],
+    3: ['MMFSR', 'MUNSTKERR', 'MemManage fault while unstacking on exception return'],
+    4: ['MMFSR', 'MSTKERR', 'MemManage fault while stacking on exception entry'],
+    5: ['MMFSR', 'MLSPERR', 'MemManage fault during lazy floating point state preservation'],
+    7: ['MMFSR', 'MMARVALID', 'MMFAR holds the faulting address'],
+    8: ['BFSR', 'IBUSERR', 'Bus error on instruction fetch'],
+    9: ['BFSR', 'PRECISERR', 'Precise data bus error, the stacked PC is the faulting instruction'],
+    10: ['BFSR', 'IMPRECISERR', 'Imprecise data bus error, the stacked PC is after the faulting instruction'],
+    11: ['BFSR', 'UNSTKERR', 'Bus error while unstacking on exception return'],
+    12: ['BFSR', 'STKERR', 'Bus error while stacking on exception entry'],
+    13: ['BFSR', 'LSPERR', 'Bus error during lazy floating point state preservation'],
+    15: ['BFSR', 'BFARVALID', 'BFAR holds the faulting address'],
+    16: ['UFSR', 'UNDEFINSTR', 'Undefined instruction'],
+    17: ['UFSR', 'INVSTATE', 'Invalid execution state, such as a branch to an even (ARM state) address'],
+    18: ['UFSR', 'INVPC', 'Invalid EXC_RETURN value loaded into the PC'],
+    19: ['UFSR', 'NOCP', 'Coprocessor access while the coprocessor is disabled (is the FPU enabled?)'],
+    20: ['UFSR', 'STKOF', 'Stack overflow detected by the stack limit registers'],
+    24: ['UFSR', 'UNALIGNED', 'Unaligned memory access while CCR.UNALIGN_TRP is set'],
+    25: ['UFSR', 'DIVBYZERO', 'Divide by zero while CCR.DIV_0_TRP is set']
+};
+
+const HFSR_BITS: { [bit: number]: [string, string, string] } = {
+    1: ['HFSR', 'VECTTBL', 'Bus error while reading the vector table'],
+    30: ['HFSR', 'FORCED', 'A configurable fault was escalated to HardFault (it is disabled or could not be taken)'],
+    31: ['HFSR', 'DEBUGEVT', 'Debug event while halting debug is disabled']
+};
+
+function decodeBits(value: number, bits: { [bit: number]: [string, string, string] }): FaultBit[] {
+    const result: FaultBit[] = [];
+    Object.keys(bits).map((b) => parseInt(b, 10)).forEach((bit) => {
+        if (value & (1 << bit)) {
+            const [register, name, description] = bits[bit];
+            result.push({ register: register, name: name, description: description });
+        }
+    });
+    return result;
+}
+
+export function parseFaultRegisters(data: Buffer): FaultRegisters {
+    return {
+        cfsr: data.readUInt32LE(0),
+        hfsr: data.readUInt32LE(4),
+        dfsr: data.readUInt32LE(8),
+        mmfar: data.readUInt32LE(12),
+        bfar: data.readUInt32LE(16),
+        afsr: data.readUInt32LE(20)
+    };
+}
+
+export function decodeFaultStatus(registers: FaultRegisters): FaultBit[] {
+    return decodeBits(registers.hfsr, HFSR_BITS).concat(decodeBits(registers.cfsr, CFSR_BITS));
+}
+
+export function isExceptionReturn(value: number): boolean {
+    // EXC_RETURN values are 0xFFxxxxxx, which is never a valid code address
+    return (value >>> 24) === 0xFF;
+}
+
+export function decodeExceptionReturn(value: number): ExceptionReturn {
+    if (!isExceptionReturn(value)) { return null; }
+    return {
+        stack: (value & 0x4) ? 'PSP' : 'MSP',
+        threadMode: (value & 0x8) !== 0,
+        extendedFrame: (value & 0x10) === 0
+    };
+}
+
+export function parseExceptionFrame(address: number, data: Buffer, extended: boolean): ExceptionFrame {
+    const size = extended ? EXTENDED_FRAME_SIZE : BASIC_FRAME_SIZE;
+    if (data.length < BASIC_FRAME_SIZE) { return null; }
+
+    const xpsr = data.readUInt32LE(28);
+    const hasFPU = extended && data.length >= EXTENDED_FRAME_SIZE;
+    const s: number[] = [];
+    for (let i = 0; hasFPU && i < 16; i++) { s.push(data.readUInt32LE(BASIC_FRAME_SIZE + i * 4)); }
+
+    return {
+        address: address,
+        size: size,
+        extended: extended,
+        r0: data.readUInt32LE(0),
+        r1: data.readUInt32LE(4),
+        r2: data.readUInt32LE(8),
+        r3: data.readUInt32LE(12),
+        r12: data.readUInt32LE(16),
+        lr: data.readUInt32LE(20),
+        pc: data.readUInt32LE(24),
+        xpsr: xpsr,
+        s: hasFPU ? s : null,
+        fpscr: hasFPU ? data.readUInt32LE(BASIC_FRAME_SIZE + 64) : null,
+        callerSP: address + size + ((xpsr & XPSR_STACK_ALIGN_BIT) ? 4 : 0)
+    };
+}
+
+// A stacked frame always has the Thumb bit set in xPSR and a halfword aligned PC
+export function isPlausibleExceptionFrame(frame: ExceptionFrame): boolean {
+    return frame !== null && (frame.xpsr & XPSR_THUMB_BIT) !== 0 && (frame.pc & 0x1) === 0;
+}
+
+export function exceptionNumber(xpsr: number): number {
+    return xpsr & 0x1FF;
+}
+
+export function exceptionName(exception: number): string {
+    if (EXCEPTION_NAMES[exception]) { return EXCEPTION_NAMES[exception]; }
+    return exception >= 16 ? `IRQ ${exception - 16}` : `Exception ${exception}`;
+}
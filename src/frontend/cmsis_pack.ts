@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as xml2js from 'xml2js';
+
+export interface PackMemory {
+    name: string;
+    start: number;
+    size: number;
+    // Access attributes (r, w, x) - older packs only give an id such as IROM1 or IRAM1, from which they are derived
+    access: string;
+    startup: boolean;
+    default: boolean;
+    processor?: string;
+}
+
+export interface PackAlgorithm {
+    // Absolute path of the flash algorithm (.FLM) file
+    file: string;
+    start: number;
+    size: number;
+    ramStart?: number;
+    ramSize?: number;
+    default: boolean;
+    processor?: string;
+}
+
+export interface PackDevice {
+    name: string;
+    vendor: string;
+    family: string;
+    pack: string;
+    version: string;
+    core: string;
+    svdFile: string;
+    memories: PackMemory[];
+    algorithms: PackAlgorithm[];
+}
+
+// Properties that a device inherits from the family, sub-family and device elements it is nested in
+interface DeviceProperties {
+    vendor: string;
+    family: string;
+    core: string;
+    svdFile: string;
+    memories: { [name: string]: PackMemory };
+    algorithms: { [file: string]: PackAlgorithm };
+}
+
+const PACK_DESCRIPTION_EXTENSION = '.pdsc';
+// Installed packs are stored as <root>/<vendor>/<pack>/<version>/<vendor>.<pack>.pdsc
+const PACK_DIRECTORY_DEPTH = 3;
+
+function parseNumber(value: string): number {
+    if (value === undefined) { return undefined; }
+    return /^0x/i.test(value) ? parseInt(value.substring(2), 16) : parseInt(value, 10);
+}
+
+function isSet(value: string): boolean {
+    return value === '1' || value === 'true';
+}
+
+function memoryAccess(attributes: any): string {
+    if (attributes.access) { return attributes.access; }
+    if (/^IROM/i.test(attributes.id || '')) { return 'rx'; }
+    if (/^IRAM/i.test(attributes.id || '')) { return 'rwx'; }
+    return 'rw';
+}
+
+// Vendors are given as Name:Id (for example STMicroelectronics:13)
+function vendorName(value: string): string {
+    return value ? value.split(':')[0] : undefined;
+}
+
+function inheritProperties(element: any, parent: DeviceProperties, packPath: string): DeviceProperties {
+    const attributes = element.$ || {};
+    const properties: DeviceProperties = {
+        vendor: vendorName(attributes.Dvendor) || parent.vendor,
+        family: attributes.Dfamily || parent.family,
+        core: parent.core,
+        svdFile: parent.svdFile,
+        memories: { ...parent.memories },
+        algorithms: { ...parent.algorithms }
+    };
+
+    (element.processor || []).forEach((p) => {
+        if (p.$ && p.$.Dcore) { properties.core = p.$.Dcore; }
+    });
+
+    (element.debug || []).forEach((d) => {
+        if (d.$ && d.$.svd) { properties.svdFile = path.join(packPath, d.$.svd); }
+    });
+
+    (element.memory || []).forEach((m) => {
+        const a = m.$ || {};
+        const name = a.name || a.id;
+        properties.memories[name] = {
+            name: name,
+            start: parseNumber(a.start),
+            size: parseNumber(a.size),
+            access: memoryAccess(a),
+            startup: isSet(a.startup),
+            default: isSet(a.default),
+            processor: a.Pname
+        };
+    });
+
+    (element.algorithm || []).forEach((al) => {
+        const a = al.$ || {};
+        const file = path.join(packPath, a.name);
+        properties.algorithms[file] = {
+            file: file,
+            start: parseNumber(a.start),
+            size: parseNumber(a.size),
+            ramStart: parseNumber(a.RAMstart),
+            ramSize: parseNumber(a.RAMsize),
+            default: isSet(a.default),
+            processor: a.Pname
+        };
+    });
+
+    return properties;
+}
+
+function createDevice(name: string, properties: DeviceProperties, pack: string, version: string): PackDevice {
+    return {
+        name: name,
+        vendor: properties.vendor,
+        family: properties.family,
+        pack: pack,
+        version: version,
+        core: properties.core,
+        svdFile: properties.svdFile,
+        memories: Object.keys(properties.memories).map((k) => properties.memories[k]),
+        algorithms: Object.keys(properties.algorithms).map((k) => properties.algorithms[k])
+    };
+}
+
+/*
+ * Lists the devices of a pack description (as parsed by xml2js). Devices are declared in family, sub-family, device
+ * and variant elements, where the processor, debug (SVD), memory and algorithm properties of the outer elements apply
+ * to everything nested in them. Variants are listed in addition to the device they belong to.
+ */
+export function parsePackDescription(pdsc: any, packPath: string): PackDevice[] {
+    const pkg = pdsc.package;
+    if (!pkg || !pkg.devices) { return []; }
+
+    const release = pkg.releases && pkg.releases[0].release ? pkg.releases[0].release[0] : null;
+    const version = release && release.$ ? release.$.version : '';
+    const pack = `${pkg.vendor[0]}.${pkg.name[0]}`;
+
+    const root: DeviceProperties = { vendor: undefined, family: undefined, core: undefined, svdFile: undefined, memories: {}, algorithms: {} };
+    const devices: PackDevice[] = [];
+
+    const addDevices = (elements: any[], parent: DeviceProperties) => {
+        (elements || []).forEach((d) => {
+            const properties = inheritProperties(d, parent, packPath);
+            devices.push(createDevice(d.$.Dname, properties, pack, version));
+            (d.variant || []).forEach((v) => {
+                devices.push(createDevice(v.$.Dvariant, inheritProperties(v, properties, packPath), pack, version));
+            });
+        });
+    };
+
+    (pkg.devices[0].family || []).forEach((f) => {
+        const family = inheritProperties(f, root, packPath);
+        addDevices(f.device, family);
+        (f.subFamily || []).forEach((s) => addDevices(s.device, inheritProperties(s, family, packPath)));
+    });
+
+    return devices;
+}
+
+export function compareVersions(v1: string, v2: string): number {
+    const split = (v: string) => v.indexOf('-') === -1 ? [v, ''] : [v.substring(0, v.indexOf('-')), v.substring(v.indexOf('-') + 1)];
+    const [main1, pre1] = split(v1);
+    const [main2, pre2] = split(v2);
+
+    const n1 = main1.split('.').map((n) => parseInt(n, 10) || 0);
+    const n2 = main2.split('.').map((n) => parseInt(n, 10) || 0);
+    for (let i = 0; i < Math.max(n1.length, n2.length); i++) {
+        if ((n1[i] || 0) !== (n2[i] || 0)) { return (n1[i] || 0) - (n2[i] || 0); }
+    }
+
+    // A pre-release (1.0.0-rc1) sorts before the release it leads up to
+    if (pre1 === pre2) { return 0; }
+    else if (!pre1) { return 1; }
+    else if (!pre2) { return -1; }
+    else { return pre1 > pre2 ? 1 : -1; }
+}
+
+export class DeviceIndex {
+    private devices: { [name: string]: PackDevice } = {};
+
+    // When several versions of a pack are installed the devices of the newest one are used
+    public add(devices: PackDevice[]) {
+        devices.forEach((d) => {
+            const key = d.name.toUpperCase();
+            const existing = this.devices[key];
+            if (!existing || (existing.pack === d.pack && compareVersions(d.version, existing.version) > 0)) {
+                this.devices[key] = d;
+            }
+        });
+    }
+
+    public getDevices(): PackDevice[] {
+        return Object.keys(this.devices).map((k) => this.devices[k]);
+    }
+
+    // Device names are matched without case, a name that is the start of a single device name (without the package suffix) also matches
+    public find(name: string): PackDevice {
+        if (!name) { return null; }
+
+        const key = name.toUpperCase();
+        if (this.devices[key]) { return this.devices[key]; }
+
+        const candidates = Object.keys(this.devices).filter((k) => k.startsWith(key));
+        return candidates.length === 1 ? this.devices[candidates[0]] : null;
+    }
+}
+
+function readDirectory(directory: string): Promise<string[]> {
+    return new Promise((resolve) => {
+        fs.readdir(directory, (err, entries) => resolve(err ? [] : entries));
+    });
+}
+
+function isDirectory(file: string): Promise<boolean> {
+    return new Promise((resolve) => {
+        fs.stat(file, (err, stats) => resolve(!err && stats.isDirectory()));
+    });
+}
+
+async function findPackDescriptions(directory: string, depth: number): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await readDirectory(directory)) {
+        // .Web, .Download and .Local hold pack descriptions of packs that are not installed
+        if (entry.startsWith('.')) { continue; }
+
+        const fullpath = path.join(directory, entry);
+        if (entry.toLowerCase().endsWith(PACK_DESCRIPTION_EXTENSION)) { files.push(fullpath); }
+        else if (depth > 0 && await isDirectory(fullpath)) { files.push(...(await findPackDescriptions(fullpath, depth - 1))); }
+    }
+    return files;
+}
+
+function readPackDescription(file: string): Promise<PackDevice[]> {
+    return new Promise((resolve, reject) => {
+        fs.readFile(file, 'utf8', (err, data) => {
+            if (err) { reject(err); return; }
+            xml2js.parseString(data, (err, result) => {
+                if (err) { reject(err); return; }
+                try {
+                    resolve(parsePackDescription(result, path.dirname(file)));
+                }
+                catch (e) {
+                    reject(e);
+                }
+            });
+        });
+    });
+}
+
+/*
+ * Builds the device index of a CMSIS-Pack repository (the pack root directory used by Keil MDK, the CMSIS-Toolbox
+ * and Eclipse). Pack descriptions that can not be parsed are skipped, their errors are returned with the index.
+ */
+export async function scanPackRepository(root: string): Promise<{ index: DeviceIndex, errors: string[] }> {
+    const index = new DeviceIndex();
+    const errors: string[] = [];
+
+    for (const file of await findPackDescriptions(root, PACK_DIRECTORY_DEPTH)) {
+        try {
+            index.add(await readPackDescription(file));
+        }
+        catch (e) {
+            errors.push(`${file}: ${e.message || e.toString()}`);
+        }
+    }
+
+    return { index: index, errors: errors };
+}
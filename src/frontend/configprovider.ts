@@ -22,8 +22,36 @@ export class DeprecatedDebugConfigurationProvider implements vscode.DebugConfigu
     }
 }
 
+export function normalizeSWOConfiguration(config: vscode.DebugConfiguration) {
+    if (!config.swoConfig) {
+        config.swoConfig = { enabled: false, decoders: [], cpuFrequency: 0, swoFrequency: 0, source: 'probe' };
+    }
+    else {
+        if (config.swoConfig.ports && !config.swoConfig.decoders) {
+            config.swoConfig.decoders = config.swoConfig.ports;
+        }
+        if (!config.swoConfig.source) { config.swoConfig.source = 'probe'; }
+        if (!config.swoConfig.decoders) { config.swoConfig.decoders = []; }
+        if (!config.swoConfig.timestampPrescaler) { config.swoConfig.timestampPrescaler = 1; }
+        config.swoConfig.decoders.forEach((d, idx) => {
+            if (d.type === 'advanced') {
+                if (d.ports === undefined && d.number !== undefined) {
+                    d.ports = [d.number];
+                }
+            }
+            else if (d.type !== 'dwt') {
+                if (d.port === undefined && d.number !== undefined) {
+                    d.port = d.number;
+                }
+            }
+        });
+    }
+    if (!config.graphConfig) { config.graphConfig = []; }
+}
+
 const OPENOCD_VALID_RTOS: string[] = ['eCos', 'ThreadX', 'FreeRTOS', 'ChibiOS', 'embKernel', 'mqx', 'uCOS-III'];
 const JLINK_VALID_RTOS: string[] = ['FreeRTOS', 'embOS'];
+const LIVE_WATCH_SERVER_TYPES: string[] = ['jlink', 'openocd', 'external'];
 
 export class CortexDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
     constructor(private context: vscode.ExtensionContext) {}
@@ -42,35 +70,14 @@ export class CortexDebugConfigurationProvider implements vscode.DebugConfigurati
 
         let validationResponse: string = null;
 
-        if (!config.swoConfig) {
-            config.swoConfig = { enabled: false, decoders: [], cpuFrequency: 0, swoFrequency: 0, source: 'probe' };
-        }
-        else {
-            if (config.swoConfig.ports && !config.swoConfig.decoders) {
-                config.swoConfig.decoders = config.swoConfig.ports;
-            }
-            if (!config.swoConfig.source) { config.swoConfig.source = 'probe'; }
-            if (!config.swoConfig.decoders) { config.swoConfig.decoders = []; }
-            config.swoConfig.decoders.forEach((d, idx) => {
-                if (d.type === 'advanced') {
-                    if (d.ports === undefined && d.number !== undefined) {
-                        d.ports = [d.number];
-                    }
-                }
-                else {
-                    if (d.port === undefined && d.number !== undefined) {
-                        d.port = d.number;
-                    }
-                }
-            });
-        }
-        if (!config.graphConfig) { config.graphConfig = []; }
+        normalizeSWOConfiguration(config);
         if (!config.preLaunchCommands) { config.preLaunchCommands = []; }
         if (!config.postLaunchCommands) { config.postLaunchCommands = []; }
         if (!config.preAttachCommands) { config.preAttachCommands = []; }
         if (!config.postAttachCommands) { config.postAttachCommands = []; }
         if (!config.preRestartCommands) { config.preRestartCommands = []; }
         if (!config.postRestartCommands) { config.postRestartCommands = []; }
+        if (!config.breakpointCommands) { config.breakpointCommands = []; }
         if (config.request !== 'launch') { config.runToMain = false; }
 
         switch (type) {
@@ -89,13 +96,33 @@ export class CortexDebugConfigurationProvider implements vscode.DebugConfigurati
             case 'bmp':
                 validationResponse = this.verifyBMPConfiguration(folder, config);
                 break;
+            case 'qemu':
+                validationResponse = this.verifyQEMUConfiguration(folder, config);
+                break;
+            case 'external':
+                validationResponse = this.verifyExternalConfiguration(folder, config);
+                break;
             default:
-                validationResponse = 'Invalid servertype parameters. The following values are supported: "jlink", "openocd", "stutil", "pyocd", "bmp"';
+                // tslint:disable-next-line:max-line-length
+                validationResponse = 'Invalid servertype parameters. The following values are supported: "jlink", "openocd", "stutil", "pyocd", "bmp", "qemu", "external"';
                 break;
         }
 
+        if (!config.liveWatch) { config.liveWatch = { enabled: false, samplesPerSecond: 4 }; }
+        if (!config.liveWatch.samplesPerSecond) { config.liveWatch.samplesPerSecond = 4; }
+        if (config.liveWatch.enabled && LIVE_WATCH_SERVER_TYPES.indexOf(type) === -1) {
+            const supported = LIVE_WATCH_SERVER_TYPES.join(', ');
+            vscode.window.showWarningMessage(`Live watch needs a GDB server that allows a second connection (${supported}). Disabling live watch.`);
+            config.liveWatch.enabled = false;
+        }
+
+        if (!validationResponse && config.cores) {
+            validationResponse = this.verifyMultiCoreConfiguration(folder, config);
+        }
+
         const configuration = vscode.workspace.getConfiguration('cortex-debug');
         config.toolchainPath = configuration.armToolchainPath;
+        config.variableHexFormat = configuration.variableHexFormat;
 
         config.extensionPath = this.context.extensionPath;
         if (os.platform() === 'win32') {
@@ -107,15 +134,7 @@ export class CortexDebugConfigurationProvider implements vscode.DebugConfigurati
             return undefined;
         }
         
-        let executable: string = (config.executable || '');
-        executable = executable.replace(/\$\{\s*workspaceRoot\s*\}/, folder.uri.fsPath);
-        let cwd = config.cwd || '${workspaceRoot}';
-        cwd = cwd.replace(/\$\{\s*workspaceRoot\s*\}/, folder.uri.fsPath);
-
-        if (!path.isAbsolute(executable)) {
-            executable = path.normalize(path.join(cwd, executable));
-        }
-
+        const executable = this.resolveExecutable(folder, config, config.executable);
         if (fs.existsSync(executable)) {
             config.executable = executable;
         }
@@ -123,10 +142,58 @@ export class CortexDebugConfigurationProvider implements vscode.DebugConfigurati
             vscode.window.showErrorMessage(`Invalid executable: ${executable} not found.`);
             return undefined;
         }
+
+        if (config.cores) {
+            for (const core of config.cores) {
+                core.executable = this.resolveExecutable(folder, config, core.executable);
+                if (!fs.existsSync(core.executable)) {
+                    vscode.window.showErrorMessage(`Invalid executable for core ${core.name}: ${core.executable} not found.`);
+                    return undefined;
+                }
+            }
+        }
         
         return config;
     }
 
+    private resolveExecutable(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration, executable: string): string {
+        executable = (executable || '').replace(/\$\{\s*workspaceRoot\s*\}/, folder.uri.fsPath);
+        let cwd = config.cwd || '${workspaceRoot}';
+        cwd = cwd.replace(/\$\{\s*workspaceRoot\s*\}/, folder.uri.fsPath);
+
+        if (!path.isAbsolute(executable)) {
+            executable = path.normalize(path.join(cwd, executable));
+        }
+
+        return executable;
+    }
+
+    private verifyMultiCoreConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): string {
+        if (config.servertype !== 'openocd') {
+            return 'Multi-core configurations (cores) are currently only supported with the OpenOCD GDB server.';
+        }
+
+        if (!Array.isArray(config.cores) || config.cores.length === 0) {
+            return 'At least one core must be listed in cores.';
+        }
+
+        for (const core of config.cores) {
+            if (!core.name) { return 'Each entry in cores requires a name.'; }
+            if (!core.executable) { return `An executable is required for core ${core.name}.`; }
+            if (!core.targetId) {
+                return `The OpenOCD target name (targetId, e.g. "stm32h7x.cpu1") is required for core ${core.name}.`;
+            }
+            if (!core.svdFile) { core.svdFile = config.svdFile; }
+        }
+
+        // The session started from this configuration debugs the first core
+        config.executable = config.cores[0].executable;
+        config.svdFile = config.cores[0].svdFile;
+        config.targetId = config.cores[0].targetId;
+
+        return null;
+    }
+
     private verifyJLinkConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): string {
         if (config.jlinkpath && !config.serverpath) { config.serverpath = config.jlinkpath; }
         if (!config.interface && config.jlinkInterface) { config.interface = config.jlinkInterface; }
@@ -242,4 +309,49 @@ export class CortexDebugConfigurationProvider implements vscode.DebugConfigurati
 
         return null;
     }
+
+    private verifyQEMUConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): string {
+        if (!config.serverpath) {
+            const configuration = vscode.workspace.getConfiguration('cortex-debug');
+            config.serverpath = configuration.qemuPath;
+        }
+
+        if (!config.machine) {
+            return 'A machine is required for QEMU configurations. Run "qemu-system-arm -machine help" for the supported machines.';
+        }
+
+        if (config.request !== 'launch') {
+            return 'QEMU can only be used with launch configurations, as it is started together with the debug session.';
+        }
+
+        if (config.rtos) {
+            return 'The QEMU GDB Server does not have support for the rtos option.';
+        }
+
+        if (config.swoConfig.enabled) {
+            vscode.window.showWarningMessage('SWO support is not available when using QEMU. Disabling SWO.');
+            config.swoConfig = { enabled: false, ports: [], cpuFrequency: 0, swoFrequency: 0 };
+            config.graphConfig = [];
+        }
+
+        return null;
+    }
+
+    private verifyExternalConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): string {
+        if (!config.gdbTarget) {
+            return 'The address of the running GDB server (gdbTarget, e.g. "localhost:3333") is required for external configurations.';
+        }
+
+        if (config.rtos) {
+            return 'RTOS support for an external GDB server has to be configured in the server itself; the rtos option is not supported.';
+        }
+
+        if (config.swoConfig.enabled && config.swoConfig.source === 'probe') {
+            vscode.window.showWarningMessage('SWO support is not available from the probe when using an external GDB server. Disabling SWO.');
+            config.swoConfig = { enabled: false, ports: [], cpuFrequency: 0, swoFrequency: 0 };
+            config.graphConfig = [];
+        }
+
+        return null;
+    }
 }
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+
+import { PackDevice } from './cmsis_pack';
+import { hexFormat } from './utils';
+
+const DEVICE_PROPERTY = /"device"\s*:\s*"[^"]*$/;
+
+/*
+ * Completes the value of the device property in launch.json with the devices of the installed CMSIS-Packs.
+ */
+export class DeviceCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private getDevices: () => Thenable<PackDevice[]>) {}
+
+    public async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+        const prefix = document.lineAt(position.line).text.substring(0, position.character);
+        if (!DEVICE_PROPERTY.test(prefix)) { return []; }
+
+        const devices = await this.getDevices();
+        return devices.map((d) => {
+            const item = new vscode.CompletionItem(d.name, vscode.CompletionItemKind.Value);
+            item.detail = [d.vendor, d.core].filter((p) => p).join(' ');
+            item.documentation = this.documentation(d);
+            return item;
+        });
+    }
+
+    private documentation(device: PackDevice): string {
+        const lines = [`${device.family || device.name} (${device.pack} ${device.version})`];
+        device.memories.forEach((m) => {
+            lines.push(`${m.name}: ${hexFormat(m.start, 8)} - ${hexFormat(m.start + m.size - 1, 8)} (${m.access})`);
+        });
+        return lines.join('\n');
+    }
+}
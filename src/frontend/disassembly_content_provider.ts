@@ -19,7 +19,7 @@ export class DisassemblyContentProvider implements vscode.TextDocumentContentPro
                 funcName = pathParts[1];
             }
             
-            vscode.debug.activeDebugSession.customRequest('disassemble', { function: funcName, file: file }).then((data) => {
+            vscode.debug.activeDebugSession.customRequest('disassemble-function', { function: funcName, file: file }).then((data) => {
                 const instructions: DisassemblyInstruction[] = data.instructions;
 
                 let output = '';
@@ -4,44 +4,88 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-import { PeripheralTreeProvider, TreeNode, FieldNode, RecordType, BaseNode } from './peripheral';
+import { PeripheralTreeProvider, TreeNode, FieldNode, RecordType, BaseNode, RegisterNode, PeripheralNode, ClusterNode } from './peripheral';
+import { PeripheralSnapshotTreeProvider, PeripheralSnapshot, captureSnapshot, saveSnapshot, loadSnapshot, readRegisterValues } from './peripheral_snapshot';
+import { exportC, exportJSON, loadExport, importJSON } from './peripheral_export';
 import { RegisterTreeProvider, TreeNode as RTreeNode, RecordType as RRecordType, BaseNode as RBaseNode } from './registers';
+import { ProfilerTreeProvider, ProfileSortOrder, BaseNode as PBaseNode } from './profiler';
+import { RTOSTreeProvider, TaskNode } from './rtos/provider';
+import { LiveWatchTreeProvider, TreeNode as LWTreeNode } from './live_watch';
+import { FaultAnalyzer } from './fault_analyzer';
+import { DeviceIndex, PackDevice, scanPackRepository } from './cmsis_pack';
+import { DeviceCompletionProvider } from './device_completion';
 import { setTimeout } from 'timers';
 import { SWOCore } from './swo/core';
 import { SWOSource } from './swo/sources/common';
-import { SWOConfigureEvent, NumberFormat, ConfigurationArguments } from '../common';
+import { SWOConfigureEvent, NumberFormat, ConfigurationArguments, CoreConfiguration, LiveWatchConfiguration } from '../common';
 import { MemoryContentProvider } from './memory_content_provider';
+import { MemoryInspector } from './memory_inspector';
+import { MEMORY_FILE_FILTERS, MemoryFileFormat, memoryFileFormat, encodeMemoryFile, decodeMemoryFile } from './memory_files';
 import Reporting from '../reporting';
 
 import * as CopyPaste from 'copy-paste';
-import { DeprecatedDebugConfigurationProvider, CortexDebugConfigurationProvider } from './configprovider';
+import { DeprecatedDebugConfigurationProvider, CortexDebugConfigurationProvider, normalizeSWOConfiguration } from './configprovider';
 import { SocketSWOSource } from './swo/sources/socket';
 import { FifoSWOSource } from './swo/sources/fifo';
 import { FileSWOSource } from './swo/sources/file';
 import { SerialSWOSource } from './swo/sources/serial';
+import { CaptureSWOSource } from './swo/sources/capture';
+import { SWOCaptureWriter, SWOCapture, SWOCaptureConfiguration, readSWOCapture } from './swo/capture';
 import { DisassemblyContentProvider } from './disassembly_content_provider';
+import { hexFormat } from './utils';
 import { SymbolInformation, SymbolScope } from '../symbols';
 
+// Large transfers are split up so that no single GDB command runs long enough to time out
+const MEMORY_READ_CHUNK_SIZE = 4096;
+const MEMORY_WRITE_CHUNK_SIZE = 1024;
+
 interface SVDInfo {
     expression: RegExp;
     path: string;
 }
 
+interface CoreSession {
+    session: vscode.DebugSession;
+    svdFile: string;
+    liveWatch: LiveWatchConfiguration;
+    stopped: boolean;
+    running: boolean;
+    ready: boolean;
+}
+
 class CortexDebugExtension {
     private adapterOutputChannel: vscode.OutputChannel = null;
     private swo: SWOCore = null;
     private swosource: SWOSource = null;
+    private swoCapture: SWOCaptureWriter = null;
+    private replaySWO: SWOCore = null;
+    private replaySource: CaptureSWOSource = null;
 
     private peripheralProvider: PeripheralTreeProvider;
     private registerProvider: RegisterTreeProvider;
+    private profilerProvider: ProfilerTreeProvider;
+    private rtosProvider: RTOSTreeProvider;
+    private liveWatchProvider: LiveWatchTreeProvider;
+    private snapshotProvider: PeripheralSnapshotTreeProvider;
     private memoryProvider: MemoryContentProvider;
+    private memoryInspectors: MemoryInspector[] = [];
+    private faultAnalyzer: FaultAnalyzer = new FaultAnalyzer();
 
     private SVDDirectory: SVDInfo[] = [];
+    private packIndex: Thenable<DeviceIndex> = null;
     private functionSymbols: SymbolInformation[] = null;
 
+    // Sessions by id - with a multi-core configuration there is one per core and the views follow the selected one
+    private coreSessions: { [id: string]: CoreSession } = {};
+    private shownSessionId: string = null;
+
     constructor(private context: vscode.ExtensionContext) {
-        this.peripheralProvider = new PeripheralTreeProvider();
-        this.registerProvider = new RegisterTreeProvider();
+        this.peripheralProvider = new PeripheralTreeProvider(context.extensionPath);
+        this.registerProvider = new RegisterTreeProvider(context.extensionPath);
+        this.profilerProvider = new ProfilerTreeProvider(context.extensionPath);
+        this.rtosProvider = new RTOSTreeProvider();
+        this.liveWatchProvider = new LiveWatchTreeProvider(context.extensionPath);
+        this.snapshotProvider = new PeripheralSnapshotTreeProvider();
         this.memoryProvider = new MemoryContentProvider();
 
         let tmp = [];
@@ -67,22 +111,75 @@ class CortexDebugExtension {
             vscode.commands.registerCommand('cortex-debug.peripherals.updateNode', this.peripheralsUpdateNode.bind(this)),
             vscode.commands.registerCommand('cortex-debug.peripherals.selectedNode', this.peripheralsSelectedNode.bind(this)),
             vscode.commands.registerCommand('cortex-debug.peripherals.copyValue', this.peripheralsCopyValue.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.readNode', this.peripheralsReadNode.bind(this)),
             vscode.commands.registerCommand('cortex-debug.peripherals.setFormat', this.peripheralsSetFormat.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.setWatchpoint', this.peripheralsSetWatchpoint.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.captureSnapshot', this.peripheralsCaptureSnapshot.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.compareSnapshots', this.peripheralsCompareSnapshots.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.saveSnapshot', this.peripheralsSaveSnapshot.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.loadSnapshot', this.peripheralsLoadSnapshot.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.exportC', this.peripheralsExportC.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.exportJSON', this.peripheralsExportJSON.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.importJSON', this.peripheralsImportJSON.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.showChangedOnly', () => this.peripheralsShowChangedOnly(true)),
+            vscode.commands.registerCommand('cortex-debug.peripherals.showAll', () => this.peripheralsShowChangedOnly(false)),
+            vscode.commands.registerCommand('cortex-debug.peripheralSnapshots.clear', () => this.snapshotProvider.clear()),
             vscode.commands.registerCommand('cortex-debug.registers.selectedNode', this.registersSelectedNode.bind(this)),
             vscode.commands.registerCommand('cortex-debug.registers.copyValue', this.registersCopyValue.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.registers.updateNode', this.registersUpdateNode.bind(this)),
             vscode.commands.registerCommand('cortex-debug.registers.setFormat', this.registersSetFormat.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.registers.showChangedOnly', () => this.registersShowChangedOnly(true)),
+            vscode.commands.registerCommand('cortex-debug.registers.showAll', () => this.registersShowChangedOnly(false)),
+            vscode.commands.registerCommand('cortex-debug.rtos.selectedNode', this.rtosSelectedNode.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.liveWatch.addExpression', this.liveWatchAddExpression.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.liveWatch.removeExpression', this.liveWatchRemoveExpression.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.liveWatch.copyValue', this.liveWatchCopyValue.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.liveWatch.setFormat', this.liveWatchSetFormat.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.liveWatch.plot', this.liveWatchPlot.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.liveWatch.unplot', this.liveWatchUnplot.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.profiler.selectedNode', this.profilerSelectedNode.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.profiler.start', this.profilerStart.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.profiler.stop', this.profilerStop.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.profiler.reset', this.profilerReset.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.profiler.setSortOrder', this.profilerSetSortOrder.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.profiler.export', this.profilerExport.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.swo.replayCapture', this.replaySWOCapture.bind(this)),
             vscode.commands.registerCommand('cortex-debug.examineMemory', this.examineMemory.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.memoryInspector', this.openMemoryInspector.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.dumpMemory', this.dumpMemory.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.loadMemory', this.loadMemory.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.analyzeFault', this.analyzeFault.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.pack.rescan', this.rescanPackRepository.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.pack.deviceInfo', this.getDeviceInfo.bind(this)),
             vscode.commands.registerCommand('cortex-debug.viewDisassembly', this.showDisassembly.bind(this)),
             vscode.commands.registerCommand('cortex-debug.setForceDisassembly', this.setForceDisassembly.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.setVariableFormat', this.setVariableFormat.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.toggleVariableHexFormat', this.toggleVariableHexFormat.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.setWatchpoint', this.setWatchpoint.bind(this)),
+            vscode.commands.registerCommand('cortex-debug.removeWatchpoint', this.removeWatchpoint.bind(this)),
             vscode.window.registerTreeDataProvider('cortex-debug.peripherals', this.peripheralProvider),
+            vscode.window.registerTreeDataProvider('cortex-debug.peripheralSnapshots', this.snapshotProvider),
             vscode.window.registerTreeDataProvider('cortex-debug.registers', this.registerProvider),
+            vscode.window.registerTreeDataProvider('cortex-debug.profiler', this.profilerProvider),
+            vscode.window.registerTreeDataProvider('cortex-debug.rtos', this.rtosProvider),
+            vscode.window.registerTreeDataProvider('cortex-debug.liveWatch', this.liveWatchProvider),
             vscode.debug.onDidReceiveDebugSessionCustomEvent(this.receivedCustomEvent.bind(this)),
             vscode.debug.onDidStartDebugSession(this.debugSessionStarted.bind(this)),
             vscode.debug.onDidTerminateDebugSession(this.debugSessionTerminated.bind(this)),
+            vscode.debug.onDidChangeActiveDebugSession(this.activeDebugSessionChanged.bind(this)),
             vscode.window.onDidChangeActiveTextEditor(this.activeEditorChanged.bind(this)),
             vscode.window.onDidChangeTextEditorSelection((e: vscode.TextEditorSelectionChangeEvent) => {
                 if (e && e.textEditor.document.fileName.endsWith('.cdmem')) { this.memoryProvider.handleSelection(e); }
             }),
+            vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
+                // The index of the new repository is built when it is next needed
+                if (e.affectsConfiguration('cortex-debug.packRepositoryPath')) { this.packIndex = null; }
+                if (e.affectsConfiguration('cortex-debug.variableHexFormat')) { this.sendVariableHexFormat(); }
+            }),
+            vscode.languages.registerCompletionItemProvider(
+                [{ language: 'json', pattern: '**/launch.json' }, { language: 'jsonc', pattern: '**/launch.json' }],
+                new DeviceCompletionProvider(() => this.getPackIndex().then((index) => index.getDevices())), '"'
+            ),
             vscode.debug.registerDebugConfigurationProvider('jlink-gdb', new DeprecatedDebugConfigurationProvider(context, 'jlink')),
             vscode.debug.registerDebugConfigurationProvider('openocd-gdb', new DeprecatedDebugConfigurationProvider(context, 'openocd')),
             vscode.debug.registerDebugConfigurationProvider('stutil-gdb', new DeprecatedDebugConfigurationProvider(context, 'stutil')),
@@ -91,9 +188,58 @@ class CortexDebugExtension {
         );
     }
 
-    private getSVDFile(device: string): string {
+    // The SVD files shipped with the extension are used first, then the ones of the installed CMSIS-Packs
+    private async getSVDFile(device: string): Promise<string> {
         const entry = this.SVDDirectory.find((de) => de.expression.test(device));
-        return entry ? entry.path : null;
+        if (entry) { return path.join(this.context.extensionPath, entry.path); }
+
+        const packDevice = (await this.getPackIndex()).find(device);
+        return packDevice && packDevice.svdFile ? packDevice.svdFile : null;
+    }
+
+    private getPackRepositoryPath(): string {
+        const configured: string = vscode.workspace.getConfiguration('cortex-debug').packRepositoryPath;
+        if (configured) { return configured; }
+        if (process.env.CMSIS_PACK_ROOT) { return process.env.CMSIS_PACK_ROOT; }
+
+        // The default pack root of the CMSIS-Toolbox
+        return os.platform() === 'win32'
+            ? path.join(process.env.LOCALAPPDATA || os.homedir(), 'Arm', 'Packs')
+            : path.join(os.homedir(), '.cache', 'arm', 'packs');
+    }
+
+    // The pack repository is only scanned when a device is first looked up in it, the index is then kept until a rescan
+    private getPackIndex(): Thenable<DeviceIndex> {
+        return this.packIndex || this.scanPackRepository();
+    }
+
+    private scanPackRepository() {
+        const root = this.getPackRepositoryPath();
+        this.packIndex = scanPackRepository(root).then((result) => {
+            if (result.errors.length > 0) {
+                vscode.window.showWarningMessage(`Unable to read ${result.errors.length} pack description(s) in ${root}: ${result.errors[0]}`);
+            }
+            return result.index;
+        }, (error) => {
+            vscode.window.showWarningMessage(`Unable to scan CMSIS-Pack repository ${root}: ${error.toString()}`);
+            return new DeviceIndex();
+        });
+        return this.packIndex;
+    }
+
+    private async rescanPackRepository(): Promise<void> {
+        const index = await this.scanPackRepository();
+        const count = index.getDevices().length;
+        vscode.window.showInformationMessage(`Found ${count} device(s) in CMSIS-Pack repository ${this.getPackRepositoryPath()}`);
+        Reporting.sendEvent('CMSIS-Pack', 'Rescan', `${count}`);
+    }
+
+    // Pack information (SVD file, memory regions and flash algorithms) of a device, or of the device of the active session
+    private async getDeviceInfo(device?: string): Promise<PackDevice> {
+        if (!device && vscode.debug.activeDebugSession && vscode.debug.activeDebugSession.type === 'cortex-debug') {
+            device = vscode.debug.activeDebugSession.configuration.device;
+        }
+        return (await this.getPackIndex()).find(device);
     }
 
     private activeEditorChanged(editor: vscode.TextEditor) {
@@ -177,7 +323,7 @@ class CortexDebugExtension {
     private setForceDisassembly() {
         vscode.window.showQuickPick(
             [
-                { label: 'Auto', description: 'Show disassembly for functions when source cannot be located.' },
+                { label: 'Auto', description: 'Show the disassembly view when source cannot be located.' },
                 { label: 'Forced', description: 'Always show disassembly for functions.' }
             ],
             { matchOnDescription: true, ignoreFocusOut: true }
@@ -188,6 +334,45 @@ class CortexDebugExtension {
         }, (error) => {});
     }
 
+    private async setVariableFormat(): Promise<void> {
+        const expression = await vscode.window.showInputBox({ placeHolder: 'Variable or watch expression', ignoreFocusOut: true });
+        if (!expression) { return; }
+
+        const result = await vscode.window.showQuickPick([
+            { label: 'Auto', description: 'Natural format (hexadecimal when integers are shown in hexadecimal)', value: NumberFormat.Auto },
+            { label: 'Hex', description: 'Format integers in hexadecimal', value: NumberFormat.Hexidecimal },
+            { label: 'Decimal', description: 'Format integers and pointers in decimal', value: NumberFormat.Decimal },
+            { label: 'Binary', description: 'Format integers in binary', value: NumberFormat.Binary },
+            { label: 'Char', description: 'Format integers with their character', value: NumberFormat.Char }
+        ]);
+        if (!result) { return; }
+
+        try {
+            await vscode.debug.activeDebugSession.customRequest('set-variable-format', { expression: expression, format: result.value });
+            Reporting.sendEvent('Variables', 'Set Format', result.label);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to set variable format: ${e.message || e.toString()}`);
+        }
+    }
+
+    private toggleVariableHexFormat() {
+        const configuration = vscode.workspace.getConfiguration('cortex-debug');
+        const hex = !configuration.get('variableHexFormat', false);
+        // The sessions are updated through the configuration change
+        configuration.update('variableHexFormat', hex, vscode.ConfigurationTarget.Global).then(() => {}, (error) => {
+            vscode.window.showErrorMessage(`Unable to change the variable format: ${error.message || error.toString()}`);
+        });
+        Reporting.sendEvent('Variables', 'Hex Format', hex ? 'On' : 'Off');
+    }
+
+    private sendVariableHexFormat() {
+        const hex = vscode.workspace.getConfiguration('cortex-debug').get('variableHexFormat', false);
+        Object.keys(this.coreSessions).forEach((id) => {
+            this.coreSessions[id].session.customRequest('set-hex-format', { hex: hex }).then(undefined, (error) => {});
+        });
+    }
+
     private examineMemory() {
         function validateValue(address) {
             if (/^0x[0-9a-f]{1,8}$/i.test(address)) {
@@ -253,6 +438,224 @@ class CortexDebugExtension {
         );
     }
 
+    private async analyzeFault(): Promise<void> {
+        if (!vscode.debug.activeDebugSession) {
+            vscode.window.showErrorMessage('No debugging session available');
+            return;
+        }
+
+        await this.faultAnalyzer.analyzeCommand(vscode.debug.activeDebugSession);
+    }
+
+    private async openMemoryInspector(): Promise<void> {
+        if (!vscode.debug.activeDebugSession) {
+            vscode.window.showErrorMessage('No debugging session available');
+            return;
+        }
+
+        const expression = await vscode.window.showInputBox({
+            placeHolder: 'Prefix with 0x for hexidecimal format, or enter an expression such as &buffer[4]',
+            ignoreFocusOut: true,
+            prompt: 'Memory Address'
+        });
+        if (!expression) { return; }
+
+        const inspector = new MemoryInspector(this.context.extensionPath, expression, (closed) => {
+            this.memoryInspectors = this.memoryInspectors.filter((mi) => mi !== closed);
+        });
+        this.memoryInspectors.push(inspector);
+        Reporting.sendEvent('Memory Inspector', 'Opened');
+    }
+
+    private async promptForNumber(prompt: string): Promise<number> {
+        const value = await vscode.window.showInputBox({
+            placeHolder: 'Prefix with 0x for hexidecimal format',
+            ignoreFocusOut: true,
+            prompt: prompt
+        });
+        if (!value) { return null; }
+
+        const trimmed = value.trim();
+        if (/^0x[0-9a-f]{1,8}$/i.test(trimmed)) { return parseInt(trimmed.substring(2), 16); }
+        else if (/^[0-9]+$/.test(trimmed)) { return parseInt(trimmed, 10); }
+
+        vscode.window.showErrorMessage(`Invalid value entered for ${prompt}: ${value}`);
+        return null;
+    }
+
+    private async dumpMemory(): Promise<void> {
+        const session = vscode.debug.activeDebugSession;
+        if (!session) {
+            vscode.window.showErrorMessage('No debugging session available');
+            return;
+        }
+
+        const address = await this.promptForNumber('Start Address');
+        if (address === null) { return; }
+        const length = await this.promptForNumber('Length');
+        if (!length) { return; }
+
+        const uri = await vscode.window.showSaveDialog({ filters: MEMORY_FILE_FILTERS });
+        if (!uri) { return; }
+        const format = memoryFileFormat(uri.fsPath);
+
+        try {
+            const data: Buffer = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Reading ${length} bytes from ${hexFormat(address, 8)}`,
+                cancellable: true
+            }, async (progress, token) => {
+                const chunks: Buffer[] = [];
+                for (let offset = 0; offset < length; offset += MEMORY_READ_CHUNK_SIZE) {
+                    if (token.isCancellationRequested) { return null; }
+
+                    const size = Math.min(MEMORY_READ_CHUNK_SIZE, length - offset);
+                    const result = await session.customRequest('read-memory', { address: address + offset, length: size });
+                    // A partly unreadable range comes back short, which would shift every later chunk in the file
+                    if (result.bytes.length !== size) {
+                        throw new Error(`${hexFormat(address + offset + result.bytes.length, 8)} can not be read`);
+                    }
+                    chunks.push(new Buffer(result.bytes));
+                    progress.report({ increment: size * 100 / length });
+                }
+                return Buffer.concat(chunks);
+            });
+            if (!data) { return; }
+
+            fs.writeFileSync(uri.fsPath, encodeMemoryFile(format, address, data, path.basename(uri.fsPath)));
+            vscode.window.showInformationMessage(`Saved ${data.length} bytes from ${hexFormat(address, 8)} to ${uri.fsPath}`);
+            Reporting.sendEvent('Memory', 'Dump', format);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to dump memory: ${e.message || e}`);
+            Reporting.sendEvent('Memory', 'Dump Error', e.toString());
+        }
+    }
+
+    private async loadMemory(): Promise<void> {
+        const session = vscode.debug.activeDebugSession;
+        if (!session) {
+            vscode.window.showErrorMessage('No debugging session available');
+            return;
+        }
+
+        const uris = await vscode.window.showOpenDialog({ canSelectMany: false, filters: MEMORY_FILE_FILTERS });
+        if (!uris || uris.length === 0) { return; }
+        const filename = uris[0].fsPath;
+        const format = memoryFileFormat(filename);
+
+        let address = 0;
+        if (format === MemoryFileFormat.Binary) {
+            address = await this.promptForNumber('Load Address');
+            if (address === null) { return; }
+        }
+
+        try {
+            const blocks = decodeMemoryFile(format, fs.readFileSync(filename), address);
+            const total = blocks.reduce((count, block) => count + block.data.length, 0);
+
+            const written: number = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Writing ${total} bytes from ${path.basename(filename)}`,
+                cancellable: true
+            }, async (progress, token) => {
+                let count = 0;
+                for (const block of blocks) {
+                    for (let offset = 0; offset < block.data.length; offset += MEMORY_WRITE_CHUNK_SIZE) {
+                        if (token.isCancellationRequested) { return count; }
+
+                        const chunk = block.data.slice(offset, offset + MEMORY_WRITE_CHUNK_SIZE);
+                        await session.customRequest('write-memory', { address: block.address + offset, data: chunk.toString('hex') });
+                        count += chunk.length;
+                        progress.report({ increment: chunk.length * 100 / total });
+                    }
+                }
+                return count;
+            });
+
+            vscode.window.showInformationMessage(`Wrote ${written} of ${total} bytes from ${path.basename(filename)}`);
+            Reporting.sendEvent('Memory', 'Load', format);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to load memory: ${e.message || e}`);
+            Reporting.sendEvent('Memory', 'Load Error', e.toString());
+        }
+    }
+
+    // Watchpoints
+    private async addWatchpoint(expression: string): Promise<void> {
+        const access = await vscode.window.showQuickPick([
+            { label: 'Write', description: 'Break when the value is written', value: 'write' },
+            { label: 'Read', description: 'Break when the value is read', value: 'read' },
+            { label: 'Access', description: 'Break when the value is read or written', value: 'readWrite' }
+        ], { placeHolder: 'Watchpoint Type', ignoreFocusOut: true });
+        if (!access) { return; }
+
+        try {
+            await vscode.debug.activeDebugSession.customRequest('set-watchpoint', { expression: expression, accessType: access.value });
+            Reporting.sendEvent('Watchpoints', 'Set', access.label);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(e.message || e.toString());
+            Reporting.sendEvent('Watchpoints', 'Error', e.toString());
+        }
+    }
+
+    private async setWatchpoint(): Promise<void> {
+        if (!vscode.debug.activeDebugSession) {
+            vscode.window.showErrorMessage('No debugging session available');
+            return;
+        }
+
+        const target = await vscode.window.showInputBox({
+            placeHolder: 'Prefix with 0x for hexidecimal format',
+            ignoreFocusOut: true,
+            prompt: 'Memory address or expression to watch'
+        });
+        if (!target) { return; }
+
+        let expression = target.trim();
+        if (/^(0x[0-9a-f]{1,8}|[0-9]+)$/i.test(expression)) {
+            const size = await vscode.window.showQuickPick([
+                { label: 'Word', description: '32 bits', value: 'unsigned int' },
+                { label: 'Half Word', description: '16 bits', value: 'unsigned short' },
+                { label: 'Byte', description: '8 bits', value: 'unsigned char' }
+            ], { placeHolder: 'Access Size', ignoreFocusOut: true });
+            if (!size) { return; }
+
+            expression = `*(${size.value} *)${expression}`;
+        }
+
+        await this.addWatchpoint(expression);
+    }
+
+    private async removeWatchpoint(): Promise<void> {
+        if (!vscode.debug.activeDebugSession) {
+            vscode.window.showErrorMessage('No debugging session available');
+            return;
+        }
+
+        const result = await vscode.debug.activeDebugSession.customRequest('list-watchpoints');
+        if (result.watchpoints.length === 0) {
+            vscode.window.showInformationMessage('No watchpoints have been set.');
+            return;
+        }
+
+        const items: Array<{ label: string, description: string, value: number }> = result.watchpoints.map((wp) => {
+            return { label: wp.expression, description: wp.accessType, value: wp.number };
+        });
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Watchpoint to remove', ignoreFocusOut: true });
+        if (!selected) { return; }
+
+        try {
+            await vscode.debug.activeDebugSession.customRequest('remove-watchpoint', { number: selected.value });
+            Reporting.sendEvent('Watchpoints', 'Remove');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(e.message || e.toString());
+        }
+    }
+
     // Peripherals
     private peripheralsUpdateNode(node: TreeNode): void {
         node.node.performUpdate().then((result) => {
@@ -261,10 +664,21 @@ class CortexDebugExtension {
                 Reporting.sendEvent('Peripheral View', 'Update Node');
             }
         }, (error) => {
-            vscode.window.showErrorMessage(`Unable to update value: ${error.toString()}`);
+            vscode.window.showErrorMessage(`Unable to update value: ${error.message || error.toString()}`);
         });
     }
 
+    private async peripheralsReadNode(tn: TreeNode): Promise<void> {
+        try {
+            await (tn.node as RegisterNode).readValue();
+            this.peripheralProvider.refresh();
+            Reporting.sendEvent('Peripheral View', 'Read Node');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to read value: ${e.message || e.toString()}`);
+        }
+    }
+
     private peripheralsSelectedNode(node: BaseNode): void {
         if (node.recordType !== RecordType.Field) { node.expanded = !node.expanded; }
 
@@ -296,8 +710,197 @@ class CortexDebugExtension {
         Reporting.sendEvent('Peripheral View', 'Set Format', result.label);
     }
 
+    private peripheralsShowChangedOnly(changedOnly: boolean): void {
+        this.peripheralProvider.setChangedOnly(changedOnly);
+        vscode.commands.executeCommand('setContext', 'cortex-debug.peripherals.changedOnly', changedOnly);
+        Reporting.sendEvent('Peripheral View', 'Changed Only', changedOnly ? 'On' : 'Off');
+    }
+
+    private async peripheralsSetWatchpoint(tn: TreeNode): Promise<void> {
+        const register = tn.node as RegisterNode;
+        const types = { 8: 'unsigned char', 16: 'unsigned short', 32: 'unsigned int' };
+        if (!types[register.size]) {
+            vscode.window.showErrorMessage(`Register ${register.name} has invalid size: ${register.size}. Should be 8, 16 or 32.`);
+            return;
+        }
+
+        await this.addWatchpoint(`*(${types[register.size]} *)${hexFormat(register.getAddress(), 8)}`);
+    }
+
+    private async pickSnapshot(placeHolder: string, snapshots: PeripheralSnapshot[]): Promise<PeripheralSnapshot> {
+        const result = await vscode.window.showQuickPick(snapshots.map((s) => ({
+            label: s.label,
+            description: `${new Date(s.timestamp).toLocaleString()} - ${Object.keys(s.peripherals).join(', ')}`,
+            value: s
+        })), { placeHolder: placeHolder });
+        return result ? result.value : null;
+    }
+
+    private async peripheralsCaptureSnapshot(): Promise<void> {
+        const session = vscode.debug.activeDebugSession;
+        const peripherals = this.peripheralProvider.getPeripherals();
+        if (!session || peripherals.length === 0) {
+            vscode.window.showErrorMessage('A debugging session with an SVD file is needed to capture peripherals');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(peripherals.map((p) => ({
+            label: p.name,
+            description: p.groupName,
+            picked: p.expanded,
+            value: p
+        })), { canPickMany: true, placeHolder: 'Peripherals to capture' });
+        if (!selected || selected.length === 0) { return; }
+
+        const label = await vscode.window.showInputBox({
+            prompt: 'Snapshot name',
+            value: `Snapshot ${this.snapshotProvider.getSnapshots().length + 1}`,
+            ignoreFocusOut: true
+        });
+        if (!label) { return; }
+
+        try {
+            const snapshot = await captureSnapshot(session, selected.map((s) => s.value), label);
+            this.snapshotProvider.addSnapshot(snapshot);
+            vscode.window.showInformationMessage(`Captured ${selected.length} peripheral(s) as "${label}"`);
+            Reporting.sendEvent('Peripheral View', 'Capture Snapshot');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to capture peripherals: ${e.message || e}`);
+        }
+    }
+
+    private async peripheralsCompareSnapshots(): Promise<void> {
+        const snapshots = this.snapshotProvider.getSnapshots();
+        const peripherals = this.peripheralProvider.getPeripherals();
+        if (snapshots.length === 0 || peripherals.length === 0) {
+            vscode.window.showErrorMessage('Capture or load a snapshot during a debugging session with an SVD file first');
+            return;
+        }
+
+        const before = await this.pickSnapshot('Snapshot to compare from', snapshots);
+        if (!before) { return; }
+
+        const CURRENT = 'Current Values';
+        const others = snapshots.filter((s) => s !== before);
+        const choices = others.map((s) => ({ label: s.label, description: new Date(s.timestamp).toLocaleString(), value: s }));
+        if (vscode.debug.activeDebugSession) {
+            choices.unshift({ label: CURRENT, description: 'Read the same peripherals from the target now', value: null });
+        }
+        const target = await vscode.window.showQuickPick(choices, { placeHolder: `Compare "${before.label}" with` });
+        if (!target) { return; }
+
+        try {
+            let after = target.value;
+            if (!after) {
+                const captured = peripherals.filter((p) => !!before.peripherals[p.name]);
+                after = await captureSnapshot(vscode.debug.activeDebugSession, captured, CURRENT);
+            }
+
+            const changed = this.snapshotProvider.compare(peripherals, before, after);
+            vscode.window.showInformationMessage(`${changed} peripheral(s) differ between "${before.label}" and "${after.label}"`);
+            Reporting.sendEvent('Peripheral View', 'Compare Snapshots');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to compare snapshots: ${e.message || e}`);
+        }
+    }
+
+    private async peripheralsSaveSnapshot(): Promise<void> {
+        const snapshots = this.snapshotProvider.getSnapshots();
+        if (snapshots.length === 0) {
+            vscode.window.showErrorMessage('No peripheral snapshots have been captured');
+            return;
+        }
+
+        const snapshot = await this.pickSnapshot('Snapshot to save', snapshots);
+        if (!snapshot) { return; }
+
+        const uri = await vscode.window.showSaveDialog({ filters: { 'Peripheral Snapshot': ['json'] } });
+        if (!uri) { return; }
+
+        try {
+            saveSnapshot(snapshot, uri.fsPath);
+            Reporting.sendEvent('Peripheral View', 'Save Snapshot');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to save snapshot: ${e.toString()}`);
+        }
+    }
+
+    private async peripheralsLoadSnapshot(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Peripheral Snapshot': ['json'], 'All Files': ['*'] }
+        });
+        if (!uris || uris.length === 0) { return; }
+
+        try {
+            const snapshot = loadSnapshot(uris[0].fsPath);
+            this.snapshotProvider.addSnapshot(snapshot);
+            vscode.window.showInformationMessage(`Loaded snapshot "${snapshot.label}"`);
+            Reporting.sendEvent('Peripheral View', 'Load Snapshot');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to load snapshot: ${e.message || e}`);
+        }
+    }
+
+    private async peripheralsExportC(tn: TreeNode): Promise<void> {
+        const node = tn.node as PeripheralNode | ClusterNode;
+        try {
+            const values = await readRegisterValues(vscode.debug.activeDebugSession, node);
+            const document = await vscode.workspace.openTextDocument({ language: 'c', content: exportC(node, values) });
+            await vscode.window.showTextDocument(document);
+            Reporting.sendEvent('Peripheral View', 'Export', 'C');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to export registers: ${e.message || e.toString()}`);
+        }
+    }
+
+    private async peripheralsExportJSON(tn: TreeNode): Promise<void> {
+        const node = tn.node as PeripheralNode | ClusterNode;
+        const uri = await vscode.window.showSaveDialog({ filters: { 'Peripheral Registers': ['json'] } });
+        if (!uri) { return; }
+
+        try {
+            const values = await readRegisterValues(vscode.debug.activeDebugSession, node);
+            fs.writeFileSync(uri.fsPath, JSON.stringify(exportJSON(node, values), null, 4), { encoding: 'utf8', flag: 'w' });
+            Reporting.sendEvent('Peripheral View', 'Export', 'JSON');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to export registers: ${e.message || e.toString()}`);
+        }
+    }
+
+    private async peripheralsImportJSON(tn: TreeNode): Promise<void> {
+        const node = tn.node as PeripheralNode | ClusterNode;
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Peripheral Registers': ['json'], 'All Files': ['*'] }
+        });
+        if (!uris || uris.length === 0) { return; }
+
+        try {
+            const result = await importJSON(node, loadExport(uris[0].fsPath));
+            if (result.errors.length > 0) {
+                vscode.window.showWarningMessage(`Wrote ${result.written} field(s), skipped: ${result.errors.join(', ')}`);
+            }
+            else {
+                vscode.window.showInformationMessage(`Wrote ${result.written} field(s)`);
+            }
+            Reporting.sendEvent('Peripheral View', 'Import', 'JSON');
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to import registers: ${e.message || e.toString()}`);
+        }
+
+        node.getPeripheral().update().then(() => this.peripheralProvider.refresh(), () => this.peripheralProvider.refresh());
+    }
+
     // Registers
-    private registersSelectedNode(node: BaseNode): void {
+    private registersSelectedNode(node: RBaseNode): void {
         if (node.recordType !== RRecordType.Field) { node.expanded = !node.expanded; }
     }
 
@@ -309,6 +912,17 @@ class CortexDebugExtension {
         }
     }
 
+    private registersUpdateNode(tn: RTreeNode): void {
+        tn.node.performUpdate().then((result) => {
+            if (result) {
+                this.registerProvider.refresh();
+                Reporting.sendEvent('Register View', 'Update Node');
+            }
+        }, (error) => {
+            vscode.window.showErrorMessage(`Unable to update value: ${error.message || error.toString()}`);
+        });
+    }
+
     private async registersSetFormat(tn: RTreeNode): Promise<void> {
         const result = await vscode.window.showQuickPick([
             { label: 'Auto', description: 'Automatically choose format (Inherits from parent)', value: NumberFormat.Auto },
@@ -322,33 +936,277 @@ class CortexDebugExtension {
         Reporting.sendEvent('Register View', 'Set Format', result.label);
     }
 
+    private registersShowChangedOnly(changedOnly: boolean): void {
+        this.registerProvider.setChangedOnly(changedOnly);
+        vscode.commands.executeCommand('setContext', 'cortex-debug.registers.changedOnly', changedOnly);
+        Reporting.sendEvent('Register View', 'Changed Only', changedOnly ? 'On' : 'Off');
+    }
+
+    // RTOS
+    private rtosSelectedNode(node: TaskNode): void {
+        if (node) { node.expanded = !node.expanded; }
+    }
+
+    // Live Watch
+    private async liveWatchAddExpression(): Promise<void> {
+        const expression = await vscode.window.showInputBox({
+            placeHolder: 'Global or static variable (name or \'file.c\'::name)',
+            ignoreFocusOut: true,
+            prompt: 'Variable to sample while the target is running'
+        });
+        if (!expression || !expression.trim()) { return; }
+
+        await this.liveWatchProvider.addExpression(expression.trim());
+        Reporting.sendEvent('Live Watch', 'Add Expression');
+    }
+
+    private liveWatchRemoveExpression(tn: LWTreeNode): void {
+        this.liveWatchProvider.removeExpression(tn.node);
+        Reporting.sendEvent('Live Watch', 'Remove Expression');
+    }
+
+    private liveWatchCopyValue(tn: LWTreeNode): void {
+        CopyPaste.copy(tn.node.getCopyValue());
+        Reporting.sendEvent('Live Watch', 'Copy Value');
+    }
+
+    private async liveWatchSetFormat(tn: LWTreeNode): Promise<void> {
+        const result = await vscode.window.showQuickPick([
+            { label: 'Auto', description: 'Format value in decimal', value: NumberFormat.Auto },
+            { label: 'Hex', description: 'Format value in hexidecimal', value: NumberFormat.Hexidecimal },
+            { label: 'Decimal', description: 'Format value in decimal', value: NumberFormat.Decimal },
+            { label: 'Binary', description: 'Format value in binary', value: NumberFormat.Binary }
+        ]);
+        if (!result) { return; }
+
+        this.liveWatchProvider.setFormat(tn.node, result.value);
+        Reporting.sendEvent('Live Watch', 'Set Format', result.label);
+    }
+
+    private liveWatchPlot(tn: LWTreeNode): void {
+        if (tn.node.address !== null && !tn.node.isNumeric()) {
+            vscode.window.showErrorMessage(`${tn.node.expression} is ${tn.node.length} bytes long and can not be plotted. Only 1, 2, 4 and 8 byte variables can be plotted.`);
+            return;
+        }
+
+        this.liveWatchProvider.setPlotted(tn.node, true);
+        Reporting.sendEvent('Live Watch', 'Plot');
+    }
+
+    private liveWatchUnplot(tn: LWTreeNode): void {
+        this.liveWatchProvider.setPlotted(tn.node, false);
+        Reporting.sendEvent('Live Watch', 'Unplot');
+    }
+
+    // Profiler
+    private profilerSelectedNode(node: PBaseNode): void {
+        if (node) { node.expanded = !node.expanded; }
+    }
+
+    private profilerStart(): void {
+        this.profilerProvider.start();
+        Reporting.sendEvent('Profiler', 'Start');
+    }
+
+    private profilerStop(): void {
+        this.profilerProvider.stop();
+        Reporting.sendEvent('Profiler', 'Stop');
+    }
+
+    private profilerReset(): void {
+        this.profilerProvider.reset();
+        Reporting.sendEvent('Profiler', 'Reset');
+    }
+
+    private async profilerSetSortOrder(): Promise<void> {
+        const result = await vscode.window.showQuickPick([
+            { label: 'Samples', description: 'Sort by number of samples (highest first)', value: ProfileSortOrder.Samples },
+            { label: 'Name', description: 'Sort by function name and source line', value: ProfileSortOrder.Name }
+        ]);
+        if (!result) { return; }
+
+        this.profilerProvider.setSortOrder(result.value);
+        Reporting.sendEvent('Profiler', 'Sort Order', result.label);
+    }
+
+    private async profilerExport(): Promise<void> {
+        const uri = await vscode.window.showSaveDialog({
+            filters: {
+                'CSV': ['csv'],
+                'Collapsed Stacks': ['folded', 'txt']
+            }
+        });
+        if (!uri) { return; }
+
+        try {
+            if (uri.fsPath.toLowerCase().endsWith('.csv')) {
+                this.profilerProvider.exportCSV(uri.fsPath);
+                Reporting.sendEvent('Profiler', 'Export', 'CSV');
+            }
+            else {
+                this.profilerProvider.exportCollapsedStacks(uri.fsPath);
+                Reporting.sendEvent('Profiler', 'Export', 'Collapsed Stacks');
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to export profile: ${e.toString()}`);
+        }
+    }
+
+    // SWO Capture
+    private startSWOCapture(args: ConfigurationArguments) {
+        this.stopSWOCapture();
+
+        let capturePath = args.swoConfig.captureFile;
+        if (!path.isAbsolute(capturePath) && vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
+            capturePath = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, capturePath);
+        }
+
+        let writer: SWOCaptureWriter;
+        try {
+            writer = new SWOCaptureWriter(capturePath, args);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to create SWO capture file ${capturePath}: ${e.toString()}`);
+            return;
+        }
+
+        this.swoCapture = writer;
+        this.swosource.on('data', (data: Buffer) => writer.writeData(data));
+        if (vscode.debug.activeDebugSession) {
+            vscode.debug.activeDebugSession.customRequest('load-function-symbols').then((result) => {
+                writer.writeFunctionSymbols(result.functionSymbols);
+            }, (error) => {});
+        }
+
+        Reporting.sendEvent('SWO', 'Capture', 'Record');
+    }
+
+    private stopSWOCapture() {
+        if (this.swoCapture) {
+            this.swoCapture.dispose();
+            this.swoCapture = null;
+        }
+    }
+
+    private async replaySWOCapture(): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: {
+                'SWO Capture': ['swo'],
+                'All Files': ['*']
+            }
+        });
+        if (!uris || uris.length === 0) { return; }
+
+        let capture: SWOCapture;
+        try {
+            capture = readSWOCapture(uris[0].fsPath);
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to read SWO capture ${uris[0].fsPath}: ${e.message}`);
+            return;
+        }
+
+        const configuration = await this.selectReplayConfiguration(capture);
+        if (!configuration) { return; }
+
+        this.stopSWOReplay();
+
+        this.replaySource = new CaptureSWOSource(capture.records);
+        this.replaySWO = new SWOCore(this.replaySource, configuration, this.context.extensionPath, capture.functionSymbols || []);
+        this.replaySWO.on('program-counter', (sample) => this.profilerProvider.addSample(sample));
+        this.replaySource.on('disconnected', () => {
+            if (this.replaySWO) { this.replaySWO.debugSessionTerminated(); }
+            vscode.window.showInformationMessage(`Finished replaying SWO capture ${path.basename(uris[0].fsPath)}`);
+        });
+
+        Reporting.sendEvent('SWO', 'Capture', 'Replay');
+    }
+
+    private async selectReplayConfiguration(capture: SWOCapture): Promise<SWOCaptureConfiguration> {
+        const options: Array<vscode.QuickPickItem & { configuration: any, folder: vscode.WorkspaceFolder }> = [
+            {
+                label: 'Capture Configuration',
+                description: `Decoders and graphs recorded on ${capture.header.created}`,
+                configuration: capture.header.configuration,
+                folder: null
+            }
+        ];
+
+        (vscode.workspace.workspaceFolders || []).forEach((folder) => {
+            const configurations: any[] = vscode.workspace.getConfiguration('launch', folder.uri).get('configurations') || [];
+            configurations.filter((c) => c.type === 'cortex-debug' && c.swoConfig).forEach((c) => {
+                options.push({ label: c.name, description: `Launch configuration (${folder.name})`, configuration: c, folder: folder });
+            });
+        });
+
+        const result = options.length === 1
+            ? options[0]
+            : await vscode.window.showQuickPick(options, { placeHolder: 'Select decoder and graph configuration' });
+        if (!result) { return null; }
+
+        let config = JSON.parse(JSON.stringify(result.configuration));
+        if (result.folder) {
+            // Launch configurations have not been through variable substitution, so resolve the workspace paths used by decoders
+            const root = JSON.stringify(result.folder.uri.fsPath).slice(1, -1);
+            config = JSON.parse(JSON.stringify(config).replace(/\$\{(workspaceRoot|workspaceFolder)\}/g, root));
+        }
+
+        normalizeSWOConfiguration(config);
+        return { executable: config.executable, swoConfig: config.swoConfig, graphConfig: config.graphConfig };
+    }
+
+    private stopSWOReplay() {
+        if (this.replaySource) {
+            this.replaySource.removeAllListeners('disconnected');
+            this.replaySource.dispose();
+            this.replaySource = null;
+        }
+        if (this.replaySWO) {
+            this.replaySWO.dispose();
+            this.replaySWO = null;
+        }
+    }
+
     // Debug Events
     private debugSessionStarted(session: vscode.DebugSession) {
         if (session.type !== 'cortex-debug') { return; }
 
-        // Clean-up Old output channels
-        if (this.swo) {
-            this.swo.dispose();
-            this.swo = null;
+        // The sessions for the additional cores of a multi-core configuration share the SWO and profiler of the first core
+        const isCoreSession = !!session.configuration.coreName;
+
+        if (!isCoreSession) {
+            // Clean-up Old output channels
+            if (this.swo) {
+                this.swo.dispose();
+                this.swo = null;
+            }
+
+            this.functionSymbols = null;
         }
 
-        this.functionSymbols = null;
+        const core: CoreSession = { session: session, svdFile: null, liveWatch: null, stopped: false, running: false, ready: false };
+        this.coreSessions[session.id] = core;
 
-        session.customRequest('get-arguments').then((args) => {
-            let svdfile = args.svdFile;
-            if (!svdfile) {
-                const basepath = this.getSVDFile(args.device);
-                if (basepath) {
-                    svdfile = path.join(this.context.extensionPath, basepath);
-                }
+        session.customRequest('get-arguments').then(async (args) => {
+            const svdfile = args.svdFile || await this.getSVDFile(args.device);
+
+            core.svdFile = svdfile ? svdfile : null;
+            core.liveWatch = args.liveWatch;
+            core.ready = true;
+
+            if (!isCoreSession) {
+                Reporting.beginSession(args as ConfigurationArguments);
+                this.profilerProvider.debugSessionStarted();
+            }
+            else {
+                Reporting.sendEvent('Multi-Core', 'Core Session', args.coreName);
             }
 
-            Reporting.beginSession(args as ConfigurationArguments);
-            
-            this.registerProvider.debugSessionStarted();
-            this.peripheralProvider.debugSessionStarted(svdfile ? svdfile : null);
+            this.showCoreSession(session.id);
 
-            if (this.swosource) { this.initializeSWO(args); }
+            if (this.swosource && !isCoreSession) { this.initializeSWO(args); }
         }, (error) => {
             // TODO: Error handling for unable to get arguments
         });
@@ -357,10 +1215,35 @@ class CortexDebugExtension {
     private debugSessionTerminated(session: vscode.DebugSession) {
         if (session.type !== 'cortex-debug') { return; }
 
+        const shown = this.shownSessionId === session.id;
+        delete this.coreSessions[session.id];
+        this.faultAnalyzer.debugSessionTerminated(session);
+        if (shown) { this.shownSessionId = null; }
+
+        if (session.configuration.coreName) {
+            if (shown) {
+                this.registerProvider.debugSessionTerminated();
+                this.peripheralProvider.debugSessionTerminated();
+                this.rtosProvider.debugSessionTerminated();
+                this.liveWatchProvider.debugSessionTerminated();
+            }
+            return;
+        }
+
+        // The other cores were debugged through the GDB server of this session, so their sessions can not continue either
+        Object.keys(this.coreSessions).map((id) => this.coreSessions[id].session)
+            .filter((s) => s.configuration.parentSessionId === session.id)
+            .forEach((s) => { s.customRequest('disconnect', {}).then(undefined, (error) => {}); });
+
         Reporting.endSession();
 
         this.registerProvider.debugSessionTerminated();
         this.peripheralProvider.debugSessionTerminated();
+        this.snapshotProvider.debugSessionTerminated();
+        this.profilerProvider.debugSessionTerminated();
+        this.rtosProvider.debugSessionTerminated();
+        this.liveWatchProvider.debugSessionTerminated();
+        this.memoryInspectors.forEach((mi) => mi.debugSessionTerminated());
         if (this.swo) {
             this.swo.debugSessionTerminated();
         }
@@ -368,6 +1251,72 @@ class CortexDebugExtension {
             this.swosource.dispose();
             this.swosource = null;
         }
+        this.stopSWOCapture();
+    }
+
+    private activeDebugSessionChanged(session: vscode.DebugSession) {
+        if (!session || session.type !== 'cortex-debug') { return; }
+        // Sessions still waiting for their arguments are shown once those arrive
+        const core = this.coreSessions[session.id];
+        if (session.id !== this.shownSessionId && core && core.ready) {
+            this.showCoreSession(session.id);
+        }
+    }
+
+    // Points the peripheral, register and RTOS views (and memory inspectors) at the given session
+    private showCoreSession(id: string) {
+        const core = this.coreSessions[id];
+        this.shownSessionId = id;
+
+        this.registerProvider.debugSessionStarted();
+        this.rtosProvider.debugSessionStarted();
+        this.memoryInspectors.forEach((mi) => mi.debugSessionStarted());
+        this.peripheralProvider.debugSessionStarted(core.svdFile).then(() => {
+            if (core.stopped && this.shownSessionId === id) { this.peripheralProvider.debugStopped(); }
+        });
+        this.liveWatchProvider.debugSessionStarted(core.liveWatch).then(() => {
+            if (this.shownSessionId !== id) { return; }
+            if (core.stopped) { this.liveWatchProvider.debugStopped(); }
+            else if (core.running) { this.liveWatchProvider.debugContinued(); }
+        });
+
+        if (core.stopped) {
+            this.registerProvider.debugStopped();
+            this.rtosProvider.debugStopped();
+            this.memoryInspectors.forEach((mi) => mi.debugStopped());
+        }
+    }
+
+    private isShownSession(session: vscode.DebugSession): boolean {
+        return this.shownSessionId === null || session.id === this.shownSessionId;
+    }
+
+    private startCoreSessions(e: vscode.DebugSessionCustomEvent) {
+        const parent = e.session.configuration;
+        e.body.cores.forEach((core: CoreConfiguration) => {
+            const config: vscode.DebugConfiguration = {
+                type: 'cortex-debug',
+                name: `${parent.name}: ${core.name}`,
+                request: parent.request,
+                servertype: 'external',
+                gdbTarget: core.gdbTarget,
+                cwd: parent.cwd,
+                executable: core.executable,
+                svdFile: core.svdFile,
+                device: parent.device,
+                targetId: core.targetId,
+                debuggerArgs: parent.debuggerArgs,
+                showDevDebugOutput: parent.showDevDebugOutput,
+                coreName: core.name,
+                parentSessionId: e.session.id
+            };
+
+            vscode.debug.startDebugging(e.session.workspaceFolder, config).then((started) => {
+                if (!started) { vscode.window.showErrorMessage(`Unable to start the debug session for core ${core.name}`); }
+            }, (error) => {
+                vscode.window.showErrorMessage(`Unable to start the debug session for core ${core.name}: ${error.toString()}`);
+            });
+        });
     }
 
     private receivedCustomEvent(e: vscode.DebugSessionCustomEvent) {
@@ -388,23 +1337,58 @@ class CortexDebugExtension {
             case 'record-event':
                 this.receivedEvent(e);
                 break;
+            case 'start-core-sessions':
+                this.startCoreSessions(e);
+                break;
             default:
                 break;
         }
     }
 
     private receivedStopEvent(e) {
+        const core = this.coreSessions[e.session.id];
+        if (core) {
+            core.stopped = true;
+            core.running = false;
+        }
+
+        if (!e.session.configuration.coreName) {
+            this.profilerProvider.debugStopped();
+            if (this.swo) { this.swo.debugStopped(); }
+        }
+
+        // Every core can fault on its own, not only the one shown in the views
+        this.faultAnalyzer.debugStopped(e.session, e.body.reason);
+
+        if (!this.isShownSession(e.session)) { return; }
+
         this.peripheralProvider.debugStopped();
         this.registerProvider.debugStopped();
+        this.rtosProvider.debugStopped();
+        this.liveWatchProvider.debugStopped();
         vscode.workspace.textDocuments.filter((td) => td.fileName.endsWith('.cdmem'))
             .forEach((doc) => { this.memoryProvider.update(doc); });
-        if (this.swo) { this.swo.debugStopped(); }
+        this.memoryInspectors.forEach((mi) => mi.debugStopped());
     }
 
     private receivedContinuedEvent(e) {
+        const core = this.coreSessions[e.session.id];
+        if (core) {
+            core.stopped = false;
+            core.running = true;
+        }
+
+        if (!e.session.configuration.coreName) {
+            if (this.swo) { this.swo.debugContinued(); }
+        }
+
+        if (!this.isShownSession(e.session)) { return; }
+
         this.peripheralProvider.debugContinued();
         this.registerProvider.debugContinued();
-        if (this.swo) { this.swo.debugContinued(); }
+        this.rtosProvider.debugContinued();
+        this.liveWatchProvider.debugContinued();
+        this.memoryInspectors.forEach((mi) => mi.debugContinued());
     }
 
     private receivedEvent(e) {
@@ -453,6 +1437,8 @@ class CortexDebugExtension {
         }
 
         this.swo = new SWOCore(this.swosource, args, this.context.extensionPath);
+        this.swo.on('program-counter', (sample) => this.profilerProvider.addSample(sample));
+        if (args.swoConfig.captureFile) { this.startSWOCapture(args); }
     }
 }
 
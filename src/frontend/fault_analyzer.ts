@@ -0,0 +1,295 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { SymbolInformation, LineInformation } from '../symbols';
+import {
+    SCB_FAULT_REGISTERS_ADDRESS, SCB_FAULT_REGISTERS_LENGTH, BASIC_FRAME_SIZE, EXTENDED_FRAME_SIZE, FAULT_EXCEPTIONS, FaultRegisters, FaultBit, ExceptionFrame,
+    parseFaultRegisters, decodeFaultStatus, decodeExceptionReturn, parseExceptionFrame, isPlausibleExceptionFrame, exceptionNumber, exceptionName
+} from '../faults';
+import { hexFormat } from './utils';
+import Reporting from '../reporting';
+
+const FAULT_HANDLER_REGEX = /^(HardFault|MemManage|BusFault|UsageFault|SecureFault)_Handler$/;
+// Words searched past the stack pointer when the handler has already pushed registers of its own
+const FRAME_SEARCH_WORDS = 16;
+const STACK_SCAN_LENGTH = 512;
+const MAX_SCANNED_FRAMES = 8;
+// Steps and breakpoints stop where the user asked to. A fault shows up as a signal (reported as a user request, the same as
+// pausing a target that hangs in its fault handler) or as a stop that GDB gives no reason for.
+const FAULT_STOP_REASONS = ['exception', 'user request'];
+
+interface CallFrame {
+    address: number;
+    source: string;
+    symbol: SymbolInformation;
+    line: LineInformation;
+}
+
+interface FaultAnalysis {
+    exception: number;
+    registers: FaultRegisters;
+    bits: FaultBit[];
+    stack: string;
+    frame: ExceptionFrame;
+    notes: string[];
+    callStack: CallFrame[];
+}
+
+/*
+ * Explains a stop inside a fault handler: decodes the SCB fault status registers, locates the exception frame that the
+ * core stacked on entry (on MSP or PSP, as selected by EXC_RETURN) and builds a call stack from the stacked PC and LR,
+ * followed by any return addresses found on the interrupted stack.
+ */
+export class FaultAnalyzer {
+    private output: vscode.OutputChannel = null;
+    // Cores of a multi-core device have their own executables, so the symbols are kept per session
+    private functionSymbols: { [sessionId: string]: SymbolInformation[] } = {};
+
+    public debugSessionTerminated(session: vscode.DebugSession) {
+        delete this.functionSymbols[session.id];
+    }
+
+    public async debugStopped(session: vscode.DebugSession, reason: string) {
+        if (FAULT_STOP_REASONS.indexOf(reason) === -1) { return; }
+
+        try {
+            if (!(await this.mayBeInFaultHandler(session))) { return; }
+
+            const analysis = await this.analyze(session, false);
+            if (analysis) { this.notify(analysis); }
+        }
+        catch (e) {
+            Reporting.sendEvent('Fault Analyzer', 'Error', e.message || e.toString());
+        }
+    }
+
+    public async analyzeCommand(session: vscode.DebugSession) {
+        try {
+            const analysis = await this.analyze(session, true);
+            if (!analysis) {
+                vscode.window.showInformationMessage('The core is not stopped in a fault handler');
+                return;
+            }
+            this.showReport(analysis);
+            Reporting.sendEvent('Fault Analyzer', 'Analyze', exceptionName(analysis.exception));
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to analyze fault: ${e.message || e}`);
+        }
+    }
+
+    private async readRegisters(session: vscode.DebugSession): Promise<{ [name: string]: number }> {
+        const names: string[] = await session.customRequest('read-register-list');
+        const values: any[] = await session.customRequest('read-registers');
+
+        const registers = {};
+        values.forEach((reg) => {
+            const name = names[parseInt(reg.number, 10)];
+            if (name) { registers[name.toLowerCase()] = parseInt(reg.value, 16); }
+        });
+        return registers;
+    }
+
+    private async readRegister(session: vscode.DebugSession, name: string): Promise<number> {
+        try {
+            const result = await session.customRequest('evaluate-expression', { expression: `$${name}` });
+            const value = parseInt(result.value);
+            return isNaN(value) ? null : value;
+        }
+        catch (e) {
+            return null;
+        }
+    }
+
+    private async loadFunctionSymbols(session: vscode.DebugSession): Promise<SymbolInformation[]> {
+        if (!this.functionSymbols[session.id]) {
+            const result = await session.customRequest('load-function-symbols');
+            this.functionSymbols[session.id] = result.functionSymbols;
+        }
+        return this.functionSymbols[session.id];
+    }
+
+    // Reads a single register before anything else is read, as most of these stops are not in a fault handler
+    private async mayBeInFaultHandler(session: vscode.DebugSession): Promise<boolean> {
+        const xpsr = await this.readRegister(session, 'xpsr');
+        if (xpsr !== null) { return FAULT_EXCEPTIONS.indexOf(exceptionNumber(xpsr)) !== -1; }
+
+        const pc = await this.readRegister(session, 'pc');
+        const handler = pc !== null ? this.getFunctionAtAddress(await this.loadFunctionSymbols(session), pc) : null;
+        return !!handler && FAULT_HANDLER_REGEX.test(handler.name);
+    }
+
+    private async readMemory(session: vscode.DebugSession, address: number, length: number): Promise<Buffer> {
+        const result = await session.customRequest('read-memory', { address: address, length: length });
+        return new Buffer(result.bytes);
+    }
+
+    private getFunctionAtAddress(symbols: SymbolInformation[], address: number): SymbolInformation {
+        const matches = symbols.filter((s) => s.address <= address && (s.address + s.length) > address);
+        return matches.length !== 0 ? matches[0] : null;
+    }
+
+    private async analyze(session: vscode.DebugSession, force: boolean): Promise<FaultAnalysis> {
+        const symbols = await this.loadFunctionSymbols(session);
+
+        const registers = await this.readRegisters(session);
+        const handler = this.getFunctionAtAddress(symbols, registers['pc']);
+        let exception = registers['xpsr'] !== undefined ? exceptionNumber(registers['xpsr']) : 0;
+        if (FAULT_EXCEPTIONS.indexOf(exception) === -1) {
+            // Without a usable xPSR, recognise the CMSIS fault handler names instead
+            const match = handler ? FAULT_HANDLER_REGEX.exec(handler.name) : null;
+            if (match) { exception = FAULT_EXCEPTIONS.find((e) => exceptionName(e) === match[1]); }
+            else if (!force || exception === 0) { return null; }
+        }
+
+        const faultRegisters = parseFaultRegisters(await this.readMemory(session, SCB_FAULT_REGISTERS_ADDRESS, SCB_FAULT_REGISTERS_LENGTH));
+        const analysis: FaultAnalysis = {
+            exception: exception,
+            registers: faultRegisters,
+            bits: decodeFaultStatus(faultRegisters),
+            stack: 'MSP',
+            frame: null,
+            notes: [],
+            callStack: []
+        };
+
+        let excReturn = decodeExceptionReturn(registers['lr']);
+        if (!excReturn) {
+            analysis.notes.push(`LR (${hexFormat(registers['lr'])}) no longer holds EXC_RETURN, assuming the frame is on MSP without FPU state`);
+            excReturn = { stack: 'MSP', threadMode: false, extendedFrame: false };
+        }
+        analysis.stack = excReturn.stack;
+
+        const sp = excReturn.stack === 'PSP' ? registers['psp'] : (registers['msp'] !== undefined ? registers['msp'] : registers['sp']);
+        if (sp === undefined) {
+            analysis.notes.push(`The GDB server does not report ${excReturn.stack}, the exception frame can not be located`);
+            return analysis;
+        }
+
+        // The handler itself only pushes onto MSP, so on MSP the frame may be a few words above the current stack pointer
+        const searchWords = excReturn.stack === 'MSP' ? FRAME_SEARCH_WORDS : 0;
+        const frameLength = excReturn.extendedFrame ? EXTENDED_FRAME_SIZE : BASIC_FRAME_SIZE;
+        const stackData = await this.readMemory(session, sp, frameLength + searchWords * 4);
+        for (let word = 0; word <= searchWords && !analysis.frame; word++) {
+            const frame = parseExceptionFrame(sp + word * 4, stackData.slice(word * 4, word * 4 + frameLength), excReturn.extendedFrame);
+            if (isPlausibleExceptionFrame(frame) && this.getFunctionAtAddress(symbols, frame.pc)) {
+                analysis.frame = frame;
+                if (word !== 0) { analysis.notes.push(`The exception frame was found ${word * 4} bytes above ${excReturn.stack}`); }
+            }
+        }
+
+        if (!analysis.frame) {
+            // An INVSTATE fault or a jump to a bad address also leaves an implausible frame, so still show what was stacked
+            analysis.frame = parseExceptionFrame(sp, stackData.slice(0, frameLength), excReturn.extendedFrame);
+            analysis.notes.push(`The frame at ${excReturn.stack} (${hexFormat(sp)}) does not look like a valid exception frame, the stack may be corrupted`);
+        }
+
+        analysis.callStack = await this.buildCallStack(session, symbols, analysis.frame);
+        return analysis;
+    }
+
+    private async buildCallStack(session: vscode.DebugSession, symbols: SymbolInformation[], frame: ExceptionFrame): Promise<CallFrame[]> {
+        const frames: CallFrame[] = [{ address: frame.pc, source: 'faulting instruction', symbol: null, line: null }];
+        if (!decodeExceptionReturn(frame.lr) && (frame.lr & 0x1)) {
+            frames.push({ address: (frame.lr & ~0x1) >>> 0, source: 'stacked LR', symbol: null, line: null });
+        }
+
+        // Any odd word on the interrupted stack that points into a function is likely to be a saved return address
+        let scan: Buffer = null;
+        for (let length = STACK_SCAN_LENGTH; length >= 32 && !scan; length /= 2) {
+            try { scan = await this.readMemory(session, frame.callerSP, length); }
+            catch (e) {}
+        }
+        if (scan) {
+            for (let offset = 0; offset + 4 <= scan.length && frames.length < MAX_SCANNED_FRAMES + 2; offset += 4) {
+                const value = scan.readUInt32LE(offset);
+                const address = (value & ~0x1) >>> 0;
+                if ((value & 0x1) && this.getFunctionAtAddress(symbols, address) && frames[frames.length - 1].address !== address) {
+                    frames.push({ address: address, source: `stack ${hexFormat(frame.callerSP + offset)}`, symbol: null, line: null });
+                }
+            }
+        }
+
+        frames.forEach((f) => { f.symbol = this.getFunctionAtAddress(symbols, f.address); });
+        try {
+            // Return addresses point after the call, so resolve the line of the call instruction itself
+            const addresses = frames.map((f, idx) => idx === 0 ? f.address : f.address - 2);
+            const result = await session.customRequest('resolve-line-information', { addresses: addresses });
+            const lines: LineInformation[] = result.lines;
+            frames.forEach((f, idx) => { f.line = lines.find((l) => l.address === addresses[idx] && !!l.file) || null; });
+        }
+        catch (e) {}
+
+        return frames;
+    }
+
+    private describeFrame(frame: CallFrame): string {
+        const name = frame.symbol ? frame.symbol.name : '??';
+        const location = frame.line ? ` at ${path.basename(frame.line.file)}:${frame.line.line}` : '';
+        return `${hexFormat(frame.address)} ${name}${location}`;
+    }
+
+    private summary(analysis: FaultAnalysis): string {
+        const cause = analysis.bits.filter((b) => b.name !== 'FORCED' && b.name !== 'MMARVALID' && b.name !== 'BFARVALID');
+        let message = exceptionName(analysis.exception);
+        if (cause.length > 0) { message += `: ${cause[0].description}`; }
+        if (analysis.callStack.length > 0) { message += ` (${this.describeFrame(analysis.callStack[0])})`; }
+        return message;
+    }
+
+    private async notify(analysis: FaultAnalysis) {
+        Reporting.sendEvent('Fault Analyzer', 'Fault', exceptionName(analysis.exception));
+
+        const location = analysis.callStack.length > 0 ? analysis.callStack[0].line : null;
+        const actions = location ? ['Show Details', 'Go to Source'] : ['Show Details'];
+        const result = await vscode.window.showWarningMessage(this.summary(analysis), ...actions);
+        if (result === 'Show Details') { this.showReport(analysis); }
+        else if (result === 'Go to Source') {
+            vscode.window.showTextDocument(vscode.Uri.file(location.file), {
+                selection: new vscode.Range(location.line - 1, 0, location.line - 1, 0)
+            });
+        }
+    }
+
+    private showReport(analysis: FaultAnalysis) {
+        if (!this.output) { this.output = vscode.window.createOutputChannel('Cortex-Debug: Fault Analysis'); }
+        const out = this.output;
+        const regs = analysis.registers;
+
+        out.clear();
+        out.appendLine(`${exceptionName(analysis.exception)} (exception ${analysis.exception})`);
+        out.appendLine('');
+        out.appendLine(`CFSR = ${hexFormat(regs.cfsr)}   HFSR = ${hexFormat(regs.hfsr)}   DFSR = ${hexFormat(regs.dfsr)}   AFSR = ${hexFormat(regs.afsr)}`);
+        if (analysis.bits.length === 0) { out.appendLine('No fault status bits are set'); }
+        analysis.bits.forEach((b) => {
+            let line = `    ${b.register}.${b.name}: ${b.description}`;
+            if (b.name === 'MMARVALID') { line += ` (MMFAR = ${hexFormat(regs.mmfar)})`; }
+            else if (b.name === 'BFARVALID') { line += ` (BFAR = ${hexFormat(regs.bfar)})`; }
+            out.appendLine(line);
+        });
+
+        const frame = analysis.frame;
+        if (frame) {
+            out.appendLine('');
+            out.appendLine(`Exception frame on ${analysis.stack} at ${hexFormat(frame.address)} (${frame.extended ? 'extended, with FPU state' : 'basic'})`);
+            out.appendLine(`    r0 = ${hexFormat(frame.r0)}   r1 = ${hexFormat(frame.r1)}   r2 = ${hexFormat(frame.r2)}   r3 = ${hexFormat(frame.r3)}`);
+            out.appendLine(`    r12 = ${hexFormat(frame.r12)}   lr = ${hexFormat(frame.lr)}   pc = ${hexFormat(frame.pc)}   xpsr = ${hexFormat(frame.xpsr)}`);
+        }
+
+        if (analysis.callStack.length > 0) {
+            out.appendLine('');
+            out.appendLine('Call stack (frames after the stacked LR are found by scanning the stack and may be stale):');
+            analysis.callStack.forEach((f, idx) => {
+                const file = f.line ? ` [${f.line.file}:${f.line.line}]` : '';
+                out.appendLine(`    #${idx} ${this.describeFrame(f)} - ${f.source}${file}`);
+            });
+        }
+
+        if (analysis.notes.length > 0) {
+            out.appendLine('');
+            analysis.notes.forEach((n) => out.appendLine(`Note: ${n}`));
+        }
+
+        out.show(true);
+    }
+}
@@ -0,0 +1,23 @@
+/*
+ * The value a register had at the previous halt, which the register views use to mark the values that changed
+ * since then. The value is only remembered when it was known at that halt, so that a register that was not read
+ * yet is not marked as changed when it is read for the first time.
+ */
+export class HaltHistory<T> {
+    private previous: T = null;
+
+    constructor(private equals: (a: T, b: T) => boolean = (a, b) => a === b) {}
+
+    public getPrevious(): T {
+        return this.previous;
+    }
+
+    public hasChanged(current: T): boolean {
+        return this.previous !== null && !this.equals(this.previous, current);
+    }
+
+    // Called before the values of a new halt are read
+    public markHalt(current: T, known: boolean) {
+        this.previous = known ? current : null;
+    }
+}
@@ -0,0 +1,329 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { NumberFormat, LiveWatchConfiguration } from '../common';
+import { SWOGrapher } from './swo/grapher';
+import { GrapherDataMessage, GrapherStatusMessage, RealtimeGraphConfiguration } from './swo/common';
+import { hexFormat, binaryFormat, decimalFormat64 } from './utils';
+
+const STATE_FILE = '.cortex-debug.livewatch.state.json';
+// Large variables (arrays and structures) are shown as raw bytes, only the start of them is sampled
+const MAX_SAMPLE_LENGTH = 32;
+const NUMERIC_LENGTHS = [1, 2, 4, 8];
+
+interface LiveWatchSetting {
+    expression: string;
+    format: NumberFormat;
+}
+
+export class TreeNode extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public contextValue: string, public node: LiveWatchEntry
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+export class LiveWatchEntry {
+    public address: number = null;
+    public length: number = 0;
+    public signed: boolean = false;
+    public data: Buffer = null;
+    public error: string = null;
+    public format: NumberFormat = NumberFormat.Auto;
+    public plotted: boolean = false;
+
+    constructor(public expression: string) {}
+
+    public get graphId(): string {
+        return `live-watch:${this.expression}`;
+    }
+
+    public isNumeric(): boolean {
+        return NUMERIC_LENGTHS.indexOf(this.length) !== -1;
+    }
+
+    // Values are read as little endian integers. 64-bit values above 2^53 lose precision here, which is fine for plotting;
+    // they are shown from their bytes by formatValue.
+    public numericValue(): number {
+        if (!this.data || !this.isNumeric()) { return null; }
+        if (this.length === 8) {
+            const high = this.signed ? this.data.readInt32LE(4) : this.data.readUInt32LE(4);
+            return high * 0x100000000 + this.data.readUInt32LE(0);
+        }
+        return this.signed ? this.data.readIntLE(0, this.length) : this.data.readUIntLE(0, this.length);
+    }
+
+    public formatValue(): string {
+        if (this.error) { return `<${this.error}>`; }
+        if (!this.data) { return this.address === null ? '<not resolved>' : '<not read>'; }
+
+        if (!this.isNumeric()) {
+            const bytes = this.data.toString('hex').match(/.{2}/g).join(' ');
+            return this.length > this.data.length ? `${bytes} ...` : bytes;
+        }
+
+        if (this.length === 8) {
+            const high = this.data.readUInt32LE(4);
+            const low = this.data.readUInt32LE(0);
+            return this.format === NumberFormat.Hexidecimal || this.format === NumberFormat.Binary
+                ? hexFormat(high, 8) + hexFormat(low, 8, false) : decimalFormat64(high, low, this.signed);
+        }
+
+        // Hex and binary show the bits of signed values as they are stored
+        const bits = this.data.readUIntLE(0, this.length);
+        switch (this.format) {
+            case NumberFormat.Hexidecimal:
+                return hexFormat(bits, this.length * 2);
+            case NumberFormat.Binary:
+                return binaryFormat(bits, this.length * 8, true, true);
+            default:
+                return this.numericValue().toString();
+        }
+    }
+
+    public getCopyValue(): string {
+        return this.formatValue();
+    }
+
+    public getTreeNode(): TreeNode {
+        const label = `${this.plotted ? '~ ' : ''}${this.expression} = ${this.formatValue()}`;
+        const node = new TreeNode(label, vscode.TreeItemCollapsibleState.None, this.plotted ? 'plottedExpression' : 'expression', this);
+        if (this.address !== null) { node.tooltip = `${hexFormat(this.address, 8)} (${this.length} bytes)`; }
+        return node;
+    }
+
+    public _saveState(): LiveWatchSetting {
+        return { expression: this.expression, format: this.format };
+    }
+}
+
+/*
+ * Samples global and static variables while the target is running. The variables are resolved to fixed addresses through
+ * the symbol table, and the memory is read through a second GDB connection to the server (liveWatch.enabled), as the
+ * debugging GDB can not access memory while the target runs. When halted the values are read once through the normal session.
+ */
+export class LiveWatchTreeProvider implements vscode.TreeDataProvider<TreeNode> {
+    // tslint:disable-next-line:variable-name
+    public _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined> = new vscode.EventEmitter<TreeNode | undefined>();
+    public readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined> = this._onDidChangeTreeData.event;
+
+    private entries: LiveWatchEntry[] = [];
+    private configuration: LiveWatchConfiguration = null;
+    private inSession: boolean = false;
+    private running: boolean = false;
+    private timer: NodeJS.Timer = null;
+    private sampling: boolean = false;
+    private grapher: SWOGrapher = null;
+
+    constructor(private extensionPath: string) {
+        this._loadState();
+    }
+
+    public getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: TreeNode): vscode.ProviderResult<TreeNode[]> {
+        if (element) { return []; }
+        else if (this.entries.length > 0) { return this.entries.map((e) => e.getTreeNode()); }
+        else {
+            const message = 'Use Add Expression in the view menu to watch global or static variables.';
+            return [new TreeNode(message, vscode.TreeItemCollapsibleState.None, 'message', null)];
+        }
+    }
+
+    public async addExpression(expression: string): Promise<void> {
+        if (this.entries.find((e) => e.expression === expression)) { return; }
+
+        const entry = new LiveWatchEntry(expression);
+        this.entries.push(entry);
+        if (this.inSession) {
+            await this.resolve(entry);
+            if (!this.running) { await this.sample([entry], 'read-memory'); }
+            else if (!this.timer) { this.startPolling(); }
+        }
+
+        this._saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    public removeExpression(entry: LiveWatchEntry) {
+        this.entries = this.entries.filter((e) => e !== entry);
+        if (entry.plotted) { this.setPlotted(entry, false); }
+        this._saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    public setFormat(entry: LiveWatchEntry, format: NumberFormat) {
+        entry.format = format;
+        this._saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    public setPlotted(entry: LiveWatchEntry, plotted: boolean) {
+        entry.plotted = plotted;
+        this.updateGraphs();
+        this._saveState();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private updateGraphs() {
+        const plotted = this.entries.filter((e) => e.plotted);
+        const graph = {
+            type: 'realtime',
+            label: 'Live Watch',
+            timespan: 30,
+            annotate: true,
+            autoscale: true,
+            plots: plotted.map((e) => ({ graphId: e.graphId, label: e.expression, color: undefined }))
+        } as RealtimeGraphConfiguration;
+
+        if (!this.grapher) {
+            if (plotted.length > 0) { this.grapher = new SWOGrapher([graph], this.extensionPath, 'Live Watch'); }
+        }
+        else {
+            this.grapher.configure(plotted.length > 0 ? [graph] : []);
+        }
+    }
+
+    private async resolve(entry: LiveWatchEntry): Promise<void> {
+        try {
+            const result = await vscode.debug.activeDebugSession.customRequest('resolve-variable', { expression: entry.expression });
+            entry.address = result.address;
+            entry.length = result.length;
+            entry.signed = !!result.signed;
+            entry.error = null;
+        }
+        catch (e) {
+            entry.address = null;
+            entry.error = e.message || e.toString();
+        }
+        entry.data = null;
+    }
+
+    private async sample(entries: LiveWatchEntry[], request: string): Promise<void> {
+        const session = vscode.debug.activeDebugSession;
+        if (!session) { return; }
+
+        const timestamp = new Date().getTime();
+        for (const entry of entries.filter((e) => e.address !== null)) {
+            try {
+                const result = await session.customRequest(request, { address: entry.address, length: Math.min(entry.length, MAX_SAMPLE_LENGTH) });
+                entry.data = new Buffer(result.bytes);
+                entry.error = null;
+            }
+            catch (e) {
+                entry.error = e.message || e.toString();
+                continue;
+            }
+
+            if (entry.plotted && this.grapher && entry.isNumeric()) {
+                const message: GrapherDataMessage = { type: 'data', timestamp: timestamp, data: entry.numericValue(), id: entry.graphId };
+                this.grapher.broadcastMessage(message);
+            }
+        }
+    }
+
+    private async poll(): Promise<void> {
+        // Skip a sample rather than queueing requests when the reads take longer than the sampling interval
+        if (this.sampling) { return; }
+
+        this.sampling = true;
+        try {
+            await this.sample(this.entries, 'read-memory-live');
+        }
+        finally {
+            this.sampling = false;
+        }
+        if (this.timer) { this._onDidChangeTreeData.fire(); }
+    }
+
+    private startPolling() {
+        this.stopPolling();
+        if (this.configuration && this.configuration.enabled && this.entries.length > 0) {
+            this.timer = setInterval(this.poll.bind(this), 1000 / this.configuration.samplesPerSecond);
+        }
+    }
+
+    private stopPolling() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private broadcastStatus(status: string) {
+        if (this.grapher) {
+            const message: GrapherStatusMessage = { type: 'status', status: status, timestamp: new Date().getTime() };
+            this.grapher.broadcastMessage(message);
+            this.grapher.currentStatus = status;
+        }
+    }
+
+    public async debugSessionStarted(configuration: LiveWatchConfiguration): Promise<void> {
+        this.configuration = configuration;
+        this.inSession = true;
+        this.running = false;
+        this.stopPolling();
+
+        for (const entry of this.entries) { await this.resolve(entry); }
+        this._onDidChangeTreeData.fire();
+    }
+
+    public debugSessionTerminated() {
+        this.inSession = false;
+        this.running = false;
+        this.stopPolling();
+        this.broadcastStatus('terminated');
+        this._onDidChangeTreeData.fire();
+    }
+
+    public async debugStopped() {
+        this.running = false;
+        this.stopPolling();
+        this.broadcastStatus('stopped');
+        await this.sample(this.entries, 'read-memory');
+        this._onDidChangeTreeData.fire();
+    }
+
+    public debugContinued() {
+        this.running = true;
+        this.broadcastStatus('continued');
+        this.startPolling();
+    }
+
+    public _saveState() {
+        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) { return; }
+
+        const fspath = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, '.vscode', STATE_FILE);
+        try {
+            if (!fs.existsSync(path.dirname(fspath))) { fs.mkdirSync(path.dirname(fspath)); }
+            fs.writeFileSync(fspath, JSON.stringify(this.entries.map((e) => e._saveState())), { encoding: 'utf8', flag: 'w' });
+        }
+        catch (e) {
+            vscode.window.showWarningMessage(`Unable to save live watch expressions: ${e.toString()}`);
+        }
+    }
+
+    private _loadState() {
+        if (!vscode.workspace.workspaceFolders || vscode.workspace.workspaceFolders.length === 0) { return; }
+
+        const fspath = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, '.vscode', STATE_FILE);
+        try {
+            if (!fs.existsSync(fspath)) { return; }
+            const settings: LiveWatchSetting[] = JSON.parse(fs.readFileSync(fspath, 'utf8'));
+            this.entries = settings.map((s) => {
+                const entry = new LiveWatchEntry(s.expression);
+                entry.format = s.format || NumberFormat.Auto;
+                return entry;
+            });
+        }
+        catch (e) {
+            this.entries = [];
+        }
+    }
+}
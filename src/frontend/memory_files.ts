@@ -0,0 +1,206 @@
+import * as path from 'path';
+
+export enum MemoryFileFormat {
+    Binary = 'binary',
+    IntelHex = 'ihex',
+    SRecord = 'srec'
+}
+
+export interface MemoryBlock {
+    address: number;
+    data: Buffer;
+}
+
+const BYTES_PER_RECORD = 16;
+
+const FORMAT_EXTENSIONS = {
+    '.hex': MemoryFileFormat.IntelHex,
+    '.ihex': MemoryFileFormat.IntelHex,
+    '.srec': MemoryFileFormat.SRecord,
+    '.s19': MemoryFileFormat.SRecord,
+    '.s28': MemoryFileFormat.SRecord,
+    '.s37': MemoryFileFormat.SRecord,
+    '.mot': MemoryFileFormat.SRecord
+};
+
+export const MEMORY_FILE_FILTERS = {
+    'Binary': ['bin'],
+    'Intel HEX': ['hex', 'ihex'],
+    'Motorola S-Record': ['srec', 's19', 's28', 's37', 'mot']
+};
+
+export function memoryFileFormat(filename: string): MemoryFileFormat {
+    return FORMAT_EXTENSIONS[path.extname(filename).toLowerCase()] || MemoryFileFormat.Binary;
+}
+
+function hexByte(value: number): string {
+    const str = (value & 0xFF).toString(16).toUpperCase();
+    return str.length === 1 ? '0' + str : str;
+}
+
+function parseBytes(line: string, lineNumber: number): Buffer {
+    if (!/^([0-9a-fA-F]{2})+$/.test(line)) { throw new Error(`Invalid characters on line ${lineNumber}`); }
+    return new Buffer(line, 'hex');
+}
+
+function sum(data: Buffer): number {
+    let total = 0;
+    for (const byte of data) { total += byte; }
+    return total;
+}
+
+// Combines blocks that are directly adjacent in memory so that they can be written with fewer requests
+export function mergeMemoryBlocks(blocks: MemoryBlock[]): MemoryBlock[] {
+    const sorted = blocks.filter((b) => b.data.length > 0).sort((a, b) => a.address - b.address);
+    const merged: MemoryBlock[] = [];
+    for (const block of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && last.address + last.data.length === block.address) {
+            last.data = Buffer.concat([last.data, block.data]);
+        }
+        else {
+            merged.push({ address: block.address, data: block.data });
+        }
+    }
+    return merged;
+}
+
+/* Intel HEX */
+
+function intelHexRecord(type: number, address: number, data: Buffer): string {
+    const record = Buffer.concat([new Buffer([data.length, (address >>> 8) & 0xFF, address & 0xFF, type]), data]);
+    const checksum = (0x100 - (sum(record) & 0xFF)) & 0xFF;
+    return ':' + record.toString('hex').toUpperCase() + hexByte(checksum);
+}
+
+export function encodeIntelHex(address: number, data: Buffer): string {
+    const lines: string[] = [];
+    let upper = -1;
+
+    let offset = 0;
+    while (offset < data.length) {
+        const current = address + offset;
+        // Records can not cross a 64KB boundary, as the upper address bits come from the preceding extended address record
+        const length = Math.min(BYTES_PER_RECORD, data.length - offset, 0x10000 - (current & 0xFFFF));
+
+        if ((current >>> 16) !== upper) {
+            upper = current >>> 16;
+            lines.push(intelHexRecord(0x04, 0, new Buffer([(upper >>> 8) & 0xFF, upper & 0xFF])));
+        }
+
+        lines.push(intelHexRecord(0x00, current & 0xFFFF, data.slice(offset, offset + length)));
+        offset += length;
+    }
+
+    lines.push(intelHexRecord(0x01, 0, new Buffer(0)));
+    return lines.join('\n') + '\n';
+}
+
+export function decodeIntelHex(text: string): MemoryBlock[] {
+    const blocks: MemoryBlock[] = [];
+    let base = 0;
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line.length === 0) { continue; }
+        if (line[0] !== ':') { throw new Error(`Line ${i + 1} is not an Intel HEX record`); }
+
+        const record = parseBytes(line.substring(1), i + 1);
+        if (record.length < 5 || record.length !== record[0] + 5) { throw new Error(`Invalid record length on line ${i + 1}`); }
+        if ((sum(record) & 0xFF) !== 0) { throw new Error(`Checksum mismatch on line ${i + 1}`); }
+
+        const offset = record.readUInt16BE(1);
+        const type = record[3];
+        const data = record.slice(4, 4 + record[0]);
+
+        if (type === 0x00) { blocks.push({ address: base + offset, data: data }); }
+        else if (type === 0x01) { break; }
+        else if (type === 0x02) { base = data.readUInt16BE(0) * 16; }
+        else if (type === 0x04) { base = data.readUInt16BE(0) * 0x10000; }
+        // Start address records (0x03 and 0x05) do not describe memory contents
+    }
+
+    return mergeMemoryBlocks(blocks);
+}
+
+/* Motorola S-Record */
+
+function sRecord(type: number, address: number, addressLength: number, data: Buffer): string {
+    const addressBytes = new Buffer(addressLength);
+    for (let i = 0; i < addressLength; i++) {
+        addressBytes[i] = (address / Math.pow(2, 8 * (addressLength - 1 - i))) & 0xFF;
+    }
+
+    const record = Buffer.concat([new Buffer([addressLength + data.length + 1]), addressBytes, data]);
+    const checksum = ~sum(record) & 0xFF;
+    return `S${type}` + record.toString('hex').toUpperCase() + hexByte(checksum);
+}
+
+export function encodeSRecord(address: number, data: Buffer, header: string = ''): string {
+    // Use the smallest address field that can hold the whole range: S1/S9 (16-bit), S2/S8 (24-bit) or S3/S7 (32-bit)
+    const end = address + Math.max(data.length, 1) - 1;
+    const addressLength = end <= 0xFFFF ? 2 : (end <= 0xFFFFFF ? 3 : 4);
+    const dataType = addressLength - 1;
+
+    const lines: string[] = [sRecord(0, 0, 2, new Buffer(header, 'ascii'))];
+    let count = 0;
+    for (let offset = 0; offset < data.length; offset += BYTES_PER_RECORD) {
+        lines.push(sRecord(dataType, address + offset, addressLength, data.slice(offset, offset + BYTES_PER_RECORD)));
+        count++;
+    }
+
+    if (count <= 0xFFFF) { lines.push(sRecord(5, count, 2, new Buffer(0))); }
+    else if (count <= 0xFFFFFF) { lines.push(sRecord(6, count, 3, new Buffer(0))); }
+    lines.push(sRecord(10 - dataType, 0, addressLength, new Buffer(0)));
+    return lines.join('\n') + '\n';
+}
+
+export function decodeSRecord(text: string): MemoryBlock[] {
+    const blocks: MemoryBlock[] = [];
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line.length === 0) { continue; }
+        if (line[0] !== 'S' || line.length < 4) { throw new Error(`Line ${i + 1} is not an S-Record`); }
+
+        const type = parseInt(line[1], 10);
+        const record = parseBytes(line.substring(2), i + 1);
+        if (record.length < 3 || record.length !== record[0] + 1) { throw new Error(`Invalid record length on line ${i + 1}`); }
+        if ((sum(record) & 0xFF) !== 0xFF) { throw new Error(`Checksum mismatch on line ${i + 1}`); }
+
+        if (type >= 1 && type <= 3) {
+            const addressLength = type + 1;
+            let address = 0;
+            for (let j = 0; j < addressLength; j++) { address = address * 256 + record[1 + j]; }
+            blocks.push({ address: address, data: record.slice(1 + addressLength, record.length - 1) });
+        }
+        // S0 (header), S5/S6 (record count) and S7-S9 (start address) records do not describe memory contents
+    }
+
+    return mergeMemoryBlocks(blocks);
+}
+
+export function encodeMemoryFile(format: MemoryFileFormat, address: number, data: Buffer, header?: string): Buffer {
+    switch (format) {
+        case MemoryFileFormat.IntelHex:
+            return new Buffer(encodeIntelHex(address, data), 'ascii');
+        case MemoryFileFormat.SRecord:
+            return new Buffer(encodeSRecord(address, data, header), 'ascii');
+        default:
+            return data;
+    }
+}
+
+// Binary files do not carry an address, so the caller has to supply where the data should be loaded
+export function decodeMemoryFile(format: MemoryFileFormat, contents: Buffer, binaryAddress: number): MemoryBlock[] {
+    switch (format) {
+        case MemoryFileFormat.IntelHex:
+            return decodeIntelHex(contents.toString('ascii'));
+        case MemoryFileFormat.SRecord:
+            return decodeSRecord(contents.toString('ascii'));
+        default:
+            return [{ address: binaryAddress, data: contents }];
+    }
+}
@@ -0,0 +1,196 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { hexFormat } from './utils';
+import Reporting from '../reporting';
+
+const ROW_SIZE = 16;
+const PAGE_SIZE = 1024;
+// Bound the amount of memory that is re-read on every stop when the user keeps scrolling
+const MAX_LOADED_SIZE = 64 * 1024;
+
+/*
+ * A webview panel showing a window of target memory. The panel does all of the formatting (widths, endianness and change
+ * highlighting); the extension side only resolves address expressions and moves raw bytes to and from the debug adapter.
+ */
+export class MemoryInspector {
+    private panel: vscode.WebviewPanel;
+    private expression: string;
+    private start: number = 0;
+    private length: number = 0;
+    private status: string = 'stopped';
+
+    constructor(private extensionPath: string, expression: string, private onDisposed: (inspector: MemoryInspector) => void) {
+        this.expression = expression;
+        this.panel = vscode.window.createWebviewPanel('cortex-debug.memory', `Memory [${expression}]`, vscode.ViewColumn.Two, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [vscode.Uri.file(path.join(extensionPath, 'memory'))]
+        });
+
+        this.panel.webview.html = this.getHTML();
+        this.panel.webview.onDidReceiveMessage(this.receivedMessage.bind(this));
+        this.panel.onDidDispose(() => {
+            this.panel = null;
+            this.onDisposed(this);
+        });
+    }
+
+    private getHTML(): string {
+        const root = vscode.Uri.file(path.join(this.extensionPath, 'memory')).with({ scheme: 'vscode-resource' });
+        const html = fs.readFileSync(path.join(this.extensionPath, 'memory', 'index.html'), 'utf8');
+        return html.replace(/\{\{root\}\}/g, root.toString());
+    }
+
+    private async receivedMessage(message: any) {
+        switch (message.type) {
+            case 'ready':
+                this.postMessage({ type: 'status', status: this.status });
+                await this.goto(this.expression);
+                break;
+            case 'goto':
+                await this.goto(message.expression);
+                break;
+            case 'load-more':
+                await this.loadMore(message.direction);
+                break;
+            case 'write':
+                await this.write(message.address, message.bytes);
+                break;
+            case 'refresh':
+                await this.refresh();
+                break;
+        }
+    }
+
+    private async resolveAddress(expression: string): Promise<number> {
+        const trimmed = expression.trim();
+        if (/^0x[0-9a-f]+$/i.test(trimmed)) { return parseInt(trimmed.substring(2), 16); }
+        else if (/^[0-9]+$/.test(trimmed)) { return parseInt(trimmed, 10); }
+
+        const result = await vscode.debug.activeDebugSession.customRequest('evaluate-expression', { expression: `(unsigned long)(${trimmed})` });
+        const address = parseInt(result.value, 10);
+        if (isNaN(address)) { throw new Error(`${expression} does not evaluate to an address (${result.value})`); }
+        return address;
+    }
+
+    private async readMemory(address: number, length: number): Promise<number[]> {
+        const result = await vscode.debug.activeDebugSession.customRequest('read-memory', { address: address, length: length });
+        return result.bytes;
+    }
+
+    private async goto(expression: string) {
+        if (!vscode.debug.activeDebugSession) {
+            this.postMessage({ type: 'error', message: 'No debugging session available' });
+            return;
+        }
+
+        try {
+            const address = await this.resolveAddress(expression);
+            const start = address - (address % ROW_SIZE);
+            const bytes = await this.readMemory(start, PAGE_SIZE);
+
+            this.expression = expression;
+            this.start = start;
+            this.length = bytes.length;
+            this.panel.title = `Memory [${expression}]`;
+            this.postMessage({ type: 'data', expression: expression, address: address, start: start, bytes: bytes, reset: true });
+            Reporting.sendEvent('Memory Inspector', 'Goto');
+        }
+        catch (e) {
+            this.postMessage({ type: 'error', message: `Unable to read memory at ${expression}: ${e.message || e}` });
+        }
+    }
+
+    private async loadMore(direction: string) {
+        if (!vscode.debug.activeDebugSession || this.status !== 'stopped' || this.length >= MAX_LOADED_SIZE || (direction === 'up' && this.start === 0)) {
+            this.postMessage({ type: 'no-more-data' });
+            return;
+        }
+
+        try {
+            if (direction === 'up') {
+                const start = Math.max(0, this.start - PAGE_SIZE);
+                const bytes = await this.readMemory(start, this.start - start);
+                this.start = start;
+                this.length += bytes.length;
+                this.postMessage({ type: 'data', start: start, bytes: bytes, prepend: true });
+            }
+            else {
+                const start = this.start + this.length;
+                const bytes = await this.readMemory(start, PAGE_SIZE);
+                this.length += bytes.length;
+                this.postMessage({ type: 'data', start: start, bytes: bytes });
+            }
+        }
+        catch (e) {
+            this.postMessage({ type: 'error', message: `Unable to read more memory: ${e.message || e}` });
+        }
+    }
+
+    private async write(address: number, bytes: number[]) {
+        if (this.status !== 'stopped') {
+            this.postMessage({ type: 'error', message: 'Memory can only be edited while the target is halted' });
+            return;
+        }
+
+        try {
+            const data = bytes.map((b) => hexFormat(b, 2, false)).join('');
+            await vscode.debug.activeDebugSession.customRequest('write-memory', { address: address, data: data });
+            // Read back the written range, as some locations (such as peripheral registers) do not hold the value written
+            const updated = await this.readMemory(address, bytes.length);
+            this.postMessage({ type: 'update', start: address, bytes: updated });
+            Reporting.sendEvent('Memory Inspector', 'Write');
+        }
+        catch (e) {
+            this.postMessage({ type: 'error', message: `Unable to write memory at ${hexFormat(address, 8)}: ${e.message || e}` });
+        }
+    }
+
+    private async refresh() {
+        if (!vscode.debug.activeDebugSession || this.length === 0) { return; }
+
+        try {
+            const bytes: number[] = [];
+            for (let offset = 0; offset < this.length; offset += PAGE_SIZE) {
+                bytes.push(...await this.readMemory(this.start + offset, Math.min(PAGE_SIZE, this.length - offset)));
+            }
+            this.postMessage({ type: 'refresh', start: this.start, bytes: bytes });
+        }
+        catch (e) {
+            this.postMessage({ type: 'error', message: `Unable to refresh memory: ${e.message || e}` });
+        }
+    }
+
+    private postMessage(message: any) {
+        if (this.panel) {
+            this.panel.webview.postMessage(message);
+        }
+    }
+
+    private setStatus(status: string) {
+        this.status = status;
+        this.postMessage({ type: 'status', status: status });
+    }
+
+    public debugSessionStarted() {
+        this.setStatus('running');
+    }
+
+    public debugSessionTerminated() {
+        this.setStatus('terminated');
+    }
+
+    public debugStopped() {
+        this.setStatus('stopped');
+        this.refresh();
+    }
+
+    public debugContinued() {
+        this.setStatus('running');
+    }
+
+    public dispose() {
+        if (this.panel) { this.panel.dispose(); }
+    }
+}
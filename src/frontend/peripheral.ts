@@ -4,9 +4,12 @@ import * as path from 'path';
 import * as os from 'os';
 import * as xml2js from 'xml2js';
 
-import { hexFormat, binaryFormat, createMask, extractBits } from './utils';
+import { hexFormat, binaryFormat, extractBits } from './utils';
 import { ProviderResult } from 'vscode';
 import { NumberFormat, NodeSetting } from '../common';
+import { resolveDerivations } from './svd_derivation';
+import { ModifiedWriteValues, fieldWriteValue } from './svd_write';
+import { HaltHistory } from './halt_history';
 import reporting from '../reporting';
 
 export enum RecordType {
@@ -30,6 +33,35 @@ const ACCESS_TYPE_MAP = {
     'read-writeOnce': AccessType.ReadWrite
 };
 
+const WRITE_ONCE_ACCESS = ['writeOnce', 'read-writeOnce'];
+
+// SVD readAction - the side effect of reading a register or field
+export enum ReadAction {
+    Clear = 'clear',
+    Set = 'set',
+    Modify = 'modify',
+    ModifyExternal = 'modifyExternal'
+}
+
+const READ_ACTION_INFO = {
+    [ReadAction.Clear]: ['RC', 'Cleared by reading'],
+    [ReadAction.Set]: ['RS', 'Set by reading'],
+    [ReadAction.Modify]: ['RM', 'Modified by reading'],
+    [ReadAction.ModifyExternal]: ['RME', 'Reading has side effects outside of the register']
+};
+
+const MODIFIED_WRITE_VALUES_INFO = {
+    [ModifiedWriteValues.OneToClear]: ['W1C', 'Write 1 to clear, writing 0 has no effect'],
+    [ModifiedWriteValues.OneToSet]: ['W1S', 'Write 1 to set, writing 0 has no effect'],
+    [ModifiedWriteValues.OneToToggle]: ['W1T', 'Write 1 to toggle, writing 0 has no effect'],
+    [ModifiedWriteValues.ZeroToClear]: ['W0C', 'Write 0 to clear, writing 1 has no effect'],
+    [ModifiedWriteValues.ZeroToSet]: ['W0S', 'Write 0 to set, writing 1 has no effect'],
+    [ModifiedWriteValues.ZeroToToggle]: ['W0T', 'Write 0 to toggle, writing 1 has no effect'],
+    [ModifiedWriteValues.Clear]: ['WC', 'Cleared by any write'],
+    [ModifiedWriteValues.Set]: ['WS', 'Set by any write'],
+    [ModifiedWriteValues.Modify]: ['WM', 'Modified by any write']
+};
+
 export class TreeNode extends vscode.TreeItem {
     constructor(
         public readonly label: string,
@@ -67,6 +99,11 @@ export class BaseNode {
     public setFormat(format: NumberFormat): void {
         this.format = format;
     }
+
+    // Whether the value differs from the one at the previous halt
+    public hasChanged(): boolean { return false; }
+    // Remembers the current values before the values of a new halt are read
+    public markHalt(): void {}
 }
 
 function parseInteger(value: string): number {
@@ -149,6 +186,7 @@ interface PeripheralOptions {
     accessType?: AccessType;
     size?: number;
     resetValue?: number;
+    alternatePeripheral?: string;
 }
 
 export class PeripheralNode extends BaseNode {
@@ -161,6 +199,8 @@ export class PeripheralNode extends BaseNode {
     public readonly accessType: AccessType;
     public readonly size: number;
     public readonly resetValue: number;
+    // Name of the peripheral that occupies the same address block
+    public readonly alternatePeripheral: string;
     
     private currentValue: number[];
 
@@ -171,14 +211,19 @@ export class PeripheralNode extends BaseNode {
         this.totalLength = options.totalLength;
         this.description = options.description;
         this.groupName = options.groupName || '';
+        this.accessType = options.accessType || AccessType.ReadWrite;
         this.resetValue = options.resetValue || 0;
         this.size = options.size || 32;
+        this.alternatePeripheral = options.alternatePeripheral;
         this.children = [];
     }
 
     public getTreeNode(): TreeNode {
         const label = this.name + '  [' + hexFormat(this.baseAddress) + ']';
-        return new TreeNode(label, this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed, 'peripheral', this);
+        const collapseState = this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        const node = new TreeNode(label, collapseState, 'peripheral', this);
+        node.tooltip = this.alternatePeripheral ? `${this.description}\nAlternate of ${this.alternatePeripheral}` : this.description;
+        return node;
     }
 
     public getChildren(): Array<RegisterNode | ClusterNode> {
@@ -212,20 +257,56 @@ export class PeripheralNode extends BaseNode {
         return this.format;
     }
 
-    public update(): Thenable<boolean> {
-        return new Promise((resolve, reject) => {
-            if (!this.expanded) { resolve(false); return; }
+    public getRegisters(): RegisterNode[] {
+        const registers: RegisterNode[] = [];
+        this.children.forEach((c) => {
+            if (c instanceof RegisterNode) { registers.push(c); }
+            else { registers.push(...c.getRegisters()); }
+        });
+        return registers;
+    }
 
-            vscode.debug.activeDebugSession.customRequest('read-memory', { address: this.baseAddress, length: this.totalLength }).then((data) => {
-                this.currentValue = data.bytes;
+    public getPeripheral(): PeripheralNode {
+        return this;
+    }
 
-                this.children.forEach((r) => r.update());
+    /*
+     * Reads the address block of the peripheral, leaving out the registers that have side effects when read (readAction),
+     * whose bytes are returned as 0. The block is read in as few requests as possible around them.
+     */
+    public async readMemory(session: vscode.DebugSession): Promise<number[]> {
+        const excluded = this.getRegisters().filter((r) => r.isReadSensitive()).map((r) => {
+            const start = r.getAddress() - this.baseAddress;
+            return { start: start, end: start + r.size / 8 };
+        }).sort((a, b) => a.start - b.start);
 
-                resolve(true);
-            }, (error) => {
-                reject(error);
-            });
-        });
+        const bytes: number[] = new Array(this.totalLength).fill(0);
+        let offset = 0;
+        for (const range of excluded.concat([{ start: this.totalLength, end: this.totalLength }])) {
+            const end = Math.min(range.start, this.totalLength);
+            if (end > offset) {
+                const data = await session.customRequest('read-memory', { address: this.baseAddress + offset, length: end - offset });
+                data.bytes.forEach((b, i) => bytes[offset + i] = b);
+            }
+            offset = Math.max(offset, range.end);
+        }
+        return bytes;
+    }
+
+    public hasChanged(): boolean {
+        return this.children.some((c) => c.hasChanged());
+    }
+
+    public markHalt() {
+        this.children.forEach((c) => c.markHalt());
+    }
+
+    public async update(): Promise<boolean> {
+        if (!this.expanded) { return false; }
+
+        this.currentValue = await this.readMemory(vscode.debug.activeDebugSession);
+        this.children.forEach((r) => r.update());
+        return true;
     }
 
     public selected(): Thenable<boolean> {
@@ -259,45 +340,60 @@ export class PeripheralNode extends BaseNode {
 interface ClusterOptions {
     name: string;
     addressOffset: number;
+    description?: string;
     accessType?: AccessType;
     size?: number;
     resetValue?: number;
+    dimName?: string;
+    alternateCluster?: string;
 }
 
 export class ClusterNode extends BaseNode {
-    private children: RegisterNode[];
+    private children: Array<RegisterNode | ClusterNode>;
     public readonly name: string;
     public readonly offset: number;
+    public readonly description: string;
     public readonly size: number;
     public readonly resetValue: number;
     public readonly accessType: AccessType;
+    // Name of the C structure type of a cluster array (dimName)
+    public readonly dimName: string;
+    public readonly alternateCluster: string;
 
-    constructor(private parent: PeripheralNode, options: ClusterOptions) {
+    constructor(private parent: PeripheralNode | ClusterNode, options: ClusterOptions) {
         super(RecordType.Cluster);
         this.name = options.name;
         this.offset = options.addressOffset;
-        this.accessType = options.accessType || AccessType.ReadWrite;
+        this.description = options.description || '';
+        this.accessType = options.accessType || parent.accessType;
         this.size = options.size || parent.size;
-        this.resetValue = options.resetValue || parent.resetValue;
+        this.resetValue = options.resetValue !== undefined ? options.resetValue : parent.resetValue;
+        this.dimName = options.dimName;
+        this.alternateCluster = options.alternateCluster;
         this.children = [];
         this.parent.addChild(this);
     }
 
     public getTreeNode(): TreeNode {
         const label = `${this.name} [${hexFormat(this.offset, 0)}]`;
-        return new TreeNode(label, this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed, 'cluster', this);
+        const node = new TreeNode(label, this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed, 'cluster', this);
+
+        const tooltip = [this.dimName ? `${this.dimName}: ${this.description}` : this.description];
+        if (this.alternateCluster) { tooltip.push(`Alternate of ${this.alternateCluster}`); }
+        node.tooltip = tooltip.join('\n');
+        return node;
     }
 
-    public getChildren(): RegisterNode[] {
+    public getChildren(): Array<RegisterNode | ClusterNode> {
         return this.children;
     }
 
-    public setChildren(children: RegisterNode[]) {
+    public setChildren(children: Array<RegisterNode | ClusterNode>) {
         this.children = children.slice(0, children.length);
         this.children.sort((r1, r2) => r1.offset > r2.offset ? 1 : -1);
     }
 
-    public addChild(child: RegisterNode) {
+    public addChild(child: RegisterNode | ClusterNode) {
         this.children.push(child);
         this.children.sort((r1, r2) => r1.offset > r2.offset ? 1 : -1);
     }
@@ -315,7 +411,34 @@ export class ClusterNode extends BaseNode {
         else { return this.parent.getFormat(); }
     }
 
+    public getRegisters(): RegisterNode[] {
+        const registers: RegisterNode[] = [];
+        this.children.forEach((c) => {
+            if (c instanceof RegisterNode) { registers.push(c); }
+            else { registers.push(...c.getRegisters()); }
+        });
+        return registers;
+    }
+
+    public getPeripheral(): PeripheralNode {
+        return this.parent.getPeripheral();
+    }
+
+    // Path of the cluster below its peripheral (CLUSTER.NESTED)
+    public getPath(): string {
+        return this.parent instanceof ClusterNode ? `${this.parent.getPath()}.${this.name}` : this.name;
+    }
+
+    public hasChanged(): boolean {
+        return this.children.some((c) => c.hasChanged());
+    }
+
+    public markHalt() {
+        this.children.forEach((c) => c.markHalt());
+    }
+
     public update(): Thenable<boolean> {
+        this.children.forEach((c) => c.update());
         return Promise.resolve(true);
     }
 
@@ -349,6 +472,10 @@ interface RegisterOptions {
     accessType?: AccessType;
     size?: number;
     resetValue?: number;
+    alternateRegister?: string;
+    readAction?: ReadAction;
+    modifiedWriteValues?: ModifiedWriteValues;
+    writeOnce?: boolean;
 }
 
 export class RegisterNode extends BaseNode {
@@ -358,12 +485,24 @@ export class RegisterNode extends BaseNode {
     public readonly accessType: AccessType;
     public readonly size: number;
     public readonly resetValue: number;
+    // Name of the register that shares the address of this one, which is another view of the same hardware register
+    public readonly alternateRegister: string;
+    public readonly readAction: ReadAction;
+    // Applies to the fields that do not specify their own
+    public readonly modifiedWriteValues: ModifiedWriteValues;
+    public readonly writeOnce: boolean;
     
     private maxValue: number;
     private hexLength: number;
     private hexRegex: RegExp;
     private binaryRegex: RegExp;
     private currentValue: number;
+    // Read sensitive registers are only read on request, until then their value is not known
+    private valueRead: boolean = false;
+    // Whether the value was read from the target at all, until then it is the reset value
+    private updated: boolean = false;
+    // Value at the previous halt, null when it was not known then
+    private previousValue = new HaltHistory<number>();
     
     constructor(public parent: PeripheralNode | ClusterNode, options: RegisterOptions) {
         super(RecordType.Register);
@@ -373,6 +512,10 @@ export class RegisterNode extends BaseNode {
         this.accessType = options.accessType || parent.accessType;
         this.size = options.size || parent.size;
         this.resetValue = options.resetValue !== undefined ? options.resetValue : parent.resetValue;
+        this.alternateRegister = options.alternateRegister;
+        this.readAction = options.readAction;
+        this.modifiedWriteValues = options.modifiedWriteValues;
+        this.writeOnce = options.writeOnce || false;
         this.currentValue = this.resetValue;
 
         this.hexLength = Math.ceil(this.size / 4);
@@ -381,12 +524,7 @@ export class RegisterNode extends BaseNode {
         this.binaryRegex = new RegExp(`^0b[01]{1,${this.size}}$`, 'i');
         this.hexRegex = new RegExp(`^0x[0-9a-f]{1,${this.hexLength}}$`, 'i');
         this.children = [];
-        if (this.parent instanceof PeripheralNode) {
-            (this.parent as PeripheralNode).addChild(this);
-        }
-        else {
-            (this.parent as ClusterNode).addChild(this);
-        }
+        this.parent.addChild(this);
     }
 
     public reset() {
@@ -397,50 +535,102 @@ export class RegisterNode extends BaseNode {
         return extractBits(this.currentValue, offset, width);
     }
 
-    public updateBits(offset: number, width: number, value: number): Thenable<boolean> {
-        return new Promise((resolve, reject) => {
-            const limit = Math.pow(2, width);
-            if (value > limit) {
-                return reject(`Value entered is invalid. Maximum value for this field is ${limit - 1} (${hexFormat(limit - 1, 0)})`);
-            }
-            else {
-                const mask = createMask(offset, width);
-                const sv = value << offset;
-                const newval = (this.currentValue & ~mask) | sv;
-                this.updateValueInternal(newval).then(resolve, reject);
-            }
-        });
+    public getAddress(): number {
+        return this.parent.getAddress(this.offset);
+    }
+
+    public isReadSensitive(): boolean {
+        return !!this.readAction || this.children.some((f) => !!f.readAction);
+    }
+
+    // Whether the current value is known, which is only the case for read sensitive registers after an explicit read
+    public isValueRead(): boolean {
+        return this.valueRead || !this.isReadSensitive();
+    }
+
+    public getPreviousValue(): number {
+        return this.previousValue.getPrevious();
+    }
+
+    public hasChanged(): boolean {
+        return this.isValueRead() && this.previousValue.hasChanged(this.currentValue);
+    }
+
+    public markHalt() {
+        const known = this.updated && this.isValueRead() && this.accessType !== AccessType.WriteOnly;
+        this.previousValue.markHalt(this.currentValue, known);
+    }
+
+    /*
+     * Changes the bits of one field. The other fields are written with the value that leaves them unchanged, so that
+     * for example the write 1 to clear flags that happen to be set are not cleared along with the field.
+     */
+    public async updateBits(offset: number, width: number, value: number): Promise<boolean> {
+        const limit = Math.pow(2, width);
+        if (value >= limit) {
+            throw new Error(`Value entered is invalid. Maximum value for this field is ${limit - 1} (${hexFormat(limit - 1, 0)})`);
+        }
+
+        if (!this.isValueRead()) {
+            const message = `${this.name} is read sensitive and has not been read, the other fields will be written with their reset values.`;
+            if (await vscode.window.showWarningMessage(message, { modal: true }, 'Write') !== 'Write') { return false; }
+        }
+
+        const fields = this.children.map((f) => ({ offset: f.offset, width: f.width, modifiedWriteValues: f.getModifiedWriteValues() }));
+        const newval = fieldWriteValue(this.isValueRead() ? this.currentValue : this.resetValue, fields, offset, width, value);
+
+        const field = this.children.find((f) => f.offset === offset);
+        return this.writeValue(newval, this.writeOnce || (field && field.writeOnce));
+    }
+
+    public async readValue(): Promise<boolean> {
+        const result = await vscode.debug.activeDebugSession.customRequest('read-memory', { address: this.getAddress(), length: this.size / 8 });
+        this.setValue(new Buffer(result.bytes));
+        this.valueRead = true;
+        return true;
     }
 
     public getTreeNode(): TreeNode {
         let cv = 'registerRW';
         if (this.accessType === AccessType.ReadOnly) { cv = 'registerRO'; }
         else if (this.accessType === AccessType.WriteOnly) { cv = 'registerWO'; }
+        if (this.isReadSensitive() && this.accessType !== AccessType.WriteOnly) { cv += '-RS'; }
 
         let label: string = `${this.name} [${hexFormat(this.offset, 0)}]`;
         if (this.accessType === AccessType.WriteOnly) {
             label += ' - <Write Only>';
         }
+        else if (!this.isValueRead()) {
+            label += ' - <Read Sensitive>';
+        }
         else {
-            switch (this.getFormat()) {
-                case NumberFormat.Decimal:
-                    label += ` = ${this.currentValue.toString()}`;
-                    break;
-                case NumberFormat.Binary:
-                    label += ` = ${binaryFormat(this.currentValue, this.hexLength * 4, false, true)}`;
-                    break;
-                default:
-                    label += ` = ${hexFormat(this.currentValue, this.hexLength)}`;
-                    break;
-            }
-            
+            label += ` = ${this.formatValue(this.currentValue)}`;
         }
 
         const collapseState = this.children && this.children.length > 0
             ? (this.expanded ? vscode.TreeItemCollapsibleState.Expanded
             : vscode.TreeItemCollapsibleState.Collapsed) : vscode.TreeItemCollapsibleState.None;
         
-        return new TreeNode(label, collapseState, cv, this);
+        const node = new TreeNode(label, collapseState, cv, this);
+        const tooltip = [];
+        if (this.alternateRegister) { tooltip.push(`Alternate of ${this.alternateRegister}`); }
+        if (this.readAction) { tooltip.push(READ_ACTION_INFO[this.readAction][1]); }
+        if (this.isReadSensitive()) { tooltip.push('Reading has side effects, use Read Value to read it'); }
+        if (this.writeOnce) { tooltip.push('Can only be written once after reset'); }
+        if (this.hasChanged()) { tooltip.push(`Previous value: ${this.formatValue(this.getPreviousValue())}`); }
+        if (tooltip.length > 0) { node.tooltip = tooltip.join('\n'); }
+        return node;
+    }
+
+    private formatValue(value: number): string {
+        switch (this.getFormat()) {
+            case NumberFormat.Decimal:
+                return value.toString();
+            case NumberFormat.Binary:
+                return binaryFormat(value, this.hexLength * 4, false, true);
+            default:
+                return hexFormat(value, this.hexLength);
+        }
     }
 
     public getChildren(): FieldNode[] {
@@ -476,6 +666,7 @@ export class RegisterNode extends BaseNode {
     public performUpdate(): Thenable<boolean> {
         return new Promise((resolve, reject) => {
             vscode.window.showInputBox({ prompt: 'Enter new value: (prefix hex with 0x, binary with 0b)' }).then((val) => {
+                if (val === undefined) { return resolve(false); }
                 let numval;
                 if (val.match(this.hexRegex)) { numval = parseInt(val.substr(2), 16); }
                 else if (val.match(this.binaryRegex)) { numval = parseInt(val.substr(2), 2); }
@@ -490,13 +681,18 @@ export class RegisterNode extends BaseNode {
                     
                 }
 
-                this.updateValueInternal(numval).then(resolve, reject);
+                this.writeValue(numval).then(resolve, reject);
             });
         });
     }
 
-    private updateValueInternal(value: number): Thenable<boolean> {
-        const address = this.parent.getAddress(this.offset);
+    private async writeValue(value: number, writeOnce: boolean = this.writeOnce): Promise<boolean> {
+        if (writeOnce) {
+            const message = `${this.name} can only be written once after reset.`;
+            if (await vscode.window.showWarningMessage(message, { modal: true }, 'Write') !== 'Write') { return false; }
+        }
+
+        const address = this.getAddress();
         const bytes = [];
         const numbytes = this.size / 8;
 
@@ -508,19 +704,24 @@ export class RegisterNode extends BaseNode {
             bytes[i] = bs;
         }
 
-        return new Promise((resolve, reject) => {
-            vscode.debug.activeDebugSession.customRequest('write-memory', { address: address, data: bytes.join('') }).then((result) => {
-                this.parent.update().then(() => {}, () => {});
-                resolve(true);
-            }, reject);
-        });
+        await vscode.debug.activeDebugSession.customRequest('write-memory', { address: address, data: bytes.join('') });
+        this.parent.update().then(() => {}, () => {});
+        return true;
     }
 
     public update(): Thenable<boolean> {
-        const bc = this.size / 8;
-        const bytes = this.parent.getBytes(this.offset, bc);
-        const buffer = new Buffer(bytes);
-        switch (bc) {
+        // Automatic updates leave read sensitive registers alone, the bytes the peripheral returns for them were not read
+        if (this.isReadSensitive()) {
+            this.valueRead = false;
+            return Promise.resolve(true);
+        }
+
+        this.setValue(new Buffer(this.parent.getBytes(this.offset, this.size / 8)));
+        return Promise.resolve(true);
+    }
+
+    private setValue(buffer: Buffer) {
+        switch (this.size / 8) {
             case 1:
                 this.currentValue = buffer.readUInt8(0);
                 break;
@@ -534,9 +735,8 @@ export class RegisterNode extends BaseNode {
                 vscode.window.showErrorMessage(`Register ${this.name} has invalid size: ${this.size}. Should be 8, 16 or 32.`);
                 break;
         }
+        this.updated = true;
         this.children.forEach((f) => f.update());
-
-        return Promise.resolve(true);
     }
 
     public _saveState(path: string): NodeSetting[] {
@@ -570,6 +770,9 @@ interface FieldOptions {
     width: number;
     enumeration?: EnumerationMap;
     accessType?: AccessType;
+    readAction?: ReadAction;
+    modifiedWriteValues?: ModifiedWriteValues;
+    writeOnce?: boolean;
 }
 
 export class FieldNode extends BaseNode {
@@ -578,6 +781,9 @@ export class FieldNode extends BaseNode {
     public readonly offset: number;
     public readonly width: number;
     public readonly accessType: AccessType;
+    public readonly readAction: ReadAction;
+    public readonly writeOnce: boolean;
+    private readonly modifiedWriteValues: ModifiedWriteValues;
     
     private enumeration: EnumerationMap;
     private enumerationValues: string[];
@@ -590,6 +796,9 @@ export class FieldNode extends BaseNode {
         this.description = options.description;
         this.offset = options.offset;
         this.width = options.width;
+        this.readAction = options.readAction;
+        this.modifiedWriteValues = options.modifiedWriteValues;
+        this.writeOnce = options.writeOnce || false;
         
         if (!options.accessType) { this.accessType = parent.accessType; }
         else {
@@ -624,7 +833,6 @@ export class FieldNode extends BaseNode {
 
     public getTreeNode(): TreeNode {
         const value = this.parent.extractBits(this.offset, this.width);
-        let evalue = null;
         let label = this.name;
 
         const rangestart = this.offset;
@@ -639,39 +847,73 @@ export class FieldNode extends BaseNode {
             if (this.accessType === AccessType.WriteOnly) {
                 label += ' - <Write Only>';
             }
+            else if (!this.parent.isValueRead()) {
+                label += ' - <Read Sensitive>';
+            }
             else {
-                let formattedValue: string = '';
-
-                switch (this.getFormat()) {
-                    case NumberFormat.Decimal:
-                        formattedValue = value.toString();
-                        break;
-                    case NumberFormat.Binary:
-                        formattedValue = binaryFormat(value, this.width);
-                        break;
-                    case NumberFormat.Hexidecimal:
-                        formattedValue = hexFormat(value, Math.ceil(this.width / 4), true);
-                        break;
-                    default:
-                        formattedValue = this.width >= 4 ? hexFormat(value, Math.ceil(this.width / 4), true) : binaryFormat(value, this.width);
-                        break;
-                }
-                
-                if (this.enumeration && this.enumeration[value]) {
-                    evalue = this.enumeration[value];
-                    label += ` = ${evalue.name} (${formattedValue})`;
-                }
-                else {
-                    label += ` = ${formattedValue}`;
-                }
+                label += ` = ${this.formatValue(value)}`;
             }
         }
 
-        if (this.parent.accessType === AccessType.ReadOnly) {
+        if (this.parent.accessType === AccessType.ReadOnly || this.accessType === AccessType.ReadOnly) {
             context = 'field-ro';
         }
 
-        return new TreeNode(label, vscode.TreeItemCollapsibleState.None, context, this);
+        const annotations = [];
+        const descriptions = [this.description];
+        if (this.readAction) {
+            annotations.push(READ_ACTION_INFO[this.readAction][0]);
+            descriptions.push(READ_ACTION_INFO[this.readAction][1]);
+        }
+        if (this.getModifiedWriteValues()) {
+            annotations.push(MODIFIED_WRITE_VALUES_INFO[this.getModifiedWriteValues()][0]);
+            descriptions.push(MODIFIED_WRITE_VALUES_INFO[this.getModifiedWriteValues()][1]);
+        }
+        if (annotations.length > 0) { label += ` [${annotations.join(', ')}]`; }
+
+        if (this.hasChanged()) {
+            descriptions.push(`Previous value: ${this.formatValue(extractBits(this.parent.getPreviousValue(), this.offset, this.width))}`);
+        }
+
+        const node = new TreeNode(label, vscode.TreeItemCollapsibleState.None, context, this);
+        node.tooltip = descriptions.filter((d) => d).join('\n');
+        return node;
+    }
+
+    public getModifiedWriteValues(): ModifiedWriteValues {
+        return this.modifiedWriteValues || this.parent.modifiedWriteValues;
+    }
+
+    public hasChanged(): boolean {
+        if (this.accessType === AccessType.WriteOnly || !this.parent.hasChanged()) { return false; }
+        return extractBits(this.parent.getPreviousValue(), this.offset, this.width) !== this.parent.extractBits(this.offset, this.width);
+    }
+
+    // Formats a value of this field, which does not have to be the current one, including its enumerated value name
+    public formatValue(value: number): string {
+        let formattedValue: string = '';
+
+        switch (this.getFormat()) {
+            case NumberFormat.Decimal:
+                formattedValue = value.toString();
+                break;
+            case NumberFormat.Binary:
+                formattedValue = binaryFormat(value, this.width);
+                break;
+            case NumberFormat.Hexidecimal:
+                formattedValue = hexFormat(value, Math.ceil(this.width / 4), true);
+                break;
+            default:
+                formattedValue = this.width >= 4 ? hexFormat(value, Math.ceil(this.width / 4), true) : binaryFormat(value, this.width);
+                break;
+        }
+
+        if (this.enumeration && this.enumeration[value]) {
+            return `${this.enumeration[value].name} (${formattedValue})`;
+        }
+        else {
+            return formattedValue;
+        }
     }
 
     public performUpdate(): Thenable<any> {
@@ -743,9 +985,12 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
 
     private defaultResetValue: number = 0x00000000;
     private defaultSize: number = 32;
+    // Only the peripherals, registers and fields that changed since the previous halt are shown
+    private changedOnly: boolean = false;
+    private changedIcon: string;
 
-    constructor() {
-
+    constructor(extensionPath: string) {
+        this.changedIcon = path.join(extensionPath, 'images', 'changed.svg');
     }
 
     private _saveState(path: string): void {
@@ -799,7 +1044,7 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                 ev.enumeratedValue.map((ev) => {
                     if (ev.value && ev.value.length > 0) {
                         const evname = ev.name[0];
-                        const evdesc = ev.description[0];
+                        const evdesc = ev.description ? ev.description[0] : '';
                         const val = ev.value[0].toLowerCase();
                         const evvalue = parseInteger(val);
                         
@@ -808,13 +1053,19 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                 });
             }
 
-            const baseOptions = {
+            const baseOptions: any = {
                 name: f.name[0],
                 description: description,
                 offset: offset,
                 width: width,
                 enumeration: valueMap
             };
+            if (f.access) {
+                baseOptions.accessType = ACCESS_TYPE_MAP[f.access[0]];
+                baseOptions.writeOnce = WRITE_ONCE_ACCESS.indexOf(f.access[0]) !== -1;
+            }
+            if (f.readAction) { baseOptions.readAction = f.readAction[0]; }
+            if (f.modifiedWriteValues) { baseOptions.modifiedWriteValues = f.modifiedWriteValues[0]; }
 
             if (f.dim) {
                 if (!f.dimIncrement) { throw new Error(`Unable to parse SVD file: field ${f.name[0]} has dim element, with no dimIncrement element.`); }
@@ -852,6 +1103,13 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
             const baseOptions: any = {};
             if (r.access) {
                 baseOptions.accessType = ACCESS_TYPE_MAP[r.access[0]];
+                baseOptions.writeOnce = WRITE_ONCE_ACCESS.indexOf(r.access[0]) !== -1;
+            }
+            if (r.readAction) {
+                baseOptions.readAction = r.readAction[0];
+            }
+            if (r.modifiedWriteValues) {
+                baseOptions.modifiedWriteValues = r.modifiedWriteValues[0];
             }
             if (r.size) {
                 baseOptions.size = parseInteger(r.size[0]);
@@ -859,6 +1117,12 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
             if (r.resetValue) {
                 baseOptions.resetValue = parseInteger(r.resetValue[0]);
             }
+            if (r.alternateRegister) {
+                baseOptions.alternateRegister = r.alternateRegister[0];
+            }
+
+            // Registers of an alternate group share their address, the group name keeps their names unique
+            const namebase: string = r.alternateGroup ? `${r.name[0]}_${r.alternateGroup[0]}` : r.name[0];
 
             if (r.dim) {
                 if (!r.dimIncrement) { throw new Error(`Unable to parse SVD file: register ${r.name[0]} has dim element, with no dimIncrement element.`); }
@@ -873,7 +1137,6 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                     for (let i = 0; i < count; i++) { index.push(`${i}`); }
                 }
 
-                const namebase: string = r.name[0];
                 const offsetbase = parseInteger(r.addressOffset[0]);
 
                 for (let i = 0; i < count; i++) {
@@ -887,7 +1150,7 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                 }
             }
             else {
-                const register = new RegisterNode(parent, { ...baseOptions, name: r.name[0], addressOffset: parseInteger(r.addressOffset[0]) });
+                const register = new RegisterNode(parent, { ...baseOptions, name: namebase, addressOffset: parseInteger(r.addressOffset[0]) });
                 if (r.fields && r.fields.length === 1) {
                     this._parseFields(r.fields[0].field, register);
                 }
@@ -904,7 +1167,7 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
         return registers;
     }
 
-    private _parseClusters(clusterInfo: any, parent: PeripheralNode): ClusterNode[] {
+    private _parseClusters(clusterInfo: any, parent: PeripheralNode | ClusterNode): ClusterNode[] {
         const clusters: ClusterNode[] = [];
 
         if (!clusterInfo) { return []; }
@@ -918,7 +1181,16 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                 baseOptions.size = parseInteger(c.size[0]);
             }
             if (c.resetValue) {
-                baseOptions.resetValue = parseInteger(c.resetValue);
+                baseOptions.resetValue = parseInteger(c.resetValue[0]);
+            }
+            if (c.description) {
+                baseOptions.description = c.description[0];
+            }
+            if (c.dimName) {
+                baseOptions.dimName = c.dimName[0];
+            }
+            if (c.alternateCluster) {
+                baseOptions.alternateCluster = c.alternateCluster[0];
             }
 
             if (c.dim) {
@@ -945,6 +1217,9 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                     if (c.register) {
                         this._parseRegisters(c.register, cluster);
                     }
+                    if (c.cluster) {
+                        this._parseClusters(c.cluster, cluster);
+                    }
                     clusters.push(cluster);
                 }
 
@@ -953,8 +1228,11 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                 const cluster = new ClusterNode(parent, { ...baseOptions, name: c.name[0], addressOffset: parseInteger(c.addressOffset[0]) });
                 if (c.register) {
                     this._parseRegisters(c.register, cluster);
-                    clusters.push(cluster);
                 }
+                if (c.cluster) {
+                    this._parseClusters(c.cluster, cluster);
+                }
+                clusters.push(cluster);
             }
 
         });
@@ -969,7 +1247,7 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
         const options: any = {
             name: p.name[0],
             baseAddress: parseInteger(p.baseAddress[0]),
-            description: p.description[0],
+            description: p.description ? p.description[0] : '',
             totalLength: totalLength
         };
 
@@ -977,11 +1255,14 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
         if (p.size) { options.size = parseInteger(p.size[0]); }
         if (p.resetValue) { options.resetValue = parseInteger(p.resetValue[0]); }
         if (p.groupName) { options.groupName = p.groupName[0]; }
+        if (p.alternatePeripheral) { options.alternatePeripheral = p.alternatePeripheral[0]; }
         
         const peripheral = new PeripheralNode(options);
 
-        const registers = this._parseRegisters(p.registers[0].register, peripheral);
-        const clusters = this._parseClusters(p.registers[0].cluster, peripheral);
+        if (p.registers) {
+            if (p.registers[0].register) { this._parseRegisters(p.registers[0].register, peripheral); }
+            if (p.registers[0].cluster) { this._parseClusters(p.registers[0].cluster, peripheral); }
+        }
 
         return peripheral;
     }
@@ -989,7 +1270,10 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
     private _loadSVD(SVDFile: string): Thenable<any> {
         return new Promise((resolve, reject) => {
             fs.readFile(SVDFile, 'utf8', (err, data) => {
+                if (err) { reject(err); return; }
                 xml2js.parseString(data, (err, result) => {
+                    if (err) { reject(err); return; }
+
                     const peripheralMap = {};
                     const defaultOptions = {
                         accessType: AccessType.ReadWrite,
@@ -1012,19 +1296,12 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
                         peripheralMap[name] = element;
                     });
 
-                    // tslint:disable-next-line:forin
-                    for (const key in peripheralMap) {
-                        const element = peripheralMap[key];
-                        if (element.$ && element.$.derivedFrom) {
-                            const base = peripheralMap[element.$.derivedFrom];
-                            peripheralMap[key] = {...base, ...element};
-                        }
+                    try {
+                        this.peripherials = resolveDerivations(peripheralMap).map((p) => this._parsePeripheral(p, defaultOptions));
                     }
-
-                    this.peripherials = [];
-                    // tslint:disable-next-line:forin
-                    for (const key in peripheralMap) {
-                        this.peripherials.push(this._parsePeripheral(peripheralMap[key], defaultOptions));
+                    catch (e) {
+                        reject(e);
+                        return;
                     }
 
                     this.peripherials.sort((p1, p2) => {
@@ -1057,17 +1334,37 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
         this._onDidChangeTreeData.fire();
     }
 
+    public getPeripherals(): PeripheralNode[] {
+        return this.peripherials;
+    }
+
     public getTreeItem(element: TreeNode): vscode.TreeItem {
         return element;
     }
 
+    public setChangedOnly(changedOnly: boolean) {
+        this.changedOnly = changedOnly;
+        this._onDidChangeTreeData.fire();
+    }
+
+    private createTreeNodes(nodes: BaseNode[]): TreeNode[] {
+        return nodes.filter((n) => !this.changedOnly || n.hasChanged()).map((n) => {
+            const node = n.getTreeNode();
+            if (n.hasChanged()) { node.iconPath = this.changedIcon; }
+            return node;
+        });
+    }
+
     public getChildren(element?: TreeNode): ProviderResult<TreeNode[]> {
         if (this.loaded && this.peripherials.length > 0) {
             if (element) {
-                return element.node.getChildren().map((c) => c.getTreeNode());
+                return this.createTreeNodes(element.node.getChildren());
+            }
+            else if (this.changedOnly && !this.peripherials.some((p) => p.hasChanged())) {
+                return [new TreeNode('No values changed since the previous halt', vscode.TreeItemCollapsibleState.None, 'message', null)];
             }
             else {
-                return this.peripherials.map((p) => p.getTreeNode());
+                return this.createTreeNodes(this.peripherials);
             }
         }
         else if (!this.loaded) {
@@ -1141,6 +1438,7 @@ export class PeripheralTreeProvider implements vscode.TreeDataProvider<TreeNode>
 
     public debugStopped() {
         if (this.loaded) {
+            this.peripherials.forEach((p) => p.markHalt());
             const promises = this.peripherials.map((p) => p.update());
             Promise.all(promises).then((_) => { this._onDidChangeTreeData.fire(); }, (_) => { this._onDidChangeTreeData.fire(); });
         }
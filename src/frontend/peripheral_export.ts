@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+
+import { PeripheralNode, ClusterNode, RegisterNode, AccessType } from './peripheral';
+import { RegisterValue, collectRegisters } from './peripheral_snapshot';
+import { hexFormat, extractBits } from './utils';
+
+const EXPORT_VERSION = 1;
+
+export interface PeripheralExport {
+    version: number;
+    peripheral: string;
+    baseAddress: number;
+    // Registers keyed by their path below the peripheral (CLUSTER.REGISTER for registers in clusters)
+    registers: {
+        [path: string]: {
+            value: number;
+            fields?: { [name: string]: number };
+        }
+    };
+}
+
+function isWritable(register: RegisterNode): boolean {
+    return register.accessType !== AccessType.ReadOnly;
+}
+
+function writableFields(register: RegisterNode) {
+    return register.getChildren().filter((f) => f.accessType !== AccessType.ReadOnly && f.name.toLowerCase() !== 'reserved');
+}
+
+/*
+ * C statements that write the registers of a peripheral or cluster that differ from their reset value, in the style
+ * of the CMSIS device headers (USART1->CR1, DMA1->CH[0].CCR). The fields that differ from their reset value are
+ * listed in a comment after each statement.
+ */
+export function exportC(node: PeripheralNode | ClusterNode, values: RegisterValue[]): string {
+    const peripheral = node.getPeripheral();
+    const lines = [`/* ${node instanceof ClusterNode ? `${peripheral.name}->${node.getPath()}` : peripheral.name} - registers that differ from their reset value */`];
+
+    values.filter((r) => isWritable(r.register) && r.value !== r.register.resetValue).forEach((r) => {
+        const changed = writableFields(r.register).filter((f) => {
+            return extractBits(r.value, f.offset, f.width) !== extractBits(r.register.resetValue, f.offset, f.width);
+        }).map((f) => `${f.name}=${extractBits(r.value, f.offset, f.width)}`);
+
+        const statement = `${peripheral.name}->${r.path} = ${hexFormat(r.value, Math.ceil(r.register.size / 4))}U;`;
+        lines.push(changed.length > 0 ? `${statement} /* ${changed.join(', ')} */` : statement);
+    });
+
+    if (lines.length === 1) { lines.push('/* All registers have their reset value */'); }
+    return lines.join('\n') + '\n';
+}
+
+export function exportJSON(node: PeripheralNode | ClusterNode, values: RegisterValue[]): PeripheralExport {
+    const peripheral = node.getPeripheral();
+    const result: PeripheralExport = { version: EXPORT_VERSION, peripheral: peripheral.name, baseAddress: peripheral.baseAddress, registers: {} };
+
+    values.filter((r) => isWritable(r.register)).forEach((r) => {
+        const fields = writableFields(r.register);
+        result.registers[r.path] = { value: r.value };
+        if (fields.length > 0) {
+            result.registers[r.path].fields = {};
+            fields.forEach((f) => result.registers[r.path].fields[f.name] = extractBits(r.value, f.offset, f.width));
+        }
+    });
+
+    return result;
+}
+
+export function loadExport(fspath: string): PeripheralExport {
+    const data: PeripheralExport = JSON.parse(fs.readFileSync(fspath, 'utf8'));
+    if (!data || data.version !== EXPORT_VERSION || typeof data.peripheral !== 'string' || typeof data.registers !== 'object') {
+        throw new Error(`${fspath} is not an exported peripheral`);
+    }
+    return data;
+}
+
+/*
+ * Writes the values of an exported peripheral to the registers of a peripheral or cluster, one field at a time through
+ * updateBits so that only the fields that differ are written. Registers without fields are written as a whole. Each
+ * register is read before and after every write, as a write can change more than the field it was meant for.
+ */
+export async function importJSON(node: PeripheralNode | ClusterNode, data: PeripheralExport): Promise<{ written: number, errors: string[] }> {
+    const peripheral = node.getPeripheral();
+    if (data.peripheral !== peripheral.name) {
+        throw new Error(`The file holds the registers of ${data.peripheral}, not ${peripheral.name}`);
+    }
+
+    const registers = collectRegisters(node, node instanceof ClusterNode ? `${node.getPath()}.` : '');
+    const errors: string[] = [];
+    let written = 0;
+
+    for (const path of Object.keys(data.registers)) {
+        const entry = registers.find((r) => r.path === path);
+        if (!entry) {
+            if (node instanceof PeripheralNode) { errors.push(`${path} does not exist`); }
+            continue;
+        }
+
+        const register = entry.register;
+        if (!isWritable(register) || register.accessType === AccessType.WriteOnly || register.isReadSensitive()) {
+            errors.push(`${path} can not be read and written`);
+            continue;
+        }
+
+        const values = data.registers[path];
+        await register.readValue();
+        if (register.getChildren().length === 0) {
+            if (register.extractBits(0, register.size) !== values.value) {
+                if (await register.updateBits(0, register.size, values.value)) { written++; }
+            }
+            continue;
+        }
+
+        for (const name of Object.keys(values.fields || {})) {
+            const field = writableFields(register).find((f) => f.name === name);
+            if (!field) {
+                errors.push(`${path}.${name} does not exist or is read-only`);
+            }
+            else if (register.extractBits(field.offset, field.width) !== values.fields[name]) {
+                if (await register.updateBits(field.offset, field.width, values.fields[name])) {
+                    written++;
+                    await register.readValue();
+                }
+            }
+        }
+    }
+
+    return { written: written, errors: errors };
+}
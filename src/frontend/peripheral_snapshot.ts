@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+import { PeripheralNode, ClusterNode, RegisterNode, FieldNode, AccessType } from './peripheral';
+import { hexFormat, extractBits } from './utils';
+
+const SNAPSHOT_VERSION = 1;
+
+export interface PeripheralSnapshot {
+    version: number;
+    label: string;
+    timestamp: string;
+    peripherals: {
+        [name: string]: {
+            baseAddress: number;
+            // Register values keyed by their path below the peripheral (CLUSTER.REGISTER for registers in clusters)
+            registers: { [path: string]: number };
+        }
+    };
+}
+
+export interface RegisterEntry {
+    path: string;
+    register: RegisterNode;
+}
+
+export interface RegisterValue extends RegisterEntry {
+    value: number;
+}
+
+export function collectRegisters(node: PeripheralNode | ClusterNode, prefix: string = ''): RegisterEntry[] {
+    const registers: RegisterEntry[] = [];
+    node.getChildren().forEach((child: RegisterNode | ClusterNode) => {
+        if (child instanceof RegisterNode) { registers.push({ path: `${prefix}${child.name}`, register: child }); }
+        else { registers.push(...collectRegisters(child, `${prefix}${child.name}.`)); }
+    });
+    return registers;
+}
+
+/*
+ * Reads the address block of the peripheral a node belongs to and returns the value of every readable register of the
+ * node, with its path below the peripheral. Registers with read side effects are left out. The nodes themselves are
+ * left untouched, so reading them does not change what the peripheral view shows.
+ */
+export async function readRegisterValues(session: vscode.DebugSession, node: PeripheralNode | ClusterNode): Promise<RegisterValue[]> {
+    const peripheral = node.getPeripheral();
+    const bytes = new Buffer(await peripheral.readMemory(session));
+    const registers = collectRegisters(node, node instanceof ClusterNode ? `${node.getPath()}.` : '');
+
+    const values: RegisterValue[] = [];
+    registers.forEach((entry) => {
+        const offset = entry.register.getAddress() - peripheral.baseAddress;
+        const length = entry.register.size / 8;
+        if (entry.register.accessType === AccessType.WriteOnly || entry.register.isReadSensitive()) { return; }
+        if (offset + length > bytes.length || [1, 2, 4].indexOf(length) === -1) { return; }
+        values.push({ ...entry, value: bytes.readUIntLE(offset, length) });
+    });
+    return values;
+}
+
+export async function captureSnapshot(session: vscode.DebugSession, peripherals: PeripheralNode[], label: string): Promise<PeripheralSnapshot> {
+    const snapshot: PeripheralSnapshot = { version: SNAPSHOT_VERSION, label: label, timestamp: new Date().toISOString(), peripherals: {} };
+
+    for (const peripheral of peripherals) {
+        const registers = {};
+        (await readRegisterValues(session, peripheral)).forEach((r) => registers[r.path] = r.value);
+        snapshot.peripherals[peripheral.name] = { baseAddress: peripheral.baseAddress, registers: registers };
+    }
+
+    return snapshot;
+}
+
+export function saveSnapshot(snapshot: PeripheralSnapshot, fspath: string) {
+    fs.writeFileSync(fspath, JSON.stringify(snapshot, null, 4), { encoding: 'utf8', flag: 'w' });
+}
+
+export function loadSnapshot(fspath: string): PeripheralSnapshot {
+    const snapshot: PeripheralSnapshot = JSON.parse(fs.readFileSync(fspath, 'utf8'));
+    if (!snapshot || snapshot.version !== SNAPSHOT_VERSION || typeof snapshot.peripherals !== 'object') {
+        throw new Error(`${fspath} is not a peripheral snapshot`);
+    }
+    return snapshot;
+}
+
+interface FieldDiff {
+    field: FieldNode;
+    oldValue: number;
+    newValue: number;
+}
+
+interface RegisterDiff {
+    path: string;
+    register: RegisterNode;
+    oldValue: number;
+    newValue: number;
+    fields: FieldDiff[];
+}
+
+interface PeripheralDiff {
+    peripheral: PeripheralNode;
+    registers: RegisterDiff[];
+}
+
+// Only peripherals and registers present in both snapshots (and in the loaded SVD file) can be compared
+function diffSnapshots(peripherals: PeripheralNode[], before: PeripheralSnapshot, after: PeripheralSnapshot): PeripheralDiff[] {
+    const diffs: PeripheralDiff[] = [];
+
+    peripherals.forEach((peripheral) => {
+        const old = before.peripherals[peripheral.name];
+        const current = after.peripherals[peripheral.name];
+        if (!old || !current) { return; }
+
+        const registers: RegisterDiff[] = [];
+        collectRegisters(peripheral).forEach((entry) => {
+            const oldValue = old.registers[entry.path];
+            const newValue = current.registers[entry.path];
+            if (oldValue === undefined || newValue === undefined || oldValue === newValue) { return; }
+
+            const fields = entry.register.getChildren()
+                .map((f) => ({ field: f, oldValue: extractBits(oldValue, f.offset, f.width), newValue: extractBits(newValue, f.offset, f.width) }))
+                .filter((f) => f.oldValue !== f.newValue);
+            registers.push({ path: entry.path, register: entry.register, oldValue: oldValue, newValue: newValue, fields: fields });
+        });
+
+        if (registers.length > 0) { diffs.push({ peripheral: peripheral, registers: registers }); }
+    });
+
+    return diffs;
+}
+
+export class TreeNode extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public contextValue: string,
+        public children: TreeNode[] = []
+    ) {
+        super(label, collapsibleState);
+    }
+}
+
+export class PeripheralSnapshotTreeProvider implements vscode.TreeDataProvider<TreeNode> {
+    // tslint:disable-next-line:variable-name
+    public _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined> = new vscode.EventEmitter<TreeNode | undefined>();
+    public readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined> = this._onDidChangeTreeData.event;
+
+    private snapshots: PeripheralSnapshot[] = [];
+    private nodes: TreeNode[] = null;
+
+    public getSnapshots(): PeripheralSnapshot[] {
+        return this.snapshots;
+    }
+
+    public addSnapshot(snapshot: PeripheralSnapshot) {
+        this.snapshots.push(snapshot);
+    }
+
+    public clear() {
+        this.nodes = null;
+        this._onDidChangeTreeData.fire();
+    }
+
+    public compare(peripherals: PeripheralNode[], before: PeripheralSnapshot, after: PeripheralSnapshot): number {
+        const diffs = diffSnapshots(peripherals, before, after);
+
+        this.nodes = diffs.map((pd) => {
+            const registers = pd.registers.map((rd) => {
+                const digits = Math.ceil(rd.register.size / 4);
+                const fields = rd.fields.map((fd) => {
+                    const range = `[${fd.field.offset + fd.field.width - 1}:${fd.field.offset}]`;
+                    const fn = new TreeNode(`${fd.field.name}${range} ${fd.field.formatValue(fd.oldValue)} → ${fd.field.formatValue(fd.newValue)}`,
+                        vscode.TreeItemCollapsibleState.None, 'field');
+                    fn.tooltip = fd.field.description;
+                    return fn;
+                });
+
+                const rn = new TreeNode(`${rd.path} ${hexFormat(rd.oldValue, digits)} → ${hexFormat(rd.newValue, digits)}`,
+                    fields.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None, 'register', fields);
+                rn.tooltip = `${hexFormat(rd.register.getAddress())}`;
+                return rn;
+            });
+
+            const count = registers.length === 1 ? '1 register' : `${registers.length} registers`;
+            return new TreeNode(`${pd.peripheral.name} (${count} changed)`, vscode.TreeItemCollapsibleState.Expanded, 'peripheral', registers);
+        });
+
+        const title = new TreeNode(`${before.label} → ${after.label}`, vscode.TreeItemCollapsibleState.None, 'message');
+        this.nodes.unshift(title);
+        this._onDidChangeTreeData.fire();
+        return diffs.length;
+    }
+
+    public getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: TreeNode): vscode.ProviderResult<TreeNode[]> {
+        if (element) { return element.children; }
+        else if (this.nodes) {
+            return this.nodes.length > 1 ? this.nodes : this.nodes.concat([new TreeNode('No differences', vscode.TreeItemCollapsibleState.None, 'message')]);
+        }
+        else { return [new TreeNode('Capture peripheral snapshots to compare them.', vscode.TreeItemCollapsibleState.None, 'message')]; }
+    }
+
+    public debugSessionTerminated() {
+        // The diff refers to nodes of the SVD file of the session, snapshots themselves are kept for the next session
+        this.nodes = null;
+        this._onDidChangeTreeData.fire();
+    }
+}
@@ -0,0 +1,379 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+import { ProgramCounterSample } from './swo/common';
+import { LineInformation } from '../symbols';
+import { hexFormat } from './utils';
+
+const SLEEP_FUNCTION = '<Sleep>';
+const UNKNOWN_FUNCTION = '<Unknown>';
+const REFRESH_INTERVAL = 1000;
+
+export enum ProfileSortOrder {
+    Samples,
+    Name
+}
+
+interface AddressSamples {
+    address: number;
+    functionName: string;
+    samples: number;
+    line: LineInformation;
+}
+
+function formatPercentage(samples: number, total: number): string {
+    return total > 0 ? `${(samples * 100 / total).toFixed(1)}%` : '0.0%';
+}
+
+function normalizePath(file: string): string {
+    const normalized = path.normalize(file);
+    return os.platform() === 'win32' ? normalized.toLowerCase() : normalized;
+}
+
+export class TreeNode extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public contextValue: string, public node: BaseNode
+    ) {
+        super(label, collapsibleState);
+
+        this.command = {
+            command: 'cortex-debug.profiler.selectedNode',
+            arguments: [node],
+            title: 'Selected Node'
+        };
+    }
+}
+
+export class BaseNode {
+    public expanded: boolean = false;
+
+    constructor(public name: string, public samples: number) {}
+
+    public getChildren(): BaseNode[] { return []; }
+    public getTreeNode(total: number): TreeNode { return null; }
+}
+
+export class LineNode extends BaseNode {
+    constructor(public file: string, public line: number, samples: number) {
+        super(file ? `${path.basename(file)}:${line}` : '??:0', samples);
+    }
+
+    public getTreeNode(total: number): TreeNode {
+        const tn = new TreeNode(`${this.name} = ${this.samples} (${formatPercentage(this.samples, total)})`,
+            vscode.TreeItemCollapsibleState.None, 'line', this);
+
+        if (this.file) {
+            tn.tooltip = `${this.file}:${this.line}`;
+            tn.command = {
+                command: 'vscode.open',
+                arguments: [vscode.Uri.file(this.file), { selection: new vscode.Range(this.line - 1, 0, this.line - 1, 0) }],
+                title: 'Open Source Line'
+            };
+        }
+
+        return tn;
+    }
+}
+
+export class FunctionNode extends BaseNode {
+    private lines: LineNode[] = [];
+
+    constructor(name: string) {
+        super(name, 0);
+    }
+
+    public addSamples(file: string, line: number, samples: number) {
+        this.samples += samples;
+
+        const existing = this.lines.find((l) => l.file === file && l.line === line);
+        if (existing) { existing.samples += samples; }
+        else { this.lines.push(new LineNode(file, line, samples)); }
+    }
+
+    public sort(order: ProfileSortOrder) {
+        if (order === ProfileSortOrder.Name) {
+            this.lines.sort((a, b) => a.name === b.name ? a.line - b.line : (a.name < b.name ? -1 : 1));
+        }
+        else {
+            this.lines.sort((a, b) => b.samples - a.samples);
+        }
+    }
+
+    public getChildren(): LineNode[] {
+        return this.lines;
+    }
+
+    public getTreeNode(total: number): TreeNode {
+        const state = this.lines.length === 0 ? vscode.TreeItemCollapsibleState.None
+            : (this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+
+        return new TreeNode(`${this.name} = ${this.samples} (${formatPercentage(this.samples, total)})`, state, 'function', this);
+    }
+}
+
+export class ProfilerTreeProvider implements vscode.TreeDataProvider<TreeNode> {
+    // tslint:disable-next-line:variable-name
+    public _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined> = new vscode.EventEmitter<TreeNode | undefined>();
+    public readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined> = this._onDidChangeTreeData.event;
+
+    private collecting: boolean = true;
+    private sortOrder: ProfileSortOrder = ProfileSortOrder.Samples;
+    private addressSamples: Map<number, AddressSamples> = new Map();
+    private sleepSamples: number = 0;
+    private totalSamples: number = 0;
+    private functions: FunctionNode[] = [];
+    private dirty: boolean = false;
+    private resolving: boolean = false;
+    private refreshTimer: NodeJS.Timer = null;
+    private decorationTypes: vscode.TextEditorDecorationType[];
+
+    constructor(extensionPath: string) {
+        this.decorationTypes = ['cool', 'warm', 'hot'].map((level) => vscode.window.createTextEditorDecorationType({
+            gutterIconPath: path.join(extensionPath, 'images', `profiler-${level}.svg`),
+            gutterIconSize: 'contain',
+            overviewRulerColor: level === 'hot' ? 'rgba(255, 64, 64, 0.8)' : (level === 'warm' ? 'rgba(255, 160, 0, 0.6)' : 'rgba(255, 224, 0, 0.4)'),
+            overviewRulerLane: vscode.OverviewRulerLane.Left
+        }));
+
+        vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations());
+    }
+
+    public isCollecting(): boolean {
+        return this.collecting;
+    }
+
+    public start() {
+        this.collecting = true;
+    }
+
+    public stop() {
+        this.collecting = false;
+        this.refresh();
+    }
+
+    public reset() {
+        this.addressSamples = new Map();
+        this.sleepSamples = 0;
+        this.totalSamples = 0;
+        this.functions = [];
+        this.dirty = false;
+        this._onDidChangeTreeData.fire();
+        this.updateDecorations();
+    }
+
+    public setSortOrder(order: ProfileSortOrder) {
+        this.sortOrder = order;
+        this.buildTree();
+        this._onDidChangeTreeData.fire();
+    }
+
+    public addSample(sample: ProgramCounterSample) {
+        if (!this.collecting) { return; }
+
+        this.totalSamples += 1;
+        if (sample.sleep) {
+            this.sleepSamples += 1;
+        }
+        else {
+            const entry = this.addressSamples.get(sample.pc);
+            if (entry) { entry.samples += 1; }
+            else {
+                this.addressSamples.set(sample.pc, {
+                    address: sample.pc,
+                    functionName: sample.symbol ? sample.symbol.name : UNKNOWN_FUNCTION,
+                    samples: 1,
+                    line: null
+                });
+            }
+        }
+
+        this.dirty = true;
+        if (!this.refreshTimer) {
+            this.refreshTimer = setTimeout(() => {
+                this.refreshTimer = null;
+                this.refresh();
+            }, REFRESH_INTERVAL);
+        }
+    }
+
+    public refresh(): void {
+        if (!this.dirty || this.resolving) { return; }
+        this.dirty = false;
+
+        const unresolved: number[] = [];
+        this.addressSamples.forEach((entry) => {
+            if (!entry.line) { unresolved.push(entry.address); }
+        });
+
+        if (unresolved.length === 0 || !vscode.debug.activeDebugSession) {
+            this.buildTree();
+            this._onDidChangeTreeData.fire();
+            this.updateDecorations();
+            return;
+        }
+
+        this.resolving = true;
+        vscode.debug.activeDebugSession.customRequest('resolve-line-information', { addresses: unresolved }).then((result) => {
+            (result.lines as LineInformation[]).forEach((li) => {
+                const entry = this.addressSamples.get(li.address);
+                if (entry) { entry.line = li; }
+            });
+            this.resolving = false;
+            this.buildTree();
+            this._onDidChangeTreeData.fire();
+            this.updateDecorations();
+        }, (error) => {
+            this.resolving = false;
+            this.buildTree();
+            this._onDidChangeTreeData.fire();
+        });
+    }
+
+    private buildTree() {
+        const previous: { [name: string]: boolean } = {};
+        this.functions.forEach((fn) => { previous[fn.name] = fn.expanded; });
+
+        const functionMap: { [name: string]: FunctionNode } = {};
+        this.functions = [];
+
+        this.addressSamples.forEach((entry) => {
+            let fn = functionMap[entry.functionName];
+            if (!fn) {
+                fn = new FunctionNode(entry.functionName);
+                fn.expanded = !!previous[entry.functionName];
+                functionMap[entry.functionName] = fn;
+                this.functions.push(fn);
+            }
+
+            if (entry.line && entry.line.file) { fn.addSamples(entry.line.file, entry.line.line, entry.samples); }
+            else { fn.addSamples(null, 0, entry.samples); }
+        });
+
+        if (this.sleepSamples > 0) {
+            const sleep = new FunctionNode(SLEEP_FUNCTION);
+            sleep.samples = this.sleepSamples;
+            this.functions.push(sleep);
+        }
+
+        this.functions.forEach((fn) => fn.sort(this.sortOrder));
+        if (this.sortOrder === ProfileSortOrder.Name) {
+            this.functions.sort((a, b) => a.name < b.name ? -1 : (a.name > b.name ? 1 : 0));
+        }
+        else {
+            this.functions.sort((a, b) => b.samples - a.samples);
+        }
+    }
+
+    private getLineSamples(): Map<string, Map<number, number>> {
+        const files: Map<string, Map<number, number>> = new Map();
+        this.addressSamples.forEach((entry) => {
+            if (!entry.line || !entry.line.file) { return; }
+
+            const file = normalizePath(entry.line.file);
+            let lines = files.get(file);
+            if (!lines) {
+                lines = new Map();
+                files.set(file, lines);
+            }
+
+            lines.set(entry.line.line, (lines.get(entry.line.line) || 0) + entry.samples);
+        });
+
+        return files;
+    }
+
+    private updateDecorations() {
+        const files = this.getLineSamples();
+
+        let max = 0;
+        files.forEach((lines) => lines.forEach((samples) => { max = Math.max(max, samples); }));
+
+        vscode.window.visibleTextEditors.forEach((editor) => {
+            const ranges: vscode.DecorationOptions[][] = this.decorationTypes.map(() => []);
+
+            const editorPath = normalizePath(editor.document.uri.fsPath);
+            files.forEach((lines, file) => {
+                if (path.isAbsolute(file) ? file !== editorPath : !editorPath.endsWith(path.sep + file)) { return; }
+
+                lines.forEach((samples, line) => {
+                    const ratio = samples / max;
+                    const level = ratio >= 0.5 ? 2 : (ratio >= 0.1 ? 1 : 0);
+                    ranges[level].push({
+                        range: new vscode.Range(line - 1, 0, line - 1, 0),
+                        hoverMessage: `${samples} samples (${formatPercentage(samples, this.totalSamples)})`
+                    });
+                });
+            });
+
+            this.decorationTypes.forEach((dt, idx) => editor.setDecorations(dt, ranges[idx]));
+        });
+    }
+
+    public getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: TreeNode): vscode.ProviderResult<TreeNode[]> {
+        if (element) {
+            return element.node.getChildren().map((c) => c.getTreeNode(this.totalSamples));
+        }
+        else if (this.functions.length > 0) {
+            return this.functions.map((fn) => fn.getTreeNode(this.totalSamples));
+        }
+        else {
+            const message = this.collecting ? 'No PC samples received.' : 'Profiling stopped.';
+            return [new TreeNode(message, vscode.TreeItemCollapsibleState.None, 'message', null)];
+        }
+    }
+
+    public exportCSV(fspath: string) {
+        const rows: string[] = ['Function,File,Line,Address,Samples,Percentage'];
+        const entries: AddressSamples[] = [];
+        this.addressSamples.forEach((entry) => entries.push(entry));
+        entries.sort((a, b) => b.samples - a.samples);
+
+        entries.forEach((entry) => {
+            const file = entry.line && entry.line.file ? entry.line.file : '';
+            const line = entry.line && entry.line.file ? entry.line.line : '';
+            rows.push(`"${entry.functionName}","${file}",${line},${hexFormat(entry.address, 8)},${entry.samples},${formatPercentage(entry.samples, this.totalSamples)}`);
+        });
+
+        if (this.sleepSamples > 0) {
+            rows.push(`"${SLEEP_FUNCTION}","",,,${this.sleepSamples},${formatPercentage(this.sleepSamples, this.totalSamples)}`);
+        }
+
+        fs.writeFileSync(fspath, rows.join('\n') + '\n', { encoding: 'utf8', flag: 'w' });
+    }
+
+    public exportCollapsedStacks(fspath: string) {
+        // Only the sampled PC is known, so each "stack" is the function followed by the source line
+        this.buildTree();
+        const rows: string[] = [];
+        this.functions.forEach((fn) => {
+            if (fn.getChildren().length === 0) {
+                rows.push(`${fn.name} ${fn.samples}`);
+            }
+            else {
+                fn.getChildren().forEach((ln) => rows.push(`${fn.name};${ln.name} ${ln.samples}`));
+            }
+        });
+
+        fs.writeFileSync(fspath, rows.join('\n') + '\n', { encoding: 'utf8', flag: 'w' });
+    }
+
+    public debugSessionTerminated() {
+        this.refresh();
+    }
+
+    public debugSessionStarted() {
+        this.reset();
+    }
+
+    public debugStopped() {
+        this.refresh();
+    }
+}
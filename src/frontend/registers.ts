@@ -5,15 +5,46 @@ import * as os from 'os';
 
 import { hexFormat, binaryFormat, createMask, extractBits } from './utils';
 import { NumberFormat, NodeSetting } from '../common';
+import { HaltHistory } from './halt_history';
 
 interface RegisterValue {
     number: number;
     value: number;
 }
 
+interface RegisterValueSnapshot {
+    value: number;
+    rawValue: string;
+}
+
+interface FieldDescription {
+    name: string;
+    offset: number;
+    width: number;
+    description?: string;
+    access?: 'read-only';
+    values?: { [value: string]: string };
+}
+
+interface RegisterGroupDescription {
+    name: string;
+    expanded?: boolean;
+    // Regular expressions for the register names, the secure and non-secure banks of Armv8-M (_s, _ns) are included
+    registers: string[];
+}
+
+interface RegisterDescriptions {
+    groups: RegisterGroupDescription[];
+    registers: { [name: string]: { aliases?: string[], fields: FieldDescription[] } };
+}
+
+const BANK_SUFFIX = /_(s|ns)$/i;
+const OTHER_GROUP = 'Other';
+
 export enum RecordType {
     Register,
-    Field
+    Field,
+    Group
 }
 
 export class TreeNode extends vscode.TreeItem {
@@ -43,41 +74,74 @@ export class BaseNode {
     public getChildren(): BaseNode[] { return []; }
     public getTreeNode(): TreeNode { return null; }
     public getCopyValue(): string { return null; }
+    public performUpdate(): Thenable<boolean> { return Promise.resolve(false); }
     public setFormat(format: NumberFormat) {
         this.format = format;
     }
+
+    // Whether the value differs from the one at the previous halt
+    public hasChanged(): boolean { return false; }
+}
+
+function parseInteger(value: string): number {
+    if (/^0x[0-9a-f]+$/i.test(value)) { return parseInt(value.substring(2), 16); }
+    else if (/^0b[01]+$/i.test(value)) { return parseInt(value.substring(2), 2); }
+    else if (/^[0-9]+$/.test(value)) { return parseInt(value, 10); }
+    return undefined;
+}
+
+async function writeRegister(name: string, value: string): Promise<boolean> {
+    await vscode.debug.activeDebugSession.customRequest('write-register', { name: name, value: value });
+    return true;
+}
+
+export class GroupNode extends BaseNode {
+    private registers: RegisterNode[] = [];
+
+    constructor(public name: string) {
+        super(RecordType.Group);
+    }
+
+    public getTreeNode(): TreeNode {
+        const state = this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        return new TreeNode(this.name, state, 'group', this);
+    }
+
+    public getChildren(): RegisterNode[] {
+        return this.registers;
+    }
+
+    public addRegister(register: RegisterNode) {
+        this.registers.push(register);
+    }
+
+    public hasChanged(): boolean {
+        return this.registers.some((r) => r.hasChanged());
+    }
+
+    public getFormat(): NumberFormat {
+        return this.format;
+    }
+
+    public _saveState(): NodeSetting[] {
+        const settings: NodeSetting[] = [{ node: `group:${this.name}`, format: this.format, expanded: this.expanded }];
+        this.registers.forEach((r) => settings.push(...r._saveState()));
+        return settings;
+    }
 }
 
 export class RegisterNode extends BaseNode {
     private fields: FieldNode[];
     private currentValue: number;
+    // Values that are not a 32-bit number (64-bit double registers or vector types) are shown as GDB reports them
+    private rawValue: string = null;
+    private updated: boolean = false;
+    // Value at the previous halt, null before the register was first read
+    private previous = new HaltHistory<RegisterValueSnapshot>((a, b) => a.value === b.value && a.rawValue === b.rawValue);
 
-    constructor(public name: string, public index: number) {
+    constructor(public name: string, public index: number, fields: FieldDescription[] = [], private group: GroupNode = null) {
         super(RecordType.Register);
-        this.name = this.name;
-
-        if (name.toUpperCase() === 'XPSR' || name.toUpperCase() === 'CPSR') {
-            this.fields = [
-                new FieldNode('Negative Flag (N)', 31, 1, this),
-                new FieldNode('Zero Flag (Z)', 30, 1, this),
-                new FieldNode('Carry or borrow flag (C)', 29, 1, this),
-                new FieldNode('Overflow Flag (V)', 28, 1, this),
-                new FieldNode('Saturation Flag (Q)', 27, 1, this),
-                new FieldNode('GE', 16, 4, this),
-                new FieldNode('Interrupt Number', 0, 8, this),
-                new FieldNode('ICI/IT', 25, 2, this),
-                new FieldNode('ICI/IT', 10, 6, this),
-                new FieldNode('Thumb State (T)', 24, 1, this)
-            ];
-        }
-        else if (name.toUpperCase() === 'CONTROL') {
-            this.fields = [
-                new FieldNode('FPCA', 2, 1, this),
-                new FieldNode('SPSEL', 1, 1, this),
-                new FieldNode('nPRIV', 0, 1, this)
-            ];
-        }
-
+        this.fields = fields.map((f) => new FieldNode(f.name, f.offset, f.width, this, f));
         this.currentValue = 0x00;
     }
 
@@ -85,26 +149,52 @@ export class RegisterNode extends BaseNode {
         return extractBits(this.currentValue, offset, width);
     }
 
+    public getPreviousBits(offset: number, width: number): number {
+        const previous = this.previous.getPrevious();
+        return previous && previous.rawValue === null ? extractBits(previous.value, offset, width) : null;
+    }
+
     public getTreeNode(): TreeNode {
-        let label = `${this.name} = `;
+        const label = `${this.name} = ${this.formatValue(this.currentValue, this.rawValue)}`;
+
+        let node: TreeNode;
+        if (this.fields && this.fields.length > 0) {
+            node = new TreeNode(label, this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed, 'register', this);
+        }
+        else {
+            node = new TreeNode(label, vscode.TreeItemCollapsibleState.None, 'register', this);
+        }
+
+        if (this.hasChanged()) {
+            const previous = this.previous.getPrevious();
+            node.tooltip = `Previous value: ${this.formatValue(previous.value, previous.rawValue)}`;
+        }
+        return node;
+    }
+
+    private formatValue(value: number, rawValue: string): string {
+        if (rawValue !== null) { return rawValue; }
+
+        let result: string;
         switch (this.getFormat()) {
             case NumberFormat.Decimal:
-                label += this.currentValue.toString();
+                result = value.toString();
                 break;
             case NumberFormat.Binary:
-                label += binaryFormat(this.currentValue, 32, false, true);
+                result = binaryFormat(value, 32, false, true);
                 break;
             default:
-                label += hexFormat(this.currentValue, 8);
+                result = hexFormat(value, 8);
                 break;
         }
 
-        if (this.fields && this.fields.length > 0) {
-            return new TreeNode(label, this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed, 'register', this);
-        }
-        else {
-            return new TreeNode(label, vscode.TreeItemCollapsibleState.None, 'register', this);
+        // Single precision registers hold the raw bits of a float
+        if (/^s[0-9]+$/i.test(this.name)) {
+            const buffer = new Buffer(4);
+            buffer.writeUInt32LE(value >>> 0, 0);
+            result += ` (${buffer.readFloatLE(0)})`;
         }
+        return result;
     }
 
     public getChildren(): FieldNode[] {
@@ -113,9 +203,50 @@ export class RegisterNode extends BaseNode {
 
     public setValue(newValue: number) {
         this.currentValue = newValue;
+        this.rawValue = null;
+        this.updated = true;
+    }
+
+    public setRawValue(value: string) {
+        if (/^0x[0-9a-f]{1,8}$/i.test(value)) { this.setValue(parseInt(value, 16)); }
+        else {
+            this.rawValue = value;
+            this.updated = true;
+        }
+    }
+
+    public hasChanged(): boolean {
+        return this.previous.hasChanged({ value: this.currentValue, rawValue: this.rawValue });
+    }
+
+    // Remembers the current value before the values of a new halt are read
+    public markHalt() {
+        this.previous.markHalt({ value: this.currentValue, rawValue: this.rawValue }, this.updated);
+    }
+
+    // Any value GDB can evaluate is accepted, such as 0x20001000, a symbol or a floating point value for the FPU registers
+    public performUpdate(): Thenable<boolean> {
+        return new Promise((resolve, reject) => {
+            vscode.window.showInputBox({ prompt: `Enter new value for ${this.name}`, value: this.getCopyValue() }).then((val) => {
+                if (!val) { return resolve(false); }
+                writeRegister(this.name, val).then(resolve, reject);
+            });
+        });
+    }
+
+    public updateBits(offset: number, width: number, value: number): Thenable<boolean> {
+        const limit = Math.pow(2, width);
+        if (value >= limit) {
+            return Promise.reject(`Value entered is invalid. Maximum value for this field is ${limit - 1} (${hexFormat(limit - 1, 0)})`);
+        }
+
+        const mask = createMask(offset, width);
+        const newValue = ((this.currentValue & ~mask) | (value << offset)) >>> 0;
+        return writeRegister(this.name, hexFormat(newValue, 8));
     }
 
     public getCopyValue(): string {
+        if (this.rawValue !== null) { return this.rawValue; }
         switch (this.getFormat()) {
             case NumberFormat.Decimal:
                 return this.currentValue.toString();
@@ -127,6 +258,7 @@ export class RegisterNode extends BaseNode {
     }
 
     public getFormat(): NumberFormat {
+        if (this.format === NumberFormat.Auto && this.group) { return this.group.getFormat(); }
         return this.format;
     }
 
@@ -145,29 +277,70 @@ export class RegisterNode extends BaseNode {
 }
 
 export class FieldNode extends BaseNode {
-    constructor(public name: string, private offset: number, private size: number, private register: RegisterNode) {
+    constructor(public name: string, private offset: number, private size: number, private register: RegisterNode,
+                private description: FieldDescription = null) {
         super(RecordType.Field);
     }
 
     public getTreeNode(): TreeNode {
-        const value = this.register.extractBits(this.offset, this.size);
-        let label = `${this.name} = `;
+        const label = `${this.name} = ${this.formatValue(this.register.extractBits(this.offset, this.size))}`;
+
+        const readOnly = this.description && this.description.access === 'read-only';
+        const node = new TreeNode(label, vscode.TreeItemCollapsibleState.None, readOnly ? 'field-ro' : 'field', this);
+
+        const tooltip = [];
+        if (this.description && this.description.description) { tooltip.push(this.description.description); }
+        if (this.hasChanged()) { tooltip.push(`Previous value: ${this.formatValue(this.register.getPreviousBits(this.offset, this.size))}`); }
+        if (tooltip.length > 0) { node.tooltip = tooltip.join('\n'); }
+        return node;
+    }
+
+    private formatValue(value: number): string {
+        let result: string;
         switch (this.getFormat()) {
             case NumberFormat.Decimal:
-                label += value.toString();
+                result = value.toString();
                 break;
             case NumberFormat.Binary:
-                label += binaryFormat(value, this.size, false, true);
+                result = binaryFormat(value, this.size, false, true);
                 break;
             case NumberFormat.Hexidecimal:
-                label += hexFormat(value, Math.ceil(this.size / 4), true);
+                result = hexFormat(value, Math.ceil(this.size / 4), true);
                 break;
             default:
-                label += this.size >= 4 ? hexFormat(value, Math.ceil(this.size / 4), true) : binaryFormat(value, this.size, false, true);
+                result = this.size >= 4 ? hexFormat(value, Math.ceil(this.size / 4), true) : binaryFormat(value, this.size, false, true);
                 break;
         }
 
-        return new TreeNode(label, vscode.TreeItemCollapsibleState.None, 'field', this);
+        const values = this.description && this.description.values;
+        if (values && values[value]) { result += ` (${values[value]})`; }
+        return result;
+    }
+
+    public hasChanged(): boolean {
+        const previous = this.register.getPreviousBits(this.offset, this.size);
+        return previous !== null && previous !== this.register.extractBits(this.offset, this.size);
+    }
+
+    public performUpdate(): Thenable<boolean> {
+        return new Promise((resolve, reject) => {
+            const values = this.description && this.description.values;
+            if (values) {
+                const items = Object.keys(values).map((v) => ({ label: values[v], description: v, value: parseInt(v, 10) }));
+                vscode.window.showQuickPick(items).then((item) => {
+                    if (!item) { return resolve(false); }
+                    this.register.updateBits(this.offset, this.size, item.value).then(resolve, reject);
+                });
+            }
+            else {
+                vscode.window.showInputBox({ prompt: 'Enter new value: (prefix hex with 0x, binary with 0b)' }).then((val) => {
+                    if (val === undefined) { return resolve(false); }
+                    const numval = parseInteger(val);
+                    if (numval === undefined) { return reject('Unable to parse input value.'); }
+                    this.register.updateBits(this.offset, this.size, numval).then(resolve, reject);
+                });
+            }
+        });
     }
 
     public getCopyValue(): string {
@@ -206,11 +379,22 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
 
     private registers: RegisterNode[];
     private registerMap: { [index: number]: RegisterNode };
+    private groups: GroupNode[] = [];
     private loaded: boolean = false;
+    private descriptions: RegisterDescriptions = { groups: [], registers: {} };
+    // Only the groups, registers and fields that changed since the previous halt are shown
+    private changedOnly: boolean = false;
+    private changedIcon: string;
 
-    constructor() {
+    constructor(extensionPath: string) {
         this.registers = [];
         this.registerMap = {};
+        this.changedIcon = path.join(extensionPath, 'images', 'changed.svg');
+
+        try {
+            this.descriptions = JSON.parse(fs.readFileSync(path.join(extensionPath, 'data', 'registers.json'), 'utf8'));
+        }
+        catch (e) {}
     }
 
     public refresh(): void {
@@ -231,29 +415,67 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
         vscode.debug.activeDebugSession.customRequest('read-registers').then((data) => {
             data.forEach((reg) => {
                 const index = parseInt(reg.number, 10);
-                const value = parseInt(reg.value, 16);
                 const regNode = this.registerMap[index];
-                if (regNode) { regNode.setValue(value); }
+                if (regNode) { regNode.setRawValue(reg.value); }
             });
             this._onDidChangeTreeData.fire();
         });
     }
 
     public getTreeItem(element: TreeNode): vscode.TreeItem {
-        return element.node.getTreeNode();
+        return this.createTreeNode(element.node);
+    }
+
+    public setChangedOnly(changedOnly: boolean) {
+        this.changedOnly = changedOnly;
+        this._onDidChangeTreeData.fire();
+    }
+
+    private createTreeNode(node: BaseNode): TreeNode {
+        const treeNode = node.getTreeNode();
+        if (node.hasChanged()) { treeNode.iconPath = this.changedIcon; }
+        return treeNode;
+    }
+
+    private createTreeNodes(nodes: BaseNode[]): TreeNode[] {
+        return nodes.filter((n) => !this.changedOnly || n.hasChanged()).map((n) => this.createTreeNode(n));
+    }
+
+    private fieldDescriptions(name: string): FieldDescription[] {
+        const base = name.toLowerCase().replace(BANK_SUFFIX, '');
+        const key = Object.keys(this.descriptions.registers).find((k) => {
+            return k === base || (this.descriptions.registers[k].aliases || []).indexOf(base) !== -1;
+        });
+        return key ? this.descriptions.registers[key].fields : [];
+    }
+
+    private findGroup(name: string): GroupNode {
+        const description = this.descriptions.groups.find((g) => {
+            return g.registers.some((r) => new RegExp(`^(${r})(_s|_ns)?$`, 'i').test(name));
+        });
+        return this.groups.find((g) => g.name === (description ? description.name : OTHER_GROUP));
     }
 
     public createRegisters(regInfo: string[]) {
         this.registerMap = {};
         this.registers = [];
+        this.groups = this.descriptions.groups.map((g) => {
+            const group = new GroupNode(g.name);
+            group.expanded = g.expanded || false;
+            return group;
+        });
+        this.groups.push(new GroupNode(OTHER_GROUP));
         
         regInfo.forEach((reg, idx) => {
             if (reg) {
-                const rn = new RegisterNode(reg, idx);
+                const group = this.findGroup(reg);
+                const rn = new RegisterNode(reg, idx, this.fieldDescriptions(reg), group);
+                group.addRegister(rn);
                 this.registers.push(rn);
                 this.registerMap[idx] = rn;
             }
         });
+        this.groups = this.groups.filter((g) => g.getChildren().length > 0);
 
         this.loaded = true;
 
@@ -264,7 +486,14 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
                 const settings = JSON.parse(data);
                 
                 settings.forEach((s: NodeSetting) => {
-                    if (s.node.indexOf('.') === -1) {
+                    if (s.node.startsWith('group:')) {
+                        const group = this.groups.find((g) => `group:${g.name}` === s.node);
+                        if (group) {
+                            group.expanded = s.expanded || false;
+                            if (s.format) { group.setFormat(s.format); }
+                        }
+                    }
+                    else if (s.node.indexOf('.') === -1) {
                         const register = this.registers.find((r) => r.name === s.node);
                         if (register) {
                             if (s.expanded) { register.expanded = s.expanded; }
@@ -301,10 +530,13 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
     public getChildren(element?: TreeNode): vscode.ProviderResult<TreeNode[]> {
         if (this.loaded && this.registers.length > 0) {
             if (element) {
-                return element.node.getChildren().map((c) => c.getTreeNode());
+                return this.createTreeNodes(element.node.getChildren());
+            }
+            else if (this.changedOnly && !this.groups.some((g) => g.hasChanged())) {
+                return [new TreeNode('No registers changed since the previous halt', vscode.TreeItemCollapsibleState.None, 'message', null)];
             }
             else {
-                return this.registers.map((r) => r.getTreeNode());
+                return this.createTreeNodes(this.groups);
             }
         }
         else if (!this.loaded) {
@@ -317,8 +549,8 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
 
     public _saveState(fspath: string) {
         const state: NodeSetting[] = [];
-        this.registers.forEach((r) => {
-            state.push(...r._saveState());
+        this.groups.forEach((g) => {
+            state.push(...g._saveState());
         });
 
         fs.writeFileSync(fspath, JSON.stringify(state), { encoding: 'utf8', flag: 'w' });
@@ -333,6 +565,7 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
         this.loaded = false;
         this.registers = [];
         this.registerMap = {};
+        this.groups = [];
         this._onDidChangeTreeData.fire();
     }
 
@@ -340,10 +573,12 @@ export class RegisterTreeProvider implements vscode.TreeDataProvider<TreeNode> {
         this.loaded = false;
         this.registers = [];
         this.registerMap = {};
+        this.groups = [];
         this._onDidChangeTreeData.fire();
     }
 
     public debugStopped() {
+        this.registers.forEach((r) => r.markHalt());
         this.refresh();
     }
 
@@ -0,0 +1,82 @@
+import { RTOSDriver, RTOSTask } from './common';
+
+const STACK_FILL_BYTE = 0x55;
+const MAX_THREADS = 256;
+
+const THREAD_STATES: string[] = [
+    'Ready', 'Current', 'Starting', 'Suspended', 'Queued', 'Waiting (Semaphore)', 'Waiting (Mutex)', 'Waiting (Condition)',
+    'Sleeping', 'Waiting (Exit)', 'Waiting (Any Event)', 'Waiting (All Events)', 'Sending (Queue)', 'Sending (Message)',
+    'Waiting (Message)', 'Final'
+];
+
+interface ChibiOSLayout {
+    newer: number;
+    name: number;
+    state: number;
+    priority: number;
+    stackPointer: number;
+    workingArea: number;
+}
+
+// Supports the thread registry of ChibiOS/RT 4 and later (CH_CFG_USE_REGISTRY must be enabled)
+export class ChibiOSDriver extends RTOSDriver {
+    public readonly name: string = 'ChibiOS';
+    private layout: ChibiOSLayout = null;
+
+    public async detect(): Promise<boolean> {
+        return await this.exists('&ch.rlist') && await this.exists('ch.rlist.newer');
+    }
+
+    private async loadLayout(): Promise<ChibiOSLayout> {
+        return {
+            newer: await this.offsetOf('thread_t', 'newer'),
+            name: await this.optionalOffsetOf('thread_t', 'name'),
+            state: await this.offsetOf('thread_t', 'state'),
+            priority: await this.offsetOf('thread_t', 'prio'),
+            stackPointer: await this.offsetOf('thread_t', 'ctx.sp'),
+            workingArea: await this.optionalOffsetOf('thread_t', 'wabase')
+        };
+    }
+
+    private async readThread(thread: number, current: boolean): Promise<RTOSTask> {
+        const layout = this.layout;
+        const u32 = async (offset: number) => (await this.readMemory(thread + offset, 4)).readUInt32LE(0);
+
+        const state = (await this.readMemory(thread + layout.state, 1)).readUInt8(0);
+        const stackPointer = current ? await this.currentStackPointer() : await u32(layout.stackPointer);
+        const stackBase = layout.workingArea !== null ? await u32(layout.workingArea) : null;
+
+        return {
+            address: thread,
+            name: layout.name !== null ? await this.readString(await u32(layout.name)) : '',
+            state: current ? 'Running' : (THREAD_STATES[state] || `Unknown (${state})`),
+            priority: await u32(layout.priority),
+            basePriority: null,
+            stackBase: stackBase,
+            stackSize: null,
+            stackPointer: stackPointer,
+            highWaterMark: stackBase !== null ? await this.stackHighWaterMark(stackBase, stackPointer, STACK_FILL_BYTE) : null,
+            current: current
+        };
+    }
+
+    public async getTasks(): Promise<RTOSTask[]> {
+        if (!this.layout) { this.layout = await this.loadLayout(); }
+
+        // The ready list header doubles as the head of the registry ring
+        const head = await this.evaluateNumber('&ch.rlist');
+        const currentThread = await this.evaluateNumber('ch.rlist.current');
+
+        const tasks: RTOSTask[] = [];
+        let thread = await this.evaluateNumber('ch.rlist.newer');
+        while (thread && thread !== head && tasks.length < MAX_THREADS) {
+            const task = await this.readThread(thread, thread === currentThread);
+            if (!task.name) { task.name = `Thread ${thread.toString(16)}`; }
+            tasks.push(task);
+
+            thread = await this.readPointer(thread + this.layout.newer);
+        }
+
+        return tasks;
+    }
+}
@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+
+const STACK_SCAN_CHUNK = 256;
+const MAX_STRING_LENGTH = 64;
+
+export interface RTOSTask {
+    address: number;
+    name: string;
+    state: string;
+    priority: number;
+    basePriority: number;
+    stackBase: number;
+    stackSize: number;
+    stackPointer: number;
+    highWaterMark: number;
+    current: boolean;
+}
+
+/*
+ * Kernel aware drivers read the task lists straight out of target memory, using GDB only to resolve symbol addresses
+ * and structure layouts. This keeps the view independent of any RTOS support in the GDB server.
+ */
+export abstract class RTOSDriver {
+    public abstract readonly name: string;
+
+    constructor(protected session: vscode.DebugSession) {}
+
+    public abstract detect(): Promise<boolean>;
+    public abstract getTasks(): Promise<RTOSTask[]>;
+
+    protected async evaluate(expression: string): Promise<string> {
+        const result = await this.session.customRequest('evaluate-expression', { expression: expression });
+        return result.value;
+    }
+
+    protected async evaluateNumber(expression: string): Promise<number> {
+        const value = await this.evaluate(`(unsigned long)(${expression})`);
+        const result = parseInt(value, 10);
+        if (isNaN(result)) { throw new Error(`Unexpected value for ${expression}: ${value}`); }
+        return result;
+    }
+
+    protected async exists(expression: string): Promise<boolean> {
+        try {
+            await this.evaluate(expression);
+            return true;
+        }
+        catch (e) {
+            return false;
+        }
+    }
+
+    protected offsetOf(type: string, field: string): Promise<number> {
+        return this.evaluateNumber(`&((${type} *)0)->${field}`);
+    }
+
+    protected async optionalOffsetOf(type: string, field: string): Promise<number> {
+        try {
+            return await this.offsetOf(type, field);
+        }
+        catch (e) {
+            return null;
+        }
+    }
+
+    protected async readMemory(address: number, length: number): Promise<Buffer> {
+        const result = await this.session.customRequest('read-memory', { address: address, length: length });
+        return new Buffer(result.bytes);
+    }
+
+    protected async readPointer(address: number): Promise<number> {
+        const data = await this.readMemory(address, 4);
+        return data.readUInt32LE(0);
+    }
+
+    protected async readString(address: number, maxLength: number = MAX_STRING_LENGTH): Promise<string> {
+        if (!address) { return ''; }
+
+        const data = await this.readMemory(address, maxLength);
+        const end = data.indexOf(0);
+        return data.slice(0, end === -1 ? data.length : end).toString('utf8');
+    }
+
+    protected currentStackPointer(): Promise<number> {
+        return this.evaluateNumber('$sp');
+    }
+
+    // Counts the bytes at the bottom of a descending stack that still hold the kernel's fill pattern
+    protected async stackHighWaterMark(stackBase: number, stackLimit: number, fill: number): Promise<number> {
+        let unused = 0;
+        for (let address = stackBase; address < stackLimit; address += STACK_SCAN_CHUNK) {
+            const data = await this.readMemory(address, Math.min(STACK_SCAN_CHUNK, stackLimit - address));
+            for (const byte of data) {
+                if (byte !== fill) { return unused; }
+                unused += 1;
+            }
+        }
+
+        return unused;
+    }
+}
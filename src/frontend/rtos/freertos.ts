@@ -0,0 +1,127 @@
+import { RTOSDriver, RTOSTask } from './common';
+
+const STACK_FILL_BYTE = 0xA5;
+const MAX_LIST_ITEMS = 256;
+
+interface FreeRTOSLayout {
+    tcbType: string;
+    listSize: number;
+    listNumberOfItems: number;
+    listEnd: number;
+    itemNext: number;
+    itemOwner: number;
+    topOfStack: number;
+    priority: number;
+    basePriority: number;
+    stack: number;
+    endOfStack: number;
+    name: number;
+    nameLength: number;
+    priorities: number;
+}
+
+export class FreeRTOSDriver extends RTOSDriver {
+    public readonly name: string = 'FreeRTOS';
+    private layout: FreeRTOSLayout = null;
+
+    public async detect(): Promise<boolean> {
+        return await this.exists('&pxCurrentTCB') && await this.exists('&pxReadyTasksLists');
+    }
+
+    private async loadLayout(): Promise<FreeRTOSLayout> {
+        // Kernels before V8 used the old style type names
+        const tcbType = await this.exists('sizeof(TCB_t)') ? 'TCB_t' : 'tskTCB';
+        const listType = await this.exists('sizeof(List_t)') ? 'List_t' : 'xList';
+        const itemType = await this.exists('sizeof(ListItem_t)') ? 'ListItem_t' : 'xListItem';
+
+        return {
+            tcbType: tcbType,
+            listSize: await this.evaluateNumber(`sizeof(${listType})`),
+            listNumberOfItems: await this.offsetOf(listType, 'uxNumberOfItems'),
+            listEnd: await this.offsetOf(listType, 'xListEnd'),
+            itemNext: await this.offsetOf(itemType, 'pxNext'),
+            itemOwner: await this.offsetOf(itemType, 'pvOwner'),
+            topOfStack: await this.offsetOf(tcbType, 'pxTopOfStack'),
+            priority: await this.offsetOf(tcbType, 'uxPriority'),
+            basePriority: await this.optionalOffsetOf(tcbType, 'uxBasePriority'),
+            stack: await this.offsetOf(tcbType, 'pxStack'),
+            endOfStack: await this.optionalOffsetOf(tcbType, 'pxEndOfStack'),
+            name: await this.offsetOf(tcbType, 'pcTaskName'),
+            nameLength: await this.evaluateNumber(`sizeof(((${tcbType} *)0)->pcTaskName)`),
+            priorities: await this.evaluateNumber('sizeof(pxReadyTasksLists) / sizeof(pxReadyTasksLists[0])')
+        };
+    }
+
+    private async readList(address: number): Promise<number[]> {
+        const layout = this.layout;
+        const count = (await this.readMemory(address + layout.listNumberOfItems, 4)).readUInt32LE(0);
+
+        const owners: number[] = [];
+        let item = await this.readPointer(address + layout.listEnd + layout.itemNext);
+        for (let i = 0; i < Math.min(count, MAX_LIST_ITEMS); i++) {
+            owners.push(await this.readPointer(item + layout.itemOwner));
+            item = await this.readPointer(item + layout.itemNext);
+        }
+
+        return owners;
+    }
+
+    private async readOptionalList(symbol: string): Promise<number[]> {
+        if (!await this.exists(`&${symbol}`)) { return []; }
+        return this.readList(await this.evaluateNumber(`&${symbol}`));
+    }
+
+    private async readTask(tcb: number, state: string, current: boolean): Promise<RTOSTask> {
+        const layout = this.layout;
+        const u32 = async (offset: number) => (await this.readMemory(tcb + offset, 4)).readUInt32LE(0);
+
+        const stackBase = await u32(layout.stack);
+        const stackPointer = current ? await this.currentStackPointer() : await u32(layout.topOfStack);
+        const endOfStack = layout.endOfStack !== null ? await u32(layout.endOfStack) : null;
+
+        return {
+            address: tcb,
+            name: await this.readString(tcb + layout.name, layout.nameLength),
+            state: state,
+            priority: await u32(layout.priority),
+            basePriority: layout.basePriority !== null ? await u32(layout.basePriority) : null,
+            stackBase: stackBase,
+            stackSize: endOfStack !== null ? endOfStack - stackBase + 4 : null,
+            stackPointer: stackPointer,
+            highWaterMark: await this.stackHighWaterMark(stackBase, stackPointer, STACK_FILL_BYTE),
+            current: current
+        };
+    }
+
+    public async getTasks(): Promise<RTOSTask[]> {
+        if (!this.layout) { this.layout = await this.loadLayout(); }
+
+        const states: Array<{ state: string, tcbs: number[] }> = [];
+
+        const ready = await this.evaluateNumber('&pxReadyTasksLists');
+        for (let priority = this.layout.priorities - 1; priority >= 0; priority--) {
+            states.push({ state: 'Ready', tcbs: await this.readList(ready + priority * this.layout.listSize) });
+        }
+        states.push({ state: 'Ready', tcbs: await this.readOptionalList('xPendingReadyList') });
+        states.push({ state: 'Blocked', tcbs: await this.readOptionalList('xDelayedTaskList1') });
+        states.push({ state: 'Blocked', tcbs: await this.readOptionalList('xDelayedTaskList2') });
+        states.push({ state: 'Suspended', tcbs: await this.readOptionalList('xSuspendedTaskList') });
+        states.push({ state: 'Deleted', tcbs: await this.readOptionalList('xTasksWaitingTermination') });
+
+        const currentTCB = await this.evaluateNumber('pxCurrentTCB');
+
+        const tasks: RTOSTask[] = [];
+        const seen: number[] = [];
+        for (const entry of states) {
+            for (const tcb of entry.tcbs) {
+                if (!tcb || seen.indexOf(tcb) !== -1) { continue; }
+                seen.push(tcb);
+
+                const current = tcb === currentTCB;
+                tasks.push(await this.readTask(tcb, current ? 'Running' : entry.state, current));
+            }
+        }
+
+        return tasks;
+    }
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+
+import { RTOSDriver, RTOSTask } from './common';
+import { FreeRTOSDriver } from './freertos';
+import { ZephyrDriver } from './zephyr';
+import { ChibiOSDriver } from './chibios';
+import { hexFormat } from '../utils';
+
+export class TreeNode extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public contextValue: string, public node: TaskNode
+    ) {
+        super(label, collapsibleState);
+
+        this.command = {
+            command: 'cortex-debug.rtos.selectedNode',
+            arguments: [node],
+            title: 'Selected Node'
+        };
+    }
+}
+
+export class TaskNode {
+    public expanded: boolean = false;
+
+    constructor(public task: RTOSTask) {}
+
+    public getTreeNode(): TreeNode {
+        const label = `${this.task.current ? '* ' : ''}${this.task.name} [${this.task.state}]`;
+        const state = this.expanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+        return new TreeNode(label, state, 'task', this);
+    }
+
+    public getChildren(): TreeNode[] {
+        const task = this.task;
+        const fields: string[] = [];
+
+        fields.push(task.basePriority !== null && task.basePriority !== task.priority
+            ? `Priority = ${task.priority} (base ${task.basePriority})`
+            : `Priority = ${task.priority}`);
+        fields.push(`Stack Base = ${task.stackBase !== null ? hexFormat(task.stackBase, 8) : 'Unknown'}`);
+        if (task.stackSize !== null) { fields.push(`Stack Size = ${task.stackSize} bytes`); }
+        fields.push(`Stack Pointer = ${hexFormat(task.stackPointer, 8)}`);
+        if (task.stackBase !== null && task.stackSize !== null) {
+            fields.push(`Stack Used = ${task.stackBase + task.stackSize - task.stackPointer} bytes`);
+        }
+        fields.push(`High Water Mark = ${task.highWaterMark !== null ? `${task.highWaterMark} bytes free` : 'Unknown'}`);
+        fields.push(`Control Block = ${hexFormat(task.address, 8)}`);
+
+        return fields.map((f) => new TreeNode(f, vscode.TreeItemCollapsibleState.None, 'field', null));
+    }
+}
+
+export class RTOSTreeProvider implements vscode.TreeDataProvider<TreeNode> {
+    // tslint:disable-next-line:variable-name
+    public _onDidChangeTreeData: vscode.EventEmitter<TreeNode | undefined> = new vscode.EventEmitter<TreeNode | undefined>();
+    public readonly onDidChangeTreeData: vscode.Event<TreeNode | undefined> = this._onDidChangeTreeData.event;
+
+    private driver: RTOSDriver = null;
+    private detected: boolean = false;
+    private tasks: TaskNode[] = [];
+    private message: string = 'Not in active debug session.';
+
+    private async detect(session: vscode.DebugSession): Promise<RTOSDriver> {
+        const drivers: RTOSDriver[] = [new FreeRTOSDriver(session), new ZephyrDriver(session), new ChibiOSDriver(session)];
+        for (const driver of drivers) {
+            if (await driver.detect()) { return driver; }
+        }
+        return null;
+    }
+
+    public async refresh(): Promise<void> {
+        const session = vscode.debug.activeDebugSession;
+        if (!session) { return; }
+
+        try {
+            if (!this.detected) {
+                this.driver = await this.detect(session);
+                this.detected = true;
+            }
+
+            if (!this.driver) {
+                this.tasks = [];
+                this.message = 'No supported RTOS (FreeRTOS, Zephyr or ChibiOS) found.';
+            }
+            else {
+                const expanded = this.tasks.filter((t) => t.expanded).map((t) => t.task.address);
+                const tasks = await this.driver.getTasks();
+                this.tasks = tasks.map((t) => {
+                    const node = new TaskNode(t);
+                    node.expanded = expanded.indexOf(t.address) !== -1;
+                    return node;
+                });
+                this.message = this.tasks.length === 0 ? `No ${this.driver.name} tasks found. (Has the scheduler been started?)` : null;
+            }
+        }
+        catch (e) {
+            this.tasks = [];
+            this.message = `Unable to read ${this.driver ? this.driver.name : 'RTOS'} tasks: ${e.message || e.toString()}`;
+        }
+
+        this._onDidChangeTreeData.fire();
+    }
+
+    public getTreeItem(element: TreeNode): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: TreeNode): vscode.ProviderResult<TreeNode[]> {
+        if (element) {
+            return element.node ? element.node.getChildren() : [];
+        }
+        else if (this.tasks.length > 0) {
+            return this.tasks.map((t) => t.getTreeNode());
+        }
+        else {
+            return [new TreeNode(this.message, vscode.TreeItemCollapsibleState.None, 'message', null)];
+        }
+    }
+
+    public debugSessionStarted() {
+        this.driver = null;
+        this.detected = false;
+        this.tasks = [];
+        this.message = 'Target is running.';
+        this._onDidChangeTreeData.fire();
+    }
+
+    public debugSessionTerminated() {
+        this.driver = null;
+        this.detected = false;
+        this.tasks = [];
+        this.message = 'Not in active debug session.';
+        this._onDidChangeTreeData.fire();
+    }
+
+    public debugStopped() {
+        this.refresh();
+    }
+
+    public debugContinued() {}
+}
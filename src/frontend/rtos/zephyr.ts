@@ -0,0 +1,95 @@
+import { RTOSDriver, RTOSTask } from './common';
+
+const STACK_FILL_BYTE = 0xAA;
+const MAX_THREADS = 256;
+
+const THREAD_STATES: Array<{ mask: number, name: string }> = [
+    { mask: 0x01, name: 'Dummy' },
+    { mask: 0x02, name: 'Pending' },
+    { mask: 0x04, name: 'Prestart' },
+    { mask: 0x08, name: 'Dead' },
+    { mask: 0x10, name: 'Suspended' },
+    { mask: 0x20, name: 'Aborting' }
+];
+
+interface ZephyrLayout {
+    next: number;
+    name: number;
+    nameLength: number;
+    state: number;
+    priority: number;
+    stackStart: number;
+    stackSize: number;
+    stackPointer: number;
+    currentExpression: string;
+}
+
+export class ZephyrDriver extends RTOSDriver {
+    public readonly name: string = 'Zephyr';
+    private layout: ZephyrLayout = null;
+
+    public async detect(): Promise<boolean> {
+        // The thread list is only maintained when CONFIG_THREAD_MONITOR is enabled
+        return await this.exists('&_kernel') && await this.exists('_kernel.threads');
+    }
+
+    private async loadLayout(): Promise<ZephyrLayout> {
+        const name = await this.optionalOffsetOf('struct k_thread', 'name');
+
+        return {
+            next: await this.offsetOf('struct k_thread', 'next_thread'),
+            name: name,
+            nameLength: name !== null ? await this.evaluateNumber('sizeof(((struct k_thread *)0)->name)') : 0,
+            state: await this.offsetOf('struct k_thread', 'base.thread_state'),
+            priority: await this.offsetOf('struct k_thread', 'base.prio'),
+            stackStart: await this.offsetOf('struct k_thread', 'stack_info.start'),
+            stackSize: await this.offsetOf('struct k_thread', 'stack_info.size'),
+            stackPointer: await this.offsetOf('struct k_thread', 'callee_saved.psp'),
+            currentExpression: await this.exists('_kernel.cpus[0].current') ? '_kernel.cpus[0].current' : '_kernel.current'
+        };
+    }
+
+    private decodeState(state: number): string {
+        const names = THREAD_STATES.filter((s) => (state & s.mask) !== 0).map((s) => s.name);
+        return names.length > 0 ? names.join(', ') : 'Ready';
+    }
+
+    private async readThread(thread: number, current: boolean): Promise<RTOSTask> {
+        const layout = this.layout;
+        const data = async (offset: number, length: number) => this.readMemory(thread + offset, length);
+
+        const stackBase = (await data(layout.stackStart, 4)).readUInt32LE(0);
+        const stackPointer = current ? await this.currentStackPointer() : (await data(layout.stackPointer, 4)).readUInt32LE(0);
+
+        return {
+            address: thread,
+            name: layout.name !== null ? await this.readString(thread + layout.name, layout.nameLength) : '',
+            state: current ? 'Running' : this.decodeState((await data(layout.state, 1)).readUInt8(0)),
+            priority: (await data(layout.priority, 1)).readInt8(0),
+            basePriority: null,
+            stackBase: stackBase,
+            stackSize: (await data(layout.stackSize, 4)).readUInt32LE(0),
+            stackPointer: stackPointer,
+            highWaterMark: await this.stackHighWaterMark(stackBase, stackPointer, STACK_FILL_BYTE),
+            current: current
+        };
+    }
+
+    public async getTasks(): Promise<RTOSTask[]> {
+        if (!this.layout) { this.layout = await this.loadLayout(); }
+
+        const currentThread = await this.evaluateNumber(this.layout.currentExpression);
+
+        const tasks: RTOSTask[] = [];
+        let thread = await this.evaluateNumber('_kernel.threads');
+        while (thread && tasks.length < MAX_THREADS) {
+            const task = await this.readThread(thread, thread === currentThread);
+            if (!task.name) { task.name = `Thread ${thread.toString(16)}`; }
+            tasks.push(task);
+
+            thread = await this.readPointer(thread + this.layout.next);
+        }
+
+        return tasks;
+    }
+}
@@ -0,0 +1,240 @@
+/*
+ * CMSIS-SVD derivedFrom handling. Derivations are resolved on the objects produced by xml2js (every child element is
+ * an array and the attributes are kept in $) before any peripheral nodes are created. A derived element is a copy of
+ * its base in which the elements it specifies itself replace the inherited ones. Registers, clusters and fields are
+ * merged by name, so a derived peripheral or cluster only has to list the children it changes or adds.
+ *
+ * A derivedFrom reference is either the name of an element in the same scope, or a path starting at the device level
+ * (PERIPHERAL.CLUSTER.REGISTER).
+ */
+
+const MAX_DERIVATION_DEPTH = 16;
+
+interface Scoped {
+    element: any;
+    scope: any;
+}
+
+function elementName(element: any): string {
+    return element && element.name ? element.name[0] : undefined;
+}
+
+function derivedFrom(element: any): string {
+    return element.$ && element.$.derivedFrom ? element.$.derivedFrom : undefined;
+}
+
+function fieldList(register: any): any[] {
+    return register.fields && register.fields[0].field ? register.fields[0].field : [];
+}
+
+function checkDepth(depth: number, element: any) {
+    if (depth > MAX_DERIVATION_DEPTH) {
+        throw new Error(`Unable to parse SVD file: derivedFrom of ${elementName(element)} is circular.`);
+    }
+}
+
+function mergeByName(base: any[], derived: any[], merge: (base: any, derived: any) => any): any[] {
+    if (!base) { return derived; }
+    if (!derived) { return base; }
+
+    const merged = base.map((b) => {
+        const override = derived.find((d) => elementName(d) === elementName(b));
+        if (!override) { return b; }
+        // A child with its own derivedFrom is not related to the inherited element of the same name
+        return derivedFrom(override) ? override : merge(b, override);
+    });
+    return merged.concat(derived.filter((d) => !base.find((b) => elementName(b) === elementName(d))));
+}
+
+function mergeElement(base: any, derived: any): any {
+    const merged = { ...base, ...derived, $: { ...(base.$ || {}), ...(derived.$ || {}) } };
+    delete merged.$.derivedFrom;
+    return merged;
+}
+
+function mergeRegister(base: any, derived: any): any {
+    const merged = mergeElement(base, derived);
+    if (base.fields && derived.fields) {
+        merged.fields = [{ ...derived.fields[0], field: mergeByName(fieldList(base), fieldList(derived), mergeElement) }];
+    }
+    return merged;
+}
+
+function mergeCluster(base: any, derived: any): any {
+    const merged = mergeElement(base, derived);
+    merged.register = mergeByName(base.register, derived.register, mergeRegister);
+    merged.cluster = mergeByName(base.cluster, derived.cluster, mergeCluster);
+    return merged;
+}
+
+function mergePeripheral(base: any, derived: any): any {
+    const merged = mergeElement(base, derived);
+    if (base.registers && derived.registers) {
+        merged.registers = [mergeCluster(base.registers[0], derived.registers[0])];
+    }
+    return merged;
+}
+
+class DerivationResolver {
+    // Peripherals with their own derivedFrom resolved, used to look up paths. Their children are resolved on output.
+    private peripherals: { [name: string]: any } = {};
+
+    constructor(private definitions: { [name: string]: any }) {}
+
+    public resolve(): any[] {
+        const names = Object.keys(this.definitions);
+        names.forEach((name) => this.peripheral(name, 0));
+
+        return names.map((name) => {
+            const peripheral = this.peripherals[name];
+            if (!peripheral.registers) { return peripheral; }
+            return { ...peripheral, registers: [this.container(peripheral.registers[0], 0)] };
+        });
+    }
+
+    private peripheral(name: string, depth: number): any {
+        if (this.peripherals[name]) { return this.peripherals[name]; }
+
+        const element = this.definitions[name];
+        checkDepth(depth, element);
+
+        let resolved = element;
+        const reference = derivedFrom(element);
+        if (reference) {
+            if (!this.definitions[reference]) {
+                throw new Error(`Unable to parse SVD file: peripheral ${name} is derived from ${reference}, which does not exist.`);
+            }
+            resolved = mergePeripheral(this.peripheral(reference, depth + 1), element);
+        }
+
+        this.peripherals[name] = resolved;
+        return resolved;
+    }
+
+    private find(reference: string, kind: 'register' | 'cluster', scope: any): Scoped {
+        const parts = reference.split('.');
+
+        let container = scope;
+        if (parts.length > 1) {
+            const peripheral = this.peripherals[parts[0]];
+            container = peripheral && peripheral.registers ? peripheral.registers[0] : null;
+            parts.slice(1, -1).forEach((part) => {
+                container = container && container.cluster ? container.cluster.find((c) => elementName(c) === part) : null;
+            });
+        }
+
+        const name = parts[parts.length - 1];
+        const element = container && container[kind] ? container[kind].find((e) => elementName(e) === name) : undefined;
+        return element ? { element: element, scope: container } : null;
+    }
+
+    // Resolves the registers and clusters contained in a peripheral's registers element or in a cluster
+    private container(element: any, depth: number): any {
+        const resolved = { ...element };
+        if (element.register) { resolved.register = element.register.map((r) => this.register(r, element, depth)); }
+        if (element.cluster) { resolved.cluster = element.cluster.map((c) => this.cluster(c, element, depth)); }
+        return resolved;
+    }
+
+    private cluster(element: any, scope: any, depth: number): any {
+        checkDepth(depth, element);
+
+        let resolved = element;
+        const reference = derivedFrom(element);
+        if (reference) {
+            const base = this.find(reference, 'cluster', scope);
+            if (!base) {
+                throw new Error(`Unable to parse SVD file: cluster ${elementName(element)} is derived from ${reference}, which does not exist.`);
+            }
+            resolved = mergeCluster(this.cluster(base.element, base.scope, depth + 1), element);
+        }
+
+        return this.container(resolved, depth);
+    }
+
+    private register(element: any, scope: any, depth: number): any {
+        checkDepth(depth, element);
+
+        let resolved = element;
+        const reference = derivedFrom(element);
+        if (reference) {
+            const base = this.find(reference, 'register', scope);
+            if (!base) {
+                throw new Error(`Unable to parse SVD file: register ${elementName(element)} is derived from ${reference}, which does not exist.`);
+            }
+            resolved = mergeRegister(this.register(base.element, base.scope, depth + 1), element);
+        }
+
+        if (resolved.fields) {
+            const register = resolved;
+            resolved = { ...register, fields: [{ ...register.fields[0], field: fieldList(register).map((f) => this.field(f, register, scope, depth)) }] };
+        }
+        return resolved;
+    }
+
+    private field(element: any, register: any, scope: any, depth: number): any {
+        checkDepth(depth, element);
+
+        let resolved = element;
+        const reference = derivedFrom(element);
+        if (reference) {
+            const parts = reference.split('.');
+            const name = parts[parts.length - 1];
+
+            let base: any;
+            if (parts.length === 1) {
+                const sibling = fieldList(register).find((f) => elementName(f) === name);
+                base = sibling ? this.field(sibling, register, scope, depth + 1) : undefined;
+            }
+            else {
+                const owner = this.find(parts.slice(0, -1).join('.'), 'register', scope);
+                base = owner ? fieldList(this.register(owner.element, owner.scope, depth + 1)).find((f) => elementName(f) === name) : undefined;
+            }
+
+            if (!base) {
+                throw new Error(`Unable to parse SVD file: field ${elementName(element)} is derived from ${reference}, which does not exist.`);
+            }
+            resolved = mergeElement(base, element);
+        }
+
+        if (resolved.enumeratedValues) {
+            const field = resolved;
+            resolved = { ...field, enumeratedValues: field.enumeratedValues.map((ev) => this.enumeratedValues(ev, register, scope, depth)) };
+        }
+        return resolved;
+    }
+
+    // Enumerated values are referenced by their name, which is looked up in the register and then the rest of its scope
+    private enumeratedValues(element: any, register: any, scope: any, depth: number): any {
+        checkDepth(depth, element);
+
+        const reference = derivedFrom(element);
+        if (!reference) { return element; }
+
+        const parts = reference.split('.');
+        const name = parts[parts.length - 1];
+
+        let registers = [register].concat(scope.register || []);
+        if (parts.length > 2) {
+            const owner = this.find(parts.slice(0, -2).join('.'), 'register', scope);
+            registers = owner ? [owner.element] : [];
+        }
+
+        for (const r of registers) {
+            for (const f of fieldList(r)) {
+                const base = (f.enumeratedValues || []).find((ev) => elementName(ev) === name);
+                if (base) { return mergeElement(this.enumeratedValues(base, r, scope, depth + 1), element); }
+            }
+        }
+
+        throw new Error(`Unable to parse SVD file: enumeratedValues ${elementName(element) || ''} is derived from ${reference}, which does not exist.`);
+    }
+}
+
+/*
+ * Takes the peripheral elements of a device keyed by name and returns them with all derivedFrom references, of the
+ * peripherals and of the clusters, registers, fields and enumerated values they contain, resolved.
+ */
+export function resolveDerivations(peripherals: { [name: string]: any }): any[] {
+    return new DerivationResolver(peripherals).resolve();
+}
@@ -0,0 +1,55 @@
+/*
+ * Values written to registers whose fields have a CMSIS-SVD modifiedWriteValues, where writing back the value that
+ * was read can change a field. For example writing back a set write 1 to clear flag clears it.
+ */
+
+import { createMask, extractBits } from './utils';
+
+// SVD modifiedWriteValues - how a written value changes the bits of a field
+export enum ModifiedWriteValues {
+    OneToClear = 'oneToClear',
+    OneToSet = 'oneToSet',
+    OneToToggle = 'oneToToggle',
+    ZeroToClear = 'zeroToClear',
+    ZeroToSet = 'zeroToSet',
+    ZeroToToggle = 'zeroToToggle',
+    Clear = 'clear',
+    Set = 'set',
+    Modify = 'modify'
+}
+
+export interface WriteField {
+    offset: number;
+    width: number;
+    modifiedWriteValues: ModifiedWriteValues;
+}
+
+/*
+ * The value to write to a field that should not change: 0 for write 1 to clear/set/toggle fields, all ones for write 0
+ * to clear/set/toggle fields and the current value for everything else.
+ */
+export function neutralWriteValue(modifiedWriteValues: ModifiedWriteValues, current: number, width: number): number {
+    switch (modifiedWriteValues) {
+        case ModifiedWriteValues.OneToClear:
+        case ModifiedWriteValues.OneToSet:
+        case ModifiedWriteValues.OneToToggle:
+            return 0;
+        case ModifiedWriteValues.ZeroToClear:
+        case ModifiedWriteValues.ZeroToSet:
+        case ModifiedWriteValues.ZeroToToggle:
+            return createMask(0, width) >>> 0;
+        default:
+            return current;
+    }
+}
+
+// The register value that sets the field at offset to value and leaves all the other fields unchanged
+export function fieldWriteValue(current: number, fields: WriteField[], offset: number, width: number, value: number): number {
+    let newval = current;
+    fields.filter((f) => f.offset !== offset).forEach((f) => {
+        const neutral = neutralWriteValue(f.modifiedWriteValues, extractBits(newval, f.offset, f.width), f.width);
+        newval = (newval & ~createMask(f.offset, f.width)) | (neutral << f.offset);
+    });
+    newval = (newval & ~createMask(offset, width)) | (value << offset);
+    return newval >>> 0;
+}
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import { SymbolInformation } from '../../symbols';
+import { SWODecoderConfig, GraphConfiguration } from './common';
+
+/*
+ * Capture file layout:
+ *   - A single line of JSON (the SWOCaptureHeader) terminated by '\n'
+ *   - A sequence of records, each made up of:
+ *       UInt8     record type (SWOCaptureRecordType)
+ *       DoubleLE  host time the record was written (milliseconds since epoch)
+ *       UInt32LE  payload length
+ *       payload
+ */
+
+const CAPTURE_FORMAT = 'cortex-debug-swo-capture';
+const CAPTURE_VERSION = 1;
+const RECORD_HEADER_LENGTH = 13;
+
+export enum SWOCaptureRecordType {
+    Data = 0,
+    FunctionSymbols = 1
+}
+
+export interface SWOCaptureConfiguration {
+    executable: string;
+    swoConfig: {
+        enabled: boolean,
+        cpuFrequency: number,
+        swoFrequency: number,
+        timestamps: boolean,
+        timestampPrescaler: number,
+        decoders: SWODecoderConfig[]
+    };
+    graphConfig: GraphConfiguration[];
+}
+
+export interface SWOCaptureHeader {
+    format: string;
+    version: number;
+    created: string;
+    configuration: SWOCaptureConfiguration;
+}
+
+export interface SWOCaptureRecord {
+    timestamp: number;
+    data: Buffer;
+}
+
+export interface SWOCapture {
+    header: SWOCaptureHeader;
+    records: SWOCaptureRecord[];
+    functionSymbols: SymbolInformation[];
+}
+
+export class SWOCaptureWriter {
+    private fd: number;
+
+    constructor(public readonly capturePath: string, configuration: SWOCaptureConfiguration) {
+        const header: SWOCaptureHeader = {
+            format: CAPTURE_FORMAT,
+            version: CAPTURE_VERSION,
+            created: new Date().toISOString(),
+            configuration: {
+                executable: configuration.executable,
+                swoConfig: configuration.swoConfig,
+                graphConfig: configuration.graphConfig
+            }
+        };
+
+        this.fd = fs.openSync(capturePath, 'w');
+        fs.writeSync(this.fd, JSON.stringify(header) + '\n');
+    }
+
+    public writeData(data: Buffer) {
+        this.writeRecord(SWOCaptureRecordType.Data, data);
+    }
+
+    public writeFunctionSymbols(symbols: SymbolInformation[]) {
+        this.writeRecord(SWOCaptureRecordType.FunctionSymbols, new Buffer(JSON.stringify(symbols), 'utf8'));
+    }
+
+    private writeRecord(type: SWOCaptureRecordType, payload: Buffer) {
+        if (this.fd === null) { return; }
+
+        const header = new Buffer(RECORD_HEADER_LENGTH);
+        header.writeUInt8(type, 0);
+        header.writeDoubleLE(new Date().getTime(), 1);
+        header.writeUInt32LE(payload.length, 9);
+
+        fs.writeSync(this.fd, Buffer.concat([header, payload]));
+    }
+
+    public dispose() {
+        if (this.fd !== null) {
+            fs.closeSync(this.fd);
+            this.fd = null;
+        }
+    }
+}
+
+export function readSWOCapture(capturePath: string): SWOCapture {
+    const contents = fs.readFileSync(capturePath);
+
+    const newline = contents.indexOf(0x0A);
+    if (newline === -1) { throw new Error('Missing capture header'); }
+
+    const header: SWOCaptureHeader = JSON.parse(contents.slice(0, newline).toString('utf8'));
+    if (header.format !== CAPTURE_FORMAT) { throw new Error('Not a SWO capture file'); }
+    if (header.version > CAPTURE_VERSION) { throw new Error(`Unsupported capture version ${header.version}`); }
+
+    const capture: SWOCapture = { header: header, records: [], functionSymbols: null };
+
+    let offset = newline + 1;
+    while (offset + RECORD_HEADER_LENGTH <= contents.length) {
+        const type = contents.readUInt8(offset);
+        const timestamp = contents.readDoubleLE(offset + 1);
+        const length = contents.readUInt32LE(offset + 9);
+        offset += RECORD_HEADER_LENGTH;
+
+        // A truncated final record means the capture was not closed cleanly; keep everything before it
+        if (offset + length > contents.length) { break; }
+        const payload = contents.slice(offset, offset + length);
+        offset += length;
+
+        if (type === SWOCaptureRecordType.Data) {
+            capture.records.push({ timestamp: timestamp, data: payload });
+        }
+        else if (type === SWOCaptureRecordType.FunctionSymbols) {
+            capture.functionSymbols = JSON.parse(payload.toString('utf8'));
+        }
+    }
+
+    return capture;
+}
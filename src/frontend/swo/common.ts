@@ -1,3 +1,5 @@
+import { SymbolInformation } from '../../symbols';
+
 export interface SWODecoderConfig {
     type: string;
 }
@@ -23,6 +25,24 @@ export interface SWOGraphDecoderConfig extends SWOBasicDecoderConfig {
     graphId: string;
 }
 
+export interface SWODWTDecoderConfig extends SWODecoderConfig {
+    label: string;
+    exceptions: boolean;
+    dataTrace: boolean;
+    // All counters, or the names of the counters to enable (CPI, EXC, SLEEP, LSU, FOLD and CYC)
+    eventCounters: boolean | string[];
+    comparators: SWODWTComparatorConfig[];
+    graphIds: string[];
+}
+
+export interface SWODWTComparatorConfig {
+    address?: number | string;
+    symbol?: string;
+    size?: number;
+    access?: 'read' | 'write' | 'readwrite';
+    pc?: boolean;
+}
+
 export interface SWOAdvancedDecoderConfig extends SWODecoderConfig {
     decoder: string;
     config: any;
@@ -34,43 +54,65 @@ export interface GraphConfiguration {
     label: string;
 }
 
+export interface GraphPlotConfiguration {
+    graphId: string;
+    label: string;
+    color: string;
+}
+
 export interface RealtimeGraphConfiguration extends GraphConfiguration {
     minimum: number;
     maximum: number;
-    plots: Array<{
-        graphId: number,
-        label: string,
-        color: string
-    }>;
+    timespan: number;
+    annotate: boolean;
+    autoscale?: boolean;
+    plots: GraphPlotConfiguration[];
 }
 
 export interface XYGraphConfiguration extends GraphConfiguration {
-    xPort: number;
-    yPort: number;
+    xGraphId: string;
+    yGraphId: string;
     xMinimum: number;
     xMaximum: number;
     yMinimum: number;
     yMaximum: number;
+    timespan: number;
+}
+
+export interface HistogramGraphConfiguration extends GraphConfiguration {
+    graphId: string;
+    minimum: number;
+    maximum: number;
+    bins: number;
+    color: string;
+    timespan: number;
+}
+
+export interface BarGraphConfiguration extends GraphConfiguration {
+    style: string;
+    minimum: number;
+    maximum: number;
+    plots: GraphPlotConfiguration[];
+}
+
+export interface LogicGraphConfiguration extends GraphConfiguration {
+    timespan: number;
+    plots: Array<GraphPlotConfiguration & { bit: number }>;
 }
 
-export interface WebsocketMessage {
+export interface GrapherMessage {
     type: string;
 }
 
-export interface WebsocketDataMessage extends WebsocketMessage {
+export interface GrapherDataMessage extends GrapherMessage {
     timestamp: number;
     data: number;
     id: string;
 }
 
-export interface WebsocketProgramCounterMessage extends WebsocketMessage {
-    timestamp: number;
-    counter: number;
-    function: string;
-}
-
-export interface WebsocketStatusMessage extends WebsocketMessage {
+export interface GrapherStatusMessage extends GrapherMessage {
     status: string;
+    timestamp: number;
 }
 
 export interface AdvancedDecoder {
@@ -104,9 +146,23 @@ export interface TimestampPacket {
     timestamp: number;
 }
 
+export interface GlobalTimestampPacket {
+    wrap: boolean;
+    clockChange: boolean;
+    timestamp: number;
+}
+
 export interface Packet {
     type: PacketType;
     port: number;
     size: number;
     data: Buffer;
+    timestamp: number;
+}
+
+export interface ProgramCounterSample {
+    pc: number;
+    sleep: boolean;
+    timestamp: number;
+    symbol: SymbolInformation;
 }
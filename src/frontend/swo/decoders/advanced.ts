@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { SWODecoder } from './common';
-import { SWOAdvancedDecoderConfig, WebsocketDataMessage, AdvancedDecoder } from '../common';
+import { SWOAdvancedDecoderConfig, GrapherDataMessage, AdvancedDecoder } from '../common';
 import { decoders as DECODER_MAP } from './utils';
 import { EventEmitter } from 'events';
 import { decoders } from './utils';
@@ -11,6 +11,7 @@ export class SWOAdvancedProcessor extends EventEmitter implements SWODecoder {
     public readonly format: string = 'advanced';
     private ports: number[];
     private decoder: AdvancedDecoder;
+    private timestamp: number = null;
     
     constructor(config: SWOAdvancedDecoderConfig) {
         super();
@@ -43,6 +44,7 @@ export class SWOAdvancedProcessor extends EventEmitter implements SWODecoder {
 
     public softwareEvent(packet: Packet) {
         if (this.ports.indexOf(packet.port) !== -1) {
+            this.timestamp = packet.timestamp;
             this.decoder.softwareEvent(packet.port, packet.data);
         }
     }
@@ -62,8 +64,10 @@ export class SWOAdvancedProcessor extends EventEmitter implements SWODecoder {
     }
 
     public graphData(data: number, id: string) {
-        const message: WebsocketDataMessage = { type: 'data', timestamp: new Date().getTime(), data: data, id: id };
-        this.emit('data', message);
+        // Graph data reported while decoding a packet is stamped with that packet's target time
+        const timestamp = this.timestamp !== null ? this.timestamp : new Date().getTime();
+        const message: GrapherDataMessage = { type: 'data', timestamp: timestamp, data: data, id: id };
+        this.emit('message', message);
     }
 
     public dispose() {
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { SWODecoder } from './common';
 import { SWOBinaryDecoderConfig } from '../common';
-import { decoders as DECODER_MAP } from './utils';
+import { decoders as DECODER_MAP, formatTimestamp } from './utils';
 import { Packet } from '../common';
 
 function parseEncoded(buffer: Buffer, encoding: string) {
@@ -26,13 +26,11 @@ export class SWOBinaryProcessor implements SWODecoder {
     public softwareEvent(packet: Packet) {
         if (packet.port !== this.port) { return; }
 
-        const date = new Date();
-        
         const hexvalue = packet.data.toString('hex');
         const decodedValue = parseEncoded(packet.data, this.encoding);
         const scaledValue = decodedValue * this.scale;
         
-        this.output.appendLine(`[${date.toISOString()}]   ${hexvalue} - ${decodedValue} - ${scaledValue}`);
+        this.output.appendLine(`[${formatTimestamp(packet.timestamp)}]   ${hexvalue} - ${decodedValue} - ${scaledValue}`);
     }
 
     public hardwareEvent(event: Packet) {}
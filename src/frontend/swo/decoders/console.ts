@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 
 import { SWODecoder } from './common';
-import { parseUnsigned } from './utils';
+import { parseUnsigned, formatTimestamp } from './utils';
 import { SWOConsoleDecoderConfig } from '../common';
 import { Packet } from '../common';
 
@@ -35,8 +35,7 @@ export class SWOConsoleProcessor implements SWODecoder {
             }
 
             if (this.position === 0) {
-                const date = new Date();
-                const header = `[${date.toISOString()}]   `;
+                const header = `[${formatTimestamp(packet.timestamp)}]   `;
                 this.output.append(header);
             }
 
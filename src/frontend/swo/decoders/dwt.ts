@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { EventEmitter } from 'events';
+import { SWODecoder } from './common';
+import { formatTimestamp } from './utils';
+import { SWODWTDecoderConfig, GrapherDataMessage, Packet } from '../common';
+import { hexFormat } from '../../utils';
+import { SymbolInformation } from '../../../symbols';
+import { exceptionName } from '../../../faults';
+import {
+    EVENT_COUNTER_DISCRIMINATOR, EXCEPTION_TRACE_DISCRIMINATOR, DATA_TRACE_FIRST_DISCRIMINATOR, DATA_TRACE_LAST_DISCRIMINATOR,
+    ExceptionTraceFunction, DataTraceType, parseExceptionTrace, parseDataTrace, parseEventCounterWraps
+} from './dwt_packets';
+
+export class SWODWTProcessor extends EventEmitter implements SWODecoder {
+    public readonly format: string = 'dwt';
+    private output: vscode.OutputChannel;
+    private exceptions: boolean;
+    private dataTrace: boolean;
+    private eventCounters: boolean;
+    private graphIds: string[];
+    private exceptionEntryTimes: { [exception: number]: number } = {};
+
+    constructor(config: SWODWTDecoderConfig, private getFunctionAtAddress: (address: number) => SymbolInformation) {
+        super();
+        this.exceptions = config.exceptions !== false;
+        this.dataTrace = config.dataTrace !== false;
+        this.eventCounters = config.eventCounters === true || (Array.isArray(config.eventCounters) && config.eventCounters.length > 0);
+        this.graphIds = config.graphIds || [];
+
+        this.output = vscode.window.createOutputChannel(`SWO: ${config.label || ''} [type: dwt]`);
+    }
+
+    public softwareEvent(packet: Packet) {}
+
+    public hardwareEvent(packet: Packet) {
+        if (packet.port === EXCEPTION_TRACE_DISCRIMINATOR) {
+            if (this.exceptions) { this.exceptionTrace(packet); }
+        }
+        else if (packet.port === EVENT_COUNTER_DISCRIMINATOR) {
+            if (this.eventCounters) {
+                const counters = parseEventCounterWraps(packet);
+                this.appendLine(packet.timestamp, `Counter wrap: ${counters.join(', ')}`);
+            }
+        }
+        else if (packet.port >= DATA_TRACE_FIRST_DISCRIMINATOR && packet.port <= DATA_TRACE_LAST_DISCRIMINATOR) {
+            if (this.dataTrace) { this.dataTracePacket(packet); }
+        }
+    }
+
+    private exceptionTrace(packet: Packet) {
+        const event = parseExceptionTrace(packet);
+        if (!event) { return; }
+
+        const name = `${exceptionName(event.exception)} (${event.exception})`;
+        switch (event.function) {
+            case ExceptionTraceFunction.Entered:
+                this.exceptionEntryTimes[event.exception] = packet.timestamp;
+                this.appendLine(packet.timestamp, `Exception entry:  ${name}`);
+                break;
+            case ExceptionTraceFunction.Exited:
+                const entry = this.exceptionEntryTimes[event.exception];
+                delete this.exceptionEntryTimes[event.exception];
+                if (entry !== undefined) {
+                    const duration = (packet.timestamp - entry) * 1000;
+                    this.appendLine(packet.timestamp, `Exception exit:   ${name} - ${duration.toFixed(1)} µs`);
+                }
+                else {
+                    this.appendLine(packet.timestamp, `Exception exit:   ${name}`);
+                }
+                break;
+            case ExceptionTraceFunction.Returned:
+                this.appendLine(packet.timestamp, `Exception return: ${name}`);
+                break;
+        }
+    }
+
+    private dataTracePacket(packet: Packet) {
+        const event = parseDataTrace(packet);
+        const prefix = `Comparator ${event.comparator}`;
+
+        switch (event.type) {
+            case DataTraceType.ProgramCounter:
+                const symbol = this.getFunctionAtAddress(event.value);
+                this.appendLine(packet.timestamp, `${prefix} PC:     ${hexFormat(event.value, 8)}${symbol ? ` (${symbol.name})` : ''}`);
+                break;
+            case DataTraceType.AddressOffset:
+                this.appendLine(packet.timestamp, `${prefix} offset: ${hexFormat(event.value, 4)}`);
+                break;
+            case DataTraceType.ReadValue:
+            case DataTraceType.WriteValue:
+                const access = event.type === DataTraceType.ReadValue ? 'read: ' : 'write:';
+                this.appendLine(packet.timestamp, `${prefix} ${access} ${hexFormat(event.value, packet.size * 2)} (${event.value})`);
+
+                const graphId = this.graphIds[event.comparator];
+                if (graphId) {
+                    const message: GrapherDataMessage = { type: 'data', timestamp: packet.timestamp, data: event.value, id: graphId };
+                    this.emit('message', message);
+                }
+                break;
+        }
+    }
+
+    private appendLine(timestamp: number, line: string) {
+        this.output.appendLine(`[${formatTimestamp(timestamp)}]   ${line}`);
+    }
+
+    public synchronized() {}
+
+    public lostSynchronization() {
+        this.exceptionEntryTimes = {};
+    }
+
+    public dispose() {
+        this.output.dispose();
+    }
+}
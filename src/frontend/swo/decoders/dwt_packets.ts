@@ -0,0 +1,65 @@
+import { parseUnsigned } from './utils';
+import { Packet } from '../common';
+
+export const EVENT_COUNTER_DISCRIMINATOR = 0;
+export const EXCEPTION_TRACE_DISCRIMINATOR = 1;
+export const DATA_TRACE_FIRST_DISCRIMINATOR = 8;
+const DATA_TRACE_VALUE_DISCRIMINATOR = 16;
+export const DATA_TRACE_LAST_DISCRIMINATOR = 23;
+
+const COUNTER_NAMES: string[] = ['CPI', 'EXC', 'SLEEP', 'LSU', 'FOLD', 'CYC'];
+
+export enum ExceptionTraceFunction {
+    Entered = 1,
+    Exited,
+    Returned
+}
+
+export interface ExceptionTraceEvent {
+    exception: number;
+    function: ExceptionTraceFunction;
+}
+
+export enum DataTraceType {
+    ProgramCounter = 1,
+    AddressOffset,
+    ReadValue,
+    WriteValue
+}
+
+export interface DataTraceEvent {
+    comparator: number;
+    type: DataTraceType;
+    value: number;
+}
+
+// Hardware source packets of the DWT, as forwarded by the ITM with their discriminator in the port number
+export function parseExceptionTrace(packet: Packet): ExceptionTraceEvent {
+    const exception = packet.data.readUInt8(0) | ((packet.data.readUInt8(1) & 0x01) << 8);
+    const fn = (packet.data.readUInt8(1) & 0x30) >>> 4;
+    if (fn === 0) { return null; }
+
+    return { exception: exception, function: fn };
+}
+
+export function parseDataTrace(packet: Packet): DataTraceEvent {
+    if (packet.port < DATA_TRACE_VALUE_DISCRIMINATOR) {
+        return {
+            comparator: (packet.port >>> 1) & 0x03,
+            type: (packet.port & 0x01) ? DataTraceType.AddressOffset : DataTraceType.ProgramCounter,
+            value: parseUnsigned(packet.data)
+        };
+    }
+    else {
+        return {
+            comparator: (packet.port >>> 1) & 0x03,
+            type: (packet.port & 0x01) ? DataTraceType.WriteValue : DataTraceType.ReadValue,
+            value: parseUnsigned(packet.data)
+        };
+    }
+}
+
+export function parseEventCounterWraps(packet: Packet): string[] {
+    const flags = packet.data.readUInt8(0);
+    return COUNTER_NAMES.filter((name, idx) => (flags & (1 << idx)) !== 0);
+}
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import { SWODecoder } from './common';
 import { decoders as DECODER_MAP } from './utils';
 import { EventEmitter } from 'events';
-import { SWOGraphDecoderConfig, WebsocketDataMessage } from '../common';
+import { SWOGraphDecoderConfig, GrapherDataMessage } from '../common';
 import { Packet } from '../common';
 
 function parseEncoded(buffer: Buffer, encoding: string) {
@@ -18,7 +18,6 @@ export class SWOGraphProcessor extends EventEmitter implements SWODecoder {
 
     constructor(config: SWOGraphDecoderConfig) {
         super();
-        // core.socketServer.registerProcessor(this);
         this.port = config.port;
         this.encoding = config.encoding || 'unsigned';
         this.scale = config.scale || 1;
@@ -32,7 +31,7 @@ export class SWOGraphProcessor extends EventEmitter implements SWODecoder {
         const decodedValue = parseEncoded(packet.data, this.encoding);
         const scaledValue = decodedValue * this.scale;
 
-        const message: WebsocketDataMessage = { type: 'data', timestamp: new Date().getTime(), data: scaledValue, id: this.graphId };
+        const message: GrapherDataMessage = { type: 'data', timestamp: packet.timestamp, data: scaledValue, id: this.graphId };
         this.emit('message', message);
     }
 
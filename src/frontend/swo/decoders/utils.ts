@@ -55,6 +55,13 @@ export function parseUQ(buffer: Buffer, mask: number, shift: number) {
     return integer + (fractional / mask);
 }
 
+// Formats a (possibly fractional) millisecond timestamp as an ISO 8601 string with microsecond resolution
+export function formatTimestamp(timestamp: number): string {
+    const iso = new Date(Math.floor(timestamp)).toISOString();
+    const micro = Math.floor((timestamp % 1) * 1000);
+    return `${iso.substring(0, iso.length - 1)}${('00' + micro).slice(-3)}Z`;
+}
+
 export const decoders = {
     signed: parseSigned,
     float: parseFloat,
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SWOGraphProcessor } from './decoders/graph';
+import { GrapherMessage, GrapherDataMessage, GraphConfiguration } from './common';
+import { SWOAdvancedProcessor } from './decoders/advanced';
+import { SWODWTProcessor } from './decoders/dwt';
+const RingBuffer = require('ringbufferjs');
+
+// Data messages are batched so that high rate sources do not flood the webview with individual postMessage calls
+const FLUSH_INTERVAL = 50;
+const HISTORY_CHUNK_SIZE = 5000;
+
+export class SWOGrapher {
+    private processors: Array<SWOGraphProcessor|SWOAdvancedProcessor|SWODWTProcessor>;
+    private panel: vscode.WebviewPanel = null;
+    private messageBuffer = new RingBuffer(250000);
+    private pendingMessages: GrapherMessage[] = [];
+    private flushTimer: NodeJS.Timer = null;
+    public currentStatus: string = 'stopped';
+
+    constructor(public graphs: GraphConfiguration[], private extensionPath: string, private title: string = 'SWO Graphs') {
+        this.processors = [];
+
+        if (graphs.length >= 1) {
+            this.createPanel();
+        }
+    }
+
+    private createPanel() {
+        const time = new Date().toTimeString();
+        this.panel = vscode.window.createWebviewPanel('cortex-debug.grapher', `${this.title} [${time}]`, vscode.ViewColumn.Two, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: [vscode.Uri.file(path.join(this.extensionPath, 'grapher'))]
+        });
+
+        this.panel.webview.html = this.getHTML();
+        this.panel.webview.onDidReceiveMessage(this.receivedMessage.bind(this));
+        this.panel.onDidDispose(() => {
+            this.panel = null;
+        });
+    }
+
+    private getHTML(): string {
+        const root = vscode.Uri.file(path.join(this.extensionPath, 'grapher')).with({ scheme: 'vscode-resource' });
+        const html = fs.readFileSync(path.join(this.extensionPath, 'grapher', 'index.html'), 'utf8');
+        return html.replace(/\{\{root\}\}/g, root.toString());
+    }
+
+    private receivedMessage(message: any) {
+        switch (message.type) {
+            case 'ready':
+                this.postMessage({ type: 'configure', graphs: this.graphs, status: this.currentStatus });
+                this.sendHistory();
+                break;
+            case 'export':
+                this.exportCSV();
+                break;
+        }
+    }
+
+    private sendHistory() {
+        const history: GrapherMessage[] = this.messageBuffer.peekN(this.messageBuffer.size());
+        for (let i = 0; i < history.length; i += HISTORY_CHUNK_SIZE) {
+            this.postMessage({ type: 'history', messages: history.slice(i, i + HISTORY_CHUNK_SIZE) });
+        }
+    }
+
+    private async exportCSV(): Promise<void> {
+        const uri = await vscode.window.showSaveDialog({ filters: { CSV: ['csv'] } });
+        if (!uri) { return; }
+
+        const history: GrapherMessage[] = this.messageBuffer.peekN(this.messageBuffer.size());
+        const rows: string[] = ['Timestamp (ms),Graph Id,Value'];
+        history.filter((m) => m.type === 'data').forEach((m: GrapherDataMessage) => {
+            rows.push(`${m.timestamp},"${m.id}",${m.data}`);
+        });
+
+        try {
+            fs.writeFileSync(uri.fsPath, rows.join('\n') + '\n', { encoding: 'utf8', flag: 'w' });
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`Unable to export graph data: ${e.toString()}`);
+        }
+    }
+
+    private postMessage(message: any) {
+        if (this.panel) {
+            this.panel.webview.postMessage(message);
+        }
+    }
+
+    private flush() {
+        this.flushTimer = null;
+        if (this.pendingMessages.length > 0) {
+            this.postMessage({ type: 'batch', messages: this.pendingMessages });
+            this.pendingMessages = [];
+        }
+    }
+
+    public registerProcessor(processor: SWOGraphProcessor | SWOAdvancedProcessor | SWODWTProcessor) {
+        processor.on('message', this.broadcastMessage.bind(this));
+        this.processors.push(processor);
+    }
+
+    public broadcastMessage(message: GrapherMessage) {
+        this.messageBuffer.enq(message);
+        if (!this.panel) { return; }
+
+        this.pendingMessages.push(message);
+        if (message.type === 'status') {
+            this.flush();
+        }
+        else if (!this.flushTimer) {
+            this.flushTimer = setTimeout(this.flush.bind(this), FLUSH_INTERVAL);
+        }
+    }
+
+    // Replaces the displayed graphs, reopening the panel if it has been closed. The buffered data is kept.
+    public configure(graphs: GraphConfiguration[]) {
+        this.graphs = graphs;
+        if (!this.panel) {
+            if (graphs.length >= 1) { this.createPanel(); }
+        }
+        else {
+            this.postMessage({ type: 'configure', graphs: this.graphs, status: this.currentStatus });
+        }
+    }
+
+    public dispose() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flush();
+        }
+    }
+}
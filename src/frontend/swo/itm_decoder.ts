@@ -0,0 +1,308 @@
+import { EventEmitter } from 'events';
+import { PacketType, Packet, TimestampType, TimestampPacket, GlobalTimestampPacket } from './common';
+
+const RingBuffer = require('ringbufferjs');
+
+enum Status {
+    IDLE = 1,
+    UNSYNCED,
+    TIMESTAMP,
+    GLOBAL_TIMESTAMP_1,
+    GLOBAL_TIMESTAMP_2,
+    EXTENSION,
+    HARDWARE_EVENT,
+    SOFTWARE_EVENT,
+    RESERVED
+}
+
+const LENGTH_MASK = 0b00000011;
+const OVERFLOW_MASK = 0b01110000;
+const HARDWARE_MASK = 0b00000100;
+const PORT_MASK = 0b11111000;
+const TIMESTAMP_MASK = 0b00001111;
+const EXTENSION_MASK = 0b00000111;
+const CONTINUATION_MASK = 0b10000000;
+const TIMESTAMP_CONTROL_MASK = 0b00110000;
+
+const GTS1_HEADER = 0b10010100;
+const GTS2_HEADER = 0b10110100;
+const GTS1_LOW_BITS = 26;
+
+// Limits the number of packets held back while waiting for a local timestamp, in case the target stops producing them
+const MAX_PENDING_PACKETS = 256;
+
+export interface ITMTimingOptions {
+    enabled: boolean;
+    cpuFrequency: number;
+    prescaler: number;
+}
+
+export class ITMDecoder extends EventEmitter {
+    private syncBuffer = new RingBuffer(6);
+    private status: Status = Status.IDLE;
+    
+    private rxCount: number = 0;
+    private rxBuffer: Buffer;
+    private rxPort: number;
+    private rxTargetLength: number;
+    private rxPacketType: PacketType;
+
+    private timestampType: TimestampType;
+    private timestampValue: number = 0;
+    private timestampShift: number = 0;
+
+    private pendingPackets: Packet[] = [];
+    private targetCycles: number = 0;
+    private timeOrigin: number = null;
+    private globalLow: number = 0;
+    private globalHigh: number = 0;
+    private globalOffset: number = null;
+
+    constructor(private timing: ITMTimingOptions = { enabled: false, cpuFrequency: 0, prescaler: 1 }) {
+        super();
+
+        this.syncBuffer.enq(0xFF);
+        this.syncBuffer.enq(0xFF);
+        this.syncBuffer.enq(0xFF);
+        this.syncBuffer.enq(0xFF);
+        this.syncBuffer.enq(0xFF);
+        this.syncBuffer.enq(0xFF);
+        // Prefill the sync buffer
+
+        if (this.timing.enabled && !this.timing.cpuFrequency) {
+            // Target cycles cannot be converted to time without the core frequency - fall back to host time
+            this.timing.enabled = false;
+        }
+    }
+
+    private resetRxPacket(port: number, length: number, type: PacketType) {
+        this.rxBuffer = new Buffer(length);
+        this.rxBuffer.fill(0);
+
+        this.rxTargetLength = length;
+        this.rxPacketType = type;
+        this.rxPort = port;
+        this.rxCount = 0;
+    }
+
+    private rxWriteByte(byte: number): boolean {
+        this.rxBuffer.writeUInt8(byte, this.rxCount);
+        this.rxCount++;
+        return this.rxCount === this.rxTargetLength;
+    }
+
+    private getRxPacket(): Packet {
+        return {
+            type: this.rxPacketType,
+            port: this.rxPort,
+            size: this.rxCount,
+            data: this.rxBuffer,
+            timestamp: null
+        };
+    }
+
+    private checkSync(byte: number) {
+        this.syncBuffer.enq(byte);
+        const bytes: number[] = this.syncBuffer.peekN(6);
+        return (bytes[5] === 0x80 && bytes[4] === 0x00 && bytes[3] === 0x00 && bytes[2] === 0x00 && bytes[1] === 0x00 && bytes[0] === 0x00);
+    }
+
+    private resetTimestampValue() {
+        this.timestampValue = 0;
+        this.timestampShift = 0;
+    }
+
+    // Timestamp payloads are sent least significant group first, with 7 bits of the value in each byte
+    private accumulateTimestamp(byte: number, bits: number = 7) {
+        this.timestampValue += (byte & ((1 << bits) - 1)) * Math.pow(2, this.timestampShift);
+        this.timestampShift += bits;
+    }
+
+    // Current target time in milliseconds, anchored to the host clock when the first timestamp was received
+    private currentTime(): number {
+        if (!this.timing.enabled || this.timeOrigin === null) { return new Date().getTime(); }
+        return this.timeOrigin + (this.targetCycles * 1000 / this.timing.cpuFrequency);
+    }
+
+    private anchorTime() {
+        if (this.timeOrigin === null) {
+            this.timeOrigin = new Date().getTime() - (this.targetCycles * 1000 / this.timing.cpuFrequency);
+        }
+    }
+
+    private emitPacket(event: string, packet: Packet) {
+        if (this.timing.enabled) {
+            this.pendingPackets.push(packet);
+            if (this.pendingPackets.length >= MAX_PENDING_PACKETS) { this.flushPendingPackets(); }
+        }
+        else {
+            packet.timestamp = this.currentTime();
+            this.emit(event, packet);
+        }
+    }
+
+    private flushPendingPackets() {
+        const timestamp = this.currentTime();
+        const packets = this.pendingPackets;
+        this.pendingPackets = [];
+
+        packets.forEach((packet) => {
+            packet.timestamp = timestamp;
+            this.emit(packet.type === PacketType.HARDWARE ? 'hardware-event' : 'software-event', packet);
+        });
+    }
+
+    private localTimestamp(type: TimestampType, value: number) {
+        const packet: TimestampPacket = { type: type, timestamp: value };
+        if (this.timing.enabled) {
+            this.targetCycles += value * this.timing.prescaler;
+            this.anchorTime();
+            this.flushPendingPackets();
+        }
+        this.emit('timestamp', packet);
+    }
+
+    private globalTimestamp(packet: GlobalTimestampPacket, high: boolean) {
+        if (high) { this.globalHigh = packet.timestamp; }
+        else { this.globalLow = packet.timestamp; }
+
+        // A wrap means the high order bits have changed; wait for the following GTS2 packet before using the value
+        if (!high && packet.wrap) { return; }
+
+        const globalCycles = this.globalHigh * Math.pow(2, GTS1_LOW_BITS) + this.globalLow;
+        if (this.timing.enabled) {
+            // Global timestamps re-base the local timestamp total, which drifts whenever local timestamps are lost to an overflow
+            if (this.globalOffset === null) { this.globalOffset = globalCycles - this.targetCycles; }
+            this.targetCycles = globalCycles - this.globalOffset;
+            this.anchorTime();
+        }
+        this.emit('global-timestamp', packet);
+    }
+
+    public processByte(byte: number) {
+        let newStatus: Status = this.status;
+
+        if (this.checkSync(byte)) { // check for completed sync
+            newStatus = Status.IDLE;
+            this.flushPendingPackets();
+            this.emit('synchronized');
+        }
+        else {
+            switch (this.status) {
+                case Status.IDLE:
+                    if (byte === 0x00) { break; } // Sync Packet
+                    else if (byte === 0b01110000) {
+                        this.flushPendingPackets();
+                        this.emit('overflow');
+                    }
+                    else if ((byte & TIMESTAMP_MASK) === 0x00) {
+                        this.resetTimestampValue();
+
+                        if ((byte & CONTINUATION_MASK) === 0x00) { // Local timestamp format 2 - value is in the header
+                            this.localTimestamp(TimestampType.CURRENT, (byte & 0b01110000) >>> 4);
+                        }
+                        else if ((byte & 0b01000000) !== 0x00) { // Local timestamp format 1 - value follows in the payload
+                            this.timestampType = (byte & TIMESTAMP_CONTROL_MASK) >>> 4;
+                            newStatus = Status.TIMESTAMP;
+                        }
+                        else {
+                            newStatus = Status.RESERVED;
+                            this.emit('lost-synchronization');
+                        }
+                    }
+                    else if (byte === GTS1_HEADER) {
+                        this.resetTimestampValue();
+                        newStatus = Status.GLOBAL_TIMESTAMP_1;
+                    }
+                    else if (byte === GTS2_HEADER) {
+                        this.resetTimestampValue();
+                        newStatus = Status.GLOBAL_TIMESTAMP_2;
+                    }
+                    else if ((byte & EXTENSION_MASK) === 0b00000100) {
+                        if ((byte & CONTINUATION_MASK) !== 0x00) { newStatus = Status.EXTENSION; }
+                    }
+                    else if ((byte & LENGTH_MASK) !== 0x00) {
+                        let count = byte & 0x03;
+                        if (count === 3) { count = 4; }
+
+                        const port = (byte & PORT_MASK) >>> 3;
+                        
+                        if ((byte & HARDWARE_MASK) !== 0) {
+                            this.resetRxPacket(port, count, PacketType.HARDWARE);
+                            newStatus = Status.HARDWARE_EVENT;
+                        }
+                        else {
+                            this.resetRxPacket(port, count, PacketType.SOFTWARE);
+                            newStatus = Status.SOFTWARE_EVENT;
+                        }
+                    }
+                    else {
+                        newStatus = Status.RESERVED;
+                        this.emit('lost-synchronization');
+                    }
+                    break;
+                case Status.TIMESTAMP:
+                    this.accumulateTimestamp(byte);
+                    if ((byte & CONTINUATION_MASK) === 0x00) {
+                        this.localTimestamp(this.timestampType, this.timestampValue);
+                        newStatus = Status.IDLE;
+                    }
+                    break;
+                case Status.GLOBAL_TIMESTAMP_1:
+                    if ((byte & CONTINUATION_MASK) === 0x00) {
+                        // The final byte holds the wrap and clock change flags above the remaining timestamp bits
+                        const last = this.timestampShift === 21;
+                        this.accumulateTimestamp(byte, last ? 5 : 7);
+
+                        // Shorter packets only carry the low order bits that changed since the previous GTS1 packet
+                        const unchanged = Math.pow(2, this.timestampShift);
+                        const value = this.globalLow - (this.globalLow % unchanged) + this.timestampValue;
+
+                        this.globalTimestamp({
+                            wrap: last && (byte & 0b01000000) !== 0,
+                            clockChange: last && (byte & 0b00100000) !== 0,
+                            timestamp: value
+                        }, false);
+                        newStatus = Status.IDLE;
+                    }
+                    else {
+                        this.accumulateTimestamp(byte);
+                    }
+                    break;
+                case Status.GLOBAL_TIMESTAMP_2:
+                    this.accumulateTimestamp(byte);
+                    if ((byte & CONTINUATION_MASK) === 0x00) {
+                        this.globalTimestamp({ wrap: false, clockChange: false, timestamp: this.timestampValue }, true);
+                        newStatus = Status.IDLE;
+                    }
+                    break;
+                case Status.EXTENSION:
+                    if ((byte & CONTINUATION_MASK) === 0x00) {
+                        newStatus = Status.IDLE;
+                    }
+                    break;
+                case Status.UNSYNCED:
+                    break;
+                case Status.SOFTWARE_EVENT:
+                    if (this.rxWriteByte(byte)) {
+                        this.emitPacket('software-event', this.getRxPacket());
+                        newStatus = Status.IDLE;
+                    }
+                    break;
+                case Status.HARDWARE_EVENT:
+                    if (this.rxWriteByte(byte)) {
+                        this.emitPacket('hardware-event', this.getRxPacket());
+                        newStatus = Status.IDLE;
+                    }
+                    break;
+                case Status.RESERVED:
+                    if ((byte & 0x80) === 0x00) {
+                        newStatus = Status.IDLE;
+                    }
+                    break;
+            }
+        }
+
+        this.status = newStatus;
+    }
+}
@@ -0,0 +1,54 @@
+import { EventEmitter } from 'events';
+import { SWOSource } from './common';
+import { SWOCaptureRecord } from '../capture';
+
+// Long idle periods in a capture (e.g. the target sitting at a breakpoint) are shortened during replay
+const MAX_REPLAY_GAP = 1000;
+
+export class CaptureSWOSource extends EventEmitter implements SWOSource {
+    public connected: boolean = false;
+    private index: number = 0;
+    private timer: any = null;
+
+    constructor(private records: SWOCaptureRecord[]) {
+        super();
+        this.timer = setTimeout(() => {
+            this.connected = true;
+            this.emit('connected');
+            this.replay();
+        }, 0);
+    }
+
+    private replay() {
+        this.timer = null;
+        if (this.index >= this.records.length) {
+            this.connected = false;
+            this.emit('disconnected');
+            return;
+        }
+
+        const record = this.records[this.index];
+        this.index += 1;
+        this.emit('data', record.data);
+
+        if (this.index < this.records.length) {
+            const gap = Math.min(Math.max(this.records[this.index].timestamp - record.timestamp, 0), MAX_REPLAY_GAP);
+            this.timer = setTimeout(this.replay.bind(this), gap);
+        }
+        else {
+            this.timer = setTimeout(this.replay.bind(this), 0);
+        }
+    }
+
+    public dispose() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (this.connected) {
+            this.connected = false;
+            this.emit('disconnected');
+        }
+    }
+}
@@ -4,6 +4,34 @@ export function hexFormat(value: number, padding: number = 8, includePrefix: boo
     return includePrefix ? '0x' + base : base;
 }
 
+// 64-bit values do not fit in the 53 bits that a number holds exactly, so they are formatted from their 32-bit halves
+export function decimalFormat64(high: number, low: number, signed: boolean = false): string {
+    let negative = false;
+    high = high >>> 0;
+    low = low >>> 0;
+    if (signed && (high & 0x80000000)) {
+        negative = true;
+        low = (~low + 1) >>> 0;
+        high = (~high + (low === 0 ? 1 : 0)) >>> 0;
+    }
+
+    // Long division of the value, held as 16-bit limbs, by 10000
+    const limbs = [high >>> 16, high & 0xFFFF, low >>> 16, low & 0xFFFF];
+    let digits = '';
+    do {
+        let remainder = 0;
+        for (let i = 0; i < limbs.length; i++) {
+            const current = remainder * 0x10000 + limbs[i];
+            limbs[i] = Math.floor(current / 10000);
+            remainder = current % 10000;
+        }
+        digits = ('000' + remainder).slice(-4) + digits;
+    } while (limbs.some((l) => l !== 0));
+
+    digits = digits.replace(/^0+(?=\d)/, '');
+    return negative ? '-' + digits : digits;
+}
+
 export function binaryFormat(value: number, padding: number = 0, includePrefix: boolean = true, group: boolean = false): string {
     let base = (value >>> 0).toString(2);
     while (base.length < padding) { base = '0' + base; }
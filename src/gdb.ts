@@ -1,12 +1,18 @@
-import { DebugSession, InitializedEvent, TerminatedEvent, ContinuedEvent, OutputEvent, Thread, ThreadEvent, StackFrame, Scope, Source, Handles, Event } from 'vscode-debugadapter';
+import { DebugSession, InitializedEvent, TerminatedEvent, ContinuedEvent, OutputEvent, Thread, ThreadEvent, StackFrame, Scope, Source, Handles, Event, InvalidatedEvent } from 'vscode-debugadapter';
 import { DebugProtocol } from 'vscode-debugprotocol';
 import { MI2 } from './backend/mi2/mi2';
 import { hexFormat } from './frontend/utils';
-import { Breakpoint, IBackend, Variable, VariableObject, MIError } from './backend/backend';
-import { TelemetryEvent, ConfigurationArguments, StoppedEvent, GDBServerController, AdapterOutputEvent, SWOConfigureEvent, DisassemblyInstruction } from './common';
+import { Breakpoint, Watchpoint, IBackend, Variable, VariableObject, MIError, Stack } from './backend/backend';
+import {
+    TelemetryEvent, ConfigurationArguments, StoppedEvent, GDBServerController, AdapterOutputEvent, SWOConfigureEvent, DisassemblyInstruction, CoreSessionsEvent,
+    coreGdbPortName, NumberFormat, BreakpointCommands
+} from './common';
 import { GDBServer } from './backend/server';
 import { MINode } from './backend/mi_parse';
 import { expandValue, isExpandable } from './backend/gdb_expansion';
+import { parseFormatSpecifier, resolveVariableFormat, variableObjectFormat } from './backend/variable_format';
+import { formatLogMessage } from './backend/log_message';
+import { parseMixedDisassembly, fillBackward, fillForward } from './backend/disassembly';
 import * as portastic from 'portastic';
 import * as os from 'os';
 import * as net from 'net';
@@ -19,15 +25,20 @@ import { OpenOCDServerController } from './openocd';
 import { STUtilServerController } from './stutil';
 import { PyOCDServerController } from './pyocd';
 import { BMPServerController } from './bmp';
+import { QEMUServerController } from './qemu';
+import { ExternalServerController } from './external';
 import { SymbolTable } from './backend/symbols';
-import { SymbolInformation, SymbolScope, SymbolType } from './symbols';
+import { SymbolInformation, SymbolScope, SymbolType, LineInformation } from './symbols';
+import { ExceptionFrame, BASIC_FRAME_SIZE, EXTENDED_FRAME_SIZE, decodeExceptionReturn, isExceptionReturn, parseExceptionFrame, exceptionNumber, exceptionName } from './faults';
 
 const SERVER_TYPE_MAP = {
     jlink: JLinkServerController,
     openocd: OpenOCDServerController,
     stutil: STUtilServerController,
     pyocd: PyOCDServerController,
-    bmp: BMPServerController
+    bmp: BMPServerController,
+    qemu: QEMUServerController,
+    external: ExternalServerController
 };
 
 class ExtendedVariable {
@@ -35,6 +46,11 @@ class ExtendedVariable {
     }
 }
 
+class StackedRegisters {
+    constructor(public frame: ExceptionFrame) {
+    }
+}
+
 const GLOBAL_HANDLE_ID = 0xFE;
 const STACK_HANDLES_START = 0x100;
 const STACK_HANDLES_FINISH = 0xFFFF;
@@ -42,6 +58,16 @@ const STATIC_HANDLES_START = 0x010000;
 const STATIC_HANDLES_FINISH = 0x01FFFF;
 const VAR_HANDLES_START = 0x020000;
 
+// DWT_CTRL.NUMCOMP (bits 31:28) holds the number of comparators available for watchpoints
+const DWT_CTRL_ADDRESS = 0xE0001000;
+
+// Thumb-2 instructions are 2 or 4 bytes long, so a range of count * 4 bytes always holds at least count instructions
+const MAX_INSTRUCTION_SIZE = 4;
+const MAX_BACKWARD_DISASSEMBLY = 0x1000;
+
+// GDB's name for the frame of an exception entry when it is able to unwind through it
+const SIGNAL_HANDLER_FRAME = '<signal handler called>';
+
 const COMMAND_MAP = (c) => c.startsWith('-') ? c.substring(1) : `interpreter-exec console "${c}"`;
 
 class CustomStoppedEvent extends Event implements DebugProtocol.Event {
@@ -70,13 +96,18 @@ class CustomContinuedEvent extends Event implements DebugProtocol.Event {
 
 export class GDBDebugSession extends DebugSession {
     private server: GDBServer;
+    // A second server instance for live watch, for GDB servers that only accept one client per port
+    private liveServer: GDBServer = null;
     private args: ConfigurationArguments;
     private ports: { [name: string]: number };
     private serverController: GDBServerController;
     private symbolTable: SymbolTable;
 
-    protected variableHandles = new Handles<string | VariableObject | ExtendedVariable>(VAR_HANDLES_START);
+    protected variableHandles = new Handles<string | VariableObject | ExtendedVariable | StackedRegisters>(VAR_HANDLES_START);
     protected variableHandlesReverse: { [id: string]: number } = {};
+    // Frames added to the stack trace at exception entries, which GDB does not know about
+    protected exceptionFrames: { [frameId: number]: ExceptionFrame } = {};
+    protected synthesizedFrames: { [frameId: number]: boolean } = {};
     protected quit: boolean;
     protected attached: boolean;
     protected trimCWD: string;
@@ -85,6 +116,8 @@ export class GDBDebugSession extends DebugSession {
     protected crashed: boolean;
     protected debugReady: boolean;
     protected miDebugger: MI2;
+    // A second GDB connected to the same server, used to read memory while the target is running
+    protected liveDebugger: MI2 = null;
     protected commandServer: net.Server;
     protected forceDisassembly: boolean = false;
     protected activeEditorPath: string = null;
@@ -94,7 +127,21 @@ export class GDBDebugSession extends DebugSession {
     private stoppedReason: string = '';
 
     protected breakpointMap: Map<string, Breakpoint[]> = new Map();
+    protected instructionBreakpoints: Breakpoint[] = [];
+    protected dataBreakpoints: Watchpoint[] = [];
+    protected customWatchpoints: Watchpoint[] = [];
+    private watchpointLimit: number = null;
     protected fileExistsCache: Map<string, boolean> = new Map();
+    private lineInformationErrorReported: boolean = false;
+
+    // Integers are shown in hexadecimal unless the variable or the client asks for another format
+    private hexFormat: boolean = false;
+    // Formats chosen for variables and watch expressions, by their expression
+    private variableFormats: { [expression: string]: NumberFormat } = {};
+    // Formats the GDB variable objects are set to, by variable object name
+    private variableObjectFormats: { [name: string]: NumberFormat } = {};
+    // Clients before VS Code 1.52 can not be told to fetch the variables again
+    private supportsInvalidatedEvent: boolean = false;
 
     private currentFile: string;
 
@@ -109,6 +156,7 @@ export class GDBDebugSession extends DebugSession {
         this.miDebugger.on('stopped', this.stopEvent.bind(this));
         this.miDebugger.on('msg', this.handleMsg.bind(this));
         this.miDebugger.on('breakpoint', this.handleBreakpoint.bind(this));
+        this.miDebugger.on('watchpoint', this.handleWatchpoint.bind(this));
         this.miDebugger.on('step-end', this.handleBreak.bind(this));
         this.miDebugger.on('step-out-end', this.handleBreak.bind(this));
         this.miDebugger.on('signal-stop', this.handlePause.bind(this));
@@ -127,6 +175,13 @@ export class GDBDebugSession extends DebugSession {
         response.body.supportsEvaluateForHovers = true;
         response.body.supportsSetVariable = true;
         response.body.supportsRestartRequest = true;
+        response.body.supportsDataBreakpoints = true;
+        response.body.supportsLogPoints = true;
+        response.body.supportsDisassembleRequest = true;
+        response.body.supportsInstructionBreakpoints = true;
+        response.body.supportsSteppingGranularity = true;
+        response.body.supportsValueFormattingOptions = true;
+        this.supportsInvalidatedEvent = !!args.supportsInvalidatedEvent;
         this.sendResponse(response);
     }
 
@@ -136,6 +191,10 @@ export class GDBDebugSession extends DebugSession {
         this.symbolTable = new SymbolTable(args.toolchainPath, args.executable);
         this.symbolTable.loadSymbols();
         this.breakpointMap = new Map();
+        this.instructionBreakpoints = [];
+        this.dataBreakpoints = [];
+        this.customWatchpoints = [];
+        this.watchpointLimit = null;
         this.fileExistsCache = new Map();
         this.processLaunchAttachRequest(response, false);
     }
@@ -146,6 +205,10 @@ export class GDBDebugSession extends DebugSession {
         this.symbolTable = new SymbolTable(args.toolchainPath, args.executable);
         this.symbolTable.loadSymbols();
         this.breakpointMap = new Map();
+        this.instructionBreakpoints = [];
+        this.dataBreakpoints = [];
+        this.customWatchpoints = [];
+        this.watchpointLimit = null;
         this.fileExistsCache = new Map();
         this.processLaunchAttachRequest(response, true);
     }
@@ -162,6 +225,7 @@ export class GDBDebugSession extends DebugSession {
         this.crashed = false;
         this.debugReady = false;
         this.stopped = false;
+        this.hexFormat = !!this.args.variableHexFormat;
         
         portastic.find({ min: 50000, max: 52000, retrieve: this.serverController.portsNeeded.length }, '0.0.0.0').then((ports) => {
             this.ports = {};
@@ -179,7 +243,7 @@ export class GDBDebugSession extends DebugSession {
                 gdbExePath = path.normalize(path.join(this.args.toolchainPath, gdbExePath));
             }
 
-            this.server = new GDBServer(executable, args, this.serverController.initMatch());
+            this.server = new GDBServer(executable, args, this.serverController.initMatch(), this.ports['gdbPort']);
             this.server.on('output', this.handleAdapterOutput.bind(this));
             this.server.on('quit', () => {
                 if (this.started) {
@@ -243,6 +307,7 @@ export class GDBDebugSession extends DebugSession {
                 this.miDebugger.connect(this.args.cwd, this.args.executable, commands).then(() => {
                     this.started = true;
                     this.serverController.debuggerLaunchCompleted();
+                    this.startLiveDebugger(gdbExePath);
                     this.sendResponse(response);
 
                     const launchComplete = () => {
@@ -251,12 +316,19 @@ export class GDBDebugSession extends DebugSession {
                             this.stoppedReason = 'start';
                             this.sendEvent(new StoppedEvent('start', this.currentThreadId, true));
                             this.sendEvent(new CustomStoppedEvent('start', this.currentThreadId));
+                            this.startCoreSessions();
                         }, 50);
                     };
 
                     if (this.args.runToMain) {
                         this.miDebugger.sendCommand('break-insert -t --function main').then(() => {
-                            this.miDebugger.once('generic-stopped', launchComplete);
+                            // Logpoints (and breakpoints set to continue after their commands) hit before main resume the target
+                            const stopped = (info: MINode) => {
+                                if (this.resumesAfterHit(info)) { return; }
+                                this.miDebugger.removeListener('generic-stopped', stopped);
+                                launchComplete();
+                            };
+                            this.miDebugger.on('generic-stopped', stopped);
                             this.miDebugger.sendCommand('exec-continue');
                         });
                     }
@@ -288,6 +360,22 @@ export class GDBDebugSession extends DebugSession {
         });
     }
 
+    // This session debugs the first core, the extension starts a session for each of the other cores once it has been set up
+    private startCoreSessions() {
+        if (!this.args.cores || this.args.cores.length < 2) { return; }
+
+        const cores = this.args.cores.slice(1).map((core, idx) => {
+            return {
+                name: core.name,
+                executable: core.executable,
+                svdFile: core.svdFile,
+                targetId: core.targetId,
+                gdbTarget: `localhost:${this.ports[coreGdbPortName(idx + 1)]}`
+            };
+        });
+        this.sendEvent(new CoreSessionsEvent(cores));
+    }
+
     protected customRequest(command: string, response: DebugProtocol.Response, args: any): void {
         if (this.serverController.customRequest(command, response, args)) {
             this.sendResponse(response);
@@ -305,10 +393,29 @@ export class GDBDebugSession extends DebugSession {
                 }
                 this.sendResponse(response);
                 break;
+            case 'set-hex-format':
+                this.hexFormat = args.hex;
+                this.refreshVariables();
+                response.body = { success: true };
+                this.sendResponse(response);
+                break;
+            case 'set-variable-format':
+                if (args.format === NumberFormat.Auto) { delete this.variableFormats[args.expression]; }
+                else { this.variableFormats[args.expression] = args.format; }
+                this.refreshVariables();
+                response.body = { success: true };
+                this.sendResponse(response);
+                break;
             case 'load-function-symbols':
                 response.body = { functionSymbols: this.symbolTable.getFunctionSymbols() };
                 this.sendResponse(response);
                 break;
+            case 'resolve-line-information':
+                this.getLineInformation(args.addresses || []).then((lines) => {
+                    response.body = { lines: lines };
+                    this.sendResponse(response);
+                });
+                break;
             case 'set-active-editor':
                 if (args.path !== this.activeEditorPath) {
                     this.activeEditorPath = args.path;
@@ -332,11 +439,39 @@ export class GDBDebugSession extends DebugSession {
             case 'read-registers':
                 this.readRegistersRequest(response);
                 break;
+            case 'write-register':
+                this.writeRegisterRequest(response, args['name'], args['value']);
+                break;
             case 'read-register-list':
                 this.readRegisterListRequest(response);
                 break;
-            case 'disassemble':
-                this.disassembleRequest(response, args);
+            case 'disassemble-function':
+                this.disassembleFunctionRequest(response, args);
+                break;
+            case 'evaluate-expression':
+                this.miDebugger.evalExpression(JSON.stringify(args['expression'])).then((node) => {
+                    response.body = { value: node.result('value') };
+                    this.sendResponse(response);
+                }, (error) => {
+                    response.body = { error: error };
+                    this.sendErrorResponse(response, 117, `Unable to evaluate expression: ${error.toString()}`);
+                });
+                break;
+            case 'set-watchpoint':
+                this.setWatchpointRequest(response, args['expression'], args['accessType']);
+                break;
+            case 'remove-watchpoint':
+                this.removeWatchpointRequest(response, args['number']);
+                break;
+            case 'resolve-variable':
+                this.resolveVariableRequest(response, args['expression']);
+                break;
+            case 'read-memory-live':
+                this.readMemoryLiveRequest(response, args['address'], args['length']);
+                break;
+            case 'list-watchpoints':
+                response.body = { watchpoints: this.customWatchpoints };
+                this.sendResponse(response);
                 break;
             case 'execute-command':
                 let cmd = args['command'] as string;
@@ -357,7 +492,7 @@ export class GDBDebugSession extends DebugSession {
         }
     }
 
-    protected async disassembleRequest(response: DebugProtocol.Response, args: any): Promise<void> {
+    protected async disassembleFunctionRequest(response: DebugProtocol.Response, args: any): Promise<void> {
         if (args.function) {
             try {
                 const funcInfo: SymbolInformation = await this.getDisassemblyForFunction(args.function, args.file);
@@ -463,6 +598,58 @@ export class GDBDebugSession extends DebugSession {
         return instructions;
     }
 
+    // Disassembles using mode 5 of -data-disassemble, which interleaves the source line information with the raw opcodes
+    private async getMixedDisassembly(startAddress: number, endAddress: number): Promise<DebugProtocol.DisassembledInstruction[]> {
+        const result = await this.miDebugger.sendCommand(`data-disassemble -s ${hexFormat(startAddress, 8)} -e ${hexFormat(endAddress, 8)} -- 5`);
+        return parseMixedDisassembly(result);
+    }
+
+    private async disassembleBackward(address: number, count: number): Promise<DebugProtocol.DisassembledInstruction[]> {
+        let start = Math.max(0, address - count * MAX_INSTRUCTION_SIZE);
+        // Starting at the beginning of the enclosing function keeps the 16/32-bit instruction boundaries aligned
+        const func = this.symbolTable.getFunctionAtAddress(start);
+        if (func && func.address < start && address - func.address <= MAX_BACKWARD_DISASSEMBLY) { start = func.address; }
+
+        let instructions: DebugProtocol.DisassembledInstruction[] = [];
+        try {
+            if (start < address) { instructions = await this.getMixedDisassembly(start, address); }
+        }
+        catch (e) {}
+        return fillBackward(instructions, address, count);
+    }
+
+    private async disassembleForward(address: number, count: number): Promise<DebugProtocol.DisassembledInstruction[]> {
+        let instructions: DebugProtocol.DisassembledInstruction[] = [];
+        try {
+            instructions = await this.getMixedDisassembly(address, address + count * MAX_INSTRUCTION_SIZE);
+        }
+        catch (e) {}
+        return fillForward(instructions, address, count);
+    }
+
+    protected async disassembleRequest(response: DebugProtocol.DisassembleResponse, args: DebugProtocol.DisassembleArguments): Promise<void> {
+        try {
+            const address = parseInt(args.memoryReference) + (args.offset || 0);
+            const instructionOffset = args.instructionOffset || 0;
+            const before = Math.max(0, -instructionOffset);
+            const after = Math.max(0, instructionOffset + args.instructionCount);
+
+            // Index 'before' of the combined list is the instruction at the reference address
+            const instructions: DebugProtocol.DisassembledInstruction[] = [];
+            if (before > 0) { instructions.push(...await this.disassembleBackward(address, before)); }
+            if (after > 0) { instructions.push(...await this.disassembleForward(address, after)); }
+
+            const first = before + instructionOffset;
+            response.body = {
+                instructions: instructions.slice(first, first + args.instructionCount)
+            };
+            this.sendResponse(response);
+        }
+        catch (e) {
+            this.sendErrorResponse(response, 1, `Unable to disassemble: ${e.toString()}`);
+        }
+    }
+
     protected readMemoryRequest(response: DebugProtocol.Response, startAddress: number, length: number) {
         const address = hexFormat(startAddress, 8);
         this.miDebugger.sendCommand(`data-read-memory-bytes ${address} ${length}`).then((node) => {
@@ -483,6 +670,90 @@ export class GDBDebugSession extends DebugSession {
         });
     }
 
+    private startLiveDebugger(gdbExePath: string) {
+        if (!this.args.liveWatch || !this.args.liveWatch.enabled) { return; }
+
+        const connectLiveDebugger = (initCommands: string[]) => {
+            const live = new MI2(gdbExePath, ['-q', '--interpreter=mi2', ...(this.args.debuggerArgs || [])]);
+            live.on('quit', () => { this.liveDebugger = null; });
+            live.on('launcherror', (err) => {
+                this.handleMsg('stderr', `Unable to start GDB for live watch: ${err.toString()}\n`);
+            });
+
+            live.connect(this.args.cwd, this.args.executable, initCommands).then(() => {
+                this.liveDebugger = live;
+            }, (error) => {
+                this.handleMsg('stderr', `Unable to connect GDB for live watch (does the GDB server accept more than one connection?): ${error.toString()}\n`);
+                live.stop();
+            });
+        };
+
+        if (!this.serverController.liveWatchServerArguments) {
+            connectLiveDebugger(this.serverController.initCommands());
+            return;
+        }
+
+        const executable = this.serverController.serverExecutable();
+        this.liveServer = new GDBServer(executable, this.serverController.liveWatchServerArguments(), this.serverController.initMatch());
+        this.liveServer.on('output', this.handleAdapterOutput.bind(this));
+        this.liveServer.on('launcherror', (err) => {
+            this.handleMsg('stderr', `Unable to start the ${this.serverController.name} GDB server for live watch: ${err.toString()}\n`);
+        });
+        this.liveServer.init().then(() => {
+            connectLiveDebugger(this.serverController.liveWatchInitCommands());
+        }, (error) => {
+            this.handleMsg('stderr', `Unable to start the ${this.serverController.name} GDB server for live watch: ${error.toString()}\n`);
+            this.liveServer = null;
+        });
+    }
+
+    // Live watch expressions are restricted to global and static variables, which have a fixed address in the symbol table
+    protected async resolveVariableRequest(response: DebugProtocol.Response, expression: string) {
+        const match = /^(?:'?([^':]+)'?::)?([A-Za-z_][A-Za-z0-9_]*)$/.exec((expression || '').trim());
+        const symbol = match ? this.symbolTable.getVariableByName(match[2], match[1]) : null;
+        if (!symbol) {
+            this.sendErrorResponse(response, 121, `${expression} is not a global or static variable`);
+            return;
+        }
+        if (!symbol.length) {
+            this.sendErrorResponse(response, 121, `The size of ${expression} is not known`);
+            return;
+        }
+
+        const signed = await this.isSignedVariable(expression.trim());
+        response.body = { name: symbol.name, file: symbol.file, address: symbol.address, length: symbol.length, signed: signed };
+        this.sendResponse(response);
+    }
+
+    // -1 converted to the type of a signed variable stays negative. This reads no target memory, so the live GDB can answer it
+    // while the target runs. Variables whose type can not be told are taken as unsigned.
+    private async isSignedVariable(expression: string): Promise<boolean> {
+        const debuggerForType = this.liveDebugger || (this.stopped ? this.miDebugger : null);
+        if (!debuggerForType) { return false; }
+
+        try {
+            const node = await debuggerForType.evalExpression(JSON.stringify(`(__typeof__(${expression}))-1 < 0`));
+            return node.result('value') === '1';
+        }
+        catch (e) {
+            return false;
+        }
+    }
+
+    protected readMemoryLiveRequest(response: DebugProtocol.Response, startAddress: number, length: number) {
+        if (!this.liveDebugger) {
+            this.sendErrorResponse(response, 120, 'Memory can not be read while the target is running (live watch is not enabled or not connected)');
+            return;
+        }
+
+        this.liveDebugger.examineMemory(startAddress, length).then((data: string) => {
+            response.body = { bytes: (data.match(/[0-9a-f]{2}/g) || []).map((b) => parseInt(b, 16)) };
+            this.sendResponse(response);
+        }, (error) => {
+            this.sendErrorResponse(response, 120, `Unable to read memory: ${error.toString()}`);
+        });
+    }
+
     protected writeMemoryRequest(response: DebugProtocol.Response, startAddress: number, data: string) {
         const address = hexFormat(startAddress, 8);
         this.miDebugger.sendCommand(`data-write-memory-bytes ${address} ${data}`).then((node) => {
@@ -494,6 +765,16 @@ export class GDBDebugSession extends DebugSession {
         });
     }
 
+    protected writeRegisterRequest(response: DebugProtocol.Response, name: string, value: string) {
+        this.miDebugger.sendCommand(`gdb-set var $${name}=${value}`).then((node) => {
+            this.sendResponse(response);
+        }, (error) => {
+            response.body = { error: error };
+            this.sendErrorResponse(response, 122, `Unable to write register ${name}: ${error.toString()}`);
+            this.sendEvent(new TelemetryEvent('Error', 'Writing Register', name));
+        });
+    }
+
     protected readRegistersRequest(response: DebugProtocol.Response) {
         this.miDebugger.sendCommand('data-list-register-values x').then((node) => {
             if (node.resultRecords.resultClass === 'done') {
@@ -551,6 +832,15 @@ export class GDBDebugSession extends DebugSession {
             this.commandServer = undefined;
         }
 
+        if (this.liveDebugger) {
+            this.liveDebugger.detach();
+            this.liveDebugger = null;
+        }
+        if (this.liveServer) {
+            this.liveServer.exit();
+            this.liveServer = null;
+        }
+
         try { this.server.exit(); }
         catch (e) {}
 
@@ -608,12 +898,103 @@ export class GDBDebugSession extends DebugSession {
     }
 
     protected handleBreakpoint(info: MINode) {
+        const breakpoint = this.findBreakpoint(parseInt(info.record('bkptno')));
+        const commands = this.findBreakpointCommands(breakpoint);
+        if ((breakpoint && breakpoint.logMessage) || commands) {
+            this.handleBreakpointActions(breakpoint, commands, parseInt(info.record('thread-id')) || this.currentThreadId);
+            return;
+        }
+
+        this.reportBreakpointStop();
+    }
+
+    private reportBreakpointStop() {
         this.stopped = true;
         this.stoppedReason = 'breakpoint';
         this.sendEvent(new StoppedEvent('breakpoint', this.currentThreadId, true));
         this.sendEvent(new CustomStoppedEvent('breakpoint', this.currentThreadId));
     }
 
+    private findBreakpoint(bkptno: number): Breakpoint {
+        for (const breakpoints of Array.from(this.breakpointMap.values())) {
+            const bp = breakpoints.find((b) => b.number === bkptno);
+            if (bp) { return bp; }
+        }
+        return null;
+    }
+
+    private findBreakpointCommands(breakpoint: Breakpoint): BreakpointCommands {
+        if (!breakpoint || !breakpoint.file) { return null; }
+
+        const file = breakpoint.file.replace(/\\/g, '/');
+        return (this.args.breakpointCommands || []).find((bc) => {
+            const separator = bc.location.lastIndexOf(':');
+            if (separator === -1 || parseInt(bc.location.substring(separator + 1)) !== breakpoint.line) { return false; }
+            const location = bc.location.substring(0, separator).replace(/\\/g, '/');
+            return file === location || file.endsWith('/' + location);
+        }) || null;
+    }
+
+    // Breakpoint hits that are handled in the adapter and resume the target without the client ever seeing the stop
+    private resumesAfterHit(info: MINode): boolean {
+        if (info.record('reason') !== 'breakpoint-hit') { return false; }
+        const breakpoint = this.findBreakpoint(parseInt(info.record('bkptno')));
+        const commands = this.findBreakpointCommands(breakpoint);
+        return !!((breakpoint && breakpoint.logMessage) || (commands && commands.continue));
+    }
+
+    /*
+     * Runs the GDB commands attached to a breakpoint through breakpointCommands in launch.json (using the same syntax as
+     * postLaunchCommands) and writes the message of a logpoint, in which {expression} segments are evaluated by GDB. A
+     * logpoint, or a breakpoint whose commands are set to continue, resumes the target without a stopped event ever
+     * reaching the client.
+     */
+    protected async handleBreakpointActions(breakpoint: Breakpoint, commands: BreakpointCommands, threadId: number) {
+        const location = breakpoint.file ? `${path.basename(breakpoint.file)}:${breakpoint.line}` : breakpoint.raw;
+        if (commands) {
+            try {
+                for (const command of commands.commands || []) {
+                    await this.miDebugger.sendCommand(COMMAND_MAP(command));
+                }
+            }
+            catch (e) {
+                this.handleMsg('stderr', `Breakpoint commands at ${location} failed: ${e}\n`);
+            }
+        }
+
+        if (breakpoint.logMessage) {
+            try {
+                this.handleMsg('console', (await formatLogMessage(breakpoint.logMessage, (e) => this.evaluateLogExpression(e))) + '\n');
+            }
+            catch (e) {
+                this.handleMsg('stderr', `Logpoint at ${location} failed: ${e}\n`);
+            }
+        }
+        else if (!commands.continue) {
+            this.reportBreakpointStop();
+            return;
+        }
+
+        try {
+            await this.miDebugger.continue(threadId);
+        }
+        catch (e) {
+            this.handleMsg('stderr', `Unable to resume after breakpoint at ${location}: ${e}\n`);
+        }
+    }
+
+    private async evaluateLogExpression(expression: string): Promise<string> {
+        const node = await this.miDebugger.evalExpression(JSON.stringify(expression));
+        return node.result('value');
+    }
+
+    protected handleWatchpoint(info: MINode) {
+        this.stopped = true;
+        this.stoppedReason = 'data breakpoint';
+        this.sendEvent(new StoppedEvent('data breakpoint', this.currentThreadId, true));
+        this.sendEvent(new CustomStoppedEvent('data breakpoint', this.currentThreadId));
+    }
+
     protected handleBreak(info: MINode) {
         this.stopped = true;
         this.stoppedReason = 'step';
@@ -746,6 +1127,7 @@ export class GDBDebugSession extends DebugSession {
                                 line: brk.line,
                                 condition: brk.condition,
                                 countCondition: brk.hitCondition,
+                                logMessage: brk.logMessage,
                                 raw: line.address
                             }));
                         }
@@ -757,7 +1139,8 @@ export class GDBDebugSession extends DebugSession {
                             file: args.source.path,
                             line: brk.line,
                             condition: brk.condition,
-                            countCondition: brk.hitCondition
+                            countCondition: brk.hitCondition,
+                            logMessage: brk.logMessage
                         }));
                     });
                 }
@@ -788,6 +1171,173 @@ export class GDBDebugSession extends DebugSession {
         else { this.miDebugger.once('debug-ready', cb); }
     }
 
+    protected async dataBreakpointInfoRequest(
+        response: DebugProtocol.DataBreakpointInfoResponse,
+        args: DebugProtocol.DataBreakpointInfoArguments
+    ): Promise<void> {
+        let expression = args.name;
+        try {
+            if (args.variablesReference >= VAR_HANDLES_START) {
+                const parent = this.variableHandles.get(args.variablesReference);
+                if (!(parent instanceof VariableObject)) {
+                    response.body = { dataId: null, description: `Data breakpoints are not supported on ${args.name}` };
+                    this.sendResponse(response);
+                    return;
+                }
+                expression = await this.miDebugger.varInfoPathExpression(`${parent.name}.${args.name}`);
+            }
+
+            // Only lvalues can be watched; taking the address checks that without reading the value
+            await this.miDebugger.evalExpression(JSON.stringify(`&(${expression})`));
+            response.body = {
+                dataId: expression,
+                description: expression,
+                accessTypes: ['read', 'write', 'readWrite'],
+                canPersist: args.variablesReference === undefined || args.variablesReference === GLOBAL_HANDLE_ID
+            };
+        }
+        catch (e) {
+            response.body = { dataId: null, description: `Unable to set a data breakpoint on ${args.name}: ${e.message || e}` };
+        }
+        this.sendResponse(response);
+    }
+
+    protected setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments) {
+        const cb = (async () => {
+            this.debugReady = true;
+            try {
+                await this.miDebugger.removeBreakpoints(this.dataBreakpoints.map((wp) => wp.number));
+                this.dataBreakpoints = [];
+
+                const breakpoints: DebugProtocol.Breakpoint[] = [];
+                for (const brk of args.breakpoints) {
+                    const limitError = await this.checkWatchpointLimit();
+                    if (limitError) {
+                        this.handleMsg('stderr', `Data breakpoint on ${brk.dataId} not set. ${limitError}\n`);
+                        breakpoints.push({ verified: false, message: limitError });
+                        continue;
+                    }
+
+                    try {
+                        const wp = await this.miDebugger.addWatchPoint({
+                            expression: brk.dataId,
+                            accessType: brk.accessType || 'write',
+                            condition: brk.condition,
+                            countCondition: brk.hitCondition
+                        });
+                        this.dataBreakpoints.push(wp);
+                        breakpoints.push({ id: wp.number, verified: true });
+                    }
+                    catch (e) {
+                        breakpoints.push({ verified: false, message: e.message || e.toString() });
+                    }
+                }
+
+                response.body = {
+                    breakpoints: breakpoints
+                };
+                this.sendResponse(response);
+            }
+            catch (msg) {
+                this.sendErrorResponse(response, 9, msg.toString());
+            }
+        }).bind(this);
+
+        if (this.debugReady) { cb(); }
+        else { this.miDebugger.once('debug-ready', cb); }
+    }
+
+    protected async setWatchpointRequest(response: DebugProtocol.Response, expression: string, accessType: DebugProtocol.DataBreakpointAccessType) {
+        try {
+            const limitError = await this.checkWatchpointLimit();
+            if (limitError) {
+                this.sendErrorResponse(response, 118, `Unable to set watchpoint on ${expression}. ${limitError}`);
+                return;
+            }
+
+            const wp = await this.miDebugger.addWatchPoint({ expression: expression, accessType: accessType || 'write', condition: null });
+            this.customWatchpoints.push(wp);
+            response.body = { number: wp.number };
+            this.sendResponse(response);
+        }
+        catch (e) {
+            this.sendErrorResponse(response, 118, `Unable to set watchpoint on ${expression}: ${e.message || e}`);
+        }
+    }
+
+    protected async removeWatchpointRequest(response: DebugProtocol.Response, wpnum: number) {
+        try {
+            await this.miDebugger.removeBreakpoints([wpnum]);
+            this.customWatchpoints = this.customWatchpoints.filter((wp) => wp.number !== wpnum);
+            this.sendResponse(response);
+        }
+        catch (e) {
+            this.sendErrorResponse(response, 119, `Unable to remove watchpoint: ${e.message || e}`);
+        }
+    }
+
+    private async getWatchpointLimit(): Promise<number> {
+        if (this.watchpointLimit === null) {
+            try {
+                const contents: string = await this.miDebugger.examineMemory(DWT_CTRL_ADDRESS, 4);
+                const numcomp = parseInt(contents.substr(6, 2), 16) >>> 4;
+                // Some cores or servers do not expose the DWT; in that case leave the limit to the GDB server
+                if (numcomp > 0) { this.watchpointLimit = numcomp; }
+            }
+            catch (e) {}
+        }
+        return this.watchpointLimit;
+    }
+
+    // Returns an error message if another watchpoint would exceed the number of hardware comparators
+    private async checkWatchpointLimit(): Promise<string> {
+        const limit = await this.getWatchpointLimit();
+        const used = this.dataBreakpoints.length + this.customWatchpoints.length;
+        if (limit !== null && used >= limit) {
+            return `The target only has ${limit} DWT comparator${limit === 1 ? '' : 's'} (DWT_CTRL.NUMCOMP) and all of them are in use. `
+                + 'Remove an existing data breakpoint or watchpoint first.';
+        }
+        return null;
+    }
+
+    protected setInstructionBreakpointsRequest(
+        response: DebugProtocol.SetInstructionBreakpointsResponse,
+        args: DebugProtocol.SetInstructionBreakpointsArguments
+    ) {
+        const cb = (async () => {
+            this.debugReady = true;
+            try {
+                await this.miDebugger.removeBreakpoints(this.instructionBreakpoints.map((bp) => bp.number));
+                this.instructionBreakpoints = [];
+
+                const all: Array<Promise<Breakpoint>> = args.breakpoints.map((brk) => {
+                    const address = parseInt(brk.instructionReference) + (brk.offset || 0);
+                    return this.miDebugger.addBreakPoint({
+                        raw: hexFormat(address, 8),
+                        condition: brk.condition,
+                        countCondition: brk.hitCondition
+                    });
+                });
+                const brkpoints = await Promise.all(all);
+
+                response.body = {
+                    breakpoints: brkpoints.map((bp) => {
+                        if (!bp) { return { verified: false }; }
+                        this.instructionBreakpoints.push(bp);
+                        return { id: bp.number, verified: true, instructionReference: bp.raw };
+                    })
+                };
+                this.sendResponse(response);
+            }
+            catch (msg) {
+                this.sendErrorResponse(response, 9, msg.toString());
+            }
+        }).bind(this);
+
+        if (this.debugReady) { cb(); }
+        else { this.miDebugger.once('debug-ready', cb); }
+    }
+
     protected async threadsRequest(response: DebugProtocol.ThreadsResponse): Promise<void> {
         if (!this.stopped) {
             response.body = { threads: [] };
@@ -836,12 +1386,14 @@ export class GDBDebugSession extends DebugSession {
     protected async stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments): Promise<void> {
         try {
             const stack = await this.miDebugger.getStack(args.threadId, args.startFrame, args.levels);
+            if (!args.startFrame) { this.clearExceptionFrames(args.threadId); }
+
             const ret: StackFrame[] = [];
             for (const element of stack) {
                 const stackId = (args.threadId << 8 | (element.level & 0xFF)) & 0xFFFF;
                 const file = element.file;
-                let disassemble = this.forceDisassembly || !file;
-                if (!disassemble) { disassemble = !(await this.checkFileExists(file)); }
+                const hasSource = !!file && await this.checkFileExists(file);
+                let disassemble = this.forceDisassembly || !hasSource;
                 if (!disassemble && this.activeEditorPath && this.activeEditorPath.startsWith('disassembly:///')) {
                     const symbolInfo = this.symbolTable.getFunctionByName(element.function, element.fileName);
                     let url: string;
@@ -889,6 +1441,14 @@ export class GDBDebugSession extends DebugSession {
                 catch (e) {
                     ret.push(new StackFrame(stackId, element.function + '@' + element.address, null, element.line, 0));
                 }
+                ret[ret.length - 1].instructionPointerReference = element.address;
+
+                if (element.function === SIGNAL_HANDLER_FRAME || isExceptionReturn(parseInt(element.address, 16))) {
+                    // GDB only keeps unwinding past the exception entry when it recognised it as one
+                    const stopped = element.function !== SIGNAL_HANDLER_FRAME;
+                    await this.addExceptionFrames(args.threadId, element, ret, stopped);
+                    if (stopped) { break; }
+                }
             }
 
             response.body = {
@@ -901,6 +1461,76 @@ export class GDBDebugSession extends DebugSession {
         }
     }
 
+    private clearExceptionFrames(threadId: number) {
+        const clear = (frames: { [frameId: number]: any }) => Object.keys(frames).map((id) => parseInt(id, 10))
+            .filter((id) => (id >>> 8) === threadId).forEach((id) => { delete frames[id]; });
+        clear(this.exceptionFrames);
+        clear(this.synthesizedFrames);
+    }
+
+    /*
+     * Replaces the frame GDB shows for an exception entry (either '<signal handler called>' or the raw EXC_RETURN value
+     * where it gave up) with an "exception" label frame, and decodes the registers the core stacked on entry. The frame is on
+     * PSP or MSP as selected by EXC_RETURN; the SP that GDB unwound for this level is the MSP value before the handler ran.
+     * When GDB could not unwind any further the interrupted context is continued from the stacked PC and LR.
+     */
+    private async addExceptionFrames(threadId: number, element: Stack, ret: StackFrame[], synthesize: boolean): Promise<void> {
+        const level = parseInt(element.level as any, 10);
+        const stackId = (threadId << 8 | (level & 0xFF)) & 0xFFFF;
+        const excReturn = decodeExceptionReturn(parseInt(element.address, 16));
+
+        let frame: ExceptionFrame = null;
+        let exception: string = 'exception';
+        if (excReturn) {
+            try {
+                const register = excReturn.stack === 'PSP' ? '$psp' : '$sp';
+                const node = await this.miDebugger.sendCommand(`data-evaluate-expression --thread ${threadId} --frame ${level} "(unsigned long)${register}"`);
+                const address = parseInt(node.result('value'), 10);
+                const data = await this.miDebugger.examineMemory(address, excReturn.extendedFrame ? EXTENDED_FRAME_SIZE : BASIC_FRAME_SIZE);
+                frame = parseExceptionFrame(address, new Buffer(data, 'hex'), excReturn.extendedFrame);
+            }
+            catch (e) {}
+        }
+
+        // The exception being handled is in the IPSR of the handler frame; GDB servers differ in how they name xPSR
+        for (const register of ['$xpsr', '$xPSR']) {
+            try {
+                const handlerLevel = level > 0 ? level - 1 : 0;
+                const node = await this.miDebugger.sendCommand(`data-evaluate-expression --thread ${threadId} --frame ${handlerLevel} "(unsigned long)${register}"`);
+                exception = `${exceptionName(exceptionNumber(parseInt(node.result('value'), 10)))} exception`;
+                break;
+            }
+            catch (e) {}
+        }
+
+        const label = new StackFrame(stackId, `[${exception}${frame && frame.extended ? ', FPU context' : ''}]`, null, 0, 0);
+        (label as DebugProtocol.StackFrame).presentationHint = 'label';
+        label.instructionPointerReference = element.address;
+        ret[ret.length - 1] = label;
+        if (frame) { this.exceptionFrames[stackId] = frame; }
+
+        if (!synthesize || !frame) { return; }
+
+        const interrupted = [{ address: frame.pc, subtle: false }];
+        // The stacked LR is only the caller when the interrupted function had not called anything else yet
+        if ((frame.lr & 0x1) && !isExceptionReturn(frame.lr)) { interrupted.push({ address: (frame.lr & ~0x1) >>> 0, subtle: true }); }
+
+        const lines = await this.getLineInformation(interrupted.map((f, idx) => idx === 0 ? f.address : f.address - 2));
+        for (let i = 0; i < interrupted.length; i++) {
+            const id = (threadId << 8 | ((level + 1 + i) & 0xFF)) & 0xFFFF;
+            const symbol = this.symbolTable.getFunctionAtAddress(interrupted[i].address);
+            const name = `${symbol ? symbol.name : '??'}@${hexFormat(interrupted[i].address)}`;
+            const line = lines[i];
+            const hasSource = !!line && !!line.file && await this.checkFileExists(line.file);
+
+            const sf = new StackFrame(id, name, hasSource ? new Source(path.basename(line.file), line.file) : null, hasSource ? line.line : 0, 0);
+            sf.instructionPointerReference = hexFormat(interrupted[i].address);
+            if (interrupted[i].subtle) { (sf as DebugProtocol.StackFrame).presentationHint = 'subtle'; }
+            ret.push(sf);
+            this.synthesizedFrames[id] = true;
+        }
+    }
+
     protected configurationDoneRequest(
         response: DebugProtocol.ConfigurationDoneResponse,
         args: DebugProtocol.ConfigurationDoneArguments
@@ -909,7 +1539,19 @@ export class GDBDebugSession extends DebugSession {
     }
 
     protected scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
+        const frameId = parseInt(args.frameId as any);
         const scopes = new Array<Scope>();
+        if (this.exceptionFrames[frameId] || this.synthesizedFrames[frameId]) {
+            // GDB has no frame to evaluate locals in, only the registers stacked on exception entry are known
+            if (this.exceptionFrames[frameId]) {
+                scopes.push(new Scope('Stacked Registers', this.variableHandles.create(new StackedRegisters(this.exceptionFrames[frameId])), false));
+            }
+            scopes.push(new Scope('Global', GLOBAL_HANDLE_ID, false));
+            response.body = { scopes: scopes };
+            this.sendResponse(response);
+            return;
+        }
+
         scopes.push(new Scope('Local', parseInt(args.frameId as any), false));
         scopes.push(new Scope('Global', GLOBAL_HANDLE_ID, false));
         scopes.push(new Scope('Static', STATIC_HANDLES_START + parseInt(args.frameId as any), false));
@@ -942,7 +1584,7 @@ export class GDBDebugSession extends DebugSession {
                 }
                 catch (err) {
                     if (err instanceof MIError && err.message === 'Variable object not found') {
-                        varObj = await this.miDebugger.varCreate(symbol.name, varObjName);
+                        varObj = await this.recreateVariableObject(symbol.name, varObjName);
                         const varId = this.findOrCreateVariable(varObj);
                         varObj.exp = symbol.name;
                         varObj.id = varId;
@@ -952,6 +1594,7 @@ export class GDBDebugSession extends DebugSession {
                     }
                 }
 
+                await this.setVariableObjectFormat(varObj, this.variableFormat(symbol.name, args.format));
                 globals.push(varObj.toProtocolVariable());
             }
 
@@ -993,7 +1636,7 @@ export class GDBDebugSession extends DebugSession {
                 }
                 catch (err) {
                     if (err instanceof MIError && err.message === 'Variable object not found') {
-                        varObj = await this.miDebugger.varCreate(symbol.name, varObjName);
+                        varObj = await this.recreateVariableObject(symbol.name, varObjName);
                         const varId = this.findOrCreateVariable(varObj);
                         varObj.exp = symbol.name;
                         varObj.id = varId;
@@ -1003,6 +1646,7 @@ export class GDBDebugSession extends DebugSession {
                     }
                 }
 
+                await this.setVariableObjectFormat(varObj, this.variableFormat(symbol.name, args.format));
                 statics.push(varObj.toProtocolVariable());
             }
 
@@ -1014,6 +1658,51 @@ export class GDBDebugSession extends DebugSession {
         }
     }
 
+    // Clients without the invalidated event show the new format once they fetch the variables at the next stop
+    private refreshVariables() {
+        if (this.stopped && this.supportsInvalidatedEvent) {
+            this.sendEvent(new InvalidatedEvent(['variables']));
+        }
+    }
+
+    private variableFormat(expression: string, valueFormat: DebugProtocol.ValueFormat): NumberFormat {
+        return resolveVariableFormat(this.variableFormats[expression], valueFormat, this.hexFormat);
+    }
+
+    private async setVariableObjectFormat(varObj: VariableObject, format: NumberFormat): Promise<void> {
+        if ((this.variableObjectFormats[varObj.name] || NumberFormat.Auto) !== format) {
+            const res = await this.miDebugger.varSetFormat(varObj.name, variableObjectFormat(format));
+            varObj.value = res.result('value');
+            this.variableObjectFormats[varObj.name] = format;
+        }
+        varObj.format = format;
+    }
+
+    // A re-created variable object (and its children) starts out in the natural format again
+    private async recreateVariableObject(expression: string, name: string): Promise<VariableObject> {
+        Object.keys(this.variableObjectFormats).forEach((n) => {
+            if (n === name || n.startsWith(name + '.')) { delete this.variableObjectFormats[n]; }
+        });
+        return this.miDebugger.varCreate(expression, name);
+    }
+
+    // -data-evaluate-expression has no format, other formats than the natural one are read through a temporary variable object
+    private async evaluateFormatted(expression: string, format: NumberFormat): Promise<string> {
+        const varObj = await this.miDebugger.varCreate(expression);
+        try {
+            if (varObj.isCompound()) {
+                const res = await this.miDebugger.evalExpression(expression);
+                return res.result('value');
+            }
+            await this.setVariableObjectFormat(varObj, format);
+            return varObj.displayValue();
+        }
+        finally {
+            delete this.variableObjectFormats[varObj.name];
+            await this.miDebugger.varDelete(varObj.name);
+        }
+    }
+
     private createVariable(arg, options?): number {
         if (options) {
             return this.variableHandles.create(new ExtendedVariable(arg, options));
@@ -1063,7 +1752,7 @@ export class GDBDebugSession extends DebugSession {
                     }
                     catch (err) {
                         if (err instanceof MIError && err.message === 'Variable object not found') {
-                            varObj = await this.miDebugger.varCreate(variable.name, varObjName);
+                            varObj = await this.recreateVariableObject(variable.name, varObjName);
                             const varId = this.findOrCreateVariable(varObj);
                             varObj.exp = variable.name;
                             varObj.id = varId;
@@ -1072,6 +1761,7 @@ export class GDBDebugSession extends DebugSession {
                             throw err;
                         }
                     }
+                    await this.setVariableObjectFormat(varObj, this.variableFormat(variable.name, args.format));
                     variables.push(varObj.toProtocolVariable());
                 }
                 catch (err) {
@@ -1127,8 +1817,28 @@ export class GDBDebugSession extends DebugSession {
         }
     }
 
+    private stackedRegisterVariables(frame: ExceptionFrame): DebugProtocol.Variable[] {
+        const registers: Array<[string, number]> = [
+            ['r0', frame.r0], ['r1', frame.r1], ['r2', frame.r2], ['r3', frame.r3], ['r12', frame.r12],
+            ['lr', frame.lr], ['pc', frame.pc], ['xpsr', frame.xpsr]
+        ];
+        const variables = registers.map(([name, value]) => ({ name: name, value: hexFormat(value), variablesReference: 0 }));
+
+        if (frame.s) {
+            const float = new Buffer(4);
+            frame.s.forEach((value, idx) => {
+                float.writeUInt32LE(value, 0);
+                variables.push({ name: `s${idx}`, value: `${float.readFloatLE(0)} (${hexFormat(value)})`, variablesReference: 0 });
+            });
+            variables.push({ name: 'fpscr', value: hexFormat(frame.fpscr), variablesReference: 0 });
+        }
+
+        variables.push({ name: 'sp', value: `${hexFormat(frame.callerSP)} (frame at ${hexFormat(frame.address)})`, variablesReference: 0 });
+        return variables;
+    }
+
     protected async variablesRequest(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments): Promise<void> {
-        let id: number | string | VariableObject | ExtendedVariable;
+        let id: number | string | VariableObject | ExtendedVariable | StackedRegisters;
         
         if (args.variablesReference === GLOBAL_HANDLE_ID) {
             return this.globalVariablesRequest(response, args);
@@ -1153,15 +1863,18 @@ export class GDBDebugSession extends DebugSession {
                 if (id instanceof VariableObject) {
                     const variables: DebugProtocol.Variable[] = [];
 
-                    // Variable members
+                    // Variable members, which are shown in the format of their parent
                     let children: VariableObject[];
                     try {
                         children = await this.miDebugger.varListChildren(id.name);
-                        const vars = children.map((child) => {
+                        const format = resolveVariableFormat(this.variableObjectFormats[id.name], args.format, this.hexFormat);
+                        const vars: DebugProtocol.Variable[] = [];
+                        for (const child of children) {
                             const varId = this.findOrCreateVariable(child);
                             child.id = varId;
-                            return child.toProtocolVariable();
-                        });
+                            await this.setVariableObjectFormat(child, format);
+                            vars.push(child.toProtocolVariable());
+                        }
 
                         response.body = {
                             variables: vars
@@ -1172,6 +1885,10 @@ export class GDBDebugSession extends DebugSession {
                         this.sendErrorResponse(response, 1, `Could not expand variable: ${err}`);
                     }
                 }
+                else if (id instanceof StackedRegisters) {
+                    response.body = { variables: this.stackedRegisterVariables(id.frame) };
+                    this.sendResponse(response);
+                }
                 else if (id instanceof ExtendedVariable) {
                     const variables: DebugProtocol.Variable[] = [];
 
@@ -1269,7 +1986,7 @@ export class GDBDebugSession extends DebugSession {
 
     protected async stepInRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): Promise<void> {
         try {
-            let assemblyMode = this.forceDisassembly;
+            let assemblyMode = this.forceDisassembly || args.granularity === 'instruction';
             if (!assemblyMode) {
                 const frame = await this.miDebugger.getFrame(args.threadId, 0);
                 assemblyMode = !(await this.checkFileExists(frame.file));
@@ -1305,7 +2022,7 @@ export class GDBDebugSession extends DebugSession {
 
     protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): Promise<void> {
         try {
-            let assemblyMode = this.forceDisassembly;
+            let assemblyMode = this.forceDisassembly || args.granularity === 'instruction';
             if (!assemblyMode) {
                 const frame = await this.miDebugger.getFrame(args.threadId, 0);
                 assemblyMode = !(await this.checkFileExists(frame.file));
@@ -1331,6 +2048,20 @@ export class GDBDebugSession extends DebugSession {
         }
     }
 
+    // A failing addr2line is reported once, the addresses are then answered without line information
+    protected async getLineInformation(addresses: number[]): Promise<LineInformation[]> {
+        try {
+            return await this.symbolTable.getLineInformation(addresses);
+        }
+        catch (e) {
+            if (!this.lineInformationErrorReported) {
+                this.lineInformationErrorReported = true;
+                this.handleMsg('stderr', `Unable to run addr2line to resolve source lines: ${e.message || e.toString()}\n`);
+            }
+            return addresses.map((a) => ({ address: a, file: null, line: 0 }));
+        }
+    }
+
     protected checkFileExists(name: string): Promise<boolean> {
         if (!name) { return Promise.resolve(false); }
 
@@ -1370,7 +2101,8 @@ export class GDBDebugSession extends DebugSession {
 
         if (args.context === 'watch') {
             try {
-                const exp = args.expression;
+                // A format specifier (count,x) applies to this watch only
+                const { expression: exp, format: specifier } = parseFormatSpecifier(args.expression);
                 const varObjName = `watch_${exp}`;
                 let varObj: VariableObject;
                 try {
@@ -1384,27 +2116,24 @@ export class GDBDebugSession extends DebugSession {
                     });
                     const varId = this.variableHandlesReverse[varObjName];
                     varObj = this.variableHandles.get(varId) as any;
-                    response.body = {
-                        result: varObj.value,
-                        variablesReference: varObj.id
-                    };
                 }
                 catch (err) {
                     if (err instanceof MIError && err.message === 'Variable object not found') {
-                        varObj = await this.miDebugger.varCreate(exp, varObjName);
+                        varObj = await this.recreateVariableObject(exp, varObjName);
                         const varId = findOrCreateVariable(varObj);
                         varObj.exp = exp;
                         varObj.id = varId;
-                        response.body = {
-                            result: varObj.value,
-                            variablesReference: varObj.id
-                        };
                     }
                     else {
                         throw err;
                     }
                 }
-                
+
+                await this.setVariableObjectFormat(varObj, specifier !== undefined ? specifier : this.variableFormat(exp, args.format));
+                response.body = {
+                    result: varObj.displayValue(),
+                    variablesReference: varObj.id
+                };
                 this.sendResponse(response);
             }
             catch (err) {
@@ -1417,10 +2146,19 @@ export class GDBDebugSession extends DebugSession {
         }
         else if (args.context === 'hover') {
             try {
-                const res = await this.miDebugger.evalExpression(args.expression);
+                const format = this.variableFormat(args.expression, args.format);
+                let result: string;
+                if (format === NumberFormat.Auto) {
+                    const res = await this.miDebugger.evalExpression(args.expression);
+                    result = res.result('value');
+                }
+                else {
+                    result = await this.evaluateFormatted(args.expression, format);
+                }
+
                 response.body = {
                     variablesReference: 0,
-                    result: res.result('value')
+                    result: result
                 };
                 this.sendResponse(response);
             }
@@ -1,5 +1,6 @@
 import { DebugProtocol } from 'vscode-debugprotocol';
 import { GDBServerController, ConfigurationArguments, calculatePortMask, SWOConfigureEvent } from './common';
+import { traceConfigurationWrites, memoryWriteCommands } from './trace_configuration';
 import * as os from 'os';
 import { EventEmitter } from 'events';
 
@@ -23,6 +24,9 @@ export class JLinkServerController extends EventEmitter implements GDBServerCont
 
     public setArguments(args: ConfigurationArguments): void {
         this.args = args;
+        if (args.liveWatch && args.liveWatch.enabled) {
+            this.portsNeeded = [...this.portsNeeded, 'liveGdbPort', 'liveSwoPort', 'liveConsolePort'];
+        }
     }
 
     public customRequest(command: string, response: DebugProtocol.Response, args: any): boolean {
@@ -86,18 +90,12 @@ export class JLinkServerController extends EventEmitter implements GDBServerCont
         const portMask = '0x' + calculatePortMask(this.args.swoConfig.decoders).toString(16);
         const swoFrequency = this.args.swoConfig.swoFrequency | 0;
         const cpuFrequency = this.args.swoConfig.cpuFrequency | 0;
-        
-        const commands: string[] = [
-            `monitor SWO EnableTarget ${cpuFrequency} ${swoFrequency} ${portMask} 0`,
-            'DisableITMPorts 0xFFFFFFFF',
-            `EnableITMPorts ${portMask}`,
-            'EnableDWTSync',
-            'ITMSyncEnable'
-        ];
 
-        commands.push(this.args.swoConfig.profile ? 'EnablePCSample' : 'DisablePCSample');
-        
-        return commands.map((c) => `interpreter-exec console "${c}"`);
+        const writes = traceConfigurationWrites(this.args.swoConfig, { configureTPIU: false });
+        return [
+            `interpreter-exec console "monitor SWO EnableTarget ${cpuFrequency} ${swoFrequency} ${portMask} 0"`,
+            ...memoryWriteCommands(writes)
+        ];
     }
 
     public serverExecutable() {
@@ -116,10 +114,24 @@ export class JLinkServerController extends EventEmitter implements GDBServerCont
     }
     
     public serverArguments(): string[] {
-        const gdbport = this.ports['gdbPort'];
-        const swoport = this.ports['swoPort'];
-        const consoleport = this.ports['consolePort'];
+        return this.serverInstanceArguments(this.ports['gdbPort'], this.ports['swoPort'], this.ports['consolePort']);
+    }
+
+    // The J-Link GDB server takes a single GDB client, live watch uses a second server instance that shares the probe
+    public liveWatchServerArguments(): string[] {
+        const cmdargs = this.serverInstanceArguments(this.ports['liveGdbPort'], this.ports['liveSwoPort'], this.ports['liveConsolePort']);
+        // Connect to the running target without halting it or touching its registers
+        cmdargs.push('-nohalt', '-noir');
+        return cmdargs;
+    }
+
+    public liveWatchInitCommands(): string[] {
+        return [
+            `target-select extended-remote localhost:${this.ports['liveGdbPort']}`
+        ];
+    }
 
+    private serverInstanceArguments(gdbport: number, swoport: number, consoleport: number): string[] {
         const cmdargs = [
             '-if', this.args.interface,
             '-port', gdbport.toString(),
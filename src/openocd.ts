@@ -1,5 +1,6 @@
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { GDBServerController, ConfigurationArguments, SWOConfigureEvent, calculatePortMask } from './common';
+import { GDBServerController, ConfigurationArguments, SWOConfigureEvent, coreGdbPortName } from './common';
+import { traceConfigurationWrites, memoryWriteCommands } from './trace_configuration';
 import * as os from 'os';
 import * as tmp from 'tmp';
 import * as fs from 'fs';
@@ -24,6 +25,9 @@ export class OpenOCDServerController extends EventEmitter implements GDBServerCo
 
     public setArguments(args: ConfigurationArguments): void {
         this.args = args;
+        if (args.cores) {
+            this.portsNeeded = args.cores.map((core, idx) => coreGdbPortName(idx));
+        }
     }
 
     public customRequest(command: string, response: DebugProtocol.Response, args: any): boolean {
@@ -82,27 +86,7 @@ export class OpenOCDServerController extends EventEmitter implements GDBServerCo
     }
 
     private SWOConfigurationCommands(): string[] {
-        const portMask = '0x' + calculatePortMask(this.args.swoConfig.decoders).toString(16);
-        const swoFrequency = this.args.swoConfig.swoFrequency;
-        const cpuFrequency = this.args.swoConfig.cpuFrequency;
-
-        const ratio = Math.floor(cpuFrequency / swoFrequency) - 1;
-        
-        const commands: string[] = [
-            'EnableITMAccess',
-            `BaseSWOSetup ${ratio}`,
-            'SetITMId 1',
-            'ITMDWTTransferEnable',
-            'DisableITMPorts 0xFFFFFFFF',
-            `EnableITMPorts ${portMask}`,
-            'EnableDWTSync',
-            'ITMSyncEnable',
-            'ITMGlobalEnable'
-        ];
-
-        commands.push(this.args.swoConfig.profile ? 'EnablePCSample' : 'DisablePCSample');
-        
-        return commands.map((c) => `interpreter-exec console "${c}"`);
+        return memoryWriteCommands(traceConfigurationWrites(this.args.swoConfig, { configureTPIU: true }));
     }
 
     public serverExecutable(): string {
@@ -131,8 +115,23 @@ export class OpenOCDServerController extends EventEmitter implements GDBServerCo
             serverargs.push('-f', tmpCfgPath);
         }
 
+        if (this.args.liveWatch && this.args.liveWatch.enabled) {
+            // Live watch reads memory through a second GDB connection, to each core's target on multi-core devices
+            const targets = this.args.cores ? this.args.cores.map((core) => core.targetId) : ['$_TARGETNAME'];
+            const tmpCfgPath = tmp.tmpNameSync();
+            fs.writeFileSync(tmpCfgPath, targets.map((target) => `${target} configure -gdb-max-connections 2\n`).join(''), 'utf8');
+            serverargs.push('-f', tmpCfgPath);
+        }
+
         const commands = [`gdb_port ${gdbport}`];
 
+        if (this.args.cores) {
+            // Give each core's target an explicit port rather than relying on the order the targets were created in
+            this.args.cores.forEach((core, idx) => {
+                commands.push(`${core.targetId} configure -gdb-port ${this.ports[coreGdbPortName(idx)]}`);
+            });
+        }
+
         if (this.args.swoConfig.enabled) {
             // tslint:disable-next-line:max-line-length
             commands.push(`tpiu config internal ${this.swoPath} uart off ${this.args.swoConfig.cpuFrequency} ${this.args.swoConfig.swoFrequency}`);
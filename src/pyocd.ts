@@ -1,5 +1,6 @@
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { ConfigurationArguments, GDBServerController, SWOConfigureEvent, calculatePortMask } from './common';
+import { ConfigurationArguments, GDBServerController, SWOConfigureEvent } from './common';
+import { traceConfigurationWrites, memoryWriteCommands } from './trace_configuration';
 import * as os from 'os';
 import { EventEmitter } from 'events';
 
@@ -80,27 +81,7 @@ export class PyOCDServerController extends EventEmitter implements GDBServerCont
     }
 
     private SWOConfigurationCommands(): string[] {
-        const portMask = '0x' + calculatePortMask(this.args.swoConfig.decoders).toString(16);
-        const swoFrequency = this.args.swoConfig.swoFrequency;
-        const cpuFrequency = this.args.swoConfig.cpuFrequency;
-
-        const ratio = Math.floor(cpuFrequency / swoFrequency) - 1;
-        
-        const commands: string[] = [
-            'EnableITMAccess',
-            `BaseSWOSetup ${ratio}`,
-            'SetITMId 1',
-            'ITMDWTTransferEnable',
-            'DisableITMPorts 0xFFFFFFFF',
-            `EnableITMPorts ${portMask}`,
-            'EnableDWTSync',
-            'ITMSyncEnable',
-            'ITMGlobalEnable'
-        ];
-
-        commands.push(this.args.swoConfig.profile ? 'EnablePCSample' : 'DisablePCSample');
-        
-        return commands.map((c) => `interpreter-exec console "${c}"`);
+        return memoryWriteCommands(traceConfigurationWrites(this.args.swoConfig, { configureTPIU: true }));
     }
 
     public serverExecutable(): string {
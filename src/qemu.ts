@@ -0,0 +1,94 @@
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { GDBServerController, ConfigurationArguments } from './common';
+import * as os from 'os';
+import { EventEmitter } from 'events';
+
+export class QEMUServerController extends EventEmitter implements GDBServerController {
+    public readonly name: string = 'QEMU';
+    public readonly portsNeeded: string[] = ['gdbPort'];
+
+    private args: ConfigurationArguments;
+    private ports: { [name: string]: number };
+
+    constructor() {
+        super();
+    }
+
+    public setPorts(ports: { [name: string]: number }): void {
+        this.ports = ports;
+    }
+
+    public setArguments(args: ConfigurationArguments): void {
+        this.args = args;
+    }
+
+    public customRequest(command: string, response: DebugProtocol.Response, args: any): boolean {
+        return false;
+    }
+
+    public initCommands(): string[] {
+        const gdbport = this.ports['gdbPort'];
+
+        return [
+            `target-select remote localhost:${gdbport}`
+        ];
+    }
+
+    public launchCommands(): string[] {
+        // QEMU has already loaded the executable (-kernel) and is held in reset (-S), so there is nothing to download
+        const commands = [
+            'enable-pretty-printing'
+        ];
+
+        return commands;
+    }
+
+    public attachCommands(): string[] {
+        const commands = [
+            'enable-pretty-printing'
+        ];
+
+        return commands;
+    }
+
+    public restartCommands(): string[] {
+        const commands: string[] = [
+            'interpreter-exec console "monitor system_reset"'
+        ];
+
+        return commands;
+    }
+
+    public serverExecutable(): string {
+        if (this.args.serverpath) { return this.args.serverpath; }
+        else { return os.platform() === 'win32' ? 'qemu-system-arm.exe' : 'qemu-system-arm'; }
+    }
+
+    public serverArguments(): string[] {
+        const gdbport = this.ports['gdbPort'];
+
+        const serverargs = ['-machine', this.args.machine];
+        if (this.args.cpu) {
+            serverargs.push('-cpu', this.args.cpu);
+        }
+
+        serverargs.push(
+            '-nographic',
+            '-kernel', this.args.executable,
+            '-gdb', `tcp::${gdbport}`,
+            '-S'
+        );
+
+        return serverargs;
+    }
+
+    public initMatch(): RegExp {
+        // QEMU does not print anything once the GDB port is open, the port is probed instead
+        return null;
+    }
+
+    public serverLaunchStarted(): void {}
+    public serverLaunchCompleted(): void {}
+    public debuggerLaunchStarted(): void {}
+    public debuggerLaunchCompleted(): void {}
+}
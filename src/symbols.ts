@@ -25,3 +25,9 @@ export interface SymbolInformation {
     instructions: DisassemblyInstruction[];
     hidden: boolean;
 }
+
+export interface LineInformation {
+    address: number;
+    file: string;
+    line: number;
+}
@@ -0,0 +1,196 @@
+import { SWOConfiguration, PCSampleRate, calculatePortMask } from './common';
+import { SWODWTComparatorConfig } from './frontend/swo/common';
+
+// Cortex-M (ARMv7-M and ARMv8-M mainline) debug and trace component registers
+export const DEMCR = 0xE000EDFC;
+export const ITM_TER = 0xE0000E00;
+export const ITM_TPR = 0xE0000E40;
+export const ITM_TCR = 0xE0000E80;
+export const ITM_LAR = 0xE0000FB0;
+export const DWT_CTRL = 0xE0001000;
+export const DWT_CYCCNT = 0xE0001004;
+export const DWT_COMP0 = 0xE0001020;
+export const DWT_MASK0 = 0xE0001024;
+export const DWT_FUNCTION0 = 0xE0001028;
+export const TPIU_ACPR = 0xE0040010;
+export const TPIU_SPPR = 0xE00400F0;
+export const TPIU_FFCR = 0xE0040304;
+
+const DEMCR_TRCENA = 0x1000000;
+const CORESIGHT_UNLOCK = 0xC5ACCE55;
+// Formatter bypassed (TrigIn set), which is required for the NRZ (UART) protocol
+const TPIU_FFCR_BYPASS = 0x100;
+const TPIU_SPPR_NRZ = 2;
+
+const ITM_TCR_ITMENA = 0x1;
+const ITM_TCR_TSENA = 0x2;
+const ITM_TCR_SYNCENA = 0x4;
+const ITM_TCR_TXENA = 0x8;
+const ITM_TRACE_BUS_ID = 1;
+
+const DWT_CTRL_CYCCNTENA = 0x1;
+const DWT_CTRL_PCSAMPLENA = 0x1000;
+const DWT_CTRL_EXCTRCENA = 0x10000;
+// CPIEVTENA, EXCEVTENA, SLEEPEVTENA, LSUEVTENA, FOLDEVTENA and CYCEVTENA, in the order of the event counter packet flags
+const DWT_CTRL_EVENT_COUNTERS = ['CPI', 'EXC', 'SLEEP', 'LSU', 'FOLD', 'CYC'];
+const DWT_CTRL_CPIEVTENA_SHIFT = 17;
+// The DWT_CTRL fields that are configured here, the comparator and CYCDISS bits are left alone
+const DWT_CTRL_TRACE_FIELDS = 0x7F1FFF;
+// The registers of comparator n are at DWT_COMP0, DWT_MASK0 and DWT_FUNCTION0 + n * DWT_COMPARATOR_STRIDE
+const DWT_COMPARATOR_STRIDE = 0x10;
+// DWT_FUNCTION values for data trace, without and with the PC of the access
+const DWT_DATA_TRACE_FUNCTIONS = {
+    read: [0xC, 0xE],
+    write: [0xD, 0xF],
+    readwrite: [0x2, 0x3]
+};
+
+const TIMESTAMP_PRESCALERS = [1, 4, 16, 64];
+// ITM_TCR.GTSFREQ - global timestamps approximately every 128 or 8192 cycles, or after every packet
+const GLOBAL_TIMESTAMP_FREQUENCIES = ['disabled', '128', '8192', 'all'];
+// DWT_CTRL.SYNCTAP - synchronisation packets when bit 24, 26 or 28 of DWT_CYCCNT toggles
+const SYNC_PACKET_RATES = ['disabled', '16M', '64M', '256M'];
+const DEFAULT_SYNC_PACKET_RATE = '64M';
+// DWT_CTRL.CYCTAP - the PC sample counter counts every 64 or 1024 cycles
+const CYCTAP_CYCLES = [64, 1024];
+
+export interface TraceRegisterWrite {
+    address: number;
+    value: number;
+    // Bits of the register that are written, the other bits keep their value. All bits are written when not set.
+    mask?: number;
+    // A GDB expression for the value, used instead of value when the value is only known to GDB (the address of a symbol)
+    expression?: string;
+}
+
+export interface TraceConfigurationOptions {
+    // J-Link configures the TPIU itself as part of "monitor SWO EnableTarget"
+    configureTPIU: boolean;
+}
+
+export function calculateTimestampPrescale(prescaler: number): number {
+    const index = TIMESTAMP_PRESCALERS.indexOf(prescaler);
+    return index !== -1 ? index : 0;
+}
+
+export function calculateSWOPrescaler(cpuFrequency: number, swoFrequency: number): number {
+    if (!(cpuFrequency > 0) || !(swoFrequency > 0)) { return 0; }
+    return Math.max(0, Math.floor(cpuFrequency / swoFrequency) - 1);
+}
+
+// Event counters are only enabled on request - each counter wrap is a packet, which for CPI and CYC can flood a slow SWO link
+export function eventCounterEnables(eventCounters: boolean | string[]): number {
+    let names: string[] = [];
+    if (eventCounters === true) { names = DWT_CTRL_EVENT_COUNTERS; }
+    else if (Array.isArray(eventCounters)) { names = eventCounters.map((n) => n.toUpperCase()); }
+
+    return DWT_CTRL_EVENT_COUNTERS.reduce((value, name, idx) => {
+        return names.indexOf(name) !== -1 ? value | (1 << (DWT_CTRL_CPIEVTENA_SHIFT + idx)) : value;
+    }, 0);
+}
+
+function optionIndex(options: Array<string | number>, value: string | number, defaultValue: string | number): number {
+    const index = options.indexOf(value);
+    return index !== -1 ? index : options.indexOf(defaultValue);
+}
+
+function dwtControl(config: SWOConfiguration): number {
+    const dwt = (config.decoders || []).filter((d) => d.type === 'dwt');
+    const rate: PCSampleRate = config.pcSampleRate || {};
+
+    let value = DWT_CTRL_CYCCNTENA;
+    value |= ((rate.postPreset !== undefined ? rate.postPreset : 15) & 0xF) << 1;
+    value |= ((rate.postInit !== undefined ? rate.postInit : 15) & 0xF) << 5;
+    value |= optionIndex(CYCTAP_CYCLES, rate.cycTap, 1024) << 9;
+    value |= optionIndex(SYNC_PACKET_RATES, config.syncPacketRate, DEFAULT_SYNC_PACKET_RATE) << 10;
+
+    if (config.profile) { value |= DWT_CTRL_PCSAMPLENA; }
+    if (dwt.some((d) => d.exceptions !== false)) { value |= DWT_CTRL_EXCTRCENA; }
+    dwt.forEach((d) => { value |= eventCounterEnables(d.eventCounters); });
+
+    return value >>> 0;
+}
+
+function itmControl(config: SWOConfiguration): number {
+    let value = ITM_TCR_ITMENA | ITM_TCR_TXENA | (ITM_TRACE_BUS_ID << 16);
+    if (config.timestamps) {
+        value |= ITM_TCR_TSENA | (calculateTimestampPrescale(config.timestampPrescaler) << 8);
+    }
+    if (optionIndex(SYNC_PACKET_RATES, config.syncPacketRate, DEFAULT_SYNC_PACKET_RATE) !== 0) {
+        value |= ITM_TCR_SYNCENA;
+    }
+    value |= optionIndex(GLOBAL_TIMESTAMP_FREQUENCIES, config.globalTimestamps, 'disabled') << 10;
+
+    return value >>> 0;
+}
+
+// The comparators are shared with the hardware watchpoints of the GDB server, only those given for data trace are written
+export function dwtComparatorWrites(comparators: SWODWTComparatorConfig[]): TraceRegisterWrite[] {
+    const writes: TraceRegisterWrite[] = [];
+    (comparators || []).forEach((c, index) => {
+        if (!c) { return; }
+
+        const address = typeof c.address === 'string' ? parseInt(c.address) : c.address;
+        if (!c.symbol && (typeof address !== 'number' || isNaN(address))) { return; }
+
+        const offset = index * DWT_COMPARATOR_STRIDE;
+        const functions = DWT_DATA_TRACE_FUNCTIONS[c.access] || DWT_DATA_TRACE_FUNCTIONS.write;
+        // The comparator is disabled while its address and size are changed
+        writes.push(
+            { address: DWT_FUNCTION0 + offset, value: 0 },
+            c.symbol ? { address: DWT_COMP0 + offset, value: 0, expression: `&(${c.symbol})` } : { address: DWT_COMP0 + offset, value: address },
+            { address: DWT_MASK0 + offset, value: Math.max([1, 2, 4].indexOf(c.size || 4), 0) },
+            { address: DWT_FUNCTION0 + offset, value: functions[c.pc ? 1 : 0] }
+        );
+    });
+    return writes;
+}
+
+/*
+ * The register writes that set up the ITM, DWT and TPIU for the SWO configuration of a launch configuration, in the
+ * order they have to be made. ITM_TCR is written last as it enables the ITM once everything else is in place.
+ */
+export function traceConfigurationWrites(config: SWOConfiguration, options: TraceConfigurationOptions): TraceRegisterWrite[] {
+    const writes: TraceRegisterWrite[] = [
+        { address: DEMCR, value: DEMCR_TRCENA, mask: DEMCR_TRCENA },
+        { address: ITM_LAR, value: CORESIGHT_UNLOCK }
+    ];
+
+    if (options.configureTPIU) {
+        writes.push(
+            { address: TPIU_FFCR, value: TPIU_FFCR_BYPASS },
+            { address: TPIU_SPPR, value: TPIU_SPPR_NRZ },
+            { address: TPIU_ACPR, value: calculateSWOPrescaler(config.cpuFrequency, config.swoFrequency) }
+        );
+    }
+
+    // The PC sample counter is loaded from POSTINIT when sampling starts, the cycle counter restarts from zero with it
+    if (config.profile) { writes.push({ address: DWT_CYCCNT, value: 0 }); }
+
+    (config.decoders || []).filter((d) => d.type === 'dwt').forEach((d) => writes.push(...dwtComparatorWrites(d.comparators)));
+
+    writes.push(
+        { address: DWT_CTRL, value: dwtControl(config), mask: DWT_CTRL_TRACE_FIELDS },
+        { address: ITM_TER, value: calculatePortMask(config.decoders) },
+        { address: ITM_TPR, value: (config.privilegeMask || 0) & 0xF },
+        { address: ITM_TCR, value: itmControl(config) }
+    );
+
+    return writes;
+}
+
+function hex(value: number): string {
+    return '0x' + (value >>> 0).toString(16);
+}
+
+// GDB commands that make the writes through the memory of the target
+export function memoryWriteCommands(writes: TraceRegisterWrite[]): string[] {
+    const commands = writes.map((w) => {
+        const register = `*(unsigned int *)${hex(w.address)}`;
+        if (w.expression !== undefined) { return `set ${register} = (unsigned int)(${w.expression})`; }
+        if (w.mask === undefined) { return `set ${register} = ${hex(w.value)}`; }
+        return `set ${register} = (${register} & ${hex(~w.mask)}) | ${hex(w.value & w.mask)}`;
+    });
+
+    return ['set language c', ...commands, 'set language auto'].map((c) => `interpreter-exec console "${c}"`);
+}
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as xml2js from 'xml2js';
+import { parsePackDescription, compareVersions, DeviceIndex, PackDevice } from '../src/frontend/cmsis_pack';
+
+const PDSC = `<?xml version="1.0" encoding="UTF-8"?>
+<package schemaVersion="1.4">
+	<vendor>Keil</vendor>
+	<name>STM32F4xx_DFP</name>
+	<releases>
+		<release version="2.14.0">Latest</release>
+		<release version="2.13.0">Previous</release>
+	</releases>
+	<devices>
+		<family Dfamily="STM32F4 Series" Dvendor="STMicroelectronics:13">
+			<processor Dcore="Cortex-M4" Dfpu="SP_FPU"/>
+			<memory id="IRAM1" start="0x20000000" size="0x20000" init="0" default="1"/>
+			<subFamily DsubFamily="STM32F407">
+				<debug svd="CMSIS/SVD/STM32F40x.svd"/>
+				<device Dname="STM32F407VG">
+					<memory id="IROM1" start="0x08000000" size="0x100000" startup="1" default="1"/>
+					<algorithm name="CMSIS/Flash/STM32F4xx_1024.FLM" start="0x08000000" size="0x100000" RAMstart="0x20000000" RAMsize="0x1000" default="1"/>
+					<variant Dvariant="STM32F407VGTx">
+						<memory name="Flash" access="rx" start="0x08000000" size="0x80000" startup="1" default="1"/>
+					</variant>
+				</device>
+			</subFamily>
+			<device Dname="STM32F401CC">
+				<debug svd="CMSIS/SVD/STM32F401x.svd"/>
+			</device>
+		</family>
+	</devices>
+</package>`;
+
+function parse(xml: string, packPath: string): PackDevice[] {
+	let devices: PackDevice[] = null;
+	xml2js.parseString(xml, (err, result) => {
+		assert.ifError(err);
+		devices = parsePackDescription(result, packPath);
+	});
+	return devices;
+}
+
+suite("CMSIS-Pack", () => {
+	const packPath = path.join('packs', 'Keil', 'STM32F4xx_DFP', '2.14.0');
+
+	test("Pack description devices", () => {
+		const devices = parse(PDSC, packPath);
+		assert.deepEqual(devices.map((d) => d.name), ['STM32F401CC', 'STM32F407VG', 'STM32F407VGTx']);
+
+		const device = devices[1];
+		assert.equal(device.vendor, 'STMicroelectronics');
+		assert.equal(device.family, 'STM32F4 Series');
+		assert.equal(device.pack, 'Keil.STM32F4xx_DFP');
+		assert.equal(device.version, '2.14.0');
+		assert.equal(device.core, 'Cortex-M4');
+		assert.equal(device.svdFile, path.join(packPath, 'CMSIS/SVD/STM32F40x.svd'));
+		assert.deepEqual(device.memories.map((m) => `${m.name} ${m.start.toString(16)} ${m.size.toString(16)} ${m.access}`),
+			['IRAM1 20000000 20000 rwx', 'IROM1 8000000 100000 rx']);
+		assert.equal(device.algorithms.length, 1);
+		assert.equal(device.algorithms[0].file, path.join(packPath, 'CMSIS/Flash/STM32F4xx_1024.FLM'));
+		assert.equal(device.algorithms[0].ramStart, 0x20000000);
+		assert.equal(device.algorithms[0].ramSize, 0x1000);
+		assert.ok(device.algorithms[0].default);
+
+		const variant = devices[2];
+		assert.equal(variant.svdFile, device.svdFile);
+		assert.deepEqual(variant.memories.map((m) => m.name), ['IRAM1', 'IROM1', 'Flash']);
+		assert.equal(devices[0].svdFile, path.join(packPath, 'CMSIS/SVD/STM32F401x.svd'));
+		assert.equal(devices[0].memories.length, 1);
+	});
+	test("Pack versions", () => {
+		assert.ok(compareVersions('2.14.0', '2.9.1') > 0);
+		assert.ok(compareVersions('1.0.0', '1.0.0-rc1') > 0);
+		assert.ok(compareVersions('1.0.0-rc1', '1.0.0-rc2') < 0);
+		assert.equal(compareVersions('1.2', '1.2.0'), 0);
+	});
+	test("Device index", () => {
+		const index = new DeviceIndex();
+		index.add(parse(PDSC, packPath));
+		index.add(parse(PDSC.replace('2.14.0', '2.9.0'), 'old'));
+
+		assert.equal(index.getDevices().length, 3);
+		assert.equal(index.find('stm32f407vg').version, '2.14.0');
+		assert.equal(index.find('STM32F401').name, 'STM32F401CC');
+		assert.equal(index.find('STM32F40'), null);
+		assert.equal(index.find('STM32F103C8'), null);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { parseMI } from '../src/backend/mi_parse';
+import { parseMixedDisassembly, fillBackward, fillForward } from '../src/backend/disassembly';
+
+suite("Disassembly", () => {
+	test("Mixed source and instructions", () => {
+		const result = parseMI('^done,asm_insns=[' +
+			'src_and_asm_line={line="12",file="main.c",fullname="/work/src/main.c",line_asm_insn=[' +
+				'{address="0x08000200",func-name="main",offset="0",opcodes="80 b5",inst="push\\t{r7, lr}"},' +
+				'{address="0x08000202",func-name="main",offset="2",opcodes="00 af",inst="add\\tr7, sp, #0"}]},' +
+			'src_and_asm_line={line="13",file="main.c",fullname="/work/src/main.c",line_asm_insn=[' +
+				'{address="0x08000204",func-name="main",offset="4",opcodes="ff f7 fe ff",inst="bl\\t0x8000204 <main+4>"}]},' +
+			'src_and_asm_line={line="0",file="",line_asm_insn=[' +
+				'{address="0x08000208",opcodes="00 bf",inst="nop"}]}]');
+		const instructions = parseMixedDisassembly(result);
+
+		assert.equal(instructions.length, 4);
+		assert.deepEqual(instructions.map((i) => i.address), ['0x08000200', '0x08000202', '0x08000204', '0x08000208']);
+		assert.equal(instructions[0].instruction, 'push\t{r7, lr}');
+		assert.equal(instructions[0].instructionBytes, '80 b5');
+		assert.equal(instructions[1].symbol, 'main+2');
+		assert.equal(instructions[1].line, 12);
+		assert.equal(instructions[1].location.path, '/work/src/main.c');
+		assert.equal(instructions[1].location.name, 'main.c');
+		assert.equal(instructions[2].line, 13);
+		// Instructions without a function or source line
+		assert.equal(instructions[3].symbol, undefined);
+		assert.equal(instructions[3].location, undefined);
+		assert.equal(instructions[3].line, undefined);
+	});
+	test("Instructions without line information", () => {
+		const result = parseMI('^done,asm_insns=[' +
+			'{address="0x00000100",func-name="Reset_Handler",offset="0",opcodes="0a 48",inst="ldr\\tr0, [pc, #40]"},' +
+			'{address="0x00000102",func-name="Reset_Handler",offset="2",opcodes="85 46",inst="mov\\tsp, r0"}]');
+		const instructions = parseMixedDisassembly(result);
+
+		assert.deepEqual(instructions.map((i) => i.symbol), ['Reset_Handler+0', 'Reset_Handler+2']);
+		assert.equal(instructions[1].instruction, 'mov\tsp, r0');
+		assert.equal(instructions[1].location, undefined);
+	});
+	test("Empty result", () => {
+		assert.deepEqual(parseMixedDisassembly(parseMI('^done,asm_insns=[]')), []);
+		assert.deepEqual(parseMixedDisassembly(parseMI('^done')), []);
+	});
+	test("Backward", () => {
+		const instructions = [
+			{ address: '0x08000200', instruction: 'a' },
+			{ address: '0x08000202', instruction: 'b' },
+			{ address: '0x08000204', instruction: 'c' }
+		];
+
+		assert.deepEqual(fillBackward(instructions, 0x08000206, 2).map((i) => i.instruction), ['b', 'c']);
+		assert.deepEqual(fillBackward(instructions, 0x08000206, 5), [
+			{ address: '0x080001fc', instruction: '<unavailable>' },
+			{ address: '0x080001fe', instruction: '<unavailable>' },
+			...instructions
+		]);
+		// Nothing disassembled, the placeholders end just before the reference address
+		assert.deepEqual(fillBackward([], 0x08000300, 2).map((i) => i.address), ['0x080002fc', '0x080002fe']);
+	});
+	test("Forward", () => {
+		const instructions = [
+			{ address: '0x08000200', instruction: 'a' },
+			{ address: '0x08000202', instruction: 'b' }
+		];
+
+		assert.deepEqual(fillForward(instructions, 0x08000200, 1).map((i) => i.instruction), ['a']);
+		assert.deepEqual(fillForward(instructions, 0x08000200, 4), [
+			...instructions,
+			{ address: '0x08000204', instruction: '<unavailable>' },
+			{ address: '0x08000206', instruction: '<unavailable>' }
+		]);
+		assert.deepEqual(fillForward([], 0x08000300, 2).map((i) => i.address), ['0x08000300', '0x08000302']);
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { Packet, PacketType } from '../src/frontend/swo/common';
+import {
+	parseExceptionTrace, parseDataTrace, parseEventCounterWraps, ExceptionTraceFunction, DataTraceType
+} from '../src/frontend/swo/decoders/dwt_packets';
+
+function packet(port: number, bytes: number[]): Packet {
+	return { type: PacketType.HARDWARE, port: port, size: bytes.length, data: new Buffer(bytes), timestamp: 0 };
+}
+
+suite("DWT packets", () => {
+	test("Exception trace", () => {
+		assert.deepEqual(parseExceptionTrace(packet(1, [0x10, 0x10])), { exception: 16, function: ExceptionTraceFunction.Entered });
+		assert.deepEqual(parseExceptionTrace(packet(1, [0x03, 0x20])), { exception: 3, function: ExceptionTraceFunction.Exited });
+		// Bit 8 of the exception number is in the second byte
+		assert.deepEqual(parseExceptionTrace(packet(1, [0x00, 0x31])), { exception: 256, function: ExceptionTraceFunction.Returned });
+		assert.equal(parseExceptionTrace(packet(1, [0x10, 0x00])), null);
+	});
+	test("Data trace", () => {
+		assert.deepEqual(parseDataTrace(packet(8, [0x34, 0x12, 0x00, 0x08])), { comparator: 0, type: DataTraceType.ProgramCounter, value: 0x08001234 });
+		assert.deepEqual(parseDataTrace(packet(11, [0x04, 0x01])), { comparator: 1, type: DataTraceType.AddressOffset, value: 0x104 });
+		assert.deepEqual(parseDataTrace(packet(21, [0xFF])), { comparator: 2, type: DataTraceType.WriteValue, value: 0xFF });
+		assert.deepEqual(parseDataTrace(packet(22, [0x78, 0x56, 0x34, 0x12])), { comparator: 3, type: DataTraceType.ReadValue, value: 0x12345678 });
+	});
+	test("Event counter wraps", () => {
+		assert.deepEqual(parseEventCounterWraps(packet(0, [0x21])), ['CPI', 'CYC']);
+		assert.deepEqual(parseEventCounterWraps(packet(0, [0x06])), ['EXC', 'SLEEP']);
+		assert.deepEqual(parseEventCounterWraps(packet(0, [0x00])), []);
+	});
+});
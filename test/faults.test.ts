@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import {
+	decodeFaultStatus, decodeExceptionReturn, parseExceptionFrame, parseFaultRegisters, isPlausibleExceptionFrame, exceptionName, exceptionNumber
+} from '../src/faults';
+
+function frameData(words: number[]): Buffer {
+	const data = new Buffer(words.length * 4);
+	words.forEach((w, i) => data.writeUInt32LE(w >>> 0, i * 4));
+	return data;
+}
+
+suite("Faults", () => {
+	test("Fault status bits", () => {
+		const bits = decodeFaultStatus({ cfsr: 0x00008200, hfsr: 0x40000000, dfsr: 0, mmfar: 0, bfar: 0x20010000, afsr: 0 });
+		assert.deepEqual(bits.map((b) => `${b.register}.${b.name}`), ['HFSR.FORCED', 'BFSR.PRECISERR', 'BFSR.BFARVALID']);
+		assert.equal(decodeFaultStatus({ cfsr: 0x02000000, hfsr: 0x80000000, dfsr: 0, mmfar: 0, bfar: 0, afsr: 0 }).map((b) => b.name).join(','),
+			'DEBUGEVT,DIVBYZERO');
+		assert.equal(decodeFaultStatus({ cfsr: 0, hfsr: 0, dfsr: 0, mmfar: 0, bfar: 0, afsr: 0 }).length, 0);
+	});
+	test("Fault registers", () => {
+		const regs = parseFaultRegisters(frameData([0x00010000, 0x40000000, 0, 0xE000EDF8, 0x20010000, 0]));
+		assert.equal(regs.cfsr, 0x00010000);
+		assert.equal(regs.hfsr, 0x40000000);
+		assert.equal(regs.mmfar, 0xE000EDF8);
+		assert.equal(regs.bfar, 0x20010000);
+	});
+	test("EXC_RETURN decoding", () => {
+		assert.deepEqual(decodeExceptionReturn(0xFFFFFFF9), { stack: 'MSP', threadMode: true, extendedFrame: false });
+		assert.deepEqual(decodeExceptionReturn(0xFFFFFFFD), { stack: 'PSP', threadMode: true, extendedFrame: false });
+		assert.deepEqual(decodeExceptionReturn(0xFFFFFFE1), { stack: 'MSP', threadMode: false, extendedFrame: true });
+		assert.deepEqual(decodeExceptionReturn(0xFFFFFFED), { stack: 'PSP', threadMode: true, extendedFrame: true });
+		assert.equal(decodeExceptionReturn(0x08000123), null);
+	});
+	test("Exception frames", () => {
+		const words = [1, 2, 3, 4, 12, 0x08000201, 0x08000310, 0x01000003];
+		const frame = parseExceptionFrame(0x20001000, frameData(words), false);
+		assert.equal(frame.r0, 1);
+		assert.equal(frame.r12, 12);
+		assert.equal(frame.lr, 0x08000201);
+		assert.equal(frame.pc, 0x08000310);
+		assert.equal(frame.callerSP, 0x20001020);
+		assert.ok(isPlausibleExceptionFrame(frame));
+		assert.equal(exceptionName(exceptionNumber(frame.xpsr)), 'HardFault');
+
+		assert.equal(frame.s, null);
+
+		words[7] = 0x01000200;
+		const fpu = new Array(18).fill(0);
+		fpu[0] = 0x3F800000;
+		fpu[16] = 0x03000000;
+		const aligned = parseExceptionFrame(0x20001000, frameData(words.concat(fpu)), true);
+		assert.equal(aligned.size, 0x68);
+		assert.equal(aligned.callerSP, 0x2000106C);
+		assert.equal(aligned.s.length, 16);
+		assert.equal(aligned.s[0], 0x3F800000);
+		assert.equal(aligned.fpscr, 0x03000000);
+
+		words[7] = 0x00000003;
+		assert.ok(!isPlausibleExceptionFrame(parseExceptionFrame(0x20001000, frameData(words), false)));
+		assert.equal(parseExceptionFrame(0x20001000, new Buffer(16), false), null);
+	});
+	test("Exception names", () => {
+		assert.equal(exceptionName(5), 'BusFault');
+		assert.equal(exceptionName(16), 'IRQ 0');
+		assert.equal(exceptionName(8), 'Exception 8');
+		assert.equal(exceptionName(0), 'Thread');
+	});
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { HaltHistory } from '../src/frontend/halt_history';
+
+suite("Halt history", () => {
+	test("Nothing marked before the first halt", () => {
+		const history = new HaltHistory<number>();
+		assert.equal(history.getPrevious(), null);
+		assert.equal(history.hasChanged(0x12), false);
+	});
+	test("Changes since the previous halt", () => {
+		const history = new HaltHistory<number>();
+
+		history.markHalt(0x12, true);
+		assert.equal(history.hasChanged(0x12), false);
+		assert.equal(history.hasChanged(0x13), true);
+		assert.equal(history.getPrevious(), 0x12);
+
+		// A value that changed and then changed back is not marked
+		history.markHalt(0x13, true);
+		assert.equal(history.hasChanged(0x13), false);
+		assert.equal(history.hasChanged(0x12), true);
+	});
+	test("Zero is a known value", () => {
+		const history = new HaltHistory<number>();
+		history.markHalt(0, true);
+		assert.equal(history.hasChanged(1), true);
+	});
+	test("Values that were not known at the previous halt", () => {
+		const history = new HaltHistory<number>();
+
+		history.markHalt(0x12, true);
+		// For example a read sensitive register that has not been read since
+		history.markHalt(0x12, false);
+		assert.equal(history.getPrevious(), null);
+		assert.equal(history.hasChanged(0x34), false);
+
+		history.markHalt(0x34, true);
+		assert.equal(history.hasChanged(0x35), true);
+	});
+	test("Comparing snapshots", () => {
+		const history = new HaltHistory<{ value: number, rawValue: string }>((a, b) => a.value === b.value && a.rawValue === b.rawValue);
+
+		history.markHalt({ value: 0, rawValue: '{u64 = 0x1}' }, true);
+		assert.equal(history.hasChanged({ value: 0, rawValue: '{u64 = 0x1}' }), false);
+		assert.equal(history.hasChanged({ value: 0, rawValue: '{u64 = 0x2}' }), true);
+		assert.equal(history.hasChanged({ value: 0, rawValue: null }), true);
+	});
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { ITMDecoder } from '../src/frontend/swo/itm_decoder';
+import { Packet, TimestampType } from '../src/frontend/swo/common';
+
+// 1 MHz core clock, so that one target cycle is 1 µs
+const CPU_FREQUENCY = 1000000;
+
+function decoder(prescaler: number = 1): { itm: ITMDecoder, packets: Packet[], events: any[] } {
+	const itm = new ITMDecoder({ enabled: true, cpuFrequency: CPU_FREQUENCY, prescaler: prescaler });
+	const packets: Packet[] = [];
+	const events: any[] = [];
+	itm.on('software-event', (p) => packets.push(p));
+	itm.on('timestamp', (t) => events.push({ event: 'timestamp', ...t }));
+	itm.on('global-timestamp', (t) => events.push({ event: 'global-timestamp', ...t }));
+	itm.on('overflow', () => events.push({ event: 'overflow' }));
+	itm.on('synchronized', () => events.push({ event: 'synchronized' }));
+	return { itm, packets, events };
+}
+
+function feed(itm: ITMDecoder, bytes: number[]) {
+	bytes.forEach((b) => itm.processByte(b));
+}
+
+// Times are milliseconds since the epoch, which are only precise to a fraction of a microsecond
+function assertTime(actual: number, expected: number) {
+	assert.ok(Math.abs(actual - expected) < 1e-3, `${actual} is not ${expected}`);
+}
+
+suite("ITM decoder", () => {
+	test("Local timestamp format 2", () => {
+		const { itm, packets, events } = decoder();
+
+		// Software packet on port 0 - held back until the following timestamp
+		feed(itm, [0x01, 0x41]);
+		assert.equal(packets.length, 0);
+
+		feed(itm, [0x30]);
+		assert.deepEqual(events, [{ event: 'timestamp', type: TimestampType.CURRENT, timestamp: 3 }]);
+		assert.equal(packets.length, 1);
+		assert.equal(packets[0].data[0], 0x41);
+		assert.ok(packets[0].timestamp !== null);
+	});
+	test("Local timestamp format 1", () => {
+		const { itm, packets, events } = decoder(4);
+
+		feed(itm, [0x01, 0x41, 0x10]);
+		feed(itm, [0x01, 0x42, 0xD0, 0x81, 0x01]);
+
+		assert.deepEqual(events, [
+			{ event: 'timestamp', type: TimestampType.CURRENT, timestamp: 1 },
+			{ event: 'timestamp', type: TimestampType.DELAYED, timestamp: 129 }
+		]);
+		// 129 timestamp ticks of 4 cycles each
+		assertTime(packets[1].timestamp - packets[0].timestamp, 0.516);
+	});
+	test("Global timestamps", () => {
+		const { itm, events } = decoder();
+
+		// GTS1 with all four payload bytes, then a short GTS1 that only carries the low order bits that changed
+		feed(itm, [0x94, 0x85, 0x82, 0x80, 0x00]);
+		feed(itm, [0x94, 0x07]);
+		// GTS2 with the high order bits
+		feed(itm, [0xB4, 0x02]);
+
+		assert.deepEqual(events, [
+			{ event: 'global-timestamp', wrap: false, clockChange: false, timestamp: 261 },
+			{ event: 'global-timestamp', wrap: false, clockChange: false, timestamp: 263 },
+			{ event: 'global-timestamp', wrap: false, clockChange: false, timestamp: 2 }
+		]);
+	});
+	test("Global timestamp wrap waits for GTS2", () => {
+		const { itm, events } = decoder();
+
+		feed(itm, [0x94, 0x80, 0x80, 0x80, 0x40]);
+		assert.equal(events.length, 0);
+
+		feed(itm, [0xB4, 0x01]);
+		assert.deepEqual(events, [{ event: 'global-timestamp', wrap: false, clockChange: false, timestamp: 1 }]);
+	});
+	test("Global timestamps re-base the target time and overflow flushes", () => {
+		const { itm, packets, events } = decoder();
+
+		feed(itm, [0x01, 0x41, 0x10]);
+		// GTS1 1000 and GTS2 0 - taken as the offset between global and local time
+		feed(itm, [0x94, 0xE8, 0x07, 0xB4, 0x00]);
+		// A packet whose local timestamp is lost, GTS1 5000 moves the target time on by 4000 cycles
+		feed(itm, [0x01, 0x42, 0x94, 0x88, 0x27]);
+		assert.equal(packets.length, 1);
+
+		feed(itm, [0x70]);
+		assert.equal(events[events.length - 1].event, 'overflow');
+		assert.equal(packets.length, 2);
+		assertTime(packets[1].timestamp - packets[0].timestamp, 4);
+	});
+	test("Synchronisation flushes held back packets", () => {
+		const { itm, packets, events } = decoder();
+
+		feed(itm, [0x01, 0x41]);
+		feed(itm, [0x00, 0x00, 0x00, 0x00, 0x00, 0x80]);
+
+		assert.deepEqual(events, [{ event: 'synchronized' }]);
+		assert.equal(packets.length, 1);
+	});
+	test("Host time without timestamps", () => {
+		const itm = new ITMDecoder();
+		const packets: Packet[] = [];
+		itm.on('software-event', (p) => packets.push(p));
+
+		feed(itm, [0x0B, 0x01, 0x02, 0x03, 0x04]);
+		assert.equal(packets.length, 1);
+		assert.equal(packets[0].port, 1);
+		assert.equal(packets[0].size, 4);
+	});
+});
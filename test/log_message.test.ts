@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import { formatLogMessage } from '../src/backend/log_message';
+
+const VALUES = { count: '42', 'buf[count - 1]': '0x7f' };
+
+function evaluate(expression: string): Promise<string> {
+	if (expression in VALUES) {
+		return Promise.resolve(VALUES[expression]);
+	}
+	return Promise.reject(new Error(`No symbol "${expression}" in current context.`));
+}
+
+suite("Log message", () => {
+	test("Plain text", async () => {
+		assert.equal(await formatLogMessage('Reached the loop', evaluate), 'Reached the loop');
+		assert.equal(await formatLogMessage('', evaluate), '');
+	});
+	test("Expressions", async () => {
+		assert.equal(await formatLogMessage('count = {count}', evaluate), 'count = 42');
+		assert.equal(await formatLogMessage('{count}/{buf[count - 1]} done', evaluate), '42/0x7f done');
+	});
+	test("Failed expressions", async () => {
+		assert.equal(await formatLogMessage('x = {x}, count = {count}', evaluate), 'x = <No symbol "x" in current context.>, count = 42');
+		assert.equal(await formatLogMessage('{x}', () => Promise.reject('target not stopped')), '<target not stopped>');
+	});
+	test("Unmatched braces", async () => {
+		assert.equal(await formatLogMessage('{} and {count', evaluate), '{} and {count');
+	});
+	test("Repeated use", async () => {
+		// Each call starts matching from the beginning of its message
+		assert.equal(await formatLogMessage('{count}', evaluate), '42');
+		assert.equal(await formatLogMessage('{count}', evaluate), '42');
+	});
+});
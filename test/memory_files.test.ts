@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { encodeIntelHex, decodeIntelHex, encodeSRecord, decodeSRecord, memoryFileFormat, mergeMemoryBlocks, MemoryFileFormat } from '../src/frontend/memory_files';
+
+suite("Memory Files", () => {
+	test("File format from extension", () => {
+		assert.equal(memoryFileFormat('dump.hex'), MemoryFileFormat.IntelHex);
+		assert.equal(memoryFileFormat('dump.S19'), MemoryFileFormat.SRecord);
+		assert.equal(memoryFileFormat('dump.bin'), MemoryFileFormat.Binary);
+		assert.equal(memoryFileFormat('dump'), MemoryFileFormat.Binary);
+	});
+	test("Intel HEX encoding", () => {
+		const hex = encodeIntelHex(0x08000000, new Buffer([0x00, 0x10, 0x00, 0x20]));
+		assert.equal(hex, ":020000040800F2\n:0400000000100020CC\n:00000001FF\n");
+	});
+	test("Intel HEX records do not cross 64KB boundaries", () => {
+		const data = new Buffer(8).fill(0xAA);
+		const blocks = decodeIntelHex(encodeIntelHex(0x2000FFFC, data));
+		assert.equal(blocks.length, 1);
+		assert.equal(blocks[0].address, 0x2000FFFC);
+		assert.deepEqual(blocks[0].data, data);
+		assert.equal(encodeIntelHex(0x2000FFFC, data).split('\n').filter((l) => l.substr(7, 2) === '04').length, 2);
+	});
+	test("Intel HEX decoding", () => {
+		const blocks = decodeIntelHex(":020000021000EC\r\n:0300300002337A1E\r\n:00000001FF\r\n");
+		assert.equal(blocks.length, 1);
+		assert.equal(blocks[0].address, 0x10030);
+		assert.deepEqual(blocks[0].data, new Buffer([0x02, 0x33, 0x7A]));
+		assert.throws(() => decodeIntelHex(":0300300002337A1F\n"), /Checksum mismatch on line 1/);
+	});
+	test("S-Record round trip", () => {
+		const data = new Buffer(40);
+		for (let i = 0; i < data.length; i++) { data[i] = i; }
+
+		const srec = encodeSRecord(0x20000000, data, 'test');
+		const lines = srec.trim().split('\n');
+		assert.equal(lines[0], "S00700007465737438");
+		assert.equal(lines[1].substr(0, 2), "S3");
+		assert.equal(lines[lines.length - 2], "S5030003F9");
+		assert.equal(lines[lines.length - 1], "S70500000000FA");
+
+		const blocks = decodeSRecord(srec);
+		assert.equal(blocks.length, 1);
+		assert.equal(blocks[0].address, 0x20000000);
+		assert.deepEqual(blocks[0].data, data);
+	});
+	test("S-Record decoding", () => {
+		const blocks = decodeSRecord("S00F000068656C6C6F202020202000003C\nS11F00007C0802A6900100049421FFF07C6C1B787C8C23783C6000003863000026\nS5030001FB\nS9030000FC\n");
+		assert.equal(blocks.length, 1);
+		assert.equal(blocks[0].address, 0);
+		assert.equal(blocks[0].data.length, 28);
+		assert.throws(() => decodeSRecord("S9030000FD\n"), /Checksum mismatch on line 1/);
+	});
+	test("Adjacent blocks are merged", () => {
+		const blocks = mergeMemoryBlocks([
+			{ address: 0x104, data: new Buffer([3, 4]) },
+			{ address: 0x100, data: new Buffer([1, 2, 3, 4]) },
+			{ address: 0x200, data: new Buffer([5]) }
+		]);
+		assert.equal(blocks.length, 2);
+		assert.equal(blocks[0].address, 0x100);
+		assert.deepEqual(blocks[0].data, new Buffer([1, 2, 3, 4, 3, 4]));
+	});
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { MI2 } from '../src/backend/mi2/mi2';
+import { parseMI, MINode } from '../src/backend/mi_parse';
+
+// Answers each MI command with the next canned reply instead of talking to GDB
+class ScriptedMI2 extends MI2 {
+	public commands: string[] = [];
+
+	constructor(private replies: string[]) {
+		super('gdb', []);
+	}
+
+	public sendCommand(command: string, suppressFailure: boolean = false): Thenable<MINode> {
+		this.commands.push(command);
+		return Promise.resolve(parseMI(this.replies.shift() || '^done'));
+	}
+}
+
+suite("MI2 watchpoints", () => {
+	test("Write watchpoint", async () => {
+		const mi = new ScriptedMI2(['^done,wpt={number="3",exp="counter"}']);
+
+		const wp = await mi.addWatchPoint({ expression: 'counter', accessType: 'write' });
+		assert.deepEqual(mi.commands, ['break-watch "counter"']);
+		assert.equal(wp.number, 3);
+	});
+	test("Read and access watchpoints", async () => {
+		const mi = new ScriptedMI2(['^done,hw-rwpt={number="4",exp="buf[1]"}', '^done,hw-awpt={number="5",exp="\\"s\\""}']);
+
+		const read = await mi.addWatchPoint({ expression: 'buf[1]', accessType: 'read' });
+		const access = await mi.addWatchPoint({ expression: '"s"', accessType: 'readWrite' });
+
+		assert.deepEqual(mi.commands, ['break-watch -r "buf[1]"', 'break-watch -a "\\"s\\""']);
+		assert.equal(read.number, 4);
+		assert.equal(access.number, 5);
+	});
+	test("Conditions and hit counts", async () => {
+		const mi = new ScriptedMI2(['^done,wpt={number="7",exp="x"}']);
+
+		await mi.addWatchPoint({ expression: 'x', accessType: 'write', condition: 'x > 3', countCondition: '>10' });
+		assert.deepEqual(mi.commands, ['break-watch "x"', 'break-condition 7 x > 3', 'break-after 7 10']);
+	});
+	test("Zero or missing hit count", async () => {
+		const mi = new ScriptedMI2(['^done,wpt={number="1",exp="x"}', '^done,wpt={number="2",exp="x"}']);
+
+		await mi.addWatchPoint({ expression: 'x', accessType: 'write', countCondition: '0' });
+		await mi.addWatchPoint({ expression: 'x', accessType: 'write', countCondition: 'often' });
+		assert.deepEqual(mi.commands, ['break-watch "x"', 'break-watch "x"']);
+	});
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { resolveDerivations } from '../src/frontend/svd_derivation';
+
+// Builds elements the way xml2js represents them, with every child element in an array
+function element(name: string, children: any = {}, derivedFrom?: string): any {
+	const result: any = { name: [name], ...children };
+	if (derivedFrom) { result.$ = { derivedFrom: derivedFrom }; }
+	return result;
+}
+
+function field(name: string, offset: number, children: any = {}, derivedFrom?: string): any {
+	return element(name, { bitOffset: [`${offset}`], bitWidth: ['1'], ...children }, derivedFrom);
+}
+
+function register(name: string, offset: number, fields?: any[], derivedFrom?: string): any {
+	return element(name, fields ? { addressOffset: [`${offset}`], fields: [{ field: fields }] } : { addressOffset: [`${offset}`] }, derivedFrom);
+}
+
+function names(elements: any[]): string[] {
+	return elements.map((e) => e.name[0]);
+}
+
+suite("SVD Derivation", () => {
+	test("Derived peripherals", () => {
+		const peripherals = resolveDerivations({
+			TIMER0: element('TIMER0', { baseAddress: ['0x40000000'], registers: [{ register: [register('CTRL', 0), register('COUNT', 4)] }] }),
+			TIMER1: element('TIMER1', { baseAddress: ['0x40001000'] }, 'TIMER0'),
+			TIMER2: element('TIMER2', { baseAddress: ['0x40002000'], registers: [{ register: [register('EXTRA', 8)] }] }, 'TIMER1')
+		});
+
+		assert.deepEqual(names(peripherals), ['TIMER0', 'TIMER1', 'TIMER2']);
+		assert.equal(peripherals[1].baseAddress[0], '0x40001000');
+		assert.deepEqual(names(peripherals[1].registers[0].register), ['CTRL', 'COUNT']);
+		assert.deepEqual(names(peripherals[2].registers[0].register), ['CTRL', 'COUNT', 'EXTRA']);
+		assert.equal(peripherals[2].$.derivedFrom, undefined);
+	});
+	test("Derived registers and fields", () => {
+		const peripherals = resolveDerivations({
+			GPIO: element('GPIO', {
+				registers: [{
+					register: [
+						register('OUT', 0, [field('PIN0', 0, { enumeratedValues: [element('State', { enumeratedValue: [element('High', { value: ['1'] })] })] }),
+							field('PIN1', 1, { enumeratedValues: [{ $: { derivedFrom: 'State' } }] })]),
+						register('OUTSET', 4, null, 'OUT'),
+						register('DIR', 8, [field('PIN0', 0, {}, 'GPIO.OUT.PIN0'), field('PIN2', 2, {}, 'PIN0')])
+					]
+				}]
+			})
+		});
+
+		const registers = peripherals[0].registers[0].register;
+		assert.equal(registers[1].addressOffset[0], '4');
+		assert.deepEqual(names(registers[1].fields[0].field), ['PIN0', 'PIN1']);
+		assert.equal(registers[0].fields[0].field[1].enumeratedValues[0].enumeratedValue[0].name[0], 'High');
+
+		const dir = registers[2].fields[0].field;
+		assert.equal(dir[0].enumeratedValues[0].name[0], 'State');
+		assert.equal(dir[1].bitOffset[0], '2');
+		assert.equal(dir[1].enumeratedValues[0].name[0], 'State');
+	});
+	test("Derived and nested clusters", () => {
+		const channel = element('CH[%s]', { dim: ['4'], dimIncrement: ['0x10'], addressOffset: ['0'], register: [register('CFG', 0)], cluster: [
+			element('STAT', { addressOffset: ['8'], register: [register('FLAGS', 0)] })
+		] });
+		const peripherals = resolveDerivations({
+			DMA: element('DMA', { registers: [{ cluster: [channel, element('CHX', { addressOffset: ['0x40'], register: [register('EXT', 12)] }, 'CH[%s]')] }] })
+		});
+
+		const clusters = peripherals[0].registers[0].cluster;
+		assert.deepEqual(names(clusters[1].register), ['CFG', 'EXT']);
+		assert.equal(clusters[1].addressOffset[0], '0x40');
+		assert.equal(clusters[1].cluster[0].register[0].name[0], 'FLAGS');
+	});
+	test("Invalid derivations", () => {
+		assert.throws(() => resolveDerivations({ A: element('A', {}, 'B') }), /does not exist/);
+		assert.throws(() => resolveDerivations({ A: element('A', {}, 'B'), B: element('B', {}, 'A') }), /circular/);
+		assert.throws(() => resolveDerivations({ A: element('A', { registers: [{ register: [register('R', 0, null, 'S')] }] }) }), /does not exist/);
+	});
+});
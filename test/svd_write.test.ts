@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+import { ModifiedWriteValues, neutralWriteValue, fieldWriteValue, WriteField } from '../src/frontend/svd_write';
+
+// A status register with two write 1 to clear flags, a write 0 to clear flag, a plain control field and an enable bit
+const STATUS_FIELDS: WriteField[] = [
+	{ offset: 0, width: 1, modifiedWriteValues: ModifiedWriteValues.OneToClear },
+	{ offset: 1, width: 1, modifiedWriteValues: ModifiedWriteValues.OneToClear },
+	{ offset: 2, width: 2, modifiedWriteValues: ModifiedWriteValues.ZeroToClear },
+	{ offset: 4, width: 4, modifiedWriteValues: undefined },
+	{ offset: 31, width: 1, modifiedWriteValues: ModifiedWriteValues.Modify }
+];
+
+suite("SVD write values", () => {
+	test("Neutral values", () => {
+		assert.equal(neutralWriteValue(ModifiedWriteValues.OneToClear, 1, 1), 0);
+		assert.equal(neutralWriteValue(ModifiedWriteValues.OneToSet, 0x5, 4), 0);
+		assert.equal(neutralWriteValue(ModifiedWriteValues.OneToToggle, 0x5, 4), 0);
+		assert.equal(neutralWriteValue(ModifiedWriteValues.ZeroToClear, 0, 1), 1);
+		assert.equal(neutralWriteValue(ModifiedWriteValues.ZeroToSet, 0x5, 4), 0xF);
+		assert.equal(neutralWriteValue(ModifiedWriteValues.ZeroToToggle, 0, 32), 0xFFFFFFFF);
+		assert.equal(neutralWriteValue(ModifiedWriteValues.Modify, 0x5, 4), 0x5);
+		assert.equal(neutralWriteValue(undefined, 0x5, 4), 0x5);
+	});
+	test("Set write 1 to clear flags are not cleared", () => {
+		// Both W1C flags set, the W0C field clear, control 0x3
+		assert.equal(fieldWriteValue(0x00000033, STATUS_FIELDS, 4, 4, 0xA), 0x000000AC);
+	});
+	test("Clear write 0 to clear flags are not cleared", () => {
+		assert.equal(fieldWriteValue(0x00000000, STATUS_FIELDS, 31, 1, 1), 0x8000000C);
+	});
+	test("Writing a write 1 to clear flag", () => {
+		// Only the flag that is written is cleared
+		assert.equal(fieldWriteValue(0x00000053, STATUS_FIELDS, 1, 1, 1), 0x0000005E);
+	});
+	test("Writing a write 0 to clear field", () => {
+		assert.equal(fieldWriteValue(0x8000002F, STATUS_FIELDS, 2, 2, 0), 0x80000020);
+	});
+	test("Registers without modified write values", () => {
+		const fields: WriteField[] = [
+			{ offset: 0, width: 16, modifiedWriteValues: undefined },
+			{ offset: 16, width: 16, modifiedWriteValues: undefined }
+		];
+		assert.equal(fieldWriteValue(0xDEAD1234, fields, 0, 16, 0xBEEF), 0xDEADBEEF);
+		assert.equal(fieldWriteValue(0x00001234, fields, 16, 16, 0xFFFF), 0xFFFF1234);
+	});
+	test("Bits outside the fields are kept", () => {
+		assert.equal(fieldWriteValue(0x0F000000, STATUS_FIELDS, 4, 4, 0x1), 0x0F00001C);
+	});
+});
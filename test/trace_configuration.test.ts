@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+import { SWOConfiguration } from '../src/common';
+import {
+	traceConfigurationWrites, memoryWriteCommands, calculateSWOPrescaler, dwtComparatorWrites, TraceRegisterWrite,
+	DEMCR, ITM_TCR, ITM_TER, ITM_TPR, DWT_CTRL, DWT_CYCCNT, DWT_COMP0, DWT_MASK0, DWT_FUNCTION0, TPIU_ACPR
+} from '../src/trace_configuration';
+
+function configuration(settings: any): SWOConfiguration {
+	return {
+		enabled: true, cpuFrequency: 72000000, swoFrequency: 2000000, decoders: [{ type: 'console', port: 0 }], profile: false,
+		source: 'probe', timestamps: false, timestampPrescaler: 1, captureFile: undefined, ...settings
+	};
+}
+
+function find(writes: TraceRegisterWrite[], address: number): TraceRegisterWrite {
+	return writes.find((w) => w.address === address);
+}
+
+suite("Trace configuration", () => {
+	test("Default configuration", () => {
+		const writes = traceConfigurationWrites(configuration({}), { configureTPIU: true });
+
+		assert.equal(writes[0].address, DEMCR);
+		assert.equal(writes[writes.length - 1].address, ITM_TCR);
+		assert.equal(find(writes, TPIU_ACPR).value, 35);
+		assert.equal(find(writes, ITM_TER).value, 0x1);
+		assert.equal(find(writes, ITM_TPR).value, 0);
+		// ITMENA, SYNCENA, TXENA and trace bus id 1
+		assert.equal(find(writes, ITM_TCR).value, 0x1000D);
+		// CYCCNTENA, POSTPRESET and POSTINIT 15, CYCTAP 1024 cycles and SYNCTAP every 64M cycles
+		assert.equal(find(writes, DWT_CTRL).value, 0xBFF);
+		assert.equal(find(writes, DWT_CYCCNT), undefined);
+
+		assert.equal(find(traceConfigurationWrites(configuration({}), { configureTPIU: false }), TPIU_ACPR), undefined);
+	});
+	test("Configured options", () => {
+		const writes = traceConfigurationWrites(configuration({
+			timestamps: true, timestampPrescaler: 16, globalTimestamps: '8192', syncPacketRate: 'disabled', privilegeMask: 0x9, profile: true,
+			pcSampleRate: { cycTap: 64, postPreset: 3, postInit: 1 },
+			decoders: [{ type: 'console', port: 0 }, { type: 'advanced', ports: [2, 9] }, { type: 'dwt', eventCounters: ['exc', 'SLEEP'] }]
+		}), { configureTPIU: true });
+
+		assert.equal(find(writes, ITM_TER).value, 0x205);
+		assert.equal(find(writes, ITM_TPR).value, 0x9);
+		// ITMENA, TSENA, TXENA, TSPrescale 2 (16), GTSFREQ 2 (8192) and trace bus id 1
+		assert.equal(find(writes, ITM_TCR).value, 0x10A0B);
+		// CYCCNTENA, POSTPRESET 3, POSTINIT 1, PCSAMPLENA, EXCTRCENA, EXCEVTENA and SLEEPEVTENA
+		assert.equal(find(writes, DWT_CTRL).value, 0xD1027);
+		assert.equal(find(writes, DWT_CYCCNT).value, 0);
+		assert.ok(writes.indexOf(find(writes, DWT_CYCCNT)) < writes.indexOf(find(writes, DWT_CTRL)));
+	});
+	test("Event counters", () => {
+		const control = (eventCounters: any) => find(traceConfigurationWrites(configuration({
+			decoders: [{ type: 'dwt', exceptions: false, eventCounters: eventCounters }]
+		}), { configureTPIU: true }), DWT_CTRL).value;
+
+		assert.equal(control(undefined), 0xBFF);
+		assert.equal(control(false), 0xBFF);
+		assert.equal(control(true), 0x7E0BFF);
+		assert.equal(control(['CYC']), 0x400BFF);
+	});
+	test("Data trace comparators", () => {
+		const writes = dwtComparatorWrites([
+			null,
+			{ address: '0x20000100', size: 2, access: 'read' },
+			{ symbol: 'counter', access: 'readwrite', pc: true },
+			{ size: 4 }
+		]);
+
+		assert.deepEqual(writes, [
+			{ address: DWT_FUNCTION0 + 0x10, value: 0 },
+			{ address: DWT_COMP0 + 0x10, value: 0x20000100 },
+			{ address: DWT_MASK0 + 0x10, value: 1 },
+			{ address: DWT_FUNCTION0 + 0x10, value: 0xC },
+			{ address: DWT_FUNCTION0 + 0x20, value: 0 },
+			{ address: DWT_COMP0 + 0x20, value: 0, expression: '&(counter)' },
+			{ address: DWT_MASK0 + 0x20, value: 2 },
+			{ address: DWT_FUNCTION0 + 0x20, value: 0x3 }
+		]);
+		assert.equal(memoryWriteCommands([writes[5]])[1], 'interpreter-exec console "set *(unsigned int *)0xe0001040 = (unsigned int)(&(counter))"');
+
+		const configured = traceConfigurationWrites(configuration({ decoders: [{ type: 'dwt', comparators: [{ address: 0x20000000 }] }] }), { configureTPIU: true });
+		assert.equal(find(configured, DWT_FUNCTION0 + 0x0).value, 0);
+		assert.ok(configured.indexOf(find(configured, DWT_COMP0)) < configured.indexOf(find(configured, ITM_TCR)));
+	});
+	test("SWO prescaler", () => {
+		assert.equal(calculateSWOPrescaler(72000000, 2000000), 35);
+		assert.equal(calculateSWOPrescaler(2000000, 4000000), 0);
+		assert.equal(calculateSWOPrescaler(0, 0), 0);
+	});
+	test("Memory write commands", () => {
+		const commands = memoryWriteCommands([{ address: ITM_TER, value: 0x5 }, { address: DEMCR, value: 0x1000000, mask: 0x1000000 }]);
+		assert.deepEqual(commands, [
+			'interpreter-exec console "set language c"',
+			'interpreter-exec console "set *(unsigned int *)0xe0000e00 = 0x5"',
+			'interpreter-exec console "set *(unsigned int *)0xe000edfc = (*(unsigned int *)0xe000edfc & 0xfeffffff) | 0x1000000"',
+			'interpreter-exec console "set language auto"'
+		]);
+	});
+});
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { parseFormatSpecifier, resolveVariableFormat, variableObjectFormat, formatChar } from '../src/backend/variable_format';
+import { NumberFormat } from '../src/common';
+
+suite("Variable Format", () => {
+	test("Format specifiers", () => {
+		assert.deepEqual(parseFormatSpecifier('count,x'), { expression: 'count', format: NumberFormat.Hexidecimal });
+		assert.deepEqual(parseFormatSpecifier('buffer[2] , c'), { expression: 'buffer[2]', format: NumberFormat.Char });
+		assert.deepEqual(parseFormatSpecifier('flags,b'), { expression: 'flags', format: NumberFormat.Binary });
+		assert.deepEqual(parseFormatSpecifier('max(a,b)'), { expression: 'max(a,b)', format: undefined });
+		assert.deepEqual(parseFormatSpecifier('count,q'), { expression: 'count,q', format: undefined });
+	});
+	test("Format precedence", () => {
+		assert.equal(resolveVariableFormat(undefined, undefined, false), NumberFormat.Auto);
+		assert.equal(resolveVariableFormat(undefined, undefined, true), NumberFormat.Hexidecimal);
+		assert.equal(resolveVariableFormat(undefined, { hex: false }, true), NumberFormat.Auto);
+		assert.equal(resolveVariableFormat(NumberFormat.Auto, { hex: true }, false), NumberFormat.Hexidecimal);
+		assert.equal(resolveVariableFormat(NumberFormat.Decimal, { hex: true }, true), NumberFormat.Decimal);
+		assert.equal(variableObjectFormat(NumberFormat.Binary), 'binary');
+		assert.equal(variableObjectFormat(NumberFormat.Char), 'decimal');
+	});
+	test("Characters", () => {
+		assert.equal(formatChar('65'), `65 'A'`);
+		assert.equal(formatChar('10'), `10 '\\n'`);
+		assert.equal(formatChar('-1'), `-1 '\\377'`);
+		assert.equal(formatChar('2'), `2 '\\002'`);
+		assert.equal(formatChar('{...}'), '{...}');
+	});
+});